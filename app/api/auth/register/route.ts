@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { readJsonBody, validationErrorResponse } from '@/lib/api-response';
+import { hashPassword } from '@/lib/auth';
+import { validateRegisterBody } from '@/lib/validation';
+
+// POST create a user account
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = validateRegisterBody(await readJsonBody(request));
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.issues);
+    }
+    const { email, password, name } = parsed.data;
+
+    const existing = await prisma.user.findUnique({ where: { email }, select: { id: true } });
+    if (existing) {
+      return NextResponse.json({ error: 'An account with this email already exists' }, { status: 409 });
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        email,
+        name,
+        passwordHash: await hashPassword(password),
+      },
+    });
+
+    return NextResponse.json({ id: user.id, email: user.email, name: user.name }, { status: 201 });
+  } catch (error) {
+    console.error('Error registering user:', error);
+    return NextResponse.json({ error: 'Failed to create account' }, { status: 500 });
+  }
+}
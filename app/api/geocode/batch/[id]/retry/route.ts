@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readJsonBody, validationErrorResponse } from '@/lib/api-response';
+import { retryGeocodeJob } from '@/lib/geocode-jobs';
+import { requireUser } from '@/lib/map-access';
+import { validateGeocodeRetryBody } from '@/lib/validation';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// POST queue a job's failed and not found addresses again ({ indexes?: [...] } to pick them)
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const auth = await requireUser();
+    if (!auth.ok) return auth.response;
+
+    const parsed = validateGeocodeRetryBody(await readJsonBody(request));
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.issues);
+    }
+
+    const job = await retryGeocodeJob(id, auth.user.id, parsed.data.indexes);
+    if (!job) {
+      return NextResponse.json({ error: 'Geocoding job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(job);
+  } catch (error) {
+    console.error('Error retrying geocoding job:', error);
+    return NextResponse.json({ error: 'Failed to retry geocoding job' }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validationErrorResponse } from '@/lib/api-response';
+import { deleteGeocodeJob, getGeocodeJob } from '@/lib/geocode-jobs';
+import { requireUser } from '@/lib/map-access';
+import { validateGeocodeJobQuery } from '@/lib/validation';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// GET a geocoding job's progress and the answer for each address.
+// `?since=<cursor>` returns only the items changed after a previous response.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const auth = await requireUser();
+    if (!auth.ok) return auth.response;
+
+    const parsed = validateGeocodeJobQuery(request.nextUrl.searchParams);
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.issues);
+    }
+
+    const job = await getGeocodeJob(id, auth.user.id, parsed.data.since ?? undefined);
+    if (!job) {
+      return NextResponse.json({ error: 'Geocoding job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(job);
+  } catch (error) {
+    console.error('Error fetching geocoding job:', error);
+    return NextResponse.json({ error: 'Failed to fetch geocoding job' }, { status: 500 });
+  }
+}
+
+// DELETE cancel a geocoding job and discard its results
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const auth = await requireUser();
+    if (!auth.ok) return auth.response;
+
+    if (!(await deleteGeocodeJob(id, auth.user.id))) {
+      return NextResponse.json({ error: 'Geocoding job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting geocoding job:', error);
+    return NextResponse.json({ error: 'Failed to delete geocoding job' }, { status: 500 });
+  }
+}
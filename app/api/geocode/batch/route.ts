@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readJsonBody, validationErrorResponse } from '@/lib/api-response';
+import { createGeocodeJob } from '@/lib/geocode-jobs';
+import { requireUser } from '@/lib/map-access';
+import { validateGeocodeBatchBody } from '@/lib/validation';
+
+// POST queue addresses for geocoding on the server ({ addresses: [...], bounds? }).
+// Poll GET /api/geocode/batch/[id] for progress and per-address results.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser();
+    if (!auth.ok) return auth.response;
+
+    const parsed = validateGeocodeBatchBody(await readJsonBody(request));
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.issues);
+    }
+
+    const job = await createGeocodeJob(auth.user.id, parsed.data.addresses, parsed.data.bounds);
+    return NextResponse.json(job, { status: 201 });
+  } catch (error) {
+    console.error('Error creating geocoding job:', error);
+    return NextResponse.json({ error: 'Failed to create geocoding job' }, { status: 500 });
+  }
+}
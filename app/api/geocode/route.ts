@@ -1,81 +1,42 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { readJsonBody, validationErrorResponse } from '@/lib/api-response';
+import { geocode } from '@/lib/geocoding';
+import { validateGeocodeBody } from '@/lib/validation';
 
+// POST geocode one address ({ address, bounds?, limit? }). The top-level fields
+// describe the best candidate; `candidates` lists up to `limit` of them, best first.
 export async function POST(request: NextRequest) {
   try {
-    const { address } = await request.json();
-
-    if (!address) {
-      return NextResponse.json({ error: 'Address is required' }, { status: 400 });
+    const parsed = validateGeocodeBody(await readJsonBody(request));
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.issues);
     }
 
-    const googleApiKey = process.env.GOOGLE_MAPS_API_KEY;
-
-    // Try Google Maps Geocoding API first (more accurate)
-    if (googleApiKey && googleApiKey !== 'YOUR_API_KEY_HERE') {
-      try {
-        const encodedAddress = encodeURIComponent(address);
-        const googleResponse = await fetch(
-          `https://maps.googleapis.com/maps/api/geocode/json?address=${encodedAddress}&key=${googleApiKey}`
-        );
-
-        if (googleResponse.ok) {
-          const googleData = await googleResponse.json();
-
-          if (googleData.status === 'OK' && googleData.results.length > 0) {
-            const result = googleData.results[0];
-            return NextResponse.json({
-              lat: result.geometry.location.lat,
-              lng: result.geometry.location.lng,
-              display_name: result.formatted_address,
-              source: 'google',
-            });
-          }
-
-          // Handle specific Google API errors
-          if (googleData.status === 'OVER_QUERY_LIMIT') {
-            console.warn(`Google API quota exceeded for "${address}". Trying OpenStreetMap fallback...`);
-          } else if (googleData.status === 'ZERO_RESULTS') {
-            console.log(`Google geocoding found no results for "${address}"`);
-          } else {
-            console.log(`Google geocoding failed for "${address}": ${googleData.status}`);
-          }
-        }
-      } catch (googleError) {
-        console.error('Google geocoding error:', googleError);
-        // Fall through to OpenStreetMap
-      }
-    }
-
-    // Fallback to OpenStreetMap Nominatim (free, but less accurate)
-    const encodedAddress = encodeURIComponent(address);
-    const osmResponse = await fetch(
-      `https://nominatim.openstreetmap.org/search?q=${encodedAddress}&format=json&limit=1`,
-      {
-        headers: {
-          'User-Agent': 'MapConfigurator/1.0', // Required by Nominatim
-        },
-      }
-    );
-
-    if (!osmResponse.ok) {
-      console.error('OSM geocoding failed:', osmResponse.statusText);
-      return NextResponse.json({ error: 'Geocoding failed' }, { status: osmResponse.status });
-    }
-
-    const osmData = await osmResponse.json();
-
-    if (osmData.length > 0) {
-      return NextResponse.json({
-        lat: parseFloat(osmData[0].lat),
-        lng: parseFloat(osmData[0].lon),
-        display_name: osmData[0].display_name,
-        source: 'openstreetmap',
-      });
+    // Providers and caching are configured through GEOCODE_PROVIDERS and GEOCODE_CACHE_TTL_DAYS (see lib/geocoding)
+    const { address, ...options } = parsed.data;
+    const result = await geocode(address, options);
+    if (!result) {
+      return NextResponse.json({ error: 'Address not found' }, { status: 404 });
     }
 
-    return NextResponse.json({ error: 'Address not found' }, { status: 404 });
+    const candidates = result.candidates.map(candidate => ({
+      lat: candidate.lat,
+      lng: candidate.lng,
+      display_name: candidate.displayName,
+      confidence: candidate.confidence,
+      match_type: candidate.matchType,
+      in_bounds: candidate.inBounds,
+    }));
+
+    return NextResponse.json({
+      ...candidates[0],
+      ambiguous: result.ambiguous,
+      source: result.source,
+      cache: result.cache,
+      candidates,
+    });
   } catch (error) {
     console.error('Geocoding error:', error);
     return NextResponse.json({ error: 'Failed to geocode address' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
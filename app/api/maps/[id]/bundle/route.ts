@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { authorizeMap } from '@/lib/map-access';
+import { createMapBundle } from '@/lib/map-bundle';
+import { exportFilename } from '@/lib/map-export';
+import { includeMapContent, serializeMap } from '@/lib/map-serializer';
+
+// GET the draft with its levels, zones and media as a bundle archive (.tar.gz),
+// for backups and for moving maps between installations (see POST /api/maps/import)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const access = await authorizeMap(id, 'viewer');
+    if (!access.ok) return access.response;
+
+    const map = serializeMap(await prisma.map.findUniqueOrThrow({
+      where: { id },
+      include: includeMapContent,
+    }));
+    const archive = await createMapBundle(map);
+
+    return new NextResponse(new Uint8Array(archive), {
+      headers: {
+        'Content-Type': 'application/gzip',
+        'Content-Disposition': `attachment; filename="${exportFilename(map.title, 'mapbundle.tar.gz')}"`,
+        'Content-Length': String(archive.length),
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting map bundle:', error);
+    return NextResponse.json({ error: 'Failed to export map bundle' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { authorizeMap } from '@/lib/map-access';
+import { EXPORT_FORMATS, ExportFormat, exportMap } from '@/lib/map-export';
+import { includeMapContent, serializeMap, serializePublishedMap } from '@/lib/map-serializer';
+
+// GET the map's zones as a download: ?format=geojson|kml|csv (default geojson).
+// Exports the published version like GET /api/maps/[id]; ?preview=draft exports the draft (members only).
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const format = (request.nextUrl.searchParams.get('format') || 'geojson') as ExportFormat;
+    const preview = request.nextUrl.searchParams.get('preview');
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Unsupported format, expected one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeMap(id, preview === 'draft' ? 'viewer' : 'public');
+    if (!access.ok) return access.response;
+
+    const record = await prisma.map.findUniqueOrThrow({
+      where: { id },
+      include: includeMapContent,
+    });
+    const map = (preview === 'draft' ? null : serializePublishedMap(record)) ?? serializeMap(record);
+
+    const exported = exportMap(map, format);
+    if (!exported) {
+      return NextResponse.json({ error: 'Map has no geographic bounds to export' }, { status: 400 });
+    }
+
+    return new NextResponse(exported.body, {
+      headers: {
+        'Content-Type': `${exported.contentType}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="${exported.filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting map:', error);
+    return NextResponse.json({ error: 'Failed to export map' }, { status: 500 });
+  }
+}
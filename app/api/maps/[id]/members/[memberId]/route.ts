@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { readJsonBody, validationErrorResponse } from '@/lib/api-response';
+import { authorizeMap, listMapMembers } from '@/lib/map-access';
+import { validateMemberRoleBody } from '@/lib/validation';
+
+type RouteParams = { params: Promise<{ id: string; memberId: string }> };
+
+/**
+ * Whether removing or demoting this member would leave the map without an owner
+ */
+async function isLastOwner(mapId: string, member: { role: string }): Promise<boolean> {
+  if (member.role !== 'owner') return false;
+  const owners = await prisma.mapMember.count({ where: { mapId, role: 'owner' } });
+  return owners <= 1;
+}
+
+// PATCH change a member's role (owners only)
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, memberId } = await params;
+    const access = await authorizeMap(id, 'owner');
+    if (!access.ok) return access.response;
+
+    const parsed = validateMemberRoleBody(await readJsonBody(request));
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.issues);
+    }
+
+    const member = await prisma.mapMember.findFirst({ where: { id: memberId, mapId: id } });
+    if (!member) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+    if (parsed.data.role !== 'owner' && await isLastOwner(id, member)) {
+      return NextResponse.json({ error: 'A map needs at least one owner' }, { status: 409 });
+    }
+
+    await prisma.mapMember.update({
+      where: { id: memberId },
+      data: { role: parsed.data.role },
+    });
+
+    return NextResponse.json(await listMapMembers(id));
+  } catch (error) {
+    console.error('Error updating member:', error);
+    return NextResponse.json({ error: 'Failed to update member' }, { status: 500 });
+  }
+}
+
+// DELETE remove a member (owners, or any member removing themselves)
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, memberId } = await params;
+    const access = await authorizeMap(id, 'viewer');
+    if (!access.ok) return access.response;
+
+    const member = await prisma.mapMember.findFirst({ where: { id: memberId, mapId: id } });
+    if (!member) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+    if (access.role !== 'owner' && member.userId !== access.user?.id) {
+      return NextResponse.json({ error: 'This action requires the owner role' }, { status: 403 });
+    }
+    if (await isLastOwner(id, member)) {
+      return NextResponse.json({ error: 'A map needs at least one owner' }, { status: 409 });
+    }
+
+    await prisma.mapMember.delete({ where: { id: memberId } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error removing member:', error);
+    return NextResponse.json({ error: 'Failed to remove member' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { readJsonBody, validationErrorResponse } from '@/lib/api-response';
+import { authorizeMap, listMapMembers } from '@/lib/map-access';
+import { validateAddMemberBody } from '@/lib/validation';
+
+// GET members of a map
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const access = await authorizeMap(id, 'viewer');
+    if (!access.ok) return access.response;
+
+    return NextResponse.json(await listMapMembers(id));
+  } catch (error) {
+    console.error('Error fetching members:', error);
+    return NextResponse.json({ error: 'Failed to fetch members' }, { status: 500 });
+  }
+}
+
+// POST add a member by email (owners only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const access = await authorizeMap(id, 'owner');
+    if (!access.ok) return access.response;
+
+    const parsed = validateAddMemberBody(await readJsonBody(request));
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.issues);
+    }
+    const { email, role } = parsed.data;
+
+    const user = await prisma.user.findUnique({ where: { email }, select: { id: true } });
+    if (!user) {
+      return NextResponse.json({ error: 'No account exists for this email' }, { status: 404 });
+    }
+
+    const existing = await prisma.mapMember.findUnique({
+      where: { mapId_userId: { mapId: id, userId: user.id } },
+      select: { id: true },
+    });
+    if (existing) {
+      return NextResponse.json({ error: 'This user is already a member of the map' }, { status: 409 });
+    }
+
+    await prisma.mapMember.create({
+      data: { mapId: id, userId: user.id, role },
+    });
+
+    return NextResponse.json(await listMapMembers(id), { status: 201 });
+  } catch (error) {
+    console.error('Error adding member:', error);
+    return NextResponse.json({ error: 'Failed to add member' }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { authorizeMap } from '@/lib/map-access';
+import { includeMapContent, serializeMap, toMapSnapshot } from '@/lib/map-serializer';
+
+// POST publish: promote the current draft to the version viewers see
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const access = await authorizeMap(id, 'editor');
+    if (!access.ok) return access.response;
+
+    // Read the draft and write the snapshot in one transaction so a concurrent
+    // save can't end up half-published
+    const map = await prisma.$transaction(async (tx) => {
+      const draft = await tx.map.findUnique({ where: { id }, include: includeMapContent });
+      if (!draft) return null;
+
+      // Stamp updatedAt with the publish time so listings can spot later edits
+      const publishedAt = new Date();
+      return tx.map.update({
+        where: { id },
+        data: {
+          published: true,
+          publishedSnapshot: JSON.stringify(toMapSnapshot(serializeMap(draft))),
+          publishedAt,
+          updatedAt: publishedAt,
+        },
+        include: includeMapContent,
+      });
+    });
+
+    if (!map) {
+      return NextResponse.json({ error: 'Map not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ ...serializeMap(map), role: access.role });
+  } catch (error) {
+    console.error('Error publishing map:', error);
+    return NextResponse.json({ error: 'Failed to publish map' }, { status: 500 });
+  }
+}
+
+// DELETE unpublish: take the map offline (the draft is kept)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const access = await authorizeMap(id, 'editor');
+    if (!access.ok) return access.response;
+
+    const map = await prisma.map.update({
+      where: { id },
+      data: {
+        published: false,
+        publishedSnapshot: null,
+        publishedAt: null,
+      },
+      include: includeMapContent,
+    });
+
+    return NextResponse.json({ ...serializeMap(map), role: access.role });
+  } catch (error) {
+    console.error('Error unpublishing map:', error);
+    return NextResponse.json({ error: 'Failed to unpublish map' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readJsonBody, validationErrorResponse } from '@/lib/api-response';
+import { displayName } from '@/lib/auth';
+import { authorizeMap } from '@/lib/map-access';
+import { ensureBaselineRevision, restoreMapRevision } from '@/lib/map-revisions';
+import { validateRestoreBody } from '@/lib/validation';
+
+type RouteParams = { params: Promise<{ id: string; revisionId: string }> };
+
+// POST restore a revision into the draft
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, revisionId } = await params;
+    const access = await authorizeMap(id, 'editor');
+    if (!access.ok) return access.response;
+
+    const parsed = validateRestoreBody(await readJsonBody(request));
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.issues);
+    }
+
+    await ensureBaselineRevision(id);
+    const restored = await restoreMapRevision(id, revisionId, {
+      author: displayName(access.user),
+      message: parsed.data.message,
+    });
+    if (!restored) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(restored);
+  } catch (error) {
+    console.error('Error restoring revision:', error);
+    return NextResponse.json({ error: 'Failed to restore revision' }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { authorizeMap } from '@/lib/map-access';
+import { serializeRevision } from '@/lib/map-revisions';
+
+type RouteParams = { params: Promise<{ id: string; revisionId: string }> };
+
+// GET a single revision with its snapshot
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, revisionId } = await params;
+    const access = await authorizeMap(id, 'viewer');
+    if (!access.ok) return access.response;
+
+    const revision = await prisma.mapRevision.findFirst({
+      where: { id: revisionId, mapId: id },
+    });
+
+    if (!revision) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(serializeRevision(revision));
+  } catch (error) {
+    console.error('Error fetching revision:', error);
+    return NextResponse.json({ error: 'Failed to fetch revision' }, { status: 500 });
+  }
+}
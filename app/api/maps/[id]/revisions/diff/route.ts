@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { authorizeMap } from '@/lib/map-access';
+import { loadMapSnapshot, serializeRevision } from '@/lib/map-revisions';
+import { diffSnapshots } from '@/lib/revision-diff';
+import { MapSnapshot, RevisionDiff } from '@/lib/types';
+
+const CURRENT = 'current';
+
+// GET zone-by-zone diff between two revisions: ?from=<revisionId>&to=<revisionId|current>
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const access = await authorizeMap(id, 'viewer');
+    if (!access.ok) return access.response;
+
+    const from = request.nextUrl.searchParams.get('from');
+    const to = request.nextUrl.searchParams.get('to') || CURRENT;
+
+    if (!from) {
+      return NextResponse.json({ error: 'Missing "from" revision' }, { status: 400 });
+    }
+
+    const loadSnapshot = async (revisionId: string): Promise<MapSnapshot | null> => {
+      if (revisionId === CURRENT) {
+        return loadMapSnapshot(id);
+      }
+      const revision = await prisma.mapRevision.findFirst({ where: { id: revisionId, mapId: id } });
+      return revision ? serializeRevision(revision).snapshot : null;
+    };
+
+    const [fromSnapshot, toSnapshot] = await Promise.all([loadSnapshot(from), loadSnapshot(to)]);
+    if (!fromSnapshot || !toSnapshot) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+
+    const diff: RevisionDiff = { from, to, ...diffSnapshots(fromSnapshot, toSnapshot) };
+    return NextResponse.json(diff);
+  } catch (error) {
+    console.error('Error diffing revisions:', error);
+    return NextResponse.json({ error: 'Failed to diff revisions' }, { status: 500 });
+  }
+}
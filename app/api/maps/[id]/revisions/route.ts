@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { authorizeMap } from '@/lib/map-access';
+import { serializeRevisionSummary } from '@/lib/map-revisions';
+
+// GET revision history of a map (newest first, without snapshot bodies)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const access = await authorizeMap(id, 'viewer');
+    if (!access.ok) return access.response;
+
+    const revisions = await prisma.mapRevision.findMany({
+      where: { mapId: id },
+      select: { id: true, mapId: true, author: true, message: true, createdAt: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json(revisions.map(serializeRevisionSummary));
+  } catch (error) {
+    console.error('Error fetching revisions:', error);
+    return NextResponse.json({ error: 'Failed to fetch revisions' }, { status: 500 });
+  }
+}
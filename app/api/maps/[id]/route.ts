@@ -1,101 +1,126 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { readJsonBody, validationErrorResponse } from '@/lib/api-response';
+import { displayName } from '@/lib/auth';
+import { authorizeMap } from '@/lib/map-access';
+import { ensureBaselineRevision, recordMapRevision, updateMapDraft } from '@/lib/map-revisions';
+import { includeMapContent, serializeMap, serializePublishedMap } from '@/lib/map-serializer';
+import { validateUpdateMapBody } from '@/lib/validation';
+import { syncMapLevels } from '@/lib/level-store';
+import { syncMapZones } from '@/lib/zone-store';
 
-// GET single map by ID
+// GET single map by ID: the published version, or the draft with ?preview=draft (members only).
+// Members also get the draft while the map has never been published.
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
-    const map = await prisma.map.findUnique({
+    const preview = request.nextUrl.searchParams.get('preview');
+
+    const access = await authorizeMap(id, preview === 'draft' ? 'viewer' : 'public');
+    if (!access.ok) return access.response;
+    const role = access.role ?? undefined;
+
+    const map = await prisma.map.findUniqueOrThrow({
       where: { id },
-      include: {
-        zones: true,
-      },
+      include: includeMapContent,
     });
 
-    if (!map) {
-      return NextResponse.json({ error: 'Map not found' }, { status: 404 });
+    const published = preview === 'draft' ? null : serializePublishedMap(map);
+    if (!published) {
+      return NextResponse.json({ ...serializeMap(map), role });
     }
 
-    return NextResponse.json(map);
+    return NextResponse.json({ ...published, role });
   } catch (error) {
     console.error('Error fetching map:', error);
     return NextResponse.json({ error: 'Failed to fetch map' }, { status: 500 });
   }
 }
 
-// PUT update map
+// PUT update the draft (publishing is a separate action, see ./publish)
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
-    const body = await request.json();
-    const { title, description, published, categories, zones, aiNavigatorEnabled, aiNavigatorPrompt } = body;
+    const access = await authorizeMap(id, 'editor');
+    if (!access.ok) return access.response;
 
-    // Update map
-    const map = await prisma.map.update({
-      where: { id },
-      data: {
-        title,
-        description,
-        published,
-        ...(categories !== undefined && {
-          categories: categories && categories.length > 0 ? JSON.stringify(categories) : null,
-        }),
-        ...(aiNavigatorEnabled !== undefined && {
-          aiNavigatorEnabled,
-        }),
-        ...(aiNavigatorPrompt !== undefined && {
-          aiNavigatorPrompt,
-        }),
-      },
-    });
-
-    // If zones are provided, update them
-    if (zones) {
-      // Delete existing zones
-      await prisma.zone.deleteMany({
-        where: { mapId: id },
-      });
-
-      // Create new zones
-      await prisma.zone.createMany({
-        data: zones.map((zone: any) => ({
-          mapId: id,
-          type: zone.type,
-          coordinates: JSON.stringify(zone.coordinates),
-          content: JSON.stringify(zone.content),
-          style: zone.style ? JSON.stringify(zone.style) : null,
-        })),
-      });
+    const parsed = validateUpdateMapBody(await readJsonBody(request));
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.issues);
     }
 
+    const { title, description, geographicBounds, canvasConfig, categories, levels, zones, aiNavigatorEnabled, aiNavigatorPrompt, message } = parsed.data;
+
+    // A failed level or zone sync rolls back the whole save, revision included
+    await prisma.$transaction(async (tx) => {
+      await ensureBaselineRevision(id, tx);
+
+      await updateMapDraft(id, async () => {
+        // Update map
+        await tx.map.update({
+          where: { id },
+          data: {
+            title,
+            description,
+            ...(geographicBounds !== undefined && {
+              geographicBounds: geographicBounds ? JSON.stringify(geographicBounds) : null,
+            }),
+            ...(canvasConfig !== undefined && {
+              canvasConfig: JSON.stringify(canvasConfig),
+            }),
+            ...(categories !== undefined && {
+              categories: categories.length > 0 ? JSON.stringify(categories) : null,
+            }),
+            ...(aiNavigatorEnabled !== undefined && {
+              aiNavigatorEnabled,
+            }),
+            ...(aiNavigatorPrompt !== undefined && {
+              aiNavigatorPrompt,
+            }),
+          },
+        });
+
+        // Levels go first so zones can reference levels created in the same request
+        const levelIdMap = levels ? (await syncMapLevels(id, levels, {}, tx)).idMap : undefined;
+
+        // If zones are provided, diff them against the stored zones (keeps existing IDs)
+        if (zones) {
+          await syncMapZones(id, zones, { levelIdMap }, tx);
+        }
+      }, tx);
+
+      await recordMapRevision(id, { author: displayName(access.user), message }, tx);
+    });
+
     // Fetch updated map with zones
-    const updatedMap = await prisma.map.findUnique({
+    const updatedMap = await prisma.map.findUniqueOrThrow({
       where: { id },
-      include: {
-        zones: true,
-      },
+      include: includeMapContent,
     });
 
-    return NextResponse.json(updatedMap);
+    return NextResponse.json({ ...serializeMap(updatedMap), role: access.role });
   } catch (error) {
     console.error('Error updating map:', error);
     return NextResponse.json({ error: 'Failed to update map' }, { status: 500 });
   }
 }
 
-// DELETE map
+// DELETE map (owners only)
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
+    const access = await authorizeMap(id, 'owner');
+    if (!access.ok) return access.response;
+
     await prisma.map.delete({
       where: { id },
     });
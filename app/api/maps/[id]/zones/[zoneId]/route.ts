@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { readJsonBody, validationErrorResponse } from '@/lib/api-response';
+import { authorizeMap } from '@/lib/map-access';
+import { isMapLevel } from '@/lib/level-store';
+import { linkZoneMedia } from '@/lib/media';
+import { updateMapDraft } from '@/lib/map-revisions';
+import { serializeZone } from '@/lib/map-serializer';
+import { ZoneType } from '@/lib/types';
+import { validateZonePatchBody } from '@/lib/validation';
+import { toZoneData, touchMap } from '@/lib/zone-store';
+
+type RouteParams = { params: Promise<{ id: string; zoneId: string }> };
+
+// GET single zone
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, zoneId } = await params;
+    const access = await authorizeMap(id, 'viewer');
+    if (!access.ok) return access.response;
+
+    const zone = await prisma.zone.findFirst({
+      where: { id: zoneId, mapId: id },
+    });
+
+    if (!zone) {
+      return NextResponse.json({ error: 'Zone not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(serializeZone(zone));
+  } catch (error) {
+    console.error('Error fetching zone:', error);
+    return NextResponse.json({ error: 'Failed to fetch zone' }, { status: 500 });
+  }
+}
+
+// PATCH update zone fields (only the provided ones)
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, zoneId } = await params;
+    const access = await authorizeMap(id, 'editor');
+    if (!access.ok) return access.response;
+
+    const body = await readJsonBody(request);
+
+    const existing = await prisma.zone.findFirst({
+      where: { id: zoneId, mapId: id },
+      select: { id: true, type: true },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: 'Zone not found' }, { status: 404 });
+    }
+
+    const parsed = validateZonePatchBody(body, existing.type as ZoneType);
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.issues);
+    }
+    if (parsed.data.levelId && !(await isMapLevel(id, parsed.data.levelId))) {
+      return validationErrorResponse([{ path: 'levelId', message: 'Not a level of this map' }]);
+    }
+
+    const zone = await updateMapDraft(id, async (tx) => {
+      const updated = await tx.zone.update({
+        where: { id: zoneId },
+        data: toZoneData(parsed.data),
+      });
+      if (parsed.data.content) {
+        await linkZoneMedia(zoneId, parsed.data.content, tx);
+      }
+      await touchMap(id, tx);
+      return updated;
+    });
+
+    return NextResponse.json(serializeZone(zone));
+  } catch (error) {
+    console.error('Error updating zone:', error);
+    return NextResponse.json({ error: 'Failed to update zone' }, { status: 500 });
+  }
+}
+
+// DELETE zone
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, zoneId } = await params;
+    const access = await authorizeMap(id, 'editor');
+    if (!access.ok) return access.response;
+
+    const count = await updateMapDraft(id, async (tx) => {
+      const deleted = await tx.zone.deleteMany({
+        where: { id: zoneId, mapId: id },
+      });
+      if (deleted.count > 0) await touchMap(id, tx);
+      return deleted.count;
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Zone not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting zone:', error);
+    return NextResponse.json({ error: 'Failed to delete zone' }, { status: 500 });
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { readJsonBody, validationErrorResponse } from '@/lib/api-response';
+import { displayName } from '@/lib/auth';
+import { authorizeMap } from '@/lib/map-access';
+import { isMapLevel } from '@/lib/level-store';
+import { linkZoneMedia } from '@/lib/media';
+import { ensureBaselineRevision, recordMapRevision, updateMapDraft } from '@/lib/map-revisions';
+import { serializeZone } from '@/lib/map-serializer';
+import { validateCreateZoneBody, validateZoneSyncBody } from '@/lib/validation';
+import { syncMapZones, toZoneCreateData, touchMap } from '@/lib/zone-store';
+
+// GET all zones of a map
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const access = await authorizeMap(id, 'viewer');
+    if (!access.ok) return access.response;
+
+    const zones = await prisma.zone.findMany({
+      where: { mapId: id },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json(zones.map(serializeZone));
+  } catch (error) {
+    console.error('Error fetching zones:', error);
+    return NextResponse.json({ error: 'Failed to fetch zones' }, { status: 500 });
+  }
+}
+
+// POST create a single zone
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const access = await authorizeMap(id, 'editor');
+    if (!access.ok) return access.response;
+
+    const parsed = validateCreateZoneBody(await readJsonBody(request));
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.issues);
+    }
+    const zone = parsed.data;
+    if (zone.levelId && !(await isMapLevel(id, zone.levelId))) {
+      return validationErrorResponse([{ path: 'levelId', message: 'Not a level of this map' }]);
+    }
+
+    const created = await updateMapDraft(id, async (tx) => {
+      const row = await tx.zone.create({
+        data: {
+          mapId: id,
+          ...toZoneCreateData(zone),
+        },
+      });
+      await linkZoneMedia(row.id, zone.content, tx);
+      await touchMap(id, tx);
+      return row;
+    });
+
+    return NextResponse.json(serializeZone(created), { status: 201 });
+  } catch (error) {
+    console.error('Error creating zone:', error);
+    return NextResponse.json({ error: 'Failed to create zone' }, { status: 500 });
+  }
+}
+
+// PUT bulk upsert: update zones by ID, create new ones, delete the rest
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const access = await authorizeMap(id, 'editor');
+    if (!access.ok) return access.response;
+
+    const parsed = validateZoneSyncBody(await readJsonBody(request));
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.issues);
+    }
+    const { zones, message } = parsed.data;
+
+    const result = await prisma.$transaction(async (tx) => {
+      await ensureBaselineRevision(id, tx);
+      const synced = await updateMapDraft(id, () => syncMapZones(id, zones, {}, tx), tx);
+      await recordMapRevision(id, { author: displayName(access.user), message }, tx);
+      return synced;
+    });
+    const updatedZones = await prisma.zone.findMany({
+      where: { mapId: id },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({ ...result, zones: updatedZones.map(serializeZone) });
+  } catch (error) {
+    console.error('Error syncing zones:', error);
+    return NextResponse.json({ error: 'Failed to sync zones' }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { validationErrorResponse } from '@/lib/api-response';
+import { displayName } from '@/lib/auth';
+import { requireUser } from '@/lib/map-access';
+import { importBundleMedia, MAX_BUNDLE_SIZE, readMapBundle } from '@/lib/map-bundle';
+import { recordMapRevision } from '@/lib/map-revisions';
+import { createMap } from '@/lib/map-store';
+import { validateCreateMapBody } from '@/lib/validation';
+
+// POST a map bundle (multipart/form-data with a `file` field, see GET /api/maps/[id]/bundle).
+// The map is recreated as an unpublished draft with new ids, owned by the signed-in user,
+// and the response lists the conflicts met on the way: { map, conflicts }.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser();
+    if (!auth.ok) return auth.response;
+
+    const form = await request.formData().catch(() => null);
+    const file = form?.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'Expected a multipart form with a file field' }, { status: 400 });
+    }
+    if (file.size > MAX_BUNDLE_SIZE) {
+      return NextResponse.json(
+        { error: `Bundle is too large (maximum ${Math.round(MAX_BUNDLE_SIZE / 1024 / 1024)}MB)` },
+        { status: 413 }
+      );
+    }
+
+    const bundle = readMapBundle(Buffer.from(await file.arrayBuffer()));
+    if (!bundle.success) {
+      return validationErrorResponse(bundle.issues);
+    }
+    const { manifest, files } = bundle.data;
+
+    // Checked before any media is stored, so a broken bundle leaves nothing behind
+    const parsed = validateCreateMapBody(manifest.map);
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.issues.map(issue => ({ ...issue, path: issue.path ? `map.${issue.path}` : 'map' })));
+    }
+
+    const { value: data, conflicts } = await importBundleMedia(manifest, files, parsed.data);
+
+    const sameTitle = await prisma.map.count({
+      where: { title: data.title, members: { some: { userId: auth.user.id } } },
+    });
+    if (sameTitle > 0) {
+      conflicts.push({ type: 'duplicate-title', message: `You already have a map titled "${data.title}"` });
+    }
+
+    const created = await createMap(data, auth.user.id);
+    await recordMapRevision(created.id, { author: displayName(auth.user), message: 'Imported from a map bundle' });
+
+    return NextResponse.json({ map: { ...created, role: 'owner' }, conflicts }, { status: 201 });
+  } catch (error) {
+    console.error('Error importing map bundle:', error);
+    return NextResponse.json({ error: 'Failed to import map bundle' }, { status: 500 });
+  }
+}
@@ -1,70 +1,98 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@/lib/generated/prisma';
 import { prisma } from '@/lib/prisma';
+import { readJsonBody, validationErrorResponse } from '@/lib/api-response';
+import { displayName } from '@/lib/auth';
+import { requireUser } from '@/lib/map-access';
+import { recordMapRevision } from '@/lib/map-revisions';
+import { mapSummarySelect, serializeMapSummary } from '@/lib/map-serializer';
+import { createMap } from '@/lib/map-store';
+import { MapRole, MapSummaryPage } from '@/lib/types';
+import { MapListSort, validateCreateMapBody, validateMapListQuery } from '@/lib/validation';
 
-// GET all maps
-export async function GET() {
+const SORT_FIELDS: Record<MapListSort, 'updatedAt' | 'createdAt' | 'title'> = {
+  updated: 'updatedAt',
+  created: 'createdAt',
+  title: 'title',
+};
+
+// GET maps the signed-in user is a member of, one page at a time.
+// Query: q, published, category, hasBounds, sort (updated|created|title), order, limit, cursor
+export async function GET(request: NextRequest) {
   try {
-    const maps = await prisma.map.findMany({
-      include: {
-        zones: true,
-      },
-      orderBy: {
-        createdAt: 'desc',
+    const auth = await requireUser();
+    if (!auth.ok) return auth.response;
+
+    const parsed = validateMapListQuery(request.nextUrl.searchParams);
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.issues);
+    }
+    const query = parsed.data;
+
+    const where: Prisma.MapWhereInput = {
+      members: { some: { userId: auth.user.id } },
+      ...(query.search && {
+        OR: [{ title: { contains: query.search } }, { description: { contains: query.search } }],
+      }),
+      ...(query.published !== null && { published: query.published }),
+      ...(query.category && { zones: { some: { category: query.category } } }),
+      ...(query.hasBounds !== null && { geographicBounds: query.hasBounds ? { not: null } : null }),
+    };
+    const sortField = SORT_FIELDS[query.sort];
+
+    // Fetch one extra row to know whether another page follows
+    const rows = await prisma.map.findMany({
+      where,
+      select: {
+        ...mapSummarySelect,
+        members: { where: { userId: auth.user.id }, select: { role: true } },
       },
+      orderBy: [{ [sortField]: query.order }, { id: query.order }],
+      take: query.limit + 1,
+      ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+    });
+    const maps = rows.slice(0, query.limit);
+
+    const counts = await prisma.zone.groupBy({
+      by: ['mapId', 'category'],
+      where: { mapId: { in: maps.map(map => map.id) }, category: { not: null } },
+      _count: { _all: true },
     });
+    const categoryCounts = new Map<string, Record<string, number>>();
+    for (const count of counts) {
+      const byCategory = categoryCounts.get(count.mapId) ?? {};
+      byCategory[count.category as string] = count._count._all;
+      categoryCounts.set(count.mapId, byCategory);
+    }
 
-    return NextResponse.json(maps);
+    const page: MapSummaryPage = {
+      items: maps.map(map => serializeMapSummary(map, map.members[0].role as MapRole, categoryCounts.get(map.id) ?? {})),
+      nextCursor: rows.length > query.limit ? maps[maps.length - 1].id : null,
+    };
+
+    return NextResponse.json(page);
   } catch (error) {
     console.error('Error fetching maps:', error);
     return NextResponse.json({ error: 'Failed to fetch maps' }, { status: 500 });
   }
 }
 
-// POST create new map
+// POST create new map (the creator becomes its owner)
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const {
-      title,
-      description,
-      geographicBounds,
-      canvasConfig,
-      imageUrl,
-      useBaseMap,
-      categories,
-      zones,
-      aiNavigatorEnabled,
-      aiNavigatorPrompt
-    } = body;
+    const auth = await requireUser();
+    if (!auth.ok) return auth.response;
 
-    // Create map with zones
-    const map = await prisma.map.create({
-      data: {
-        title,
-        description,
-        geographicBounds: geographicBounds ? JSON.stringify(geographicBounds) : null,
-        canvasConfig: JSON.stringify(canvasConfig),
-        imageUrl,
-        useBaseMap,
-        published: false,
-        categories: categories && categories.length > 0 ? JSON.stringify(categories) : null,
-        aiNavigatorEnabled: aiNavigatorEnabled !== undefined ? aiNavigatorEnabled : true,
-        aiNavigatorPrompt: aiNavigatorPrompt || null,
-        zones: {
-          create: zones.map((zone: any) => ({
-            type: zone.type,
-            coordinates: JSON.stringify(zone.coordinates),
-            content: JSON.stringify(zone.content),
-            style: zone.style ? JSON.stringify(zone.style) : null,
-          })),
-        },
-      },
-      include: {
-        zones: true,
-      },
-    });
+    const parsed = validateCreateMapBody(await readJsonBody(request));
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.issues);
+    }
+
+    const created = await createMap(parsed.data, auth.user.id);
+
+    await recordMapRevision(created.id, { author: displayName(auth.user), message: 'Created map' });
 
-    return NextResponse.json(map, { status: 201 });
+    return NextResponse.json({ ...created, role: 'owner' }, { status: 201 });
   } catch (error) {
     console.error('Error creating map:', error);
     return NextResponse.json({ error: 'Failed to create map' }, { status: 500 });
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { includeVariants, maxMediaSize, MEDIA_SECURITY_HEADERS } from '@/lib/media';
+import { ByteRange, getMediaStorage } from '@/lib/media-storage';
+import { authorizeMedia } from '@/lib/map-access';
+
+/**
+ * Parse a single-range `Range: bytes=start-end` header against the file size
+ */
+function parseRange(header: string | null, size: number): ByteRange | null {
+  const match = header ? /^bytes=(\d*)-(\d*)$/.exec(header.trim()) : null;
+  if (!match || (!match[1] && !match[2])) return null;
+
+  // "bytes=-500" means the last 500 bytes
+  const start = match[1] ? Number(match[1]) : Math.max(0, size - Number(match[2]));
+  const end = match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  return start <= end ? { start, end } : null;
+}
+
+// GET stream a stored file. Content is addressed by hash, so it can be cached forever
+// (only privately when no published map uses it, see authorizeMedia).
+// `?w=640` serves the smallest image variant at least 640px wide (the original if none is).
+// Supports byte ranges so browsers can seek in videos.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const media = await prisma.media.findUnique({ where: { id }, include: includeVariants });
+    if (!media) {
+      return NextResponse.json({ error: 'Media not found' }, { status: 404 });
+    }
+    const access = await authorizeMedia(id);
+    if (!access.ok) return access.response;
+
+    const requestedWidth = Number(request.nextUrl.searchParams.get('w'));
+    const variant = requestedWidth > 0
+      ? media.variants.find(candidate => candidate.width >= requestedWidth)
+      : undefined;
+    const file = variant ?? media;
+
+    const headers: Record<string, string> = {
+      'Content-Type': file.mimeType,
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': `${access.public ? 'public' : 'private'}, max-age=31536000, immutable`,
+      ETag: variant ? `"${media.hash}-${variant.width}w"` : `"${media.hash}"`,
+      ...MEDIA_SECURITY_HEADERS,
+    };
+    // Files stored before uploads were checked (such as SVG) are only offered as downloads
+    if (maxMediaSize(file.mimeType) === null) {
+      headers['Content-Disposition'] = 'attachment';
+    }
+    if (request.headers.get('if-none-match') === headers.ETag) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    const range = parseRange(request.headers.get('range'), file.size);
+    const data = await getMediaStorage().get(file.storageKey, range ?? undefined);
+    if (!data) {
+      console.error(`Media ${media.id} is missing from storage (${file.storageKey})`);
+      return NextResponse.json({ error: 'Media not found' }, { status: 404 });
+    }
+
+    if (range) {
+      headers['Content-Range'] = `bytes ${range.start}-${range.start + data.length - 1}/${file.size}`;
+    }
+    headers['Content-Length'] = String(data.length);
+
+    return new NextResponse(new Uint8Array(data), { status: range ? 206 : 200, headers });
+  } catch (error) {
+    console.error('Error fetching media:', error);
+    return NextResponse.json({ error: 'Failed to fetch media' }, { status: 500 });
+  }
+}
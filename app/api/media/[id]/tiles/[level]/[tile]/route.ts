@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getMediaStorage } from '@/lib/media-storage';
+import { MEDIA_SECURITY_HEADERS } from '@/lib/media';
+import { authorizeMedia } from '@/lib/map-access';
+
+type RouteParams = { params: Promise<{ id: string; level: string; tile: string }> };
+
+const TILE_NAME_PATTERN = /^(\d+)_(\d+)\.webp$/;
+
+// GET one tile of a blueprint's zoom pyramid (tile name: <col>_<row>.webp)
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, level, tile } = await params;
+    const levelNumber = Number(level);
+    if (!Number.isInteger(levelNumber) || !TILE_NAME_PATTERN.test(tile)) {
+      return NextResponse.json({ error: 'Tile not found' }, { status: 404 });
+    }
+
+    const media = await prisma.media.findUnique({
+      where: { id },
+      select: { tilesKey: true, tileMinLevel: true, tileMaxLevel: true },
+    });
+    if (!media?.tilesKey || levelNumber < (media.tileMinLevel ?? 0) || levelNumber > (media.tileMaxLevel ?? -1)) {
+      return NextResponse.json({ error: 'Tile not found' }, { status: 404 });
+    }
+    const access = await authorizeMedia(id);
+    if (!access.ok) return access.response;
+
+    const data = await getMediaStorage().get(`${media.tilesKey}${levelNumber}/${tile}`);
+    if (!data) {
+      return NextResponse.json({ error: 'Tile not found' }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': 'image/webp',
+        'Content-Length': String(data.length),
+        'Cache-Control': `${access.public ? 'public' : 'private'}, max-age=31536000, immutable`,
+        ...MEDIA_SECURITY_HEADERS,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching tile:', error);
+    return NextResponse.json({ error: 'Failed to fetch tile' }, { status: 500 });
+  }
+}
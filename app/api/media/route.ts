@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/map-access';
+import { detectMediaType, ensureMediaTiles, maxMediaSize, MEDIA_SIGNATURE_LENGTH, storeMedia } from '@/lib/media';
+import { MediaPurpose } from '@/lib/types';
+
+// POST upload an image or video (multipart/form-data with a `file` field and an
+// optional `purpose`: 'content' or 'blueprint'; large blueprints get a tile pyramid).
+// Identical files are stored once: re-uploading returns the existing media with 200.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser();
+    if (!auth.ok) return auth.response;
+
+    const form = await request.formData().catch(() => null);
+    const file = form?.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'Expected a multipart form with a file field' }, { status: 400 });
+    }
+
+    const purpose = (form?.get('purpose') || 'content') as MediaPurpose;
+    if (purpose !== 'content' && purpose !== 'blueprint') {
+      return NextResponse.json({ error: "purpose must be 'content' or 'blueprint'" }, { status: 400 });
+    }
+
+    // The type is read from the file itself, not from what the client declares
+    const mimeType = detectMediaType(Buffer.from(await file.slice(0, MEDIA_SIGNATURE_LENGTH).arrayBuffer()));
+    const maxSize = mimeType ? maxMediaSize(mimeType, purpose) : null;
+    if (maxSize === null) {
+      return NextResponse.json(
+        { error: 'Only PNG, JPEG, GIF, WebP and AVIF images and MP4, WebM, QuickTime and Ogg videos can be uploaded' },
+        { status: 415 }
+      );
+    }
+    if (file.size > maxSize) {
+      return NextResponse.json(
+        { error: `File is too large (maximum ${Math.round(maxSize / 1024 / 1024)}MB)` },
+        { status: 413 }
+      );
+    }
+
+    const stored = await storeMedia(Buffer.from(await file.arrayBuffer()));
+    const media = purpose === 'blueprint' ? await ensureMediaTiles(stored.media.id) : stored.media;
+
+    return NextResponse.json(media, { status: stored.created ? 201 : 200 });
+  } catch (error) {
+    console.error('Error uploading media:', error);
+    return NextResponse.json({ error: 'Failed to upload media' }, { status: 500 });
+  }
+}
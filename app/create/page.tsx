@@ -6,7 +6,7 @@ import CanvasDefinition from '@/components/canvas-definition';
 import BlueprintUpload from '@/components/blueprint-upload';
 import ZoneEditor from '@/components/zone-editor';
 import MapZoneEditor from '@/components/map-zone-editor';
-import { GeographicBounds, CanvasConfig } from '@/lib/types';
+import { GeographicBounds, CanvasConfig, TilePyramid } from '@/lib/types';
 import { GeocodedZone } from '@/lib/csv-importer';
 import { geoToPixel } from '@/lib/coordinate-converter';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -66,12 +66,14 @@ export default function CreateMapPage() {
     setCurrentStep('blueprint');
   };
 
-  const handleBlueprintUpload = (imageUrl: string, dimensions: { width: number; height: number }) => {
+  const handleBlueprintUpload = (imageUrl: string, dimensions: { width: number; height: number }, tiles?: TilePyramid) => {
     setBlueprintUrl(imageUrl);
+    // The editor pans and zooms, so the canvas keeps the blueprint's own size and aspect ratio
     setCanvasConfig({
       ...canvasConfig,
-      width: Math.min(dimensions.width, 1200),
-      height: Math.min(dimensions.height, 800),
+      width: dimensions.width,
+      height: dimensions.height,
+      tiles,
     });
     setCurrentStep('zones');
   };
@@ -136,12 +138,14 @@ export default function CreateMapPage() {
       });
 
       if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        console.error('[Create] Map creation rejected:', data.issues || data.error);
         throw new Error('Failed to create map');
       }
 
       const data = await response.json();
-      // Fixed: redirect to /map/{id} not /maps/{id}
-      router.push(`/map/${data.id}`);
+      // New maps start unpublished, so open the draft preview
+      router.push(`/map/${data.id}?preview=draft`);
     } catch (error) {
       console.error('Error saving map:', error);
       alert('Failed to save map. Please try again.');
@@ -324,13 +328,25 @@ export default function CreateMapPage() {
                   type: mapZone.type,
                   // Store geographic coordinates directly (not nested)
                   // The API will stringify this, so pass as object
-                  coordinates: {
-                    lat: mapZone.lat,
-                    lng: mapZone.lng,
-                    x: pixelCoords.x,
-                    y: pixelCoords.y,
-                  },
+                  coordinates: mapZone.path
+                    ? {
+                        // Polygon vertices keep both positions too
+                        points: mapZone.path.map(vertex => ({
+                          ...geoToPixel(vertex.lat, vertex.lng, canvasSize.width, canvasSize.height, calculatedBounds),
+                          lat: vertex.lat,
+                          lng: vertex.lng,
+                        })),
+                      }
+                    : {
+                        lat: mapZone.lat,
+                        lng: mapZone.lng,
+                        x: pixelCoords.x,
+                        y: pixelCoords.y,
+                      },
                   content: mapZone.content,
+                  style: mapZone.style,
+                  externalId: mapZone.externalId,
+                  importedValues: mapZone.importedValues,
                 };
 
                 console.log('[Create] Converted zone:', converted);
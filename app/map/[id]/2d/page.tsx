@@ -1,61 +1,57 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { useParams, useRouter } from 'next/navigation';
-import { Stage, Layer, Image as KonvaImage, Circle, Rect } from 'react-konva';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import { Stage, Layer, Circle, Rect, Line } from 'react-konva';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { PointCoordinates, RectangleCoordinates, CircleCoordinates, ZoneContent } from '@/lib/types';
-import useImage from 'use-image';
+import { PointCoordinates, RectangleCoordinates, CircleCoordinates, PolygonCoordinates, ZoneContent, InteractiveMap, Zone } from '@/lib/types';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, X, Globe } from 'lucide-react';
+import { ArrowLeft, X, Globe, ZoomIn, ZoomOut, Maximize } from 'lucide-react';
 import { ThemeToggle } from '@/components/theme-toggle';
-
-interface Zone {
-  id: string;
-  type: string;
-  coordinates: string;
-  content: string;
-}
-
-interface MapData {
-  id: string;
-  title: string;
-  description: string | null;
-  imageUrl: string | null;
-  canvasConfig: string;
-  zones: Zone[];
-}
+import TiledBlueprint from '@/components/tiled-blueprint';
+import { useStagePanZoom } from '@/components/use-stage-pan-zoom';
+import LevelSwitcher from '@/components/level-switcher';
+import { maxZoom } from '@/lib/tile-pyramid';
+import { defaultLevel, zonesOnLevel } from '@/lib/levels';
 
 export default function Map2DViewerPage() {
   const params = useParams();
   const router = useRouter();
-  const [map, setMap] = useState<MapData | null>(null);
+  const isDraftPreview = useSearchParams().get('preview') === 'draft';
+  const previewQuery = isDraftPreview ? '?preview=draft' : '';
+  const [map, setMap] = useState<InteractiveMap | null>(null);
   const [loading, setLoading] = useState(true);
   const [selectedZone, setSelectedZone] = useState<{ content: ZoneContent } | null>(null);
   const [hoveredZoneId, setHoveredZoneId] = useState<string | null>(null);
+  const [levelId, setLevelId] = useState<string | null>(null);
 
-  const canvasConfig = map ? JSON.parse(map.canvasConfig) : { width: 800, height: 600 };
-  const [image, status] = useImage(map?.imageUrl || '');
+  const levels = map?.levels ?? [];
+  const currentLevel = levels.find(level => level.id === levelId) ?? defaultLevel(levels);
+  // Levels without their own floor plan show the map's blueprint
+  const blueprint = currentLevel?.imageUrl
+    ? { imageUrl: currentLevel.imageUrl, tiles: currentLevel.tiles }
+    : map?.imageUrl ? { imageUrl: map.imageUrl, tiles: map.canvasConfig.tiles } : null;
 
-  useEffect(() => {
-    if (map?.imageUrl) {
-      console.log('[2DMapViewer] Loading image from:', map.imageUrl.substring(0, 100));
-      console.log('[2DMapViewer] Image status:', status);
-      console.log('[2DMapViewer] Image loaded:', !!image);
-    }
-  }, [map?.imageUrl, status, image]);
+  const canvasConfig = map ? map.canvasConfig : { width: 800, height: 600 };
+  const panZoom = useStagePanZoom({
+    canvasWidth: canvasConfig.width,
+    canvasHeight: canvasConfig.height,
+    maxHeight: typeof window === 'undefined' ? canvasConfig.height : window.innerHeight * 0.8,
+    maxScale: maxZoom(canvasConfig.width, blueprint?.tiles),
+  });
 
   useEffect(() => {
     fetchMap();
-  }, [params.id]);
+  }, [params.id, isDraftPreview]);
 
   const fetchMap = async () => {
     try {
-      const response = await fetch(`/api/maps/${params.id}`);
+      const response = await fetch(`/api/maps/${params.id}${previewQuery}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch map');
+      }
       const data = await response.json();
       console.log('[2DMapViewer] Loaded map:', data.title);
-      console.log('[2DMapViewer] ImageURL:', data.imageUrl?.substring(0, 100));
-      console.log('[2DMapViewer] ImageURL length:', data.imageUrl?.length);
       setMap(data);
     } catch (error) {
       console.error('Error fetching map:', error);
@@ -65,12 +61,11 @@ export default function Map2DViewerPage() {
   };
 
   const handleZoneClick = (zone: Zone) => {
-    const content = JSON.parse(zone.content);
-    setSelectedZone({ content });
+    setSelectedZone({ content: zone.content });
   };
 
   const renderZone = (zone: Zone) => {
-    const coordinates = JSON.parse(zone.coordinates);
+    const coordinates = zone.coordinates;
     const isHovered = hoveredZoneId === zone.id;
 
     const commonProps = {
@@ -102,6 +97,9 @@ export default function Map2DViewerPage() {
       case 'circle':
         const circleCoords = coordinates as CircleCoordinates;
         return <Circle key={zone.id} {...commonProps} x={circleCoords.x} y={circleCoords.y} radius={circleCoords.radius} />;
+      case 'polygon':
+        const polygonCoords = coordinates as PolygonCoordinates;
+        return <Line key={zone.id} {...commonProps} points={polygonCoords.points.flatMap(p => [p.x, p.y])} closed />;
       default:
         return null;
     }
@@ -131,7 +129,7 @@ export default function Map2DViewerPage() {
           <Button
             variant="ghost"
             size="sm"
-            onClick={() => router.push(`/map/${params.id}`)}
+            onClick={() => router.push(`/map/${params.id}${previewQuery}`)}
             className="text-white hover:text-white hover:bg-white/10"
           >
             <ArrowLeft className="mr-2 h-4 w-4" />
@@ -151,22 +149,55 @@ export default function Map2DViewerPage() {
           </div>
         </div>
         <h1 className="text-5xl font-bold text-white mb-2">{map.title} - 2D Map</h1>
+        {isDraftPreview && <p className="text-amber-400 font-medium mb-2">Draft preview: viewers see the published version</p>}
         {map.description && <p className="text-xl text-gray-300">{map.description}</p>}
       </div>
 
       {/* Main Canvas - Centered */}
       <div className="flex items-center justify-center min-h-screen p-4">
-        <div className="relative shadow-2xl" style={{
+        <div className="relative shadow-2xl w-full flex justify-center" style={{
           background: 'linear-gradient(135deg, rgba(30,58,138,0.1) 0%, rgba(88,28,135,0.1) 100%)',
           padding: '2rem',
           borderRadius: '1rem',
         }}>
-          <Stage width={canvasConfig.width} height={canvasConfig.height}>
-            <Layer>
-              {map.imageUrl && image && <KonvaImage image={image} width={canvasConfig.width} height={canvasConfig.height} />}
-              {map.zones.map(renderZone)}
-            </Layer>
-          </Stage>
+          <div ref={panZoom.containerRef} className="w-full flex justify-center">
+            <Stage {...panZoom.stageProps}>
+              <Layer>
+                {blueprint && (
+                  <TiledBlueprint
+                    imageUrl={blueprint.imageUrl}
+                    tiles={blueprint.tiles}
+                    canvasWidth={canvasConfig.width}
+                    canvasHeight={canvasConfig.height}
+                    scale={panZoom.scale}
+                    visibleRect={panZoom.visibleRect}
+                  />
+                )}
+                {zonesOnLevel(map.zones, levels, currentLevel?.id).map(renderZone)}
+              </Layer>
+            </Stage>
+          </div>
+
+          {/* Floor switcher for multi-level maps */}
+          <LevelSwitcher
+            levels={levels}
+            value={currentLevel?.id}
+            onChange={setLevelId}
+            className="absolute top-4 left-4"
+          />
+
+          {/* Zoom controls; scroll to zoom, drag to pan */}
+          <div className="absolute top-4 right-4 flex flex-col gap-1">
+            <Button variant="secondary" size="icon" onClick={panZoom.zoomIn} disabled={!panZoom.canZoomIn} title="Zoom in">
+              <ZoomIn className="h-4 w-4" />
+            </Button>
+            <Button variant="secondary" size="icon" onClick={panZoom.zoomOut} disabled={!panZoom.canZoomOut} title="Zoom out">
+              <ZoomOut className="h-4 w-4" />
+            </Button>
+            <Button variant="secondary" size="icon" onClick={panZoom.resetZoom} disabled={!panZoom.canZoomOut} title="Fit to view">
+              <Maximize className="h-4 w-4" />
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -1,45 +1,34 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { useParams, useRouter } from 'next/navigation';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import GlobeViewer from '@/components/globe-viewer';
 import dynamic from 'next/dynamic';
-import { GeographicBounds, CanvasConfig } from '@/lib/types';
+import { InteractiveMap } from '@/lib/types';
 import { Button } from '@/components/ui/button';
 
 // Dynamically import Google Maps viewer for maps without bounds
 const GoogleMaps3DViewer = dynamic(() => import('@/components/google-maps-3d-viewer'), { ssr: false });
 
-interface Zone {
-  id: string;
-  type: string;
-  coordinates: string;
-  content: string;
-  style: string | null;
-}
-
-interface MapData {
-  id: string;
-  title: string;
-  description: string | null;
-  geographicBounds: string | null;
-  canvasConfig: string;
-  zones: Zone[];
-}
-
 export default function MapViewerPage() {
   const params = useParams();
   const router = useRouter();
-  const [map, setMap] = useState<MapData | null>(null);
+  // ?preview=draft shows the editors' unpublished draft instead of the published version
+  const isDraftPreview = useSearchParams().get('preview') === 'draft';
+  const previewQuery = isDraftPreview ? '?preview=draft' : '';
+  const [map, setMap] = useState<InteractiveMap | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     fetchMap();
-  }, [params.id]);
+  }, [params.id, isDraftPreview]);
 
   const fetchMap = async () => {
     try {
-      const response = await fetch(`/api/maps/${params.id}`);
+      const response = await fetch(`/api/maps/${params.id}${previewQuery}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch map');
+      }
       const data = await response.json();
       console.log('[MapViewer] Loaded map:', data.title);
       console.log('[MapViewer] Zones:', data.zones.length);
@@ -71,17 +60,23 @@ export default function MapViewerPage() {
     );
   }
 
-  const geoBounds: GeographicBounds | null = map.geographicBounds
-    ? JSON.parse(map.geographicBounds)
-    : null;
-  const canvasConfig: CanvasConfig = JSON.parse(map.canvasConfig);
+  const geoBounds = map.geographicBounds ?? null;
+  const canvasConfig = map.canvasConfig;
+
+  const draftBanner = isDraftPreview && (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50 px-4 py-1 rounded-full bg-amber-500 text-black text-sm font-medium shadow-lg">
+      Draft preview: viewers see the published version
+    </div>
+  );
 
   // If no geographic bounds, use Google Maps 3D viewer
   if (!geoBounds) {
     return (
       <div className="relative h-screen w-full bg-black">
+        {draftBanner}
         <GoogleMaps3DViewer
           zones={map.zones}
+          levels={map.levels}
           mapTitle={map.title}
           geoBounds={null}
           canvasConfig={canvasConfig}
@@ -96,16 +91,18 @@ export default function MapViewerPage() {
   // Otherwise use Cesium globe viewer
   return (
     <div className="relative h-screen w-full bg-black">
+      {draftBanner}
       {/* Globe Viewer */}
       <GlobeViewer
         zones={map.zones}
+        levels={map.levels}
         canvasConfig={canvasConfig}
         geoBounds={geoBounds}
         mapTitle={map.title}
         aiNavigatorEnabled={map.aiNavigatorEnabled}
         aiNavigatorPrompt={map.aiNavigatorPrompt}
         onBackToMaps={() => router.push('/maps')}
-        onView2D={() => router.push(`/map/${params.id}/2d`)}
+        onView2D={() => router.push(`/map/${params.id}/2d${previewQuery}`)}
       />
     </div>
   );
@@ -0,0 +1,110 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { use } from 'react';
+import BlueprintAlignment from '@/components/blueprint-alignment';
+import { Georeference, InteractiveMap } from '@/lib/types';
+import { georeferenceBounds } from '@/lib/georeference';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ThemeToggle } from '@/components/theme-toggle';
+import { ArrowLeft } from 'lucide-react';
+
+export default function AlignBlueprintPage({ params }: { params: Promise<{ id: string }> }) {
+  const resolvedParams = use(params);
+  const router = useRouter();
+  const [mapData, setMapData] = useState<InteractiveMap | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchMapData = async () => {
+      try {
+        const response = await fetch(`/api/maps/${resolvedParams.id}?preview=draft`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch map');
+        }
+        setMapData(await response.json());
+      } catch (error) {
+        console.error('Error fetching map:', error);
+        alert('Failed to load map data');
+        router.push('/maps');
+      }
+    };
+    fetchMapData();
+  }, [resolvedParams.id, router]);
+
+  const handleSave = async (georeference: Georeference) => {
+    if (!mapData) return;
+    setSaving(true);
+    try {
+      const { width, height } = mapData.canvasConfig;
+      const response = await fetch(`/api/maps/${resolvedParams.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          canvasConfig: { ...mapData.canvasConfig, georeference },
+          geographicBounds: georeferenceBounds(georeference, width, height),
+          message: 'Aligned blueprint on the base map',
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        console.error('[Align] Alignment rejected:', data.issues || data.error);
+        throw new Error('Failed to save alignment');
+      }
+
+      router.push(`/maps/${resolvedParams.id}/edit`);
+    } catch (error) {
+      console.error('Error saving alignment:', error);
+      alert('Failed to save alignment. Please try again.');
+      setSaving(false);
+    }
+  };
+
+  if (!mapData) {
+    return (
+      <div className="container mx-auto py-8 px-4">
+        <p className="text-center">Loading map data...</p>
+      </div>
+    );
+  }
+
+  const canEdit = mapData.role === 'editor' || mapData.role === 'owner';
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-7xl">
+      <div className="flex justify-between items-center mb-4">
+        <Button variant="ghost" size="sm" onClick={() => router.push(`/maps/${resolvedParams.id}/edit`)}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Editor
+        </Button>
+        <ThemeToggle />
+      </div>
+
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold mb-2">Align Blueprint</h1>
+        <p className="text-gray-600 dark:text-gray-300">{mapData.title}</p>
+      </div>
+
+      {canEdit && mapData.imageUrl ? (
+        <BlueprintAlignment
+          imageUrl={mapData.imageUrl}
+          canvasWidth={mapData.canvasConfig.width}
+          canvasHeight={mapData.canvasConfig.height}
+          geoBounds={mapData.geographicBounds ?? null}
+          georeference={mapData.canvasConfig.georeference}
+          saving={saving}
+          onSave={handleSave}
+        />
+      ) : (
+        <Card>
+          <CardContent className="py-8 text-center text-gray-600 dark:text-gray-300">
+            {canEdit ? 'This map has no blueprint to align.' : 'You have view-only access to this map.'}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,13 @@ import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { use } from 'react';
 import ZoneEditor from '@/components/zone-editor';
-import { GeographicBounds, CanvasConfig } from '@/lib/types';
+import RevisionHistory from '@/components/revision-history';
+import MapMembers from '@/components/map-members';
+import GeoreferencePanel from '@/components/georeference-panel';
+import LevelManager from '@/components/level-manager';
+import MapExport from '@/components/map-export';
+import { GeographicBounds, CanvasConfig, Georeference, InteractiveMap, Level, Zone } from '@/lib/types';
+import { georeferenceBounds } from '@/lib/georeference';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -13,31 +19,14 @@ import { Button } from '@/components/ui/button';
 import { ThemeToggle } from '@/components/theme-toggle';
 import { ArrowLeft } from 'lucide-react';
 
-interface Zone {
-  id: string;
-  type: string;
-  coordinates: string;
-  content: string;
-  style?: string | null;
-}
-
-interface MapData {
-  id: string;
-  title: string;
-  description: string | null;
-  geographicBounds: string | null;
-  canvasConfig: string;
-  imageUrl: string | null;
-  useBaseMap: boolean;
-  categories: string | null;
-  zones: Zone[];
-}
+// Zones as the editor holds them, before they're saved
+type EditorZone = Omit<Zone, 'mapId' | 'createdAt' | 'updatedAt'>;
 
 export default function EditMapPage({ params }: { params: Promise<{ id: string }> }) {
   const resolvedParams = use(params);
   const router = useRouter();
   const [loading, setLoading] = useState(true);
-  const [mapData, setMapData] = useState<MapData | null>(null);
+  const [mapData, setMapData] = useState<InteractiveMap | null>(null);
 
   // Parsed data
   const [mapTitle, setMapTitle] = useState('');
@@ -50,7 +39,12 @@ export default function EditMapPage({ params }: { params: Promise<{ id: string }
   });
   const [imageUrl, setImageUrl] = useState<string | null>(null);
   const [useBaseMap, setUseBaseMap] = useState(false);
-  const [existingZones, setExistingZones] = useState<any[]>([]);
+  const [levels, setLevels] = useState<Level[]>([]);
+  const [existingZones, setExistingZones] = useState<EditorZone[]>([]);
+  const [revisionMessage, setRevisionMessage] = useState('');
+  // Bumped after a restore so the zone editor re-initializes from the restored zones
+  const [editorKey, setEditorKey] = useState(0);
+  const canEdit = mapData?.role === 'editor' || mapData?.role === 'owner';
 
   useEffect(() => {
     fetchMapData();
@@ -58,36 +52,32 @@ export default function EditMapPage({ params }: { params: Promise<{ id: string }
 
   const fetchMapData = async () => {
     try {
-      const response = await fetch(`/api/maps/${resolvedParams.id}`);
+      const response = await fetch(`/api/maps/${resolvedParams.id}?preview=draft`);
       if (!response.ok) {
         throw new Error('Failed to fetch map');
       }
 
-      const data: MapData = await response.json();
+      const data: InteractiveMap = await response.json();
       setMapData(data);
 
-      // Parse and set data
       setMapTitle(data.title);
       setMapDescription(data.description || '');
-
-      if (data.geographicBounds) {
-        setGeoBounds(JSON.parse(data.geographicBounds));
-      }
-
-      const parsedCanvasConfig = JSON.parse(data.canvasConfig);
-      setCanvasConfig(parsedCanvasConfig);
-
-      setImageUrl(data.imageUrl);
+      setGeoBounds(data.geographicBounds ?? null);
+      setCanvasConfig(data.canvasConfig);
+      setImageUrl(data.imageUrl ?? null);
       setUseBaseMap(data.useBaseMap);
+      setLevels(data.levels);
 
-      // Parse zones
-      const parsedZones = data.zones.map(zone => ({
+      setExistingZones(data.zones.map(zone => ({
         id: zone.id,
         type: zone.type,
-        coordinates: JSON.parse(zone.coordinates),
-        content: JSON.parse(zone.content),
-      }));
-      setExistingZones(parsedZones);
+        coordinates: zone.coordinates,
+        content: zone.content,
+        style: zone.style,
+        levelId: zone.levelId,
+        externalId: zone.externalId,
+        importedValues: zone.importedValues,
+      })));
 
       setLoading(false);
     } catch (error) {
@@ -97,35 +87,52 @@ export default function EditMapPage({ params }: { params: Promise<{ id: string }
     }
   };
 
-  const handleSaveMap = async (zones: any[], categories: string[]) => {
+  const handleSaveMap = async (zones: EditorZone[], categories: string[]) => {
     try {
-      console.log('[Edit] Updating map with zones:', zones.length);
-      console.log('[Edit] Updating with categories:', categories);
-
+      // Map details, levels and zones go in one request, saved together as a single revision;
+      // zones are synced incrementally so existing zone IDs survive the save
       const response = await fetch(`/api/maps/${resolvedParams.id}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           title: mapTitle,
           description: mapDescription,
+          geographicBounds: geoBounds,
+          canvasConfig,
           categories,
+          levels,
           zones,
+          message: revisionMessage.trim() || null,
         }),
       });
 
       if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        console.error('Map update rejected:', data.issues || data.error);
         throw new Error('Failed to update map');
       }
 
-      const data = await response.json();
-      // Redirect to view the updated map
-      router.push(`/map/${data.id}`);
+      // Redirect to preview the saved draft (viewers keep seeing the published version until it's published)
+      router.push(`/map/${resolvedParams.id}?preview=draft`);
     } catch (error) {
       console.error('Error updating map:', error);
       alert('Failed to update map. Please try again.');
     }
   };
 
+  const handleGeoreferenceChange = (georeference: Georeference | undefined) => {
+    setCanvasConfig({ ...canvasConfig, georeference });
+    // Keep bounds around the whole georeferenced blueprint for framing the viewers
+    if (georeference) {
+      setGeoBounds(georeferenceBounds(georeference, canvasConfig.width, canvasConfig.height));
+    }
+  };
+
+  const handleRevisionRestored = async () => {
+    await fetchMapData();
+    setEditorKey(key => key + 1);
+  };
+
   const handleBack = () => {
     if (confirm('Are you sure you want to leave? Any unsaved changes will be lost.')) {
       router.push('/maps');
@@ -181,19 +188,78 @@ export default function EditMapPage({ params }: { params: Promise<{ id: string }
               rows={3}
             />
           </div>
+          {canEdit && (
+            <div className="space-y-2">
+              <Label htmlFor="revisionMessage">Change Note</Label>
+              <Input
+                id="revisionMessage"
+                value={revisionMessage}
+                onChange={(e) => setRevisionMessage(e.target.value)}
+                placeholder="e.g., Imported spring events, fixed building labels"
+              />
+            </div>
+          )}
         </CardContent>
       </Card>
 
-      {/* Zone Editor */}
-      <ZoneEditor
-        imageUrl={imageUrl || undefined}
-        canvasWidth={canvasConfig.width}
-        canvasHeight={canvasConfig.height}
-        geoBounds={geoBounds}
-        useBaseMap={useBaseMap}
-        onSave={handleSaveMap}
-        importedZones={existingZones}
+      {/* Members */}
+      <MapMembers mapId={resolvedParams.id} canManage={mapData?.role === 'owner'} />
+
+      {/* Export */}
+      <MapExport mapId={resolvedParams.id} hasGeographicBounds={!!mapData?.geographicBounds} />
+
+      {/* Version History */}
+      <RevisionHistory
+        mapId={resolvedParams.id}
+        canRestore={canEdit}
+        onRestored={handleRevisionRestored}
       />
+
+      {/* Georeferencing */}
+      {canEdit && imageUrl && (
+        <GeoreferencePanel
+          key={editorKey}
+          imageUrl={imageUrl}
+          canvasWidth={canvasConfig.width}
+          canvasHeight={canvasConfig.height}
+          georeference={canvasConfig.georeference}
+          onChange={handleGeoreferenceChange}
+          onAlignOnMap={() => {
+            if (confirm('Open the alignment screen? Any unsaved changes will be lost.')) {
+              router.push(`/maps/${resolvedParams.id}/align`);
+            }
+          }}
+        />
+      )}
+
+      {/* Levels */}
+      {canEdit && <LevelManager levels={levels} onChange={setLevels} />}
+
+      {/* Zone Editor */}
+      {canEdit ? (
+        <ZoneEditor
+          key={editorKey}
+          imageUrl={imageUrl || undefined}
+          tiles={canvasConfig.tiles}
+          canvasWidth={canvasConfig.width}
+          canvasHeight={canvasConfig.height}
+          geoBounds={geoBounds}
+          georeference={canvasConfig.georeference}
+          useBaseMap={useBaseMap}
+          levels={levels}
+          onSave={handleSaveMap}
+          importedZones={existingZones}
+        />
+      ) : (
+        <Card>
+          <CardContent className="py-8 text-center space-y-4">
+            <p className="text-gray-600 dark:text-gray-300">You have view-only access to this map.</p>
+            <Button variant="outline" onClick={() => router.push(`/map/${resolvedParams.id}?preview=draft`)}>
+              Preview Draft
+            </Button>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
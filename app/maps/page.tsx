@@ -3,49 +3,85 @@
 import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
+import { signOut, useSession } from 'next-auth/react';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, LogOut, Search, Upload } from 'lucide-react';
 import { ThemeToggle } from '@/components/theme-toggle';
+import { MapRole, MapSummary, MapSummaryPage } from '@/lib/types';
+import type { BundleConflict } from '@/lib/map-bundle';
 
-interface MapData {
-  id: string;
-  title: string;
-  description: string | null;
-  published: boolean;
-  createdAt: string;
-  zones: any[];
-}
+const ROLE_LABELS: Record<MapRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+type StatusFilter = 'all' | 'published' | 'draft';
+type SortOption = 'created' | 'updated' | 'title';
+
+const PAGE_SIZE = 24;
 
 export default function MapsPage() {
   const router = useRouter();
-  const [maps, setMaps] = useState<MapData[]>([]);
+  const { data: session } = useSession();
+  const [maps, setMaps] = useState<MapSummary[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [search, setSearch] = useState('');
+  const [status, setStatus] = useState<StatusFilter>('all');
+  const [sort, setSort] = useState<SortOption>('created');
+  const [importing, setImporting] = useState(false);
+
+  const filtered = search.trim() !== '' || status !== 'all';
 
+  // Refetch from the first page when the filters change (search is debounced)
   useEffect(() => {
-    fetchMaps();
-  }, []);
+    const timeout = setTimeout(() => fetchMaps(), 300);
+    return () => clearTimeout(timeout);
+  }, [search, status, sort]);
+
+  const fetchMaps = async (cursor?: string) => {
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE), sort });
+    if (search.trim()) params.set('q', search.trim());
+    if (status !== 'all') params.set('published', String(status === 'published'));
+    if (cursor) params.set('cursor', cursor);
 
-  const fetchMaps = async () => {
     try {
-      const response = await fetch('/api/maps');
+      const response = await fetch(`/api/maps?${params}`);
+      if (response.status === 401) {
+        router.push('/login?callbackUrl=/maps');
+        return;
+      }
       const data = await response.json();
 
       // Check if the response is an error object
-      if (data.error || !Array.isArray(data)) {
+      if (data.error || !Array.isArray(data.items)) {
         console.error('Error fetching maps:', data.error || 'Invalid response');
-        setMaps([]); // Set empty array to prevent map error
+        if (!cursor) setMaps([]); // Set empty array to prevent map error
       } else {
-        setMaps(data);
+        const page = data as MapSummaryPage;
+        setMaps(current => (cursor ? [...current, ...page.items] : page.items));
+        setNextCursor(page.nextCursor);
       }
     } catch (error) {
       console.error('Error fetching maps:', error);
-      setMaps([]); // Set empty array to prevent map error
+      if (!cursor) setMaps([]); // Set empty array to prevent map error
     } finally {
       setLoading(false);
     }
   };
 
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    await fetchMaps(nextCursor);
+    setLoadingMore(false);
+  };
+
   const handleDelete = async (id: string) => {
     if (!confirm('Are you sure you want to delete this map?')) return;
 
@@ -58,13 +94,15 @@ export default function MapsPage() {
     }
   };
 
-  const togglePublish = async (id: string, currentStatus: boolean) => {
+  // Publishing promotes the current draft; unpublishing takes the map offline
+  const setPublished = async (id: string, publish: boolean) => {
     try {
-      await fetch(`/api/maps/${id}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ published: !currentStatus }),
+      const response = await fetch(`/api/maps/${id}/publish`, {
+        method: publish ? 'POST' : 'DELETE',
       });
+      if (!response.ok) {
+        throw new Error('Failed to update publish status');
+      }
       fetchMaps(); // Refresh list
     } catch (error) {
       console.error('Error updating map:', error);
@@ -72,6 +110,32 @@ export default function MapsPage() {
     }
   };
 
+  // Recreate a map from a bundle exported by this or another installation
+  const importBundle = async (file: File) => {
+    setImporting(true);
+    try {
+      const form = new FormData();
+      form.append('file', file);
+      const response = await fetch('/api/maps/import', { method: 'POST', body: form });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        console.error('[Import] Bundle rejected:', data.issues || data.error);
+        throw new Error(data.issues?.[0]?.message || data.error || 'Failed to import map bundle');
+      }
+
+      const conflicts: BundleConflict[] = data.conflicts ?? [];
+      if (conflicts.length > 0) {
+        alert(`Imported "${data.map.title}" with ${conflicts.length} note(s):\n\n` +
+          conflicts.map(conflict => `- ${conflict.message}`).join('\n'));
+      }
+      router.push(`/maps/${data.map.id}/edit`);
+    } catch (error) {
+      console.error('Error importing map bundle:', error);
+      alert(error instanceof Error ? error.message : 'Failed to import map bundle');
+      setImporting(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="container mx-auto py-8 px-4">
@@ -91,7 +155,18 @@ export default function MapsPage() {
           <ArrowLeft className="mr-2 h-4 w-4" />
           Back to Home
         </Button>
-        <ThemeToggle />
+        <div className="flex items-center gap-2">
+          {session?.user && (
+            <>
+              <span className="text-sm text-gray-600 dark:text-gray-300">{session.user.name || session.user.email}</span>
+              <Button variant="ghost" size="sm" onClick={() => signOut({ callbackUrl: '/login' })}>
+                <LogOut className="mr-2 h-4 w-4" />
+                Sign Out
+              </Button>
+            </>
+          )}
+          <ThemeToggle />
+        </div>
       </div>
 
       <div className="flex justify-between items-center mb-8">
@@ -99,18 +174,75 @@ export default function MapsPage() {
           <h1 className="text-4xl font-bold mb-2">My Maps</h1>
           <p className="text-gray-600 dark:text-gray-300">Manage and deploy your interactive maps</p>
         </div>
-        <Link href="/create">
-          <Button size="lg">Create New Map</Button>
-        </Link>
+        <div className="flex gap-2">
+          <Button size="lg" variant="outline" disabled={importing} asChild>
+            <label className="cursor-pointer">
+              <Upload className="mr-2 h-4 w-4" />
+              {importing ? 'Importing...' : 'Import Bundle'}
+              <input
+                type="file"
+                accept=".gz,.tgz,application/gzip"
+                className="hidden"
+                disabled={importing}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importBundle(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          </Button>
+          <Link href="/create">
+            <Button size="lg">Create New Map</Button>
+          </Link>
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-3 mb-6">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by title or description"
+            className="pl-9"
+          />
+        </div>
+        <Select value={status} onValueChange={(value) => setStatus(value as StatusFilter)}>
+          <SelectTrigger className="md:w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All maps</SelectItem>
+            <SelectItem value="published">Published</SelectItem>
+            <SelectItem value="draft">Drafts</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={sort} onValueChange={(value) => setSort(value as SortOption)}>
+          <SelectTrigger className="md:w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="created">Newest first</SelectItem>
+            <SelectItem value="updated">Recently edited</SelectItem>
+            <SelectItem value="title">Title A-Z</SelectItem>
+          </SelectContent>
+        </Select>
       </div>
 
       {maps.length === 0 ? (
         <Card>
           <CardContent className="py-12 text-center">
-            <p className="text-gray-600 dark:text-gray-300 mb-4">You haven't created any maps yet</p>
-            <Link href="/create">
-              <Button>Create Your First Map</Button>
-            </Link>
+            {filtered ? (
+              <p className="text-gray-600 dark:text-gray-300">No maps match your filters</p>
+            ) : (
+              <>
+                <p className="text-gray-600 dark:text-gray-300 mb-4">You haven't created any maps yet</p>
+                <Link href="/create">
+                  <Button>Create Your First Map</Button>
+                </Link>
+              </>
+            )}
           </CardContent>
         </Card>
       ) : (
@@ -126,48 +258,84 @@ export default function MapsPage() {
                     </CardDescription>
                   </div>
                   <div
-                    className={`px-2 py-1 rounded text-xs font-medium ml-2 ${
-                      map.published ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                    className={`px-2 py-1 rounded text-xs font-medium ml-2 whitespace-nowrap ${
+                      !map.published
+                        ? 'bg-gray-100 text-gray-800'
+                        : map.hasUnpublishedChanges
+                          ? 'bg-amber-100 text-amber-800'
+                          : 'bg-green-100 text-green-800'
                     }`}
                   >
-                    {map.published ? 'Published' : 'Draft'}
+                    {!map.published ? 'Draft' : map.hasUnpublishedChanges ? 'Unpublished changes' : 'Published'}
                   </div>
                 </div>
               </CardHeader>
               <CardContent className="flex-1">
-                <p className="text-sm text-gray-600">{map.zones.length} zones</p>
+                <p className="text-sm text-gray-600">
+                  {map.zoneCount} zones
+                  <span className="text-gray-500"> · {ROLE_LABELS[map.role]}</span>
+                </p>
+                {Object.keys(map.categoryCounts).length > 0 && (
+                  <p className="text-xs text-gray-500 mt-1 line-clamp-1">
+                    {Object.entries(map.categoryCounts).map(([category, count]) => `${category} (${count})`).join(', ')}
+                  </p>
+                )}
                 <p className="text-xs text-gray-500 mt-1">
                   Created {new Date(map.createdAt).toLocaleDateString()}
                 </p>
               </CardContent>
               <CardFooter className="flex flex-col gap-2">
                 <div className="flex gap-2 w-full">
-                  <Link href={`/map/${map.id}`} className="flex-1">
+                  <Link href={map.published ? `/map/${map.id}` : `/map/${map.id}?preview=draft`} className="flex-1">
                     <Button variant="outline" className="w-full">
                       View
                     </Button>
                   </Link>
                   <Link href={`/maps/${map.id}/edit`} className="flex-1">
                     <Button variant="outline" className="w-full">
-                      Edit
+                      {map.role === 'viewer' ? 'Details' : 'Edit'}
                     </Button>
                   </Link>
                 </div>
-                <Button
-                  onClick={() => togglePublish(map.id, map.published)}
-                  variant={map.published ? 'secondary' : 'default'}
-                  className="w-full"
-                >
-                  {map.published ? 'Unpublish' : 'Publish'}
-                </Button>
-                <Button onClick={() => handleDelete(map.id)} variant="destructive" className="w-full">
-                  Delete
-                </Button>
+                {map.role !== 'viewer' && map.published && map.hasUnpublishedChanges && (
+                  <div className="flex gap-2 w-full">
+                    <Link href={`/map/${map.id}?preview=draft`} className="flex-1">
+                      <Button variant="outline" className="w-full">
+                        Preview Draft
+                      </Button>
+                    </Link>
+                    <Button onClick={() => setPublished(map.id, true)} className="flex-1">
+                      Publish Changes
+                    </Button>
+                  </div>
+                )}
+                {map.role !== 'viewer' && (
+                  <Button
+                    onClick={() => setPublished(map.id, !map.published)}
+                    variant={map.published ? 'secondary' : 'default'}
+                    className="w-full"
+                  >
+                    {map.published ? 'Unpublish' : 'Publish'}
+                  </Button>
+                )}
+                {map.role === 'owner' && (
+                  <Button onClick={() => handleDelete(map.id)} variant="destructive" className="w-full">
+                    Delete
+                  </Button>
+                )}
               </CardFooter>
             </Card>
           ))}
         </div>
       )}
+
+      {nextCursor && (
+        <div className="flex justify-center mt-8">
+          <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+            {loadingMore ? 'Loading...' : 'Load more'}
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
@@ -3,6 +3,7 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, ChevronLeft, ChevronRight, ZoomIn } from 'lucide-react';
+import { imageSrcSet, isHostedVideo, thumbnailUrl } from '@/lib/media-client';
 
 interface FullscreenModalProps {
   open: boolean;
@@ -137,7 +138,7 @@ const FullscreenModal: React.FC<FullscreenModalProps> = ({
                   boxShadow: '0 8px 32px rgba(0, 0, 0, 0.3)',
                   aspectRatio: '16/9',
                 }}>
-                  {videos[0].startsWith('data:video/') ? (
+                  {isHostedVideo(videos[0]) ? (
                     <video
                       controls
                       style={{
@@ -202,6 +203,8 @@ const FullscreenModal: React.FC<FullscreenModalProps> = ({
                     <motion.img
                       key={currentImageIndex}
                       src={images[currentImageIndex]}
+                      srcSet={imageSrcSet(images[currentImageIndex])}
+                      sizes="(max-width: 768px) 100vw, 60vw"
                       alt={`${landmarkName} - Image ${currentImageIndex + 1}`}
                       initial={{ opacity: 0 }}
                       animate={{ opacity: 1 }}
@@ -341,7 +344,7 @@ const FullscreenModal: React.FC<FullscreenModalProps> = ({
                         }}
                       >
                         <img
-                          src={image}
+                          src={thumbnailUrl(image)}
                           alt={`Thumbnail ${index + 1}`}
                           style={{
                             width: '100%',
@@ -536,6 +539,8 @@ const FullscreenModal: React.FC<FullscreenModalProps> = ({
               exit={{ scale: 0.9, opacity: 0 }}
               transition={{ duration: 0.3 }}
               src={images[currentImageIndex]}
+              srcSet={imageSrcSet(images[currentImageIndex])}
+              sizes="90vw"
               alt={`${landmarkName} - Image ${currentImageIndex + 1}`}
               onClick={(e) => e.stopPropagation()}
               style={{
@@ -3,6 +3,7 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ArrowLeft, ChevronLeft, ChevronRight, ExternalLink } from 'lucide-react';
+import { imageSrcSet, isHostedVideo, thumbnailUrl } from '@/lib/media-client';
 
 interface ZoneDetailViewProps {
   open: boolean;
@@ -168,6 +169,8 @@ const ZoneDetailView: React.FC<ZoneDetailViewProps> = ({
               <motion.img
                     key={currentImageIndex}
                     src={images[currentImageIndex]}
+                    srcSet={imageSrcSet(images[currentImageIndex])}
+                    sizes="(max-width: 768px) 100vw, 50vw"
                     alt={`${landmarkName} - Image ${currentImageIndex + 1}`}
                     initial={{ opacity: 0 }}
                     animate={{ opacity: 1 }}
@@ -278,7 +281,7 @@ const ZoneDetailView: React.FC<ZoneDetailViewProps> = ({
                   }}
                 >
                   <img
-                    src={image}
+                    src={thumbnailUrl(image)}
                     alt={`Thumbnail ${index + 1}`}
                     style={{
                       width: '100%',
@@ -443,7 +446,7 @@ const ZoneDetailView: React.FC<ZoneDetailViewProps> = ({
             aspectRatio: '16/9',
             backgroundColor: 'rgba(0, 0, 0, 0.3)',
           }}>
-            {videos[0].startsWith('data:video/') ? (
+            {isHostedVideo(videos[0]) ? (
               <video
                 controls
                 style={{
@@ -0,0 +1,378 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { APIProvider, Map, useMap } from '@vis.gl/react-google-maps';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Crosshair, RotateCcw, Save } from 'lucide-react';
+import { geoToMercator, pixelToGeo } from '@/lib/coordinate-converter';
+import {
+  alignmentToGeoreference,
+  BlueprintAlignment as Alignment,
+  boundsToAlignment,
+  georeferenceToAlignment,
+} from '@/lib/georeference';
+import { GeographicBounds, Georeference } from '@/lib/types';
+
+const API_KEY = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY as string;
+
+const DEFAULT_CENTER = { lat: 40.7128, lng: -74.0060 }; // NYC, as in the map selector
+
+interface BlueprintAlignmentProps {
+  imageUrl: string;
+  canvasWidth: number;
+  canvasHeight: number;
+  geoBounds: GeographicBounds | null;
+  georeference?: Georeference;
+  saving?: boolean;
+  onSave: (georeference: Georeference) => void;
+}
+
+type Gesture =
+  | { kind: 'move'; start: google.maps.LatLngLiteral; startCenter: google.maps.LatLngLiteral }
+  | { kind: 'rotate-scale'; startAngle: number; startLength: number; startAlignment: Alignment };
+
+interface BlueprintOverlayHandle {
+  update: (georeference: Georeference, opacity: number) => void;
+  toLatLng: (clientX: number, clientY: number) => google.maps.LatLngLiteral | null;
+  setMap: (map: google.maps.Map | null) => void;
+}
+
+/**
+ * The blueprint drawn on the map through its georeference (any affine fit, as a
+ * CSS matrix from three projected corners), with a handle on its bottom-right
+ * corner for rotating and scaling. Built lazily: google.maps only exists once
+ * the API has loaded.
+ */
+function createBlueprintOverlay(
+  imageUrl: string,
+  canvasWidth: number,
+  canvasHeight: number,
+  onImagePointerDown: (e: PointerEvent) => void,
+  onHandlePointerDown: (e: PointerEvent) => void
+): BlueprintOverlayHandle {
+  class BlueprintOverlay extends google.maps.OverlayView {
+    private container = document.createElement('div');
+    private image = document.createElement('img');
+    private handle = document.createElement('div');
+    private georeference: Georeference | null = null;
+
+    constructor() {
+      super();
+      this.container.style.position = 'absolute';
+      this.container.style.left = '0';
+      this.container.style.top = '0';
+
+      this.image.src = imageUrl;
+      this.image.draggable = false;
+      Object.assign(this.image.style, {
+        position: 'absolute',
+        width: `${canvasWidth}px`,
+        height: `${canvasHeight}px`,
+        maxWidth: 'none',
+        transformOrigin: '0 0',
+        cursor: 'move',
+        outline: '2px dashed #3B82F6',
+      });
+      this.image.addEventListener('pointerdown', onImagePointerDown);
+
+      Object.assign(this.handle.style, {
+        position: 'absolute',
+        width: '16px',
+        height: '16px',
+        marginLeft: '-8px',
+        marginTop: '-8px',
+        borderRadius: '50%',
+        background: '#3B82F6',
+        border: '2px solid white',
+        cursor: 'grab',
+      });
+      this.handle.title = 'Drag to rotate and scale';
+      this.handle.addEventListener('pointerdown', onHandlePointerDown);
+
+      this.container.append(this.image, this.handle);
+    }
+
+    onAdd() {
+      this.getPanes()?.overlayMouseTarget.appendChild(this.container);
+      google.maps.OverlayView.preventMapHitsAndGesturesFrom(this.container);
+    }
+
+    onRemove() {
+      this.container.remove();
+    }
+
+    update(georeference: Georeference, opacity: number) {
+      this.georeference = georeference;
+      this.image.style.opacity = String(opacity);
+      this.draw();
+    }
+
+    draw() {
+      const projection = this.getProjection();
+      if (!projection || !this.georeference) return;
+
+      const toDiv = (x: number, y: number) => {
+        const position = pixelToGeo(x, y, canvasWidth, canvasHeight, this.georeference!);
+        return projection.fromLatLngToDivPixel(position)!;
+      };
+      const origin = toDiv(0, 0);
+      const right = toDiv(canvasWidth, 0);
+      const down = toDiv(0, canvasHeight);
+      const corner = toDiv(canvasWidth, canvasHeight);
+
+      this.image.style.transform = `matrix(${(right.x - origin.x) / canvasWidth}, ${(right.y - origin.y) / canvasWidth}, ` +
+        `${(down.x - origin.x) / canvasHeight}, ${(down.y - origin.y) / canvasHeight}, ${origin.x}, ${origin.y})`;
+      this.handle.style.left = `${corner.x}px`;
+      this.handle.style.top = `${corner.y}px`;
+    }
+
+    toLatLng(clientX: number, clientY: number) {
+      const projection = this.getProjection();
+      const mapDiv = (this.getMap() as google.maps.Map | null)?.getDiv();
+      if (!projection || !mapDiv) return null;
+      const rect = mapDiv.getBoundingClientRect();
+      return projection.fromContainerPixelToLatLng(new google.maps.Point(clientX - rect.left, clientY - rect.top))?.toJSON() ?? null;
+    }
+  }
+
+  return new BlueprintOverlay();
+}
+
+function AlignmentOverlay({
+  imageUrl,
+  canvasWidth,
+  canvasHeight,
+  alignment,
+  opacity,
+  onChange,
+}: {
+  imageUrl: string;
+  canvasWidth: number;
+  canvasHeight: number;
+  alignment: Alignment;
+  opacity: number;
+  onChange: (alignment: Alignment) => void;
+}) {
+  const map = useMap();
+  const overlayRef = useRef<BlueprintOverlayHandle | null>(null);
+  const gestureRef = useRef<Gesture | null>(null);
+  // Pointer handlers are attached once; they read the latest values through this ref
+  const latest = useRef({ alignment, onChange });
+  latest.current = { alignment, onChange };
+
+  useEffect(() => {
+    if (!map) return;
+
+    // Angle and length of the vector from the blueprint center to the pointer, in Mercator space
+    const measure = (position: google.maps.LatLngLiteral, center: google.maps.LatLngLiteral) => {
+      const from = geoToMercator(center.lat, center.lng);
+      const to = geoToMercator(position.lat, position.lng);
+      return { angle: Math.atan2(to.y - from.y, to.x - from.x), length: Math.hypot(to.x - from.x, to.y - from.y) };
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const gesture = gestureRef.current;
+      const position = overlayRef.current?.toLatLng(e.clientX, e.clientY);
+      if (!gesture || !position) return;
+
+      if (gesture.kind === 'move') {
+        latest.current.onChange({
+          ...latest.current.alignment,
+          center: {
+            lat: gesture.startCenter.lat + position.lat - gesture.start.lat,
+            lng: gesture.startCenter.lng + position.lng - gesture.start.lng,
+          },
+        });
+      } else {
+        const { angle, length } = measure(position, gesture.startAlignment.center);
+        if (length === 0) return;
+        // Mercator angles run counterclockwise; rotation is clockwise
+        latest.current.onChange({
+          ...gesture.startAlignment,
+          metersPerPixel: gesture.startAlignment.metersPerPixel * (length / gesture.startLength),
+          rotation: gesture.startAlignment.rotation - ((angle - gesture.startAngle) * 180) / Math.PI,
+        });
+      }
+    };
+
+    const handlePointerUp = () => {
+      gestureRef.current = null;
+    };
+
+    const startMove = (e: PointerEvent) => {
+      const start = overlayRef.current?.toLatLng(e.clientX, e.clientY);
+      if (!start) return;
+      e.preventDefault();
+      gestureRef.current = { kind: 'move', start, startCenter: latest.current.alignment.center };
+    };
+
+    const startRotateScale = (e: PointerEvent) => {
+      const start = overlayRef.current?.toLatLng(e.clientX, e.clientY);
+      if (!start) return;
+      e.preventDefault();
+      e.stopPropagation();
+      const startAlignment = latest.current.alignment;
+      const { angle, length } = measure(start, startAlignment.center);
+      if (length === 0) return;
+      gestureRef.current = { kind: 'rotate-scale', startAngle: angle, startLength: length, startAlignment };
+    };
+
+    const overlay = createBlueprintOverlay(imageUrl, canvasWidth, canvasHeight, startMove, startRotateScale);
+    overlay.setMap(map);
+    overlayRef.current = overlay;
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      overlay.setMap(null);
+      overlayRef.current = null;
+    };
+  }, [map, imageUrl, canvasWidth, canvasHeight]);
+
+  useEffect(() => {
+    overlayRef.current?.update(alignmentToGeoreference(alignment, canvasWidth, canvasHeight), opacity);
+  }, [map, alignment, opacity, canvasWidth, canvasHeight]);
+
+  return null;
+}
+
+function MapCenterButton({ onCenter }: { onCenter: (center: google.maps.LatLngLiteral) => void }) {
+  const map = useMap();
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      disabled={!map}
+      onClick={() => {
+        const center = map?.getCenter()?.toJSON();
+        if (center) onCenter(center);
+      }}
+    >
+      <Crosshair className="mr-2 h-4 w-4" />
+      Move to Map Center
+    </Button>
+  );
+}
+
+function BlueprintAlignmentComponent({ imageUrl, canvasWidth, canvasHeight, geoBounds, georeference, saving, onSave }: BlueprintAlignmentProps) {
+  const initialAlignment = (): Alignment => {
+    if (georeference) return georeferenceToAlignment(georeference, canvasWidth, canvasHeight);
+    if (geoBounds) return boundsToAlignment(geoBounds, canvasWidth, canvasHeight);
+    return { center: DEFAULT_CENTER, metersPerPixel: 500 / canvasWidth, rotation: 0 };
+  };
+
+  const [alignment, setAlignment] = useState<Alignment>(initialAlignment);
+  const [opacity, setOpacity] = useState(0.6);
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-muted p-3 rounded-lg text-sm">
+        Drag the blueprint to move it and drag the blue corner handle to rotate and scale it until it lines up with the
+        satellite imagery. Lower the opacity to compare details.
+        {georeference?.method === 'affine' && ' Saving replaces the current affine fit with this rotate-and-scale alignment.'}
+      </div>
+
+      <div className="h-[600px] w-full rounded-lg overflow-hidden border relative">
+        <Map
+          defaultCenter={alignment.center}
+          defaultZoom={17}
+          mapTypeId="hybrid"
+          gestureHandling="greedy"
+          style={{ width: '100%', height: '100%' }}
+        >
+          <AlignmentOverlay
+            imageUrl={imageUrl}
+            canvasWidth={canvasWidth}
+            canvasHeight={canvasHeight}
+            alignment={alignment}
+            opacity={opacity}
+            onChange={setAlignment}
+          />
+        </Map>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="overlayOpacity">Opacity: {Math.round(opacity * 100)}%</Label>
+          <input
+            id="overlayOpacity"
+            type="range"
+            min="0.1"
+            max="1"
+            step="0.05"
+            value={opacity}
+            onChange={(e) => setOpacity(parseFloat(e.target.value))}
+            className="w-full accent-blue-600"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="overlayRotation">Rotation (degrees clockwise)</Label>
+          <Input
+            id="overlayRotation"
+            type="number"
+            step="0.1"
+            value={Number(alignment.rotation.toFixed(2))}
+            onChange={(e) => {
+              const rotation = parseFloat(e.target.value);
+              if (Number.isFinite(rotation)) setAlignment({ ...alignment, rotation });
+            }}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="overlayScale">Scale (meters per pixel)</Label>
+          <Input
+            id="overlayScale"
+            type="number"
+            step="0.001"
+            min="0"
+            value={Number(alignment.metersPerPixel.toPrecision(4))}
+            onChange={(e) => {
+              const metersPerPixel = parseFloat(e.target.value);
+              if (metersPerPixel > 0) setAlignment({ ...alignment, metersPerPixel });
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap justify-between gap-2">
+        <div className="flex gap-2">
+          <MapCenterButton onCenter={center => setAlignment({ ...alignment, center })} />
+          <Button variant="outline" size="sm" onClick={() => setAlignment(initialAlignment())}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Reset
+          </Button>
+        </div>
+        <Button disabled={saving} onClick={() => onSave(alignmentToGeoreference(alignment, canvasWidth, canvasHeight))}>
+          <Save className="mr-2 h-4 w-4" />
+          {saving ? 'Saving...' : 'Save Alignment'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Align a blueprint by eye: drawn semi-transparently over the Google base map,
+ * dragged, rotated and scaled into place, and saved as a georeference
+ */
+export default function BlueprintAlignment(props: BlueprintAlignmentProps) {
+  if (!API_KEY) {
+    return (
+      <div className="p-4 border rounded-lg bg-muted">
+        <p className="text-sm text-muted-foreground">
+          Google Maps API key not configured. Please add NEXT_PUBLIC_GOOGLE_MAPS_API_KEY to your .env.local file.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <APIProvider apiKey={API_KEY}>
+      <BlueprintAlignmentComponent {...props} />
+    </APIProvider>
+  );
+}
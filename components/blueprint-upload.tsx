@@ -6,15 +6,19 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import Image from 'next/image';
+import { uploadMedia, WEB_IMAGE_WIDTH } from '@/lib/media-client';
+import { TilePyramid } from '@/lib/types';
 
 interface BlueprintUploadProps {
-  onUpload: (imageUrl: string, dimensions: { width: number; height: number }) => void;
+  onUpload: (imageUrl: string, dimensions: { width: number; height: number }, tiles?: TilePyramid) => void;
   onSkip: () => void;
 }
 
 export default function BlueprintUpload({ onUpload, onSkip }: BlueprintUploadProps) {
+  const [file, setFile] = useState<File | null>(null);
   const [preview, setPreview] = useState<string | null>(null);
   const [dimensions, setDimensions] = useState<{ width: number; height: number } | null>(null);
+  const [uploading, setUploading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -27,25 +31,42 @@ export default function BlueprintUpload({ onUpload, onSkip }: BlueprintUploadPro
       return;
     }
 
-    // Create preview URL
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const imageUrl = event.target?.result as string;
-      setPreview(imageUrl);
+    // Preview the local file; it is only uploaded once the user continues
+    if (preview) URL.revokeObjectURL(preview);
+    const previewUrl = URL.createObjectURL(file);
+    setFile(file);
+    setPreview(previewUrl);
+    setDimensions(null);
 
-      // Get image dimensions
-      const img = new window.Image();
-      img.onload = () => {
-        setDimensions({ width: img.width, height: img.height });
-      };
-      img.src = imageUrl;
+    // Get image dimensions
+    const img = new window.Image();
+    img.onload = () => {
+      setDimensions({ width: img.width, height: img.height });
     };
-    reader.readAsDataURL(file);
+    img.src = previewUrl;
   };
 
-  const handleUpload = () => {
-    if (preview && dimensions) {
-      onUpload(preview, dimensions);
+  const handleUpload = async () => {
+    if (!file || !dimensions) return;
+
+    setUploading(true);
+    try {
+      const media = await uploadMedia(file, 'blueprint');
+
+      // Very large floor plans are edited and shown at web size; zone coordinates
+      // follow the canvas, so the canvas takes the web version's dimensions.
+      // The full resolution is still reachable when zooming in, through the tiles.
+      const webVersion = media.variants?.find(variant => variant.width === WEB_IMAGE_WIDTH);
+      if (webVersion) {
+        onUpload(webVersion.url, { width: webVersion.width, height: webVersion.height }, media.tiles);
+      } else {
+        onUpload(media.url, media.width && media.height ? { width: media.width, height: media.height } : dimensions);
+      }
+    } catch (error) {
+      console.error('Error uploading blueprint:', error);
+      alert(error instanceof Error ? error.message : 'Failed to upload image');
+    } finally {
+      setUploading(false);
     }
   };
 
@@ -84,8 +105,8 @@ export default function BlueprintUpload({ onUpload, onSkip }: BlueprintUploadPro
         )}
 
         <div className="flex gap-2">
-          <Button onClick={handleUpload} disabled={!preview} className="flex-1">
-            Continue with Blueprint
+          <Button onClick={handleUpload} disabled={!preview || !dimensions || uploading} className="flex-1">
+            {uploading ? 'Uploading...' : 'Continue with Blueprint'}
           </Button>
           <Button onClick={onSkip} variant="outline" className="flex-1">
             Skip (Use Base Map)
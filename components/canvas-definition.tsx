@@ -113,7 +113,7 @@ export default function CanvasDefinition({ onComplete }: CanvasDefinitionProps)
             <TabsTrigger value="freeform">Free Placement</TabsTrigger>
             <TabsTrigger value="search">Define Area</TabsTrigger>
             <TabsTrigger value="manual">Coordinates</TabsTrigger>
-            <TabsTrigger value="import">Import CSV</TabsTrigger>
+            <TabsTrigger value="import">Import CSV / GeoJSON</TabsTrigger>
           </TabsList>
 
           <TabsContent value="freeform" className="space-y-4">
@@ -236,13 +236,13 @@ export default function CanvasDefinition({ onComplete }: CanvasDefinitionProps)
             <div className="space-y-4">
               <div className="text-center p-6 border-2 border-dashed border-gray-300 rounded-lg">
                 <Upload className="h-12 w-12 mx-auto text-gray-400 mb-4" />
-                <h3 className="text-lg font-semibold mb-2">Import Zones from CSV</h3>
+                <h3 className="text-lg font-semibold mb-2">Import Zones from CSV, Spreadsheet or GeoJSON</h3>
                 <p className="text-sm text-gray-600 mb-4">
-                  Upload a CSV file with location data to bulk import zones
+                  Upload a CSV, Excel, OpenDocument or GeoJSON file with location data to bulk import zones
                 </p>
                 <Button onClick={() => setShowCsvImportDialog(true)} size="lg">
                   <Upload className="mr-2 h-4 w-4" />
-                  Choose CSV File
+                  Choose File
                 </Button>
               </div>
 
@@ -251,7 +251,7 @@ export default function CanvasDefinition({ onComplete }: CanvasDefinitionProps)
                   <AlertCircle className="h-4 w-4 text-green-600" />
                   <AlertTitle className="text-green-800">Import Successful</AlertTitle>
                   <AlertDescription className="text-green-700">
-                    Imported {importedZones.length} zones from CSV.
+                    Imported {importedZones.length} zones.
                     {geoBounds && " Geographic bounds have been automatically calculated."}
                   </AlertDescription>
                 </Alert>
@@ -279,7 +279,7 @@ export default function CanvasDefinition({ onComplete }: CanvasDefinitionProps)
                   <AlertCircle className="h-4 w-4" />
                   <AlertTitle>No Geographic Coordinates</AlertTitle>
                   <AlertDescription>
-                    The imported data doesn't contain valid coordinates. Please add coordinates to your CSV or select an area manually.
+                    The imported data doesn't contain valid coordinates. Please add coordinates to your file or select an area manually.
                   </AlertDescription>
                 </Alert>
               )}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -9,39 +9,158 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Progress } from '@/components/ui/progress';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Upload, MapPin, AlertCircle, Check, Loader2, FileText } from 'lucide-react';
 import {
-  parseCSV,
+  parseGeoJSON,
   analyzeCsvColumns,
   csvToZones,
+  geoJsonToZones,
   prepareZonesForCanvas,
   batchGeocodeZones,
   CSVRow,
   CSVImportOptions,
+  CellDelimiters,
+  DEFAULT_CELL_DELIMITERS,
+  GeoJSONImport,
   GeocodedZone,
   ImportedZone
 } from '@/lib/csv-importer';
-import { GeographicBounds } from '@/lib/types';
+import { CSVParseResult, parseCSVFile } from '@/lib/csv-parser';
+import { parseSpreadsheet, SpreadsheetSheet, spreadsheetFormat } from '@/lib/spreadsheet-importer';
+import { ImportSyncOptions, ImportSyncPlan, planImportSync, SYNC_FIELDS, SyncableZone, ZoneLocationAdapter } from '@/lib/import-sync';
+import { GeoFrame } from '@/lib/coordinate-converter';
+import { georeferenceBounds } from '@/lib/georeference';
+import { GeocodeCandidate, GeocodeItemStatus, GeographicBounds, Georeference, SyncField } from '@/lib/types';
 
-interface CSVImportDialogProps {
+const DELIMITER_NAMES: Record<string, string> = {
+  ',': 'comma',
+  ';': 'semicolon',
+  '\t': 'tab',
+  '|': 'pipe',
+};
+
+const ENCODING_NAMES: Record<string, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16',
+  'utf-16be': 'UTF-16',
+  'windows-1252': 'Windows-1252 / Latin-1',
+};
+
+// Row problems listed in the preview step (the rest are only counted)
+const SHOWN_ROW_ERRORS = 5;
+// Zones listed per kind of change in a sync dry run
+const SHOWN_SYNC_CHANGES = 10;
+// Addresses listed after geocoding that need attention
+const SHOWN_GEOCODE_ISSUES = 20;
+
+const GEOCODE_ISSUE_NAMES: Partial<Record<GeocodeItemStatus, string>> = {
+  not_found: 'not found',
+  ambiguous: 'ambiguous, placed at the best match',
+  error: 'geocoding failed',
+};
+
+/**
+ * Option label of a geocoding candidate: place, confidence and how precise it is
+ */
+function candidateLabel(candidate: GeocodeCandidate): string {
+  const place = candidate.displayName ?? `${candidate.lat.toFixed(5)}, ${candidate.lng.toFixed(5)}`;
+  const outside = candidate.inBounds === false ? ', outside map' : '';
+  return `${place} (${Math.round(candidate.confidence * 100)}% ${candidate.matchType}${outside})`;
+}
+
+const SYNC_FIELD_NAMES: Record<SyncField, string> = {
+  title: 'name',
+  description: 'description',
+  category: 'category',
+  images: 'images',
+  videos: 'videos',
+  links: 'links',
+  color: 'color',
+  icon: 'icon',
+  location: 'location',
+};
+
+/**
+ * Media and link counts of an imported zone, e.g. "2 images, 1 link"
+ */
+function mediaSummary(zone: ImportedZone): string {
+  const counts: [number, string, string][] = [
+    [zone.images?.length ?? 0, 'image', 'images'],
+    [zone.videos?.length ?? 0, 'video', 'videos'],
+    [zone.links?.length ?? 0, 'link', 'links'],
+  ];
+  return counts
+    .filter(([count]) => count > 0)
+    .map(([count, one, many]) => `${count} ${count === 1 ? one : many}`)
+    .join(', ');
+}
+
+/**
+ * Fields a file provides with the given column mappings: a sync leaves the
+ * others alone instead of clearing them
+ */
+function mappedSyncFields(mappings: CSVImportOptions, isGeoJson: boolean, hasCellLinks: boolean): SyncField[] {
+  const columns: Record<SyncField, boolean> = {
+    title: true,
+    description: !!mappings.descriptionColumn,
+    category: !!mappings.categoryColumn,
+    images: !!mappings.imagesColumn,
+    videos: !!mappings.videosColumn,
+    links: !!mappings.linksColumn || hasCellLinks,
+    color: !!mappings.colorColumn,
+    icon: !!mappings.iconColumn,
+    // Rows without any location are laid out in a grid, which isn't a location to sync
+    location: isGeoJson || !!mappings.addressColumn || !!mappings.wktColumn || !!(mappings.latitudeColumn && mappings.longitudeColumn),
+  };
+  return SYNC_FIELDS.filter(field => columns[field]);
+}
+
+/**
+ * The editor's zones, enabling sync mode: rows update the zone imported with
+ * the same key instead of adding a new one
+ */
+interface ImportSyncTarget<T extends SyncableZone> {
+  zones: T[];
+  // The editor's conversion of imported zones, as done for onImport
+  toZones: (zones: GeocodedZone[]) => T[];
+  location: ZoneLocationAdapter<T>;
+  onSync: (plan: ImportSyncPlan<T>) => void;
+}
+
+interface CSVImportDialogProps<T extends SyncableZone> {
   open: boolean;
   onClose: () => void;
   onImport: (zones: GeocodedZone[], calculatedBounds?: GeographicBounds) => void;
   canvasWidth: number;
   canvasHeight: number;
   geoBounds?: GeographicBounds | null;
+  // Georeferenced blueprints place imported coordinates through their control point fit
+  georeference?: Georeference;
+  sync?: ImportSyncTarget<T>;
 }
 
-export default function CSVImportDialog({
+export default function CSVImportDialog<T extends SyncableZone = SyncableZone>({
   open,
   onClose,
   onImport,
   canvasWidth,
   canvasHeight,
-  geoBounds
-}: CSVImportDialogProps) {
+  geoBounds,
+  georeference,
+  sync
+}: CSVImportDialogProps<T>) {
   const [file, setFile] = useState<File | null>(null);
   const [csvData, setCsvData] = useState<CSVRow[]>([]);
+  // Set when the uploaded file is GeoJSON: zone locations then come from the feature geometry
+  const [geoJson, setGeoJson] = useState<GeoJSONImport | null>(null);
+  // Detected delimiter and encoding of a CSV file, and the rows it had problems with
+  const [csvParse, setCsvParse] = useState<CSVParseResult | null>(null);
+  const [parseProgress, setParseProgress] = useState(0);
+  // Sheets of a spreadsheet file (empty for CSV and GeoJSON) and the hyperlinked cells of the chosen sheet
+  const [sheets, setSheets] = useState<SpreadsheetSheet[]>([]);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [rowLinks, setRowLinks] = useState<SpreadsheetSheet['links']>([]);
   const [columns, setColumns] = useState<string[]>([]);
   const [mappings, setMappings] = useState<CSVImportOptions>({});
   const [previewZones, setPreviewZones] = useState<ImportedZone[]>([]);
@@ -50,15 +169,38 @@ export default function CSVImportDialog({
   const [geocodingProgress, setGeocodingProgress] = useState({ current: 0, total: 0, address: '' });
   const [error, setError] = useState<string | null>(null);
   const [step, setStep] = useState<'upload' | 'mapping' | 'preview'>('upload');
+  const [syncMode, setSyncMode] = useState(false);
+  const [syncOptions, setSyncOptions] = useState<ImportSyncOptions>({ keepEditedFields: true, deleteMissing: false });
+  // Dry run of a sync, shown in the preview step until applied
+  const [syncPlan, setSyncPlan] = useState<ImportSyncPlan<T> | null>(null);
+  // Zones whose address wasn't found, failed or was ambiguous, listed before importing
+  const [geocodeIssues, setGeocodeIssues] = useState<GeocodedZone[]>([]);
+  // Candidate picked for an ambiguous address (index in its candidates, by address)
+  const [candidateChoices, setCandidateChoices] = useState<Record<string, number>>({});
+  // Stops polling the geocoding job when the dialog closes (the job carries on on the server)
+  const geocodeAbort = useRef<AbortController | null>(null);
+
+  useEffect(() => () => geocodeAbort.current?.abort(), []);
 
   useEffect(() => {
     if (!open) {
+      geocodeAbort.current?.abort();
       // Reset state when dialog closes
       setFile(null);
       setCsvData([]);
+      setGeoJson(null);
+      setCsvParse(null);
+      setParseProgress(0);
+      setSheets([]);
+      setSheetIndex(0);
+      setRowLinks([]);
       setColumns([]);
       setMappings({});
       setPreviewZones([]);
+      setSyncMode(false);
+      setSyncPlan(null);
+      setGeocodeIssues([]);
+      setCandidateChoices({});
       setStep('upload');
       setError(null);
       setIsProcessing(false);
@@ -67,6 +209,14 @@ export default function CSVImportDialog({
     }
   }, [open]);
 
+  // Load one sheet of a spreadsheet file and suggest its column mappings
+  const selectSheet = (sheet: SpreadsheetSheet) => {
+    setCsvData(sheet.rows);
+    setRowLinks(sheet.links);
+    setColumns(sheet.headers);
+    setMappings(analyzeCsvColumns(sheet.rows));
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -74,28 +224,77 @@ export default function CSVImportDialog({
     setFile(file);
     setError(null);
     setIsProcessing(true);
+    setParseProgress(0);
+
+    const format = spreadsheetFormat(file);
+    const head = format ? '' : await file.slice(0, 1024).text();
+    const isGeoJson = !format && (/\.(geo)?json$/i.test(file.name) || head.trimStart().startsWith('{'));
 
     try {
-      const text = await file.text();
-      const data = parseCSV(text);
+      if (format) {
+        const workbook = (await parseSpreadsheet(file, format)).filter(sheet => sheet.rows.length > 0);
+        if (workbook.length === 0) {
+          setError('No data found in spreadsheet');
+          return;
+        }
+
+        setSheets(workbook);
+        setSheetIndex(0);
+        setGeoJson(null);
+        setCsvParse(null);
+        selectSheet(workbook[0]);
+        setSyncMode(!!sync?.zones.some(zone => zone.externalId));
+        setStep('mapping');
+        return;
+      }
+
+      const parsed = isGeoJson ? parseGeoJSON(await file.text()) : null;
+      // CSV files are parsed in chunks so large files don't freeze the page
+      const csv = parsed ? null : await parseCSVFile(file, (loaded, total) => setParseProgress((loaded / total) * 100));
+      const data = parsed ? parsed.rows : csv!.rows;
 
       if (data.length === 0) {
-        setError('No data found in CSV file');
+        setError(parsed ? 'No point or polygon features found in GeoJSON file' : 'No data found in CSV file');
         setIsProcessing(false);
         return;
       }
 
+      if (parsed && parsed.skipped > 0) {
+        console.warn(`[CSV Import] Skipped ${parsed.skipped} GeoJSON features without point or polygon geometry`);
+      }
+
       setCsvData(data);
-      setColumns(Object.keys(data[0]));
+      setGeoJson(parsed);
+      setCsvParse(csv);
+      setSheets([]);
+      setRowLinks([]);
+      setColumns(csv ? csv.headers : Object.keys(data[0]));
 
       // Analyze columns and suggest mappings
       const suggestions = analyzeCsvColumns(data);
+      if (parsed) {
+        // Locations come from the geometry, not from property columns
+        suggestions.latitudeColumn = undefined;
+        suggestions.longitudeColumn = undefined;
+        suggestions.typeColumn = undefined;
+        suggestions.pointsColumn = undefined;
+        suggestions.wktColumn = undefined;
+        suggestions.radiusColumn = undefined;
+        suggestions.widthColumn = undefined;
+        suggestions.heightColumn = undefined;
+      }
       setMappings(suggestions);
+      // Files imported with a key before are most likely being re-imported
+      setSyncMode(!!sync?.zones.some(zone => zone.externalId));
 
       setStep('mapping');
     } catch (err) {
-      setError('Failed to parse CSV file. Please ensure it is a valid CSV format.');
-      console.error('CSV parse error:', err);
+      setError(format
+        ? 'Failed to read spreadsheet. Please ensure it is an .xlsx or .ods file.'
+        : isGeoJson
+          ? 'Failed to parse GeoJSON file. Please ensure it is a FeatureCollection or Feature.'
+          : 'Failed to parse CSV file. Please ensure it is a valid CSV format.');
+      console.error(format ? 'Spreadsheet parse error:' : isGeoJson ? 'GeoJSON parse error:' : 'CSV parse error:', err);
     } finally {
       setIsProcessing(false);
     }
@@ -108,15 +307,48 @@ export default function CSVImportDialog({
     }));
   };
 
+  const handleDelimiterChange = (field: keyof CellDelimiters, value: string) => {
+    setMappings(prev => ({
+      ...prev,
+      delimiters: { ...(prev.delimiters ?? DEFAULT_CELL_DELIMITERS), [field]: value }
+    }));
+  };
+
+  const renderColumnSelect = (label: string, field: keyof CSVImportOptions, placeholder: string) => (
+    <div>
+      <Label>{label}</Label>
+      <Select value={(mappings[field] as string | undefined) || 'none'} onValueChange={(value) => handleMappingChange(field, value)}>
+        <SelectTrigger>
+          <SelectValue placeholder={placeholder} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">None</SelectItem>
+          {columns.map(col => (
+            <SelectItem key={col} value={col}>{col}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
   const handlePreview = () => {
-    const zones = csvToZones(csvData, mappings);
+    const zones = geoJson ? geoJsonToZones(geoJson, mappings) : csvToZones(csvData, mappings, rowLinks);
     setPreviewZones(zones);
+    setSyncPlan(null);
+    setGeocodeIssues([]);
+    setCandidateChoices({});
     setStep('preview');
   };
 
-  const handleImport = async () => {
+  // `retryFailed` geocodes the failed and not found addresses again; `acceptIssues` imports despite them
+  const handleImport = async (options: { retryFailed?: boolean; acceptIssues?: boolean } = {}) => {
     setIsProcessing(true);
     setError(null);
+    setGeocodeIssues([]);
+    geocodeAbort.current?.abort();
+    const controller = new AbortController();
+    geocodeAbort.current = controller;
+    const { signal } = controller;
 
     try {
       // Check if any zones need geocoding
@@ -126,11 +358,14 @@ export default function CSVImportDialog({
       // 1. Geocode all addresses first
       // 2. Auto-calculate bounds from geocoded results
       // 3. Then convert to canvas coordinates
-      let calculatedBounds = geoBounds;
+      // GeoJSON brings its own extent, used when the map has no area yet
+      let calculatedBounds = geoBounds ?? geoJson?.bounds;
+      // Control points place zones more precisely than the bounds, as in placeZone and the map export
+      const mapFrame: GeoFrame | null = georeference ?? geoBounds ?? null;
 
       let canvasZones: GeocodedZone[];
 
-      if (needsGeocoding && !geoBounds) {
+      if (needsGeocoding && !mapFrame) {
         console.log('[CSV Import] No bounds provided, will geocode and auto-calculate bounds');
         setIsGeocoding(true);
 
@@ -158,7 +393,9 @@ export default function CSVImportDialog({
           canvasHeight,
           (current, total, address) => {
             setGeocodingProgress({ current, total, address: address || '' });
-          }
+          },
+          // No map area to prefer candidates in yet
+          { retryFailed: options.retryFailed, candidateChoices, signal }
         );
 
         // Auto-calculate bounds from geocoded results
@@ -182,9 +419,10 @@ export default function CSVImportDialog({
         canvasZones = tempZones;
       } else {
         // Convert imported zones to canvas format (with proper bounds)
+        const frame = mapFrame ?? calculatedBounds ?? null;
         canvasZones = prepareZonesForCanvas(
           previewZones,
-          calculatedBounds || null,
+          frame,
           canvasWidth,
           canvasHeight
         );
@@ -192,28 +430,43 @@ export default function CSVImportDialog({
         // If we still need geocoding (and we have bounds), do it now
         const stillNeedsGeocoding = canvasZones.some(z => z.needsGeocoding);
 
-        if (stillNeedsGeocoding && calculatedBounds) {
+        if (stillNeedsGeocoding && frame) {
           setIsGeocoding(true);
           // Perform batch geocoding for addresses
           canvasZones = await batchGeocodeZones(
             canvasZones,
-            calculatedBounds,
+            frame,
             canvasWidth,
             canvasHeight,
             (current, total, address) => {
               setGeocodingProgress({ current, total, address: address || '' });
+            },
+            {
+              retryFailed: options.retryFailed,
+              bounds: calculatedBounds ?? (georeference && georeferenceBounds(georeference, canvasWidth, canvasHeight)),
+              candidateChoices,
+              signal,
             }
           );
         }
       }
 
+      // Let the user retry or review addresses that weren't placed cleanly before importing
+      const issues = canvasZones.filter(z => z.geocodeStatus && z.geocodeStatus !== 'ok');
+      if (issues.length > 0 && !options.acceptIssues) {
+        setGeocodeIssues(issues);
+        return;
+      }
+
       // Check if any zones fall outside the canvas bounds
       console.log('[CSV Import] Checking if zones are outside bounds...');
       console.log('[CSV Import] Canvas size:', { width: canvasWidth, height: canvasHeight });
 
       const zonesOutsideBounds = canvasZones.filter(z => {
         const coords = z.coordinates as { x: number; y: number };
-        const isOutside = coords.x < 0 || coords.x > canvasWidth || coords.y < 0 || coords.y > canvasHeight;
+        // Polygons are outside when any of their vertices is
+        const positions = 'points' in z.coordinates ? z.coordinates.points : [coords];
+        const isOutside = positions.some(p => p.x < 0 || p.x > canvasWidth || p.y < 0 || p.y > canvasHeight);
         if (isOutside) {
           console.log('[CSV Import] Zone outside bounds:', z.content.title, coords);
         }
@@ -254,7 +507,7 @@ export default function CSVImportDialog({
             `  Needed: ${suggestedBounds.minLat.toFixed(4)}° to ${suggestedBounds.maxLat.toFixed(4)}° lat (${latRange}° span)\n\n` +
             `💡 TIP: Cancel this wizard and start over:\n` +
             `   1. Go back to Create New Map\n` +
-            `   2. In Step 2 (Canvas), use the "Import CSV" tab\n` +
+            `   2. In Step 2 (Canvas), use the "Import CSV / GeoJSON" tab\n` +
             `   3. Import your CSV there - it will auto-calculate the right bounds!\n\n` +
             `Or manually select a larger area in Step 2 that covers all of Orlando (not just UCF campus).`;
 
@@ -274,10 +527,20 @@ export default function CSVImportDialog({
         console.log('[CSV Import] All zones within bounds, proceeding with import');
       }
 
+      if (sync && syncMode) {
+        // Show the dry run; nothing changes until it is applied
+        const unlocatedKeys = new Set(canvasZones.filter(z => z.needsGeocoding && z.externalId).map(z => z.externalId!));
+        const fields = mappedSyncFields(mappings, !!geoJson, rowLinks.some(links => Object.keys(links).length > 0));
+        setSyncPlan(planImportSync(sync.zones, sync.toZones(canvasZones), { ...syncOptions, fields }, sync.location, unlocatedKeys));
+        return;
+      }
+
       // Import the zones (and pass calculated bounds if we had to calculate them)
       onImport(canvasZones, calculatedBounds || undefined);
       onClose();
     } catch (err) {
+      // Closed while geocoding: nothing to report
+      if (signal.aborted) return;
       setError('Failed to import zones. Please try again.');
       console.error('Import error:', err);
     } finally {
@@ -286,24 +549,32 @@ export default function CSVImportDialog({
     }
   };
 
+  const handleApplySync = () => {
+    if (!sync || !syncPlan) return;
+    sync.onSync(syncPlan);
+    onClose();
+  };
+
   const renderUploadStep = () => (
     <div className="space-y-4">
       <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
         <Upload className="h-12 w-12 mx-auto text-gray-400 mb-4" />
         <div className="space-y-2">
           <Label htmlFor="csv-upload" className="cursor-pointer">
-            <span className="text-primary hover:underline">Choose CSV file</span>
+            <span className="text-primary hover:underline">Choose a CSV, spreadsheet or GeoJSON file</span>
             {' or drag and drop'}
           </Label>
           <Input
             id="csv-upload"
             type="file"
-            accept=".csv,text/csv"
+            accept=".csv,text/csv,.xlsx,.ods,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/vnd.oasis.opendocument.spreadsheet,.geojson,.json,application/geo+json"
             onChange={handleFileUpload}
             className="hidden"
           />
           <p className="text-sm text-gray-500">
-            CSV files should contain columns for name, address, and description
+            CSV files and spreadsheets (Excel .xlsx, OpenDocument .ods or a Google Sheets download)
+            should contain columns for name, address, and description.
+            GeoJSON files should be a FeatureCollection of points or polygons.
           </p>
         </div>
       </div>
@@ -315,6 +586,10 @@ export default function CSVImportDialog({
         </div>
       )}
 
+      {isProcessing && parseProgress > 0 && (
+        <Progress value={parseProgress} className="h-2" />
+      )}
+
       {error && (
         <Alert variant="destructive">
           <AlertCircle className="h-4 w-4" />
@@ -328,12 +603,40 @@ export default function CSVImportDialog({
   const renderMappingStep = () => (
     <div className="space-y-4">
       <div className="text-sm text-gray-600 mb-4">
-        Found {csvData.length} rows and {columns.length} columns in your CSV
+        {geoJson
+          ? `Found ${csvData.length} features and ${columns.length} properties in your GeoJSON`
+          : `Found ${csvData.length} rows and ${columns.length} columns in your ${sheets.length > 0 ? 'sheet' : 'CSV'}`}
+        {geoJson && geoJson.skipped > 0 && ` (${geoJson.skipped} features without point or polygon geometry skipped)`}
+        {csvParse && ` (${DELIMITER_NAMES[csvParse.delimiter] ?? csvParse.delimiter}-separated, ${ENCODING_NAMES[csvParse.encoding] ?? csvParse.encoding})`}
       </div>
 
       <div className="space-y-4">
+        {sheets.length > 1 && (
+          <div>
+            <Label>Sheet</Label>
+            <Select
+              value={String(sheetIndex)}
+              onValueChange={(value) => {
+                setSheetIndex(Number(value));
+                selectSheet(sheets[Number(value)]);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select sheet" />
+              </SelectTrigger>
+              <SelectContent>
+                {sheets.map((sheet, index) => (
+                  <SelectItem key={index} value={String(index)}>
+                    {sheet.name} ({sheet.rows.length} rows)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         <div>
-          <Label>Zone Name Column *</Label>
+          <Label>Zone Name Column{geoJson ? '' : ' *'}</Label>
           <Select value={mappings.nameColumn || ''} onValueChange={(value) => handleMappingChange('nameColumn', value)}>
             <SelectTrigger>
               <SelectValue placeholder="Select name column" />
@@ -346,6 +649,53 @@ export default function CSVImportDialog({
           </Select>
         </div>
 
+        <div>
+          <Label>Key Column{syncMode ? ' *' : ''}</Label>
+          <Select value={mappings.keyColumn || 'none'} onValueChange={(value) => handleMappingChange('keyColumn', value)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select key column (optional)" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              {columns.map(col => (
+                <SelectItem key={col} value={col}>{col}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500 mt-1">
+            A unique ID per row, saved with each zone so an updated file can be re-imported onto the same zones
+          </p>
+        </div>
+
+        {sync && (
+          <div className="space-y-2 rounded-md border p-3">
+            <div className="flex items-center gap-2">
+              <Checkbox id="csv-sync-mode" checked={syncMode} onCheckedChange={(checked) => setSyncMode(checked === true)} />
+              <Label htmlFor="csv-sync-mode">Update the zones imported with the same key instead of adding new ones</Label>
+            </div>
+            {syncMode && (
+              <>
+                <div className="flex items-center gap-2 ml-6">
+                  <Checkbox
+                    id="csv-sync-keep-edits"
+                    checked={syncOptions.keepEditedFields}
+                    onCheckedChange={(checked) => setSyncOptions(prev => ({ ...prev, keepEditedFields: checked === true }))}
+                  />
+                  <Label htmlFor="csv-sync-keep-edits">Keep fields edited in the map since the last import</Label>
+                </div>
+                <div className="flex items-center gap-2 ml-6">
+                  <Checkbox
+                    id="csv-sync-delete"
+                    checked={syncOptions.deleteMissing}
+                    onCheckedChange={(checked) => setSyncOptions(prev => ({ ...prev, deleteMissing: checked === true }))}
+                  />
+                  <Label htmlFor="csv-sync-delete">Delete imported zones whose key is no longer in the file</Label>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
         <div>
           <Label>Address Column</Label>
           <Select value={mappings.addressColumn || 'none'} onValueChange={(value) => handleMappingChange('addressColumn', value)}>
@@ -392,11 +742,82 @@ export default function CSVImportDialog({
         </div>
 
         <div className="grid grid-cols-2 gap-4">
+          {renderColumnSelect('Images Column', 'imagesColumn', 'Select image URLs (optional)')}
+          {renderColumnSelect('Videos Column', 'videosColumn', 'Select video URLs (optional)')}
+          {renderColumnSelect('Links Column', 'linksColumn', 'Select link URLs (optional)')}
+          {renderColumnSelect('Link Labels Column', 'linkLabelsColumn', 'Select link labels (optional)')}
+          {renderColumnSelect('Color Column', 'colorColumn', 'Select color (optional)')}
+          {renderColumnSelect('Icon Column', 'iconColumn', 'Select icon (optional)')}
+        </div>
+
+        {(mappings.imagesColumn || mappings.videosColumn || mappings.linksColumn) && (
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="csv-list-delimiter">Value Separator</Label>
+              <Input
+                id="csv-list-delimiter"
+                value={mappings.delimiters?.list ?? DEFAULT_CELL_DELIMITERS.list}
+                onChange={(e) => handleDelimiterChange('list', e.target.value)}
+                maxLength={3}
+              />
+              <p className="text-xs text-gray-500 mt-1">Between several URLs in one cell; line breaks always separate them</p>
+            </div>
+            <div>
+              <Label htmlFor="csv-pair-delimiter">Label Separator</Label>
+              <Input
+                id="csv-pair-delimiter"
+                value={mappings.delimiters?.pair ?? DEFAULT_CELL_DELIMITERS.pair}
+                onChange={(e) => handleDelimiterChange('pair', e.target.value)}
+                maxLength={3}
+              />
+              <p className="text-xs text-gray-500 mt-1">Between a link&apos;s label and URL, as in &quot;Website|https://...&quot;</p>
+            </div>
+          </div>
+        )}
+
+        {geoJson ? (
+          <p className="text-sm text-gray-500">
+            Locations and outlines come from the feature geometry.
+          </p>
+        ) : (
+          <>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Latitude Column</Label>
+              <Select value={mappings.latitudeColumn || 'none'} onValueChange={(value) => handleMappingChange('latitudeColumn', value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select latitude (optional)" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  {columns.map(col => (
+                    <SelectItem key={col} value={col}>{col}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label>Longitude Column</Label>
+              <Select value={mappings.longitudeColumn || 'none'} onValueChange={(value) => handleMappingChange('longitudeColumn', value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select longitude (optional)" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  {columns.map(col => (
+                    <SelectItem key={col} value={col}>{col}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
           <div>
-            <Label>Latitude Column</Label>
-            <Select value={mappings.latitudeColumn || 'none'} onValueChange={(value) => handleMappingChange('latitudeColumn', value)}>
+            <Label>Polygon Vertices Column</Label>
+            <Select value={mappings.pointsColumn || 'none'} onValueChange={(value) => handleMappingChange('pointsColumn', value)}>
               <SelectTrigger>
-                <SelectValue placeholder="Select latitude (optional)" />
+                <SelectValue placeholder="Select polygon vertices (optional)" />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="none">None</SelectItem>
@@ -405,26 +826,24 @@ export default function CSVImportDialog({
                 ))}
               </SelectContent>
             </Select>
+            <p className="text-xs text-gray-500 mt-1">Outlines as &quot;lat lng; lat lng; ...&quot; with at least 3 vertices</p>
           </div>
 
           <div>
-            <Label>Longitude Column</Label>
-            <Select value={mappings.longitudeColumn || 'none'} onValueChange={(value) => handleMappingChange('longitudeColumn', value)}>
-              <SelectTrigger>
-                <SelectValue placeholder="Select longitude (optional)" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="none">None</SelectItem>
-                {columns.map(col => (
-                  <SelectItem key={col} value={col}>{col}</SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+            {renderColumnSelect('WKT Geometry Column', 'wktColumn', 'Select WKT geometry (optional)')}
+            <p className="text-xs text-gray-500 mt-1">POINT, POLYGON or MULTIPOLYGON in longitude-latitude order; overrides the columns above</p>
           </div>
-        </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            {renderColumnSelect('Radius (m)', 'radiusColumn', 'Circle radius')}
+            {renderColumnSelect('Width (m)', 'widthColumn', 'Rectangle width')}
+            {renderColumnSelect('Height (m)', 'heightColumn', 'Rectangle height')}
+          </div>
+          </>
+        )}
       </div>
 
-      {!mappings.addressColumn && !mappings.latitudeColumn && !mappings.longitudeColumn && (
+      {!geoJson && !mappings.addressColumn && !mappings.latitudeColumn && !mappings.longitudeColumn && !mappings.wktColumn && (
         <Alert>
           <AlertCircle className="h-4 w-4" />
           <AlertTitle>No location data</AlertTitle>
@@ -436,7 +855,69 @@ export default function CSVImportDialog({
     </div>
   );
 
+  const renderSyncPlan = (plan: ImportSyncPlan<T>) => {
+    const updated = plan.update.filter(change => change.fields.length > 0);
+    const keptOnly = plan.update.filter(change => change.fields.length === 0);
+    const fieldNames = (fields: SyncField[]) => fields.map(field => SYNC_FIELD_NAMES[field]).join(', ');
+    const section = (title: string, count: number, items: React.ReactNode[]) => count > 0 && (
+      <div>
+        <h4 className="text-sm font-medium mb-1">{title} ({count})</h4>
+        <ul className="text-sm text-gray-600 space-y-1">
+          {items.slice(0, SHOWN_SYNC_CHANGES)}
+          {count > SHOWN_SYNC_CHANGES && <li className="text-gray-500">... and {count - SHOWN_SYNC_CHANGES} more</li>}
+        </ul>
+      </div>
+    );
+
+    return (
+      <div className="space-y-4">
+        <div className="text-sm text-gray-600">
+          Dry run: {plan.create.length} to create, {updated.length} to update, {plan.remove.length} to delete,
+          {' '}{plan.unchanged.length + keptOnly.length} unchanged. Nothing changes until you apply.
+        </div>
+
+        <div className="max-h-64 overflow-y-auto space-y-3">
+          {section('Create', plan.create.length, plan.create.map(zone => (
+            <li key={zone.id}>{zone.content.title || zone.externalId}</li>
+          )))}
+          {section('Update', updated.length, updated.map(change => (
+            <li key={change.before.id}>
+              {change.after.content.title || change.after.externalId}: {fieldNames(change.fields)}
+              {change.kept.length > 0 && (
+                <span className="text-amber-600"> (kept edited {fieldNames(change.kept)})</span>
+              )}
+            </li>
+          )))}
+          {section('Kept as edited', keptOnly.length, keptOnly.map(change => (
+            <li key={change.before.id}>{change.before.content.title || change.before.externalId}: {fieldNames(change.kept)}</li>
+          )))}
+          {section('Delete', plan.remove.length, plan.remove.map(zone => (
+            <li key={zone.id} className="text-red-600">{zone.content.title || zone.externalId}</li>
+          )))}
+        </div>
+
+        {(plan.missingKeys > 0 || plan.duplicateKeys.length > 0 || plan.unlocated > 0) && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Some rows were not synced</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-4">
+                {plan.missingKeys > 0 && <li>{plan.missingKeys} rows have no key</li>}
+                {plan.duplicateKeys.length > 0 && (
+                  <li>Keys on more than one row, only the first is used: {plan.duplicateKeys.slice(0, SHOWN_SYNC_CHANGES).join(', ')}</li>
+                )}
+                {plan.unlocated > 0 && <li>{plan.unlocated} rows could not be geocoded: their zones keep their location</li>}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+      </div>
+    );
+  };
+
   const renderPreviewStep = () => {
+    if (syncPlan) return renderSyncPlan(syncPlan);
+
     const hasCoordinates = previewZones.some(z => z.latitude && z.longitude);
     const hasAddresses = previewZones.some(z => z.address);
     const needsGeocoding = hasAddresses && !hasCoordinates;
@@ -469,6 +950,21 @@ export default function CSVImportDialog({
                       Category: {zone.category}
                     </p>
                   )}
+                  {zone.points && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Polygon with {zone.points.length} vertices
+                    </p>
+                  )}
+                  {zone.size && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      {'radius' in zone.size
+                        ? `Circle, ${zone.size.radius} m radius`
+                        : `Rectangle, ${zone.size.width} × ${zone.size.height} m`}
+                    </p>
+                  )}
+                  {mediaSummary(zone) && (
+                    <p className="text-xs text-gray-500 mt-1">{mediaSummary(zone)}</p>
+                  )}
                 </div>
                 {(zone.latitude && zone.longitude) && (
                   <Check className="h-4 w-4 text-green-500 ml-2" />
@@ -510,6 +1006,70 @@ export default function CSVImportDialog({
           </Alert>
         )}
 
+        {geocodeIssues.length > 0 && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>
+              {geocodeIssues.length} {geocodeIssues.length === 1 ? 'address needs' : 'addresses need'} attention
+            </AlertTitle>
+            <AlertDescription>
+              <ul className="text-xs space-y-1 mt-1 max-h-40 overflow-y-auto">
+                {geocodeIssues.slice(0, SHOWN_GEOCODE_ISSUES).map(zone => (
+                  <li key={zone.id}>
+                    <span className="font-semibold">{zone.content.title}</span> ({zone.address}):{' '}
+                    {GEOCODE_ISSUE_NAMES[zone.geocodeStatus!]}
+                    {zone.geocodeStatus === 'ambiguous' && zone.geocodeCandidates && zone.geocodeCandidates.length > 0 && (
+                      <Select
+                        value={String(candidateChoices[zone.address!.trim()] ?? 0)}
+                        onValueChange={(value) => setCandidateChoices(prev => ({ ...prev, [zone.address!.trim()]: Number(value) }))}
+                      >
+                        <SelectTrigger className="h-7 mt-1 text-xs">
+                          <SelectValue placeholder="Pick a match" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {zone.geocodeCandidates.map((candidate, index) => (
+                            <SelectItem key={index} value={String(index)} className="text-xs">
+                              {candidateLabel(candidate)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </li>
+                ))}
+                {geocodeIssues.length > SHOWN_GEOCODE_ISSUES && (
+                  <li>... and {geocodeIssues.length - SHOWN_GEOCODE_ISSUES} more</li>
+                )}
+              </ul>
+              <p className="mt-2">
+                Pick the right match for ambiguous addresses (the best one is used otherwise), retry the addresses that failed,
+                or import anyway: zones that couldn&apos;t be geocoded are placed in a grid.
+                Geocoding continues on the server if you close this dialog; importing the same file again picks it up.
+              </p>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {csvParse && csvParse.errorCount > 0 && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>
+              {csvParse.errorCount} {csvParse.errorCount === 1 ? 'row has' : 'rows have'} formatting problems
+            </AlertTitle>
+            <AlertDescription>
+              <ul className="text-xs space-y-1 mt-1">
+                {csvParse.errors.slice(0, SHOWN_ROW_ERRORS).map((rowError, index) => (
+                  <li key={index}>Line {rowError.line}: {rowError.message}</li>
+                ))}
+                {csvParse.errorCount > SHOWN_ROW_ERRORS && (
+                  <li>... and {csvParse.errorCount - SHOWN_ROW_ERRORS} more</li>
+                )}
+              </ul>
+              <p className="mt-2">These rows are still imported; missing fields are left empty.</p>
+            </AlertDescription>
+          </Alert>
+        )}
+
         {!hasAddresses && !hasCoordinates && (
           <Alert>
             <AlertCircle className="h-4 w-4" />
@@ -527,9 +1087,9 @@ export default function CSVImportDialog({
     <Dialog open={open} onOpenChange={onClose}>
       <DialogContent className="max-w-2xl">
         <DialogHeader>
-          <DialogTitle>Import Zones from CSV</DialogTitle>
+          <DialogTitle>Import Zones from CSV, Spreadsheet or GeoJSON</DialogTitle>
           <DialogDescription>
-            Upload a CSV file containing zone data to bulk import locations
+            Upload a CSV, Excel, OpenDocument or GeoJSON file containing zone data to bulk import locations
           </DialogDescription>
         </DialogHeader>
 
@@ -586,14 +1146,36 @@ export default function CSVImportDialog({
           {step === 'mapping' && (
             <Button
               onClick={handlePreview}
-              disabled={!mappings.nameColumn}
+              disabled={(!geoJson && !mappings.nameColumn) || (syncMode && !mappings.keyColumn)}
             >
               Preview Import
             </Button>
           )}
-          {step === 'preview' && (
+          {step === 'preview' && syncPlan && (
+            <>
+              <Button variant="outline" onClick={() => { setSyncPlan(null); setStep('mapping'); }}>
+                Back
+              </Button>
+              <Button onClick={handleApplySync}>
+                Apply Changes
+              </Button>
+            </>
+          )}
+          {step === 'preview' && !syncPlan && geocodeIssues.length > 0 && (
+            <>
+              {geocodeIssues.some(zone => zone.geocodeStatus === 'not_found' || zone.geocodeStatus === 'error') && (
+                <Button variant="outline" onClick={() => handleImport({ retryFailed: true })} disabled={isProcessing || isGeocoding}>
+                  Retry Failed
+                </Button>
+              )}
+              <Button onClick={() => handleImport({ acceptIssues: true })} disabled={isProcessing || isGeocoding}>
+                {syncMode ? 'Preview Changes Anyway' : 'Import Anyway'}
+              </Button>
+            </>
+          )}
+          {step === 'preview' && !syncPlan && geocodeIssues.length === 0 && (
             <Button
-              onClick={handleImport}
+              onClick={() => handleImport()}
               disabled={
                 isProcessing ||
                 isGeocoding
@@ -613,6 +1195,8 @@ export default function CSVImportDialog({
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                   Importing...
                 </>
+              ) : syncMode ? (
+                'Preview Changes'
               ) : (
                 `Import ${previewZones.length} Zones`
               )}
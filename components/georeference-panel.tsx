@@ -0,0 +1,214 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Crosshair, Move, Plus, Trash2 } from 'lucide-react';
+import { fitGeoreference, MIN_CONTROL_POINTS } from '@/lib/georeference';
+import { ControlPoint, Georeference, GeoreferenceMethod } from '@/lib/types';
+
+interface GeoreferencePanelProps {
+  imageUrl?: string;
+  canvasWidth: number;
+  canvasHeight: number;
+  georeference?: Georeference;
+  onChange: (georeference: Georeference | undefined) => void;
+  // Opens the base map alignment screen (drag, rotate and scale by eye)
+  onAlignOnMap?: () => void;
+}
+
+// Control point as typed into the table (fields may be empty or half-typed)
+interface DraftPoint {
+  x: string;
+  y: string;
+  lat: string;
+  lng: string;
+}
+
+const EMPTY_POINT: DraftPoint = { x: '', y: '', lat: '', lng: '' };
+
+function toDraft(point: ControlPoint): DraftPoint {
+  return { x: String(Math.round(point.x)), y: String(Math.round(point.y)), lat: String(point.lat), lng: String(point.lng) };
+}
+
+function parseDraft(draft: DraftPoint): ControlPoint | null {
+  const values = [draft.x, draft.y, draft.lat, draft.lng].map(value => (value.trim() === '' ? NaN : Number(value)));
+  if (values.some(value => !Number.isFinite(value))) return null;
+  const [x, y, lat, lng] = values;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { x, y, lat, lng };
+}
+
+/**
+ * Georeference a rotated or skewed blueprint: pair blueprint pixels (clicked on
+ * the preview or typed) with their lat/lng, fit a transform and review how far
+ * off each point lands before applying it.
+ */
+export default function GeoreferencePanel({ imageUrl, canvasWidth, canvasHeight, georeference, onChange, onAlignOnMap }: GeoreferencePanelProps) {
+  const [points, setPoints] = useState<DraftPoint[]>(() => georeference?.controlPoints.map(toDraft) ?? []);
+  const [method, setMethod] = useState<GeoreferenceMethod>(georeference?.method ?? 'similarity');
+  const [pickingIndex, setPickingIndex] = useState<number | null>(null);
+
+  const parsed = points.map(parseDraft);
+  const complete = parsed.filter((point): point is ControlPoint => point !== null);
+  const fit = fitGeoreference(complete, method);
+
+  // Residuals line up with the complete points only
+  const residualByRow = new Map<number, number>();
+  if (fit) {
+    let completeIndex = 0;
+    parsed.forEach((point, row) => {
+      if (point) residualByRow.set(row, fit.residuals[completeIndex++]);
+    });
+  }
+
+  const updatePoint = (index: number, field: keyof DraftPoint, value: string) => {
+    setPoints(points.map((point, i) => (i === index ? { ...point, [field]: value } : point)));
+  };
+
+  const addPoint = () => {
+    setPoints([...points, EMPTY_POINT]);
+    setPickingIndex(points.length);
+  };
+
+  const removePoint = (index: number) => {
+    setPoints(points.filter((_, i) => i !== index));
+    setPickingIndex(null);
+  };
+
+  const handleImageClick = (e: React.MouseEvent<HTMLImageElement>) => {
+    if (pickingIndex === null) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * canvasWidth;
+    const y = ((e.clientY - rect.top) / rect.height) * canvasHeight;
+    setPoints(points.map((point, i) => (i === pickingIndex ? { ...point, x: String(Math.round(x)), y: String(Math.round(y)) } : point)));
+    setPickingIndex(null);
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle>Georeferencing</CardTitle>
+        <CardDescription>
+          For rotated, skewed or locally gridded blueprints: pin at least {MIN_CONTROL_POINTS} blueprint points to their
+          real-world latitude and longitude, spread out across the blueprint.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {imageUrl && (
+          <div className="relative border rounded overflow-hidden">
+            {/* Served as stored: blueprints are too large for the image optimizer */}
+            <Image
+              src={imageUrl}
+              alt="Blueprint"
+              width={canvasWidth}
+              height={canvasHeight}
+              unoptimized
+              className={`w-full h-auto ${pickingIndex !== null ? 'cursor-crosshair' : ''}`}
+              onClick={handleImageClick}
+            />
+            {parsed.map((point, index) => point && (
+              <div
+                key={index}
+                className="absolute -translate-x-1/2 -translate-y-1/2 w-5 h-5 rounded-full bg-red-600 text-white text-xs flex items-center justify-center pointer-events-none"
+                style={{ left: `${(point.x / canvasWidth) * 100}%`, top: `${(point.y / canvasHeight) * 100}%` }}
+              >
+                {index + 1}
+              </div>
+            ))}
+            {pickingIndex !== null && (
+              <div className="absolute top-2 left-2 bg-black/70 text-white text-sm px-2 py-1 rounded">
+                Click the blueprint to place point {pickingIndex + 1}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <div className="grid grid-cols-[2rem_1fr_1fr_1fr_1fr_5rem_4.5rem] gap-2 text-xs font-medium text-muted-foreground">
+            <span>#</span>
+            <span>X (px)</span>
+            <span>Y (px)</span>
+            <span>Latitude</span>
+            <span>Longitude</span>
+            <span>Error</span>
+            <span />
+          </div>
+          {points.map((point, index) => (
+            <div key={index} className="grid grid-cols-[2rem_1fr_1fr_1fr_1fr_5rem_4.5rem] gap-2 items-center">
+              <span className="text-sm">{index + 1}</span>
+              <Input type="number" value={point.x} onChange={(e) => updatePoint(index, 'x', e.target.value)} />
+              <Input type="number" value={point.y} onChange={(e) => updatePoint(index, 'y', e.target.value)} />
+              <Input type="number" step="any" value={point.lat} onChange={(e) => updatePoint(index, 'lat', e.target.value)} />
+              <Input type="number" step="any" value={point.lng} onChange={(e) => updatePoint(index, 'lng', e.target.value)} />
+              <span className="text-sm">
+                {residualByRow.has(index) ? `${residualByRow.get(index)!.toFixed(1)} m` : '—'}
+              </span>
+              <div className="flex gap-1">
+                <Button
+                  variant={pickingIndex === index ? 'default' : 'outline'}
+                  size="icon"
+                  title="Pick on blueprint"
+                  disabled={!imageUrl}
+                  onClick={() => setPickingIndex(pickingIndex === index ? null : index)}
+                >
+                  <Crosshair className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="icon" title="Remove point" onClick={() => removePoint(index)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={addPoint}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Control Point
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label>Transform</Label>
+            <Select value={method} onValueChange={(value) => setMethod(value as GeoreferenceMethod)}>
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="similarity">Similarity (rotate, scale, move)</SelectItem>
+                <SelectItem value="affine">Affine (also stretch and skew)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-sm text-muted-foreground flex-1">
+            {fit
+              ? `RMS error ${fit.rmsMeters.toFixed(1)} m over ${complete.length} points`
+              : `Enter at least ${MIN_CONTROL_POINTS} complete points that aren't all in a line`}
+          </p>
+          {onAlignOnMap && (
+            <Button variant="outline" onClick={onAlignOnMap}>
+              <Move className="mr-2 h-4 w-4" />
+              Align on Base Map
+            </Button>
+          )}
+          {georeference && (
+            <Button variant="outline" onClick={() => onChange(undefined)}>
+              Remove Georeferencing
+            </Button>
+          )}
+          <Button disabled={!fit} onClick={() => fit && onChange(fit.georeference)}>
+            Apply
+          </Button>
+        </div>
+        {georeference && (
+          <p className="text-xs text-muted-foreground">
+            Applied: {georeference.method} fit to {georeference.controlPoints.length} control points. Saved with the map.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useMemo } from 'react';
 import { zonesToLandmarks } from '@/lib/csv-generator';
-import { GeographicBounds, CanvasConfig } from '@/lib/types';
+import { GeographicBounds, CanvasConfig, Level, Zone } from '@/lib/types';
 import dynamic from 'next/dynamic';
 
 // Dynamically import the Google Maps 3D viewer to avoid SSR issues
@@ -11,16 +11,9 @@ const GoogleMaps3DViewer = dynamic(
   { ssr: false }
 );
 
-interface Zone {
-  id: string;
-  type: string;
-  coordinates: string;
-  content: string;
-  style: string | null;
-}
-
 interface GlobeViewerProps {
   zones: Zone[];
+  levels?: Level[];
   canvasConfig: CanvasConfig;
   geoBounds: GeographicBounds | null;
   mapTitle: string;
@@ -30,7 +23,7 @@ interface GlobeViewerProps {
   onView2D?: () => void;
 }
 
-export default function GlobeViewer({ zones, canvasConfig, geoBounds, mapTitle, aiNavigatorEnabled, aiNavigatorPrompt, onBackToMaps, onView2D }: GlobeViewerProps) {
+export default function GlobeViewer({ zones, levels, canvasConfig, geoBounds, mapTitle, aiNavigatorEnabled, aiNavigatorPrompt, onBackToMaps, onView2D }: GlobeViewerProps) {
   // Convert zones to landmarks for the globe
   const landmarks = useMemo(() => {
     if (!geoBounds || zones.length === 0) {
@@ -38,12 +31,12 @@ export default function GlobeViewer({ zones, canvasConfig, geoBounds, mapTitle,
       return [];
     }
 
-    const converted = zonesToLandmarks(zones, canvasConfig, geoBounds);
+    const converted = zonesToLandmarks(zones, canvasConfig, geoBounds, undefined, undefined, levels);
     console.log('[GlobeViewer] Converted landmarks:', converted);
     console.log('[GlobeViewer] Geographic bounds:', geoBounds);
     console.log('[GlobeViewer] Canvas config:', canvasConfig);
     return converted;
-  }, [zones, canvasConfig, geoBounds]);
+  }, [zones, levels, canvasConfig, geoBounds]);
 
   if (!geoBounds) {
     return (
@@ -4,8 +4,10 @@ import { useCallback, useEffect, useRef, useState, useMemo } from 'react';
 import { APIProvider, useMapsLibrary } from '@vis.gl/react-google-maps';
 import { Map3D, Map3DCameraProps } from '@/components/map-3d';
 import { MapController } from '@/lib/map-controller';
-import { useMapStore, MapMarker } from '@/lib/map-state';
-import { GeographicBounds } from '@/lib/types';
+import { useMapStore, MapMarker, MapPolygon } from '@/lib/map-state';
+import { GeographicBounds, GeoJSONGeometry, Georeference, Level, PointCoordinates, Zone } from '@/lib/types';
+import { geometryOutline, projectZone } from '@/lib/coordinate-converter';
+import { zoneElevation } from '@/lib/levels';
 import { ArrowLeft, Map as MapIcon, RotateCcw, Bot } from 'lucide-react';
 import { motion } from 'framer-motion';
 import CategoryFilterPanel from '@/components/CategoryFilterPanel';
@@ -19,21 +21,15 @@ const AIChatDialog = dynamic(() => import('@/components/ai-chat-dialog'), { ssr:
 
 const API_KEY = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY as string;
 
-interface Zone {
-  id: string;
-  type: string;
-  coordinates: string;
-  content: string;
-  style: string | null;
-}
-
 interface CanvasConfig {
   width: number;
   height: number;
+  georeference?: Georeference;
 }
 
 interface GoogleMaps3DViewerProps {
   zones?: Zone[];
+  levels?: Level[]; // Floors of a multi-level map, for the altitude of their zones
   landmarks?: Array<{
     name: string;
     lon: number;
@@ -46,6 +42,9 @@ interface GoogleMaps3DViewerProps {
     images?: string[];
     links?: Array<{url: string; label?: string}>;
     videos?: string[];
+    geometry?: GeoJSONGeometry; // Full zone shape, outlined under the marker
+    height?: number; // Extrusion height of area zones in meters
+    altitude?: number; // Floor elevation in meters for zones on a level
   }>;
   mapTitle?: string;
   title?: string;
@@ -59,6 +58,7 @@ interface GoogleMaps3DViewerProps {
 
 function GoogleMaps3DViewerComponent({
   zones,
+  levels,
   landmarks: propLandmarks,
   mapTitle,
   title,
@@ -91,15 +91,26 @@ function GoogleMaps3DViewerComponent({
 
     const converted = zones.map((zone, idx) => {
       try {
-        const content = typeof zone.content === 'string' ? JSON.parse(zone.content) : zone.content;
-        const coordinates = typeof zone.coordinates === 'string' ? JSON.parse(zone.coordinates) : zone.coordinates;
+        const { content } = zone;
+        const coordinates = zone.coordinates as PointCoordinates;
 
         console.log(`[GoogleMaps3DViewer] Zone ${idx} raw coordinates:`, coordinates);
 
         // Check if coordinates are already in lat/lng format or need conversion
         let lat: number, lng: number;
-
-        if (coordinates.lat !== undefined && coordinates.lng !== undefined) {
+        let geometry: GeoJSONGeometry | undefined;
+
+        if (zone.type !== 'point') {
+          // Area zones sit at their center and are drawn from their full shape
+          if (!geoBounds || !canvasConfig) {
+            console.error(`[GoogleMaps3DViewer] Zone ${idx} cannot be converted - missing geoBounds or canvasConfig`);
+            return null;
+          }
+          const frame = canvasConfig.georeference ?? geoBounds;
+          const projected = projectZone(zone.coordinates, zone.type, canvasConfig.width, canvasConfig.height, frame);
+          ({ lat, lng } = projected.center);
+          geometry = projected.geometry;
+        } else if (coordinates.lat !== undefined && coordinates.lng !== undefined) {
           // Already in geographic format
           lat = coordinates.lat;
           lng = coordinates.lng;
@@ -115,7 +126,7 @@ function GoogleMaps3DViewerComponent({
             zone.type,
             canvasConfig.width,
             canvasConfig.height,
-            geoBounds
+            canvasConfig.georeference ?? geoBounds
           );
           lat = geoCoords.lat;
           lng = geoCoords.lng;
@@ -127,8 +138,7 @@ function GoogleMaps3DViewerComponent({
           lng = 0;
         }
 
-        // Parse style for color
-        const style = zone.style ? (typeof zone.style === 'string' ? JSON.parse(zone.style) : zone.style) : {};
+        const style = zone.style ?? {};
 
         return {
           name: content.title || 'Unnamed Zone',
@@ -141,6 +151,9 @@ function GoogleMaps3DViewerComponent({
           images: content.images || [],
           videos: content.videos || [],
           links: content.links || [],
+          geometry,
+          height: style.height,
+          altitude: zoneElevation(zone, levels ?? []),
         };
       } catch (error) {
         console.error(`[GoogleMaps3DViewer] Error converting zone ${idx}:`, error, zone);
@@ -151,7 +164,7 @@ function GoogleMaps3DViewerComponent({
     console.log('[GoogleMaps3DViewer] Converted landmarks:', converted.length);
     console.log('[GoogleMaps3DViewer] Landmarks:', converted);
     return converted as any[];
-  }, [zones, propLandmarks, geoBounds, canvasConfig]);
+  }, [zones, levels, propLandmarks, geoBounds, canvasConfig]);
 
   // Use mapTitle if provided, otherwise use title
   const displayTitle = mapTitle || title;
@@ -333,11 +346,13 @@ function GoogleMaps3DViewerComponent({
       const textColor = getContrastTextColor(markerColors.bg);
 
       return {
+        // Zones on a level sit at its elevation above the ground
         position: {
           lat: landmark.lat,
           lng: landmark.lon,
-          altitude: 0,
+          altitude: landmark.altitude ?? 0,
         },
+        relativeToGround: landmark.altitude !== undefined,
         label: landmark.name,
         showLabel: true,
         color: markerColors.bg,
@@ -346,6 +361,19 @@ function GoogleMaps3DViewerComponent({
       };
     });
 
+    // Rectangle, circle and polygon zones are outlined under their markers
+    const mapPolygons: MapPolygon[] = filteredLandmarks.flatMap(landmark => {
+      const outline = landmark.geometry && geometryOutline(landmark.geometry);
+      if (!outline) return [];
+      return [{
+        outline,
+        color: getMarkerColor(landmark.color, landmark.category).bg,
+        height: landmark.height,
+        altitude: landmark.altitude,
+      }];
+    });
+    controller.addPolygons(mapPolygons);
+
     // Add markers with click handler
     controller.addMarkers(mapMarkers, (index, label) => {
       console.log('[GoogleMaps3DViewer] Marker clicked - index:', index, 'label:', label);
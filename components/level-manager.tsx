@@ -0,0 +1,145 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Layers, Plus, Trash2, Upload } from 'lucide-react';
+import { uploadMedia, WEB_IMAGE_WIDTH } from '@/lib/media-client';
+import { Level } from '@/lib/types';
+
+interface LevelManagerProps {
+  levels: Level[];
+  onChange: (levels: Level[]) => void;
+}
+
+// Typical floor-to-floor height, used to suggest the elevation of a new level
+const FLOOR_HEIGHT_METERS = 4;
+
+/**
+ * Floors of a multi-level map: name, order, elevation and an optional floor
+ * plan per level. Floor plans are stretched over the shared canvas, so they
+ * should be exported with the same framing as the map's blueprint.
+ */
+export default function LevelManager({ levels, onChange }: LevelManagerProps) {
+  const [uploadingId, setUploadingId] = useState<string | null>(null);
+
+  const updateLevel = (id: string, changes: Partial<Level>) => {
+    onChange(levels.map(level => (level.id === id ? { ...level, ...changes } : level)));
+  };
+
+  const addLevel = () => {
+    const ordinal = levels.length === 0 ? 0 : Math.max(...levels.map(level => level.ordinal)) + 1;
+    onChange([
+      ...levels,
+      {
+        // Placeholder id: replaced by the server on save
+        id: Math.random().toString(36).substr(2, 9),
+        name: ordinal === 0 ? 'Ground Floor' : `Level ${ordinal}`,
+        ordinal,
+        elevation: ordinal * FLOOR_HEIGHT_METERS,
+      },
+    ]);
+  };
+
+  const removeLevel = (level: Level) => {
+    if (!confirm(`Remove ${level.name}? Its zones will be shown on every level.`)) return;
+    onChange(levels.filter(l => l.id !== level.id));
+  };
+
+  const handleFloorPlanUpload = async (id: string, file: File) => {
+    setUploadingId(id);
+    try {
+      const media = await uploadMedia(file, 'blueprint');
+      // Same choice as the map blueprint: show the web-size version, zoom into the tiles
+      const webVersion = media.variants?.find(variant => variant.width === WEB_IMAGE_WIDTH);
+      updateLevel(id, { imageUrl: webVersion?.url ?? media.url, tiles: webVersion ? media.tiles : undefined });
+    } catch (error) {
+      console.error('Error uploading floor plan:', error);
+      alert(error instanceof Error ? error.message : 'Failed to upload floor plan');
+    } finally {
+      setUploadingId(null);
+    }
+  };
+
+  const sorted = [...levels].sort((a, b) => b.ordinal - a.ordinal);
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="h-5 w-5" />
+          Levels
+        </CardTitle>
+        <CardDescription>
+          For buildings with several floors. Each level can have its own floor plan; zones belong to one level or to all of them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sorted.length > 0 && (
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_5rem_6rem_1fr_2.5rem] gap-2 text-xs font-medium text-muted-foreground">
+              <span>Name</span>
+              <span>Order</span>
+              <span>Elevation (m)</span>
+              <span>Floor plan</span>
+              <span />
+            </div>
+            {sorted.map(level => (
+              <div key={level.id} className="grid grid-cols-[1fr_5rem_6rem_1fr_2.5rem] gap-2 items-center">
+                <Input value={level.name} onChange={(e) => updateLevel(level.id, { name: e.target.value })} />
+                <Input
+                  type="number"
+                  step="1"
+                  value={level.ordinal}
+                  onChange={(e) => updateLevel(level.id, { ordinal: Math.round(Number(e.target.value)) || 0 })}
+                />
+                <Input
+                  type="number"
+                  step="any"
+                  value={level.elevation}
+                  onChange={(e) => updateLevel(level.id, { elevation: Number(e.target.value) || 0 })}
+                />
+                <div className="flex items-center gap-2 min-w-0">
+                  <Label className="cursor-pointer inline-flex items-center gap-1 text-sm border rounded px-2 py-1.5 hover:bg-accent shrink-0">
+                    <Upload className="h-3 w-3" />
+                    {uploadingId === level.id ? 'Uploading...' : level.imageUrl ? 'Replace' : 'Upload'}
+                    <input
+                      type="file"
+                      accept="image/*"
+                      className="hidden"
+                      disabled={uploadingId !== null}
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleFloorPlanUpload(level.id, file);
+                        e.target.value = '';
+                      }}
+                    />
+                  </Label>
+                  {level.imageUrl ? (
+                    <button
+                      className="text-xs text-red-500 truncate"
+                      onClick={() => updateLevel(level.id, { imageUrl: undefined, tiles: undefined })}
+                    >
+                      Use map blueprint
+                    </button>
+                  ) : (
+                    <span className="text-xs text-muted-foreground truncate">Map blueprint</span>
+                  )}
+                </div>
+                <Button variant="outline" size="icon" title="Remove level" onClick={() => removeLevel(level)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+        <Button variant="outline" size="sm" onClick={addLevel}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Level
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
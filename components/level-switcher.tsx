@@ -0,0 +1,37 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Level } from '@/lib/types';
+
+interface LevelSwitcherProps {
+  levels: Level[];
+  value: string | null | undefined;
+  onChange: (levelId: string) => void;
+  className?: string;
+}
+
+/**
+ * Floor buttons stacked like an elevator panel, top floor first
+ */
+export default function LevelSwitcher({ levels, value, onChange, className = '' }: LevelSwitcherProps) {
+  if (levels.length === 0) return null;
+
+  const topFirst = [...levels].sort((a, b) => b.ordinal - a.ordinal);
+
+  return (
+    <div className={`flex flex-col gap-1 ${className}`}>
+      {topFirst.map(level => (
+        <Button
+          key={level.id}
+          variant={level.id === value ? 'default' : 'secondary'}
+          size="sm"
+          className="justify-start"
+          title={`${level.name} (${level.elevation} m)`}
+          onClick={() => onChange(level.id)}
+        >
+          {level.name}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Download } from 'lucide-react';
+import { ExportFormat } from '@/lib/map-export';
+
+interface MapExportProps {
+  mapId: string;
+  // Without geographic bounds zones can't be placed on the globe, so there is nothing to export
+  hasGeographicBounds: boolean;
+}
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: 'geojson', label: 'GeoJSON' },
+  { value: 'kml', label: 'KML' },
+  { value: 'csv', label: 'Landmark CSV' },
+];
+
+/**
+ * Download links for the saved draft's zones in GIS formats and for the map bundle
+ */
+export default function MapExport({ mapId, hasGeographicBounds }: MapExportProps) {
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Download className="h-5 w-5" />
+          Export
+        </CardTitle>
+        <CardDescription>
+          Download the saved zones with their shapes, content and style, for QGIS, Google Earth and other GIS tools,
+          or the whole map with its media as a bundle to back it up or import it on another installation (My Maps → Import Bundle).
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap gap-2">
+        {hasGeographicBounds ? (
+          FORMAT_OPTIONS.map(option => (
+            <Button key={option.value} variant="outline" size="sm" asChild>
+              <a href={`/api/maps/${mapId}/export?format=${option.value}&preview=draft`} download>
+                {option.label}
+              </a>
+            </Button>
+          ))
+        ) : (
+          <p className="text-sm text-muted-foreground">Define the map&apos;s geographic area to export its zones.</p>
+        )}
+        <Button variant="outline" size="sm" asChild title="The whole map with its media, to back it up or import it elsewhere">
+          <a href={`/api/maps/${mapId}/bundle`} download>
+            Map Bundle
+          </a>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,158 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Users, Trash2 } from 'lucide-react';
+import { MapMember, MapRole } from '@/lib/types';
+
+interface MapMembersProps {
+  mapId: string;
+  // Only owners can invite, change roles or remove other members
+  canManage: boolean;
+}
+
+const ROLE_OPTIONS: { value: MapRole; label: string }[] = [
+  { value: 'viewer', label: 'Viewer' },
+  { value: 'editor', label: 'Editor' },
+  { value: 'owner', label: 'Owner' },
+];
+
+export default function MapMembers({ mapId, canManage }: MapMembersProps) {
+  const [members, setMembers] = useState<MapMember[]>([]);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<MapRole>('editor');
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMembers = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/maps/${mapId}/members`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch members');
+      }
+      setMembers(await response.json());
+    } catch (error) {
+      console.error('Error fetching members:', error);
+    }
+  }, [mapId]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  // Run a member mutation and refresh the list from its response
+  const mutate = async (request: Promise<Response>) => {
+    setError(null);
+    try {
+      const response = await request;
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.issues?.[0]?.message || data.error || 'Request failed');
+      }
+      if (Array.isArray(data)) {
+        setMembers(data);
+      } else {
+        await fetchMembers();
+      }
+      return true;
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Request failed');
+      return false;
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const added = await mutate(fetch(`/api/maps/${mapId}/members`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: inviteEmail, role: inviteRole }),
+    }));
+    if (added) {
+      setInviteEmail('');
+    }
+  };
+
+  const handleRoleChange = (member: MapMember, role: MapRole) => {
+    mutate(fetch(`/api/maps/${mapId}/members/${member.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ role }),
+    }));
+  };
+
+  const handleRemove = (member: MapMember) => {
+    if (!confirm(`Remove ${member.email} from this map?`)) return;
+    mutate(fetch(`/api/maps/${mapId}/members/${member.id}`, { method: 'DELETE' }));
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Members
+        </CardTitle>
+        <CardDescription>
+          Owners manage members and can delete the map. Editors can change and publish it. Viewers can preview drafts.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {members.map(member => (
+          <div key={member.id} className="flex items-center justify-between gap-4 border rounded-lg p-3">
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">{member.name || member.email}</p>
+              {member.name && <p className="text-xs text-gray-500 truncate">{member.email}</p>}
+            </div>
+            {canManage ? (
+              <div className="flex items-center gap-2 shrink-0">
+                <Select value={member.role} onValueChange={(value) => handleRoleChange(member, value as MapRole)}>
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLE_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="ghost" size="sm" onClick={() => handleRemove(member)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <span className="text-sm text-gray-500 capitalize">{member.role}</span>
+            )}
+          </div>
+        ))}
+
+        {canManage && (
+          <form onSubmit={handleInvite} className="flex gap-2 pt-2">
+            <Input
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="colleague@example.com"
+              required
+            />
+            <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as MapRole)}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLE_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit">Add</Button>
+          </form>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
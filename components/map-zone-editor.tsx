@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { GoogleMap, useJsApiLoader, Marker, InfoWindow, Autocomplete } from '@react-google-maps/api';
+import { GoogleMap, useJsApiLoader, Marker, InfoWindow, Autocomplete, Polygon, Polyline } from '@react-google-maps/api';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -10,17 +10,38 @@ import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { ZoneType, ZoneContent, GeographicBounds } from '@/lib/types';
-import { MapPin, Trash2, Info, Upload } from 'lucide-react';
+import { ZoneType, ZoneContent, GeographicBounds, ImportedValues, ZoneStyle } from '@/lib/types';
+import { MapPin, Trash2, Info, Upload, Pentagon } from 'lucide-react';
 import CSVImportDialog from '@/components/csv-import-dialog';
 import { GeocodedZone } from '@/lib/csv-importer';
+import { applyImportSync, geoLocation, ImportSyncPlan, withImportedValues, ZoneLocationAdapter } from '@/lib/import-sync';
+import { isHostedVideo, uploadMedia } from '@/lib/media-client';
+import { polygonCentroid } from '@/lib/coordinate-converter';
 
 interface MapZone {
   id: string;
-  type: 'point'; // For now, only support point markers on map
+  type: 'point' | 'polygon';
+  // Marker position, or the centroid of a polygon
   lat: number;
   lng: number;
+  // Polygon vertices
+  path?: google.maps.LatLngLiteral[];
   content: ZoneContent;
+  style?: ZoneStyle;
+  // Spreadsheet row key and the values last imported from it (see lib/import-sync)
+  externalId?: string;
+  importedValues?: ImportedValues;
+}
+
+// How a spreadsheet re-import compares and moves zones
+const MAP_ZONE_LOCATION: ZoneLocationAdapter<MapZone> = {
+  get: zone => geoLocation(zone.path ?? { lat: zone.lat, lng: zone.lng }),
+  set: (zone, from) => ({ ...zone, type: from.type, lat: from.lat, lng: from.lng, path: from.path }),
+};
+
+function pathCentroid(path: google.maps.LatLngLiteral[]): google.maps.LatLngLiteral {
+  const centroid = polygonCentroid(path.map(vertex => ({ x: vertex.lng, y: vertex.lat })));
+  return { lat: centroid.y, lng: centroid.x };
 }
 
 interface MapZoneEditorProps {
@@ -72,6 +93,11 @@ export default function MapZoneEditor({ onSave }: MapZoneEditorProps) {
   const [availableCategories, setAvailableCategories] = useState<string[]>([]);
   const [showCsvImportDialog, setShowCsvImportDialog] = useState(false);
 
+  // Clicks either drop a marker or add a vertex to the polygon being drawn
+  const [drawMode, setDrawMode] = useState<'point' | 'polygon'>('point');
+  const [polygonPath, setPolygonPath] = useState<google.maps.LatLngLiteral[]>([]);
+  const polygonRefs = useRef<Record<string, google.maps.Polygon>>({});
+
   // Update available categories when zones change
   useEffect(() => {
     const categories = Array.from(new Set(
@@ -110,6 +136,11 @@ export default function MapZoneEditor({ onSave }: MapZoneEditorProps) {
     const lat = e.latLng.lat();
     const lng = e.latLng.lng();
 
+    if (drawMode === 'polygon') {
+      setPolygonPath(prev => [...prev, { lat, lng }]);
+      return;
+    }
+
     const newZone: MapZone = {
       id: Math.random().toString(36).substr(2, 9),
       type: 'point',
@@ -121,23 +152,53 @@ export default function MapZoneEditor({ onSave }: MapZoneEditorProps) {
     setEditingZone(newZone);
     setZoneContent({ title: `Zone ${zones.length + 1}`, description: '', images: [], videos: [], links: [] });
     setShowContentDialog(true);
-  }, [zones.length]);
+  }, [zones.length, drawMode]);
+
+  const finishPolygon = () => {
+    if (polygonPath.length < 3) return;
+
+    const newZone: MapZone = {
+      id: Math.random().toString(36).substr(2, 9),
+      type: 'polygon',
+      ...pathCentroid(polygonPath),
+      path: polygonPath,
+      content: { title: `Zone ${zones.length + 1}`, description: '', images: [], videos: [], links: [] },
+    };
+
+    setPolygonPath([]);
+    setEditingZone(newZone);
+    setZoneContent({ title: `Zone ${zones.length + 1}`, description: '', images: [], videos: [], links: [] });
+    setShowContentDialog(true);
+  };
+
+  // Read back a polygon after its vertices were dragged (editable) or it was moved
+  const syncPolygonPath = (id: string) => {
+    const polygon = polygonRefs.current[id];
+    if (!polygon) return;
+
+    const path = polygon.getPath().getArray().map(vertex => vertex.toJSON());
+    setZones(prev => prev.map(zone => (zone.id === id ? { ...zone, ...pathCentroid(path), path } : zone)));
+  };
+
+  // Files go to media storage; the zone content only keeps the returned URL
+  const uploadZoneMedia = async (file: File, field: 'images' | 'videos') => {
+    try {
+      const media = await uploadMedia(file);
+      setZoneContent(prevContent => ({
+        ...prevContent,
+        [field]: [...(prevContent[field] || []), media.url],
+      }));
+    } catch (error) {
+      console.error('Error uploading file:', error);
+      alert(error instanceof Error ? error.message : `Failed to upload ${file.name}`);
+    }
+  };
 
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (!files) return;
 
-    Array.from(files).forEach((file) => {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const imageUrl = event.target?.result as string;
-        setZoneContent(prevContent => ({
-          ...prevContent,
-          images: [...(prevContent.images || []), imageUrl],
-        }));
-      };
-      reader.readAsDataURL(file);
-    });
+    Array.from(files).forEach((file) => uploadZoneMedia(file, 'images'));
   };
 
   const handleVideoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -151,15 +212,7 @@ export default function MapZoneEditor({ onSave }: MapZoneEditorProps) {
         return;
       }
 
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const videoUrl = event.target?.result as string;
-        setZoneContent(prevContent => ({
-          ...prevContent,
-          videos: [...(prevContent.videos || []), videoUrl],
-        }));
-      };
-      reader.readAsDataURL(file);
+      uploadZoneMedia(file, 'videos');
     });
   };
 
@@ -178,17 +231,36 @@ export default function MapZoneEditor({ onSave }: MapZoneEditorProps) {
     setSelectedZone(null);
   };
 
-  const handleCsvImport = (importedZones: GeocodedZone[]) => {
-    // Convert GeocodedZone to MapZone format
-    const newZones: MapZone[] = importedZones
+  // Convert GeocodedZone to MapZone format
+  const toMapZones = (geocodedZones: GeocodedZone[]): MapZone[] =>
+    geocodedZones
       .filter(z => z.geoCoords) // Only zones with geocoded coordinates
-      .map(geoZone => ({
-        id: geoZone.id,
-        type: 'point',
-        lat: geoZone.geoCoords!.lat,
-        lng: geoZone.geoCoords!.lng,
-        content: geoZone.content,
-      }));
+      .map(geoZone => {
+        const zone: MapZone = {
+          id: geoZone.id,
+          type: 'point',
+          lat: geoZone.geoCoords!.lat,
+          lng: geoZone.geoCoords!.lng,
+          content: geoZone.content,
+          ...(geoZone.style && { style: geoZone.style }),
+          ...(geoZone.externalId && { externalId: geoZone.externalId }),
+        };
+
+        // Imported polygons keep the geographic position of every vertex
+        if ('points' in geoZone.coordinates) {
+          const path = geoZone.coordinates.points
+            .filter(point => point.lat !== undefined && point.lng !== undefined)
+            .map(point => ({ lat: point.lat!, lng: point.lng! }));
+          if (path.length >= 3) {
+            zone.type = 'polygon';
+            zone.path = path;
+          }
+        }
+        return withImportedValues(zone, MAP_ZONE_LOCATION);
+      });
+
+  const handleCsvImport = (importedZones: GeocodedZone[]) => {
+    const newZones = toMapZones(importedZones);
 
     setZones(prev => [...prev, ...newZones]);
     setShowCsvImportDialog(false);
@@ -200,15 +272,21 @@ export default function MapZoneEditor({ onSave }: MapZoneEditorProps) {
     }
   };
 
+  const handleCsvSync = (plan: ImportSyncPlan<MapZone>) => {
+    setZones(prev => applyImportSync(prev, plan));
+    setShowCsvImportDialog(false);
+  };
+
   const handleSaveMap = () => {
     if (zones.length === 0) {
       alert('Please add at least one zone before saving');
       return;
     }
 
-    // Calculate bounds from all zones
-    const lats = zones.map(z => z.lat);
-    const lngs = zones.map(z => z.lng);
+    // Calculate bounds from all zones, including every polygon vertex
+    const positions = zones.flatMap(z => z.path ?? [{ lat: z.lat, lng: z.lng }]);
+    const lats = positions.map(p => p.lat);
+    const lngs = positions.map(p => p.lng);
 
     const bounds: GeographicBounds = {
       minLat: Math.min(...lats) - 0.01,
@@ -247,7 +325,11 @@ export default function MapZoneEditor({ onSave }: MapZoneEditorProps) {
         <Card>
           <CardHeader>
             <CardTitle>Interactive Map</CardTitle>
-            <CardDescription>Click anywhere on the map to add a zone marker</CardDescription>
+            <CardDescription>
+              {drawMode === 'polygon'
+                ? 'Click to add polygon vertices, then click the first vertex to close it'
+                : 'Click anywhere on the map to add a zone marker'}
+            </CardDescription>
           </CardHeader>
           <CardContent className="relative">
             <div className="relative">
@@ -277,6 +359,48 @@ export default function MapZoneEditor({ onSave }: MapZoneEditorProps) {
                   fullscreenControl: true,
                 }}
               >
+              {zones.filter(zone => zone.type === 'polygon' && zone.path).map((zone) => (
+                <Polygon
+                  key={zone.id}
+                  paths={zone.path}
+                  editable={selectedZone?.id === zone.id}
+                  draggable={selectedZone?.id === zone.id}
+                  onLoad={polygon => { polygonRefs.current[zone.id] = polygon; }}
+                  onUnmount={() => { delete polygonRefs.current[zone.id]; }}
+                  onClick={() => setSelectedZone(zone)}
+                  onMouseUp={() => syncPolygonPath(zone.id)}
+                  onDragEnd={() => syncPolygonPath(zone.id)}
+                  options={{
+                    fillColor: '#ef4444',
+                    fillOpacity: 0.3,
+                    strokeColor: '#ef4444',
+                    strokeWeight: 2,
+                  }}
+                />
+              ))}
+
+              {/* Polygon being drawn; clicking its first vertex closes it */}
+              {polygonPath.length > 0 && (
+                <>
+                  <Polyline
+                    path={polygonPath}
+                    options={{ strokeColor: '#ef4444', strokeWeight: 2, clickable: false }}
+                  />
+                  <Marker
+                    position={polygonPath[0]}
+                    onClick={finishPolygon}
+                    icon={{
+                      path: google.maps.SymbolPath.CIRCLE,
+                      scale: 6,
+                      fillColor: '#ffffff',
+                      fillOpacity: 1,
+                      strokeColor: '#ef4444',
+                      strokeWeight: 2,
+                    }}
+                  />
+                </>
+              )}
+
               {zones.map((zone) => (
                 <Marker
                   key={zone.id}
@@ -324,7 +448,7 @@ export default function MapZoneEditor({ onSave }: MapZoneEditorProps) {
               <Info className="h-4 w-4" />
               <AlertDescription>
                 <strong>Tips:</strong> Use the search box in the map to find locations.
-                Click on the map to place zones manually, or use "Import from CSV" button to bulk import.
+                Click on the map to place zones manually, or use the "Import from CSV, Spreadsheet or GeoJSON" button to bulk import.
                 Added zones: <strong>{zones.length}</strong>
               </AlertDescription>
             </Alert>
@@ -340,13 +464,43 @@ export default function MapZoneEditor({ onSave }: MapZoneEditorProps) {
             <CardDescription>Click map to add zones</CardDescription>
           </CardHeader>
           <CardContent>
+            <div className="grid grid-cols-2 gap-2 mb-2">
+              <Button
+                variant={drawMode === 'point' ? 'default' : 'outline'}
+                onClick={() => {
+                  setDrawMode('point');
+                  setPolygonPath([]);
+                }}
+              >
+                <MapPin className="mr-2 h-4 w-4" />
+                Marker
+              </Button>
+              <Button
+                variant={drawMode === 'polygon' ? 'default' : 'outline'}
+                onClick={() => setDrawMode('polygon')}
+              >
+                <Pentagon className="mr-2 h-4 w-4" />
+                Polygon
+              </Button>
+            </div>
+            {polygonPath.length > 0 && (
+              <div className="flex gap-2 mb-2">
+                <Button size="sm" className="flex-1" disabled={polygonPath.length < 3} onClick={finishPolygon}>
+                  Finish ({polygonPath.length} points)
+                </Button>
+                <Button size="sm" variant="outline" className="flex-1" onClick={() => setPolygonPath([])}>
+                  Cancel
+                </Button>
+              </div>
+            )}
+
             <Button
               variant="outline"
               onClick={() => setShowCsvImportDialog(true)}
               className="w-full mb-4"
             >
               <Upload className="mr-2 h-4 w-4" />
-              Import from CSV
+              Import from CSV, Spreadsheet or GeoJSON
             </Button>
             <div className="space-y-2 max-h-[400px] overflow-y-auto">
               {zones.length === 0 ? (
@@ -361,6 +515,7 @@ export default function MapZoneEditor({ onSave }: MapZoneEditorProps) {
                       <div className="flex items-center gap-2 mt-1">
                         <span className="text-xs text-gray-500">
                           {zone.lat.toFixed(4)}, {zone.lng.toFixed(4)}
+                          {zone.path && ` · ${zone.path.length} vertices`}
                         </span>
                         {zone.content.category && (
                           <span className="text-xs bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 px-2 py-0.5 rounded">
@@ -545,7 +700,7 @@ export default function MapZoneEditor({ onSave }: MapZoneEditorProps) {
                 <div className="space-y-2 mt-3">
                   <p className="text-sm font-medium">{zoneContent.videos.length} video{zoneContent.videos.length !== 1 ? 's' : ''} added</p>
                   {zoneContent.videos.map((video, idx) => {
-                    const isDataUrl = video.startsWith('data:video/');
+                    const isUploaded = isHostedVideo(video);
                     return (
                       <div key={idx} className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg border">
                         <div className="flex items-center gap-3 flex-1 min-w-0">
@@ -555,8 +710,8 @@ export default function MapZoneEditor({ onSave }: MapZoneEditorProps) {
                             </svg>
                           </div>
                           <div className="flex-1 min-w-0">
-                            <span className="text-sm truncate block">{isDataUrl ? 'Uploaded video file' : video}</span>
-                            {isDataUrl && <span className="text-xs text-muted-foreground">Local file</span>}
+                            <span className="text-sm truncate block">{isUploaded ? 'Uploaded video file' : video}</span>
+                            {isUploaded && <span className="text-xs text-muted-foreground">Local file</span>}
                           </div>
                         </div>
                         <button
@@ -640,6 +795,7 @@ export default function MapZoneEditor({ onSave }: MapZoneEditorProps) {
         open={showCsvImportDialog}
         onClose={() => setShowCsvImportDialog(false)}
         onImport={handleCsvImport}
+        sync={{ zones, toZones: toMapZones, location: MAP_ZONE_LOCATION, onSync: handleCsvSync }}
         canvasWidth={1000}
         canvasHeight={600}
         geoBounds={null}
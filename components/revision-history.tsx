@@ -0,0 +1,184 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { History, RotateCcw, GitCompare } from 'lucide-react';
+import { MapRevisionSummary, RevisionDiff, ZoneChangeKind } from '@/lib/types';
+
+interface RevisionHistoryProps {
+  mapId: string;
+  canRestore: boolean;
+  onRestored: () => void;
+}
+
+const CHANGE_LABELS: Record<ZoneChangeKind, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  moved: 'Moved',
+  'content-changed': 'Edited',
+};
+
+const CHANGE_COLORS: Record<ZoneChangeKind, string> = {
+  added: 'text-green-600 dark:text-green-400',
+  removed: 'text-red-600 dark:text-red-400',
+  moved: 'text-blue-600 dark:text-blue-400',
+  'content-changed': 'text-amber-600 dark:text-amber-400',
+};
+
+export default function RevisionHistory({ mapId, canRestore, onRestored }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<MapRevisionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState(false);
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+  const [busyRevisionId, setBusyRevisionId] = useState<string | null>(null);
+
+  const fetchRevisions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/maps/${mapId}/revisions`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch revisions');
+      }
+      setRevisions(await response.json());
+    } catch (error) {
+      console.error('Error fetching revisions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [mapId]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions]);
+
+  const handleCompare = async (revisionId: string) => {
+    if (diff?.from === revisionId) {
+      setDiff(null);
+      return;
+    }
+
+    setBusyRevisionId(revisionId);
+    try {
+      const response = await fetch(`/api/maps/${mapId}/revisions/diff?from=${revisionId}&to=current`);
+      if (!response.ok) {
+        throw new Error('Failed to compare revisions');
+      }
+      setDiff(await response.json());
+    } catch (error) {
+      console.error('Error comparing revisions:', error);
+      alert('Failed to compare revisions. Please try again.');
+    } finally {
+      setBusyRevisionId(null);
+    }
+  };
+
+  const handleRestore = async (revision: MapRevisionSummary) => {
+    const label = new Date(revision.createdAt).toLocaleString();
+    if (!confirm(`Restore the map to the version from ${label}? Unsaved edits will be lost. The current version stays in the history.`)) {
+      return;
+    }
+
+    setBusyRevisionId(revision.id);
+    try {
+      const response = await fetch(`/api/maps/${mapId}/revisions/${revision.id}/restore`, { method: 'POST' });
+      if (!response.ok) {
+        throw new Error('Failed to restore revision');
+      }
+      setDiff(null);
+      await fetchRevisions();
+      onRestored();
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      alert('Failed to restore revision. Please try again.');
+    } finally {
+      setBusyRevisionId(null);
+    }
+  };
+
+  const visibleRevisions = expanded ? revisions : revisions.slice(0, 5);
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Version History
+        </CardTitle>
+        <CardDescription>Every save is kept as a revision. Compare an older version with the current map or restore it.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading && <p className="text-sm text-gray-600 dark:text-gray-300">Loading history...</p>}
+        {!loading && revisions.length === 0 && (
+          <p className="text-sm text-gray-600 dark:text-gray-300">No revisions yet. The first save creates one.</p>
+        )}
+
+        {visibleRevisions.map((revision, index) => (
+          <div key={revision.id} className="border rounded-lg p-3">
+            <div className="flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {revision.message || 'Untitled change'}
+                  {index === 0 && <span className="ml-2 text-xs text-gray-500">(current)</span>}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {new Date(revision.createdAt).toLocaleString()}
+                  {revision.author && ` · ${revision.author}`}
+                </p>
+              </div>
+              {index > 0 && (
+                <div className="flex gap-2 shrink-0">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={busyRevisionId !== null}
+                    onClick={() => handleCompare(revision.id)}
+                  >
+                    <GitCompare className="mr-2 h-4 w-4" />
+                    {diff?.from === revision.id ? 'Hide' : 'Compare'}
+                  </Button>
+                  {canRestore && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={busyRevisionId !== null}
+                      onClick={() => handleRestore(revision)}
+                    >
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {diff?.from === revision.id && (
+              <div className="mt-3 pt-3 border-t space-y-1 text-sm">
+                <p className="text-gray-600 dark:text-gray-300">
+                  Since this version: {diff.summary.added} added, {diff.summary.removed} removed, {diff.summary.moved} moved, {diff.summary['content-changed']} edited, {diff.unchanged} unchanged
+                </p>
+                {diff.mapFields.length > 0 && (
+                  <p className="text-gray-600 dark:text-gray-300">Map settings changed: {diff.mapFields.join(', ')}</p>
+                )}
+                <ul className="max-h-48 overflow-y-auto space-y-0.5">
+                  {diff.changes.map(change => (
+                    <li key={`${change.kind}-${change.zoneId}`}>
+                      <span className={`font-medium ${CHANGE_COLORS[change.kind]}`}>{CHANGE_LABELS[change.kind]}</span>{' '}
+                      {change.title || 'Unnamed Zone'}
+                      {change.fields && <span className="text-gray-500"> ({change.fields.join(', ')})</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        ))}
+
+        {revisions.length > 5 && (
+          <Button variant="ghost" size="sm" onClick={() => setExpanded(!expanded)}>
+            {expanded ? 'Show fewer' : `Show all ${revisions.length} revisions`}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { Group, Image as KonvaImage } from 'react-konva';
+import useImage from 'use-image';
+import { TilePyramid } from '@/lib/types';
+import { CanvasRect, VisibleTile, visibleTiles } from '@/lib/tile-pyramid';
+
+interface TiledBlueprintProps {
+  imageUrl: string;
+  tiles?: TilePyramid;
+  canvasWidth: number;
+  canvasHeight: number;
+  // Current stage scale and the part of the canvas on screen (see useStagePanZoom)
+  scale: number;
+  visibleRect: CanvasRect;
+}
+
+function Tile({ tile }: { tile: VisibleTile }) {
+  const [image] = useImage(tile.url);
+  if (!image) return null;
+  return <KonvaImage image={image} x={tile.x} y={tile.y} width={tile.width} height={tile.height} />;
+}
+
+/**
+ * Blueprint background stretched over the canvas. Once zoomed in past the
+ * resolution of `imageUrl`, the visible tiles of the full-resolution pyramid
+ * are drawn on top of it; the base image shows through until they load.
+ */
+export default function TiledBlueprint({ imageUrl, tiles, canvasWidth, canvasHeight, scale, visibleRect }: TiledBlueprintProps) {
+  const [image] = useImage(imageUrl);
+
+  const pixelRatio = typeof window === 'undefined' ? 1 : window.devicePixelRatio || 1;
+  const displayedWidth = canvasWidth * scale * pixelRatio;
+  const showTiles = tiles && image && displayedWidth > image.naturalWidth;
+
+  return (
+    <Group listening={false}>
+      {image && <KonvaImage image={image} width={canvasWidth} height={canvasHeight} />}
+      {showTiles && visibleTiles(tiles, canvasWidth, canvasHeight, visibleRect, displayedWidth).map(tile => (
+        <Tile key={tile.key} tile={tile} />
+      ))}
+    </Group>
+  );
+}
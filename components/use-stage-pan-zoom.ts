@@ -0,0 +1,125 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Konva from 'konva';
+import { CanvasRect } from '@/lib/tile-pyramid';
+
+interface StagePanZoomOptions {
+  canvasWidth: number;
+  canvasHeight: number;
+  // Tallest the stage may get on screen, in CSS pixels
+  maxHeight: number;
+  maxScale: number;
+}
+
+interface View {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const ZOOM_STEP = 1.2;
+
+/**
+ * Pan (drag) and zoom (wheel / buttons) for a Konva stage showing a canvas of a
+ * fixed size. The stage fills its container's width; fully zoomed out, the whole
+ * canvas fits. Attach `containerRef` to the element wrapping the Stage and spread
+ * `stageProps` on it. Children keep using canvas coordinates.
+ */
+export function useStagePanZoom({ canvasWidth, canvasHeight, maxHeight, maxScale }: StagePanZoomOptions) {
+  // Callback ref, so pages that render the stage after loading still get measured
+  const [container, containerRef] = useState<HTMLDivElement | null>(null);
+  const [containerWidth, setContainerWidth] = useState(canvasWidth);
+
+  useEffect(() => {
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => setContainerWidth(entry.contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [container]);
+
+  const fitScale = Math.min(1, containerWidth / canvasWidth, maxHeight / canvasHeight);
+  const stageWidth = Math.round(canvasWidth * fitScale);
+  const stageHeight = Math.round(canvasHeight * fitScale);
+  const minScale = fitScale;
+
+  const [view, setView] = useState<View>({ scale: fitScale, x: 0, y: 0 });
+
+  // Keep the canvas covering the stage: no panning past its edges
+  const clamp = useCallback((scale: number, x: number, y: number): View => {
+    const clampedScale = Math.min(Math.max(scale, minScale), Math.max(maxScale, minScale));
+    return {
+      scale: clampedScale,
+      x: Math.min(0, Math.max(stageWidth - canvasWidth * clampedScale, x)),
+      y: Math.min(0, Math.max(stageHeight - canvasHeight * clampedScale, y)),
+    };
+  }, [minScale, maxScale, stageWidth, stageHeight, canvasWidth, canvasHeight]);
+
+  // When the canvas or container size changes, a fitted view stays fitted
+  const previousMinScale = useRef(minScale);
+  useEffect(() => {
+    const previous = previousMinScale.current;
+    previousMinScale.current = minScale;
+    setView(current => current.scale <= previous ? clamp(minScale, 0, 0) : clamp(current.scale, current.x, current.y));
+  }, [clamp, minScale]);
+
+  const zoomAt = useCallback((factor: number, anchor: { x: number; y: number }) => {
+    setView(current => {
+      const canvasX = (anchor.x - current.x) / current.scale;
+      const canvasY = (anchor.y - current.y) / current.scale;
+      const scale = current.scale * factor;
+      return clamp(scale, anchor.x - canvasX * scale, anchor.y - canvasY * scale);
+    });
+  }, [clamp]);
+
+  const onWheel = (e: Konva.KonvaEventObject<WheelEvent>) => {
+    e.evt.preventDefault();
+    const pointer = e.target.getStage()?.getPointerPosition();
+    if (!pointer) return;
+    zoomAt(e.evt.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, pointer);
+  };
+
+  // Drag events of draggable zones bubble up to the stage; only follow the stage itself
+  const onDragMove = (e: Konva.KonvaEventObject<DragEvent>) => {
+    if (e.target !== e.target.getStage()) return;
+    setView(current => clamp(current.scale, e.target.x(), e.target.y()));
+  };
+
+  const dragBoundFunc = (position: Konva.Vector2d) => {
+    const clamped = clamp(view.scale, position.x, position.y);
+    return { x: clamped.x, y: clamped.y };
+  };
+
+  const center = { x: stageWidth / 2, y: stageHeight / 2 };
+  const visibleRect: CanvasRect = {
+    x: -view.x / view.scale,
+    y: -view.y / view.scale,
+    width: stageWidth / view.scale,
+    height: stageHeight / view.scale,
+  };
+
+  return {
+    containerRef,
+    stageProps: {
+      width: stageWidth,
+      height: stageHeight,
+      scaleX: view.scale,
+      scaleY: view.scale,
+      x: view.x,
+      y: view.y,
+      draggable: view.scale > minScale,
+      dragBoundFunc,
+      onWheel,
+      onDragMove,
+      onDragEnd: onDragMove,
+    },
+    scale: view.scale,
+    canZoomIn: view.scale < maxScale,
+    canZoomOut: view.scale > minScale,
+    visibleRect,
+    zoomIn: () => zoomAt(ZOOM_STEP, center),
+    zoomOut: () => zoomAt(1 / ZOOM_STEP, center),
+    resetZoom: () => setView(clamp(minScale, 0, 0)),
+  };
+}
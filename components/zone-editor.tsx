@@ -1,7 +1,8 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Stage, Layer, Image as KonvaImage, Circle, Rect, Line } from 'react-konva';
+import { useState, useEffect, useCallback } from 'react';
+import Konva from 'konva';
+import { Stage, Layer, Circle, Rect, Line } from 'react-konva';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -10,31 +11,56 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { ZoneType, ZoneCoordinates, ZoneContent, PointCoordinates, RectangleCoordinates, CircleCoordinates, GeographicBounds } from '@/lib/types';
-import { Upload, FileText } from 'lucide-react';
-import useImage from 'use-image';
+import { ImportedValues, ZoneType, ZoneCoordinates, ZoneContent, ZoneStyle, PointCoordinates, RectangleCoordinates, CircleCoordinates, PolygonCoordinates, GeographicBounds, Georeference, Level, TilePyramid } from '@/lib/types';
+import { Upload, FileText, ZoomIn, ZoomOut, Maximize } from 'lucide-react';
 import CSVImportDialog from '@/components/csv-import-dialog';
 import { GeocodedZone } from '@/lib/csv-importer';
+import { applyImportSync, ImportSyncPlan, withImportedValues, ZoneLocationAdapter, zoneLocation } from '@/lib/import-sync';
+import { isHostedVideo, uploadMedia } from '@/lib/media-client';
+import { maxZoom } from '@/lib/tile-pyramid';
+import TiledBlueprint from '@/components/tiled-blueprint';
+import { useStagePanZoom } from '@/components/use-stage-pan-zoom';
+import LevelSwitcher from '@/components/level-switcher';
+import { defaultLevel, zonesOnLevel } from '@/lib/levels';
 
 interface Zone {
   id: string;
   type: ZoneType;
   coordinates: ZoneCoordinates;
   content: ZoneContent;
+  style?: ZoneStyle;
+  levelId?: string;
+  externalId?: string;
+  importedValues?: ImportedValues;
 }
 
+// Select value for zones shown on every level
+const ALL_LEVELS = 'all';
+
+// How a spreadsheet re-import compares and moves zones
+const ZONE_LOCATION: ZoneLocationAdapter<Zone> = {
+  get: zone => zoneLocation(zone.type, zone.coordinates),
+  set: (zone, from) => ({ ...zone, type: from.type, coordinates: from.coordinates }),
+};
+
 interface ZoneEditorProps {
   imageUrl?: string;
+  tiles?: TilePyramid;
   canvasWidth: number;
   canvasHeight: number;
   geoBounds?: GeographicBounds | null;
+  georeference?: Georeference;
   useBaseMap?: boolean;
+  // Floors of a multi-level map; new zones go on the level being viewed
+  levels?: Level[];
   onSave: (zones: Zone[], categories: string[]) => void;
   importedZones?: GeocodedZone[];
 }
 
-export default function ZoneEditor({ imageUrl, canvasWidth, canvasHeight, geoBounds, useBaseMap, onSave, importedZones }: ZoneEditorProps) {
+export default function ZoneEditor({ imageUrl, tiles, canvasWidth, canvasHeight, geoBounds, georeference, useBaseMap, levels = [], onSave, importedZones }: ZoneEditorProps) {
   const [zones, setZones] = useState<Zone[]>([]);
+  const [levelId, setLevelId] = useState<string | null>(null);
+  const currentLevel = levels.find(level => level.id === levelId) ?? defaultLevel(levels);
   const [selectedZoneType, setSelectedZoneType] = useState<ZoneType>('point');
   const [placementMode, setPlacementMode] = useState<'click' | 'manual'>('click');
   const [editingZone, setEditingZone] = useState<Zone | null>(null);
@@ -46,7 +72,16 @@ export default function ZoneEditor({ imageUrl, canvasWidth, canvasHeight, geoBou
     ? `https://maps.googleapis.com/maps/api/staticmap?center=${(geoBounds.minLat + geoBounds.maxLat) / 2},${(geoBounds.minLng + geoBounds.maxLng) / 2}&zoom=17&size=${Math.min(canvasWidth, 640)}x${Math.min(canvasHeight, 640)}&scale=2&maptype=satellite&key=${process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY}`
     : null;
 
-  const [image] = useImage(imageUrl || staticMapUrl || '');
+  // Levels without their own floor plan show the map's blueprint
+  const backgroundUrl = currentLevel?.imageUrl || imageUrl || staticMapUrl;
+  const backgroundTiles = currentLevel?.imageUrl ? currentLevel.tiles : imageUrl ? tiles : undefined;
+
+  const panZoom = useStagePanZoom({
+    canvasWidth,
+    canvasHeight,
+    maxHeight: typeof window === 'undefined' ? canvasHeight : window.innerHeight * 0.7,
+    maxScale: maxZoom(canvasWidth, backgroundTiles),
+  });
 
   // Manual coordinate inputs
   const [manualCoords, setManualCoords] = useState({
@@ -56,6 +91,14 @@ export default function ZoneEditor({ imageUrl, canvasWidth, canvasHeight, geoBou
     height: '',
     radius: '',
   });
+  // Manual polygon vertices, one "x, y" pair per line
+  const [manualPoints, setManualPoints] = useState('');
+
+  // Vertices of the polygon being drawn, and the polygon whose vertices are being edited
+  const [polygonDraft, setPolygonDraft] = useState<PointCoordinates[]>([]);
+  const [selectedPolygonId, setSelectedPolygonId] = useState<string | null>(null);
+  // Extrusion height in meters for new polygon zones (3D viewer)
+  const [zoneHeight, setZoneHeight] = useState('');
 
   // Zone content form
   const [zoneContent, setZoneContent] = useState<ZoneContent>({
@@ -90,28 +133,36 @@ export default function ZoneEditor({ imageUrl, canvasWidth, canvasHeight, geoBou
         type: geoZone.type,
         coordinates: geoZone.coordinates,
         content: geoZone.content,
+        style: geoZone.style,
+        levelId: geoZone.levelId,
+        externalId: geoZone.externalId,
+        importedValues: geoZone.importedValues,
       }));
       setZones(convertedZones);
       console.log('[ZoneEditor] Initialized with imported zones:', convertedZones.length);
     }
   }, [importedZones]);
 
+  // Files go to media storage; the zone content only keeps the returned URL
+  const uploadZoneMedia = async (file: File, field: 'images' | 'videos') => {
+    try {
+      const media = await uploadMedia(file);
+        // Use functional setState to get the latest state
+      setZoneContent(prevContent => ({
+        ...prevContent,
+        [field]: [...(prevContent[field] || []), media.url],
+      }));
+    } catch (error) {
+      console.error('Error uploading file:', error);
+      alert(error instanceof Error ? error.message : `Failed to upload ${file.name}`);
+    }
+  };
+
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (!files) return;
 
-    Array.from(files).forEach((file) => {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const imageUrl = event.target?.result as string;
-        // Use functional setState to get the latest state
-        setZoneContent(prevContent => ({
-          ...prevContent,
-          images: [...(prevContent.images || []), imageUrl],
-        }));
-      };
-      reader.readAsDataURL(file);
-    });
+    Array.from(files).forEach((file) => uploadZoneMedia(file, 'images'));
   };
 
   const handleVideoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -119,29 +170,19 @@ export default function ZoneEditor({ imageUrl, canvasWidth, canvasHeight, geoBou
     if (!files) return;
 
     Array.from(files).forEach((file) => {
-      // Check file size (limit to 100MB)
       const maxSize = 100 * 1024 * 1024; // 100MB in bytes
       if (file.size > maxSize) {
         alert(`File ${file.name} is too large. Maximum size is 100MB.`);
         return;
       }
 
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const videoUrl = event.target?.result as string;
-        // Use functional setState to get the latest state
-        setZoneContent(prevContent => ({
-          ...prevContent,
-          videos: [...(prevContent.videos || []), videoUrl],
-        }));
-      };
-      reader.readAsDataURL(file);
+      uploadZoneMedia(file, 'videos');
     });
   };
 
   const handleCanvasMouseMove = (e: any) => {
     const stage = e.target.getStage();
-    const point = stage.getPointerPosition();
+    const point = stage.getRelativePointerPosition();
 
     if (point && point.x != null && point.y != null) {
       const x = Math.round(point.x);
@@ -162,10 +203,12 @@ export default function ZoneEditor({ imageUrl, canvasWidth, canvasHeight, geoBou
   };
 
   const handleCanvasClick = (e: any) => {
+    setSelectedPolygonId(null);
     if (placementMode !== 'click') return;
 
+    // Pointer in canvas coordinates, whatever the current pan and zoom
     const stage = e.target.getStage();
-    const point = stage.getPointerPosition();
+    const point = stage.getRelativePointerPosition();
 
     // Ensure we have valid coordinates
     if (!point || point.x == null || point.y == null) return;
@@ -177,6 +220,11 @@ export default function ZoneEditor({ imageUrl, canvasWidth, canvasHeight, geoBou
     // Ensure coordinates are within canvas bounds
     if (x < 0 || x > canvasWidth || y < 0 || y > canvasHeight) return;
 
+    if (selectedZoneType === 'polygon') {
+      addPolygonVertex({ x, y });
+      return;
+    }
+
     let coordinates: ZoneCoordinates;
 
     switch (selectedZoneType) {
@@ -207,6 +255,44 @@ export default function ZoneEditor({ imageUrl, canvasWidth, canvasHeight, geoBou
     setShowContentDialog(true);
   };
 
+  // Clicking near the first vertex (within 10 screen pixels at any zoom) closes the polygon
+  const addPolygonVertex = (point: PointCoordinates) => {
+    const first = polygonDraft[0];
+    if (polygonDraft.length >= 3 && Math.hypot(point.x - first.x, point.y - first.y) <= 10 / panZoom.scale) {
+      finishPolygon(polygonDraft);
+      return;
+    }
+    setPolygonDraft([...polygonDraft, point]);
+  };
+
+  const finishPolygon = useCallback((points: PointCoordinates[]) => {
+    if (points.length < 3) return;
+
+    const newZone: Zone = {
+      id: Math.random().toString(36).substr(2, 9),
+      type: 'polygon',
+      coordinates: { points },
+      content: { title: `Zone ${zones.length + 1}` },
+    };
+
+    setPolygonDraft([]);
+    setEditingZone(newZone);
+    setZoneContent({ title: `Zone ${zones.length + 1}`, description: '', images: [], videos: [], links: [] });
+    setShowContentDialog(true);
+  }, [zones.length]);
+
+  // Enter closes the polygon being drawn, Escape discards it
+  useEffect(() => {
+    if (polygonDraft.length === 0) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Enter') finishPolygon(polygonDraft);
+      if (e.key === 'Escape') setPolygonDraft([]);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [polygonDraft, finishPolygon]);
+
   const handleManualAdd = () => {
     let coordinates: ZoneCoordinates;
 
@@ -232,6 +318,22 @@ export default function ZoneEditor({ imageUrl, canvasWidth, canvasHeight, geoBou
           radius: parseFloat(manualCoords.radius),
         };
         break;
+      case 'polygon': {
+        const points = manualPoints
+          .split('\n')
+          .map(line => line.trim())
+          .filter(line => line)
+          .map(line => {
+            const [x, y] = line.split(/[\s,]+/).map(Number);
+            return { x, y };
+          });
+        if (points.length < 3 || points.some(point => !Number.isFinite(point.x) || !Number.isFinite(point.y))) {
+          alert('Enter at least 3 vertices, one "x, y" pair per line');
+          return;
+        }
+        coordinates = { points };
+        break;
+      }
       default:
         return;
     }
@@ -250,12 +352,20 @@ export default function ZoneEditor({ imageUrl, canvasWidth, canvasHeight, geoBou
 
   const handleSaveZoneContent = () => {
     if (editingZone) {
-      const updatedZone = { ...editingZone, content: zoneContent };
+      const height = parseFloat(zoneHeight);
+      const updatedZone = {
+        ...editingZone,
+        content: zoneContent,
+        ...(editingZone.type !== 'point' && height > 0 && { style: { ...editingZone.style, height } }),
+        ...(currentLevel && { levelId: currentLevel.id }),
+      };
       setZones([...zones, updatedZone]);
       setEditingZone(null);
       setShowContentDialog(false);
       setZoneContent({ title: '', description: '', images: [], videos: [], links: [] });
       setManualCoords({ x: '', y: '', width: '', height: '', radius: '' });
+      setManualPoints('');
+      setZoneHeight('');
     }
   };
 
@@ -263,13 +373,23 @@ export default function ZoneEditor({ imageUrl, canvasWidth, canvasHeight, geoBou
     setZones(zones.filter((z) => z.id !== id));
   };
 
+  const handleZoneLevelChange = (id: string, value: string) => {
+    setZones(zones.map(zone => (zone.id === id ? { ...zone, levelId: value === ALL_LEVELS ? undefined : value } : zone)));
+  };
+
+  // Imported zones go on the level being viewed
+  const toEditorZones = (geocodedZones: GeocodedZone[]): Zone[] => geocodedZones.map(geoZone => withImportedValues({
+    id: geoZone.id,
+    type: geoZone.type,
+    coordinates: geoZone.coordinates,
+    content: geoZone.content,
+    ...(geoZone.style && { style: geoZone.style }),
+    ...(currentLevel && { levelId: currentLevel.id }),
+    ...(geoZone.externalId && { externalId: geoZone.externalId }),
+  }, ZONE_LOCATION));
+
   const handleCsvImport = (importedZones: GeocodedZone[], calculatedBounds?: GeographicBounds) => {
-    const newZones: Zone[] = importedZones.map(geoZone => ({
-      id: geoZone.id,
-      type: geoZone.type,
-      coordinates: geoZone.coordinates,
-      content: geoZone.content,
-    }));
+    const newZones = toEditorZones(importedZones);
 
     setZones(prevZones => [...prevZones, ...newZones]);
     setShowCsvImportDialog(false);
@@ -281,6 +401,11 @@ export default function ZoneEditor({ imageUrl, canvasWidth, canvasHeight, geoBou
     }
   };
 
+  const handleCsvSync = (plan: ImportSyncPlan<Zone>) => {
+    setZones(prevZones => applyImportSync(prevZones, plan));
+    setShowCsvImportDialog(false);
+  };
+
   const handleZoneDragEnd = (zoneId: string, e: any) => {
     const newX = e.target.x();
     const newY = e.target.y();
@@ -309,6 +434,37 @@ export default function ZoneEditor({ imageUrl, canvasWidth, canvasHeight, geoBou
     }));
   };
 
+  // Polygons are dragged as a whole: shift every vertex, then put the line back at the origin
+  const handlePolygonDragEnd = (zoneId: string, e: Konva.KonvaEventObject<DragEvent>) => {
+    const dx = e.target.x();
+    const dy = e.target.y();
+    e.target.position({ x: 0, y: 0 });
+
+    setZones(zones.map(zone => {
+      if (zone.id !== zoneId) return zone;
+      const polygonCoords = zone.coordinates as PolygonCoordinates;
+      return { ...zone, coordinates: { points: polygonCoords.points.map(p => ({ x: p.x + dx, y: p.y + dy })) } };
+    }));
+  };
+
+  const handleVertexMove = (zoneId: string, index: number, x: number, y: number) => {
+    setZones(prevZones => prevZones.map(zone => {
+      if (zone.id !== zoneId) return zone;
+      const polygonCoords = zone.coordinates as PolygonCoordinates;
+      const points = polygonCoords.points.map((p, i) => (i === index ? { x: Math.round(x), y: Math.round(y) } : p));
+      return { ...zone, coordinates: { points } };
+    }));
+  };
+
+  const handleVertexRemove = (zoneId: string, index: number) => {
+    setZones(prevZones => prevZones.map(zone => {
+      if (zone.id !== zoneId) return zone;
+      const polygonCoords = zone.coordinates as PolygonCoordinates;
+      if (polygonCoords.points.length <= 3) return zone;
+      return { ...zone, coordinates: { points: polygonCoords.points.filter((_, i) => i !== index) } };
+    }));
+  };
+
   const handleZoneTransformEnd = (zoneId: string, node: any) => {
     const scaleX = node.scaleX();
     const scaleY = node.scaleY();
@@ -391,11 +547,29 @@ export default function ZoneEditor({ imageUrl, canvasWidth, canvasHeight, geoBou
       case 'circle':
         const circleCoords = zone.coordinates as CircleCoordinates;
         return <Circle key={zone.id} {...commonProps} x={circleCoords.x} y={circleCoords.y} radius={circleCoords.radius} />;
+      case 'polygon':
+        const polygonCoords = zone.coordinates as PolygonCoordinates;
+        return (
+          <Line
+            key={zone.id}
+            {...commonProps}
+            points={polygonCoords.points.flatMap(p => [p.x, p.y])}
+            closed
+            onDragEnd={(e: Konva.KonvaEventObject<DragEvent>) => handlePolygonDragEnd(zone.id, e)}
+            onClick={(e: Konva.KonvaEventObject<MouseEvent>) => {
+              // Select for vertex editing instead of placing a new zone underneath
+              e.cancelBubble = true;
+              setSelectedPolygonId(zone.id);
+            }}
+          />
+        );
       default:
         return null;
     }
   };
 
+  const selectedPolygon = zones.find(zone => zone.id === selectedPolygonId && zone.type === 'polygon');
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 pb-8">
       {/* Canvas */}
@@ -407,25 +581,29 @@ export default function ZoneEditor({ imageUrl, canvasWidth, canvasHeight, geoBou
           </CardHeader>
           <CardContent>
             <div
-              className="relative border rounded-lg overflow-auto bg-gray-100"
+              ref={panZoom.containerRef}
+              className="relative border rounded-lg overflow-hidden bg-gray-100"
               style={{
-                maxWidth: '100%',
-                maxHeight: '70vh',
-                width: 'fit-content',
                 cursor: placementMode === 'click' ? 'crosshair' : 'default'
               }}
             >
               <Stage
-                width={canvasWidth}
-                height={canvasHeight}
+                {...panZoom.stageProps}
                 onClick={handleCanvasClick}
                 onMouseMove={handleCanvasMouseMove}
                 onMouseLeave={handleCanvasMouseLeave}
               >
                 <Layer>
                   {/* Background - either blueprint, static map, or gray placeholder */}
-                  {image ? (
-                    <KonvaImage image={image} width={canvasWidth} height={canvasHeight} />
+                  {backgroundUrl ? (
+                    <TiledBlueprint
+                      imageUrl={backgroundUrl}
+                      tiles={backgroundTiles}
+                      canvasWidth={canvasWidth}
+                      canvasHeight={canvasHeight}
+                      scale={panZoom.scale}
+                      visibleRect={panZoom.visibleRect}
+                    />
                   ) : (
                     <Rect
                       x={0}
@@ -438,8 +616,56 @@ export default function ZoneEditor({ imageUrl, canvasWidth, canvasHeight, geoBou
                     />
                   )}
 
-                  {/* User zones */}
-                  {zones.map(renderZone)}
+                  {/* User zones on the current level */}
+                  {zonesOnLevel(zones, levels, currentLevel?.id).map(renderZone)}
+
+                  {/* Vertex handles of the selected polygon: drag to move, double-click to remove */}
+                  {selectedPolygon && (selectedPolygon.coordinates as PolygonCoordinates).points.map((point, index) => (
+                    <Circle
+                      key={`${selectedPolygon.id}-${index}`}
+                      x={point.x}
+                      y={point.y}
+                      radius={6 / panZoom.scale}
+                      fill="white"
+                      stroke="rgb(239, 68, 68)"
+                      strokeWidth={2}
+                      strokeScaleEnabled={false}
+                      draggable
+                      onDragMove={(e: Konva.KonvaEventObject<DragEvent>) => handleVertexMove(selectedPolygon.id, index, e.target.x(), e.target.y())}
+                      onClick={(e: Konva.KonvaEventObject<MouseEvent>) => { e.cancelBubble = true; }}
+                      onDblClick={(e: Konva.KonvaEventObject<MouseEvent>) => {
+                        e.cancelBubble = true;
+                        handleVertexRemove(selectedPolygon.id, index);
+                      }}
+                    />
+                  ))}
+
+                  {/* Polygon being drawn, with a rubber band to the pointer */}
+                  {polygonDraft.length > 0 && (
+                    <>
+                      <Line
+                        points={[...polygonDraft.flatMap(p => [p.x, p.y]), ...(mousePos ? [mousePos.x, mousePos.y] : [])]}
+                        stroke="rgb(239, 68, 68)"
+                        strokeWidth={2}
+                        strokeScaleEnabled={false}
+                        dash={[8, 4]}
+                        listening={false}
+                      />
+                      {polygonDraft.map((point, index) => (
+                        <Circle
+                          key={index}
+                          x={point.x}
+                          y={point.y}
+                          radius={(index === 0 ? 7 : 4) / panZoom.scale}
+                          fill={index === 0 ? 'white' : 'rgb(239, 68, 68)'}
+                          stroke="rgb(239, 68, 68)"
+                          strokeWidth={2}
+                          strokeScaleEnabled={false}
+                          listening={false}
+                        />
+                      ))}
+                    </>
+                  )}
                 </Layer>
               </Stage>
 
@@ -453,6 +679,31 @@ export default function ZoneEditor({ imageUrl, canvasWidth, canvasHeight, geoBou
                 </div>
               )}
 
+              {/* Floor switcher for multi-level maps */}
+              <LevelSwitcher
+                levels={levels}
+                value={currentLevel?.id}
+                onChange={(id) => {
+                  setLevelId(id);
+                  setPolygonDraft([]);
+                  setSelectedPolygonId(null);
+                }}
+                className="absolute bottom-4 left-4"
+              />
+
+              {/* Zoom controls; scroll to zoom, drag the background to pan */}
+              <div className="absolute top-4 right-4 flex flex-col gap-1">
+                <Button variant="secondary" size="icon" onClick={panZoom.zoomIn} disabled={!panZoom.canZoomIn} title="Zoom in">
+                  <ZoomIn className="h-4 w-4" />
+                </Button>
+                <Button variant="secondary" size="icon" onClick={panZoom.zoomOut} disabled={!panZoom.canZoomOut} title="Zoom out">
+                  <ZoomOut className="h-4 w-4" />
+                </Button>
+                <Button variant="secondary" size="icon" onClick={panZoom.resetZoom} disabled={!panZoom.canZoomOut} title="Fit to view">
+                  <Maximize className="h-4 w-4" />
+                </Button>
+              </div>
+
               {/* Coordinate display overlay */}
               {placementMode === 'click' && mousePos && (
                 <div className="absolute bottom-4 right-4 bg-black/75 text-white px-3 py-2 rounded-lg shadow-lg text-xs font-mono">
@@ -472,11 +723,18 @@ export default function ZoneEditor({ imageUrl, canvasWidth, canvasHeight, geoBou
         <Card>
           <CardHeader>
             <CardTitle>Add Zone</CardTitle>
+            {currentLevel && <CardDescription>New zones go on {currentLevel.name}</CardDescription>}
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="space-y-2">
               <Label>Zone Type</Label>
-              <Select value={selectedZoneType} onValueChange={(v) => setSelectedZoneType(v as ZoneType)}>
+              <Select
+                value={selectedZoneType}
+                onValueChange={(v) => {
+                  setSelectedZoneType(v as ZoneType);
+                  setPolygonDraft([]);
+                }}
+              >
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
@@ -484,6 +742,7 @@ export default function ZoneEditor({ imageUrl, canvasWidth, canvasHeight, geoBou
                   <SelectItem value="point">Point</SelectItem>
                   <SelectItem value="rectangle">Rectangle</SelectItem>
                   <SelectItem value="circle">Circle</SelectItem>
+                  <SelectItem value="polygon">Polygon</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -495,26 +754,49 @@ export default function ZoneEditor({ imageUrl, canvasWidth, canvasHeight, geoBou
               </TabsList>
 
               <TabsContent value="click" className="space-y-2">
-                <p className="text-sm text-gray-600">Click on the canvas to place a {selectedZoneType}</p>
+                {selectedZoneType === 'polygon' ? (
+                  <>
+                    <p className="text-sm text-gray-600">
+                      Click to add vertices, then click the first vertex or press Enter to close the polygon.
+                      Click a polygon to drag its vertices; double-click a vertex to remove it.
+                    </p>
+                    {polygonDraft.length > 0 && (
+                      <div className="flex gap-2">
+                        <Button size="sm" className="flex-1" disabled={polygonDraft.length < 3} onClick={() => finishPolygon(polygonDraft)}>
+                          Finish ({polygonDraft.length} points)
+                        </Button>
+                        <Button size="sm" variant="outline" className="flex-1" onClick={() => setPolygonDraft([])}>
+                          Cancel
+                        </Button>
+                      </div>
+                    )}
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-600">Click on the canvas to place a {selectedZoneType}</p>
+                )}
               </TabsContent>
 
               <TabsContent value="manual" className="space-y-2">
-                <div className="space-y-2">
-                  <Label>X Coordinate</Label>
-                  <Input
-                    type="number"
-                    value={manualCoords.x}
-                    onChange={(e) => setManualCoords({ ...manualCoords, x: e.target.value })}
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label>Y Coordinate</Label>
-                  <Input
-                    type="number"
-                    value={manualCoords.y}
-                    onChange={(e) => setManualCoords({ ...manualCoords, y: e.target.value })}
-                  />
-                </div>
+                {selectedZoneType !== 'polygon' && (
+                  <>
+                    <div className="space-y-2">
+                      <Label>X Coordinate</Label>
+                      <Input
+                        type="number"
+                        value={manualCoords.x}
+                        onChange={(e) => setManualCoords({ ...manualCoords, x: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Y Coordinate</Label>
+                      <Input
+                        type="number"
+                        value={manualCoords.y}
+                        onChange={(e) => setManualCoords({ ...manualCoords, y: e.target.value })}
+                      />
+                    </div>
+                  </>
+                )}
 
                 {selectedZoneType === 'rectangle' && (
                   <>
@@ -548,6 +830,19 @@ export default function ZoneEditor({ imageUrl, canvasWidth, canvasHeight, geoBou
                   </div>
                 )}
 
+                {selectedZoneType === 'polygon' && (
+                  <div className="space-y-2">
+                    <Label>Vertices</Label>
+                    <Textarea
+                      value={manualPoints}
+                      onChange={(e) => setManualPoints(e.target.value)}
+                      placeholder={'100, 100\n300, 120\n250, 300'}
+                      rows={5}
+                    />
+                    <p className="text-xs text-gray-500">One &quot;x, y&quot; pair per line, at least 3</p>
+                  </div>
+                )}
+
                 <Button onClick={handleManualAdd} className="w-full">
                   Add Zone
                 </Button>
@@ -561,10 +856,10 @@ export default function ZoneEditor({ imageUrl, canvasWidth, canvasHeight, geoBou
                 className="w-full"
               >
                 <Upload className="mr-2 h-4 w-4" />
-                Import from CSV
+                Import from CSV, Spreadsheet or GeoJSON
               </Button>
               <p className="text-xs text-gray-500 mt-2 text-center">
-                Bulk import zones from a CSV file with names, addresses, and descriptions
+                Bulk import zones from a CSV file or a GeoJSON feature collection
               </p>
             </div>
           </CardContent>
@@ -589,6 +884,22 @@ export default function ZoneEditor({ imageUrl, canvasWidth, canvasHeight, geoBou
                         </span>
                       )}
                     </div>
+                    {levels.length > 0 && (
+                      <Select
+                        value={zone.levelId && levels.some(level => level.id === zone.levelId) ? zone.levelId : ALL_LEVELS}
+                        onValueChange={(value) => handleZoneLevelChange(zone.id, value)}
+                      >
+                        <SelectTrigger className="h-7 mt-1 w-40 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ALL_LEVELS}>All levels</SelectItem>
+                          {levels.map(level => (
+                            <SelectItem key={level.id} value={level.id}>{level.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
                   </div>
                   <Button variant="destructive" size="sm" onClick={() => handleDeleteZone(zone.id)}>
                     Delete
@@ -660,6 +971,21 @@ export default function ZoneEditor({ imageUrl, canvasWidth, canvasHeight, geoBou
               </p>
             </div>
 
+            {/* Area zone height */}
+            {editingZone && editingZone.type !== 'point' && (
+              <div className="space-y-2">
+                <Label>Height (meters)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={zoneHeight}
+                  onChange={(e) => setZoneHeight(e.target.value)}
+                  placeholder="Leave empty to drape on the ground"
+                />
+                <p className="text-xs text-muted-foreground">Extrudes the zone outline in the 3D viewer</p>
+              </div>
+            )}
+
             {/* Image Upload */}
             <div className="space-y-2">
               <Label>Images</Label>
@@ -754,7 +1080,7 @@ export default function ZoneEditor({ imageUrl, canvasWidth, canvasHeight, geoBou
                 <div className="space-y-2 mt-3">
                   <p className="text-sm font-medium">{zoneContent.videos.length} video{zoneContent.videos.length !== 1 ? 's' : ''} added</p>
                   {zoneContent.videos.map((video, idx) => {
-                    const isDataUrl = video.startsWith('data:video/');
+                    const isUploaded = isHostedVideo(video);
                     return (
                       <div key={idx} className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg border">
                         <div className="flex items-center gap-3 flex-1 min-w-0">
@@ -764,8 +1090,8 @@ export default function ZoneEditor({ imageUrl, canvasWidth, canvasHeight, geoBou
                             </svg>
                           </div>
                           <div className="flex-1 min-w-0">
-                            <span className="text-sm truncate block">{isDataUrl ? 'Uploaded video file' : video}</span>
-                            {isDataUrl && <span className="text-xs text-muted-foreground">Local file</span>}
+                            <span className="text-sm truncate block">{isUploaded ? 'Uploaded video file' : video}</span>
+                            {isUploaded && <span className="text-xs text-muted-foreground">Local file</span>}
                           </div>
                         </div>
                         <button
@@ -849,9 +1175,11 @@ export default function ZoneEditor({ imageUrl, canvasWidth, canvasHeight, geoBou
         open={showCsvImportDialog}
         onClose={() => setShowCsvImportDialog(false)}
         onImport={handleCsvImport}
+        sync={{ zones, toZones: toEditorZones, location: ZONE_LOCATION, onSync: handleCsvSync }}
         canvasWidth={canvasWidth}
         canvasHeight={canvasHeight}
         geoBounds={geoBounds}
+        georeference={georeference}
       />
     </div>
   );
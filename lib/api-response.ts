@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { ValidationIssue } from './validation';
+
+/**
+ * Read a JSON request body, returning undefined for missing or malformed JSON
+ * so the validators can report it as a 400 instead of a 500.
+ */
+export async function readJsonBody(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 400 response listing every invalid field path
+ */
+export function validationErrorResponse(issues: ValidationIssue[]) {
+  return NextResponse.json(
+    { error: 'Invalid request body', issues },
+    { status: 400 }
+  );
+}
@@ -1,4 +1,28 @@
-import { GeographicBounds, PointCoordinates, RectangleCoordinates, CircleCoordinates } from './types';
+import {
+  GeographicBounds,
+  Georeference,
+  PointCoordinates,
+  RectangleCoordinates,
+  CircleCoordinates,
+  PolygonCoordinates,
+  ZoneCoordinates,
+  GeoJSONGeometry,
+  GeoJSONPosition,
+} from './types';
+
+export const EARTH_RADIUS_METERS = 6371008.8;
+// Vertices of the polygon approximating a circle on the globe
+const CIRCLE_SEGMENTS = 64;
+
+/**
+ * How canvas pixels map to the globe: north-up geographic bounds stretched over
+ * the canvas, or a georeference fitted to control points
+ */
+export type GeoFrame = GeographicBounds | Georeference;
+
+function isGeoreference(frame: GeoFrame): frame is Georeference {
+  return 'transform' in frame;
+}
 
 /**
  * Convert latitude to Web Mercator Y coordinate (0-1 range)
@@ -18,13 +42,24 @@ function mercatorYToLat(mercatorY: number): number {
   return lat;
 }
 
+/**
+ * Position in Web Mercator space: longitude and Mercator y, both in radians
+ */
+export function geoToMercator(lat: number, lng: number): { x: number; y: number } {
+  return { x: (lng * Math.PI) / 180, y: latToMercatorY(lat) };
+}
+
+export function mercatorToGeo(x: number, y: number): { lat: number; lng: number } {
+  return { lat: mercatorYToLat(y), lng: (x * 180) / Math.PI };
+}
+
 /**
  * Converts pixel coordinates to geographic coordinates (lat/lng) using Web Mercator projection
  * @param x Pixel x coordinate
  * @param y Pixel y coordinate
  * @param canvasWidth Canvas width in pixels
  * @param canvasHeight Canvas height in pixels
- * @param bounds Geographic bounds of the canvas area
+ * @param bounds Geographic bounds of the canvas area, or its georeference
  * @returns Object with lat and lng
  */
 export function pixelToGeo(
@@ -32,8 +67,13 @@ export function pixelToGeo(
   y: number,
   canvasWidth: number,
   canvasHeight: number,
-  bounds: GeographicBounds
+  bounds: GeoFrame
 ): { lat: number; lng: number } {
+  if (isGeoreference(bounds)) {
+    const [a, b, c, d, e, f] = bounds.transform;
+    return mercatorToGeo(a * x + b * y + c, d * x + e * y + f);
+  }
+
   // Calculate longitude (x-axis) - longitude is linear in Web Mercator
   const lng = bounds.minLng + (x / canvasWidth) * (bounds.maxLng - bounds.minLng);
 
@@ -60,7 +100,7 @@ export function pixelToGeo(
  * @param lng Longitude
  * @param canvasWidth Canvas width in pixels
  * @param canvasHeight Canvas height in pixels
- * @param bounds Geographic bounds of the canvas area
+ * @param bounds Geographic bounds of the canvas area, or its georeference
  * @returns Object with x and y pixel coordinates
  */
 export function geoToPixel(
@@ -68,8 +108,18 @@ export function geoToPixel(
   lng: number,
   canvasWidth: number,
   canvasHeight: number,
-  bounds: GeographicBounds
+  bounds: GeoFrame
 ): { x: number; y: number } {
+  if (isGeoreference(bounds)) {
+    // Invert the affine transform
+    const [a, b, c, d, e, f] = bounds.transform;
+    const mercator = geoToMercator(lat, lng);
+    const det = a * e - b * d;
+    const dx = mercator.x - c;
+    const dy = mercator.y - f;
+    return { x: (e * dx - b * dy) / det, y: (a * dy - d * dx) / det };
+  }
+
   // Calculate x from longitude - longitude is linear in Web Mercator
   const x = ((lng - bounds.minLng) / (bounds.maxLng - bounds.minLng)) * canvasWidth;
 
@@ -97,7 +147,7 @@ export function pointToGeo(
   coords: PointCoordinates,
   canvasWidth: number,
   canvasHeight: number,
-  bounds: GeographicBounds
+  bounds: GeoFrame
 ): { lat: number; lng: number } {
   return pixelToGeo(coords.x, coords.y, canvasWidth, canvasHeight, bounds);
 }
@@ -109,7 +159,7 @@ export function rectangleToGeo(
   coords: RectangleCoordinates,
   canvasWidth: number,
   canvasHeight: number,
-  bounds: GeographicBounds
+  bounds: GeoFrame
 ): { lat: number; lng: number } {
   // Calculate center point of rectangle
   const centerX = coords.x + coords.width / 2;
@@ -125,20 +175,83 @@ export function circleToGeo(
   coords: CircleCoordinates,
   canvasWidth: number,
   canvasHeight: number,
-  bounds: GeographicBounds
+  bounds: GeoFrame
 ): { lat: number; lng: number } {
   return pixelToGeo(coords.x, coords.y, canvasWidth, canvasHeight, bounds);
 }
 
+/**
+ * Area-weighted centroid of a polygon (shoelace formula). Falls back to the
+ * average of the vertices for degenerate polygons without area.
+ */
+export function polygonCentroid(points: { x: number; y: number }[]): { x: number; y: number } {
+  // Work relative to the first vertex to keep precision for small polygons far from the origin
+  const origin = points[0];
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+
+  for (let i = 0; i < points.length; i++) {
+    const ax = points[i].x - origin.x;
+    const ay = points[i].y - origin.y;
+    const bx = points[(i + 1) % points.length].x - origin.x;
+    const by = points[(i + 1) % points.length].y - origin.y;
+    const cross = ax * by - bx * ay;
+    area += cross;
+    cx += (ax + bx) * cross;
+    cy += (ay + by) * cross;
+  }
+
+  if (Math.abs(area) < Number.EPSILON) {
+    return {
+      x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+      y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+    };
+  }
+
+  return { x: origin.x + cx / (3 * area), y: origin.y + cy / (3 * area) };
+}
+
+/**
+ * Converts every polygon vertex to geographic coordinates. Vertices drawn on the
+ * base map keep their stored lat/lng.
+ */
+export function polygonVerticesToGeo(
+  coords: PolygonCoordinates,
+  canvasWidth: number,
+  canvasHeight: number,
+  bounds: GeoFrame
+): { lat: number; lng: number }[] {
+  return coords.points.map(point =>
+    point.lat !== undefined && point.lng !== undefined
+      ? { lat: point.lat, lng: point.lng }
+      : pixelToGeo(point.x, point.y, canvasWidth, canvasHeight, bounds)
+  );
+}
+
+/**
+ * Converts polygon coordinates to geographic coordinates (centroid)
+ */
+export function polygonToGeo(
+  coords: PolygonCoordinates,
+  canvasWidth: number,
+  canvasHeight: number,
+  bounds: GeoFrame
+): { lat: number; lng: number } {
+  const vertices = polygonVerticesToGeo(coords, canvasWidth, canvasHeight, bounds);
+  const centroid = polygonCentroid(vertices.map(vertex => ({ x: vertex.lng, y: vertex.lat })));
+  return { lat: centroid.y, lng: centroid.x };
+}
+
 /**
  * Converts any zone coordinates to geographic coordinates
  */
 export function zoneToGeo(
-  coordinates: PointCoordinates | RectangleCoordinates | CircleCoordinates,
+  coordinates: ZoneCoordinates,
   zoneType: string,
   canvasWidth: number,
   canvasHeight: number,
-  bounds: GeographicBounds
+  bounds: GeoFrame
 ): { lat: number; lng: number } {
   switch (zoneType) {
     case 'point':
@@ -147,6 +260,8 @@ export function zoneToGeo(
       return rectangleToGeo(coordinates as RectangleCoordinates, canvasWidth, canvasHeight, bounds);
     case 'circle':
       return circleToGeo(coordinates as CircleCoordinates, canvasWidth, canvasHeight, bounds);
+    case 'polygon':
+      return polygonToGeo(coordinates as PolygonCoordinates, canvasWidth, canvasHeight, bounds);
     default:
       // Default to point conversion
       return pixelToGeo(
@@ -158,3 +273,161 @@ export function zoneToGeo(
       );
   }
 }
+
+/**
+ * A zone projected onto the globe: where its marker goes and its full shape
+ */
+export interface ProjectedZone {
+  center: { lat: number; lng: number };
+  geometry: GeoJSONGeometry;
+  // Circles: radius in meters (their geometry is a polygon approximating the circle)
+  radiusMeters?: number;
+}
+
+/**
+ * Great-circle distance between two positions in meters (haversine formula)
+ */
+export function distanceMeters(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const toRad = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Position reached by travelling `distance` meters from `origin` along `bearing` (degrees from north)
+ */
+function destination(origin: { lat: number; lng: number }, bearing: number, distance: number): { lat: number; lng: number } {
+  const angular = distance / EARTH_RADIUS_METERS;
+  const theta = (bearing * Math.PI) / 180;
+  const lat1 = (origin.lat * Math.PI) / 180;
+  const lng1 = (origin.lng * Math.PI) / 180;
+
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(theta));
+  const lng2 = lng1 + Math.atan2(
+    Math.sin(theta) * Math.sin(angular) * Math.cos(lat1),
+    Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+  );
+
+  return { lat: (lat2 * 180) / Math.PI, lng: (lng2 * 180) / Math.PI };
+}
+
+/**
+ * Closed GeoJSON ring through the given vertices, wound counterclockwise as RFC 7946 asks
+ */
+function toRing(vertices: { lat: number; lng: number }[]): GeoJSONPosition[] {
+  const ring: GeoJSONPosition[] = vertices.map(vertex => [vertex.lng, vertex.lat]);
+
+  let signedArea = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const [x1, y1] = ring[i];
+    const [x2, y2] = ring[(i + 1) % ring.length];
+    signedArea += x1 * y2 - x2 * y1;
+  }
+  if (signedArea < 0) ring.reverse();
+
+  ring.push([ring[0][0], ring[0][1]]);
+  return ring;
+}
+
+/**
+ * Converts circle radius from canvas pixels to meters, measured eastwards from the center
+ */
+export function circleRadiusToMeters(
+  coords: CircleCoordinates,
+  canvasWidth: number,
+  canvasHeight: number,
+  bounds: GeoFrame
+): number {
+  const center = pixelToGeo(coords.x, coords.y, canvasWidth, canvasHeight, bounds);
+  const edge = pixelToGeo(coords.x + coords.radius, coords.y, canvasWidth, canvasHeight, bounds);
+  return distanceMeters(center, edge);
+}
+
+/**
+ * Canvas length of a distance in meters at a position, measured along `bearing`
+ * (degrees from north, east by default); the inverse of circleRadiusToMeters
+ */
+export function metersToPixels(
+  position: { lat: number; lng: number },
+  meters: number,
+  canvasWidth: number,
+  canvasHeight: number,
+  bounds: GeoFrame,
+  bearing = 90
+): number {
+  const from = geoToPixel(position.lat, position.lng, canvasWidth, canvasHeight, bounds);
+  const target = destination(position, bearing, meters);
+  const to = geoToPixel(target.lat, target.lng, canvasWidth, canvasHeight, bounds);
+  return Math.hypot(to.x - from.x, to.y - from.y);
+}
+
+/**
+ * Projects a zone's full shape onto the globe as a GeoJSON geometry: points stay
+ * points, rectangles become their four corners, circles a ring at their radius
+ * in meters and polygons their vertex ring.
+ */
+export function projectZone(
+  coordinates: ZoneCoordinates,
+  zoneType: string,
+  canvasWidth: number,
+  canvasHeight: number,
+  bounds: GeoFrame
+): ProjectedZone {
+  switch (zoneType) {
+    case 'rectangle': {
+      const rect = coordinates as RectangleCoordinates;
+      const corners = [
+        { x: rect.x, y: rect.y },
+        { x: rect.x + rect.width, y: rect.y },
+        { x: rect.x + rect.width, y: rect.y + rect.height },
+        { x: rect.x, y: rect.y + rect.height },
+      ].map(corner => pixelToGeo(corner.x, corner.y, canvasWidth, canvasHeight, bounds));
+      return {
+        center: rectangleToGeo(rect, canvasWidth, canvasHeight, bounds),
+        geometry: { type: 'Polygon', coordinates: [toRing(corners)] },
+      };
+    }
+    case 'circle': {
+      const circle = coordinates as CircleCoordinates;
+      const center = circleToGeo(circle, canvasWidth, canvasHeight, bounds);
+      const radiusMeters = circleRadiusToMeters(circle, canvasWidth, canvasHeight, bounds);
+      const vertices = Array.from({ length: CIRCLE_SEGMENTS }, (_, i) =>
+        destination(center, (i * 360) / CIRCLE_SEGMENTS, radiusMeters)
+      );
+      return {
+        center,
+        geometry: { type: 'Polygon', coordinates: [toRing(vertices)] },
+        radiusMeters,
+      };
+    }
+    case 'polygon': {
+      const polygon = coordinates as PolygonCoordinates;
+      return {
+        center: polygonToGeo(polygon, canvasWidth, canvasHeight, bounds),
+        geometry: {
+          type: 'Polygon',
+          coordinates: [toRing(polygonVerticesToGeo(polygon, canvasWidth, canvasHeight, bounds))],
+        },
+      };
+    }
+    default: {
+      // Points placed on the base map keep their stored lat/lng
+      const point = coordinates as PointCoordinates;
+      const center = point.lat !== undefined && point.lng !== undefined
+        ? { lat: point.lat, lng: point.lng }
+        : pointToGeo(point, canvasWidth, canvasHeight, bounds);
+      return { center, geometry: { type: 'Point', coordinates: [center.lng, center.lat] } };
+    }
+  }
+}
+
+/**
+ * Exterior ring of a projected polygon as lat/lng vertices (without the closing
+ * vertex), or null for point geometries
+ */
+export function geometryOutline(geometry: GeoJSONGeometry): { lat: number; lng: number }[] | null {
+  if (geometry.type !== 'Polygon') return null;
+  return geometry.coordinates[0].slice(0, -1).map(([lng, lat]) => ({ lat, lng }));
+}
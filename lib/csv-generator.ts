@@ -1,13 +1,6 @@
-import { GeographicBounds, CanvasConfig } from './types';
-import { zoneToGeo } from './coordinate-converter';
-
-interface Zone {
-  id: string;
-  type: string;
-  coordinates: string; // JSON string
-  content: string; // JSON string
-  style: string | null; // JSON string
-}
+import { GeographicBounds, CanvasConfig, GeoJSONGeometry, Level, Zone } from './types';
+import { projectZone, zoneToGeo } from './coordinate-converter';
+import { zoneElevation } from './levels';
 
 interface LandmarkCSV {
   name: string;
@@ -21,6 +14,9 @@ interface LandmarkCSV {
   images?: string[];
   links?: Array<{url: string; label?: string}>;
   videos?: string[];
+  geometry?: GeoJSONGeometry; // Full zone shape; lat/lon is where its marker goes
+  height?: number; // Extrusion height of area zones in meters
+  altitude?: number; // Floor elevation in meters for zones on a level of a multi-level map
 }
 
 /**
@@ -36,12 +32,13 @@ export function zonesToCSV(
   if (!geoBounds) {
     throw new Error('Geographic bounds are required to generate CSV for globe');
   }
+  // Georeferenced blueprints convert through their control point fit
+  const frame = canvasConfig.georeference ?? geoBounds;
 
   // Convert zones to landmark objects
   const landmarks: LandmarkCSV[] = zones.map((zone) => {
-    const coordinates = JSON.parse(zone.coordinates);
-    const content = JSON.parse(zone.content);
-    const style = zone.style ? JSON.parse(zone.style) : {};
+    const { coordinates, content } = zone;
+    const style = zone.style ?? {};
 
     // Convert pixel coordinates to lat/lng
     const { lat, lng } = zoneToGeo(
@@ -49,7 +46,7 @@ export function zonesToCSV(
       zone.type,
       canvasConfig.width,
       canvasConfig.height,
-      geoBounds
+      frame
     );
 
     // Build landmark object
@@ -125,12 +122,15 @@ export function zonesToLandmarks(
   canvasConfig: CanvasConfig,
   geoBounds: GeographicBounds | null,
   defaultIcon: string = '',
-  defaultColor: string = '#0066CC'
+  defaultColor: string = '#0066CC',
+  levels: Level[] = []
 ): LandmarkCSV[] {
   if (!geoBounds) {
     console.warn('[zonesToLandmarks] No geographic bounds provided');
     return [];
   }
+  // Georeferenced blueprints convert through their control point fit
+  const frame = canvasConfig.georeference ?? geoBounds;
 
   console.log('[zonesToLandmarks] Converting zones to landmarks:', {
     zonesCount: zones.length,
@@ -139,9 +139,8 @@ export function zonesToLandmarks(
   });
 
   return zones.map((zone, index) => {
-    const coordinates = JSON.parse(zone.coordinates);
-    const content = JSON.parse(zone.content);
-    const style = zone.style ? JSON.parse(zone.style) : {};
+    const { coordinates, content } = zone;
+    const style = zone.style ?? {};
 
     console.log(`[zonesToLandmarks] Zone ${index}:`, {
       type: zone.type,
@@ -149,13 +148,14 @@ export function zonesToLandmarks(
       content: content.title
     });
 
-    const { lat, lng } = zoneToGeo(
+    const { center, geometry } = projectZone(
       coordinates,
       zone.type,
       canvasConfig.width,
       canvasConfig.height,
-      geoBounds
+      frame
     );
+    const { lat, lng } = center;
 
     console.log(`[zonesToLandmarks] Converted to geographic coords:`, { lat, lng });
 
@@ -164,8 +164,18 @@ export function zonesToLandmarks(
       lon: lng,
       lat: lat,
       icon: style.icon || defaultIcon,
+      geometry,
     };
 
+    if (style.height !== undefined) {
+      landmark.height = style.height;
+    }
+
+    const altitude = zoneElevation(zone, levels);
+    if (altitude !== undefined) {
+      landmark.altitude = altitude;
+    }
+
     if (style.color || defaultColor) {
       landmark.color = style.color || defaultColor;
     }
@@ -1,5 +1,6 @@
-import { ZoneContent, ZoneCoordinates, ZoneType } from './types';
-import { geoToPixel } from './coordinate-converter';
+import { GeocodeCandidate, GeocodeItemStatus, GeocodeJob, GeographicBounds, ImportedValues, ZoneContent, ZoneCoordinates, ZoneStyle, ZoneType } from './types';
+import { GeoFrame, geoToPixel, metersToPixels, polygonCentroid } from './coordinate-converter';
+import { parseCSVText } from './csv-parser';
 
 export interface CSVRow {
   [key: string]: string;
@@ -13,9 +14,42 @@ export interface CSVImportOptions {
   latitudeColumn?: string;
   longitudeColumn?: string;
   typeColumn?: string;
+  // Polygon outlines as "lat lng; lat lng; ..." (a comma between lat and lng works too)
+  pointsColumn?: string;
+  // Unique row key, stored as the zone's externalId so a re-import can update the zone (see lib/import-sync)
+  keyColumn?: string;
+  // Media and links; cells may hold several values split by `delimiters.list`
+  imagesColumn?: string;
+  videosColumn?: string;
+  // Link URLs, or "label|url" pairs split by `delimiters.pair`
+  linksColumn?: string;
+  // Labels for the links column's URLs, in the same order
+  linkLabelsColumn?: string;
+  colorColumn?: string;
+  iconColumn?: string;
+  // Circles need a radius, rectangles a width and height, all in meters
+  radiusColumn?: string;
+  widthColumn?: string;
+  heightColumn?: string;
+  // Shape as WKT (POINT, POLYGON or MULTIPOLYGON in "lng lat" order); takes precedence over the other location columns
+  wktColumn?: string;
+  delimiters?: CellDelimiters;
   additionalColumns?: string[];
 }
 
+// How multi-valued cells are split
+export interface CellDelimiters {
+  // Between the values of a list cell; line breaks always separate values too
+  list: string;
+  // Between a link's label and URL
+  pair: string;
+}
+
+export const DEFAULT_CELL_DELIMITERS: CellDelimiters = { list: ';', pair: '|' };
+
+// Size of a circle or rectangle zone in meters
+export type ShapeSize = { radius: number } | { width: number; height: number };
+
 export interface ImportedZone {
   name: string;
   address?: string;
@@ -24,74 +58,63 @@ export interface ImportedZone {
   latitude?: number;
   longitude?: number;
   type?: ZoneType;
+  // Polygon vertices
+  points?: { lat: number; lng: number }[];
+  // Mapped link columns, then hyperlinked spreadsheet cells of the row
+  links?: { label: string; url: string }[];
+  images?: string[];
+  videos?: string[];
+  style?: ZoneStyle;
+  size?: ShapeSize;
+  externalId?: string;
   additionalData?: Record<string, string>;
 }
 
+// Location of an imported GeoJSON feature (or of one part of a multi-part feature)
+export interface ImportedShape {
+  lat: number;
+  lng: number;
+  // Polygon outline, without the closing vertex
+  points?: { lat: number; lng: number }[];
+}
+
+export interface GeoJSONImport {
+  // Feature properties as text, one row per shape, mapped to zone content like CSV columns
+  rows: CSVRow[];
+  shapes: ImportedShape[];
+  // Bounding box of all features (the collection's bbox when present), padded by BOUNDS_PADDING
+  bounds: GeographicBounds | null;
+  // Features without a Point, MultiPoint, Polygon or MultiPolygon geometry
+  skipped: number;
+}
+
 export interface GeocodedZone {
   id: string;
   type: ZoneType;
   coordinates: ZoneCoordinates;
   content: ZoneContent;
+  style?: ZoneStyle;
+  levelId?: string;
   address?: string;
+  // Circles and rectangles waiting for geocoding get their shape once placed
+  size?: ShapeSize;
+  externalId?: string;
+  // Zones of a saved map handed to the editor keep what they last received from a re-import
+  importedValues?: ImportedValues;
   needsGeocoding?: boolean;
+  // Outcome of geocoding the address (set by batchGeocodeZones)
+  geocodeStatus?: GeocodeItemStatus;
+  // Places the address may refer to, best first (set by batchGeocodeZones)
+  geocodeCandidates?: GeocodeCandidate[];
   geoCoords?: { lat: number; lng: number }; // Preserve original geographic coordinates
 }
 
 /**
- * Parse CSV text into array of objects
+ * Parse CSV text into array of objects (see parseCSVFile for large files and
+ * per-row error reporting)
  */
 export function parseCSV(csvText: string): CSVRow[] {
-  const lines = csvText.split('\n').filter(line => line.trim());
-  if (lines.length === 0) return [];
-
-  // Parse headers
-  const headers = parseCSVLine(lines[0]).map(h => h.trim());
-
-  // Parse data rows
-  const data: CSVRow[] = [];
-  for (let i = 1; i < lines.length; i++) {
-    const values = parseCSVLine(lines[i]);
-    const row: CSVRow = {};
-
-    headers.forEach((header, index) => {
-      row[header] = values[index]?.trim() || '';
-    });
-
-    data.push(row);
-  }
-
-  return data;
-}
-
-/**
- * Parse a single CSV line handling quotes and commas
- */
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    const nextChar = line[i + 1];
-
-    if (char === '"') {
-      if (inQuotes && nextChar === '"') {
-        current += '"';
-        i++; // Skip next quote
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (char === ',' && !inQuotes) {
-      result.push(current);
-      current = '';
-    } else {
-      current += char;
-    }
-  }
-
-  result.push(current);
-  return result;
+  return parseCSVText(csvText).rows;
 }
 
 /**
@@ -117,6 +140,23 @@ export function analyzeCsvColumns(data: CSVRow[]): CSVImportOptions {
   const lngPatterns = /^(lon|long|longitude|lng|x|lng_coord|lon_coord|geo_lng|geo_lon)$/i;
   // Common patterns for type columns
   const typePatterns = /^(type|zone_type|kind|class|shape)$/i;
+  // Common patterns for polygon vertex columns
+  const pointsPatterns = /^(points|vertices|polygon|outline|boundary)$/i;
+  // Common patterns for WKT geometry columns
+  const wktPatterns = /^(wkt|geometry|geom|the_geom|shape_wkt)$/i;
+  // Common patterns for media, link and style columns
+  const imagesPatterns = /^(images?|photos?|pictures?|image_urls?)$/i;
+  const videosPatterns = /^(videos?|video_urls?)$/i;
+  const linksPatterns = /^(links?|urls?|website|web|homepage|contenturl)$/i;
+  const linkLabelsPatterns = /^(link_?labels?|link_?text)$/i;
+  const colorPatterns = /^(colou?r|fill|fill_colou?r)$/i;
+  const iconPatterns = /^(icon|symbol|marker)$/i;
+  // Common patterns for shape size columns
+  const radiusPatterns = /^(radius|radius_m|radius_meters)$/i;
+  const widthPatterns = /^(width|width_m|width_meters)$/i;
+  const heightPatterns = /^(height|height_m|height_meters|length)$/i;
+  // Common patterns for row key columns
+  const keyPatterns = /^(id|key|uid|ref|reference|code|external_?id)$/i;
 
   headers.forEach(header => {
     if (!suggestions.nameColumn && namePatterns.test(header)) {
@@ -140,6 +180,42 @@ export function analyzeCsvColumns(data: CSVRow[]): CSVImportOptions {
     if (!suggestions.typeColumn && typePatterns.test(header)) {
       suggestions.typeColumn = header;
     }
+    if (!suggestions.pointsColumn && pointsPatterns.test(header)) {
+      suggestions.pointsColumn = header;
+    }
+    if (!suggestions.keyColumn && keyPatterns.test(header)) {
+      suggestions.keyColumn = header;
+    }
+    if (!suggestions.wktColumn && wktPatterns.test(header)) {
+      suggestions.wktColumn = header;
+    }
+    if (!suggestions.imagesColumn && imagesPatterns.test(header)) {
+      suggestions.imagesColumn = header;
+    }
+    if (!suggestions.videosColumn && videosPatterns.test(header)) {
+      suggestions.videosColumn = header;
+    }
+    if (!suggestions.linksColumn && linksPatterns.test(header)) {
+      suggestions.linksColumn = header;
+    }
+    if (!suggestions.linkLabelsColumn && linkLabelsPatterns.test(header)) {
+      suggestions.linkLabelsColumn = header;
+    }
+    if (!suggestions.colorColumn && colorPatterns.test(header)) {
+      suggestions.colorColumn = header;
+    }
+    if (!suggestions.iconColumn && iconPatterns.test(header)) {
+      suggestions.iconColumn = header;
+    }
+    if (!suggestions.radiusColumn && radiusPatterns.test(header)) {
+      suggestions.radiusColumn = header;
+    }
+    if (!suggestions.widthColumn && widthPatterns.test(header)) {
+      suggestions.widthColumn = header;
+    }
+    if (!suggestions.heightColumn && heightPatterns.test(header)) {
+      suggestions.heightColumn = header;
+    }
   });
 
   // If no name column found, use the first column
@@ -151,16 +227,135 @@ export function analyzeCsvColumns(data: CSVRow[]): CSVImportOptions {
 }
 
 /**
- * Convert CSV data to ImportedZone objects using column mappings
+ * Parse a polygon outline written as "lat lng; lat lng; ..." (or "lat,lng; ...").
+ * Returns null unless there are at least 3 valid vertices.
  */
-export function csvToZones(data: CSVRow[], mappings: CSVImportOptions): ImportedZone[] {
-  return data.map(row => {
-    const zone: ImportedZone = {
-      name: mappings.nameColumn ? row[mappings.nameColumn] : 'Unnamed Zone',
-      address: mappings.addressColumn ? row[mappings.addressColumn] : undefined,
-      description: mappings.descriptionColumn ? row[mappings.descriptionColumn] : undefined,
-      category: mappings.categoryColumn ? row[mappings.categoryColumn] : undefined,
-    };
+export function parsePolygonPoints(value: string): { lat: number; lng: number }[] | null {
+  const points = value
+    .split(';')
+    .map(pair => pair.trim())
+    .filter(pair => pair)
+    .map(pair => {
+      const [lat, lng] = pair.split(/[\s,]+/).map(Number);
+      return { lat, lng };
+    });
+
+  const valid = points.every(point =>
+    Number.isFinite(point.lat) && Number.isFinite(point.lng) &&
+    Math.abs(point.lat) <= 90 && Math.abs(point.lng) <= 180
+  );
+  return valid && points.length >= 3 ? points : null;
+}
+
+/**
+ * Values of a multi-valued cell
+ */
+function splitCell(value: string | undefined, delimiter: string): string[] {
+  if (!value) return [];
+  return value
+    .split(/\r?\n/)
+    .flatMap(line => (delimiter ? line.split(delimiter) : [line]))
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * A cell value as a URL: absolute and site-relative URLs are kept, bare domains
+ * ("example.com/page") get https://, anything else is dropped
+ */
+function cellUrl(value: string): string | null {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(value) || value.startsWith('/')) return value;
+  if (/^[\w-]+(\.[\w-]+)+([/?#]\S*)?$/.test(value)) return `https://${value}`;
+  return null;
+}
+
+/**
+ * Links of a row: URLs or "label|url" pairs from the links column, labelled
+ * from the link labels column when they have no label of their own
+ */
+function rowLinks(row: CSVRow, mappings: CSVImportOptions, delimiters: CellDelimiters): { label: string; url: string }[] {
+  if (!mappings.linksColumn) return [];
+  const labels = mappings.linkLabelsColumn ? splitCell(row[mappings.linkLabelsColumn], delimiters.list) : [];
+
+  return splitCell(row[mappings.linksColumn], delimiters.list).flatMap((value, index) => {
+    const separator = delimiters.pair ? value.indexOf(delimiters.pair) : -1;
+    const label = separator >= 0 ? value.slice(0, separator).trim() : labels[index];
+    const url = cellUrl(separator >= 0 ? value.slice(separator + delimiters.pair.length).trim() : value);
+    return url ? [{ label: label || url, url }] : [];
+  });
+}
+
+/**
+ * A size in meters ("25", "25 m", "12,5"), or undefined unless positive
+ */
+function parseMeters(value: string | undefined): number | undefined {
+  const meters = parseFloat((value ?? '').replace(',', '.'));
+  return meters > 0 ? meters : undefined;
+}
+
+/**
+ * Zone content (name, address, description, category, media, links, style,
+ * extra columns) of a row
+ */
+function rowToZone(row: CSVRow, mappings: CSVImportOptions): ImportedZone {
+  const zone: ImportedZone = {
+    name: mappings.nameColumn ? row[mappings.nameColumn] : 'Unnamed Zone',
+    address: mappings.addressColumn ? row[mappings.addressColumn] : undefined,
+    description: mappings.descriptionColumn ? row[mappings.descriptionColumn] : undefined,
+    category: mappings.categoryColumn ? row[mappings.categoryColumn] : undefined,
+  };
+
+  const key = mappings.keyColumn ? row[mappings.keyColumn]?.trim() : undefined;
+  if (key) zone.externalId = key;
+
+  const delimiters = mappings.delimiters ?? DEFAULT_CELL_DELIMITERS;
+  const urls = (column?: string) => splitCell(column ? row[column] : undefined, delimiters.list)
+    .map(cellUrl)
+    .filter((url): url is string => !!url);
+  if (mappings.imagesColumn) zone.images = urls(mappings.imagesColumn);
+  if (mappings.videosColumn) zone.videos = urls(mappings.videosColumn);
+  if (mappings.linksColumn) zone.links = rowLinks(row, mappings, delimiters);
+
+  const style: ZoneStyle = {};
+  const color = mappings.colorColumn ? row[mappings.colorColumn]?.trim() : undefined;
+  // Spreadsheets often drop the # of hex colors
+  if (color) style.color = /^([0-9a-f]{3}|[0-9a-f]{6})$/i.test(color) ? `#${color}` : color;
+  const icon = mappings.iconColumn ? row[mappings.iconColumn]?.trim() : undefined;
+  if (icon) style.icon = icon;
+  if (style.color || style.icon) zone.style = style;
+
+  // Collect additional columns
+  if (mappings.additionalColumns && mappings.additionalColumns.length > 0) {
+    zone.additionalData = {};
+    mappings.additionalColumns.forEach(col => {
+      if (row[col]) {
+        zone.additionalData![col] = row[col];
+      }
+    });
+  }
+
+  return zone;
+}
+
+/**
+ * Convert CSV data to ImportedZone objects using column mappings. `rowLinks`
+ * holds the hyperlinked cells of each row (spreadsheet imports), which become
+ * the zone's links.
+ */
+export function csvToZones(
+  data: CSVRow[],
+  mappings: CSVImportOptions,
+  rowLinks?: Record<string, { label: string; url: string }>[]
+): ImportedZone[] {
+  return data.map((row, index) => {
+    const zone = rowToZone(row, mappings);
+
+    // Hyperlinked cells come after the mapped links, skipping URLs already there
+    const cellLinks = Object.values(rowLinks?.[index] ?? {})
+      .filter(link => !zone.links?.some(existing => existing.url === link.url));
+    if (cellLinks.length > 0) {
+      zone.links = [...(zone.links ?? []), ...cellLinks];
+    }
 
     if (mappings.latitudeColumn && mappings.longitudeColumn) {
       const lat = parseFloat(row[mappings.latitudeColumn]);
@@ -174,32 +369,267 @@ export function csvToZones(data: CSVRow[], mappings: CSVImportOptions): Imported
 
     if (mappings.typeColumn) {
       const type = row[mappings.typeColumn].toLowerCase();
-      if (type === 'point' || type === 'rectangle' || type === 'circle') {
+      if (type === 'point' || type === 'rectangle' || type === 'circle' || type === 'polygon') {
         zone.type = type as ZoneType;
       }
     }
 
-    // Collect additional columns
-    if (mappings.additionalColumns && mappings.additionalColumns.length > 0) {
-      zone.additionalData = {};
-      mappings.additionalColumns.forEach(col => {
-        if (row[col]) {
-          zone.additionalData![col] = row[col];
-        }
-      });
+    // A WKT shape sets the location, and the outline of polygons
+    const wkt = mappings.wktColumn ? parseWKT(row[mappings.wktColumn] || '') : null;
+    const shape = wkt ? geometryToShapes(wkt)[0] : undefined;
+    if (shape) {
+      zone.latitude = shape.lat;
+      zone.longitude = shape.lng;
+    }
+
+    // Rows with an outline become polygons; polygons without a valid outline fall back to points
+    const points = shape
+      ? shape.points ?? null
+      : mappings.pointsColumn ? parsePolygonPoints(row[mappings.pointsColumn] || '') : null;
+    if (points && (!zone.type || zone.type === 'polygon')) {
+      zone.type = 'polygon';
+      zone.points = points;
+      if (zone.latitude === undefined || zone.longitude === undefined) {
+        const centroid = polygonCentroid(points.map(point => ({ x: point.lng, y: point.lat })));
+        zone.latitude = centroid.y;
+        zone.longitude = centroid.x;
+      }
+    } else if (zone.type === 'polygon') {
+      zone.type = undefined;
+    }
+
+    // Circles need a radius and rectangles a width and height; without them they fall back to points
+    if (zone.type !== 'polygon') {
+      const radius = parseMeters(mappings.radiusColumn ? row[mappings.radiusColumn] : undefined);
+      const width = parseMeters(mappings.widthColumn ? row[mappings.widthColumn] : undefined);
+      const height = parseMeters(mappings.heightColumn ? row[mappings.heightColumn] : undefined);
+      if (radius && (!zone.type || zone.type === 'circle')) {
+        zone.type = 'circle';
+        zone.size = { radius };
+      } else if (width && height && (!zone.type || zone.type === 'rectangle')) {
+        zone.type = 'rectangle';
+        zone.size = { width, height };
+      } else if (zone.type === 'circle' || zone.type === 'rectangle') {
+        zone.type = undefined;
+      }
     }
 
     return zone;
   }).filter(zone => zone.name); // Filter out zones without names
 }
 
+// Share of the feature extent added on each side of GeoJSON bounds, so edge features don't sit on the canvas border
+const BOUNDS_PADDING = 0.05;
+
+function isPosition(value: unknown): value is number[] {
+  return Array.isArray(value) && value.length >= 2 &&
+    typeof value[0] === 'number' && typeof value[1] === 'number' &&
+    Math.abs(value[0]) <= 180 && Math.abs(value[1]) <= 90;
+}
+
+/**
+ * Exterior ring of a GeoJSON polygon as zone vertices. Holes are dropped.
+ * Returns null unless the ring has at least 3 distinct vertices.
+ */
+function ringToPoints(rings: unknown): { lat: number; lng: number }[] | null {
+  if (!Array.isArray(rings) || !Array.isArray(rings[0]) || !rings[0].every(isPosition)) return null;
+  const ring = rings[0] as number[][];
+  const points = ring.map(([lng, lat]) => ({ lat, lng }));
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (points.length > 1 && first.lat === last.lat && first.lng === last.lng) points.pop();
+  return points.length >= 3 ? points : null;
+}
+
+function polygonShape(points: { lat: number; lng: number }[]): ImportedShape {
+  const centroid = polygonCentroid(points.map(point => ({ x: point.lng, y: point.lat })));
+  return { lat: centroid.y, lng: centroid.x, points };
+}
+
+/**
+ * Shapes of a GeoJSON geometry. Multi-part geometries become one shape per part.
+ */
+function geometryToShapes(geometry: unknown): ImportedShape[] {
+  if (!geometry || typeof geometry !== 'object') return [];
+  const { type, coordinates } = geometry as { type?: unknown; coordinates?: unknown };
+
+  switch (type) {
+    case 'Point':
+      return isPosition(coordinates) ? [{ lat: coordinates[1], lng: coordinates[0] }] : [];
+    case 'MultiPoint':
+      return Array.isArray(coordinates)
+        ? coordinates.filter(isPosition).map(([lng, lat]) => ({ lat, lng }))
+        : [];
+    case 'Polygon': {
+      const points = ringToPoints(coordinates);
+      return points ? [polygonShape(points)] : [];
+    }
+    case 'MultiPolygon':
+      return Array.isArray(coordinates)
+        ? coordinates.flatMap(polygon => {
+          const points = ringToPoints(polygon);
+          return points ? [polygonShape(points)] : [];
+        })
+        : [];
+    default:
+      return [];
+  }
+}
+
+const WKT_TYPES: Record<string, string> = {
+  POINT: 'Point',
+  MULTIPOINT: 'MultiPoint',
+  POLYGON: 'Polygon',
+  MULTIPOLYGON: 'MultiPolygon',
+};
+
+/**
+ * A WKT value (POINT, MULTIPOINT, POLYGON or MULTIPOLYGON, optionally with an
+ * "SRID=4326;" prefix and Z or M values) as a GeoJSON geometry, or null
+ */
+export function parseWKT(value: string): { type: string; coordinates: unknown } | null {
+  const match = /^\s*(?:SRID=\d+;\s*)?([a-z]+?)\s*(?:zm|z|m)?\s*(\([\s\S]*\))\s*$/i.exec(value);
+  const type = match ? WKT_TYPES[match[1].toUpperCase()] : undefined;
+  if (!match || !type) return null;
+
+  // "(x y z, ...)" to JSON arrays: each whitespace-separated run of numbers is a position
+  const json = match[2]
+    .replace(/-?\d+(?:\.\d+)?(?:e[-+]?\d+)?(?:\s+-?\d+(?:\.\d+)?(?:e[-+]?\d+)?)+/gi, position => `[${position.trim().split(/\s+/).join(',')}]`)
+    .replace(/\(/g, '[')
+    .replace(/\)/g, ']');
+
+  let coordinates: unknown;
+  try {
+    coordinates = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(coordinates)) return null;
+
+  // Points are wrapped in their own parentheses, as are the members of "MULTIPOINT ((x y), ...)"
+  if (type === 'Point') return { type, coordinates: coordinates[0] };
+  if (type === 'MultiPoint') {
+    return { type, coordinates: coordinates.map(point => (Array.isArray(point) && Array.isArray(point[0]) ? point[0] : point)) };
+  }
+  return { type, coordinates };
+}
+
+/**
+ * Feature properties as text columns (nested values are kept as JSON)
+ */
+function propertiesToRow(properties: unknown): CSVRow {
+  const row: CSVRow = {};
+  if (!properties || typeof properties !== 'object') return row;
+  for (const [key, value] of Object.entries(properties)) {
+    if (value === null || value === undefined) {
+      row[key] = '';
+    } else if (typeof value === 'object') {
+      row[key] = JSON.stringify(value);
+    } else {
+      row[key] = String(value).trim();
+    }
+  }
+  return row;
+}
+
+/**
+ * [minLng, minLat, maxLng, maxLat] of a GeoJSON bbox (2D or 3D), or null
+ */
+function parseBbox(bbox: unknown): [number, number, number, number] | null {
+  if (!Array.isArray(bbox) || !bbox.every(value => typeof value === 'number')) return null;
+  if (bbox.length === 4) return [bbox[0], bbox[1], bbox[2], bbox[3]];
+  if (bbox.length === 6) return [bbox[0], bbox[1], bbox[3], bbox[4]];
+  return null;
+}
+
+/**
+ * Parse a GeoJSON FeatureCollection (or a single Feature) into rows of
+ * properties and their shapes. Throws when the text isn't GeoJSON.
+ */
+export function parseGeoJSON(text: string): GeoJSONImport {
+  const json = JSON.parse(text) as { type?: unknown; features?: unknown; bbox?: unknown };
+  const features = json.type === 'FeatureCollection' && Array.isArray(json.features)
+    ? json.features
+    : json.type === 'Feature' ? [json] : null;
+  if (!features) {
+    throw new Error('Expected a GeoJSON FeatureCollection or Feature');
+  }
+
+  const rows: CSVRow[] = [];
+  const shapes: ImportedShape[] = [];
+  let skipped = 0;
+
+  for (const feature of features) {
+    const { geometry, properties } = (feature ?? {}) as { geometry?: unknown; properties?: unknown };
+    const featureShapes = geometryToShapes(geometry);
+    if (featureShapes.length === 0) {
+      skipped++;
+      continue;
+    }
+    const row = propertiesToRow(properties);
+    featureShapes.forEach(shape => {
+      rows.push({ ...row });
+      shapes.push(shape);
+    });
+  }
+
+  // Every row gets every column, so the mapping step sees them all
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  rows.forEach(row => columns.forEach(column => {
+    row[column] ??= '';
+  }));
+
+  const positions = shapes.flatMap(shape => shape.points ?? [shape]);
+  const bbox = parseBbox(json.bbox);
+  let bounds: GeographicBounds | null = bbox
+    ? { minLng: bbox[0], minLat: bbox[1], maxLng: bbox[2], maxLat: bbox[3] }
+    : positions.length > 0
+      ? {
+        minLat: Math.min(...positions.map(p => p.lat)),
+        maxLat: Math.max(...positions.map(p => p.lat)),
+        minLng: Math.min(...positions.map(p => p.lng)),
+        maxLng: Math.max(...positions.map(p => p.lng)),
+      }
+      : null;
+
+  if (bounds) {
+    // A single point has no extent: give it roughly 100 m around it
+    const latPad = Math.max((bounds.maxLat - bounds.minLat) * BOUNDS_PADDING, 0.001);
+    const lngPad = Math.max((bounds.maxLng - bounds.minLng) * BOUNDS_PADDING, 0.001);
+    bounds = {
+      minLat: Math.max(bounds.minLat - latPad, -85),
+      maxLat: Math.min(bounds.maxLat + latPad, 85),
+      minLng: Math.max(bounds.minLng - lngPad, -180),
+      maxLng: Math.min(bounds.maxLng + lngPad, 180),
+    };
+  }
+
+  return { rows, shapes, bounds, skipped };
+}
+
+/**
+ * Convert parsed GeoJSON to ImportedZone objects. Content comes from the
+ * property mappings; locations always come from the feature geometry.
+ */
+export function geoJsonToZones(data: GeoJSONImport, mappings: CSVImportOptions): ImportedZone[] {
+  return data.rows.map((row, index) => {
+    const shape = data.shapes[index];
+    const zone = rowToZone(row, mappings);
+    zone.latitude = shape.lat;
+    zone.longitude = shape.lng;
+    zone.type = shape.points ? 'polygon' : 'point';
+    if (shape.points) zone.points = shape.points;
+    return zone;
+  }).filter(zone => zone.name);
+}
+
 /**
  * Convert geographic coordinates to canvas coordinates using Web Mercator projection
  */
 export function geoToCanvasCoordinates(
   lat: number,
   lng: number,
-  geoBounds: { minLat: number; maxLat: number; minLng: number; maxLng: number },
+  geoBounds: GeoFrame,
   canvasWidth: number,
   canvasHeight: number
 ): { x: number; y: number } {
@@ -207,29 +637,84 @@ export function geoToCanvasCoordinates(
   return geoToPixel(lat, lng, canvasWidth, canvasHeight, geoBounds);
 }
 
+/**
+ * Canvas shape of a zone at a geographic position: polygons through their
+ * vertices, circles and rectangles at their size in meters. Without a
+ * geographic frame to measure sizes with, circles and rectangles become points.
+ */
+function placeZone(
+  zone: { points?: { lat: number; lng: number }[]; size?: ShapeSize },
+  position: { lat: number; lng: number },
+  toCanvas: (lat: number, lng: number) => { x: number; y: number },
+  frame: GeoFrame | null,
+  canvasWidth: number,
+  canvasHeight: number
+): { type: ZoneType; coordinates: ZoneCoordinates } {
+  if (zone.points) {
+    // Vertices keep their geographic position alongside the canvas one
+    return {
+      type: 'polygon',
+      coordinates: { points: zone.points.map(point => ({ ...toCanvas(point.lat, point.lng), lat: point.lat, lng: point.lng })) },
+    };
+  }
+
+  const center = toCanvas(position.lat, position.lng);
+  if (frame && zone.size && 'radius' in zone.size) {
+    const radius = metersToPixels(position, zone.size.radius, canvasWidth, canvasHeight, frame);
+    return { type: 'circle', coordinates: { ...center, radius } };
+  }
+  if (frame && zone.size && 'width' in zone.size) {
+    const halfWidth = metersToPixels(position, zone.size.width / 2, canvasWidth, canvasHeight, frame, 90);
+    const halfHeight = metersToPixels(position, zone.size.height / 2, canvasWidth, canvasHeight, frame, 0);
+    return {
+      type: 'rectangle',
+      coordinates: { x: center.x - halfWidth, y: center.y - halfHeight, width: halfWidth * 2, height: halfHeight * 2 },
+    };
+  }
+  return { type: 'point', coordinates: center };
+}
+
 /**
  * Convert imported zones to GeocodedZone format for the zone editor
  */
 export function prepareZonesForCanvas(
   zones: ImportedZone[],
-  geoBounds: { minLat: number; maxLat: number; minLng: number; maxLng: number } | null,
+  geoBounds: GeoFrame | null,
   canvasWidth: number,
   canvasHeight: number
 ): GeocodedZone[] {
+  const toCanvas = (lat: number, lng: number) => {
+    if (geoBounds) {
+      return geoToCanvasCoordinates(lat, lng, geoBounds, canvasWidth, canvasHeight);
+    }
+
+    // If no geoBounds, distribute zones across canvas based on relative positions
+    // This is a fallback for when coords are provided but no geographic bounds set
+    const normalizedLng = (lng + 180) / 360; // Normalize to 0-1
+    const normalizedLat = (90 - lat) / 180; // Normalize and flip
+
+    return {
+      x: normalizedLng * canvasWidth * 0.8 + canvasWidth * 0.1, // Add 10% margin
+      y: normalizedLat * canvasHeight * 0.8 + canvasHeight * 0.1,
+    };
+  };
+
   return zones.map((zone, index) => {
     const geocodedZone: GeocodedZone = {
       id: Math.random().toString(36).substr(2, 9),
-      type: zone.type || 'point',
+      type: 'point',
       coordinates: { x: 0, y: 0 }, // Will be updated
       content: {
         title: zone.name,
         description: zone.description || '',
         category: zone.category,
-        images: [],
-        videos: [],
-        links: [],
+        images: zone.images ?? [],
+        videos: zone.videos ?? [],
+        links: zone.links ?? [],
       },
+      ...(zone.style && { style: zone.style }),
       address: zone.address,
+      ...(zone.externalId && { externalId: zone.externalId }),
     };
 
     // If we have coordinates, convert them to canvas coordinates
@@ -237,30 +722,20 @@ export function prepareZonesForCanvas(
       // Preserve geographic coordinates
       geocodedZone.geoCoords = { lat: zone.latitude, lng: zone.longitude };
 
-      if (geoBounds) {
-        // Convert geographic coordinates to canvas coordinates
-        const canvasCoords = geoToCanvasCoordinates(
-          zone.latitude,
-          zone.longitude,
-          geoBounds,
-          canvasWidth,
-          canvasHeight
-        );
-        geocodedZone.coordinates = canvasCoords;
-      } else {
-        // If no geoBounds, distribute zones across canvas based on relative positions
-        // This is a fallback for when coords are provided but no geographic bounds set
-        const normalizedLng = (zone.longitude + 180) / 360; // Normalize to 0-1
-        const normalizedLat = (90 - zone.latitude) / 180; // Normalize and flip
-
-        geocodedZone.coordinates = {
-          x: normalizedLng * canvasWidth * 0.8 + canvasWidth * 0.1, // Add 10% margin
-          y: normalizedLat * canvasHeight * 0.8 + canvasHeight * 0.1,
-        };
-      }
+      const placed = placeZone(
+        { points: zone.type === 'polygon' ? zone.points : undefined, size: zone.size },
+        geocodedZone.geoCoords,
+        toCanvas,
+        geoBounds,
+        canvasWidth,
+        canvasHeight
+      );
+      geocodedZone.type = placed.type;
+      geocodedZone.coordinates = placed.coordinates;
     } else if (zone.address) {
       // Mark for geocoding if we only have an address
       geocodedZone.needsGeocoding = true;
+      if (zone.size) geocodedZone.size = zone.size;
       // Place temporarily in a grid pattern
       const cols = Math.ceil(Math.sqrt(zones.length));
       const row = Math.floor(index / cols);
@@ -298,107 +773,170 @@ export function prepareZonesForCanvas(
   });
 }
 
+// How often a running geocoding job is polled
+const GEOCODE_POLL_MS = 1000;
+const GEOCODE_JOB_STORAGE_PREFIX = 'geocode-job:';
+
 /**
- * Geocode an address using our server-side API to avoid CORS issues
+ * Short key of an address list (FNV-1a hash and length), to find the job started for it
  */
-export async function geocodeAddress(address: string): Promise<{ lat: number; lng: number } | null> {
-  try {
-    const response = await fetch('/api/geocode', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ address }),
-    });
-
-    const data = await response.json();
+function addressListKey(addresses: string[]): string {
+  let hash = 0x811c9dc5;
+  for (const char of addresses.join('\n')) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193) >>> 0;
+  }
+  return `${addresses.length}-${hash.toString(16)}`;
+}
 
-    if (response.status === 404) {
-      // Address not found is not an error, just log it as info
-      console.log(`Address not found: "${address}"`);
-      return null;
+/**
+ * Wait `ms` milliseconds; rejects with the signal's reason when it is aborted first
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
     }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
 
-    if (!response.ok) {
-      console.error('Geocoding service error:', response.statusText, data.error);
-      return null;
-    }
+async function requestGeocodeJob(url: string, init?: RequestInit): Promise<GeocodeJob | null> {
+  const response = await fetch(url, init);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Geocoding job request failed: ${response.status}`);
+  }
+  return response.json();
+}
 
-    if (data.error) {
-      console.error('Geocoding error:', data.error);
-      return null;
+/**
+ * The server job geocoding these addresses: the one started earlier for the
+ * same list and bounds, so closing the dialog or the tab doesn't lose its
+ * progress, or a new one. `retryFailed` queues the failed and not found
+ * addresses again.
+ */
+async function geocodeJobFor(
+  addresses: string[],
+  bounds: GeographicBounds | undefined,
+  retryFailed: boolean,
+  signal?: AbortSignal
+): Promise<GeocodeJob> {
+  const storageKey = GEOCODE_JOB_STORAGE_PREFIX + addressListKey(addresses);
+  const jobId = localStorage.getItem(storageKey);
+
+  if (jobId) {
+    const job = await requestGeocodeJob(
+      retryFailed ? `/api/geocode/batch/${jobId}/retry` : `/api/geocode/batch/${jobId}`,
+      { method: retryFailed ? 'POST' : 'GET', signal }
+    );
+    if (
+      job
+      && JSON.stringify(job.bounds) === JSON.stringify(bounds)
+      && job.items.length === addresses.length
+      && job.items.every((item, index) => item.address === addresses[index])
+    ) {
+      return job;
     }
-
-    console.log(`✓ Geocoded successfully: "${address}" → [${data.lat}, ${data.lng}]`);
-    return {
-      lat: data.lat,
-      lng: data.lng,
-    };
-  } catch (error) {
-    console.error('Geocoding request failed:', error);
-    return null;
   }
+
+  const job = await requestGeocodeJob('/api/geocode/batch', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ addresses, bounds }),
+    signal,
+  });
+  if (!job) throw new Error('Failed to start geocoding');
+  localStorage.setItem(storageKey, job.id);
+  return job;
 }
 
 /**
- * Batch geocode multiple zones with addresses
- * Includes rate limiting to respect Nominatim's usage policy
+ * Geocode the zones waiting for it on the server, as one job polled until
+ * done. Each zone gets its geocodeStatus and candidates; found ones are placed
+ * on the canvas at the best candidate, or the one picked in `candidateChoices`
+ * (index by address), which also settles an ambiguous address. The server
+ * caches answers and spaces out requests per provider, and keeps going if the
+ * page is closed: importing the same addresses again resumes.
  */
 export async function batchGeocodeZones(
   zones: GeocodedZone[],
-  geoBounds: { minLat: number; maxLat: number; minLng: number; maxLng: number } | null,
+  geoBounds: GeoFrame | null,
   canvasWidth: number,
   canvasHeight: number,
-  onProgress?: (current: number, total: number, currentAddress?: string) => void
+  onProgress?: (current: number, total: number, currentAddress?: string) => void,
+  options: {
+    retryFailed?: boolean;
+    // Candidates inside these bounds are preferred
+    bounds?: GeographicBounds;
+    candidateChoices?: Record<string, number>;
+    // Stops polling (the job keeps going on the server); the returned promise rejects
+    signal?: AbortSignal;
+  } = {}
 ): Promise<GeocodedZone[]> {
   const geocodedZones = [...zones];
   const zonesToGeocode = geocodedZones.filter(z => z.needsGeocoding && z.address);
 
   if (zonesToGeocode.length === 0) {
-    console.log('No addresses need geocoding');
     return geocodedZones;
   }
 
-  console.log(`Starting geocoding for ${zonesToGeocode.length} addresses...`);
-  let successCount = 0;
-  let failCount = 0;
-
-  for (let i = 0; i < zonesToGeocode.length; i++) {
-    const zone = zonesToGeocode[i];
-
-    if (zone.address) {
-      // Report progress before starting
-      if (onProgress) {
-        onProgress(i + 1, zonesToGeocode.length, zone.address);
-      }
-
-      // Add delay to respect rate limits (1 request per second)
-      if (i > 0) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
-
-      const coords = await geocodeAddress(zone.address);
-
-      if (coords && geoBounds) {
-        const canvasCoords = geoToCanvasCoordinates(
-          coords.lat,
-          coords.lng,
-          geoBounds,
-          canvasWidth,
-          canvasHeight
-        );
-
-        zone.coordinates = canvasCoords;
-        zone.geoCoords = { lat: coords.lat, lng: coords.lng }; // Preserve geographic coordinates
-        zone.needsGeocoding = false;
-        successCount++;
-      } else {
-        failCount++;
-      }
+  // Rows sharing an address are geocoded once
+  const addresses = [...new Set(zonesToGeocode.map(zone => zone.address!.trim()))];
+
+  const { signal } = options;
+  let job = await geocodeJobFor(addresses, options.bounds, !!options.retryFailed, signal);
+  // Polls only return the items changed since the previous one
+  const items = new Map(job.items.map(item => [item.index, item]));
+  while (job.status !== 'done') {
+    const pending = [...items.values()].find(item => item.status === 'pending');
+    onProgress?.(job.processed, job.total, pending?.address);
+    await delay(GEOCODE_POLL_MS, signal);
+    const next = await requestGeocodeJob(`/api/geocode/batch/${job.id}?since=${encodeURIComponent(job.cursor)}`, { signal });
+    if (!next) throw new Error('Geocoding job was cancelled');
+    next.items.forEach(item => items.set(item.index, item));
+    job = next;
+  }
+  onProgress?.(job.total, job.total);
+
+  const answers = new Map([...items.values()].map(item => [item.address, item]));
+
+  for (const zone of zonesToGeocode) {
+    const address = zone.address!.trim();
+    const answer = answers.get(address);
+    const choice = options.candidateChoices?.[address];
+    const chosen = choice !== undefined ? answer?.candidates?.[choice] : undefined;
+    zone.geocodeStatus = chosen ? 'ok' : answer?.status ?? 'error';
+    zone.geocodeCandidates = answer?.candidates;
+
+    const coords = chosen
+      ? { lat: chosen.lat, lng: chosen.lng }
+      : answer?.lat !== undefined && answer.lng !== undefined ? { lat: answer.lat, lng: answer.lng } : undefined;
+    if (coords && geoBounds) {
+      const placed = placeZone(
+        { size: zone.size },
+        coords,
+        (lat, lng) => geoToCanvasCoordinates(lat, lng, geoBounds, canvasWidth, canvasHeight),
+        geoBounds,
+        canvasWidth,
+        canvasHeight
+      );
+
+      zone.type = placed.type;
+      zone.coordinates = placed.coordinates;
+      zone.geoCoords = coords; // Preserve geographic coordinates
+      zone.needsGeocoding = false;
     }
   }
 
-  console.log(`\nGeocoding complete: ✅ ${successCount} successful, ❌ ${failCount} failed (out of ${zonesToGeocode.length} total)`);
-
   return geocodedZones;
 }
\ No newline at end of file
@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { detectDelimiter, parseCSVFile, parseCSVText, uniqueHeaders } from './csv-parser';
+
+describe('parseCSVText', () => {
+  it('keeps delimiters, doubled quotes and line breaks inside quoted fields', () => {
+    const result = parseCSVText('name,notes\n"Hall, A","Said ""hi""\nthen left"\n', ',');
+
+    assert.deepEqual(result.rows, [{ name: 'Hall, A', notes: 'Said "hi"\nthen left' }]);
+    assert.equal(result.errorCount, 0);
+  });
+
+  it('accepts CRLF, LF and CR record ends and normalizes quoted line breaks to LF', () => {
+    const result = parseCSVText('a,b\r\n1,"x\r\ny"\r2,z\n3,w', ',');
+
+    assert.deepEqual(result.rows, [
+      { a: '1', b: 'x\ny' },
+      { a: '2', b: 'z' },
+      { a: '3', b: 'w' },
+    ]);
+  });
+
+  it('skips blank lines', () => {
+    const result = parseCSVText('a,b\n\n1,2\n  \n', ',');
+
+    assert.deepEqual(result.rows, [{ a: '1', b: '2' }]);
+  });
+
+  it('reports rows with the wrong field count on the line they start on, and pads them', () => {
+    const result = parseCSVText('a,b\n"multi\nline",2\n3\n', ',');
+
+    assert.deepEqual(result.rows[1], { a: '3', b: '' });
+    assert.deepEqual(result.errors, [{ line: 4, message: 'Expected 2 fields but found 1' }]);
+  });
+
+  it('reports stray and unclosed quotes', () => {
+    const stray = parseCSVText('a,b\n1 "x",2\n', ',');
+    const unclosed = parseCSVText('a,b\n1,"open\n', ',');
+
+    assert.equal(stray.errors[0].message, 'Quote inside an unquoted field');
+    assert.equal(unclosed.errors[0].message, 'Quoted field is never closed');
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('picks the delimiter that splits every line alike, ignoring quoted ones', () => {
+    assert.equal(detectDelimiter('a;b;c\n"1,5";2;3\n4;5;6\n'), ';');
+    assert.equal(detectDelimiter('a\tb\n1\t2\n3\t4\n'), '\t');
+  });
+
+  it('falls back to a comma', () => {
+    assert.equal(detectDelimiter('single column\nvalue\n'), ',');
+  });
+});
+
+describe('uniqueHeaders', () => {
+  it('names blank columns and numbers repeated ones', () => {
+    assert.deepEqual(uniqueHeaders(['\uFEFFname', '', 'name', 'name']), ['name', 'Column 2', 'name (2)', 'name (3)']);
+  });
+});
+
+describe('parseCSVFile', () => {
+  it('drops a UTF-8 byte order mark', async () => {
+    const file = new Blob([new Uint8Array([0xef, 0xbb, 0xbf]), 'city,country\nZürich,CH\n']);
+    const result = await parseCSVFile(file);
+
+    assert.equal(result.encoding, 'utf-8');
+    assert.deepEqual(result.headers, ['city', 'country']);
+    assert.deepEqual(result.rows, [{ city: 'Zürich', country: 'CH' }]);
+  });
+
+  it('reads UTF-16 files announced by their byte order mark', async () => {
+    const text = Buffer.from('city;country\nKöln;DE\n', 'utf16le');
+    const result = await parseCSVFile(new Blob([new Uint8Array([0xff, 0xfe]), text]));
+
+    assert.equal(result.encoding, 'utf-16le');
+    assert.deepEqual(result.rows, [{ city: 'Köln', country: 'DE' }]);
+  });
+
+  it('falls back to Windows-1252 when the file is not valid UTF-8', async () => {
+    // "Café,€5" as Excel writes it on Western systems
+    const bytes = new Uint8Array([...Buffer.from('name,price\nCaf'), 0xe9, 0x2c, 0x80, 0x35, 0x0a]);
+    const result = await parseCSVFile(new Blob([bytes]));
+
+    assert.equal(result.encoding, 'windows-1252');
+    assert.deepEqual(result.rows, [{ name: 'Café', price: '€5' }]);
+  });
+});
@@ -0,0 +1,285 @@
+import type { CSVRow } from './csv-importer';
+
+/**
+ * RFC 4180 CSV parsing that streams large files in chunks: quoted fields may
+ * hold delimiters, doubled quotes and line breaks; records end with CRLF, LF
+ * or CR. Malformed rows are kept (padded or truncated to the header) and
+ * reported with the line they start on.
+ */
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+// Bytes decoded and parsed between yields to the browser
+const CHUNK_SIZE = 1024 * 1024;
+// Problems beyond this are only counted
+const MAX_REPORTED_ERRORS = 100;
+// Lines sampled to guess the delimiter
+const DELIMITER_SAMPLE_LINES = 20;
+
+export interface CSVRowError {
+  // Line of the file the record starts on (the header is line 1)
+  line: number;
+  message: string;
+}
+
+export interface CSVParseResult {
+  headers: string[];
+  rows: CSVRow[];
+  delimiter: string;
+  encoding: string;
+  // The first MAX_REPORTED_ERRORS problems; errorCount has the total
+  errors: CSVRowError[];
+  errorCount: number;
+}
+
+type RecordHandler = (fields: string[], line: number, error?: string) => void;
+
+/**
+ * Incremental RFC 4180 tokenizer: feed it text in any chunk sizes, it calls
+ * back once per record. Blank lines are skipped.
+ */
+class CSVTokenizer {
+  private field = '';
+  private fields: string[] = [];
+  // 'start': at the beginning of a field; 'closing': just read a quote inside a quoted field
+  private state: 'start' | 'unquoted' | 'quoted' | 'closing' = 'start';
+  private skipLineFeed = false;
+  private line = 1;
+  private recordLine = 1;
+  private error: string | undefined;
+
+  constructor(private readonly delimiter: string, private readonly onRecord: RecordHandler) {}
+
+  write(text: string) {
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      // The LF of a CRLF pair was already handled with its CR
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+      const lineBreak = char === '\n' || char === '\r';
+      if (char === '\r') this.skipLineFeed = true;
+
+      if (this.state === 'quoted') {
+        if (char === '"') {
+          this.state = 'closing';
+        } else {
+          // Line breaks inside quoted fields are kept, normalized to LF
+          this.field += lineBreak ? '\n' : char;
+          if (lineBreak) this.line++;
+        }
+        continue;
+      }
+
+      if (this.state === 'closing') {
+        if (char === '"') {
+          this.field += '"';
+          this.state = 'quoted';
+          continue;
+        }
+        if (char !== this.delimiter && !lineBreak) {
+          this.error ??= 'Unexpected text after a closing quote';
+          this.field += char;
+          this.state = 'unquoted';
+          continue;
+        }
+      }
+
+      if (char === this.delimiter) {
+        this.endField();
+      } else if (lineBreak) {
+        this.line++;
+        this.endRecord();
+      } else if (char === '"' && this.state === 'start') {
+        this.state = 'quoted';
+      } else {
+        if (char === '"') this.error ??= 'Quote inside an unquoted field';
+        this.field += char;
+        this.state = 'unquoted';
+      }
+    }
+  }
+
+  end() {
+    if (this.state === 'quoted') {
+      this.error ??= 'Quoted field is never closed';
+    }
+    if (this.state !== 'start' || this.fields.length > 0) {
+      this.endRecord();
+    }
+  }
+
+  private endField() {
+    this.fields.push(this.field);
+    this.field = '';
+    this.state = 'start';
+  }
+
+  private endRecord() {
+    this.endField();
+    const fields = this.fields;
+    const blank = fields.every(field => field.trim() === '');
+    if (!blank || this.error) {
+      this.onRecord(fields, this.recordLine, this.error);
+    }
+    this.fields = [];
+    this.error = undefined;
+    this.recordLine = this.line;
+  }
+}
+
+/**
+ * Guess the delimiter from the first lines of a file: the candidate that splits
+ * the most lines into the same number of fields as the header (quotes respected)
+ */
+export function detectDelimiter(sample: string): string {
+  const lines = sample.split(/\r\n|\n|\r/).filter(line => line.trim()).slice(0, DELIMITER_SAMPLE_LINES);
+  if (lines.length > 1) lines.pop(); // The last sampled line may be cut off
+
+  let best = { delimiter: ',', consistent: 0, fields: 0 };
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = lines.map(line => {
+      let count = 0;
+      let quoted = false;
+      for (const char of line) {
+        if (char === '"') quoted = !quoted;
+        else if (char === delimiter && !quoted) count++;
+      }
+      return count;
+    });
+    if (counts.length === 0 || counts[0] === 0) continue;
+
+    const consistent = counts.filter(count => count === counts[0]).length;
+    if (consistent > best.consistent || (consistent === best.consistent && counts[0] > best.fields)) {
+      best = { delimiter, consistent, fields: counts[0] };
+    }
+  }
+  return best.delimiter;
+}
+
+/**
+ * Text encoding announced by a byte order mark; UTF-8 otherwise
+ */
+function detectEncoding(head: Uint8Array): string {
+  if (head[0] === 0xef && head[1] === 0xbb && head[2] === 0xbf) return 'utf-8';
+  if (head[0] === 0xff && head[1] === 0xfe) return 'utf-16le';
+  if (head[0] === 0xfe && head[1] === 0xff) return 'utf-16be';
+  return 'utf-8';
+}
+
+/**
+ * Column names from a header row. Blank and repeated names get a unique name,
+ * so no column is lost.
+ */
+export function uniqueHeaders(fields: string[]): string[] {
+  const seen = new Set<string>();
+  return fields.map((field, index) => {
+    const base = field.replace(/^\uFEFF/, '').trim() || `Column ${index + 1}`;
+    let header = base;
+    for (let n = 2; seen.has(header); n++) header = `${base} (${n})`;
+    seen.add(header);
+    return header;
+  });
+}
+
+/**
+ * Collects tokenized records into rows keyed by the header
+ */
+function createRowCollector(delimiter: string, encoding: string) {
+  const result: CSVParseResult = { headers: [], rows: [], delimiter, encoding, errors: [], errorCount: 0 };
+
+  const report = (line: number, message: string) => {
+    result.errorCount++;
+    if (result.errors.length < MAX_REPORTED_ERRORS) result.errors.push({ line, message });
+  };
+
+  const onRecord: RecordHandler = (fields, line, error) => {
+    if (result.headers.length === 0) {
+      result.headers = uniqueHeaders(fields);
+      if (error) report(line, error);
+      return;
+    }
+
+    if (error) {
+      report(line, error);
+    } else if (fields.length !== result.headers.length) {
+      report(line, `Expected ${result.headers.length} fields but found ${fields.length}`);
+    }
+
+    const row: CSVRow = {};
+    result.headers.forEach((header, index) => {
+      row[header] = fields[index]?.trim() || '';
+    });
+    result.rows.push(row);
+  };
+
+  return { result, onRecord };
+}
+
+/**
+ * Parse CSV text in one go (delimiter detected unless given)
+ */
+export function parseCSVText(text: string, delimiter: string = detectDelimiter(text.slice(0, 64 * 1024))): CSVParseResult {
+  const { result, onRecord } = createRowCollector(delimiter, 'utf-8');
+  const tokenizer = new CSVTokenizer(delimiter, onRecord);
+  tokenizer.write(text);
+  tokenizer.end();
+  return result;
+}
+
+async function parseBlob(
+  file: Blob,
+  encoding: string,
+  onProgress?: (loaded: number, total: number) => void
+): Promise<CSVParseResult> {
+  // Invalid UTF-8 throws, so the caller can retry as Windows-1252
+  const decoder = new TextDecoder(encoding, { fatal: encoding === 'utf-8' });
+  let collector: ReturnType<typeof createRowCollector> | null = null;
+  let tokenizer: CSVTokenizer | null = null;
+
+  for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+    const bytes = new Uint8Array(await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer());
+    const text = decoder.decode(bytes, { stream: true });
+
+    if (!tokenizer) {
+      const delimiter = detectDelimiter(text);
+      collector = createRowCollector(delimiter, encoding);
+      tokenizer = new CSVTokenizer(delimiter, collector.onRecord);
+    }
+    tokenizer.write(text);
+
+    onProgress?.(Math.min(offset + CHUNK_SIZE, file.size), file.size);
+    // Let the browser paint and handle input between chunks
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  if (!tokenizer || !collector) {
+    return parseCSVText('');
+  }
+  tokenizer.write(decoder.decode());
+  tokenizer.end();
+  return collector.result;
+}
+
+/**
+ * Parse a CSV file chunk by chunk without blocking the page. The encoding comes
+ * from the byte order mark, else UTF-8, falling back to Windows-1252 (what
+ * Excel writes for "CSV" on Western systems, a superset of Latin-1) when the
+ * file isn't valid UTF-8.
+ */
+export async function parseCSVFile(
+  file: Blob,
+  onProgress?: (loaded: number, total: number) => void
+): Promise<CSVParseResult> {
+  const encoding = detectEncoding(new Uint8Array(await file.slice(0, 3).arrayBuffer()));
+  try {
+    return await parseBlob(file, encoding, onProgress);
+  } catch (error) {
+    if (encoding === 'utf-8' && error instanceof TypeError) {
+      return parseBlob(file, 'windows-1252', onProgress);
+    }
+    throw error;
+  }
+}
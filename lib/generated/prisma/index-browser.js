@@ -124,8 +124,11 @@ exports.Prisma.MapScalarFieldEnum = {
   geographicBounds: 'geographicBounds',
   canvasConfig: 'canvasConfig',
   imageUrl: 'imageUrl',
+  imageMediaId: 'imageMediaId',
   useBaseMap: 'useBaseMap',
   published: 'published',
+  publishedSnapshot: 'publishedSnapshot',
+  publishedAt: 'publishedAt',
   categories: 'categories',
   aiNavigatorEnabled: 'aiNavigatorEnabled',
   aiNavigatorPrompt: 'aiNavigatorPrompt',
@@ -140,10 +143,114 @@ exports.Prisma.ZoneScalarFieldEnum = {
   coordinates: 'coordinates',
   content: 'content',
   style: 'style',
+  category: 'category',
+  levelId: 'levelId',
+  externalId: 'externalId',
+  importedValues: 'importedValues',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 };
 
+exports.Prisma.LevelScalarFieldEnum = {
+  id: 'id',
+  mapId: 'mapId',
+  name: 'name',
+  ordinal: 'ordinal',
+  imageUrl: 'imageUrl',
+  imageMediaId: 'imageMediaId',
+  tiles: 'tiles',
+  elevation: 'elevation',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.MapRevisionScalarFieldEnum = {
+  id: 'id',
+  mapId: 'mapId',
+  snapshot: 'snapshot',
+  author: 'author',
+  message: 'message',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.UserScalarFieldEnum = {
+  id: 'id',
+  email: 'email',
+  name: 'name',
+  passwordHash: 'passwordHash',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.MapMemberScalarFieldEnum = {
+  id: 'id',
+  mapId: 'mapId',
+  userId: 'userId',
+  role: 'role',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.MediaScalarFieldEnum = {
+  id: 'id',
+  hash: 'hash',
+  mimeType: 'mimeType',
+  size: 'size',
+  storageKey: 'storageKey',
+  width: 'width',
+  height: 'height',
+  tilesKey: 'tilesKey',
+  tileSize: 'tileSize',
+  tileMinLevel: 'tileMinLevel',
+  tileMaxLevel: 'tileMaxLevel',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.MediaVariantScalarFieldEnum = {
+  id: 'id',
+  mediaId: 'mediaId',
+  width: 'width',
+  height: 'height',
+  mimeType: 'mimeType',
+  size: 'size',
+  storageKey: 'storageKey',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.GeocodeCacheScalarFieldEnum = {
+  id: 'id',
+  provider: 'provider',
+  query: 'query',
+  candidates: 'candidates',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.GeocodeJobScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  status: 'status',
+  total: 'total',
+  processed: 'processed',
+  bounds: 'bounds',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.GeocodeJobItemScalarFieldEnum = {
+  id: 'id',
+  jobId: 'jobId',
+  index: 'index',
+  address: 'address',
+  status: 'status',
+  lat: 'lat',
+  lng: 'lng',
+  displayName: 'displayName',
+  candidates: 'candidates',
+  source: 'source',
+  error: 'error',
+  attempts: 'attempts',
+  updatedAt: 'updatedAt'
+};
+
 exports.Prisma.SortOrder = {
   asc: 'asc',
   desc: 'desc'
@@ -157,7 +264,16 @@ exports.Prisma.NullsOrder = {
 
 exports.Prisma.ModelName = {
   Map: 'Map',
-  Zone: 'Zone'
+  Zone: 'Zone',
+  Level: 'Level',
+  MapRevision: 'MapRevision',
+  User: 'User',
+  MapMember: 'MapMember',
+  Media: 'Media',
+  MediaVariant: 'MediaVariant',
+  GeocodeCache: 'GeocodeCache',
+  GeocodeJob: 'GeocodeJob',
+  GeocodeJobItem: 'GeocodeJobItem'
 };
 
 /**
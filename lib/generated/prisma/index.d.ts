@@ -23,6 +23,51 @@ export type Map = $Result.DefaultSelection<Prisma.$MapPayload>
  * 
  */
 export type Zone = $Result.DefaultSelection<Prisma.$ZonePayload>
+/**
+ * Model Level
+ * 
+ */
+export type Level = $Result.DefaultSelection<Prisma.$LevelPayload>
+/**
+ * Model MapRevision
+ * 
+ */
+export type MapRevision = $Result.DefaultSelection<Prisma.$MapRevisionPayload>
+/**
+ * Model User
+ * 
+ */
+export type User = $Result.DefaultSelection<Prisma.$UserPayload>
+/**
+ * Model MapMember
+ * 
+ */
+export type MapMember = $Result.DefaultSelection<Prisma.$MapMemberPayload>
+/**
+ * Model Media
+ * 
+ */
+export type Media = $Result.DefaultSelection<Prisma.$MediaPayload>
+/**
+ * Model MediaVariant
+ * 
+ */
+export type MediaVariant = $Result.DefaultSelection<Prisma.$MediaVariantPayload>
+/**
+ * Model GeocodeCache
+ * 
+ */
+export type GeocodeCache = $Result.DefaultSelection<Prisma.$GeocodeCachePayload>
+/**
+ * Model GeocodeJob
+ * 
+ */
+export type GeocodeJob = $Result.DefaultSelection<Prisma.$GeocodeJobPayload>
+/**
+ * Model GeocodeJobItem
+ * 
+ */
+export type GeocodeJobItem = $Result.DefaultSelection<Prisma.$GeocodeJobItemPayload>
 
 /**
  * ##  Prisma Client ʲˢ
@@ -161,6 +206,96 @@ export class PrismaClient<
     * ```
     */
   get zone(): Prisma.ZoneDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.level`: Exposes CRUD operations for the **Level** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Levels
+    * const levels = await prisma.level.findMany()
+    * ```
+    */
+  get level(): Prisma.LevelDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.mapRevision`: Exposes CRUD operations for the **MapRevision** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more MapRevisions
+    * const mapRevisions = await prisma.mapRevision.findMany()
+    * ```
+    */
+  get mapRevision(): Prisma.MapRevisionDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.user`: Exposes CRUD operations for the **User** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Users
+    * const users = await prisma.user.findMany()
+    * ```
+    */
+  get user(): Prisma.UserDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.mapMember`: Exposes CRUD operations for the **MapMember** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more MapMembers
+    * const mapMembers = await prisma.mapMember.findMany()
+    * ```
+    */
+  get mapMember(): Prisma.MapMemberDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.media`: Exposes CRUD operations for the **Media** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Media
+    * const media = await prisma.media.findMany()
+    * ```
+    */
+  get media(): Prisma.MediaDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.mediaVariant`: Exposes CRUD operations for the **MediaVariant** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more MediaVariants
+    * const mediaVariants = await prisma.mediaVariant.findMany()
+    * ```
+    */
+  get mediaVariant(): Prisma.MediaVariantDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.geocodeCache`: Exposes CRUD operations for the **GeocodeCache** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more GeocodeCaches
+    * const geocodeCaches = await prisma.geocodeCache.findMany()
+    * ```
+    */
+  get geocodeCache(): Prisma.GeocodeCacheDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.geocodeJob`: Exposes CRUD operations for the **GeocodeJob** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more GeocodeJobs
+    * const geocodeJobs = await prisma.geocodeJob.findMany()
+    * ```
+    */
+  get geocodeJob(): Prisma.GeocodeJobDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.geocodeJobItem`: Exposes CRUD operations for the **GeocodeJobItem** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more GeocodeJobItems
+    * const geocodeJobItems = await prisma.geocodeJobItem.findMany()
+    * ```
+    */
+  get geocodeJobItem(): Prisma.GeocodeJobItemDelegate<ExtArgs, ClientOptions>;
 }
 
 export namespace Prisma {
@@ -602,7 +737,16 @@ export namespace Prisma {
 
   export const ModelName: {
     Map: 'Map',
-    Zone: 'Zone'
+    Zone: 'Zone',
+    Level: 'Level',
+    MapRevision: 'MapRevision',
+    User: 'User',
+    MapMember: 'MapMember',
+    Media: 'Media',
+    MediaVariant: 'MediaVariant',
+    GeocodeCache: 'GeocodeCache',
+    GeocodeJob: 'GeocodeJob',
+    GeocodeJobItem: 'GeocodeJobItem'
   };
 
   export type ModelName = (typeof ModelName)[keyof typeof ModelName]
@@ -621,7 +765,7 @@ export namespace Prisma {
       omit: GlobalOmitOptions
     }
     meta: {
-      modelProps: "map" | "zone"
+      modelProps: "map" | "zone" | "level" | "mapRevision" | "user" | "mapMember" | "media" | "mediaVariant" | "geocodeCache" | "geocodeJob" | "geocodeJobItem"
       txIsolationLevel: Prisma.TransactionIsolationLevel
     }
     model: {
@@ -773,31 +917,697 @@ export namespace Prisma {
           }
         }
       }
-    }
-  } & {
-    other: {
-      payload: any
-      operations: {
-        $executeRaw: {
-          args: [query: TemplateStringsArray | Prisma.Sql, ...values: any[]],
-          result: any
+      Level: {
+        payload: Prisma.$LevelPayload<ExtArgs>
+        fields: Prisma.LevelFieldRefs
+        operations: {
+          findUnique: {
+            args: Prisma.LevelFindUniqueArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$LevelPayload> | null
+          }
+          findUniqueOrThrow: {
+            args: Prisma.LevelFindUniqueOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$LevelPayload>
+          }
+          findFirst: {
+            args: Prisma.LevelFindFirstArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$LevelPayload> | null
+          }
+          findFirstOrThrow: {
+            args: Prisma.LevelFindFirstOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$LevelPayload>
+          }
+          findMany: {
+            args: Prisma.LevelFindManyArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$LevelPayload>[]
+          }
+          create: {
+            args: Prisma.LevelCreateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$LevelPayload>
+          }
+          createMany: {
+            args: Prisma.LevelCreateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          createManyAndReturn: {
+            args: Prisma.LevelCreateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$LevelPayload>[]
+          }
+          delete: {
+            args: Prisma.LevelDeleteArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$LevelPayload>
+          }
+          update: {
+            args: Prisma.LevelUpdateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$LevelPayload>
+          }
+          deleteMany: {
+            args: Prisma.LevelDeleteManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateMany: {
+            args: Prisma.LevelUpdateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateManyAndReturn: {
+            args: Prisma.LevelUpdateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$LevelPayload>[]
+          }
+          upsert: {
+            args: Prisma.LevelUpsertArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$LevelPayload>
+          }
+          aggregate: {
+            args: Prisma.LevelAggregateArgs<ExtArgs>
+            result: $Utils.Optional<AggregateLevel>
+          }
+          groupBy: {
+            args: Prisma.LevelGroupByArgs<ExtArgs>
+            result: $Utils.Optional<LevelGroupByOutputType>[]
+          }
+          count: {
+            args: Prisma.LevelCountArgs<ExtArgs>
+            result: $Utils.Optional<LevelCountAggregateOutputType> | number
+          }
         }
-        $executeRawUnsafe: {
-          args: [query: string, ...values: any[]],
-          result: any
+      }
+      MapRevision: {
+        payload: Prisma.$MapRevisionPayload<ExtArgs>
+        fields: Prisma.MapRevisionFieldRefs
+        operations: {
+          findUnique: {
+            args: Prisma.MapRevisionFindUniqueArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MapRevisionPayload> | null
+          }
+          findUniqueOrThrow: {
+            args: Prisma.MapRevisionFindUniqueOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MapRevisionPayload>
+          }
+          findFirst: {
+            args: Prisma.MapRevisionFindFirstArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MapRevisionPayload> | null
+          }
+          findFirstOrThrow: {
+            args: Prisma.MapRevisionFindFirstOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MapRevisionPayload>
+          }
+          findMany: {
+            args: Prisma.MapRevisionFindManyArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MapRevisionPayload>[]
+          }
+          create: {
+            args: Prisma.MapRevisionCreateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MapRevisionPayload>
+          }
+          createMany: {
+            args: Prisma.MapRevisionCreateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          createManyAndReturn: {
+            args: Prisma.MapRevisionCreateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MapRevisionPayload>[]
+          }
+          delete: {
+            args: Prisma.MapRevisionDeleteArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MapRevisionPayload>
+          }
+          update: {
+            args: Prisma.MapRevisionUpdateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MapRevisionPayload>
+          }
+          deleteMany: {
+            args: Prisma.MapRevisionDeleteManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateMany: {
+            args: Prisma.MapRevisionUpdateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateManyAndReturn: {
+            args: Prisma.MapRevisionUpdateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MapRevisionPayload>[]
+          }
+          upsert: {
+            args: Prisma.MapRevisionUpsertArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MapRevisionPayload>
+          }
+          aggregate: {
+            args: Prisma.MapRevisionAggregateArgs<ExtArgs>
+            result: $Utils.Optional<AggregateMapRevision>
+          }
+          groupBy: {
+            args: Prisma.MapRevisionGroupByArgs<ExtArgs>
+            result: $Utils.Optional<MapRevisionGroupByOutputType>[]
+          }
+          count: {
+            args: Prisma.MapRevisionCountArgs<ExtArgs>
+            result: $Utils.Optional<MapRevisionCountAggregateOutputType> | number
+          }
         }
-        $queryRaw: {
-          args: [query: TemplateStringsArray | Prisma.Sql, ...values: any[]],
-          result: any
+      }
+      User: {
+        payload: Prisma.$UserPayload<ExtArgs>
+        fields: Prisma.UserFieldRefs
+        operations: {
+          findUnique: {
+            args: Prisma.UserFindUniqueArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$UserPayload> | null
+          }
+          findUniqueOrThrow: {
+            args: Prisma.UserFindUniqueOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$UserPayload>
+          }
+          findFirst: {
+            args: Prisma.UserFindFirstArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$UserPayload> | null
+          }
+          findFirstOrThrow: {
+            args: Prisma.UserFindFirstOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$UserPayload>
+          }
+          findMany: {
+            args: Prisma.UserFindManyArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$UserPayload>[]
+          }
+          create: {
+            args: Prisma.UserCreateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$UserPayload>
+          }
+          createMany: {
+            args: Prisma.UserCreateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          createManyAndReturn: {
+            args: Prisma.UserCreateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$UserPayload>[]
+          }
+          delete: {
+            args: Prisma.UserDeleteArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$UserPayload>
+          }
+          update: {
+            args: Prisma.UserUpdateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$UserPayload>
+          }
+          deleteMany: {
+            args: Prisma.UserDeleteManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateMany: {
+            args: Prisma.UserUpdateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateManyAndReturn: {
+            args: Prisma.UserUpdateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$UserPayload>[]
+          }
+          upsert: {
+            args: Prisma.UserUpsertArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$UserPayload>
+          }
+          aggregate: {
+            args: Prisma.UserAggregateArgs<ExtArgs>
+            result: $Utils.Optional<AggregateUser>
+          }
+          groupBy: {
+            args: Prisma.UserGroupByArgs<ExtArgs>
+            result: $Utils.Optional<UserGroupByOutputType>[]
+          }
+          count: {
+            args: Prisma.UserCountArgs<ExtArgs>
+            result: $Utils.Optional<UserCountAggregateOutputType> | number
+          }
         }
-        $queryRawUnsafe: {
-          args: [query: string, ...values: any[]],
-          result: any
+      }
+      MapMember: {
+        payload: Prisma.$MapMemberPayload<ExtArgs>
+        fields: Prisma.MapMemberFieldRefs
+        operations: {
+          findUnique: {
+            args: Prisma.MapMemberFindUniqueArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MapMemberPayload> | null
+          }
+          findUniqueOrThrow: {
+            args: Prisma.MapMemberFindUniqueOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MapMemberPayload>
+          }
+          findFirst: {
+            args: Prisma.MapMemberFindFirstArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MapMemberPayload> | null
+          }
+          findFirstOrThrow: {
+            args: Prisma.MapMemberFindFirstOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MapMemberPayload>
+          }
+          findMany: {
+            args: Prisma.MapMemberFindManyArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MapMemberPayload>[]
+          }
+          create: {
+            args: Prisma.MapMemberCreateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MapMemberPayload>
+          }
+          createMany: {
+            args: Prisma.MapMemberCreateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          createManyAndReturn: {
+            args: Prisma.MapMemberCreateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MapMemberPayload>[]
+          }
+          delete: {
+            args: Prisma.MapMemberDeleteArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MapMemberPayload>
+          }
+          update: {
+            args: Prisma.MapMemberUpdateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MapMemberPayload>
+          }
+          deleteMany: {
+            args: Prisma.MapMemberDeleteManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateMany: {
+            args: Prisma.MapMemberUpdateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateManyAndReturn: {
+            args: Prisma.MapMemberUpdateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MapMemberPayload>[]
+          }
+          upsert: {
+            args: Prisma.MapMemberUpsertArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MapMemberPayload>
+          }
+          aggregate: {
+            args: Prisma.MapMemberAggregateArgs<ExtArgs>
+            result: $Utils.Optional<AggregateMapMember>
+          }
+          groupBy: {
+            args: Prisma.MapMemberGroupByArgs<ExtArgs>
+            result: $Utils.Optional<MapMemberGroupByOutputType>[]
+          }
+          count: {
+            args: Prisma.MapMemberCountArgs<ExtArgs>
+            result: $Utils.Optional<MapMemberCountAggregateOutputType> | number
+          }
         }
       }
-    }
-  }
-  export const defineExtension: $Extensions.ExtendsHook<"define", Prisma.TypeMapCb, $Extensions.DefaultArgs>
+      Media: {
+        payload: Prisma.$MediaPayload<ExtArgs>
+        fields: Prisma.MediaFieldRefs
+        operations: {
+          findUnique: {
+            args: Prisma.MediaFindUniqueArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MediaPayload> | null
+          }
+          findUniqueOrThrow: {
+            args: Prisma.MediaFindUniqueOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MediaPayload>
+          }
+          findFirst: {
+            args: Prisma.MediaFindFirstArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MediaPayload> | null
+          }
+          findFirstOrThrow: {
+            args: Prisma.MediaFindFirstOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MediaPayload>
+          }
+          findMany: {
+            args: Prisma.MediaFindManyArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MediaPayload>[]
+          }
+          create: {
+            args: Prisma.MediaCreateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MediaPayload>
+          }
+          createMany: {
+            args: Prisma.MediaCreateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          createManyAndReturn: {
+            args: Prisma.MediaCreateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MediaPayload>[]
+          }
+          delete: {
+            args: Prisma.MediaDeleteArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MediaPayload>
+          }
+          update: {
+            args: Prisma.MediaUpdateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MediaPayload>
+          }
+          deleteMany: {
+            args: Prisma.MediaDeleteManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateMany: {
+            args: Prisma.MediaUpdateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateManyAndReturn: {
+            args: Prisma.MediaUpdateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MediaPayload>[]
+          }
+          upsert: {
+            args: Prisma.MediaUpsertArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MediaPayload>
+          }
+          aggregate: {
+            args: Prisma.MediaAggregateArgs<ExtArgs>
+            result: $Utils.Optional<AggregateMedia>
+          }
+          groupBy: {
+            args: Prisma.MediaGroupByArgs<ExtArgs>
+            result: $Utils.Optional<MediaGroupByOutputType>[]
+          }
+          count: {
+            args: Prisma.MediaCountArgs<ExtArgs>
+            result: $Utils.Optional<MediaCountAggregateOutputType> | number
+          }
+        }
+      }
+      MediaVariant: {
+        payload: Prisma.$MediaVariantPayload<ExtArgs>
+        fields: Prisma.MediaVariantFieldRefs
+        operations: {
+          findUnique: {
+            args: Prisma.MediaVariantFindUniqueArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MediaVariantPayload> | null
+          }
+          findUniqueOrThrow: {
+            args: Prisma.MediaVariantFindUniqueOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MediaVariantPayload>
+          }
+          findFirst: {
+            args: Prisma.MediaVariantFindFirstArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MediaVariantPayload> | null
+          }
+          findFirstOrThrow: {
+            args: Prisma.MediaVariantFindFirstOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MediaVariantPayload>
+          }
+          findMany: {
+            args: Prisma.MediaVariantFindManyArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MediaVariantPayload>[]
+          }
+          create: {
+            args: Prisma.MediaVariantCreateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MediaVariantPayload>
+          }
+          createMany: {
+            args: Prisma.MediaVariantCreateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          createManyAndReturn: {
+            args: Prisma.MediaVariantCreateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MediaVariantPayload>[]
+          }
+          delete: {
+            args: Prisma.MediaVariantDeleteArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MediaVariantPayload>
+          }
+          update: {
+            args: Prisma.MediaVariantUpdateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MediaVariantPayload>
+          }
+          deleteMany: {
+            args: Prisma.MediaVariantDeleteManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateMany: {
+            args: Prisma.MediaVariantUpdateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateManyAndReturn: {
+            args: Prisma.MediaVariantUpdateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MediaVariantPayload>[]
+          }
+          upsert: {
+            args: Prisma.MediaVariantUpsertArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$MediaVariantPayload>
+          }
+          aggregate: {
+            args: Prisma.MediaVariantAggregateArgs<ExtArgs>
+            result: $Utils.Optional<AggregateMediaVariant>
+          }
+          groupBy: {
+            args: Prisma.MediaVariantGroupByArgs<ExtArgs>
+            result: $Utils.Optional<MediaVariantGroupByOutputType>[]
+          }
+          count: {
+            args: Prisma.MediaVariantCountArgs<ExtArgs>
+            result: $Utils.Optional<MediaVariantCountAggregateOutputType> | number
+          }
+        }
+      }
+      GeocodeCache: {
+        payload: Prisma.$GeocodeCachePayload<ExtArgs>
+        fields: Prisma.GeocodeCacheFieldRefs
+        operations: {
+          findUnique: {
+            args: Prisma.GeocodeCacheFindUniqueArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeCachePayload> | null
+          }
+          findUniqueOrThrow: {
+            args: Prisma.GeocodeCacheFindUniqueOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeCachePayload>
+          }
+          findFirst: {
+            args: Prisma.GeocodeCacheFindFirstArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeCachePayload> | null
+          }
+          findFirstOrThrow: {
+            args: Prisma.GeocodeCacheFindFirstOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeCachePayload>
+          }
+          findMany: {
+            args: Prisma.GeocodeCacheFindManyArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeCachePayload>[]
+          }
+          create: {
+            args: Prisma.GeocodeCacheCreateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeCachePayload>
+          }
+          createMany: {
+            args: Prisma.GeocodeCacheCreateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          createManyAndReturn: {
+            args: Prisma.GeocodeCacheCreateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeCachePayload>[]
+          }
+          delete: {
+            args: Prisma.GeocodeCacheDeleteArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeCachePayload>
+          }
+          update: {
+            args: Prisma.GeocodeCacheUpdateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeCachePayload>
+          }
+          deleteMany: {
+            args: Prisma.GeocodeCacheDeleteManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateMany: {
+            args: Prisma.GeocodeCacheUpdateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateManyAndReturn: {
+            args: Prisma.GeocodeCacheUpdateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeCachePayload>[]
+          }
+          upsert: {
+            args: Prisma.GeocodeCacheUpsertArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeCachePayload>
+          }
+          aggregate: {
+            args: Prisma.GeocodeCacheAggregateArgs<ExtArgs>
+            result: $Utils.Optional<AggregateGeocodeCache>
+          }
+          groupBy: {
+            args: Prisma.GeocodeCacheGroupByArgs<ExtArgs>
+            result: $Utils.Optional<GeocodeCacheGroupByOutputType>[]
+          }
+          count: {
+            args: Prisma.GeocodeCacheCountArgs<ExtArgs>
+            result: $Utils.Optional<GeocodeCacheCountAggregateOutputType> | number
+          }
+        }
+      }
+      GeocodeJob: {
+        payload: Prisma.$GeocodeJobPayload<ExtArgs>
+        fields: Prisma.GeocodeJobFieldRefs
+        operations: {
+          findUnique: {
+            args: Prisma.GeocodeJobFindUniqueArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeJobPayload> | null
+          }
+          findUniqueOrThrow: {
+            args: Prisma.GeocodeJobFindUniqueOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeJobPayload>
+          }
+          findFirst: {
+            args: Prisma.GeocodeJobFindFirstArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeJobPayload> | null
+          }
+          findFirstOrThrow: {
+            args: Prisma.GeocodeJobFindFirstOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeJobPayload>
+          }
+          findMany: {
+            args: Prisma.GeocodeJobFindManyArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeJobPayload>[]
+          }
+          create: {
+            args: Prisma.GeocodeJobCreateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeJobPayload>
+          }
+          createMany: {
+            args: Prisma.GeocodeJobCreateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          createManyAndReturn: {
+            args: Prisma.GeocodeJobCreateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeJobPayload>[]
+          }
+          delete: {
+            args: Prisma.GeocodeJobDeleteArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeJobPayload>
+          }
+          update: {
+            args: Prisma.GeocodeJobUpdateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeJobPayload>
+          }
+          deleteMany: {
+            args: Prisma.GeocodeJobDeleteManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateMany: {
+            args: Prisma.GeocodeJobUpdateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateManyAndReturn: {
+            args: Prisma.GeocodeJobUpdateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeJobPayload>[]
+          }
+          upsert: {
+            args: Prisma.GeocodeJobUpsertArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeJobPayload>
+          }
+          aggregate: {
+            args: Prisma.GeocodeJobAggregateArgs<ExtArgs>
+            result: $Utils.Optional<AggregateGeocodeJob>
+          }
+          groupBy: {
+            args: Prisma.GeocodeJobGroupByArgs<ExtArgs>
+            result: $Utils.Optional<GeocodeJobGroupByOutputType>[]
+          }
+          count: {
+            args: Prisma.GeocodeJobCountArgs<ExtArgs>
+            result: $Utils.Optional<GeocodeJobCountAggregateOutputType> | number
+          }
+        }
+      }
+      GeocodeJobItem: {
+        payload: Prisma.$GeocodeJobItemPayload<ExtArgs>
+        fields: Prisma.GeocodeJobItemFieldRefs
+        operations: {
+          findUnique: {
+            args: Prisma.GeocodeJobItemFindUniqueArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeJobItemPayload> | null
+          }
+          findUniqueOrThrow: {
+            args: Prisma.GeocodeJobItemFindUniqueOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeJobItemPayload>
+          }
+          findFirst: {
+            args: Prisma.GeocodeJobItemFindFirstArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeJobItemPayload> | null
+          }
+          findFirstOrThrow: {
+            args: Prisma.GeocodeJobItemFindFirstOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeJobItemPayload>
+          }
+          findMany: {
+            args: Prisma.GeocodeJobItemFindManyArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeJobItemPayload>[]
+          }
+          create: {
+            args: Prisma.GeocodeJobItemCreateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeJobItemPayload>
+          }
+          createMany: {
+            args: Prisma.GeocodeJobItemCreateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          createManyAndReturn: {
+            args: Prisma.GeocodeJobItemCreateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeJobItemPayload>[]
+          }
+          delete: {
+            args: Prisma.GeocodeJobItemDeleteArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeJobItemPayload>
+          }
+          update: {
+            args: Prisma.GeocodeJobItemUpdateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeJobItemPayload>
+          }
+          deleteMany: {
+            args: Prisma.GeocodeJobItemDeleteManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateMany: {
+            args: Prisma.GeocodeJobItemUpdateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateManyAndReturn: {
+            args: Prisma.GeocodeJobItemUpdateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeJobItemPayload>[]
+          }
+          upsert: {
+            args: Prisma.GeocodeJobItemUpsertArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$GeocodeJobItemPayload>
+          }
+          aggregate: {
+            args: Prisma.GeocodeJobItemAggregateArgs<ExtArgs>
+            result: $Utils.Optional<AggregateGeocodeJobItem>
+          }
+          groupBy: {
+            args: Prisma.GeocodeJobItemGroupByArgs<ExtArgs>
+            result: $Utils.Optional<GeocodeJobItemGroupByOutputType>[]
+          }
+          count: {
+            args: Prisma.GeocodeJobItemCountArgs<ExtArgs>
+            result: $Utils.Optional<GeocodeJobItemCountAggregateOutputType> | number
+          }
+        }
+      }
+    }
+  } & {
+    other: {
+      payload: any
+      operations: {
+        $executeRaw: {
+          args: [query: TemplateStringsArray | Prisma.Sql, ...values: any[]],
+          result: any
+        }
+        $executeRawUnsafe: {
+          args: [query: string, ...values: any[]],
+          result: any
+        }
+        $queryRaw: {
+          args: [query: TemplateStringsArray | Prisma.Sql, ...values: any[]],
+          result: any
+        }
+        $queryRawUnsafe: {
+          args: [query: string, ...values: any[]],
+          result: any
+        }
+      }
+    }
+  }
+  export const defineExtension: $Extensions.ExtendsHook<"define", Prisma.TypeMapCb, $Extensions.DefaultArgs>
   export type DefaultPrismaClient = PrismaClient
   export type ErrorFormat = 'pretty' | 'colorless' | 'minimal'
   export interface PrismaClientOptions {
@@ -871,6 +1681,15 @@ export namespace Prisma {
   export type GlobalOmitConfig = {
     map?: MapOmit
     zone?: ZoneOmit
+    level?: LevelOmit
+    mapRevision?: MapRevisionOmit
+    user?: UserOmit
+    mapMember?: MapMemberOmit
+    media?: MediaOmit
+    mediaVariant?: MediaVariantOmit
+    geocodeCache?: GeocodeCacheOmit
+    geocodeJob?: GeocodeJobOmit
+    geocodeJobItem?: GeocodeJobItemOmit
   }
 
   /* Types for Logging */
@@ -951,11 +1770,17 @@ export namespace Prisma {
    */
 
   export type MapCountOutputType = {
+    levels: number
     zones: number
+    revisions: number
+    members: number
   }
 
   export type MapCountOutputTypeSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    levels?: boolean | MapCountOutputTypeCountLevelsArgs
     zones?: boolean | MapCountOutputTypeCountZonesArgs
+    revisions?: boolean | MapCountOutputTypeCountRevisionsArgs
+    members?: boolean | MapCountOutputTypeCountMembersArgs
   }
 
   // Custom InputTypes
@@ -969,6 +1794,13 @@ export namespace Prisma {
     select?: MapCountOutputTypeSelect<ExtArgs> | null
   }
 
+  /**
+   * MapCountOutputType without action
+   */
+  export type MapCountOutputTypeCountLevelsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: LevelWhereInput
+  }
+
   /**
    * MapCountOutputType without action
    */
@@ -976,34 +1808,242 @@ export namespace Prisma {
     where?: ZoneWhereInput
   }
 
+  /**
+   * MapCountOutputType without action
+   */
+  export type MapCountOutputTypeCountRevisionsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: MapRevisionWhereInput
+  }
 
   /**
-   * Models
+   * MapCountOutputType without action
    */
+  export type MapCountOutputTypeCountMembersArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: MapMemberWhereInput
+  }
+
 
   /**
-   * Model Map
+   * Count Type ZoneCountOutputType
    */
 
-  export type AggregateMap = {
-    _count: MapCountAggregateOutputType | null
-    _min: MapMinAggregateOutputType | null
-    _max: MapMaxAggregateOutputType | null
+  export type ZoneCountOutputType = {
+    media: number
   }
 
-  export type MapMinAggregateOutputType = {
-    id: string | null
-    title: string | null
-    description: string | null
-    geographicBounds: string | null
-    canvasConfig: string | null
-    imageUrl: string | null
-    useBaseMap: boolean | null
-    published: boolean | null
-    categories: string | null
-    aiNavigatorEnabled: boolean | null
-    aiNavigatorPrompt: string | null
-    createdAt: Date | null
+  export type ZoneCountOutputTypeSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    media?: boolean | ZoneCountOutputTypeCountMediaArgs
+  }
+
+  // Custom InputTypes
+  /**
+   * ZoneCountOutputType without action
+   */
+  export type ZoneCountOutputTypeDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the ZoneCountOutputType
+     */
+    select?: ZoneCountOutputTypeSelect<ExtArgs> | null
+  }
+
+  /**
+   * ZoneCountOutputType without action
+   */
+  export type ZoneCountOutputTypeCountMediaArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: MediaWhereInput
+  }
+
+
+  /**
+   * Count Type LevelCountOutputType
+   */
+
+  export type LevelCountOutputType = {
+    zones: number
+  }
+
+  export type LevelCountOutputTypeSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    zones?: boolean | LevelCountOutputTypeCountZonesArgs
+  }
+
+  // Custom InputTypes
+  /**
+   * LevelCountOutputType without action
+   */
+  export type LevelCountOutputTypeDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the LevelCountOutputType
+     */
+    select?: LevelCountOutputTypeSelect<ExtArgs> | null
+  }
+
+  /**
+   * LevelCountOutputType without action
+   */
+  export type LevelCountOutputTypeCountZonesArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: ZoneWhereInput
+  }
+
+
+  /**
+   * Count Type UserCountOutputType
+   */
+
+  export type UserCountOutputType = {
+    memberships: number
+    geocodeJobs: number
+  }
+
+  export type UserCountOutputTypeSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    memberships?: boolean | UserCountOutputTypeCountMembershipsArgs
+    geocodeJobs?: boolean | UserCountOutputTypeCountGeocodeJobsArgs
+  }
+
+  // Custom InputTypes
+  /**
+   * UserCountOutputType without action
+   */
+  export type UserCountOutputTypeDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the UserCountOutputType
+     */
+    select?: UserCountOutputTypeSelect<ExtArgs> | null
+  }
+
+  /**
+   * UserCountOutputType without action
+   */
+  export type UserCountOutputTypeCountMembershipsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: MapMemberWhereInput
+  }
+
+  /**
+   * UserCountOutputType without action
+   */
+  export type UserCountOutputTypeCountGeocodeJobsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: GeocodeJobWhereInput
+  }
+
+
+  /**
+   * Count Type MediaCountOutputType
+   */
+
+  export type MediaCountOutputType = {
+    variants: number
+    maps: number
+    levels: number
+    zones: number
+  }
+
+  export type MediaCountOutputTypeSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    variants?: boolean | MediaCountOutputTypeCountVariantsArgs
+    maps?: boolean | MediaCountOutputTypeCountMapsArgs
+    levels?: boolean | MediaCountOutputTypeCountLevelsArgs
+    zones?: boolean | MediaCountOutputTypeCountZonesArgs
+  }
+
+  // Custom InputTypes
+  /**
+   * MediaCountOutputType without action
+   */
+  export type MediaCountOutputTypeDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MediaCountOutputType
+     */
+    select?: MediaCountOutputTypeSelect<ExtArgs> | null
+  }
+
+  /**
+   * MediaCountOutputType without action
+   */
+  export type MediaCountOutputTypeCountVariantsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: MediaVariantWhereInput
+  }
+
+  /**
+   * MediaCountOutputType without action
+   */
+  export type MediaCountOutputTypeCountMapsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: MapWhereInput
+  }
+
+  /**
+   * MediaCountOutputType without action
+   */
+  export type MediaCountOutputTypeCountLevelsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: LevelWhereInput
+  }
+
+  /**
+   * MediaCountOutputType without action
+   */
+  export type MediaCountOutputTypeCountZonesArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: ZoneWhereInput
+  }
+
+
+  /**
+   * Count Type GeocodeJobCountOutputType
+   */
+
+  export type GeocodeJobCountOutputType = {
+    items: number
+  }
+
+  export type GeocodeJobCountOutputTypeSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    items?: boolean | GeocodeJobCountOutputTypeCountItemsArgs
+  }
+
+  // Custom InputTypes
+  /**
+   * GeocodeJobCountOutputType without action
+   */
+  export type GeocodeJobCountOutputTypeDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeJobCountOutputType
+     */
+    select?: GeocodeJobCountOutputTypeSelect<ExtArgs> | null
+  }
+
+  /**
+   * GeocodeJobCountOutputType without action
+   */
+  export type GeocodeJobCountOutputTypeCountItemsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: GeocodeJobItemWhereInput
+  }
+
+
+  /**
+   * Models
+   */
+
+  /**
+   * Model Map
+   */
+
+  export type AggregateMap = {
+    _count: MapCountAggregateOutputType | null
+    _min: MapMinAggregateOutputType | null
+    _max: MapMaxAggregateOutputType | null
+  }
+
+  export type MapMinAggregateOutputType = {
+    id: string | null
+    title: string | null
+    description: string | null
+    geographicBounds: string | null
+    canvasConfig: string | null
+    imageUrl: string | null
+    imageMediaId: string | null
+    useBaseMap: boolean | null
+    published: boolean | null
+    publishedSnapshot: string | null
+    publishedAt: Date | null
+    categories: string | null
+    aiNavigatorEnabled: boolean | null
+    aiNavigatorPrompt: string | null
+    createdAt: Date | null
     updatedAt: Date | null
   }
 
@@ -1014,8 +2054,11 @@ export namespace Prisma {
     geographicBounds: string | null
     canvasConfig: string | null
     imageUrl: string | null
+    imageMediaId: string | null
     useBaseMap: boolean | null
     published: boolean | null
+    publishedSnapshot: string | null
+    publishedAt: Date | null
     categories: string | null
     aiNavigatorEnabled: boolean | null
     aiNavigatorPrompt: string | null
@@ -1030,8 +2073,11 @@ export namespace Prisma {
     geographicBounds: number
     canvasConfig: number
     imageUrl: number
+    imageMediaId: number
     useBaseMap: number
     published: number
+    publishedSnapshot: number
+    publishedAt: number
     categories: number
     aiNavigatorEnabled: number
     aiNavigatorPrompt: number
@@ -1048,8 +2094,11 @@ export namespace Prisma {
     geographicBounds?: true
     canvasConfig?: true
     imageUrl?: true
+    imageMediaId?: true
     useBaseMap?: true
     published?: true
+    publishedSnapshot?: true
+    publishedAt?: true
     categories?: true
     aiNavigatorEnabled?: true
     aiNavigatorPrompt?: true
@@ -1064,8 +2113,11 @@ export namespace Prisma {
     geographicBounds?: true
     canvasConfig?: true
     imageUrl?: true
+    imageMediaId?: true
     useBaseMap?: true
     published?: true
+    publishedSnapshot?: true
+    publishedAt?: true
     categories?: true
     aiNavigatorEnabled?: true
     aiNavigatorPrompt?: true
@@ -1080,8 +2132,11 @@ export namespace Prisma {
     geographicBounds?: true
     canvasConfig?: true
     imageUrl?: true
+    imageMediaId?: true
     useBaseMap?: true
     published?: true
+    publishedSnapshot?: true
+    publishedAt?: true
     categories?: true
     aiNavigatorEnabled?: true
     aiNavigatorPrompt?: true
@@ -1169,8 +2224,11 @@ export namespace Prisma {
     geographicBounds: string | null
     canvasConfig: string
     imageUrl: string | null
+    imageMediaId: string | null
     useBaseMap: boolean
     published: boolean
+    publishedSnapshot: string | null
+    publishedAt: Date | null
     categories: string | null
     aiNavigatorEnabled: boolean
     aiNavigatorPrompt: string | null
@@ -1202,14 +2260,21 @@ export namespace Prisma {
     geographicBounds?: boolean
     canvasConfig?: boolean
     imageUrl?: boolean
+    imageMediaId?: boolean
     useBaseMap?: boolean
     published?: boolean
+    publishedSnapshot?: boolean
+    publishedAt?: boolean
     categories?: boolean
     aiNavigatorEnabled?: boolean
     aiNavigatorPrompt?: boolean
     createdAt?: boolean
     updatedAt?: boolean
+    imageMedia?: boolean | Map$imageMediaArgs<ExtArgs>
+    levels?: boolean | Map$levelsArgs<ExtArgs>
     zones?: boolean | Map$zonesArgs<ExtArgs>
+    revisions?: boolean | Map$revisionsArgs<ExtArgs>
+    members?: boolean | Map$membersArgs<ExtArgs>
     _count?: boolean | MapCountOutputTypeDefaultArgs<ExtArgs>
   }, ExtArgs["result"]["map"]>
 
@@ -1220,13 +2285,17 @@ export namespace Prisma {
     geographicBounds?: boolean
     canvasConfig?: boolean
     imageUrl?: boolean
+    imageMediaId?: boolean
     useBaseMap?: boolean
     published?: boolean
+    publishedSnapshot?: boolean
+    publishedAt?: boolean
     categories?: boolean
     aiNavigatorEnabled?: boolean
     aiNavigatorPrompt?: boolean
     createdAt?: boolean
     updatedAt?: boolean
+    imageMedia?: boolean | Map$imageMediaArgs<ExtArgs>
   }, ExtArgs["result"]["map"]>
 
   export type MapSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
@@ -1236,13 +2305,17 @@ export namespace Prisma {
     geographicBounds?: boolean
     canvasConfig?: boolean
     imageUrl?: boolean
+    imageMediaId?: boolean
     useBaseMap?: boolean
     published?: boolean
+    publishedSnapshot?: boolean
+    publishedAt?: boolean
     categories?: boolean
     aiNavigatorEnabled?: boolean
     aiNavigatorPrompt?: boolean
     createdAt?: boolean
     updatedAt?: boolean
+    imageMedia?: boolean | Map$imageMediaArgs<ExtArgs>
   }, ExtArgs["result"]["map"]>
 
   export type MapSelectScalar = {
@@ -1252,8 +2325,11 @@ export namespace Prisma {
     geographicBounds?: boolean
     canvasConfig?: boolean
     imageUrl?: boolean
+    imageMediaId?: boolean
     useBaseMap?: boolean
     published?: boolean
+    publishedSnapshot?: boolean
+    publishedAt?: boolean
     categories?: boolean
     aiNavigatorEnabled?: boolean
     aiNavigatorPrompt?: boolean
@@ -1261,18 +2337,30 @@ export namespace Prisma {
     updatedAt?: boolean
   }
 
-  export type MapOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "title" | "description" | "geographicBounds" | "canvasConfig" | "imageUrl" | "useBaseMap" | "published" | "categories" | "aiNavigatorEnabled" | "aiNavigatorPrompt" | "createdAt" | "updatedAt", ExtArgs["result"]["map"]>
+  export type MapOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "title" | "description" | "geographicBounds" | "canvasConfig" | "imageUrl" | "imageMediaId" | "useBaseMap" | "published" | "publishedSnapshot" | "publishedAt" | "categories" | "aiNavigatorEnabled" | "aiNavigatorPrompt" | "createdAt" | "updatedAt", ExtArgs["result"]["map"]>
   export type MapInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    imageMedia?: boolean | Map$imageMediaArgs<ExtArgs>
+    levels?: boolean | Map$levelsArgs<ExtArgs>
     zones?: boolean | Map$zonesArgs<ExtArgs>
+    revisions?: boolean | Map$revisionsArgs<ExtArgs>
+    members?: boolean | Map$membersArgs<ExtArgs>
     _count?: boolean | MapCountOutputTypeDefaultArgs<ExtArgs>
   }
-  export type MapIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {}
-  export type MapIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {}
+  export type MapIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    imageMedia?: boolean | Map$imageMediaArgs<ExtArgs>
+  }
+  export type MapIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    imageMedia?: boolean | Map$imageMediaArgs<ExtArgs>
+  }
 
   export type $MapPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
     name: "Map"
     objects: {
+      imageMedia: Prisma.$MediaPayload<ExtArgs> | null
+      levels: Prisma.$LevelPayload<ExtArgs>[]
       zones: Prisma.$ZonePayload<ExtArgs>[]
+      revisions: Prisma.$MapRevisionPayload<ExtArgs>[]
+      members: Prisma.$MapMemberPayload<ExtArgs>[]
     }
     scalars: $Extensions.GetPayloadResult<{
       id: string
@@ -1281,8 +2369,11 @@ export namespace Prisma {
       geographicBounds: string | null
       canvasConfig: string
       imageUrl: string | null
+      imageMediaId: string | null
       useBaseMap: boolean
       published: boolean
+      publishedSnapshot: string | null
+      publishedAt: Date | null
       categories: string | null
       aiNavigatorEnabled: boolean
       aiNavigatorPrompt: string | null
@@ -1682,7 +2773,11 @@ export namespace Prisma {
    */
   export interface Prisma__MapClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
     readonly [Symbol.toStringTag]: "PrismaPromise"
+    imageMedia<T extends Map$imageMediaArgs<ExtArgs> = {}>(args?: Subset<T, Map$imageMediaArgs<ExtArgs>>): Prisma__MediaClient<$Result.GetResult<Prisma.$MediaPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+    levels<T extends Map$levelsArgs<ExtArgs> = {}>(args?: Subset<T, Map$levelsArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$LevelPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
     zones<T extends Map$zonesArgs<ExtArgs> = {}>(args?: Subset<T, Map$zonesArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ZonePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+    revisions<T extends Map$revisionsArgs<ExtArgs> = {}>(args?: Subset<T, Map$revisionsArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$MapRevisionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+    members<T extends Map$membersArgs<ExtArgs> = {}>(args?: Subset<T, Map$membersArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$MapMemberPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
     /**
      * Attaches callbacks for the resolution and/or rejection of the Promise.
      * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1718,8 +2813,11 @@ export namespace Prisma {
     readonly geographicBounds: FieldRef<"Map", 'String'>
     readonly canvasConfig: FieldRef<"Map", 'String'>
     readonly imageUrl: FieldRef<"Map", 'String'>
+    readonly imageMediaId: FieldRef<"Map", 'String'>
     readonly useBaseMap: FieldRef<"Map", 'Boolean'>
     readonly published: FieldRef<"Map", 'Boolean'>
+    readonly publishedSnapshot: FieldRef<"Map", 'String'>
+    readonly publishedAt: FieldRef<"Map", 'DateTime'>
     readonly categories: FieldRef<"Map", 'String'>
     readonly aiNavigatorEnabled: FieldRef<"Map", 'Boolean'>
     readonly aiNavigatorPrompt: FieldRef<"Map", 'String'>
@@ -1972,6 +3070,10 @@ export namespace Prisma {
      * The data used to create many Maps.
      */
     data: MapCreateManyInput | MapCreateManyInput[]
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapIncludeCreateManyAndReturn<ExtArgs> | null
   }
 
   /**
@@ -2042,6 +3144,10 @@ export namespace Prisma {
      * Limit how many Maps to update.
      */
     limit?: number
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapIncludeUpdateManyAndReturn<ExtArgs> | null
   }
 
   /**
@@ -2110,6 +3216,49 @@ export namespace Prisma {
     limit?: number
   }
 
+  /**
+   * Map.imageMedia
+   */
+  export type Map$imageMediaArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Media
+     */
+    select?: MediaSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Media
+     */
+    omit?: MediaOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MediaInclude<ExtArgs> | null
+    where?: MediaWhereInput
+  }
+
+  /**
+   * Map.levels
+   */
+  export type Map$levelsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Level
+     */
+    select?: LevelSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Level
+     */
+    omit?: LevelOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LevelInclude<ExtArgs> | null
+    where?: LevelWhereInput
+    orderBy?: LevelOrderByWithRelationInput | LevelOrderByWithRelationInput[]
+    cursor?: LevelWhereUniqueInput
+    take?: number
+    skip?: number
+    distinct?: LevelScalarFieldEnum | LevelScalarFieldEnum[]
+  }
+
   /**
    * Map.zones
    */
@@ -2134,6 +3283,54 @@ export namespace Prisma {
     distinct?: ZoneScalarFieldEnum | ZoneScalarFieldEnum[]
   }
 
+  /**
+   * Map.revisions
+   */
+  export type Map$revisionsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MapRevision
+     */
+    select?: MapRevisionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MapRevision
+     */
+    omit?: MapRevisionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapRevisionInclude<ExtArgs> | null
+    where?: MapRevisionWhereInput
+    orderBy?: MapRevisionOrderByWithRelationInput | MapRevisionOrderByWithRelationInput[]
+    cursor?: MapRevisionWhereUniqueInput
+    take?: number
+    skip?: number
+    distinct?: MapRevisionScalarFieldEnum | MapRevisionScalarFieldEnum[]
+  }
+
+  /**
+   * Map.members
+   */
+  export type Map$membersArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MapMember
+     */
+    select?: MapMemberSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MapMember
+     */
+    omit?: MapMemberOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapMemberInclude<ExtArgs> | null
+    where?: MapMemberWhereInput
+    orderBy?: MapMemberOrderByWithRelationInput | MapMemberOrderByWithRelationInput[]
+    cursor?: MapMemberWhereUniqueInput
+    take?: number
+    skip?: number
+    distinct?: MapMemberScalarFieldEnum | MapMemberScalarFieldEnum[]
+  }
+
   /**
    * Map without action
    */
@@ -2170,6 +3367,10 @@ export namespace Prisma {
     coordinates: string | null
     content: string | null
     style: string | null
+    category: string | null
+    levelId: string | null
+    externalId: string | null
+    importedValues: string | null
     createdAt: Date | null
     updatedAt: Date | null
   }
@@ -2181,6 +3382,10 @@ export namespace Prisma {
     coordinates: string | null
     content: string | null
     style: string | null
+    category: string | null
+    levelId: string | null
+    externalId: string | null
+    importedValues: string | null
     createdAt: Date | null
     updatedAt: Date | null
   }
@@ -2192,6 +3397,10 @@ export namespace Prisma {
     coordinates: number
     content: number
     style: number
+    category: number
+    levelId: number
+    externalId: number
+    importedValues: number
     createdAt: number
     updatedAt: number
     _all: number
@@ -2205,6 +3414,10 @@ export namespace Prisma {
     coordinates?: true
     content?: true
     style?: true
+    category?: true
+    levelId?: true
+    externalId?: true
+    importedValues?: true
     createdAt?: true
     updatedAt?: true
   }
@@ -2216,6 +3429,10 @@ export namespace Prisma {
     coordinates?: true
     content?: true
     style?: true
+    category?: true
+    levelId?: true
+    externalId?: true
+    importedValues?: true
     createdAt?: true
     updatedAt?: true
   }
@@ -2227,6 +3444,10 @@ export namespace Prisma {
     coordinates?: true
     content?: true
     style?: true
+    category?: true
+    levelId?: true
+    externalId?: true
+    importedValues?: true
     createdAt?: true
     updatedAt?: true
     _all?: true
@@ -2311,6 +3532,10 @@ export namespace Prisma {
     coordinates: string
     content: string
     style: string | null
+    category: string | null
+    levelId: string | null
+    externalId: string | null
+    importedValues: string | null
     createdAt: Date
     updatedAt: Date
     _count: ZoneCountAggregateOutputType | null
@@ -2339,9 +3564,16 @@ export namespace Prisma {
     coordinates?: boolean
     content?: boolean
     style?: boolean
+    category?: boolean
+    levelId?: boolean
+    externalId?: boolean
+    importedValues?: boolean
     createdAt?: boolean
     updatedAt?: boolean
     map?: boolean | MapDefaultArgs<ExtArgs>
+    level?: boolean | Zone$levelArgs<ExtArgs>
+    media?: boolean | Zone$mediaArgs<ExtArgs>
+    _count?: boolean | ZoneCountOutputTypeDefaultArgs<ExtArgs>
   }, ExtArgs["result"]["zone"]>
 
   export type ZoneSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
@@ -2351,9 +3583,14 @@ export namespace Prisma {
     coordinates?: boolean
     content?: boolean
     style?: boolean
+    category?: boolean
+    levelId?: boolean
+    externalId?: boolean
+    importedValues?: boolean
     createdAt?: boolean
     updatedAt?: boolean
     map?: boolean | MapDefaultArgs<ExtArgs>
+    level?: boolean | Zone$levelArgs<ExtArgs>
   }, ExtArgs["result"]["zone"]>
 
   export type ZoneSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
@@ -2363,9 +3600,14 @@ export namespace Prisma {
     coordinates?: boolean
     content?: boolean
     style?: boolean
+    category?: boolean
+    levelId?: boolean
+    externalId?: boolean
+    importedValues?: boolean
     createdAt?: boolean
     updatedAt?: boolean
     map?: boolean | MapDefaultArgs<ExtArgs>
+    level?: boolean | Zone$levelArgs<ExtArgs>
   }, ExtArgs["result"]["zone"]>
 
   export type ZoneSelectScalar = {
@@ -2375,25 +3617,36 @@ export namespace Prisma {
     coordinates?: boolean
     content?: boolean
     style?: boolean
+    category?: boolean
+    levelId?: boolean
+    externalId?: boolean
+    importedValues?: boolean
     createdAt?: boolean
     updatedAt?: boolean
   }
 
-  export type ZoneOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "mapId" | "type" | "coordinates" | "content" | "style" | "createdAt" | "updatedAt", ExtArgs["result"]["zone"]>
+  export type ZoneOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "mapId" | "type" | "coordinates" | "content" | "style" | "category" | "levelId" | "externalId" | "importedValues" | "createdAt" | "updatedAt", ExtArgs["result"]["zone"]>
   export type ZoneInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
     map?: boolean | MapDefaultArgs<ExtArgs>
+    level?: boolean | Zone$levelArgs<ExtArgs>
+    media?: boolean | Zone$mediaArgs<ExtArgs>
+    _count?: boolean | ZoneCountOutputTypeDefaultArgs<ExtArgs>
   }
   export type ZoneIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
     map?: boolean | MapDefaultArgs<ExtArgs>
+    level?: boolean | Zone$levelArgs<ExtArgs>
   }
   export type ZoneIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
     map?: boolean | MapDefaultArgs<ExtArgs>
+    level?: boolean | Zone$levelArgs<ExtArgs>
   }
 
   export type $ZonePayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
     name: "Zone"
     objects: {
       map: Prisma.$MapPayload<ExtArgs>
+      level: Prisma.$LevelPayload<ExtArgs> | null
+      media: Prisma.$MediaPayload<ExtArgs>[]
     }
     scalars: $Extensions.GetPayloadResult<{
       id: string
@@ -2402,6 +3655,10 @@ export namespace Prisma {
       coordinates: string
       content: string
       style: string | null
+      category: string | null
+      levelId: string | null
+      externalId: string | null
+      importedValues: string | null
       createdAt: Date
       updatedAt: Date
     }, ExtArgs["result"]["zone"]>
@@ -2799,6 +4056,8 @@ export namespace Prisma {
   export interface Prisma__ZoneClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
     readonly [Symbol.toStringTag]: "PrismaPromise"
     map<T extends MapDefaultArgs<ExtArgs> = {}>(args?: Subset<T, MapDefaultArgs<ExtArgs>>): Prisma__MapClient<$Result.GetResult<Prisma.$MapPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+    level<T extends Zone$levelArgs<ExtArgs> = {}>(args?: Subset<T, Zone$levelArgs<ExtArgs>>): Prisma__LevelClient<$Result.GetResult<Prisma.$LevelPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+    media<T extends Zone$mediaArgs<ExtArgs> = {}>(args?: Subset<T, Zone$mediaArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$MediaPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
     /**
      * Attaches callbacks for the resolution and/or rejection of the Promise.
      * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -2834,6 +4093,10 @@ export namespace Prisma {
     readonly coordinates: FieldRef<"Zone", 'String'>
     readonly content: FieldRef<"Zone", 'String'>
     readonly style: FieldRef<"Zone", 'String'>
+    readonly category: FieldRef<"Zone", 'String'>
+    readonly levelId: FieldRef<"Zone", 'String'>
+    readonly externalId: FieldRef<"Zone", 'String'>
+    readonly importedValues: FieldRef<"Zone", 'String'>
     readonly createdAt: FieldRef<"Zone", 'DateTime'>
     readonly updatedAt: FieldRef<"Zone", 'DateTime'>
   }
@@ -3229,6 +4492,49 @@ export namespace Prisma {
     limit?: number
   }
 
+  /**
+   * Zone.level
+   */
+  export type Zone$levelArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Level
+     */
+    select?: LevelSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Level
+     */
+    omit?: LevelOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LevelInclude<ExtArgs> | null
+    where?: LevelWhereInput
+  }
+
+  /**
+   * Zone.media
+   */
+  export type Zone$mediaArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Media
+     */
+    select?: MediaSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Media
+     */
+    omit?: MediaOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MediaInclude<ExtArgs> | null
+    where?: MediaWhereInput
+    orderBy?: MediaOrderByWithRelationInput | MediaOrderByWithRelationInput[]
+    cursor?: MediaWhereUniqueInput
+    take?: number
+    skip?: number
+    distinct?: MediaScalarFieldEnum | MediaScalarFieldEnum[]
+  }
+
   /**
    * Zone without action
    */
@@ -3249,267 +4555,15220 @@ export namespace Prisma {
 
 
   /**
-   * Enums
+   * Model Level
    */
 
-  export const TransactionIsolationLevel: {
-    Serializable: 'Serializable'
-  };
+  export type AggregateLevel = {
+    _count: LevelCountAggregateOutputType | null
+    _avg: LevelAvgAggregateOutputType | null
+    _sum: LevelSumAggregateOutputType | null
+    _min: LevelMinAggregateOutputType | null
+    _max: LevelMaxAggregateOutputType | null
+  }
 
-  export type TransactionIsolationLevel = (typeof TransactionIsolationLevel)[keyof typeof TransactionIsolationLevel]
+  export type LevelAvgAggregateOutputType = {
+    ordinal: number | null
+    elevation: number | null
+  }
 
+  export type LevelSumAggregateOutputType = {
+    ordinal: number | null
+    elevation: number | null
+  }
 
-  export const MapScalarFieldEnum: {
-    id: 'id',
-    title: 'title',
-    description: 'description',
-    geographicBounds: 'geographicBounds',
-    canvasConfig: 'canvasConfig',
-    imageUrl: 'imageUrl',
-    useBaseMap: 'useBaseMap',
-    published: 'published',
-    categories: 'categories',
-    aiNavigatorEnabled: 'aiNavigatorEnabled',
-    aiNavigatorPrompt: 'aiNavigatorPrompt',
-    createdAt: 'createdAt',
-    updatedAt: 'updatedAt'
-  };
+  export type LevelMinAggregateOutputType = {
+    id: string | null
+    mapId: string | null
+    name: string | null
+    ordinal: number | null
+    imageUrl: string | null
+    imageMediaId: string | null
+    tiles: string | null
+    elevation: number | null
+    createdAt: Date | null
+    updatedAt: Date | null
+  }
 
-  export type MapScalarFieldEnum = (typeof MapScalarFieldEnum)[keyof typeof MapScalarFieldEnum]
+  export type LevelMaxAggregateOutputType = {
+    id: string | null
+    mapId: string | null
+    name: string | null
+    ordinal: number | null
+    imageUrl: string | null
+    imageMediaId: string | null
+    tiles: string | null
+    elevation: number | null
+    createdAt: Date | null
+    updatedAt: Date | null
+  }
 
+  export type LevelCountAggregateOutputType = {
+    id: number
+    mapId: number
+    name: number
+    ordinal: number
+    imageUrl: number
+    imageMediaId: number
+    tiles: number
+    elevation: number
+    createdAt: number
+    updatedAt: number
+    _all: number
+  }
+
+
+  export type LevelAvgAggregateInputType = {
+    ordinal?: true
+    elevation?: true
+  }
+
+  export type LevelSumAggregateInputType = {
+    ordinal?: true
+    elevation?: true
+  }
+
+  export type LevelMinAggregateInputType = {
+    id?: true
+    mapId?: true
+    name?: true
+    ordinal?: true
+    imageUrl?: true
+    imageMediaId?: true
+    tiles?: true
+    elevation?: true
+    createdAt?: true
+    updatedAt?: true
+  }
+
+  export type LevelMaxAggregateInputType = {
+    id?: true
+    mapId?: true
+    name?: true
+    ordinal?: true
+    imageUrl?: true
+    imageMediaId?: true
+    tiles?: true
+    elevation?: true
+    createdAt?: true
+    updatedAt?: true
+  }
+
+  export type LevelCountAggregateInputType = {
+    id?: true
+    mapId?: true
+    name?: true
+    ordinal?: true
+    imageUrl?: true
+    imageMediaId?: true
+    tiles?: true
+    elevation?: true
+    createdAt?: true
+    updatedAt?: true
+    _all?: true
+  }
+
+  export type LevelAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which Level to aggregate.
+     */
+    where?: LevelWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of Levels to fetch.
+     */
+    orderBy?: LevelOrderByWithRelationInput | LevelOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: LevelWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Levels from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Levels.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned Levels
+    **/
+    _count?: true | LevelCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to average
+    **/
+    _avg?: LevelAvgAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to sum
+    **/
+    _sum?: LevelSumAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: LevelMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: LevelMaxAggregateInputType
+  }
+
+  export type GetLevelAggregateType<T extends LevelAggregateArgs> = {
+        [P in keyof T & keyof AggregateLevel]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateLevel[P]>
+      : GetScalarType<T[P], AggregateLevel[P]>
+  }
+
+
+
+
+  export type LevelGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: LevelWhereInput
+    orderBy?: LevelOrderByWithAggregationInput | LevelOrderByWithAggregationInput[]
+    by: LevelScalarFieldEnum[] | LevelScalarFieldEnum
+    having?: LevelScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: LevelCountAggregateInputType | true
+    _avg?: LevelAvgAggregateInputType
+    _sum?: LevelSumAggregateInputType
+    _min?: LevelMinAggregateInputType
+    _max?: LevelMaxAggregateInputType
+  }
+
+  export type LevelGroupByOutputType = {
+    id: string
+    mapId: string
+    name: string
+    ordinal: number
+    imageUrl: string | null
+    imageMediaId: string | null
+    tiles: string | null
+    elevation: number
+    createdAt: Date
+    updatedAt: Date
+    _count: LevelCountAggregateOutputType | null
+    _avg: LevelAvgAggregateOutputType | null
+    _sum: LevelSumAggregateOutputType | null
+    _min: LevelMinAggregateOutputType | null
+    _max: LevelMaxAggregateOutputType | null
+  }
+
+  type GetLevelGroupByPayload<T extends LevelGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<LevelGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof LevelGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], LevelGroupByOutputType[P]>
+            : GetScalarType<T[P], LevelGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type LevelSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    mapId?: boolean
+    name?: boolean
+    ordinal?: boolean
+    imageUrl?: boolean
+    imageMediaId?: boolean
+    tiles?: boolean
+    elevation?: boolean
+    createdAt?: boolean
+    updatedAt?: boolean
+    map?: boolean | MapDefaultArgs<ExtArgs>
+    imageMedia?: boolean | Level$imageMediaArgs<ExtArgs>
+    zones?: boolean | Level$zonesArgs<ExtArgs>
+    _count?: boolean | LevelCountOutputTypeDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["level"]>
+
+  export type LevelSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    mapId?: boolean
+    name?: boolean
+    ordinal?: boolean
+    imageUrl?: boolean
+    imageMediaId?: boolean
+    tiles?: boolean
+    elevation?: boolean
+    createdAt?: boolean
+    updatedAt?: boolean
+    map?: boolean | MapDefaultArgs<ExtArgs>
+    imageMedia?: boolean | Level$imageMediaArgs<ExtArgs>
+  }, ExtArgs["result"]["level"]>
+
+  export type LevelSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    mapId?: boolean
+    name?: boolean
+    ordinal?: boolean
+    imageUrl?: boolean
+    imageMediaId?: boolean
+    tiles?: boolean
+    elevation?: boolean
+    createdAt?: boolean
+    updatedAt?: boolean
+    map?: boolean | MapDefaultArgs<ExtArgs>
+    imageMedia?: boolean | Level$imageMediaArgs<ExtArgs>
+  }, ExtArgs["result"]["level"]>
+
+  export type LevelSelectScalar = {
+    id?: boolean
+    mapId?: boolean
+    name?: boolean
+    ordinal?: boolean
+    imageUrl?: boolean
+    imageMediaId?: boolean
+    tiles?: boolean
+    elevation?: boolean
+    createdAt?: boolean
+    updatedAt?: boolean
+  }
+
+  export type LevelOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "mapId" | "name" | "ordinal" | "imageUrl" | "imageMediaId" | "tiles" | "elevation" | "createdAt" | "updatedAt", ExtArgs["result"]["level"]>
+  export type LevelInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    map?: boolean | MapDefaultArgs<ExtArgs>
+    imageMedia?: boolean | Level$imageMediaArgs<ExtArgs>
+    zones?: boolean | Level$zonesArgs<ExtArgs>
+    _count?: boolean | LevelCountOutputTypeDefaultArgs<ExtArgs>
+  }
+  export type LevelIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    map?: boolean | MapDefaultArgs<ExtArgs>
+    imageMedia?: boolean | Level$imageMediaArgs<ExtArgs>
+  }
+  export type LevelIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    map?: boolean | MapDefaultArgs<ExtArgs>
+    imageMedia?: boolean | Level$imageMediaArgs<ExtArgs>
+  }
+
+  export type $LevelPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "Level"
+    objects: {
+      map: Prisma.$MapPayload<ExtArgs>
+      imageMedia: Prisma.$MediaPayload<ExtArgs> | null
+      zones: Prisma.$ZonePayload<ExtArgs>[]
+    }
+    scalars: $Extensions.GetPayloadResult<{
+      id: string
+      mapId: string
+      name: string
+      ordinal: number
+      imageUrl: string | null
+      imageMediaId: string | null
+      tiles: string | null
+      elevation: number
+      createdAt: Date
+      updatedAt: Date
+    }, ExtArgs["result"]["level"]>
+    composites: {}
+  }
+
+  type LevelGetPayload<S extends boolean | null | undefined | LevelDefaultArgs> = $Result.GetResult<Prisma.$LevelPayload, S>
+
+  type LevelCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<LevelFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: LevelCountAggregateInputType | true
+    }
+
+  export interface LevelDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Level'], meta: { name: 'Level' } }
+    /**
+     * Find zero or one Level that matches the filter.
+     * @param {LevelFindUniqueArgs} args - Arguments to find a Level
+     * @example
+     * // Get one Level
+     * const level = await prisma.level.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends LevelFindUniqueArgs>(args: SelectSubset<T, LevelFindUniqueArgs<ExtArgs>>): Prisma__LevelClient<$Result.GetResult<Prisma.$LevelPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one Level that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {LevelFindUniqueOrThrowArgs} args - Arguments to find a Level
+     * @example
+     * // Get one Level
+     * const level = await prisma.level.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends LevelFindUniqueOrThrowArgs>(args: SelectSubset<T, LevelFindUniqueOrThrowArgs<ExtArgs>>): Prisma__LevelClient<$Result.GetResult<Prisma.$LevelPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first Level that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {LevelFindFirstArgs} args - Arguments to find a Level
+     * @example
+     * // Get one Level
+     * const level = await prisma.level.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends LevelFindFirstArgs>(args?: SelectSubset<T, LevelFindFirstArgs<ExtArgs>>): Prisma__LevelClient<$Result.GetResult<Prisma.$LevelPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first Level that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {LevelFindFirstOrThrowArgs} args - Arguments to find a Level
+     * @example
+     * // Get one Level
+     * const level = await prisma.level.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends LevelFindFirstOrThrowArgs>(args?: SelectSubset<T, LevelFindFirstOrThrowArgs<ExtArgs>>): Prisma__LevelClient<$Result.GetResult<Prisma.$LevelPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more Levels that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {LevelFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all Levels
+     * const levels = await prisma.level.findMany()
+     * 
+     * // Get first 10 Levels
+     * const levels = await prisma.level.findMany({ take: 10 })
+     * 
+     * // Only select the `id`
+     * const levelWithIdOnly = await prisma.level.findMany({ select: { id: true } })
+     * 
+     */
+    findMany<T extends LevelFindManyArgs>(args?: SelectSubset<T, LevelFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$LevelPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a Level.
+     * @param {LevelCreateArgs} args - Arguments to create a Level.
+     * @example
+     * // Create one Level
+     * const Level = await prisma.level.create({
+     *   data: {
+     *     // ... data to create a Level
+     *   }
+     * })
+     * 
+     */
+    create<T extends LevelCreateArgs>(args: SelectSubset<T, LevelCreateArgs<ExtArgs>>): Prisma__LevelClient<$Result.GetResult<Prisma.$LevelPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many Levels.
+     * @param {LevelCreateManyArgs} args - Arguments to create many Levels.
+     * @example
+     * // Create many Levels
+     * const level = await prisma.level.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends LevelCreateManyArgs>(args?: SelectSubset<T, LevelCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many Levels and returns the data saved in the database.
+     * @param {LevelCreateManyAndReturnArgs} args - Arguments to create many Levels.
+     * @example
+     * // Create many Levels
+     * const level = await prisma.level.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many Levels and only return the `id`
+     * const levelWithIdOnly = await prisma.level.createManyAndReturn({
+     *   select: { id: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends LevelCreateManyAndReturnArgs>(args?: SelectSubset<T, LevelCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$LevelPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a Level.
+     * @param {LevelDeleteArgs} args - Arguments to delete one Level.
+     * @example
+     * // Delete one Level
+     * const Level = await prisma.level.delete({
+     *   where: {
+     *     // ... filter to delete one Level
+     *   }
+     * })
+     * 
+     */
+    delete<T extends LevelDeleteArgs>(args: SelectSubset<T, LevelDeleteArgs<ExtArgs>>): Prisma__LevelClient<$Result.GetResult<Prisma.$LevelPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one Level.
+     * @param {LevelUpdateArgs} args - Arguments to update one Level.
+     * @example
+     * // Update one Level
+     * const level = await prisma.level.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends LevelUpdateArgs>(args: SelectSubset<T, LevelUpdateArgs<ExtArgs>>): Prisma__LevelClient<$Result.GetResult<Prisma.$LevelPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more Levels.
+     * @param {LevelDeleteManyArgs} args - Arguments to filter Levels to delete.
+     * @example
+     * // Delete a few Levels
+     * const { count } = await prisma.level.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends LevelDeleteManyArgs>(args?: SelectSubset<T, LevelDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more Levels.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {LevelUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many Levels
+     * const level = await prisma.level.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends LevelUpdateManyArgs>(args: SelectSubset<T, LevelUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more Levels and returns the data updated in the database.
+     * @param {LevelUpdateManyAndReturnArgs} args - Arguments to update many Levels.
+     * @example
+     * // Update many Levels
+     * const level = await prisma.level.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more Levels and only return the `id`
+     * const levelWithIdOnly = await prisma.level.updateManyAndReturn({
+     *   select: { id: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends LevelUpdateManyAndReturnArgs>(args: SelectSubset<T, LevelUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$LevelPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one Level.
+     * @param {LevelUpsertArgs} args - Arguments to update or create a Level.
+     * @example
+     * // Update or create a Level
+     * const level = await prisma.level.upsert({
+     *   create: {
+     *     // ... data to create a Level
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the Level we want to update
+     *   }
+     * })
+     */
+    upsert<T extends LevelUpsertArgs>(args: SelectSubset<T, LevelUpsertArgs<ExtArgs>>): Prisma__LevelClient<$Result.GetResult<Prisma.$LevelPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of Levels.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {LevelCountArgs} args - Arguments to filter Levels to count.
+     * @example
+     * // Count the number of Levels
+     * const count = await prisma.level.count({
+     *   where: {
+     *     // ... the filter for the Levels we want to count
+     *   }
+     * })
+    **/
+    count<T extends LevelCountArgs>(
+      args?: Subset<T, LevelCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], LevelCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a Level.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {LevelAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends LevelAggregateArgs>(args: Subset<T, LevelAggregateArgs>): Prisma.PrismaPromise<GetLevelAggregateType<T>>
+
+    /**
+     * Group by Level.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {LevelGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends LevelGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: LevelGroupByArgs['orderBy'] }
+        : { orderBy?: LevelGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, LevelGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetLevelGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the Level model
+   */
+  readonly fields: LevelFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for Level.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__LevelClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    map<T extends MapDefaultArgs<ExtArgs> = {}>(args?: Subset<T, MapDefaultArgs<ExtArgs>>): Prisma__MapClient<$Result.GetResult<Prisma.$MapPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+    imageMedia<T extends Level$imageMediaArgs<ExtArgs> = {}>(args?: Subset<T, Level$imageMediaArgs<ExtArgs>>): Prisma__MediaClient<$Result.GetResult<Prisma.$MediaPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+    zones<T extends Level$zonesArgs<ExtArgs> = {}>(args?: Subset<T, Level$zonesArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ZonePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the Level model
+   */
+  interface LevelFieldRefs {
+    readonly id: FieldRef<"Level", 'String'>
+    readonly mapId: FieldRef<"Level", 'String'>
+    readonly name: FieldRef<"Level", 'String'>
+    readonly ordinal: FieldRef<"Level", 'Int'>
+    readonly imageUrl: FieldRef<"Level", 'String'>
+    readonly imageMediaId: FieldRef<"Level", 'String'>
+    readonly tiles: FieldRef<"Level", 'String'>
+    readonly elevation: FieldRef<"Level", 'Float'>
+    readonly createdAt: FieldRef<"Level", 'DateTime'>
+    readonly updatedAt: FieldRef<"Level", 'DateTime'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * Level findUnique
+   */
+  export type LevelFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Level
+     */
+    select?: LevelSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Level
+     */
+    omit?: LevelOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LevelInclude<ExtArgs> | null
+    /**
+     * Filter, which Level to fetch.
+     */
+    where: LevelWhereUniqueInput
+  }
+
+  /**
+   * Level findUniqueOrThrow
+   */
+  export type LevelFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Level
+     */
+    select?: LevelSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Level
+     */
+    omit?: LevelOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LevelInclude<ExtArgs> | null
+    /**
+     * Filter, which Level to fetch.
+     */
+    where: LevelWhereUniqueInput
+  }
+
+  /**
+   * Level findFirst
+   */
+  export type LevelFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Level
+     */
+    select?: LevelSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Level
+     */
+    omit?: LevelOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LevelInclude<ExtArgs> | null
+    /**
+     * Filter, which Level to fetch.
+     */
+    where?: LevelWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of Levels to fetch.
+     */
+    orderBy?: LevelOrderByWithRelationInput | LevelOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for Levels.
+     */
+    cursor?: LevelWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Levels from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Levels.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of Levels.
+     */
+    distinct?: LevelScalarFieldEnum | LevelScalarFieldEnum[]
+  }
+
+  /**
+   * Level findFirstOrThrow
+   */
+  export type LevelFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Level
+     */
+    select?: LevelSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Level
+     */
+    omit?: LevelOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LevelInclude<ExtArgs> | null
+    /**
+     * Filter, which Level to fetch.
+     */
+    where?: LevelWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of Levels to fetch.
+     */
+    orderBy?: LevelOrderByWithRelationInput | LevelOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for Levels.
+     */
+    cursor?: LevelWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Levels from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Levels.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of Levels.
+     */
+    distinct?: LevelScalarFieldEnum | LevelScalarFieldEnum[]
+  }
+
+  /**
+   * Level findMany
+   */
+  export type LevelFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Level
+     */
+    select?: LevelSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Level
+     */
+    omit?: LevelOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LevelInclude<ExtArgs> | null
+    /**
+     * Filter, which Levels to fetch.
+     */
+    where?: LevelWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of Levels to fetch.
+     */
+    orderBy?: LevelOrderByWithRelationInput | LevelOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing Levels.
+     */
+    cursor?: LevelWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Levels from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Levels.
+     */
+    skip?: number
+    distinct?: LevelScalarFieldEnum | LevelScalarFieldEnum[]
+  }
+
+  /**
+   * Level create
+   */
+  export type LevelCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Level
+     */
+    select?: LevelSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Level
+     */
+    omit?: LevelOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LevelInclude<ExtArgs> | null
+    /**
+     * The data needed to create a Level.
+     */
+    data: XOR<LevelCreateInput, LevelUncheckedCreateInput>
+  }
+
+  /**
+   * Level createMany
+   */
+  export type LevelCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many Levels.
+     */
+    data: LevelCreateManyInput | LevelCreateManyInput[]
+  }
+
+  /**
+   * Level createManyAndReturn
+   */
+  export type LevelCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Level
+     */
+    select?: LevelSelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the Level
+     */
+    omit?: LevelOmit<ExtArgs> | null
+    /**
+     * The data used to create many Levels.
+     */
+    data: LevelCreateManyInput | LevelCreateManyInput[]
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LevelIncludeCreateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * Level update
+   */
+  export type LevelUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Level
+     */
+    select?: LevelSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Level
+     */
+    omit?: LevelOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LevelInclude<ExtArgs> | null
+    /**
+     * The data needed to update a Level.
+     */
+    data: XOR<LevelUpdateInput, LevelUncheckedUpdateInput>
+    /**
+     * Choose, which Level to update.
+     */
+    where: LevelWhereUniqueInput
+  }
+
+  /**
+   * Level updateMany
+   */
+  export type LevelUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update Levels.
+     */
+    data: XOR<LevelUpdateManyMutationInput, LevelUncheckedUpdateManyInput>
+    /**
+     * Filter which Levels to update
+     */
+    where?: LevelWhereInput
+    /**
+     * Limit how many Levels to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * Level updateManyAndReturn
+   */
+  export type LevelUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Level
+     */
+    select?: LevelSelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the Level
+     */
+    omit?: LevelOmit<ExtArgs> | null
+    /**
+     * The data used to update Levels.
+     */
+    data: XOR<LevelUpdateManyMutationInput, LevelUncheckedUpdateManyInput>
+    /**
+     * Filter which Levels to update
+     */
+    where?: LevelWhereInput
+    /**
+     * Limit how many Levels to update.
+     */
+    limit?: number
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LevelIncludeUpdateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * Level upsert
+   */
+  export type LevelUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Level
+     */
+    select?: LevelSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Level
+     */
+    omit?: LevelOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LevelInclude<ExtArgs> | null
+    /**
+     * The filter to search for the Level to update in case it exists.
+     */
+    where: LevelWhereUniqueInput
+    /**
+     * In case the Level found by the `where` argument doesn't exist, create a new Level with this data.
+     */
+    create: XOR<LevelCreateInput, LevelUncheckedCreateInput>
+    /**
+     * In case the Level was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<LevelUpdateInput, LevelUncheckedUpdateInput>
+  }
+
+  /**
+   * Level delete
+   */
+  export type LevelDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Level
+     */
+    select?: LevelSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Level
+     */
+    omit?: LevelOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LevelInclude<ExtArgs> | null
+    /**
+     * Filter which Level to delete.
+     */
+    where: LevelWhereUniqueInput
+  }
+
+  /**
+   * Level deleteMany
+   */
+  export type LevelDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which Levels to delete
+     */
+    where?: LevelWhereInput
+    /**
+     * Limit how many Levels to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * Level.imageMedia
+   */
+  export type Level$imageMediaArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Media
+     */
+    select?: MediaSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Media
+     */
+    omit?: MediaOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MediaInclude<ExtArgs> | null
+    where?: MediaWhereInput
+  }
+
+  /**
+   * Level.zones
+   */
+  export type Level$zonesArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Zone
+     */
+    select?: ZoneSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Zone
+     */
+    omit?: ZoneOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ZoneInclude<ExtArgs> | null
+    where?: ZoneWhereInput
+    orderBy?: ZoneOrderByWithRelationInput | ZoneOrderByWithRelationInput[]
+    cursor?: ZoneWhereUniqueInput
+    take?: number
+    skip?: number
+    distinct?: ZoneScalarFieldEnum | ZoneScalarFieldEnum[]
+  }
+
+  /**
+   * Level without action
+   */
+  export type LevelDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Level
+     */
+    select?: LevelSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Level
+     */
+    omit?: LevelOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LevelInclude<ExtArgs> | null
+  }
+
+
+  /**
+   * Model MapRevision
+   */
+
+  export type AggregateMapRevision = {
+    _count: MapRevisionCountAggregateOutputType | null
+    _min: MapRevisionMinAggregateOutputType | null
+    _max: MapRevisionMaxAggregateOutputType | null
+  }
+
+  export type MapRevisionMinAggregateOutputType = {
+    id: string | null
+    mapId: string | null
+    snapshot: string | null
+    author: string | null
+    message: string | null
+    createdAt: Date | null
+  }
+
+  export type MapRevisionMaxAggregateOutputType = {
+    id: string | null
+    mapId: string | null
+    snapshot: string | null
+    author: string | null
+    message: string | null
+    createdAt: Date | null
+  }
+
+  export type MapRevisionCountAggregateOutputType = {
+    id: number
+    mapId: number
+    snapshot: number
+    author: number
+    message: number
+    createdAt: number
+    _all: number
+  }
+
+
+  export type MapRevisionMinAggregateInputType = {
+    id?: true
+    mapId?: true
+    snapshot?: true
+    author?: true
+    message?: true
+    createdAt?: true
+  }
+
+  export type MapRevisionMaxAggregateInputType = {
+    id?: true
+    mapId?: true
+    snapshot?: true
+    author?: true
+    message?: true
+    createdAt?: true
+  }
+
+  export type MapRevisionCountAggregateInputType = {
+    id?: true
+    mapId?: true
+    snapshot?: true
+    author?: true
+    message?: true
+    createdAt?: true
+    _all?: true
+  }
+
+  export type MapRevisionAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which MapRevision to aggregate.
+     */
+    where?: MapRevisionWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of MapRevisions to fetch.
+     */
+    orderBy?: MapRevisionOrderByWithRelationInput | MapRevisionOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: MapRevisionWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` MapRevisions from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` MapRevisions.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned MapRevisions
+    **/
+    _count?: true | MapRevisionCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: MapRevisionMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: MapRevisionMaxAggregateInputType
+  }
+
+  export type GetMapRevisionAggregateType<T extends MapRevisionAggregateArgs> = {
+        [P in keyof T & keyof AggregateMapRevision]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateMapRevision[P]>
+      : GetScalarType<T[P], AggregateMapRevision[P]>
+  }
+
+
+
+
+  export type MapRevisionGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: MapRevisionWhereInput
+    orderBy?: MapRevisionOrderByWithAggregationInput | MapRevisionOrderByWithAggregationInput[]
+    by: MapRevisionScalarFieldEnum[] | MapRevisionScalarFieldEnum
+    having?: MapRevisionScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: MapRevisionCountAggregateInputType | true
+    _min?: MapRevisionMinAggregateInputType
+    _max?: MapRevisionMaxAggregateInputType
+  }
+
+  export type MapRevisionGroupByOutputType = {
+    id: string
+    mapId: string
+    snapshot: string
+    author: string | null
+    message: string | null
+    createdAt: Date
+    _count: MapRevisionCountAggregateOutputType | null
+    _min: MapRevisionMinAggregateOutputType | null
+    _max: MapRevisionMaxAggregateOutputType | null
+  }
+
+  type GetMapRevisionGroupByPayload<T extends MapRevisionGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<MapRevisionGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof MapRevisionGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], MapRevisionGroupByOutputType[P]>
+            : GetScalarType<T[P], MapRevisionGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type MapRevisionSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    mapId?: boolean
+    snapshot?: boolean
+    author?: boolean
+    message?: boolean
+    createdAt?: boolean
+    map?: boolean | MapDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["mapRevision"]>
+
+  export type MapRevisionSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    mapId?: boolean
+    snapshot?: boolean
+    author?: boolean
+    message?: boolean
+    createdAt?: boolean
+    map?: boolean | MapDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["mapRevision"]>
+
+  export type MapRevisionSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    mapId?: boolean
+    snapshot?: boolean
+    author?: boolean
+    message?: boolean
+    createdAt?: boolean
+    map?: boolean | MapDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["mapRevision"]>
+
+  export type MapRevisionSelectScalar = {
+    id?: boolean
+    mapId?: boolean
+    snapshot?: boolean
+    author?: boolean
+    message?: boolean
+    createdAt?: boolean
+  }
+
+  export type MapRevisionOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "mapId" | "snapshot" | "author" | "message" | "createdAt", ExtArgs["result"]["mapRevision"]>
+  export type MapRevisionInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    map?: boolean | MapDefaultArgs<ExtArgs>
+  }
+  export type MapRevisionIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    map?: boolean | MapDefaultArgs<ExtArgs>
+  }
+  export type MapRevisionIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    map?: boolean | MapDefaultArgs<ExtArgs>
+  }
+
+  export type $MapRevisionPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "MapRevision"
+    objects: {
+      map: Prisma.$MapPayload<ExtArgs>
+    }
+    scalars: $Extensions.GetPayloadResult<{
+      id: string
+      mapId: string
+      snapshot: string
+      author: string | null
+      message: string | null
+      createdAt: Date
+    }, ExtArgs["result"]["mapRevision"]>
+    composites: {}
+  }
+
+  type MapRevisionGetPayload<S extends boolean | null | undefined | MapRevisionDefaultArgs> = $Result.GetResult<Prisma.$MapRevisionPayload, S>
+
+  type MapRevisionCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<MapRevisionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: MapRevisionCountAggregateInputType | true
+    }
+
+  export interface MapRevisionDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['MapRevision'], meta: { name: 'MapRevision' } }
+    /**
+     * Find zero or one MapRevision that matches the filter.
+     * @param {MapRevisionFindUniqueArgs} args - Arguments to find a MapRevision
+     * @example
+     * // Get one MapRevision
+     * const mapRevision = await prisma.mapRevision.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends MapRevisionFindUniqueArgs>(args: SelectSubset<T, MapRevisionFindUniqueArgs<ExtArgs>>): Prisma__MapRevisionClient<$Result.GetResult<Prisma.$MapRevisionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one MapRevision that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {MapRevisionFindUniqueOrThrowArgs} args - Arguments to find a MapRevision
+     * @example
+     * // Get one MapRevision
+     * const mapRevision = await prisma.mapRevision.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends MapRevisionFindUniqueOrThrowArgs>(args: SelectSubset<T, MapRevisionFindUniqueOrThrowArgs<ExtArgs>>): Prisma__MapRevisionClient<$Result.GetResult<Prisma.$MapRevisionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first MapRevision that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MapRevisionFindFirstArgs} args - Arguments to find a MapRevision
+     * @example
+     * // Get one MapRevision
+     * const mapRevision = await prisma.mapRevision.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends MapRevisionFindFirstArgs>(args?: SelectSubset<T, MapRevisionFindFirstArgs<ExtArgs>>): Prisma__MapRevisionClient<$Result.GetResult<Prisma.$MapRevisionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first MapRevision that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MapRevisionFindFirstOrThrowArgs} args - Arguments to find a MapRevision
+     * @example
+     * // Get one MapRevision
+     * const mapRevision = await prisma.mapRevision.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends MapRevisionFindFirstOrThrowArgs>(args?: SelectSubset<T, MapRevisionFindFirstOrThrowArgs<ExtArgs>>): Prisma__MapRevisionClient<$Result.GetResult<Prisma.$MapRevisionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more MapRevisions that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MapRevisionFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all MapRevisions
+     * const mapRevisions = await prisma.mapRevision.findMany()
+     * 
+     * // Get first 10 MapRevisions
+     * const mapRevisions = await prisma.mapRevision.findMany({ take: 10 })
+     * 
+     * // Only select the `id`
+     * const mapRevisionWithIdOnly = await prisma.mapRevision.findMany({ select: { id: true } })
+     * 
+     */
+    findMany<T extends MapRevisionFindManyArgs>(args?: SelectSubset<T, MapRevisionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$MapRevisionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a MapRevision.
+     * @param {MapRevisionCreateArgs} args - Arguments to create a MapRevision.
+     * @example
+     * // Create one MapRevision
+     * const MapRevision = await prisma.mapRevision.create({
+     *   data: {
+     *     // ... data to create a MapRevision
+     *   }
+     * })
+     * 
+     */
+    create<T extends MapRevisionCreateArgs>(args: SelectSubset<T, MapRevisionCreateArgs<ExtArgs>>): Prisma__MapRevisionClient<$Result.GetResult<Prisma.$MapRevisionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many MapRevisions.
+     * @param {MapRevisionCreateManyArgs} args - Arguments to create many MapRevisions.
+     * @example
+     * // Create many MapRevisions
+     * const mapRevision = await prisma.mapRevision.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends MapRevisionCreateManyArgs>(args?: SelectSubset<T, MapRevisionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many MapRevisions and returns the data saved in the database.
+     * @param {MapRevisionCreateManyAndReturnArgs} args - Arguments to create many MapRevisions.
+     * @example
+     * // Create many MapRevisions
+     * const mapRevision = await prisma.mapRevision.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many MapRevisions and only return the `id`
+     * const mapRevisionWithIdOnly = await prisma.mapRevision.createManyAndReturn({
+     *   select: { id: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends MapRevisionCreateManyAndReturnArgs>(args?: SelectSubset<T, MapRevisionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$MapRevisionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a MapRevision.
+     * @param {MapRevisionDeleteArgs} args - Arguments to delete one MapRevision.
+     * @example
+     * // Delete one MapRevision
+     * const MapRevision = await prisma.mapRevision.delete({
+     *   where: {
+     *     // ... filter to delete one MapRevision
+     *   }
+     * })
+     * 
+     */
+    delete<T extends MapRevisionDeleteArgs>(args: SelectSubset<T, MapRevisionDeleteArgs<ExtArgs>>): Prisma__MapRevisionClient<$Result.GetResult<Prisma.$MapRevisionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one MapRevision.
+     * @param {MapRevisionUpdateArgs} args - Arguments to update one MapRevision.
+     * @example
+     * // Update one MapRevision
+     * const mapRevision = await prisma.mapRevision.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends MapRevisionUpdateArgs>(args: SelectSubset<T, MapRevisionUpdateArgs<ExtArgs>>): Prisma__MapRevisionClient<$Result.GetResult<Prisma.$MapRevisionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more MapRevisions.
+     * @param {MapRevisionDeleteManyArgs} args - Arguments to filter MapRevisions to delete.
+     * @example
+     * // Delete a few MapRevisions
+     * const { count } = await prisma.mapRevision.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends MapRevisionDeleteManyArgs>(args?: SelectSubset<T, MapRevisionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more MapRevisions.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MapRevisionUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many MapRevisions
+     * const mapRevision = await prisma.mapRevision.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends MapRevisionUpdateManyArgs>(args: SelectSubset<T, MapRevisionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more MapRevisions and returns the data updated in the database.
+     * @param {MapRevisionUpdateManyAndReturnArgs} args - Arguments to update many MapRevisions.
+     * @example
+     * // Update many MapRevisions
+     * const mapRevision = await prisma.mapRevision.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more MapRevisions and only return the `id`
+     * const mapRevisionWithIdOnly = await prisma.mapRevision.updateManyAndReturn({
+     *   select: { id: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends MapRevisionUpdateManyAndReturnArgs>(args: SelectSubset<T, MapRevisionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$MapRevisionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one MapRevision.
+     * @param {MapRevisionUpsertArgs} args - Arguments to update or create a MapRevision.
+     * @example
+     * // Update or create a MapRevision
+     * const mapRevision = await prisma.mapRevision.upsert({
+     *   create: {
+     *     // ... data to create a MapRevision
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the MapRevision we want to update
+     *   }
+     * })
+     */
+    upsert<T extends MapRevisionUpsertArgs>(args: SelectSubset<T, MapRevisionUpsertArgs<ExtArgs>>): Prisma__MapRevisionClient<$Result.GetResult<Prisma.$MapRevisionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of MapRevisions.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MapRevisionCountArgs} args - Arguments to filter MapRevisions to count.
+     * @example
+     * // Count the number of MapRevisions
+     * const count = await prisma.mapRevision.count({
+     *   where: {
+     *     // ... the filter for the MapRevisions we want to count
+     *   }
+     * })
+    **/
+    count<T extends MapRevisionCountArgs>(
+      args?: Subset<T, MapRevisionCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], MapRevisionCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a MapRevision.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MapRevisionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends MapRevisionAggregateArgs>(args: Subset<T, MapRevisionAggregateArgs>): Prisma.PrismaPromise<GetMapRevisionAggregateType<T>>
+
+    /**
+     * Group by MapRevision.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MapRevisionGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends MapRevisionGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: MapRevisionGroupByArgs['orderBy'] }
+        : { orderBy?: MapRevisionGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, MapRevisionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetMapRevisionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the MapRevision model
+   */
+  readonly fields: MapRevisionFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for MapRevision.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__MapRevisionClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    map<T extends MapDefaultArgs<ExtArgs> = {}>(args?: Subset<T, MapDefaultArgs<ExtArgs>>): Prisma__MapClient<$Result.GetResult<Prisma.$MapPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the MapRevision model
+   */
+  interface MapRevisionFieldRefs {
+    readonly id: FieldRef<"MapRevision", 'String'>
+    readonly mapId: FieldRef<"MapRevision", 'String'>
+    readonly snapshot: FieldRef<"MapRevision", 'String'>
+    readonly author: FieldRef<"MapRevision", 'String'>
+    readonly message: FieldRef<"MapRevision", 'String'>
+    readonly createdAt: FieldRef<"MapRevision", 'DateTime'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * MapRevision findUnique
+   */
+  export type MapRevisionFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MapRevision
+     */
+    select?: MapRevisionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MapRevision
+     */
+    omit?: MapRevisionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapRevisionInclude<ExtArgs> | null
+    /**
+     * Filter, which MapRevision to fetch.
+     */
+    where: MapRevisionWhereUniqueInput
+  }
+
+  /**
+   * MapRevision findUniqueOrThrow
+   */
+  export type MapRevisionFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MapRevision
+     */
+    select?: MapRevisionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MapRevision
+     */
+    omit?: MapRevisionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapRevisionInclude<ExtArgs> | null
+    /**
+     * Filter, which MapRevision to fetch.
+     */
+    where: MapRevisionWhereUniqueInput
+  }
+
+  /**
+   * MapRevision findFirst
+   */
+  export type MapRevisionFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MapRevision
+     */
+    select?: MapRevisionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MapRevision
+     */
+    omit?: MapRevisionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapRevisionInclude<ExtArgs> | null
+    /**
+     * Filter, which MapRevision to fetch.
+     */
+    where?: MapRevisionWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of MapRevisions to fetch.
+     */
+    orderBy?: MapRevisionOrderByWithRelationInput | MapRevisionOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for MapRevisions.
+     */
+    cursor?: MapRevisionWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` MapRevisions from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` MapRevisions.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of MapRevisions.
+     */
+    distinct?: MapRevisionScalarFieldEnum | MapRevisionScalarFieldEnum[]
+  }
+
+  /**
+   * MapRevision findFirstOrThrow
+   */
+  export type MapRevisionFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MapRevision
+     */
+    select?: MapRevisionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MapRevision
+     */
+    omit?: MapRevisionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapRevisionInclude<ExtArgs> | null
+    /**
+     * Filter, which MapRevision to fetch.
+     */
+    where?: MapRevisionWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of MapRevisions to fetch.
+     */
+    orderBy?: MapRevisionOrderByWithRelationInput | MapRevisionOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for MapRevisions.
+     */
+    cursor?: MapRevisionWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` MapRevisions from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` MapRevisions.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of MapRevisions.
+     */
+    distinct?: MapRevisionScalarFieldEnum | MapRevisionScalarFieldEnum[]
+  }
+
+  /**
+   * MapRevision findMany
+   */
+  export type MapRevisionFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MapRevision
+     */
+    select?: MapRevisionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MapRevision
+     */
+    omit?: MapRevisionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapRevisionInclude<ExtArgs> | null
+    /**
+     * Filter, which MapRevisions to fetch.
+     */
+    where?: MapRevisionWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of MapRevisions to fetch.
+     */
+    orderBy?: MapRevisionOrderByWithRelationInput | MapRevisionOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing MapRevisions.
+     */
+    cursor?: MapRevisionWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` MapRevisions from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` MapRevisions.
+     */
+    skip?: number
+    distinct?: MapRevisionScalarFieldEnum | MapRevisionScalarFieldEnum[]
+  }
+
+  /**
+   * MapRevision create
+   */
+  export type MapRevisionCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MapRevision
+     */
+    select?: MapRevisionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MapRevision
+     */
+    omit?: MapRevisionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapRevisionInclude<ExtArgs> | null
+    /**
+     * The data needed to create a MapRevision.
+     */
+    data: XOR<MapRevisionCreateInput, MapRevisionUncheckedCreateInput>
+  }
+
+  /**
+   * MapRevision createMany
+   */
+  export type MapRevisionCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many MapRevisions.
+     */
+    data: MapRevisionCreateManyInput | MapRevisionCreateManyInput[]
+  }
+
+  /**
+   * MapRevision createManyAndReturn
+   */
+  export type MapRevisionCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MapRevision
+     */
+    select?: MapRevisionSelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the MapRevision
+     */
+    omit?: MapRevisionOmit<ExtArgs> | null
+    /**
+     * The data used to create many MapRevisions.
+     */
+    data: MapRevisionCreateManyInput | MapRevisionCreateManyInput[]
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapRevisionIncludeCreateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * MapRevision update
+   */
+  export type MapRevisionUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MapRevision
+     */
+    select?: MapRevisionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MapRevision
+     */
+    omit?: MapRevisionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapRevisionInclude<ExtArgs> | null
+    /**
+     * The data needed to update a MapRevision.
+     */
+    data: XOR<MapRevisionUpdateInput, MapRevisionUncheckedUpdateInput>
+    /**
+     * Choose, which MapRevision to update.
+     */
+    where: MapRevisionWhereUniqueInput
+  }
+
+  /**
+   * MapRevision updateMany
+   */
+  export type MapRevisionUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update MapRevisions.
+     */
+    data: XOR<MapRevisionUpdateManyMutationInput, MapRevisionUncheckedUpdateManyInput>
+    /**
+     * Filter which MapRevisions to update
+     */
+    where?: MapRevisionWhereInput
+    /**
+     * Limit how many MapRevisions to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * MapRevision updateManyAndReturn
+   */
+  export type MapRevisionUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MapRevision
+     */
+    select?: MapRevisionSelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the MapRevision
+     */
+    omit?: MapRevisionOmit<ExtArgs> | null
+    /**
+     * The data used to update MapRevisions.
+     */
+    data: XOR<MapRevisionUpdateManyMutationInput, MapRevisionUncheckedUpdateManyInput>
+    /**
+     * Filter which MapRevisions to update
+     */
+    where?: MapRevisionWhereInput
+    /**
+     * Limit how many MapRevisions to update.
+     */
+    limit?: number
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapRevisionIncludeUpdateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * MapRevision upsert
+   */
+  export type MapRevisionUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MapRevision
+     */
+    select?: MapRevisionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MapRevision
+     */
+    omit?: MapRevisionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapRevisionInclude<ExtArgs> | null
+    /**
+     * The filter to search for the MapRevision to update in case it exists.
+     */
+    where: MapRevisionWhereUniqueInput
+    /**
+     * In case the MapRevision found by the `where` argument doesn't exist, create a new MapRevision with this data.
+     */
+    create: XOR<MapRevisionCreateInput, MapRevisionUncheckedCreateInput>
+    /**
+     * In case the MapRevision was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<MapRevisionUpdateInput, MapRevisionUncheckedUpdateInput>
+  }
+
+  /**
+   * MapRevision delete
+   */
+  export type MapRevisionDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MapRevision
+     */
+    select?: MapRevisionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MapRevision
+     */
+    omit?: MapRevisionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapRevisionInclude<ExtArgs> | null
+    /**
+     * Filter which MapRevision to delete.
+     */
+    where: MapRevisionWhereUniqueInput
+  }
+
+  /**
+   * MapRevision deleteMany
+   */
+  export type MapRevisionDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which MapRevisions to delete
+     */
+    where?: MapRevisionWhereInput
+    /**
+     * Limit how many MapRevisions to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * MapRevision without action
+   */
+  export type MapRevisionDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MapRevision
+     */
+    select?: MapRevisionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MapRevision
+     */
+    omit?: MapRevisionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapRevisionInclude<ExtArgs> | null
+  }
+
+
+  /**
+   * Model User
+   */
+
+  export type AggregateUser = {
+    _count: UserCountAggregateOutputType | null
+    _min: UserMinAggregateOutputType | null
+    _max: UserMaxAggregateOutputType | null
+  }
+
+  export type UserMinAggregateOutputType = {
+    id: string | null
+    email: string | null
+    name: string | null
+    passwordHash: string | null
+    createdAt: Date | null
+    updatedAt: Date | null
+  }
+
+  export type UserMaxAggregateOutputType = {
+    id: string | null
+    email: string | null
+    name: string | null
+    passwordHash: string | null
+    createdAt: Date | null
+    updatedAt: Date | null
+  }
+
+  export type UserCountAggregateOutputType = {
+    id: number
+    email: number
+    name: number
+    passwordHash: number
+    createdAt: number
+    updatedAt: number
+    _all: number
+  }
+
+
+  export type UserMinAggregateInputType = {
+    id?: true
+    email?: true
+    name?: true
+    passwordHash?: true
+    createdAt?: true
+    updatedAt?: true
+  }
+
+  export type UserMaxAggregateInputType = {
+    id?: true
+    email?: true
+    name?: true
+    passwordHash?: true
+    createdAt?: true
+    updatedAt?: true
+  }
+
+  export type UserCountAggregateInputType = {
+    id?: true
+    email?: true
+    name?: true
+    passwordHash?: true
+    createdAt?: true
+    updatedAt?: true
+    _all?: true
+  }
+
+  export type UserAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which User to aggregate.
+     */
+    where?: UserWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of Users to fetch.
+     */
+    orderBy?: UserOrderByWithRelationInput | UserOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: UserWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Users from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Users.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned Users
+    **/
+    _count?: true | UserCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: UserMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: UserMaxAggregateInputType
+  }
+
+  export type GetUserAggregateType<T extends UserAggregateArgs> = {
+        [P in keyof T & keyof AggregateUser]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateUser[P]>
+      : GetScalarType<T[P], AggregateUser[P]>
+  }
+
+
+
+
+  export type UserGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: UserWhereInput
+    orderBy?: UserOrderByWithAggregationInput | UserOrderByWithAggregationInput[]
+    by: UserScalarFieldEnum[] | UserScalarFieldEnum
+    having?: UserScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: UserCountAggregateInputType | true
+    _min?: UserMinAggregateInputType
+    _max?: UserMaxAggregateInputType
+  }
+
+  export type UserGroupByOutputType = {
+    id: string
+    email: string
+    name: string | null
+    passwordHash: string
+    createdAt: Date
+    updatedAt: Date
+    _count: UserCountAggregateOutputType | null
+    _min: UserMinAggregateOutputType | null
+    _max: UserMaxAggregateOutputType | null
+  }
+
+  type GetUserGroupByPayload<T extends UserGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<UserGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof UserGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], UserGroupByOutputType[P]>
+            : GetScalarType<T[P], UserGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type UserSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    email?: boolean
+    name?: boolean
+    passwordHash?: boolean
+    createdAt?: boolean
+    updatedAt?: boolean
+    memberships?: boolean | User$membershipsArgs<ExtArgs>
+    geocodeJobs?: boolean | User$geocodeJobsArgs<ExtArgs>
+    _count?: boolean | UserCountOutputTypeDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["user"]>
+
+  export type UserSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    email?: boolean
+    name?: boolean
+    passwordHash?: boolean
+    createdAt?: boolean
+    updatedAt?: boolean
+  }, ExtArgs["result"]["user"]>
+
+  export type UserSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    email?: boolean
+    name?: boolean
+    passwordHash?: boolean
+    createdAt?: boolean
+    updatedAt?: boolean
+  }, ExtArgs["result"]["user"]>
+
+  export type UserSelectScalar = {
+    id?: boolean
+    email?: boolean
+    name?: boolean
+    passwordHash?: boolean
+    createdAt?: boolean
+    updatedAt?: boolean
+  }
+
+  export type UserOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "email" | "name" | "passwordHash" | "createdAt" | "updatedAt", ExtArgs["result"]["user"]>
+  export type UserInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    memberships?: boolean | User$membershipsArgs<ExtArgs>
+    geocodeJobs?: boolean | User$geocodeJobsArgs<ExtArgs>
+    _count?: boolean | UserCountOutputTypeDefaultArgs<ExtArgs>
+  }
+  export type UserIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {}
+  export type UserIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {}
+
+  export type $UserPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "User"
+    objects: {
+      memberships: Prisma.$MapMemberPayload<ExtArgs>[]
+      geocodeJobs: Prisma.$GeocodeJobPayload<ExtArgs>[]
+    }
+    scalars: $Extensions.GetPayloadResult<{
+      id: string
+      email: string
+      name: string | null
+      passwordHash: string
+      createdAt: Date
+      updatedAt: Date
+    }, ExtArgs["result"]["user"]>
+    composites: {}
+  }
+
+  type UserGetPayload<S extends boolean | null | undefined | UserDefaultArgs> = $Result.GetResult<Prisma.$UserPayload, S>
+
+  type UserCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<UserFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: UserCountAggregateInputType | true
+    }
+
+  export interface UserDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['User'], meta: { name: 'User' } }
+    /**
+     * Find zero or one User that matches the filter.
+     * @param {UserFindUniqueArgs} args - Arguments to find a User
+     * @example
+     * // Get one User
+     * const user = await prisma.user.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends UserFindUniqueArgs>(args: SelectSubset<T, UserFindUniqueArgs<ExtArgs>>): Prisma__UserClient<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one User that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {UserFindUniqueOrThrowArgs} args - Arguments to find a User
+     * @example
+     * // Get one User
+     * const user = await prisma.user.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends UserFindUniqueOrThrowArgs>(args: SelectSubset<T, UserFindUniqueOrThrowArgs<ExtArgs>>): Prisma__UserClient<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first User that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {UserFindFirstArgs} args - Arguments to find a User
+     * @example
+     * // Get one User
+     * const user = await prisma.user.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends UserFindFirstArgs>(args?: SelectSubset<T, UserFindFirstArgs<ExtArgs>>): Prisma__UserClient<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first User that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {UserFindFirstOrThrowArgs} args - Arguments to find a User
+     * @example
+     * // Get one User
+     * const user = await prisma.user.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends UserFindFirstOrThrowArgs>(args?: SelectSubset<T, UserFindFirstOrThrowArgs<ExtArgs>>): Prisma__UserClient<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more Users that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {UserFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all Users
+     * const users = await prisma.user.findMany()
+     * 
+     * // Get first 10 Users
+     * const users = await prisma.user.findMany({ take: 10 })
+     * 
+     * // Only select the `id`
+     * const userWithIdOnly = await prisma.user.findMany({ select: { id: true } })
+     * 
+     */
+    findMany<T extends UserFindManyArgs>(args?: SelectSubset<T, UserFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a User.
+     * @param {UserCreateArgs} args - Arguments to create a User.
+     * @example
+     * // Create one User
+     * const User = await prisma.user.create({
+     *   data: {
+     *     // ... data to create a User
+     *   }
+     * })
+     * 
+     */
+    create<T extends UserCreateArgs>(args: SelectSubset<T, UserCreateArgs<ExtArgs>>): Prisma__UserClient<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many Users.
+     * @param {UserCreateManyArgs} args - Arguments to create many Users.
+     * @example
+     * // Create many Users
+     * const user = await prisma.user.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends UserCreateManyArgs>(args?: SelectSubset<T, UserCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many Users and returns the data saved in the database.
+     * @param {UserCreateManyAndReturnArgs} args - Arguments to create many Users.
+     * @example
+     * // Create many Users
+     * const user = await prisma.user.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many Users and only return the `id`
+     * const userWithIdOnly = await prisma.user.createManyAndReturn({
+     *   select: { id: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends UserCreateManyAndReturnArgs>(args?: SelectSubset<T, UserCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a User.
+     * @param {UserDeleteArgs} args - Arguments to delete one User.
+     * @example
+     * // Delete one User
+     * const User = await prisma.user.delete({
+     *   where: {
+     *     // ... filter to delete one User
+     *   }
+     * })
+     * 
+     */
+    delete<T extends UserDeleteArgs>(args: SelectSubset<T, UserDeleteArgs<ExtArgs>>): Prisma__UserClient<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one User.
+     * @param {UserUpdateArgs} args - Arguments to update one User.
+     * @example
+     * // Update one User
+     * const user = await prisma.user.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends UserUpdateArgs>(args: SelectSubset<T, UserUpdateArgs<ExtArgs>>): Prisma__UserClient<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more Users.
+     * @param {UserDeleteManyArgs} args - Arguments to filter Users to delete.
+     * @example
+     * // Delete a few Users
+     * const { count } = await prisma.user.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends UserDeleteManyArgs>(args?: SelectSubset<T, UserDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more Users.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {UserUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many Users
+     * const user = await prisma.user.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends UserUpdateManyArgs>(args: SelectSubset<T, UserUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more Users and returns the data updated in the database.
+     * @param {UserUpdateManyAndReturnArgs} args - Arguments to update many Users.
+     * @example
+     * // Update many Users
+     * const user = await prisma.user.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more Users and only return the `id`
+     * const userWithIdOnly = await prisma.user.updateManyAndReturn({
+     *   select: { id: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends UserUpdateManyAndReturnArgs>(args: SelectSubset<T, UserUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one User.
+     * @param {UserUpsertArgs} args - Arguments to update or create a User.
+     * @example
+     * // Update or create a User
+     * const user = await prisma.user.upsert({
+     *   create: {
+     *     // ... data to create a User
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the User we want to update
+     *   }
+     * })
+     */
+    upsert<T extends UserUpsertArgs>(args: SelectSubset<T, UserUpsertArgs<ExtArgs>>): Prisma__UserClient<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of Users.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {UserCountArgs} args - Arguments to filter Users to count.
+     * @example
+     * // Count the number of Users
+     * const count = await prisma.user.count({
+     *   where: {
+     *     // ... the filter for the Users we want to count
+     *   }
+     * })
+    **/
+    count<T extends UserCountArgs>(
+      args?: Subset<T, UserCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], UserCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a User.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {UserAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends UserAggregateArgs>(args: Subset<T, UserAggregateArgs>): Prisma.PrismaPromise<GetUserAggregateType<T>>
+
+    /**
+     * Group by User.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {UserGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends UserGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: UserGroupByArgs['orderBy'] }
+        : { orderBy?: UserGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, UserGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetUserGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the User model
+   */
+  readonly fields: UserFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for User.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__UserClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    memberships<T extends User$membershipsArgs<ExtArgs> = {}>(args?: Subset<T, User$membershipsArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$MapMemberPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+    geocodeJobs<T extends User$geocodeJobsArgs<ExtArgs> = {}>(args?: Subset<T, User$geocodeJobsArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$GeocodeJobPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the User model
+   */
+  interface UserFieldRefs {
+    readonly id: FieldRef<"User", 'String'>
+    readonly email: FieldRef<"User", 'String'>
+    readonly name: FieldRef<"User", 'String'>
+    readonly passwordHash: FieldRef<"User", 'String'>
+    readonly createdAt: FieldRef<"User", 'DateTime'>
+    readonly updatedAt: FieldRef<"User", 'DateTime'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * User findUnique
+   */
+  export type UserFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the User
+     */
+    select?: UserSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the User
+     */
+    omit?: UserOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: UserInclude<ExtArgs> | null
+    /**
+     * Filter, which User to fetch.
+     */
+    where: UserWhereUniqueInput
+  }
+
+  /**
+   * User findUniqueOrThrow
+   */
+  export type UserFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the User
+     */
+    select?: UserSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the User
+     */
+    omit?: UserOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: UserInclude<ExtArgs> | null
+    /**
+     * Filter, which User to fetch.
+     */
+    where: UserWhereUniqueInput
+  }
+
+  /**
+   * User findFirst
+   */
+  export type UserFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the User
+     */
+    select?: UserSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the User
+     */
+    omit?: UserOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: UserInclude<ExtArgs> | null
+    /**
+     * Filter, which User to fetch.
+     */
+    where?: UserWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of Users to fetch.
+     */
+    orderBy?: UserOrderByWithRelationInput | UserOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for Users.
+     */
+    cursor?: UserWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Users from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Users.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of Users.
+     */
+    distinct?: UserScalarFieldEnum | UserScalarFieldEnum[]
+  }
+
+  /**
+   * User findFirstOrThrow
+   */
+  export type UserFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the User
+     */
+    select?: UserSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the User
+     */
+    omit?: UserOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: UserInclude<ExtArgs> | null
+    /**
+     * Filter, which User to fetch.
+     */
+    where?: UserWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of Users to fetch.
+     */
+    orderBy?: UserOrderByWithRelationInput | UserOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for Users.
+     */
+    cursor?: UserWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Users from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Users.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of Users.
+     */
+    distinct?: UserScalarFieldEnum | UserScalarFieldEnum[]
+  }
+
+  /**
+   * User findMany
+   */
+  export type UserFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the User
+     */
+    select?: UserSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the User
+     */
+    omit?: UserOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: UserInclude<ExtArgs> | null
+    /**
+     * Filter, which Users to fetch.
+     */
+    where?: UserWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of Users to fetch.
+     */
+    orderBy?: UserOrderByWithRelationInput | UserOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing Users.
+     */
+    cursor?: UserWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Users from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Users.
+     */
+    skip?: number
+    distinct?: UserScalarFieldEnum | UserScalarFieldEnum[]
+  }
+
+  /**
+   * User create
+   */
+  export type UserCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the User
+     */
+    select?: UserSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the User
+     */
+    omit?: UserOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: UserInclude<ExtArgs> | null
+    /**
+     * The data needed to create a User.
+     */
+    data: XOR<UserCreateInput, UserUncheckedCreateInput>
+  }
+
+  /**
+   * User createMany
+   */
+  export type UserCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many Users.
+     */
+    data: UserCreateManyInput | UserCreateManyInput[]
+  }
+
+  /**
+   * User createManyAndReturn
+   */
+  export type UserCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the User
+     */
+    select?: UserSelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the User
+     */
+    omit?: UserOmit<ExtArgs> | null
+    /**
+     * The data used to create many Users.
+     */
+    data: UserCreateManyInput | UserCreateManyInput[]
+  }
+
+  /**
+   * User update
+   */
+  export type UserUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the User
+     */
+    select?: UserSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the User
+     */
+    omit?: UserOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: UserInclude<ExtArgs> | null
+    /**
+     * The data needed to update a User.
+     */
+    data: XOR<UserUpdateInput, UserUncheckedUpdateInput>
+    /**
+     * Choose, which User to update.
+     */
+    where: UserWhereUniqueInput
+  }
+
+  /**
+   * User updateMany
+   */
+  export type UserUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update Users.
+     */
+    data: XOR<UserUpdateManyMutationInput, UserUncheckedUpdateManyInput>
+    /**
+     * Filter which Users to update
+     */
+    where?: UserWhereInput
+    /**
+     * Limit how many Users to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * User updateManyAndReturn
+   */
+  export type UserUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the User
+     */
+    select?: UserSelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the User
+     */
+    omit?: UserOmit<ExtArgs> | null
+    /**
+     * The data used to update Users.
+     */
+    data: XOR<UserUpdateManyMutationInput, UserUncheckedUpdateManyInput>
+    /**
+     * Filter which Users to update
+     */
+    where?: UserWhereInput
+    /**
+     * Limit how many Users to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * User upsert
+   */
+  export type UserUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the User
+     */
+    select?: UserSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the User
+     */
+    omit?: UserOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: UserInclude<ExtArgs> | null
+    /**
+     * The filter to search for the User to update in case it exists.
+     */
+    where: UserWhereUniqueInput
+    /**
+     * In case the User found by the `where` argument doesn't exist, create a new User with this data.
+     */
+    create: XOR<UserCreateInput, UserUncheckedCreateInput>
+    /**
+     * In case the User was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<UserUpdateInput, UserUncheckedUpdateInput>
+  }
+
+  /**
+   * User delete
+   */
+  export type UserDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the User
+     */
+    select?: UserSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the User
+     */
+    omit?: UserOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: UserInclude<ExtArgs> | null
+    /**
+     * Filter which User to delete.
+     */
+    where: UserWhereUniqueInput
+  }
+
+  /**
+   * User deleteMany
+   */
+  export type UserDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which Users to delete
+     */
+    where?: UserWhereInput
+    /**
+     * Limit how many Users to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * User.memberships
+   */
+  export type User$membershipsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MapMember
+     */
+    select?: MapMemberSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MapMember
+     */
+    omit?: MapMemberOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapMemberInclude<ExtArgs> | null
+    where?: MapMemberWhereInput
+    orderBy?: MapMemberOrderByWithRelationInput | MapMemberOrderByWithRelationInput[]
+    cursor?: MapMemberWhereUniqueInput
+    take?: number
+    skip?: number
+    distinct?: MapMemberScalarFieldEnum | MapMemberScalarFieldEnum[]
+  }
+
+  /**
+   * User.geocodeJobs
+   */
+  export type User$geocodeJobsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeJob
+     */
+    select?: GeocodeJobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeJob
+     */
+    omit?: GeocodeJobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: GeocodeJobInclude<ExtArgs> | null
+    where?: GeocodeJobWhereInput
+    orderBy?: GeocodeJobOrderByWithRelationInput | GeocodeJobOrderByWithRelationInput[]
+    cursor?: GeocodeJobWhereUniqueInput
+    take?: number
+    skip?: number
+    distinct?: GeocodeJobScalarFieldEnum | GeocodeJobScalarFieldEnum[]
+  }
+
+  /**
+   * User without action
+   */
+  export type UserDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the User
+     */
+    select?: UserSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the User
+     */
+    omit?: UserOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: UserInclude<ExtArgs> | null
+  }
+
+
+  /**
+   * Model MapMember
+   */
+
+  export type AggregateMapMember = {
+    _count: MapMemberCountAggregateOutputType | null
+    _min: MapMemberMinAggregateOutputType | null
+    _max: MapMemberMaxAggregateOutputType | null
+  }
+
+  export type MapMemberMinAggregateOutputType = {
+    id: string | null
+    mapId: string | null
+    userId: string | null
+    role: string | null
+    createdAt: Date | null
+  }
+
+  export type MapMemberMaxAggregateOutputType = {
+    id: string | null
+    mapId: string | null
+    userId: string | null
+    role: string | null
+    createdAt: Date | null
+  }
+
+  export type MapMemberCountAggregateOutputType = {
+    id: number
+    mapId: number
+    userId: number
+    role: number
+    createdAt: number
+    _all: number
+  }
+
+
+  export type MapMemberMinAggregateInputType = {
+    id?: true
+    mapId?: true
+    userId?: true
+    role?: true
+    createdAt?: true
+  }
+
+  export type MapMemberMaxAggregateInputType = {
+    id?: true
+    mapId?: true
+    userId?: true
+    role?: true
+    createdAt?: true
+  }
+
+  export type MapMemberCountAggregateInputType = {
+    id?: true
+    mapId?: true
+    userId?: true
+    role?: true
+    createdAt?: true
+    _all?: true
+  }
+
+  export type MapMemberAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which MapMember to aggregate.
+     */
+    where?: MapMemberWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of MapMembers to fetch.
+     */
+    orderBy?: MapMemberOrderByWithRelationInput | MapMemberOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: MapMemberWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` MapMembers from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` MapMembers.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned MapMembers
+    **/
+    _count?: true | MapMemberCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: MapMemberMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: MapMemberMaxAggregateInputType
+  }
+
+  export type GetMapMemberAggregateType<T extends MapMemberAggregateArgs> = {
+        [P in keyof T & keyof AggregateMapMember]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateMapMember[P]>
+      : GetScalarType<T[P], AggregateMapMember[P]>
+  }
+
+
+
+
+  export type MapMemberGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: MapMemberWhereInput
+    orderBy?: MapMemberOrderByWithAggregationInput | MapMemberOrderByWithAggregationInput[]
+    by: MapMemberScalarFieldEnum[] | MapMemberScalarFieldEnum
+    having?: MapMemberScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: MapMemberCountAggregateInputType | true
+    _min?: MapMemberMinAggregateInputType
+    _max?: MapMemberMaxAggregateInputType
+  }
+
+  export type MapMemberGroupByOutputType = {
+    id: string
+    mapId: string
+    userId: string
+    role: string
+    createdAt: Date
+    _count: MapMemberCountAggregateOutputType | null
+    _min: MapMemberMinAggregateOutputType | null
+    _max: MapMemberMaxAggregateOutputType | null
+  }
+
+  type GetMapMemberGroupByPayload<T extends MapMemberGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<MapMemberGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof MapMemberGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], MapMemberGroupByOutputType[P]>
+            : GetScalarType<T[P], MapMemberGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type MapMemberSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    mapId?: boolean
+    userId?: boolean
+    role?: boolean
+    createdAt?: boolean
+    map?: boolean | MapDefaultArgs<ExtArgs>
+    user?: boolean | UserDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["mapMember"]>
+
+  export type MapMemberSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    mapId?: boolean
+    userId?: boolean
+    role?: boolean
+    createdAt?: boolean
+    map?: boolean | MapDefaultArgs<ExtArgs>
+    user?: boolean | UserDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["mapMember"]>
+
+  export type MapMemberSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    mapId?: boolean
+    userId?: boolean
+    role?: boolean
+    createdAt?: boolean
+    map?: boolean | MapDefaultArgs<ExtArgs>
+    user?: boolean | UserDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["mapMember"]>
+
+  export type MapMemberSelectScalar = {
+    id?: boolean
+    mapId?: boolean
+    userId?: boolean
+    role?: boolean
+    createdAt?: boolean
+  }
+
+  export type MapMemberOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "mapId" | "userId" | "role" | "createdAt", ExtArgs["result"]["mapMember"]>
+  export type MapMemberInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    map?: boolean | MapDefaultArgs<ExtArgs>
+    user?: boolean | UserDefaultArgs<ExtArgs>
+  }
+  export type MapMemberIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    map?: boolean | MapDefaultArgs<ExtArgs>
+    user?: boolean | UserDefaultArgs<ExtArgs>
+  }
+  export type MapMemberIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    map?: boolean | MapDefaultArgs<ExtArgs>
+    user?: boolean | UserDefaultArgs<ExtArgs>
+  }
+
+  export type $MapMemberPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "MapMember"
+    objects: {
+      map: Prisma.$MapPayload<ExtArgs>
+      user: Prisma.$UserPayload<ExtArgs>
+    }
+    scalars: $Extensions.GetPayloadResult<{
+      id: string
+      mapId: string
+      userId: string
+      role: string
+      createdAt: Date
+    }, ExtArgs["result"]["mapMember"]>
+    composites: {}
+  }
+
+  type MapMemberGetPayload<S extends boolean | null | undefined | MapMemberDefaultArgs> = $Result.GetResult<Prisma.$MapMemberPayload, S>
+
+  type MapMemberCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<MapMemberFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: MapMemberCountAggregateInputType | true
+    }
+
+  export interface MapMemberDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['MapMember'], meta: { name: 'MapMember' } }
+    /**
+     * Find zero or one MapMember that matches the filter.
+     * @param {MapMemberFindUniqueArgs} args - Arguments to find a MapMember
+     * @example
+     * // Get one MapMember
+     * const mapMember = await prisma.mapMember.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends MapMemberFindUniqueArgs>(args: SelectSubset<T, MapMemberFindUniqueArgs<ExtArgs>>): Prisma__MapMemberClient<$Result.GetResult<Prisma.$MapMemberPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one MapMember that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {MapMemberFindUniqueOrThrowArgs} args - Arguments to find a MapMember
+     * @example
+     * // Get one MapMember
+     * const mapMember = await prisma.mapMember.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends MapMemberFindUniqueOrThrowArgs>(args: SelectSubset<T, MapMemberFindUniqueOrThrowArgs<ExtArgs>>): Prisma__MapMemberClient<$Result.GetResult<Prisma.$MapMemberPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first MapMember that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MapMemberFindFirstArgs} args - Arguments to find a MapMember
+     * @example
+     * // Get one MapMember
+     * const mapMember = await prisma.mapMember.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends MapMemberFindFirstArgs>(args?: SelectSubset<T, MapMemberFindFirstArgs<ExtArgs>>): Prisma__MapMemberClient<$Result.GetResult<Prisma.$MapMemberPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first MapMember that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MapMemberFindFirstOrThrowArgs} args - Arguments to find a MapMember
+     * @example
+     * // Get one MapMember
+     * const mapMember = await prisma.mapMember.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends MapMemberFindFirstOrThrowArgs>(args?: SelectSubset<T, MapMemberFindFirstOrThrowArgs<ExtArgs>>): Prisma__MapMemberClient<$Result.GetResult<Prisma.$MapMemberPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more MapMembers that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MapMemberFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all MapMembers
+     * const mapMembers = await prisma.mapMember.findMany()
+     * 
+     * // Get first 10 MapMembers
+     * const mapMembers = await prisma.mapMember.findMany({ take: 10 })
+     * 
+     * // Only select the `id`
+     * const mapMemberWithIdOnly = await prisma.mapMember.findMany({ select: { id: true } })
+     * 
+     */
+    findMany<T extends MapMemberFindManyArgs>(args?: SelectSubset<T, MapMemberFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$MapMemberPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a MapMember.
+     * @param {MapMemberCreateArgs} args - Arguments to create a MapMember.
+     * @example
+     * // Create one MapMember
+     * const MapMember = await prisma.mapMember.create({
+     *   data: {
+     *     // ... data to create a MapMember
+     *   }
+     * })
+     * 
+     */
+    create<T extends MapMemberCreateArgs>(args: SelectSubset<T, MapMemberCreateArgs<ExtArgs>>): Prisma__MapMemberClient<$Result.GetResult<Prisma.$MapMemberPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many MapMembers.
+     * @param {MapMemberCreateManyArgs} args - Arguments to create many MapMembers.
+     * @example
+     * // Create many MapMembers
+     * const mapMember = await prisma.mapMember.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends MapMemberCreateManyArgs>(args?: SelectSubset<T, MapMemberCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many MapMembers and returns the data saved in the database.
+     * @param {MapMemberCreateManyAndReturnArgs} args - Arguments to create many MapMembers.
+     * @example
+     * // Create many MapMembers
+     * const mapMember = await prisma.mapMember.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many MapMembers and only return the `id`
+     * const mapMemberWithIdOnly = await prisma.mapMember.createManyAndReturn({
+     *   select: { id: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends MapMemberCreateManyAndReturnArgs>(args?: SelectSubset<T, MapMemberCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$MapMemberPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a MapMember.
+     * @param {MapMemberDeleteArgs} args - Arguments to delete one MapMember.
+     * @example
+     * // Delete one MapMember
+     * const MapMember = await prisma.mapMember.delete({
+     *   where: {
+     *     // ... filter to delete one MapMember
+     *   }
+     * })
+     * 
+     */
+    delete<T extends MapMemberDeleteArgs>(args: SelectSubset<T, MapMemberDeleteArgs<ExtArgs>>): Prisma__MapMemberClient<$Result.GetResult<Prisma.$MapMemberPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one MapMember.
+     * @param {MapMemberUpdateArgs} args - Arguments to update one MapMember.
+     * @example
+     * // Update one MapMember
+     * const mapMember = await prisma.mapMember.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends MapMemberUpdateArgs>(args: SelectSubset<T, MapMemberUpdateArgs<ExtArgs>>): Prisma__MapMemberClient<$Result.GetResult<Prisma.$MapMemberPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more MapMembers.
+     * @param {MapMemberDeleteManyArgs} args - Arguments to filter MapMembers to delete.
+     * @example
+     * // Delete a few MapMembers
+     * const { count } = await prisma.mapMember.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends MapMemberDeleteManyArgs>(args?: SelectSubset<T, MapMemberDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more MapMembers.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MapMemberUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many MapMembers
+     * const mapMember = await prisma.mapMember.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends MapMemberUpdateManyArgs>(args: SelectSubset<T, MapMemberUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more MapMembers and returns the data updated in the database.
+     * @param {MapMemberUpdateManyAndReturnArgs} args - Arguments to update many MapMembers.
+     * @example
+     * // Update many MapMembers
+     * const mapMember = await prisma.mapMember.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more MapMembers and only return the `id`
+     * const mapMemberWithIdOnly = await prisma.mapMember.updateManyAndReturn({
+     *   select: { id: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends MapMemberUpdateManyAndReturnArgs>(args: SelectSubset<T, MapMemberUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$MapMemberPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one MapMember.
+     * @param {MapMemberUpsertArgs} args - Arguments to update or create a MapMember.
+     * @example
+     * // Update or create a MapMember
+     * const mapMember = await prisma.mapMember.upsert({
+     *   create: {
+     *     // ... data to create a MapMember
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the MapMember we want to update
+     *   }
+     * })
+     */
+    upsert<T extends MapMemberUpsertArgs>(args: SelectSubset<T, MapMemberUpsertArgs<ExtArgs>>): Prisma__MapMemberClient<$Result.GetResult<Prisma.$MapMemberPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of MapMembers.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MapMemberCountArgs} args - Arguments to filter MapMembers to count.
+     * @example
+     * // Count the number of MapMembers
+     * const count = await prisma.mapMember.count({
+     *   where: {
+     *     // ... the filter for the MapMembers we want to count
+     *   }
+     * })
+    **/
+    count<T extends MapMemberCountArgs>(
+      args?: Subset<T, MapMemberCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], MapMemberCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a MapMember.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MapMemberAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends MapMemberAggregateArgs>(args: Subset<T, MapMemberAggregateArgs>): Prisma.PrismaPromise<GetMapMemberAggregateType<T>>
+
+    /**
+     * Group by MapMember.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MapMemberGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends MapMemberGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: MapMemberGroupByArgs['orderBy'] }
+        : { orderBy?: MapMemberGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, MapMemberGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetMapMemberGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the MapMember model
+   */
+  readonly fields: MapMemberFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for MapMember.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__MapMemberClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    map<T extends MapDefaultArgs<ExtArgs> = {}>(args?: Subset<T, MapDefaultArgs<ExtArgs>>): Prisma__MapClient<$Result.GetResult<Prisma.$MapPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+    user<T extends UserDefaultArgs<ExtArgs> = {}>(args?: Subset<T, UserDefaultArgs<ExtArgs>>): Prisma__UserClient<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the MapMember model
+   */
+  interface MapMemberFieldRefs {
+    readonly id: FieldRef<"MapMember", 'String'>
+    readonly mapId: FieldRef<"MapMember", 'String'>
+    readonly userId: FieldRef<"MapMember", 'String'>
+    readonly role: FieldRef<"MapMember", 'String'>
+    readonly createdAt: FieldRef<"MapMember", 'DateTime'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * MapMember findUnique
+   */
+  export type MapMemberFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MapMember
+     */
+    select?: MapMemberSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MapMember
+     */
+    omit?: MapMemberOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapMemberInclude<ExtArgs> | null
+    /**
+     * Filter, which MapMember to fetch.
+     */
+    where: MapMemberWhereUniqueInput
+  }
+
+  /**
+   * MapMember findUniqueOrThrow
+   */
+  export type MapMemberFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MapMember
+     */
+    select?: MapMemberSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MapMember
+     */
+    omit?: MapMemberOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapMemberInclude<ExtArgs> | null
+    /**
+     * Filter, which MapMember to fetch.
+     */
+    where: MapMemberWhereUniqueInput
+  }
+
+  /**
+   * MapMember findFirst
+   */
+  export type MapMemberFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MapMember
+     */
+    select?: MapMemberSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MapMember
+     */
+    omit?: MapMemberOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapMemberInclude<ExtArgs> | null
+    /**
+     * Filter, which MapMember to fetch.
+     */
+    where?: MapMemberWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of MapMembers to fetch.
+     */
+    orderBy?: MapMemberOrderByWithRelationInput | MapMemberOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for MapMembers.
+     */
+    cursor?: MapMemberWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` MapMembers from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` MapMembers.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of MapMembers.
+     */
+    distinct?: MapMemberScalarFieldEnum | MapMemberScalarFieldEnum[]
+  }
+
+  /**
+   * MapMember findFirstOrThrow
+   */
+  export type MapMemberFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MapMember
+     */
+    select?: MapMemberSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MapMember
+     */
+    omit?: MapMemberOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapMemberInclude<ExtArgs> | null
+    /**
+     * Filter, which MapMember to fetch.
+     */
+    where?: MapMemberWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of MapMembers to fetch.
+     */
+    orderBy?: MapMemberOrderByWithRelationInput | MapMemberOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for MapMembers.
+     */
+    cursor?: MapMemberWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` MapMembers from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` MapMembers.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of MapMembers.
+     */
+    distinct?: MapMemberScalarFieldEnum | MapMemberScalarFieldEnum[]
+  }
+
+  /**
+   * MapMember findMany
+   */
+  export type MapMemberFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MapMember
+     */
+    select?: MapMemberSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MapMember
+     */
+    omit?: MapMemberOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapMemberInclude<ExtArgs> | null
+    /**
+     * Filter, which MapMembers to fetch.
+     */
+    where?: MapMemberWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of MapMembers to fetch.
+     */
+    orderBy?: MapMemberOrderByWithRelationInput | MapMemberOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing MapMembers.
+     */
+    cursor?: MapMemberWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` MapMembers from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` MapMembers.
+     */
+    skip?: number
+    distinct?: MapMemberScalarFieldEnum | MapMemberScalarFieldEnum[]
+  }
+
+  /**
+   * MapMember create
+   */
+  export type MapMemberCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MapMember
+     */
+    select?: MapMemberSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MapMember
+     */
+    omit?: MapMemberOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapMemberInclude<ExtArgs> | null
+    /**
+     * The data needed to create a MapMember.
+     */
+    data: XOR<MapMemberCreateInput, MapMemberUncheckedCreateInput>
+  }
+
+  /**
+   * MapMember createMany
+   */
+  export type MapMemberCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many MapMembers.
+     */
+    data: MapMemberCreateManyInput | MapMemberCreateManyInput[]
+  }
+
+  /**
+   * MapMember createManyAndReturn
+   */
+  export type MapMemberCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MapMember
+     */
+    select?: MapMemberSelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the MapMember
+     */
+    omit?: MapMemberOmit<ExtArgs> | null
+    /**
+     * The data used to create many MapMembers.
+     */
+    data: MapMemberCreateManyInput | MapMemberCreateManyInput[]
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapMemberIncludeCreateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * MapMember update
+   */
+  export type MapMemberUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MapMember
+     */
+    select?: MapMemberSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MapMember
+     */
+    omit?: MapMemberOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapMemberInclude<ExtArgs> | null
+    /**
+     * The data needed to update a MapMember.
+     */
+    data: XOR<MapMemberUpdateInput, MapMemberUncheckedUpdateInput>
+    /**
+     * Choose, which MapMember to update.
+     */
+    where: MapMemberWhereUniqueInput
+  }
+
+  /**
+   * MapMember updateMany
+   */
+  export type MapMemberUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update MapMembers.
+     */
+    data: XOR<MapMemberUpdateManyMutationInput, MapMemberUncheckedUpdateManyInput>
+    /**
+     * Filter which MapMembers to update
+     */
+    where?: MapMemberWhereInput
+    /**
+     * Limit how many MapMembers to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * MapMember updateManyAndReturn
+   */
+  export type MapMemberUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MapMember
+     */
+    select?: MapMemberSelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the MapMember
+     */
+    omit?: MapMemberOmit<ExtArgs> | null
+    /**
+     * The data used to update MapMembers.
+     */
+    data: XOR<MapMemberUpdateManyMutationInput, MapMemberUncheckedUpdateManyInput>
+    /**
+     * Filter which MapMembers to update
+     */
+    where?: MapMemberWhereInput
+    /**
+     * Limit how many MapMembers to update.
+     */
+    limit?: number
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapMemberIncludeUpdateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * MapMember upsert
+   */
+  export type MapMemberUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MapMember
+     */
+    select?: MapMemberSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MapMember
+     */
+    omit?: MapMemberOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapMemberInclude<ExtArgs> | null
+    /**
+     * The filter to search for the MapMember to update in case it exists.
+     */
+    where: MapMemberWhereUniqueInput
+    /**
+     * In case the MapMember found by the `where` argument doesn't exist, create a new MapMember with this data.
+     */
+    create: XOR<MapMemberCreateInput, MapMemberUncheckedCreateInput>
+    /**
+     * In case the MapMember was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<MapMemberUpdateInput, MapMemberUncheckedUpdateInput>
+  }
+
+  /**
+   * MapMember delete
+   */
+  export type MapMemberDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MapMember
+     */
+    select?: MapMemberSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MapMember
+     */
+    omit?: MapMemberOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapMemberInclude<ExtArgs> | null
+    /**
+     * Filter which MapMember to delete.
+     */
+    where: MapMemberWhereUniqueInput
+  }
+
+  /**
+   * MapMember deleteMany
+   */
+  export type MapMemberDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which MapMembers to delete
+     */
+    where?: MapMemberWhereInput
+    /**
+     * Limit how many MapMembers to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * MapMember without action
+   */
+  export type MapMemberDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MapMember
+     */
+    select?: MapMemberSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MapMember
+     */
+    omit?: MapMemberOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapMemberInclude<ExtArgs> | null
+  }
+
+
+  /**
+   * Model Media
+   */
+
+  export type AggregateMedia = {
+    _count: MediaCountAggregateOutputType | null
+    _avg: MediaAvgAggregateOutputType | null
+    _sum: MediaSumAggregateOutputType | null
+    _min: MediaMinAggregateOutputType | null
+    _max: MediaMaxAggregateOutputType | null
+  }
+
+  export type MediaAvgAggregateOutputType = {
+    size: number | null
+    width: number | null
+    height: number | null
+    tileSize: number | null
+    tileMinLevel: number | null
+    tileMaxLevel: number | null
+  }
+
+  export type MediaSumAggregateOutputType = {
+    size: number | null
+    width: number | null
+    height: number | null
+    tileSize: number | null
+    tileMinLevel: number | null
+    tileMaxLevel: number | null
+  }
+
+  export type MediaMinAggregateOutputType = {
+    id: string | null
+    hash: string | null
+    mimeType: string | null
+    size: number | null
+    storageKey: string | null
+    width: number | null
+    height: number | null
+    tilesKey: string | null
+    tileSize: number | null
+    tileMinLevel: number | null
+    tileMaxLevel: number | null
+    createdAt: Date | null
+  }
+
+  export type MediaMaxAggregateOutputType = {
+    id: string | null
+    hash: string | null
+    mimeType: string | null
+    size: number | null
+    storageKey: string | null
+    width: number | null
+    height: number | null
+    tilesKey: string | null
+    tileSize: number | null
+    tileMinLevel: number | null
+    tileMaxLevel: number | null
+    createdAt: Date | null
+  }
+
+  export type MediaCountAggregateOutputType = {
+    id: number
+    hash: number
+    mimeType: number
+    size: number
+    storageKey: number
+    width: number
+    height: number
+    tilesKey: number
+    tileSize: number
+    tileMinLevel: number
+    tileMaxLevel: number
+    createdAt: number
+    _all: number
+  }
+
+
+  export type MediaAvgAggregateInputType = {
+    size?: true
+    width?: true
+    height?: true
+    tileSize?: true
+    tileMinLevel?: true
+    tileMaxLevel?: true
+  }
+
+  export type MediaSumAggregateInputType = {
+    size?: true
+    width?: true
+    height?: true
+    tileSize?: true
+    tileMinLevel?: true
+    tileMaxLevel?: true
+  }
+
+  export type MediaMinAggregateInputType = {
+    id?: true
+    hash?: true
+    mimeType?: true
+    size?: true
+    storageKey?: true
+    width?: true
+    height?: true
+    tilesKey?: true
+    tileSize?: true
+    tileMinLevel?: true
+    tileMaxLevel?: true
+    createdAt?: true
+  }
+
+  export type MediaMaxAggregateInputType = {
+    id?: true
+    hash?: true
+    mimeType?: true
+    size?: true
+    storageKey?: true
+    width?: true
+    height?: true
+    tilesKey?: true
+    tileSize?: true
+    tileMinLevel?: true
+    tileMaxLevel?: true
+    createdAt?: true
+  }
+
+  export type MediaCountAggregateInputType = {
+    id?: true
+    hash?: true
+    mimeType?: true
+    size?: true
+    storageKey?: true
+    width?: true
+    height?: true
+    tilesKey?: true
+    tileSize?: true
+    tileMinLevel?: true
+    tileMaxLevel?: true
+    createdAt?: true
+    _all?: true
+  }
+
+  export type MediaAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which Media to aggregate.
+     */
+    where?: MediaWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of Media to fetch.
+     */
+    orderBy?: MediaOrderByWithRelationInput | MediaOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: MediaWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Media from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Media.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned Media
+    **/
+    _count?: true | MediaCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to average
+    **/
+    _avg?: MediaAvgAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to sum
+    **/
+    _sum?: MediaSumAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: MediaMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: MediaMaxAggregateInputType
+  }
+
+  export type GetMediaAggregateType<T extends MediaAggregateArgs> = {
+        [P in keyof T & keyof AggregateMedia]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateMedia[P]>
+      : GetScalarType<T[P], AggregateMedia[P]>
+  }
+
+
+
+
+  export type MediaGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: MediaWhereInput
+    orderBy?: MediaOrderByWithAggregationInput | MediaOrderByWithAggregationInput[]
+    by: MediaScalarFieldEnum[] | MediaScalarFieldEnum
+    having?: MediaScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: MediaCountAggregateInputType | true
+    _avg?: MediaAvgAggregateInputType
+    _sum?: MediaSumAggregateInputType
+    _min?: MediaMinAggregateInputType
+    _max?: MediaMaxAggregateInputType
+  }
+
+  export type MediaGroupByOutputType = {
+    id: string
+    hash: string
+    mimeType: string
+    size: number
+    storageKey: string
+    width: number | null
+    height: number | null
+    tilesKey: string | null
+    tileSize: number | null
+    tileMinLevel: number | null
+    tileMaxLevel: number | null
+    createdAt: Date
+    _count: MediaCountAggregateOutputType | null
+    _avg: MediaAvgAggregateOutputType | null
+    _sum: MediaSumAggregateOutputType | null
+    _min: MediaMinAggregateOutputType | null
+    _max: MediaMaxAggregateOutputType | null
+  }
+
+  type GetMediaGroupByPayload<T extends MediaGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<MediaGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof MediaGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], MediaGroupByOutputType[P]>
+            : GetScalarType<T[P], MediaGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type MediaSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    hash?: boolean
+    mimeType?: boolean
+    size?: boolean
+    storageKey?: boolean
+    width?: boolean
+    height?: boolean
+    tilesKey?: boolean
+    tileSize?: boolean
+    tileMinLevel?: boolean
+    tileMaxLevel?: boolean
+    createdAt?: boolean
+    variants?: boolean | Media$variantsArgs<ExtArgs>
+    maps?: boolean | Media$mapsArgs<ExtArgs>
+    levels?: boolean | Media$levelsArgs<ExtArgs>
+    zones?: boolean | Media$zonesArgs<ExtArgs>
+    _count?: boolean | MediaCountOutputTypeDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["media"]>
+
+  export type MediaSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    hash?: boolean
+    mimeType?: boolean
+    size?: boolean
+    storageKey?: boolean
+    width?: boolean
+    height?: boolean
+    tilesKey?: boolean
+    tileSize?: boolean
+    tileMinLevel?: boolean
+    tileMaxLevel?: boolean
+    createdAt?: boolean
+  }, ExtArgs["result"]["media"]>
+
+  export type MediaSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    hash?: boolean
+    mimeType?: boolean
+    size?: boolean
+    storageKey?: boolean
+    width?: boolean
+    height?: boolean
+    tilesKey?: boolean
+    tileSize?: boolean
+    tileMinLevel?: boolean
+    tileMaxLevel?: boolean
+    createdAt?: boolean
+  }, ExtArgs["result"]["media"]>
+
+  export type MediaSelectScalar = {
+    id?: boolean
+    hash?: boolean
+    mimeType?: boolean
+    size?: boolean
+    storageKey?: boolean
+    width?: boolean
+    height?: boolean
+    tilesKey?: boolean
+    tileSize?: boolean
+    tileMinLevel?: boolean
+    tileMaxLevel?: boolean
+    createdAt?: boolean
+  }
+
+  export type MediaOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "hash" | "mimeType" | "size" | "storageKey" | "width" | "height" | "tilesKey" | "tileSize" | "tileMinLevel" | "tileMaxLevel" | "createdAt", ExtArgs["result"]["media"]>
+  export type MediaInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    variants?: boolean | Media$variantsArgs<ExtArgs>
+    maps?: boolean | Media$mapsArgs<ExtArgs>
+    levels?: boolean | Media$levelsArgs<ExtArgs>
+    zones?: boolean | Media$zonesArgs<ExtArgs>
+    _count?: boolean | MediaCountOutputTypeDefaultArgs<ExtArgs>
+  }
+  export type MediaIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {}
+  export type MediaIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {}
+
+  export type $MediaPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "Media"
+    objects: {
+      variants: Prisma.$MediaVariantPayload<ExtArgs>[]
+      maps: Prisma.$MapPayload<ExtArgs>[]
+      levels: Prisma.$LevelPayload<ExtArgs>[]
+      zones: Prisma.$ZonePayload<ExtArgs>[]
+    }
+    scalars: $Extensions.GetPayloadResult<{
+      id: string
+      hash: string
+      mimeType: string
+      size: number
+      storageKey: string
+      width: number | null
+      height: number | null
+      tilesKey: string | null
+      tileSize: number | null
+      tileMinLevel: number | null
+      tileMaxLevel: number | null
+      createdAt: Date
+    }, ExtArgs["result"]["media"]>
+    composites: {}
+  }
+
+  type MediaGetPayload<S extends boolean | null | undefined | MediaDefaultArgs> = $Result.GetResult<Prisma.$MediaPayload, S>
+
+  type MediaCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<MediaFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: MediaCountAggregateInputType | true
+    }
+
+  export interface MediaDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Media'], meta: { name: 'Media' } }
+    /**
+     * Find zero or one Media that matches the filter.
+     * @param {MediaFindUniqueArgs} args - Arguments to find a Media
+     * @example
+     * // Get one Media
+     * const media = await prisma.media.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends MediaFindUniqueArgs>(args: SelectSubset<T, MediaFindUniqueArgs<ExtArgs>>): Prisma__MediaClient<$Result.GetResult<Prisma.$MediaPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one Media that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {MediaFindUniqueOrThrowArgs} args - Arguments to find a Media
+     * @example
+     * // Get one Media
+     * const media = await prisma.media.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends MediaFindUniqueOrThrowArgs>(args: SelectSubset<T, MediaFindUniqueOrThrowArgs<ExtArgs>>): Prisma__MediaClient<$Result.GetResult<Prisma.$MediaPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first Media that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MediaFindFirstArgs} args - Arguments to find a Media
+     * @example
+     * // Get one Media
+     * const media = await prisma.media.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends MediaFindFirstArgs>(args?: SelectSubset<T, MediaFindFirstArgs<ExtArgs>>): Prisma__MediaClient<$Result.GetResult<Prisma.$MediaPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first Media that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MediaFindFirstOrThrowArgs} args - Arguments to find a Media
+     * @example
+     * // Get one Media
+     * const media = await prisma.media.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends MediaFindFirstOrThrowArgs>(args?: SelectSubset<T, MediaFindFirstOrThrowArgs<ExtArgs>>): Prisma__MediaClient<$Result.GetResult<Prisma.$MediaPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more Media that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MediaFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all Media
+     * const media = await prisma.media.findMany()
+     * 
+     * // Get first 10 Media
+     * const media = await prisma.media.findMany({ take: 10 })
+     * 
+     * // Only select the `id`
+     * const mediaWithIdOnly = await prisma.media.findMany({ select: { id: true } })
+     * 
+     */
+    findMany<T extends MediaFindManyArgs>(args?: SelectSubset<T, MediaFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$MediaPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a Media.
+     * @param {MediaCreateArgs} args - Arguments to create a Media.
+     * @example
+     * // Create one Media
+     * const Media = await prisma.media.create({
+     *   data: {
+     *     // ... data to create a Media
+     *   }
+     * })
+     * 
+     */
+    create<T extends MediaCreateArgs>(args: SelectSubset<T, MediaCreateArgs<ExtArgs>>): Prisma__MediaClient<$Result.GetResult<Prisma.$MediaPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many Media.
+     * @param {MediaCreateManyArgs} args - Arguments to create many Media.
+     * @example
+     * // Create many Media
+     * const media = await prisma.media.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends MediaCreateManyArgs>(args?: SelectSubset<T, MediaCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many Media and returns the data saved in the database.
+     * @param {MediaCreateManyAndReturnArgs} args - Arguments to create many Media.
+     * @example
+     * // Create many Media
+     * const media = await prisma.media.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many Media and only return the `id`
+     * const mediaWithIdOnly = await prisma.media.createManyAndReturn({
+     *   select: { id: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends MediaCreateManyAndReturnArgs>(args?: SelectSubset<T, MediaCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$MediaPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a Media.
+     * @param {MediaDeleteArgs} args - Arguments to delete one Media.
+     * @example
+     * // Delete one Media
+     * const Media = await prisma.media.delete({
+     *   where: {
+     *     // ... filter to delete one Media
+     *   }
+     * })
+     * 
+     */
+    delete<T extends MediaDeleteArgs>(args: SelectSubset<T, MediaDeleteArgs<ExtArgs>>): Prisma__MediaClient<$Result.GetResult<Prisma.$MediaPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one Media.
+     * @param {MediaUpdateArgs} args - Arguments to update one Media.
+     * @example
+     * // Update one Media
+     * const media = await prisma.media.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends MediaUpdateArgs>(args: SelectSubset<T, MediaUpdateArgs<ExtArgs>>): Prisma__MediaClient<$Result.GetResult<Prisma.$MediaPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more Media.
+     * @param {MediaDeleteManyArgs} args - Arguments to filter Media to delete.
+     * @example
+     * // Delete a few Media
+     * const { count } = await prisma.media.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends MediaDeleteManyArgs>(args?: SelectSubset<T, MediaDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more Media.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MediaUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many Media
+     * const media = await prisma.media.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends MediaUpdateManyArgs>(args: SelectSubset<T, MediaUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more Media and returns the data updated in the database.
+     * @param {MediaUpdateManyAndReturnArgs} args - Arguments to update many Media.
+     * @example
+     * // Update many Media
+     * const media = await prisma.media.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more Media and only return the `id`
+     * const mediaWithIdOnly = await prisma.media.updateManyAndReturn({
+     *   select: { id: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends MediaUpdateManyAndReturnArgs>(args: SelectSubset<T, MediaUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$MediaPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one Media.
+     * @param {MediaUpsertArgs} args - Arguments to update or create a Media.
+     * @example
+     * // Update or create a Media
+     * const media = await prisma.media.upsert({
+     *   create: {
+     *     // ... data to create a Media
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the Media we want to update
+     *   }
+     * })
+     */
+    upsert<T extends MediaUpsertArgs>(args: SelectSubset<T, MediaUpsertArgs<ExtArgs>>): Prisma__MediaClient<$Result.GetResult<Prisma.$MediaPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of Media.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MediaCountArgs} args - Arguments to filter Media to count.
+     * @example
+     * // Count the number of Media
+     * const count = await prisma.media.count({
+     *   where: {
+     *     // ... the filter for the Media we want to count
+     *   }
+     * })
+    **/
+    count<T extends MediaCountArgs>(
+      args?: Subset<T, MediaCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], MediaCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a Media.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MediaAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends MediaAggregateArgs>(args: Subset<T, MediaAggregateArgs>): Prisma.PrismaPromise<GetMediaAggregateType<T>>
+
+    /**
+     * Group by Media.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MediaGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends MediaGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: MediaGroupByArgs['orderBy'] }
+        : { orderBy?: MediaGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, MediaGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetMediaGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the Media model
+   */
+  readonly fields: MediaFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for Media.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__MediaClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    variants<T extends Media$variantsArgs<ExtArgs> = {}>(args?: Subset<T, Media$variantsArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$MediaVariantPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+    maps<T extends Media$mapsArgs<ExtArgs> = {}>(args?: Subset<T, Media$mapsArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$MapPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+    levels<T extends Media$levelsArgs<ExtArgs> = {}>(args?: Subset<T, Media$levelsArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$LevelPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+    zones<T extends Media$zonesArgs<ExtArgs> = {}>(args?: Subset<T, Media$zonesArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$ZonePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the Media model
+   */
+  interface MediaFieldRefs {
+    readonly id: FieldRef<"Media", 'String'>
+    readonly hash: FieldRef<"Media", 'String'>
+    readonly mimeType: FieldRef<"Media", 'String'>
+    readonly size: FieldRef<"Media", 'Int'>
+    readonly storageKey: FieldRef<"Media", 'String'>
+    readonly width: FieldRef<"Media", 'Int'>
+    readonly height: FieldRef<"Media", 'Int'>
+    readonly tilesKey: FieldRef<"Media", 'String'>
+    readonly tileSize: FieldRef<"Media", 'Int'>
+    readonly tileMinLevel: FieldRef<"Media", 'Int'>
+    readonly tileMaxLevel: FieldRef<"Media", 'Int'>
+    readonly createdAt: FieldRef<"Media", 'DateTime'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * Media findUnique
+   */
+  export type MediaFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Media
+     */
+    select?: MediaSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Media
+     */
+    omit?: MediaOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MediaInclude<ExtArgs> | null
+    /**
+     * Filter, which Media to fetch.
+     */
+    where: MediaWhereUniqueInput
+  }
+
+  /**
+   * Media findUniqueOrThrow
+   */
+  export type MediaFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Media
+     */
+    select?: MediaSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Media
+     */
+    omit?: MediaOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MediaInclude<ExtArgs> | null
+    /**
+     * Filter, which Media to fetch.
+     */
+    where: MediaWhereUniqueInput
+  }
+
+  /**
+   * Media findFirst
+   */
+  export type MediaFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Media
+     */
+    select?: MediaSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Media
+     */
+    omit?: MediaOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MediaInclude<ExtArgs> | null
+    /**
+     * Filter, which Media to fetch.
+     */
+    where?: MediaWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of Media to fetch.
+     */
+    orderBy?: MediaOrderByWithRelationInput | MediaOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for Media.
+     */
+    cursor?: MediaWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Media from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Media.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of Media.
+     */
+    distinct?: MediaScalarFieldEnum | MediaScalarFieldEnum[]
+  }
+
+  /**
+   * Media findFirstOrThrow
+   */
+  export type MediaFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Media
+     */
+    select?: MediaSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Media
+     */
+    omit?: MediaOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MediaInclude<ExtArgs> | null
+    /**
+     * Filter, which Media to fetch.
+     */
+    where?: MediaWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of Media to fetch.
+     */
+    orderBy?: MediaOrderByWithRelationInput | MediaOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for Media.
+     */
+    cursor?: MediaWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Media from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Media.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of Media.
+     */
+    distinct?: MediaScalarFieldEnum | MediaScalarFieldEnum[]
+  }
+
+  /**
+   * Media findMany
+   */
+  export type MediaFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Media
+     */
+    select?: MediaSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Media
+     */
+    omit?: MediaOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MediaInclude<ExtArgs> | null
+    /**
+     * Filter, which Media to fetch.
+     */
+    where?: MediaWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of Media to fetch.
+     */
+    orderBy?: MediaOrderByWithRelationInput | MediaOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing Media.
+     */
+    cursor?: MediaWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` Media from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` Media.
+     */
+    skip?: number
+    distinct?: MediaScalarFieldEnum | MediaScalarFieldEnum[]
+  }
+
+  /**
+   * Media create
+   */
+  export type MediaCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Media
+     */
+    select?: MediaSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Media
+     */
+    omit?: MediaOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MediaInclude<ExtArgs> | null
+    /**
+     * The data needed to create a Media.
+     */
+    data: XOR<MediaCreateInput, MediaUncheckedCreateInput>
+  }
+
+  /**
+   * Media createMany
+   */
+  export type MediaCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many Media.
+     */
+    data: MediaCreateManyInput | MediaCreateManyInput[]
+  }
+
+  /**
+   * Media createManyAndReturn
+   */
+  export type MediaCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Media
+     */
+    select?: MediaSelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the Media
+     */
+    omit?: MediaOmit<ExtArgs> | null
+    /**
+     * The data used to create many Media.
+     */
+    data: MediaCreateManyInput | MediaCreateManyInput[]
+  }
+
+  /**
+   * Media update
+   */
+  export type MediaUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Media
+     */
+    select?: MediaSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Media
+     */
+    omit?: MediaOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MediaInclude<ExtArgs> | null
+    /**
+     * The data needed to update a Media.
+     */
+    data: XOR<MediaUpdateInput, MediaUncheckedUpdateInput>
+    /**
+     * Choose, which Media to update.
+     */
+    where: MediaWhereUniqueInput
+  }
+
+  /**
+   * Media updateMany
+   */
+  export type MediaUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update Media.
+     */
+    data: XOR<MediaUpdateManyMutationInput, MediaUncheckedUpdateManyInput>
+    /**
+     * Filter which Media to update
+     */
+    where?: MediaWhereInput
+    /**
+     * Limit how many Media to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * Media updateManyAndReturn
+   */
+  export type MediaUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Media
+     */
+    select?: MediaSelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the Media
+     */
+    omit?: MediaOmit<ExtArgs> | null
+    /**
+     * The data used to update Media.
+     */
+    data: XOR<MediaUpdateManyMutationInput, MediaUncheckedUpdateManyInput>
+    /**
+     * Filter which Media to update
+     */
+    where?: MediaWhereInput
+    /**
+     * Limit how many Media to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * Media upsert
+   */
+  export type MediaUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Media
+     */
+    select?: MediaSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Media
+     */
+    omit?: MediaOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MediaInclude<ExtArgs> | null
+    /**
+     * The filter to search for the Media to update in case it exists.
+     */
+    where: MediaWhereUniqueInput
+    /**
+     * In case the Media found by the `where` argument doesn't exist, create a new Media with this data.
+     */
+    create: XOR<MediaCreateInput, MediaUncheckedCreateInput>
+    /**
+     * In case the Media was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<MediaUpdateInput, MediaUncheckedUpdateInput>
+  }
+
+  /**
+   * Media delete
+   */
+  export type MediaDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Media
+     */
+    select?: MediaSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Media
+     */
+    omit?: MediaOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MediaInclude<ExtArgs> | null
+    /**
+     * Filter which Media to delete.
+     */
+    where: MediaWhereUniqueInput
+  }
+
+  /**
+   * Media deleteMany
+   */
+  export type MediaDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which Media to delete
+     */
+    where?: MediaWhereInput
+    /**
+     * Limit how many Media to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * Media.variants
+   */
+  export type Media$variantsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MediaVariant
+     */
+    select?: MediaVariantSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MediaVariant
+     */
+    omit?: MediaVariantOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MediaVariantInclude<ExtArgs> | null
+    where?: MediaVariantWhereInput
+    orderBy?: MediaVariantOrderByWithRelationInput | MediaVariantOrderByWithRelationInput[]
+    cursor?: MediaVariantWhereUniqueInput
+    take?: number
+    skip?: number
+    distinct?: MediaVariantScalarFieldEnum | MediaVariantScalarFieldEnum[]
+  }
+
+  /**
+   * Media.maps
+   */
+  export type Media$mapsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Map
+     */
+    select?: MapSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Map
+     */
+    omit?: MapOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MapInclude<ExtArgs> | null
+    where?: MapWhereInput
+    orderBy?: MapOrderByWithRelationInput | MapOrderByWithRelationInput[]
+    cursor?: MapWhereUniqueInput
+    take?: number
+    skip?: number
+    distinct?: MapScalarFieldEnum | MapScalarFieldEnum[]
+  }
+
+  /**
+   * Media.levels
+   */
+  export type Media$levelsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Level
+     */
+    select?: LevelSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Level
+     */
+    omit?: LevelOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: LevelInclude<ExtArgs> | null
+    where?: LevelWhereInput
+    orderBy?: LevelOrderByWithRelationInput | LevelOrderByWithRelationInput[]
+    cursor?: LevelWhereUniqueInput
+    take?: number
+    skip?: number
+    distinct?: LevelScalarFieldEnum | LevelScalarFieldEnum[]
+  }
+
+  /**
+   * Media.zones
+   */
+  export type Media$zonesArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Zone
+     */
+    select?: ZoneSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Zone
+     */
+    omit?: ZoneOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: ZoneInclude<ExtArgs> | null
+    where?: ZoneWhereInput
+    orderBy?: ZoneOrderByWithRelationInput | ZoneOrderByWithRelationInput[]
+    cursor?: ZoneWhereUniqueInput
+    take?: number
+    skip?: number
+    distinct?: ZoneScalarFieldEnum | ZoneScalarFieldEnum[]
+  }
+
+  /**
+   * Media without action
+   */
+  export type MediaDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the Media
+     */
+    select?: MediaSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the Media
+     */
+    omit?: MediaOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MediaInclude<ExtArgs> | null
+  }
+
+
+  /**
+   * Model MediaVariant
+   */
+
+  export type AggregateMediaVariant = {
+    _count: MediaVariantCountAggregateOutputType | null
+    _avg: MediaVariantAvgAggregateOutputType | null
+    _sum: MediaVariantSumAggregateOutputType | null
+    _min: MediaVariantMinAggregateOutputType | null
+    _max: MediaVariantMaxAggregateOutputType | null
+  }
+
+  export type MediaVariantAvgAggregateOutputType = {
+    width: number | null
+    height: number | null
+    size: number | null
+  }
+
+  export type MediaVariantSumAggregateOutputType = {
+    width: number | null
+    height: number | null
+    size: number | null
+  }
+
+  export type MediaVariantMinAggregateOutputType = {
+    id: string | null
+    mediaId: string | null
+    width: number | null
+    height: number | null
+    mimeType: string | null
+    size: number | null
+    storageKey: string | null
+    createdAt: Date | null
+  }
+
+  export type MediaVariantMaxAggregateOutputType = {
+    id: string | null
+    mediaId: string | null
+    width: number | null
+    height: number | null
+    mimeType: string | null
+    size: number | null
+    storageKey: string | null
+    createdAt: Date | null
+  }
+
+  export type MediaVariantCountAggregateOutputType = {
+    id: number
+    mediaId: number
+    width: number
+    height: number
+    mimeType: number
+    size: number
+    storageKey: number
+    createdAt: number
+    _all: number
+  }
+
+
+  export type MediaVariantAvgAggregateInputType = {
+    width?: true
+    height?: true
+    size?: true
+  }
+
+  export type MediaVariantSumAggregateInputType = {
+    width?: true
+    height?: true
+    size?: true
+  }
+
+  export type MediaVariantMinAggregateInputType = {
+    id?: true
+    mediaId?: true
+    width?: true
+    height?: true
+    mimeType?: true
+    size?: true
+    storageKey?: true
+    createdAt?: true
+  }
+
+  export type MediaVariantMaxAggregateInputType = {
+    id?: true
+    mediaId?: true
+    width?: true
+    height?: true
+    mimeType?: true
+    size?: true
+    storageKey?: true
+    createdAt?: true
+  }
+
+  export type MediaVariantCountAggregateInputType = {
+    id?: true
+    mediaId?: true
+    width?: true
+    height?: true
+    mimeType?: true
+    size?: true
+    storageKey?: true
+    createdAt?: true
+    _all?: true
+  }
+
+  export type MediaVariantAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which MediaVariant to aggregate.
+     */
+    where?: MediaVariantWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of MediaVariants to fetch.
+     */
+    orderBy?: MediaVariantOrderByWithRelationInput | MediaVariantOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: MediaVariantWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` MediaVariants from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` MediaVariants.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned MediaVariants
+    **/
+    _count?: true | MediaVariantCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to average
+    **/
+    _avg?: MediaVariantAvgAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to sum
+    **/
+    _sum?: MediaVariantSumAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: MediaVariantMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: MediaVariantMaxAggregateInputType
+  }
+
+  export type GetMediaVariantAggregateType<T extends MediaVariantAggregateArgs> = {
+        [P in keyof T & keyof AggregateMediaVariant]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateMediaVariant[P]>
+      : GetScalarType<T[P], AggregateMediaVariant[P]>
+  }
+
+
+
+
+  export type MediaVariantGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: MediaVariantWhereInput
+    orderBy?: MediaVariantOrderByWithAggregationInput | MediaVariantOrderByWithAggregationInput[]
+    by: MediaVariantScalarFieldEnum[] | MediaVariantScalarFieldEnum
+    having?: MediaVariantScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: MediaVariantCountAggregateInputType | true
+    _avg?: MediaVariantAvgAggregateInputType
+    _sum?: MediaVariantSumAggregateInputType
+    _min?: MediaVariantMinAggregateInputType
+    _max?: MediaVariantMaxAggregateInputType
+  }
+
+  export type MediaVariantGroupByOutputType = {
+    id: string
+    mediaId: string
+    width: number
+    height: number
+    mimeType: string
+    size: number
+    storageKey: string
+    createdAt: Date
+    _count: MediaVariantCountAggregateOutputType | null
+    _avg: MediaVariantAvgAggregateOutputType | null
+    _sum: MediaVariantSumAggregateOutputType | null
+    _min: MediaVariantMinAggregateOutputType | null
+    _max: MediaVariantMaxAggregateOutputType | null
+  }
+
+  type GetMediaVariantGroupByPayload<T extends MediaVariantGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<MediaVariantGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof MediaVariantGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], MediaVariantGroupByOutputType[P]>
+            : GetScalarType<T[P], MediaVariantGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type MediaVariantSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    mediaId?: boolean
+    width?: boolean
+    height?: boolean
+    mimeType?: boolean
+    size?: boolean
+    storageKey?: boolean
+    createdAt?: boolean
+    media?: boolean | MediaDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["mediaVariant"]>
+
+  export type MediaVariantSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    mediaId?: boolean
+    width?: boolean
+    height?: boolean
+    mimeType?: boolean
+    size?: boolean
+    storageKey?: boolean
+    createdAt?: boolean
+    media?: boolean | MediaDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["mediaVariant"]>
+
+  export type MediaVariantSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    mediaId?: boolean
+    width?: boolean
+    height?: boolean
+    mimeType?: boolean
+    size?: boolean
+    storageKey?: boolean
+    createdAt?: boolean
+    media?: boolean | MediaDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["mediaVariant"]>
+
+  export type MediaVariantSelectScalar = {
+    id?: boolean
+    mediaId?: boolean
+    width?: boolean
+    height?: boolean
+    mimeType?: boolean
+    size?: boolean
+    storageKey?: boolean
+    createdAt?: boolean
+  }
+
+  export type MediaVariantOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "mediaId" | "width" | "height" | "mimeType" | "size" | "storageKey" | "createdAt", ExtArgs["result"]["mediaVariant"]>
+  export type MediaVariantInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    media?: boolean | MediaDefaultArgs<ExtArgs>
+  }
+  export type MediaVariantIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    media?: boolean | MediaDefaultArgs<ExtArgs>
+  }
+  export type MediaVariantIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    media?: boolean | MediaDefaultArgs<ExtArgs>
+  }
+
+  export type $MediaVariantPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "MediaVariant"
+    objects: {
+      media: Prisma.$MediaPayload<ExtArgs>
+    }
+    scalars: $Extensions.GetPayloadResult<{
+      id: string
+      mediaId: string
+      width: number
+      height: number
+      mimeType: string
+      size: number
+      storageKey: string
+      createdAt: Date
+    }, ExtArgs["result"]["mediaVariant"]>
+    composites: {}
+  }
+
+  type MediaVariantGetPayload<S extends boolean | null | undefined | MediaVariantDefaultArgs> = $Result.GetResult<Prisma.$MediaVariantPayload, S>
+
+  type MediaVariantCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<MediaVariantFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: MediaVariantCountAggregateInputType | true
+    }
+
+  export interface MediaVariantDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['MediaVariant'], meta: { name: 'MediaVariant' } }
+    /**
+     * Find zero or one MediaVariant that matches the filter.
+     * @param {MediaVariantFindUniqueArgs} args - Arguments to find a MediaVariant
+     * @example
+     * // Get one MediaVariant
+     * const mediaVariant = await prisma.mediaVariant.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends MediaVariantFindUniqueArgs>(args: SelectSubset<T, MediaVariantFindUniqueArgs<ExtArgs>>): Prisma__MediaVariantClient<$Result.GetResult<Prisma.$MediaVariantPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one MediaVariant that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {MediaVariantFindUniqueOrThrowArgs} args - Arguments to find a MediaVariant
+     * @example
+     * // Get one MediaVariant
+     * const mediaVariant = await prisma.mediaVariant.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends MediaVariantFindUniqueOrThrowArgs>(args: SelectSubset<T, MediaVariantFindUniqueOrThrowArgs<ExtArgs>>): Prisma__MediaVariantClient<$Result.GetResult<Prisma.$MediaVariantPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first MediaVariant that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MediaVariantFindFirstArgs} args - Arguments to find a MediaVariant
+     * @example
+     * // Get one MediaVariant
+     * const mediaVariant = await prisma.mediaVariant.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends MediaVariantFindFirstArgs>(args?: SelectSubset<T, MediaVariantFindFirstArgs<ExtArgs>>): Prisma__MediaVariantClient<$Result.GetResult<Prisma.$MediaVariantPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first MediaVariant that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MediaVariantFindFirstOrThrowArgs} args - Arguments to find a MediaVariant
+     * @example
+     * // Get one MediaVariant
+     * const mediaVariant = await prisma.mediaVariant.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends MediaVariantFindFirstOrThrowArgs>(args?: SelectSubset<T, MediaVariantFindFirstOrThrowArgs<ExtArgs>>): Prisma__MediaVariantClient<$Result.GetResult<Prisma.$MediaVariantPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more MediaVariants that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MediaVariantFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all MediaVariants
+     * const mediaVariants = await prisma.mediaVariant.findMany()
+     * 
+     * // Get first 10 MediaVariants
+     * const mediaVariants = await prisma.mediaVariant.findMany({ take: 10 })
+     * 
+     * // Only select the `id`
+     * const mediaVariantWithIdOnly = await prisma.mediaVariant.findMany({ select: { id: true } })
+     * 
+     */
+    findMany<T extends MediaVariantFindManyArgs>(args?: SelectSubset<T, MediaVariantFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$MediaVariantPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a MediaVariant.
+     * @param {MediaVariantCreateArgs} args - Arguments to create a MediaVariant.
+     * @example
+     * // Create one MediaVariant
+     * const MediaVariant = await prisma.mediaVariant.create({
+     *   data: {
+     *     // ... data to create a MediaVariant
+     *   }
+     * })
+     * 
+     */
+    create<T extends MediaVariantCreateArgs>(args: SelectSubset<T, MediaVariantCreateArgs<ExtArgs>>): Prisma__MediaVariantClient<$Result.GetResult<Prisma.$MediaVariantPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many MediaVariants.
+     * @param {MediaVariantCreateManyArgs} args - Arguments to create many MediaVariants.
+     * @example
+     * // Create many MediaVariants
+     * const mediaVariant = await prisma.mediaVariant.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends MediaVariantCreateManyArgs>(args?: SelectSubset<T, MediaVariantCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many MediaVariants and returns the data saved in the database.
+     * @param {MediaVariantCreateManyAndReturnArgs} args - Arguments to create many MediaVariants.
+     * @example
+     * // Create many MediaVariants
+     * const mediaVariant = await prisma.mediaVariant.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many MediaVariants and only return the `id`
+     * const mediaVariantWithIdOnly = await prisma.mediaVariant.createManyAndReturn({
+     *   select: { id: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends MediaVariantCreateManyAndReturnArgs>(args?: SelectSubset<T, MediaVariantCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$MediaVariantPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a MediaVariant.
+     * @param {MediaVariantDeleteArgs} args - Arguments to delete one MediaVariant.
+     * @example
+     * // Delete one MediaVariant
+     * const MediaVariant = await prisma.mediaVariant.delete({
+     *   where: {
+     *     // ... filter to delete one MediaVariant
+     *   }
+     * })
+     * 
+     */
+    delete<T extends MediaVariantDeleteArgs>(args: SelectSubset<T, MediaVariantDeleteArgs<ExtArgs>>): Prisma__MediaVariantClient<$Result.GetResult<Prisma.$MediaVariantPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one MediaVariant.
+     * @param {MediaVariantUpdateArgs} args - Arguments to update one MediaVariant.
+     * @example
+     * // Update one MediaVariant
+     * const mediaVariant = await prisma.mediaVariant.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends MediaVariantUpdateArgs>(args: SelectSubset<T, MediaVariantUpdateArgs<ExtArgs>>): Prisma__MediaVariantClient<$Result.GetResult<Prisma.$MediaVariantPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more MediaVariants.
+     * @param {MediaVariantDeleteManyArgs} args - Arguments to filter MediaVariants to delete.
+     * @example
+     * // Delete a few MediaVariants
+     * const { count } = await prisma.mediaVariant.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends MediaVariantDeleteManyArgs>(args?: SelectSubset<T, MediaVariantDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more MediaVariants.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MediaVariantUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many MediaVariants
+     * const mediaVariant = await prisma.mediaVariant.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends MediaVariantUpdateManyArgs>(args: SelectSubset<T, MediaVariantUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more MediaVariants and returns the data updated in the database.
+     * @param {MediaVariantUpdateManyAndReturnArgs} args - Arguments to update many MediaVariants.
+     * @example
+     * // Update many MediaVariants
+     * const mediaVariant = await prisma.mediaVariant.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more MediaVariants and only return the `id`
+     * const mediaVariantWithIdOnly = await prisma.mediaVariant.updateManyAndReturn({
+     *   select: { id: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends MediaVariantUpdateManyAndReturnArgs>(args: SelectSubset<T, MediaVariantUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$MediaVariantPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one MediaVariant.
+     * @param {MediaVariantUpsertArgs} args - Arguments to update or create a MediaVariant.
+     * @example
+     * // Update or create a MediaVariant
+     * const mediaVariant = await prisma.mediaVariant.upsert({
+     *   create: {
+     *     // ... data to create a MediaVariant
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the MediaVariant we want to update
+     *   }
+     * })
+     */
+    upsert<T extends MediaVariantUpsertArgs>(args: SelectSubset<T, MediaVariantUpsertArgs<ExtArgs>>): Prisma__MediaVariantClient<$Result.GetResult<Prisma.$MediaVariantPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of MediaVariants.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MediaVariantCountArgs} args - Arguments to filter MediaVariants to count.
+     * @example
+     * // Count the number of MediaVariants
+     * const count = await prisma.mediaVariant.count({
+     *   where: {
+     *     // ... the filter for the MediaVariants we want to count
+     *   }
+     * })
+    **/
+    count<T extends MediaVariantCountArgs>(
+      args?: Subset<T, MediaVariantCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], MediaVariantCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a MediaVariant.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MediaVariantAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends MediaVariantAggregateArgs>(args: Subset<T, MediaVariantAggregateArgs>): Prisma.PrismaPromise<GetMediaVariantAggregateType<T>>
+
+    /**
+     * Group by MediaVariant.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {MediaVariantGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends MediaVariantGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: MediaVariantGroupByArgs['orderBy'] }
+        : { orderBy?: MediaVariantGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, MediaVariantGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetMediaVariantGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the MediaVariant model
+   */
+  readonly fields: MediaVariantFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for MediaVariant.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__MediaVariantClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    media<T extends MediaDefaultArgs<ExtArgs> = {}>(args?: Subset<T, MediaDefaultArgs<ExtArgs>>): Prisma__MediaClient<$Result.GetResult<Prisma.$MediaPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the MediaVariant model
+   */
+  interface MediaVariantFieldRefs {
+    readonly id: FieldRef<"MediaVariant", 'String'>
+    readonly mediaId: FieldRef<"MediaVariant", 'String'>
+    readonly width: FieldRef<"MediaVariant", 'Int'>
+    readonly height: FieldRef<"MediaVariant", 'Int'>
+    readonly mimeType: FieldRef<"MediaVariant", 'String'>
+    readonly size: FieldRef<"MediaVariant", 'Int'>
+    readonly storageKey: FieldRef<"MediaVariant", 'String'>
+    readonly createdAt: FieldRef<"MediaVariant", 'DateTime'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * MediaVariant findUnique
+   */
+  export type MediaVariantFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MediaVariant
+     */
+    select?: MediaVariantSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MediaVariant
+     */
+    omit?: MediaVariantOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MediaVariantInclude<ExtArgs> | null
+    /**
+     * Filter, which MediaVariant to fetch.
+     */
+    where: MediaVariantWhereUniqueInput
+  }
+
+  /**
+   * MediaVariant findUniqueOrThrow
+   */
+  export type MediaVariantFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MediaVariant
+     */
+    select?: MediaVariantSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MediaVariant
+     */
+    omit?: MediaVariantOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MediaVariantInclude<ExtArgs> | null
+    /**
+     * Filter, which MediaVariant to fetch.
+     */
+    where: MediaVariantWhereUniqueInput
+  }
+
+  /**
+   * MediaVariant findFirst
+   */
+  export type MediaVariantFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MediaVariant
+     */
+    select?: MediaVariantSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MediaVariant
+     */
+    omit?: MediaVariantOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MediaVariantInclude<ExtArgs> | null
+    /**
+     * Filter, which MediaVariant to fetch.
+     */
+    where?: MediaVariantWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of MediaVariants to fetch.
+     */
+    orderBy?: MediaVariantOrderByWithRelationInput | MediaVariantOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for MediaVariants.
+     */
+    cursor?: MediaVariantWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` MediaVariants from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` MediaVariants.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of MediaVariants.
+     */
+    distinct?: MediaVariantScalarFieldEnum | MediaVariantScalarFieldEnum[]
+  }
+
+  /**
+   * MediaVariant findFirstOrThrow
+   */
+  export type MediaVariantFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MediaVariant
+     */
+    select?: MediaVariantSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MediaVariant
+     */
+    omit?: MediaVariantOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MediaVariantInclude<ExtArgs> | null
+    /**
+     * Filter, which MediaVariant to fetch.
+     */
+    where?: MediaVariantWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of MediaVariants to fetch.
+     */
+    orderBy?: MediaVariantOrderByWithRelationInput | MediaVariantOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for MediaVariants.
+     */
+    cursor?: MediaVariantWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` MediaVariants from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` MediaVariants.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of MediaVariants.
+     */
+    distinct?: MediaVariantScalarFieldEnum | MediaVariantScalarFieldEnum[]
+  }
+
+  /**
+   * MediaVariant findMany
+   */
+  export type MediaVariantFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MediaVariant
+     */
+    select?: MediaVariantSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MediaVariant
+     */
+    omit?: MediaVariantOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MediaVariantInclude<ExtArgs> | null
+    /**
+     * Filter, which MediaVariants to fetch.
+     */
+    where?: MediaVariantWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of MediaVariants to fetch.
+     */
+    orderBy?: MediaVariantOrderByWithRelationInput | MediaVariantOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing MediaVariants.
+     */
+    cursor?: MediaVariantWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` MediaVariants from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` MediaVariants.
+     */
+    skip?: number
+    distinct?: MediaVariantScalarFieldEnum | MediaVariantScalarFieldEnum[]
+  }
+
+  /**
+   * MediaVariant create
+   */
+  export type MediaVariantCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MediaVariant
+     */
+    select?: MediaVariantSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MediaVariant
+     */
+    omit?: MediaVariantOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MediaVariantInclude<ExtArgs> | null
+    /**
+     * The data needed to create a MediaVariant.
+     */
+    data: XOR<MediaVariantCreateInput, MediaVariantUncheckedCreateInput>
+  }
+
+  /**
+   * MediaVariant createMany
+   */
+  export type MediaVariantCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many MediaVariants.
+     */
+    data: MediaVariantCreateManyInput | MediaVariantCreateManyInput[]
+  }
+
+  /**
+   * MediaVariant createManyAndReturn
+   */
+  export type MediaVariantCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MediaVariant
+     */
+    select?: MediaVariantSelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the MediaVariant
+     */
+    omit?: MediaVariantOmit<ExtArgs> | null
+    /**
+     * The data used to create many MediaVariants.
+     */
+    data: MediaVariantCreateManyInput | MediaVariantCreateManyInput[]
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MediaVariantIncludeCreateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * MediaVariant update
+   */
+  export type MediaVariantUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MediaVariant
+     */
+    select?: MediaVariantSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MediaVariant
+     */
+    omit?: MediaVariantOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MediaVariantInclude<ExtArgs> | null
+    /**
+     * The data needed to update a MediaVariant.
+     */
+    data: XOR<MediaVariantUpdateInput, MediaVariantUncheckedUpdateInput>
+    /**
+     * Choose, which MediaVariant to update.
+     */
+    where: MediaVariantWhereUniqueInput
+  }
+
+  /**
+   * MediaVariant updateMany
+   */
+  export type MediaVariantUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update MediaVariants.
+     */
+    data: XOR<MediaVariantUpdateManyMutationInput, MediaVariantUncheckedUpdateManyInput>
+    /**
+     * Filter which MediaVariants to update
+     */
+    where?: MediaVariantWhereInput
+    /**
+     * Limit how many MediaVariants to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * MediaVariant updateManyAndReturn
+   */
+  export type MediaVariantUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MediaVariant
+     */
+    select?: MediaVariantSelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the MediaVariant
+     */
+    omit?: MediaVariantOmit<ExtArgs> | null
+    /**
+     * The data used to update MediaVariants.
+     */
+    data: XOR<MediaVariantUpdateManyMutationInput, MediaVariantUncheckedUpdateManyInput>
+    /**
+     * Filter which MediaVariants to update
+     */
+    where?: MediaVariantWhereInput
+    /**
+     * Limit how many MediaVariants to update.
+     */
+    limit?: number
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MediaVariantIncludeUpdateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * MediaVariant upsert
+   */
+  export type MediaVariantUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MediaVariant
+     */
+    select?: MediaVariantSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MediaVariant
+     */
+    omit?: MediaVariantOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MediaVariantInclude<ExtArgs> | null
+    /**
+     * The filter to search for the MediaVariant to update in case it exists.
+     */
+    where: MediaVariantWhereUniqueInput
+    /**
+     * In case the MediaVariant found by the `where` argument doesn't exist, create a new MediaVariant with this data.
+     */
+    create: XOR<MediaVariantCreateInput, MediaVariantUncheckedCreateInput>
+    /**
+     * In case the MediaVariant was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<MediaVariantUpdateInput, MediaVariantUncheckedUpdateInput>
+  }
+
+  /**
+   * MediaVariant delete
+   */
+  export type MediaVariantDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MediaVariant
+     */
+    select?: MediaVariantSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MediaVariant
+     */
+    omit?: MediaVariantOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MediaVariantInclude<ExtArgs> | null
+    /**
+     * Filter which MediaVariant to delete.
+     */
+    where: MediaVariantWhereUniqueInput
+  }
+
+  /**
+   * MediaVariant deleteMany
+   */
+  export type MediaVariantDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which MediaVariants to delete
+     */
+    where?: MediaVariantWhereInput
+    /**
+     * Limit how many MediaVariants to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * MediaVariant without action
+   */
+  export type MediaVariantDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the MediaVariant
+     */
+    select?: MediaVariantSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the MediaVariant
+     */
+    omit?: MediaVariantOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: MediaVariantInclude<ExtArgs> | null
+  }
+
+
+  /**
+   * Model GeocodeCache
+   */
+
+  export type AggregateGeocodeCache = {
+    _count: GeocodeCacheCountAggregateOutputType | null
+    _min: GeocodeCacheMinAggregateOutputType | null
+    _max: GeocodeCacheMaxAggregateOutputType | null
+  }
+
+  export type GeocodeCacheMinAggregateOutputType = {
+    id: string | null
+    provider: string | null
+    query: string | null
+    candidates: string | null
+    createdAt: Date | null
+  }
+
+  export type GeocodeCacheMaxAggregateOutputType = {
+    id: string | null
+    provider: string | null
+    query: string | null
+    candidates: string | null
+    createdAt: Date | null
+  }
+
+  export type GeocodeCacheCountAggregateOutputType = {
+    id: number
+    provider: number
+    query: number
+    candidates: number
+    createdAt: number
+    _all: number
+  }
+
+
+  export type GeocodeCacheMinAggregateInputType = {
+    id?: true
+    provider?: true
+    query?: true
+    candidates?: true
+    createdAt?: true
+  }
+
+  export type GeocodeCacheMaxAggregateInputType = {
+    id?: true
+    provider?: true
+    query?: true
+    candidates?: true
+    createdAt?: true
+  }
+
+  export type GeocodeCacheCountAggregateInputType = {
+    id?: true
+    provider?: true
+    query?: true
+    candidates?: true
+    createdAt?: true
+    _all?: true
+  }
+
+  export type GeocodeCacheAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which GeocodeCache to aggregate.
+     */
+    where?: GeocodeCacheWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of GeocodeCaches to fetch.
+     */
+    orderBy?: GeocodeCacheOrderByWithRelationInput | GeocodeCacheOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: GeocodeCacheWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` GeocodeCaches from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` GeocodeCaches.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned GeocodeCaches
+    **/
+    _count?: true | GeocodeCacheCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: GeocodeCacheMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: GeocodeCacheMaxAggregateInputType
+  }
+
+  export type GetGeocodeCacheAggregateType<T extends GeocodeCacheAggregateArgs> = {
+        [P in keyof T & keyof AggregateGeocodeCache]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateGeocodeCache[P]>
+      : GetScalarType<T[P], AggregateGeocodeCache[P]>
+  }
+
+
+
+
+  export type GeocodeCacheGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: GeocodeCacheWhereInput
+    orderBy?: GeocodeCacheOrderByWithAggregationInput | GeocodeCacheOrderByWithAggregationInput[]
+    by: GeocodeCacheScalarFieldEnum[] | GeocodeCacheScalarFieldEnum
+    having?: GeocodeCacheScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: GeocodeCacheCountAggregateInputType | true
+    _min?: GeocodeCacheMinAggregateInputType
+    _max?: GeocodeCacheMaxAggregateInputType
+  }
+
+  export type GeocodeCacheGroupByOutputType = {
+    id: string
+    provider: string
+    query: string
+    candidates: string
+    createdAt: Date
+    _count: GeocodeCacheCountAggregateOutputType | null
+    _min: GeocodeCacheMinAggregateOutputType | null
+    _max: GeocodeCacheMaxAggregateOutputType | null
+  }
+
+  type GetGeocodeCacheGroupByPayload<T extends GeocodeCacheGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<GeocodeCacheGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof GeocodeCacheGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], GeocodeCacheGroupByOutputType[P]>
+            : GetScalarType<T[P], GeocodeCacheGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type GeocodeCacheSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    provider?: boolean
+    query?: boolean
+    candidates?: boolean
+    createdAt?: boolean
+  }, ExtArgs["result"]["geocodeCache"]>
+
+  export type GeocodeCacheSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    provider?: boolean
+    query?: boolean
+    candidates?: boolean
+    createdAt?: boolean
+  }, ExtArgs["result"]["geocodeCache"]>
+
+  export type GeocodeCacheSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    provider?: boolean
+    query?: boolean
+    candidates?: boolean
+    createdAt?: boolean
+  }, ExtArgs["result"]["geocodeCache"]>
+
+  export type GeocodeCacheSelectScalar = {
+    id?: boolean
+    provider?: boolean
+    query?: boolean
+    candidates?: boolean
+    createdAt?: boolean
+  }
+
+  export type GeocodeCacheOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "provider" | "query" | "candidates" | "createdAt", ExtArgs["result"]["geocodeCache"]>
+
+  export type $GeocodeCachePayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "GeocodeCache"
+    objects: {}
+    scalars: $Extensions.GetPayloadResult<{
+      id: string
+      provider: string
+      query: string
+      candidates: string
+      createdAt: Date
+    }, ExtArgs["result"]["geocodeCache"]>
+    composites: {}
+  }
+
+  type GeocodeCacheGetPayload<S extends boolean | null | undefined | GeocodeCacheDefaultArgs> = $Result.GetResult<Prisma.$GeocodeCachePayload, S>
+
+  type GeocodeCacheCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<GeocodeCacheFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: GeocodeCacheCountAggregateInputType | true
+    }
+
+  export interface GeocodeCacheDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['GeocodeCache'], meta: { name: 'GeocodeCache' } }
+    /**
+     * Find zero or one GeocodeCache that matches the filter.
+     * @param {GeocodeCacheFindUniqueArgs} args - Arguments to find a GeocodeCache
+     * @example
+     * // Get one GeocodeCache
+     * const geocodeCache = await prisma.geocodeCache.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends GeocodeCacheFindUniqueArgs>(args: SelectSubset<T, GeocodeCacheFindUniqueArgs<ExtArgs>>): Prisma__GeocodeCacheClient<$Result.GetResult<Prisma.$GeocodeCachePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one GeocodeCache that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {GeocodeCacheFindUniqueOrThrowArgs} args - Arguments to find a GeocodeCache
+     * @example
+     * // Get one GeocodeCache
+     * const geocodeCache = await prisma.geocodeCache.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends GeocodeCacheFindUniqueOrThrowArgs>(args: SelectSubset<T, GeocodeCacheFindUniqueOrThrowArgs<ExtArgs>>): Prisma__GeocodeCacheClient<$Result.GetResult<Prisma.$GeocodeCachePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first GeocodeCache that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {GeocodeCacheFindFirstArgs} args - Arguments to find a GeocodeCache
+     * @example
+     * // Get one GeocodeCache
+     * const geocodeCache = await prisma.geocodeCache.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends GeocodeCacheFindFirstArgs>(args?: SelectSubset<T, GeocodeCacheFindFirstArgs<ExtArgs>>): Prisma__GeocodeCacheClient<$Result.GetResult<Prisma.$GeocodeCachePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first GeocodeCache that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {GeocodeCacheFindFirstOrThrowArgs} args - Arguments to find a GeocodeCache
+     * @example
+     * // Get one GeocodeCache
+     * const geocodeCache = await prisma.geocodeCache.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends GeocodeCacheFindFirstOrThrowArgs>(args?: SelectSubset<T, GeocodeCacheFindFirstOrThrowArgs<ExtArgs>>): Prisma__GeocodeCacheClient<$Result.GetResult<Prisma.$GeocodeCachePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more GeocodeCaches that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {GeocodeCacheFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all GeocodeCaches
+     * const geocodeCaches = await prisma.geocodeCache.findMany()
+     * 
+     * // Get first 10 GeocodeCaches
+     * const geocodeCaches = await prisma.geocodeCache.findMany({ take: 10 })
+     * 
+     * // Only select the `id`
+     * const geocodeCacheWithIdOnly = await prisma.geocodeCache.findMany({ select: { id: true } })
+     * 
+     */
+    findMany<T extends GeocodeCacheFindManyArgs>(args?: SelectSubset<T, GeocodeCacheFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$GeocodeCachePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a GeocodeCache.
+     * @param {GeocodeCacheCreateArgs} args - Arguments to create a GeocodeCache.
+     * @example
+     * // Create one GeocodeCache
+     * const GeocodeCache = await prisma.geocodeCache.create({
+     *   data: {
+     *     // ... data to create a GeocodeCache
+     *   }
+     * })
+     * 
+     */
+    create<T extends GeocodeCacheCreateArgs>(args: SelectSubset<T, GeocodeCacheCreateArgs<ExtArgs>>): Prisma__GeocodeCacheClient<$Result.GetResult<Prisma.$GeocodeCachePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many GeocodeCaches.
+     * @param {GeocodeCacheCreateManyArgs} args - Arguments to create many GeocodeCaches.
+     * @example
+     * // Create many GeocodeCaches
+     * const geocodeCache = await prisma.geocodeCache.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends GeocodeCacheCreateManyArgs>(args?: SelectSubset<T, GeocodeCacheCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many GeocodeCaches and returns the data saved in the database.
+     * @param {GeocodeCacheCreateManyAndReturnArgs} args - Arguments to create many GeocodeCaches.
+     * @example
+     * // Create many GeocodeCaches
+     * const geocodeCache = await prisma.geocodeCache.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many GeocodeCaches and only return the `id`
+     * const geocodeCacheWithIdOnly = await prisma.geocodeCache.createManyAndReturn({
+     *   select: { id: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends GeocodeCacheCreateManyAndReturnArgs>(args?: SelectSubset<T, GeocodeCacheCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$GeocodeCachePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a GeocodeCache.
+     * @param {GeocodeCacheDeleteArgs} args - Arguments to delete one GeocodeCache.
+     * @example
+     * // Delete one GeocodeCache
+     * const GeocodeCache = await prisma.geocodeCache.delete({
+     *   where: {
+     *     // ... filter to delete one GeocodeCache
+     *   }
+     * })
+     * 
+     */
+    delete<T extends GeocodeCacheDeleteArgs>(args: SelectSubset<T, GeocodeCacheDeleteArgs<ExtArgs>>): Prisma__GeocodeCacheClient<$Result.GetResult<Prisma.$GeocodeCachePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one GeocodeCache.
+     * @param {GeocodeCacheUpdateArgs} args - Arguments to update one GeocodeCache.
+     * @example
+     * // Update one GeocodeCache
+     * const geocodeCache = await prisma.geocodeCache.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends GeocodeCacheUpdateArgs>(args: SelectSubset<T, GeocodeCacheUpdateArgs<ExtArgs>>): Prisma__GeocodeCacheClient<$Result.GetResult<Prisma.$GeocodeCachePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more GeocodeCaches.
+     * @param {GeocodeCacheDeleteManyArgs} args - Arguments to filter GeocodeCaches to delete.
+     * @example
+     * // Delete a few GeocodeCaches
+     * const { count } = await prisma.geocodeCache.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends GeocodeCacheDeleteManyArgs>(args?: SelectSubset<T, GeocodeCacheDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more GeocodeCaches.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {GeocodeCacheUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many GeocodeCaches
+     * const geocodeCache = await prisma.geocodeCache.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends GeocodeCacheUpdateManyArgs>(args: SelectSubset<T, GeocodeCacheUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more GeocodeCaches and returns the data updated in the database.
+     * @param {GeocodeCacheUpdateManyAndReturnArgs} args - Arguments to update many GeocodeCaches.
+     * @example
+     * // Update many GeocodeCaches
+     * const geocodeCache = await prisma.geocodeCache.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more GeocodeCaches and only return the `id`
+     * const geocodeCacheWithIdOnly = await prisma.geocodeCache.updateManyAndReturn({
+     *   select: { id: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends GeocodeCacheUpdateManyAndReturnArgs>(args: SelectSubset<T, GeocodeCacheUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$GeocodeCachePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one GeocodeCache.
+     * @param {GeocodeCacheUpsertArgs} args - Arguments to update or create a GeocodeCache.
+     * @example
+     * // Update or create a GeocodeCache
+     * const geocodeCache = await prisma.geocodeCache.upsert({
+     *   create: {
+     *     // ... data to create a GeocodeCache
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the GeocodeCache we want to update
+     *   }
+     * })
+     */
+    upsert<T extends GeocodeCacheUpsertArgs>(args: SelectSubset<T, GeocodeCacheUpsertArgs<ExtArgs>>): Prisma__GeocodeCacheClient<$Result.GetResult<Prisma.$GeocodeCachePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of GeocodeCaches.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {GeocodeCacheCountArgs} args - Arguments to filter GeocodeCaches to count.
+     * @example
+     * // Count the number of GeocodeCaches
+     * const count = await prisma.geocodeCache.count({
+     *   where: {
+     *     // ... the filter for the GeocodeCaches we want to count
+     *   }
+     * })
+    **/
+    count<T extends GeocodeCacheCountArgs>(
+      args?: Subset<T, GeocodeCacheCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], GeocodeCacheCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a GeocodeCache.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {GeocodeCacheAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends GeocodeCacheAggregateArgs>(args: Subset<T, GeocodeCacheAggregateArgs>): Prisma.PrismaPromise<GetGeocodeCacheAggregateType<T>>
+
+    /**
+     * Group by GeocodeCache.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {GeocodeCacheGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends GeocodeCacheGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: GeocodeCacheGroupByArgs['orderBy'] }
+        : { orderBy?: GeocodeCacheGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, GeocodeCacheGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetGeocodeCacheGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the GeocodeCache model
+   */
+  readonly fields: GeocodeCacheFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for GeocodeCache.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__GeocodeCacheClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the GeocodeCache model
+   */
+  interface GeocodeCacheFieldRefs {
+    readonly id: FieldRef<"GeocodeCache", 'String'>
+    readonly provider: FieldRef<"GeocodeCache", 'String'>
+    readonly query: FieldRef<"GeocodeCache", 'String'>
+    readonly candidates: FieldRef<"GeocodeCache", 'String'>
+    readonly createdAt: FieldRef<"GeocodeCache", 'DateTime'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * GeocodeCache findUnique
+   */
+  export type GeocodeCacheFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeCache
+     */
+    select?: GeocodeCacheSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeCache
+     */
+    omit?: GeocodeCacheOmit<ExtArgs> | null
+    /**
+     * Filter, which GeocodeCache to fetch.
+     */
+    where: GeocodeCacheWhereUniqueInput
+  }
+
+  /**
+   * GeocodeCache findUniqueOrThrow
+   */
+  export type GeocodeCacheFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeCache
+     */
+    select?: GeocodeCacheSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeCache
+     */
+    omit?: GeocodeCacheOmit<ExtArgs> | null
+    /**
+     * Filter, which GeocodeCache to fetch.
+     */
+    where: GeocodeCacheWhereUniqueInput
+  }
+
+  /**
+   * GeocodeCache findFirst
+   */
+  export type GeocodeCacheFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeCache
+     */
+    select?: GeocodeCacheSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeCache
+     */
+    omit?: GeocodeCacheOmit<ExtArgs> | null
+    /**
+     * Filter, which GeocodeCache to fetch.
+     */
+    where?: GeocodeCacheWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of GeocodeCaches to fetch.
+     */
+    orderBy?: GeocodeCacheOrderByWithRelationInput | GeocodeCacheOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for GeocodeCaches.
+     */
+    cursor?: GeocodeCacheWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` GeocodeCaches from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` GeocodeCaches.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of GeocodeCaches.
+     */
+    distinct?: GeocodeCacheScalarFieldEnum | GeocodeCacheScalarFieldEnum[]
+  }
+
+  /**
+   * GeocodeCache findFirstOrThrow
+   */
+  export type GeocodeCacheFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeCache
+     */
+    select?: GeocodeCacheSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeCache
+     */
+    omit?: GeocodeCacheOmit<ExtArgs> | null
+    /**
+     * Filter, which GeocodeCache to fetch.
+     */
+    where?: GeocodeCacheWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of GeocodeCaches to fetch.
+     */
+    orderBy?: GeocodeCacheOrderByWithRelationInput | GeocodeCacheOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for GeocodeCaches.
+     */
+    cursor?: GeocodeCacheWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` GeocodeCaches from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` GeocodeCaches.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of GeocodeCaches.
+     */
+    distinct?: GeocodeCacheScalarFieldEnum | GeocodeCacheScalarFieldEnum[]
+  }
+
+  /**
+   * GeocodeCache findMany
+   */
+  export type GeocodeCacheFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeCache
+     */
+    select?: GeocodeCacheSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeCache
+     */
+    omit?: GeocodeCacheOmit<ExtArgs> | null
+    /**
+     * Filter, which GeocodeCaches to fetch.
+     */
+    where?: GeocodeCacheWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of GeocodeCaches to fetch.
+     */
+    orderBy?: GeocodeCacheOrderByWithRelationInput | GeocodeCacheOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing GeocodeCaches.
+     */
+    cursor?: GeocodeCacheWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` GeocodeCaches from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` GeocodeCaches.
+     */
+    skip?: number
+    distinct?: GeocodeCacheScalarFieldEnum | GeocodeCacheScalarFieldEnum[]
+  }
+
+  /**
+   * GeocodeCache create
+   */
+  export type GeocodeCacheCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeCache
+     */
+    select?: GeocodeCacheSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeCache
+     */
+    omit?: GeocodeCacheOmit<ExtArgs> | null
+    /**
+     * The data needed to create a GeocodeCache.
+     */
+    data: XOR<GeocodeCacheCreateInput, GeocodeCacheUncheckedCreateInput>
+  }
+
+  /**
+   * GeocodeCache createMany
+   */
+  export type GeocodeCacheCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many GeocodeCaches.
+     */
+    data: GeocodeCacheCreateManyInput | GeocodeCacheCreateManyInput[]
+  }
+
+  /**
+   * GeocodeCache createManyAndReturn
+   */
+  export type GeocodeCacheCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeCache
+     */
+    select?: GeocodeCacheSelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeCache
+     */
+    omit?: GeocodeCacheOmit<ExtArgs> | null
+    /**
+     * The data used to create many GeocodeCaches.
+     */
+    data: GeocodeCacheCreateManyInput | GeocodeCacheCreateManyInput[]
+  }
+
+  /**
+   * GeocodeCache update
+   */
+  export type GeocodeCacheUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeCache
+     */
+    select?: GeocodeCacheSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeCache
+     */
+    omit?: GeocodeCacheOmit<ExtArgs> | null
+    /**
+     * The data needed to update a GeocodeCache.
+     */
+    data: XOR<GeocodeCacheUpdateInput, GeocodeCacheUncheckedUpdateInput>
+    /**
+     * Choose, which GeocodeCache to update.
+     */
+    where: GeocodeCacheWhereUniqueInput
+  }
+
+  /**
+   * GeocodeCache updateMany
+   */
+  export type GeocodeCacheUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update GeocodeCaches.
+     */
+    data: XOR<GeocodeCacheUpdateManyMutationInput, GeocodeCacheUncheckedUpdateManyInput>
+    /**
+     * Filter which GeocodeCaches to update
+     */
+    where?: GeocodeCacheWhereInput
+    /**
+     * Limit how many GeocodeCaches to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * GeocodeCache updateManyAndReturn
+   */
+  export type GeocodeCacheUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeCache
+     */
+    select?: GeocodeCacheSelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeCache
+     */
+    omit?: GeocodeCacheOmit<ExtArgs> | null
+    /**
+     * The data used to update GeocodeCaches.
+     */
+    data: XOR<GeocodeCacheUpdateManyMutationInput, GeocodeCacheUncheckedUpdateManyInput>
+    /**
+     * Filter which GeocodeCaches to update
+     */
+    where?: GeocodeCacheWhereInput
+    /**
+     * Limit how many GeocodeCaches to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * GeocodeCache upsert
+   */
+  export type GeocodeCacheUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeCache
+     */
+    select?: GeocodeCacheSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeCache
+     */
+    omit?: GeocodeCacheOmit<ExtArgs> | null
+    /**
+     * The filter to search for the GeocodeCache to update in case it exists.
+     */
+    where: GeocodeCacheWhereUniqueInput
+    /**
+     * In case the GeocodeCache found by the `where` argument doesn't exist, create a new GeocodeCache with this data.
+     */
+    create: XOR<GeocodeCacheCreateInput, GeocodeCacheUncheckedCreateInput>
+    /**
+     * In case the GeocodeCache was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<GeocodeCacheUpdateInput, GeocodeCacheUncheckedUpdateInput>
+  }
+
+  /**
+   * GeocodeCache delete
+   */
+  export type GeocodeCacheDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeCache
+     */
+    select?: GeocodeCacheSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeCache
+     */
+    omit?: GeocodeCacheOmit<ExtArgs> | null
+    /**
+     * Filter which GeocodeCache to delete.
+     */
+    where: GeocodeCacheWhereUniqueInput
+  }
+
+  /**
+   * GeocodeCache deleteMany
+   */
+  export type GeocodeCacheDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which GeocodeCaches to delete
+     */
+    where?: GeocodeCacheWhereInput
+    /**
+     * Limit how many GeocodeCaches to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * GeocodeCache without action
+   */
+  export type GeocodeCacheDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeCache
+     */
+    select?: GeocodeCacheSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeCache
+     */
+    omit?: GeocodeCacheOmit<ExtArgs> | null
+  }
+
+
+  /**
+   * Model GeocodeJob
+   */
+
+  export type AggregateGeocodeJob = {
+    _count: GeocodeJobCountAggregateOutputType | null
+    _avg: GeocodeJobAvgAggregateOutputType | null
+    _sum: GeocodeJobSumAggregateOutputType | null
+    _min: GeocodeJobMinAggregateOutputType | null
+    _max: GeocodeJobMaxAggregateOutputType | null
+  }
+
+  export type GeocodeJobAvgAggregateOutputType = {
+    total: number | null
+    processed: number | null
+  }
+
+  export type GeocodeJobSumAggregateOutputType = {
+    total: number | null
+    processed: number | null
+  }
+
+  export type GeocodeJobMinAggregateOutputType = {
+    id: string | null
+    userId: string | null
+    status: string | null
+    total: number | null
+    processed: number | null
+    bounds: string | null
+    createdAt: Date | null
+    updatedAt: Date | null
+  }
+
+  export type GeocodeJobMaxAggregateOutputType = {
+    id: string | null
+    userId: string | null
+    status: string | null
+    total: number | null
+    processed: number | null
+    bounds: string | null
+    createdAt: Date | null
+    updatedAt: Date | null
+  }
+
+  export type GeocodeJobCountAggregateOutputType = {
+    id: number
+    userId: number
+    status: number
+    total: number
+    processed: number
+    bounds: number
+    createdAt: number
+    updatedAt: number
+    _all: number
+  }
+
+
+  export type GeocodeJobAvgAggregateInputType = {
+    total?: true
+    processed?: true
+  }
+
+  export type GeocodeJobSumAggregateInputType = {
+    total?: true
+    processed?: true
+  }
+
+  export type GeocodeJobMinAggregateInputType = {
+    id?: true
+    userId?: true
+    status?: true
+    total?: true
+    processed?: true
+    bounds?: true
+    createdAt?: true
+    updatedAt?: true
+  }
+
+  export type GeocodeJobMaxAggregateInputType = {
+    id?: true
+    userId?: true
+    status?: true
+    total?: true
+    processed?: true
+    bounds?: true
+    createdAt?: true
+    updatedAt?: true
+  }
+
+  export type GeocodeJobCountAggregateInputType = {
+    id?: true
+    userId?: true
+    status?: true
+    total?: true
+    processed?: true
+    bounds?: true
+    createdAt?: true
+    updatedAt?: true
+    _all?: true
+  }
+
+  export type GeocodeJobAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which GeocodeJob to aggregate.
+     */
+    where?: GeocodeJobWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of GeocodeJobs to fetch.
+     */
+    orderBy?: GeocodeJobOrderByWithRelationInput | GeocodeJobOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: GeocodeJobWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` GeocodeJobs from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` GeocodeJobs.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned GeocodeJobs
+    **/
+    _count?: true | GeocodeJobCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to average
+    **/
+    _avg?: GeocodeJobAvgAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to sum
+    **/
+    _sum?: GeocodeJobSumAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: GeocodeJobMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: GeocodeJobMaxAggregateInputType
+  }
+
+  export type GetGeocodeJobAggregateType<T extends GeocodeJobAggregateArgs> = {
+        [P in keyof T & keyof AggregateGeocodeJob]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateGeocodeJob[P]>
+      : GetScalarType<T[P], AggregateGeocodeJob[P]>
+  }
+
+
+
+
+  export type GeocodeJobGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: GeocodeJobWhereInput
+    orderBy?: GeocodeJobOrderByWithAggregationInput | GeocodeJobOrderByWithAggregationInput[]
+    by: GeocodeJobScalarFieldEnum[] | GeocodeJobScalarFieldEnum
+    having?: GeocodeJobScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: GeocodeJobCountAggregateInputType | true
+    _avg?: GeocodeJobAvgAggregateInputType
+    _sum?: GeocodeJobSumAggregateInputType
+    _min?: GeocodeJobMinAggregateInputType
+    _max?: GeocodeJobMaxAggregateInputType
+  }
+
+  export type GeocodeJobGroupByOutputType = {
+    id: string
+    userId: string
+    status: string
+    total: number
+    processed: number
+    bounds: string | null
+    createdAt: Date
+    updatedAt: Date
+    _count: GeocodeJobCountAggregateOutputType | null
+    _avg: GeocodeJobAvgAggregateOutputType | null
+    _sum: GeocodeJobSumAggregateOutputType | null
+    _min: GeocodeJobMinAggregateOutputType | null
+    _max: GeocodeJobMaxAggregateOutputType | null
+  }
+
+  type GetGeocodeJobGroupByPayload<T extends GeocodeJobGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<GeocodeJobGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof GeocodeJobGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], GeocodeJobGroupByOutputType[P]>
+            : GetScalarType<T[P], GeocodeJobGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type GeocodeJobSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    userId?: boolean
+    status?: boolean
+    total?: boolean
+    processed?: boolean
+    bounds?: boolean
+    createdAt?: boolean
+    updatedAt?: boolean
+    user?: boolean | UserDefaultArgs<ExtArgs>
+    items?: boolean | GeocodeJob$itemsArgs<ExtArgs>
+    _count?: boolean | GeocodeJobCountOutputTypeDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["geocodeJob"]>
+
+  export type GeocodeJobSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    userId?: boolean
+    status?: boolean
+    total?: boolean
+    processed?: boolean
+    bounds?: boolean
+    createdAt?: boolean
+    updatedAt?: boolean
+    user?: boolean | UserDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["geocodeJob"]>
+
+  export type GeocodeJobSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    userId?: boolean
+    status?: boolean
+    total?: boolean
+    processed?: boolean
+    bounds?: boolean
+    createdAt?: boolean
+    updatedAt?: boolean
+    user?: boolean | UserDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["geocodeJob"]>
+
+  export type GeocodeJobSelectScalar = {
+    id?: boolean
+    userId?: boolean
+    status?: boolean
+    total?: boolean
+    processed?: boolean
+    bounds?: boolean
+    createdAt?: boolean
+    updatedAt?: boolean
+  }
+
+  export type GeocodeJobOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "userId" | "status" | "total" | "processed" | "bounds" | "createdAt" | "updatedAt", ExtArgs["result"]["geocodeJob"]>
+  export type GeocodeJobInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    user?: boolean | UserDefaultArgs<ExtArgs>
+    items?: boolean | GeocodeJob$itemsArgs<ExtArgs>
+    _count?: boolean | GeocodeJobCountOutputTypeDefaultArgs<ExtArgs>
+  }
+  export type GeocodeJobIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    user?: boolean | UserDefaultArgs<ExtArgs>
+  }
+  export type GeocodeJobIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    user?: boolean | UserDefaultArgs<ExtArgs>
+  }
+
+  export type $GeocodeJobPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "GeocodeJob"
+    objects: {
+      user: Prisma.$UserPayload<ExtArgs>
+      items: Prisma.$GeocodeJobItemPayload<ExtArgs>[]
+    }
+    scalars: $Extensions.GetPayloadResult<{
+      id: string
+      userId: string
+      status: string
+      total: number
+      processed: number
+      bounds: string | null
+      createdAt: Date
+      updatedAt: Date
+    }, ExtArgs["result"]["geocodeJob"]>
+    composites: {}
+  }
+
+  type GeocodeJobGetPayload<S extends boolean | null | undefined | GeocodeJobDefaultArgs> = $Result.GetResult<Prisma.$GeocodeJobPayload, S>
+
+  type GeocodeJobCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<GeocodeJobFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: GeocodeJobCountAggregateInputType | true
+    }
+
+  export interface GeocodeJobDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['GeocodeJob'], meta: { name: 'GeocodeJob' } }
+    /**
+     * Find zero or one GeocodeJob that matches the filter.
+     * @param {GeocodeJobFindUniqueArgs} args - Arguments to find a GeocodeJob
+     * @example
+     * // Get one GeocodeJob
+     * const geocodeJob = await prisma.geocodeJob.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends GeocodeJobFindUniqueArgs>(args: SelectSubset<T, GeocodeJobFindUniqueArgs<ExtArgs>>): Prisma__GeocodeJobClient<$Result.GetResult<Prisma.$GeocodeJobPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one GeocodeJob that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {GeocodeJobFindUniqueOrThrowArgs} args - Arguments to find a GeocodeJob
+     * @example
+     * // Get one GeocodeJob
+     * const geocodeJob = await prisma.geocodeJob.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends GeocodeJobFindUniqueOrThrowArgs>(args: SelectSubset<T, GeocodeJobFindUniqueOrThrowArgs<ExtArgs>>): Prisma__GeocodeJobClient<$Result.GetResult<Prisma.$GeocodeJobPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first GeocodeJob that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {GeocodeJobFindFirstArgs} args - Arguments to find a GeocodeJob
+     * @example
+     * // Get one GeocodeJob
+     * const geocodeJob = await prisma.geocodeJob.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends GeocodeJobFindFirstArgs>(args?: SelectSubset<T, GeocodeJobFindFirstArgs<ExtArgs>>): Prisma__GeocodeJobClient<$Result.GetResult<Prisma.$GeocodeJobPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first GeocodeJob that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {GeocodeJobFindFirstOrThrowArgs} args - Arguments to find a GeocodeJob
+     * @example
+     * // Get one GeocodeJob
+     * const geocodeJob = await prisma.geocodeJob.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends GeocodeJobFindFirstOrThrowArgs>(args?: SelectSubset<T, GeocodeJobFindFirstOrThrowArgs<ExtArgs>>): Prisma__GeocodeJobClient<$Result.GetResult<Prisma.$GeocodeJobPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more GeocodeJobs that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {GeocodeJobFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all GeocodeJobs
+     * const geocodeJobs = await prisma.geocodeJob.findMany()
+     * 
+     * // Get first 10 GeocodeJobs
+     * const geocodeJobs = await prisma.geocodeJob.findMany({ take: 10 })
+     * 
+     * // Only select the `id`
+     * const geocodeJobWithIdOnly = await prisma.geocodeJob.findMany({ select: { id: true } })
+     * 
+     */
+    findMany<T extends GeocodeJobFindManyArgs>(args?: SelectSubset<T, GeocodeJobFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$GeocodeJobPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a GeocodeJob.
+     * @param {GeocodeJobCreateArgs} args - Arguments to create a GeocodeJob.
+     * @example
+     * // Create one GeocodeJob
+     * const GeocodeJob = await prisma.geocodeJob.create({
+     *   data: {
+     *     // ... data to create a GeocodeJob
+     *   }
+     * })
+     * 
+     */
+    create<T extends GeocodeJobCreateArgs>(args: SelectSubset<T, GeocodeJobCreateArgs<ExtArgs>>): Prisma__GeocodeJobClient<$Result.GetResult<Prisma.$GeocodeJobPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many GeocodeJobs.
+     * @param {GeocodeJobCreateManyArgs} args - Arguments to create many GeocodeJobs.
+     * @example
+     * // Create many GeocodeJobs
+     * const geocodeJob = await prisma.geocodeJob.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends GeocodeJobCreateManyArgs>(args?: SelectSubset<T, GeocodeJobCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many GeocodeJobs and returns the data saved in the database.
+     * @param {GeocodeJobCreateManyAndReturnArgs} args - Arguments to create many GeocodeJobs.
+     * @example
+     * // Create many GeocodeJobs
+     * const geocodeJob = await prisma.geocodeJob.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many GeocodeJobs and only return the `id`
+     * const geocodeJobWithIdOnly = await prisma.geocodeJob.createManyAndReturn({
+     *   select: { id: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends GeocodeJobCreateManyAndReturnArgs>(args?: SelectSubset<T, GeocodeJobCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$GeocodeJobPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a GeocodeJob.
+     * @param {GeocodeJobDeleteArgs} args - Arguments to delete one GeocodeJob.
+     * @example
+     * // Delete one GeocodeJob
+     * const GeocodeJob = await prisma.geocodeJob.delete({
+     *   where: {
+     *     // ... filter to delete one GeocodeJob
+     *   }
+     * })
+     * 
+     */
+    delete<T extends GeocodeJobDeleteArgs>(args: SelectSubset<T, GeocodeJobDeleteArgs<ExtArgs>>): Prisma__GeocodeJobClient<$Result.GetResult<Prisma.$GeocodeJobPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one GeocodeJob.
+     * @param {GeocodeJobUpdateArgs} args - Arguments to update one GeocodeJob.
+     * @example
+     * // Update one GeocodeJob
+     * const geocodeJob = await prisma.geocodeJob.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends GeocodeJobUpdateArgs>(args: SelectSubset<T, GeocodeJobUpdateArgs<ExtArgs>>): Prisma__GeocodeJobClient<$Result.GetResult<Prisma.$GeocodeJobPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more GeocodeJobs.
+     * @param {GeocodeJobDeleteManyArgs} args - Arguments to filter GeocodeJobs to delete.
+     * @example
+     * // Delete a few GeocodeJobs
+     * const { count } = await prisma.geocodeJob.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends GeocodeJobDeleteManyArgs>(args?: SelectSubset<T, GeocodeJobDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more GeocodeJobs.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {GeocodeJobUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many GeocodeJobs
+     * const geocodeJob = await prisma.geocodeJob.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends GeocodeJobUpdateManyArgs>(args: SelectSubset<T, GeocodeJobUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more GeocodeJobs and returns the data updated in the database.
+     * @param {GeocodeJobUpdateManyAndReturnArgs} args - Arguments to update many GeocodeJobs.
+     * @example
+     * // Update many GeocodeJobs
+     * const geocodeJob = await prisma.geocodeJob.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more GeocodeJobs and only return the `id`
+     * const geocodeJobWithIdOnly = await prisma.geocodeJob.updateManyAndReturn({
+     *   select: { id: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends GeocodeJobUpdateManyAndReturnArgs>(args: SelectSubset<T, GeocodeJobUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$GeocodeJobPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one GeocodeJob.
+     * @param {GeocodeJobUpsertArgs} args - Arguments to update or create a GeocodeJob.
+     * @example
+     * // Update or create a GeocodeJob
+     * const geocodeJob = await prisma.geocodeJob.upsert({
+     *   create: {
+     *     // ... data to create a GeocodeJob
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the GeocodeJob we want to update
+     *   }
+     * })
+     */
+    upsert<T extends GeocodeJobUpsertArgs>(args: SelectSubset<T, GeocodeJobUpsertArgs<ExtArgs>>): Prisma__GeocodeJobClient<$Result.GetResult<Prisma.$GeocodeJobPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of GeocodeJobs.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {GeocodeJobCountArgs} args - Arguments to filter GeocodeJobs to count.
+     * @example
+     * // Count the number of GeocodeJobs
+     * const count = await prisma.geocodeJob.count({
+     *   where: {
+     *     // ... the filter for the GeocodeJobs we want to count
+     *   }
+     * })
+    **/
+    count<T extends GeocodeJobCountArgs>(
+      args?: Subset<T, GeocodeJobCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], GeocodeJobCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a GeocodeJob.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {GeocodeJobAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends GeocodeJobAggregateArgs>(args: Subset<T, GeocodeJobAggregateArgs>): Prisma.PrismaPromise<GetGeocodeJobAggregateType<T>>
+
+    /**
+     * Group by GeocodeJob.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {GeocodeJobGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends GeocodeJobGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: GeocodeJobGroupByArgs['orderBy'] }
+        : { orderBy?: GeocodeJobGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, GeocodeJobGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetGeocodeJobGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the GeocodeJob model
+   */
+  readonly fields: GeocodeJobFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for GeocodeJob.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__GeocodeJobClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    user<T extends UserDefaultArgs<ExtArgs> = {}>(args?: Subset<T, UserDefaultArgs<ExtArgs>>): Prisma__UserClient<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+    items<T extends GeocodeJob$itemsArgs<ExtArgs> = {}>(args?: Subset<T, GeocodeJob$itemsArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$GeocodeJobItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the GeocodeJob model
+   */
+  interface GeocodeJobFieldRefs {
+    readonly id: FieldRef<"GeocodeJob", 'String'>
+    readonly userId: FieldRef<"GeocodeJob", 'String'>
+    readonly status: FieldRef<"GeocodeJob", 'String'>
+    readonly total: FieldRef<"GeocodeJob", 'Int'>
+    readonly processed: FieldRef<"GeocodeJob", 'Int'>
+    readonly bounds: FieldRef<"GeocodeJob", 'String'>
+    readonly createdAt: FieldRef<"GeocodeJob", 'DateTime'>
+    readonly updatedAt: FieldRef<"GeocodeJob", 'DateTime'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * GeocodeJob findUnique
+   */
+  export type GeocodeJobFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeJob
+     */
+    select?: GeocodeJobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeJob
+     */
+    omit?: GeocodeJobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: GeocodeJobInclude<ExtArgs> | null
+    /**
+     * Filter, which GeocodeJob to fetch.
+     */
+    where: GeocodeJobWhereUniqueInput
+  }
+
+  /**
+   * GeocodeJob findUniqueOrThrow
+   */
+  export type GeocodeJobFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeJob
+     */
+    select?: GeocodeJobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeJob
+     */
+    omit?: GeocodeJobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: GeocodeJobInclude<ExtArgs> | null
+    /**
+     * Filter, which GeocodeJob to fetch.
+     */
+    where: GeocodeJobWhereUniqueInput
+  }
+
+  /**
+   * GeocodeJob findFirst
+   */
+  export type GeocodeJobFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeJob
+     */
+    select?: GeocodeJobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeJob
+     */
+    omit?: GeocodeJobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: GeocodeJobInclude<ExtArgs> | null
+    /**
+     * Filter, which GeocodeJob to fetch.
+     */
+    where?: GeocodeJobWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of GeocodeJobs to fetch.
+     */
+    orderBy?: GeocodeJobOrderByWithRelationInput | GeocodeJobOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for GeocodeJobs.
+     */
+    cursor?: GeocodeJobWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` GeocodeJobs from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` GeocodeJobs.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of GeocodeJobs.
+     */
+    distinct?: GeocodeJobScalarFieldEnum | GeocodeJobScalarFieldEnum[]
+  }
+
+  /**
+   * GeocodeJob findFirstOrThrow
+   */
+  export type GeocodeJobFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeJob
+     */
+    select?: GeocodeJobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeJob
+     */
+    omit?: GeocodeJobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: GeocodeJobInclude<ExtArgs> | null
+    /**
+     * Filter, which GeocodeJob to fetch.
+     */
+    where?: GeocodeJobWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of GeocodeJobs to fetch.
+     */
+    orderBy?: GeocodeJobOrderByWithRelationInput | GeocodeJobOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for GeocodeJobs.
+     */
+    cursor?: GeocodeJobWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` GeocodeJobs from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` GeocodeJobs.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of GeocodeJobs.
+     */
+    distinct?: GeocodeJobScalarFieldEnum | GeocodeJobScalarFieldEnum[]
+  }
+
+  /**
+   * GeocodeJob findMany
+   */
+  export type GeocodeJobFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeJob
+     */
+    select?: GeocodeJobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeJob
+     */
+    omit?: GeocodeJobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: GeocodeJobInclude<ExtArgs> | null
+    /**
+     * Filter, which GeocodeJobs to fetch.
+     */
+    where?: GeocodeJobWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of GeocodeJobs to fetch.
+     */
+    orderBy?: GeocodeJobOrderByWithRelationInput | GeocodeJobOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing GeocodeJobs.
+     */
+    cursor?: GeocodeJobWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` GeocodeJobs from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` GeocodeJobs.
+     */
+    skip?: number
+    distinct?: GeocodeJobScalarFieldEnum | GeocodeJobScalarFieldEnum[]
+  }
+
+  /**
+   * GeocodeJob create
+   */
+  export type GeocodeJobCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeJob
+     */
+    select?: GeocodeJobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeJob
+     */
+    omit?: GeocodeJobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: GeocodeJobInclude<ExtArgs> | null
+    /**
+     * The data needed to create a GeocodeJob.
+     */
+    data: XOR<GeocodeJobCreateInput, GeocodeJobUncheckedCreateInput>
+  }
+
+  /**
+   * GeocodeJob createMany
+   */
+  export type GeocodeJobCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many GeocodeJobs.
+     */
+    data: GeocodeJobCreateManyInput | GeocodeJobCreateManyInput[]
+  }
+
+  /**
+   * GeocodeJob createManyAndReturn
+   */
+  export type GeocodeJobCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeJob
+     */
+    select?: GeocodeJobSelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeJob
+     */
+    omit?: GeocodeJobOmit<ExtArgs> | null
+    /**
+     * The data used to create many GeocodeJobs.
+     */
+    data: GeocodeJobCreateManyInput | GeocodeJobCreateManyInput[]
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: GeocodeJobIncludeCreateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * GeocodeJob update
+   */
+  export type GeocodeJobUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeJob
+     */
+    select?: GeocodeJobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeJob
+     */
+    omit?: GeocodeJobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: GeocodeJobInclude<ExtArgs> | null
+    /**
+     * The data needed to update a GeocodeJob.
+     */
+    data: XOR<GeocodeJobUpdateInput, GeocodeJobUncheckedUpdateInput>
+    /**
+     * Choose, which GeocodeJob to update.
+     */
+    where: GeocodeJobWhereUniqueInput
+  }
+
+  /**
+   * GeocodeJob updateMany
+   */
+  export type GeocodeJobUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update GeocodeJobs.
+     */
+    data: XOR<GeocodeJobUpdateManyMutationInput, GeocodeJobUncheckedUpdateManyInput>
+    /**
+     * Filter which GeocodeJobs to update
+     */
+    where?: GeocodeJobWhereInput
+    /**
+     * Limit how many GeocodeJobs to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * GeocodeJob updateManyAndReturn
+   */
+  export type GeocodeJobUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeJob
+     */
+    select?: GeocodeJobSelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeJob
+     */
+    omit?: GeocodeJobOmit<ExtArgs> | null
+    /**
+     * The data used to update GeocodeJobs.
+     */
+    data: XOR<GeocodeJobUpdateManyMutationInput, GeocodeJobUncheckedUpdateManyInput>
+    /**
+     * Filter which GeocodeJobs to update
+     */
+    where?: GeocodeJobWhereInput
+    /**
+     * Limit how many GeocodeJobs to update.
+     */
+    limit?: number
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: GeocodeJobIncludeUpdateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * GeocodeJob upsert
+   */
+  export type GeocodeJobUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeJob
+     */
+    select?: GeocodeJobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeJob
+     */
+    omit?: GeocodeJobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: GeocodeJobInclude<ExtArgs> | null
+    /**
+     * The filter to search for the GeocodeJob to update in case it exists.
+     */
+    where: GeocodeJobWhereUniqueInput
+    /**
+     * In case the GeocodeJob found by the `where` argument doesn't exist, create a new GeocodeJob with this data.
+     */
+    create: XOR<GeocodeJobCreateInput, GeocodeJobUncheckedCreateInput>
+    /**
+     * In case the GeocodeJob was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<GeocodeJobUpdateInput, GeocodeJobUncheckedUpdateInput>
+  }
+
+  /**
+   * GeocodeJob delete
+   */
+  export type GeocodeJobDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeJob
+     */
+    select?: GeocodeJobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeJob
+     */
+    omit?: GeocodeJobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: GeocodeJobInclude<ExtArgs> | null
+    /**
+     * Filter which GeocodeJob to delete.
+     */
+    where: GeocodeJobWhereUniqueInput
+  }
+
+  /**
+   * GeocodeJob deleteMany
+   */
+  export type GeocodeJobDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which GeocodeJobs to delete
+     */
+    where?: GeocodeJobWhereInput
+    /**
+     * Limit how many GeocodeJobs to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * GeocodeJob.items
+   */
+  export type GeocodeJob$itemsArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeJobItem
+     */
+    select?: GeocodeJobItemSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeJobItem
+     */
+    omit?: GeocodeJobItemOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: GeocodeJobItemInclude<ExtArgs> | null
+    where?: GeocodeJobItemWhereInput
+    orderBy?: GeocodeJobItemOrderByWithRelationInput | GeocodeJobItemOrderByWithRelationInput[]
+    cursor?: GeocodeJobItemWhereUniqueInput
+    take?: number
+    skip?: number
+    distinct?: GeocodeJobItemScalarFieldEnum | GeocodeJobItemScalarFieldEnum[]
+  }
+
+  /**
+   * GeocodeJob without action
+   */
+  export type GeocodeJobDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeJob
+     */
+    select?: GeocodeJobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeJob
+     */
+    omit?: GeocodeJobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: GeocodeJobInclude<ExtArgs> | null
+  }
+
+
+  /**
+   * Model GeocodeJobItem
+   */
+
+  export type AggregateGeocodeJobItem = {
+    _count: GeocodeJobItemCountAggregateOutputType | null
+    _avg: GeocodeJobItemAvgAggregateOutputType | null
+    _sum: GeocodeJobItemSumAggregateOutputType | null
+    _min: GeocodeJobItemMinAggregateOutputType | null
+    _max: GeocodeJobItemMaxAggregateOutputType | null
+  }
+
+  export type GeocodeJobItemAvgAggregateOutputType = {
+    index: number | null
+    lat: number | null
+    lng: number | null
+    attempts: number | null
+  }
+
+  export type GeocodeJobItemSumAggregateOutputType = {
+    index: number | null
+    lat: number | null
+    lng: number | null
+    attempts: number | null
+  }
+
+  export type GeocodeJobItemMinAggregateOutputType = {
+    id: string | null
+    jobId: string | null
+    index: number | null
+    address: string | null
+    status: string | null
+    lat: number | null
+    lng: number | null
+    displayName: string | null
+    candidates: string | null
+    source: string | null
+    error: string | null
+    attempts: number | null
+    updatedAt: Date | null
+  }
+
+  export type GeocodeJobItemMaxAggregateOutputType = {
+    id: string | null
+    jobId: string | null
+    index: number | null
+    address: string | null
+    status: string | null
+    lat: number | null
+    lng: number | null
+    displayName: string | null
+    candidates: string | null
+    source: string | null
+    error: string | null
+    attempts: number | null
+    updatedAt: Date | null
+  }
+
+  export type GeocodeJobItemCountAggregateOutputType = {
+    id: number
+    jobId: number
+    index: number
+    address: number
+    status: number
+    lat: number
+    lng: number
+    displayName: number
+    candidates: number
+    source: number
+    error: number
+    attempts: number
+    updatedAt: number
+    _all: number
+  }
+
+
+  export type GeocodeJobItemAvgAggregateInputType = {
+    index?: true
+    lat?: true
+    lng?: true
+    attempts?: true
+  }
+
+  export type GeocodeJobItemSumAggregateInputType = {
+    index?: true
+    lat?: true
+    lng?: true
+    attempts?: true
+  }
+
+  export type GeocodeJobItemMinAggregateInputType = {
+    id?: true
+    jobId?: true
+    index?: true
+    address?: true
+    status?: true
+    lat?: true
+    lng?: true
+    displayName?: true
+    candidates?: true
+    source?: true
+    error?: true
+    attempts?: true
+    updatedAt?: true
+  }
+
+  export type GeocodeJobItemMaxAggregateInputType = {
+    id?: true
+    jobId?: true
+    index?: true
+    address?: true
+    status?: true
+    lat?: true
+    lng?: true
+    displayName?: true
+    candidates?: true
+    source?: true
+    error?: true
+    attempts?: true
+    updatedAt?: true
+  }
+
+  export type GeocodeJobItemCountAggregateInputType = {
+    id?: true
+    jobId?: true
+    index?: true
+    address?: true
+    status?: true
+    lat?: true
+    lng?: true
+    displayName?: true
+    candidates?: true
+    source?: true
+    error?: true
+    attempts?: true
+    updatedAt?: true
+    _all?: true
+  }
+
+  export type GeocodeJobItemAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which GeocodeJobItem to aggregate.
+     */
+    where?: GeocodeJobItemWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of GeocodeJobItems to fetch.
+     */
+    orderBy?: GeocodeJobItemOrderByWithRelationInput | GeocodeJobItemOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: GeocodeJobItemWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` GeocodeJobItems from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` GeocodeJobItems.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned GeocodeJobItems
+    **/
+    _count?: true | GeocodeJobItemCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to average
+    **/
+    _avg?: GeocodeJobItemAvgAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to sum
+    **/
+    _sum?: GeocodeJobItemSumAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: GeocodeJobItemMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: GeocodeJobItemMaxAggregateInputType
+  }
+
+  export type GetGeocodeJobItemAggregateType<T extends GeocodeJobItemAggregateArgs> = {
+        [P in keyof T & keyof AggregateGeocodeJobItem]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateGeocodeJobItem[P]>
+      : GetScalarType<T[P], AggregateGeocodeJobItem[P]>
+  }
+
+
+
+
+  export type GeocodeJobItemGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: GeocodeJobItemWhereInput
+    orderBy?: GeocodeJobItemOrderByWithAggregationInput | GeocodeJobItemOrderByWithAggregationInput[]
+    by: GeocodeJobItemScalarFieldEnum[] | GeocodeJobItemScalarFieldEnum
+    having?: GeocodeJobItemScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: GeocodeJobItemCountAggregateInputType | true
+    _avg?: GeocodeJobItemAvgAggregateInputType
+    _sum?: GeocodeJobItemSumAggregateInputType
+    _min?: GeocodeJobItemMinAggregateInputType
+    _max?: GeocodeJobItemMaxAggregateInputType
+  }
+
+  export type GeocodeJobItemGroupByOutputType = {
+    id: string
+    jobId: string
+    index: number
+    address: string
+    status: string
+    lat: number | null
+    lng: number | null
+    displayName: string | null
+    candidates: string | null
+    source: string | null
+    error: string | null
+    attempts: number
+    updatedAt: Date
+    _count: GeocodeJobItemCountAggregateOutputType | null
+    _avg: GeocodeJobItemAvgAggregateOutputType | null
+    _sum: GeocodeJobItemSumAggregateOutputType | null
+    _min: GeocodeJobItemMinAggregateOutputType | null
+    _max: GeocodeJobItemMaxAggregateOutputType | null
+  }
+
+  type GetGeocodeJobItemGroupByPayload<T extends GeocodeJobItemGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<GeocodeJobItemGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof GeocodeJobItemGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], GeocodeJobItemGroupByOutputType[P]>
+            : GetScalarType<T[P], GeocodeJobItemGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type GeocodeJobItemSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    jobId?: boolean
+    index?: boolean
+    address?: boolean
+    status?: boolean
+    lat?: boolean
+    lng?: boolean
+    displayName?: boolean
+    candidates?: boolean
+    source?: boolean
+    error?: boolean
+    attempts?: boolean
+    updatedAt?: boolean
+    job?: boolean | GeocodeJobDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["geocodeJobItem"]>
+
+  export type GeocodeJobItemSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    jobId?: boolean
+    index?: boolean
+    address?: boolean
+    status?: boolean
+    lat?: boolean
+    lng?: boolean
+    displayName?: boolean
+    candidates?: boolean
+    source?: boolean
+    error?: boolean
+    attempts?: boolean
+    updatedAt?: boolean
+    job?: boolean | GeocodeJobDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["geocodeJobItem"]>
+
+  export type GeocodeJobItemSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    jobId?: boolean
+    index?: boolean
+    address?: boolean
+    status?: boolean
+    lat?: boolean
+    lng?: boolean
+    displayName?: boolean
+    candidates?: boolean
+    source?: boolean
+    error?: boolean
+    attempts?: boolean
+    updatedAt?: boolean
+    job?: boolean | GeocodeJobDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["geocodeJobItem"]>
+
+  export type GeocodeJobItemSelectScalar = {
+    id?: boolean
+    jobId?: boolean
+    index?: boolean
+    address?: boolean
+    status?: boolean
+    lat?: boolean
+    lng?: boolean
+    displayName?: boolean
+    candidates?: boolean
+    source?: boolean
+    error?: boolean
+    attempts?: boolean
+    updatedAt?: boolean
+  }
+
+  export type GeocodeJobItemOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "jobId" | "index" | "address" | "status" | "lat" | "lng" | "displayName" | "candidates" | "source" | "error" | "attempts" | "updatedAt", ExtArgs["result"]["geocodeJobItem"]>
+  export type GeocodeJobItemInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    job?: boolean | GeocodeJobDefaultArgs<ExtArgs>
+  }
+  export type GeocodeJobItemIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    job?: boolean | GeocodeJobDefaultArgs<ExtArgs>
+  }
+  export type GeocodeJobItemIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    job?: boolean | GeocodeJobDefaultArgs<ExtArgs>
+  }
+
+  export type $GeocodeJobItemPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "GeocodeJobItem"
+    objects: {
+      job: Prisma.$GeocodeJobPayload<ExtArgs>
+    }
+    scalars: $Extensions.GetPayloadResult<{
+      id: string
+      jobId: string
+      index: number
+      address: string
+      status: string
+      lat: number | null
+      lng: number | null
+      displayName: string | null
+      candidates: string | null
+      source: string | null
+      error: string | null
+      attempts: number
+      updatedAt: Date
+    }, ExtArgs["result"]["geocodeJobItem"]>
+    composites: {}
+  }
+
+  type GeocodeJobItemGetPayload<S extends boolean | null | undefined | GeocodeJobItemDefaultArgs> = $Result.GetResult<Prisma.$GeocodeJobItemPayload, S>
+
+  type GeocodeJobItemCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<GeocodeJobItemFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: GeocodeJobItemCountAggregateInputType | true
+    }
+
+  export interface GeocodeJobItemDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['GeocodeJobItem'], meta: { name: 'GeocodeJobItem' } }
+    /**
+     * Find zero or one GeocodeJobItem that matches the filter.
+     * @param {GeocodeJobItemFindUniqueArgs} args - Arguments to find a GeocodeJobItem
+     * @example
+     * // Get one GeocodeJobItem
+     * const geocodeJobItem = await prisma.geocodeJobItem.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends GeocodeJobItemFindUniqueArgs>(args: SelectSubset<T, GeocodeJobItemFindUniqueArgs<ExtArgs>>): Prisma__GeocodeJobItemClient<$Result.GetResult<Prisma.$GeocodeJobItemPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one GeocodeJobItem that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {GeocodeJobItemFindUniqueOrThrowArgs} args - Arguments to find a GeocodeJobItem
+     * @example
+     * // Get one GeocodeJobItem
+     * const geocodeJobItem = await prisma.geocodeJobItem.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends GeocodeJobItemFindUniqueOrThrowArgs>(args: SelectSubset<T, GeocodeJobItemFindUniqueOrThrowArgs<ExtArgs>>): Prisma__GeocodeJobItemClient<$Result.GetResult<Prisma.$GeocodeJobItemPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first GeocodeJobItem that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {GeocodeJobItemFindFirstArgs} args - Arguments to find a GeocodeJobItem
+     * @example
+     * // Get one GeocodeJobItem
+     * const geocodeJobItem = await prisma.geocodeJobItem.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends GeocodeJobItemFindFirstArgs>(args?: SelectSubset<T, GeocodeJobItemFindFirstArgs<ExtArgs>>): Prisma__GeocodeJobItemClient<$Result.GetResult<Prisma.$GeocodeJobItemPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first GeocodeJobItem that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {GeocodeJobItemFindFirstOrThrowArgs} args - Arguments to find a GeocodeJobItem
+     * @example
+     * // Get one GeocodeJobItem
+     * const geocodeJobItem = await prisma.geocodeJobItem.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends GeocodeJobItemFindFirstOrThrowArgs>(args?: SelectSubset<T, GeocodeJobItemFindFirstOrThrowArgs<ExtArgs>>): Prisma__GeocodeJobItemClient<$Result.GetResult<Prisma.$GeocodeJobItemPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more GeocodeJobItems that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {GeocodeJobItemFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all GeocodeJobItems
+     * const geocodeJobItems = await prisma.geocodeJobItem.findMany()
+     * 
+     * // Get first 10 GeocodeJobItems
+     * const geocodeJobItems = await prisma.geocodeJobItem.findMany({ take: 10 })
+     * 
+     * // Only select the `id`
+     * const geocodeJobItemWithIdOnly = await prisma.geocodeJobItem.findMany({ select: { id: true } })
+     * 
+     */
+    findMany<T extends GeocodeJobItemFindManyArgs>(args?: SelectSubset<T, GeocodeJobItemFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$GeocodeJobItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a GeocodeJobItem.
+     * @param {GeocodeJobItemCreateArgs} args - Arguments to create a GeocodeJobItem.
+     * @example
+     * // Create one GeocodeJobItem
+     * const GeocodeJobItem = await prisma.geocodeJobItem.create({
+     *   data: {
+     *     // ... data to create a GeocodeJobItem
+     *   }
+     * })
+     * 
+     */
+    create<T extends GeocodeJobItemCreateArgs>(args: SelectSubset<T, GeocodeJobItemCreateArgs<ExtArgs>>): Prisma__GeocodeJobItemClient<$Result.GetResult<Prisma.$GeocodeJobItemPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many GeocodeJobItems.
+     * @param {GeocodeJobItemCreateManyArgs} args - Arguments to create many GeocodeJobItems.
+     * @example
+     * // Create many GeocodeJobItems
+     * const geocodeJobItem = await prisma.geocodeJobItem.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends GeocodeJobItemCreateManyArgs>(args?: SelectSubset<T, GeocodeJobItemCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many GeocodeJobItems and returns the data saved in the database.
+     * @param {GeocodeJobItemCreateManyAndReturnArgs} args - Arguments to create many GeocodeJobItems.
+     * @example
+     * // Create many GeocodeJobItems
+     * const geocodeJobItem = await prisma.geocodeJobItem.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many GeocodeJobItems and only return the `id`
+     * const geocodeJobItemWithIdOnly = await prisma.geocodeJobItem.createManyAndReturn({
+     *   select: { id: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends GeocodeJobItemCreateManyAndReturnArgs>(args?: SelectSubset<T, GeocodeJobItemCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$GeocodeJobItemPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a GeocodeJobItem.
+     * @param {GeocodeJobItemDeleteArgs} args - Arguments to delete one GeocodeJobItem.
+     * @example
+     * // Delete one GeocodeJobItem
+     * const GeocodeJobItem = await prisma.geocodeJobItem.delete({
+     *   where: {
+     *     // ... filter to delete one GeocodeJobItem
+     *   }
+     * })
+     * 
+     */
+    delete<T extends GeocodeJobItemDeleteArgs>(args: SelectSubset<T, GeocodeJobItemDeleteArgs<ExtArgs>>): Prisma__GeocodeJobItemClient<$Result.GetResult<Prisma.$GeocodeJobItemPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one GeocodeJobItem.
+     * @param {GeocodeJobItemUpdateArgs} args - Arguments to update one GeocodeJobItem.
+     * @example
+     * // Update one GeocodeJobItem
+     * const geocodeJobItem = await prisma.geocodeJobItem.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends GeocodeJobItemUpdateArgs>(args: SelectSubset<T, GeocodeJobItemUpdateArgs<ExtArgs>>): Prisma__GeocodeJobItemClient<$Result.GetResult<Prisma.$GeocodeJobItemPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more GeocodeJobItems.
+     * @param {GeocodeJobItemDeleteManyArgs} args - Arguments to filter GeocodeJobItems to delete.
+     * @example
+     * // Delete a few GeocodeJobItems
+     * const { count } = await prisma.geocodeJobItem.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends GeocodeJobItemDeleteManyArgs>(args?: SelectSubset<T, GeocodeJobItemDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more GeocodeJobItems.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {GeocodeJobItemUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many GeocodeJobItems
+     * const geocodeJobItem = await prisma.geocodeJobItem.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends GeocodeJobItemUpdateManyArgs>(args: SelectSubset<T, GeocodeJobItemUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more GeocodeJobItems and returns the data updated in the database.
+     * @param {GeocodeJobItemUpdateManyAndReturnArgs} args - Arguments to update many GeocodeJobItems.
+     * @example
+     * // Update many GeocodeJobItems
+     * const geocodeJobItem = await prisma.geocodeJobItem.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more GeocodeJobItems and only return the `id`
+     * const geocodeJobItemWithIdOnly = await prisma.geocodeJobItem.updateManyAndReturn({
+     *   select: { id: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends GeocodeJobItemUpdateManyAndReturnArgs>(args: SelectSubset<T, GeocodeJobItemUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$GeocodeJobItemPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one GeocodeJobItem.
+     * @param {GeocodeJobItemUpsertArgs} args - Arguments to update or create a GeocodeJobItem.
+     * @example
+     * // Update or create a GeocodeJobItem
+     * const geocodeJobItem = await prisma.geocodeJobItem.upsert({
+     *   create: {
+     *     // ... data to create a GeocodeJobItem
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the GeocodeJobItem we want to update
+     *   }
+     * })
+     */
+    upsert<T extends GeocodeJobItemUpsertArgs>(args: SelectSubset<T, GeocodeJobItemUpsertArgs<ExtArgs>>): Prisma__GeocodeJobItemClient<$Result.GetResult<Prisma.$GeocodeJobItemPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of GeocodeJobItems.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {GeocodeJobItemCountArgs} args - Arguments to filter GeocodeJobItems to count.
+     * @example
+     * // Count the number of GeocodeJobItems
+     * const count = await prisma.geocodeJobItem.count({
+     *   where: {
+     *     // ... the filter for the GeocodeJobItems we want to count
+     *   }
+     * })
+    **/
+    count<T extends GeocodeJobItemCountArgs>(
+      args?: Subset<T, GeocodeJobItemCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], GeocodeJobItemCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a GeocodeJobItem.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {GeocodeJobItemAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends GeocodeJobItemAggregateArgs>(args: Subset<T, GeocodeJobItemAggregateArgs>): Prisma.PrismaPromise<GetGeocodeJobItemAggregateType<T>>
+
+    /**
+     * Group by GeocodeJobItem.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {GeocodeJobItemGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends GeocodeJobItemGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: GeocodeJobItemGroupByArgs['orderBy'] }
+        : { orderBy?: GeocodeJobItemGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, GeocodeJobItemGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetGeocodeJobItemGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the GeocodeJobItem model
+   */
+  readonly fields: GeocodeJobItemFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for GeocodeJobItem.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__GeocodeJobItemClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    job<T extends GeocodeJobDefaultArgs<ExtArgs> = {}>(args?: Subset<T, GeocodeJobDefaultArgs<ExtArgs>>): Prisma__GeocodeJobClient<$Result.GetResult<Prisma.$GeocodeJobPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the GeocodeJobItem model
+   */
+  interface GeocodeJobItemFieldRefs {
+    readonly id: FieldRef<"GeocodeJobItem", 'String'>
+    readonly jobId: FieldRef<"GeocodeJobItem", 'String'>
+    readonly index: FieldRef<"GeocodeJobItem", 'Int'>
+    readonly address: FieldRef<"GeocodeJobItem", 'String'>
+    readonly status: FieldRef<"GeocodeJobItem", 'String'>
+    readonly lat: FieldRef<"GeocodeJobItem", 'Float'>
+    readonly lng: FieldRef<"GeocodeJobItem", 'Float'>
+    readonly displayName: FieldRef<"GeocodeJobItem", 'String'>
+    readonly candidates: FieldRef<"GeocodeJobItem", 'String'>
+    readonly source: FieldRef<"GeocodeJobItem", 'String'>
+    readonly error: FieldRef<"GeocodeJobItem", 'String'>
+    readonly attempts: FieldRef<"GeocodeJobItem", 'Int'>
+    readonly updatedAt: FieldRef<"GeocodeJobItem", 'DateTime'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * GeocodeJobItem findUnique
+   */
+  export type GeocodeJobItemFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeJobItem
+     */
+    select?: GeocodeJobItemSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeJobItem
+     */
+    omit?: GeocodeJobItemOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: GeocodeJobItemInclude<ExtArgs> | null
+    /**
+     * Filter, which GeocodeJobItem to fetch.
+     */
+    where: GeocodeJobItemWhereUniqueInput
+  }
+
+  /**
+   * GeocodeJobItem findUniqueOrThrow
+   */
+  export type GeocodeJobItemFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeJobItem
+     */
+    select?: GeocodeJobItemSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeJobItem
+     */
+    omit?: GeocodeJobItemOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: GeocodeJobItemInclude<ExtArgs> | null
+    /**
+     * Filter, which GeocodeJobItem to fetch.
+     */
+    where: GeocodeJobItemWhereUniqueInput
+  }
+
+  /**
+   * GeocodeJobItem findFirst
+   */
+  export type GeocodeJobItemFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeJobItem
+     */
+    select?: GeocodeJobItemSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeJobItem
+     */
+    omit?: GeocodeJobItemOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: GeocodeJobItemInclude<ExtArgs> | null
+    /**
+     * Filter, which GeocodeJobItem to fetch.
+     */
+    where?: GeocodeJobItemWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of GeocodeJobItems to fetch.
+     */
+    orderBy?: GeocodeJobItemOrderByWithRelationInput | GeocodeJobItemOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for GeocodeJobItems.
+     */
+    cursor?: GeocodeJobItemWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` GeocodeJobItems from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` GeocodeJobItems.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of GeocodeJobItems.
+     */
+    distinct?: GeocodeJobItemScalarFieldEnum | GeocodeJobItemScalarFieldEnum[]
+  }
+
+  /**
+   * GeocodeJobItem findFirstOrThrow
+   */
+  export type GeocodeJobItemFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeJobItem
+     */
+    select?: GeocodeJobItemSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeJobItem
+     */
+    omit?: GeocodeJobItemOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: GeocodeJobItemInclude<ExtArgs> | null
+    /**
+     * Filter, which GeocodeJobItem to fetch.
+     */
+    where?: GeocodeJobItemWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of GeocodeJobItems to fetch.
+     */
+    orderBy?: GeocodeJobItemOrderByWithRelationInput | GeocodeJobItemOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for GeocodeJobItems.
+     */
+    cursor?: GeocodeJobItemWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` GeocodeJobItems from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` GeocodeJobItems.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of GeocodeJobItems.
+     */
+    distinct?: GeocodeJobItemScalarFieldEnum | GeocodeJobItemScalarFieldEnum[]
+  }
+
+  /**
+   * GeocodeJobItem findMany
+   */
+  export type GeocodeJobItemFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeJobItem
+     */
+    select?: GeocodeJobItemSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeJobItem
+     */
+    omit?: GeocodeJobItemOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: GeocodeJobItemInclude<ExtArgs> | null
+    /**
+     * Filter, which GeocodeJobItems to fetch.
+     */
+    where?: GeocodeJobItemWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of GeocodeJobItems to fetch.
+     */
+    orderBy?: GeocodeJobItemOrderByWithRelationInput | GeocodeJobItemOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing GeocodeJobItems.
+     */
+    cursor?: GeocodeJobItemWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` GeocodeJobItems from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` GeocodeJobItems.
+     */
+    skip?: number
+    distinct?: GeocodeJobItemScalarFieldEnum | GeocodeJobItemScalarFieldEnum[]
+  }
+
+  /**
+   * GeocodeJobItem create
+   */
+  export type GeocodeJobItemCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeJobItem
+     */
+    select?: GeocodeJobItemSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeJobItem
+     */
+    omit?: GeocodeJobItemOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: GeocodeJobItemInclude<ExtArgs> | null
+    /**
+     * The data needed to create a GeocodeJobItem.
+     */
+    data: XOR<GeocodeJobItemCreateInput, GeocodeJobItemUncheckedCreateInput>
+  }
+
+  /**
+   * GeocodeJobItem createMany
+   */
+  export type GeocodeJobItemCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many GeocodeJobItems.
+     */
+    data: GeocodeJobItemCreateManyInput | GeocodeJobItemCreateManyInput[]
+  }
+
+  /**
+   * GeocodeJobItem createManyAndReturn
+   */
+  export type GeocodeJobItemCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeJobItem
+     */
+    select?: GeocodeJobItemSelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeJobItem
+     */
+    omit?: GeocodeJobItemOmit<ExtArgs> | null
+    /**
+     * The data used to create many GeocodeJobItems.
+     */
+    data: GeocodeJobItemCreateManyInput | GeocodeJobItemCreateManyInput[]
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: GeocodeJobItemIncludeCreateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * GeocodeJobItem update
+   */
+  export type GeocodeJobItemUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeJobItem
+     */
+    select?: GeocodeJobItemSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeJobItem
+     */
+    omit?: GeocodeJobItemOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: GeocodeJobItemInclude<ExtArgs> | null
+    /**
+     * The data needed to update a GeocodeJobItem.
+     */
+    data: XOR<GeocodeJobItemUpdateInput, GeocodeJobItemUncheckedUpdateInput>
+    /**
+     * Choose, which GeocodeJobItem to update.
+     */
+    where: GeocodeJobItemWhereUniqueInput
+  }
+
+  /**
+   * GeocodeJobItem updateMany
+   */
+  export type GeocodeJobItemUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update GeocodeJobItems.
+     */
+    data: XOR<GeocodeJobItemUpdateManyMutationInput, GeocodeJobItemUncheckedUpdateManyInput>
+    /**
+     * Filter which GeocodeJobItems to update
+     */
+    where?: GeocodeJobItemWhereInput
+    /**
+     * Limit how many GeocodeJobItems to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * GeocodeJobItem updateManyAndReturn
+   */
+  export type GeocodeJobItemUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeJobItem
+     */
+    select?: GeocodeJobItemSelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeJobItem
+     */
+    omit?: GeocodeJobItemOmit<ExtArgs> | null
+    /**
+     * The data used to update GeocodeJobItems.
+     */
+    data: XOR<GeocodeJobItemUpdateManyMutationInput, GeocodeJobItemUncheckedUpdateManyInput>
+    /**
+     * Filter which GeocodeJobItems to update
+     */
+    where?: GeocodeJobItemWhereInput
+    /**
+     * Limit how many GeocodeJobItems to update.
+     */
+    limit?: number
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: GeocodeJobItemIncludeUpdateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * GeocodeJobItem upsert
+   */
+  export type GeocodeJobItemUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeJobItem
+     */
+    select?: GeocodeJobItemSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeJobItem
+     */
+    omit?: GeocodeJobItemOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: GeocodeJobItemInclude<ExtArgs> | null
+    /**
+     * The filter to search for the GeocodeJobItem to update in case it exists.
+     */
+    where: GeocodeJobItemWhereUniqueInput
+    /**
+     * In case the GeocodeJobItem found by the `where` argument doesn't exist, create a new GeocodeJobItem with this data.
+     */
+    create: XOR<GeocodeJobItemCreateInput, GeocodeJobItemUncheckedCreateInput>
+    /**
+     * In case the GeocodeJobItem was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<GeocodeJobItemUpdateInput, GeocodeJobItemUncheckedUpdateInput>
+  }
+
+  /**
+   * GeocodeJobItem delete
+   */
+  export type GeocodeJobItemDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeJobItem
+     */
+    select?: GeocodeJobItemSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeJobItem
+     */
+    omit?: GeocodeJobItemOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: GeocodeJobItemInclude<ExtArgs> | null
+    /**
+     * Filter which GeocodeJobItem to delete.
+     */
+    where: GeocodeJobItemWhereUniqueInput
+  }
+
+  /**
+   * GeocodeJobItem deleteMany
+   */
+  export type GeocodeJobItemDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which GeocodeJobItems to delete
+     */
+    where?: GeocodeJobItemWhereInput
+    /**
+     * Limit how many GeocodeJobItems to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * GeocodeJobItem without action
+   */
+  export type GeocodeJobItemDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the GeocodeJobItem
+     */
+    select?: GeocodeJobItemSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the GeocodeJobItem
+     */
+    omit?: GeocodeJobItemOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: GeocodeJobItemInclude<ExtArgs> | null
+  }
+
+
+  /**
+   * Enums
+   */
+
+  export const TransactionIsolationLevel: {
+    Serializable: 'Serializable'
+  };
+
+  export type TransactionIsolationLevel = (typeof TransactionIsolationLevel)[keyof typeof TransactionIsolationLevel]
+
+
+  export const MapScalarFieldEnum: {
+    id: 'id',
+    title: 'title',
+    description: 'description',
+    geographicBounds: 'geographicBounds',
+    canvasConfig: 'canvasConfig',
+    imageUrl: 'imageUrl',
+    imageMediaId: 'imageMediaId',
+    useBaseMap: 'useBaseMap',
+    published: 'published',
+    publishedSnapshot: 'publishedSnapshot',
+    publishedAt: 'publishedAt',
+    categories: 'categories',
+    aiNavigatorEnabled: 'aiNavigatorEnabled',
+    aiNavigatorPrompt: 'aiNavigatorPrompt',
+    createdAt: 'createdAt',
+    updatedAt: 'updatedAt'
+  };
+
+  export type MapScalarFieldEnum = (typeof MapScalarFieldEnum)[keyof typeof MapScalarFieldEnum]
+
+
+  export const ZoneScalarFieldEnum: {
+    id: 'id',
+    mapId: 'mapId',
+    type: 'type',
+    coordinates: 'coordinates',
+    content: 'content',
+    style: 'style',
+    category: 'category',
+    levelId: 'levelId',
+    externalId: 'externalId',
+    importedValues: 'importedValues',
+    createdAt: 'createdAt',
+    updatedAt: 'updatedAt'
+  };
+
+  export type ZoneScalarFieldEnum = (typeof ZoneScalarFieldEnum)[keyof typeof ZoneScalarFieldEnum]
+
+
+  export const LevelScalarFieldEnum: {
+    id: 'id',
+    mapId: 'mapId',
+    name: 'name',
+    ordinal: 'ordinal',
+    imageUrl: 'imageUrl',
+    imageMediaId: 'imageMediaId',
+    tiles: 'tiles',
+    elevation: 'elevation',
+    createdAt: 'createdAt',
+    updatedAt: 'updatedAt'
+  };
+
+  export type LevelScalarFieldEnum = (typeof LevelScalarFieldEnum)[keyof typeof LevelScalarFieldEnum]
+
+
+  export const MapRevisionScalarFieldEnum: {
+    id: 'id',
+    mapId: 'mapId',
+    snapshot: 'snapshot',
+    author: 'author',
+    message: 'message',
+    createdAt: 'createdAt'
+  };
+
+  export type MapRevisionScalarFieldEnum = (typeof MapRevisionScalarFieldEnum)[keyof typeof MapRevisionScalarFieldEnum]
+
+
+  export const UserScalarFieldEnum: {
+    id: 'id',
+    email: 'email',
+    name: 'name',
+    passwordHash: 'passwordHash',
+    createdAt: 'createdAt',
+    updatedAt: 'updatedAt'
+  };
+
+  export type UserScalarFieldEnum = (typeof UserScalarFieldEnum)[keyof typeof UserScalarFieldEnum]
+
+
+  export const MapMemberScalarFieldEnum: {
+    id: 'id',
+    mapId: 'mapId',
+    userId: 'userId',
+    role: 'role',
+    createdAt: 'createdAt'
+  };
+
+  export type MapMemberScalarFieldEnum = (typeof MapMemberScalarFieldEnum)[keyof typeof MapMemberScalarFieldEnum]
+
+
+  export const MediaScalarFieldEnum: {
+    id: 'id',
+    hash: 'hash',
+    mimeType: 'mimeType',
+    size: 'size',
+    storageKey: 'storageKey',
+    width: 'width',
+    height: 'height',
+    tilesKey: 'tilesKey',
+    tileSize: 'tileSize',
+    tileMinLevel: 'tileMinLevel',
+    tileMaxLevel: 'tileMaxLevel',
+    createdAt: 'createdAt'
+  };
+
+  export type MediaScalarFieldEnum = (typeof MediaScalarFieldEnum)[keyof typeof MediaScalarFieldEnum]
+
+
+  export const MediaVariantScalarFieldEnum: {
+    id: 'id',
+    mediaId: 'mediaId',
+    width: 'width',
+    height: 'height',
+    mimeType: 'mimeType',
+    size: 'size',
+    storageKey: 'storageKey',
+    createdAt: 'createdAt'
+  };
+
+  export type MediaVariantScalarFieldEnum = (typeof MediaVariantScalarFieldEnum)[keyof typeof MediaVariantScalarFieldEnum]
+
+
+  export const GeocodeCacheScalarFieldEnum: {
+    id: 'id',
+    provider: 'provider',
+    query: 'query',
+    candidates: 'candidates',
+    createdAt: 'createdAt'
+  };
+
+  export type GeocodeCacheScalarFieldEnum = (typeof GeocodeCacheScalarFieldEnum)[keyof typeof GeocodeCacheScalarFieldEnum]
+
+
+  export const GeocodeJobScalarFieldEnum: {
+    id: 'id',
+    userId: 'userId',
+    status: 'status',
+    total: 'total',
+    processed: 'processed',
+    bounds: 'bounds',
+    createdAt: 'createdAt',
+    updatedAt: 'updatedAt'
+  };
+
+  export type GeocodeJobScalarFieldEnum = (typeof GeocodeJobScalarFieldEnum)[keyof typeof GeocodeJobScalarFieldEnum]
+
+
+  export const GeocodeJobItemScalarFieldEnum: {
+    id: 'id',
+    jobId: 'jobId',
+    index: 'index',
+    address: 'address',
+    status: 'status',
+    lat: 'lat',
+    lng: 'lng',
+    displayName: 'displayName',
+    candidates: 'candidates',
+    source: 'source',
+    error: 'error',
+    attempts: 'attempts',
+    updatedAt: 'updatedAt'
+  };
+
+  export type GeocodeJobItemScalarFieldEnum = (typeof GeocodeJobItemScalarFieldEnum)[keyof typeof GeocodeJobItemScalarFieldEnum]
+
+
+  export const SortOrder: {
+    asc: 'asc',
+    desc: 'desc'
+  };
+
+  export type SortOrder = (typeof SortOrder)[keyof typeof SortOrder]
+
+
+  export const NullsOrder: {
+    first: 'first',
+    last: 'last'
+  };
+
+  export type NullsOrder = (typeof NullsOrder)[keyof typeof NullsOrder]
+
+
+  /**
+   * Field references
+   */
+
+
+  /**
+   * Reference to a field of type 'String'
+   */
+  export type StringFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'String'>
+    
+
+
+  /**
+   * Reference to a field of type 'Boolean'
+   */
+  export type BooleanFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Boolean'>
+    
+
+
+  /**
+   * Reference to a field of type 'DateTime'
+   */
+  export type DateTimeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DateTime'>
+    
+
+
+  /**
+   * Reference to a field of type 'Int'
+   */
+  export type IntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int'>
+    
+
+
+  /**
+   * Reference to a field of type 'Float'
+   */
+  export type FloatFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Float'>
+    
+  /**
+   * Deep Input Types
+   */
+
+
+  export type MapWhereInput = {
+    AND?: MapWhereInput | MapWhereInput[]
+    OR?: MapWhereInput[]
+    NOT?: MapWhereInput | MapWhereInput[]
+    id?: StringFilter<"Map"> | string
+    title?: StringFilter<"Map"> | string
+    description?: StringNullableFilter<"Map"> | string | null
+    geographicBounds?: StringNullableFilter<"Map"> | string | null
+    canvasConfig?: StringFilter<"Map"> | string
+    imageUrl?: StringNullableFilter<"Map"> | string | null
+    imageMediaId?: StringNullableFilter<"Map"> | string | null
+    useBaseMap?: BoolFilter<"Map"> | boolean
+    published?: BoolFilter<"Map"> | boolean
+    publishedSnapshot?: StringNullableFilter<"Map"> | string | null
+    publishedAt?: DateTimeNullableFilter<"Map"> | Date | string | null
+    categories?: StringNullableFilter<"Map"> | string | null
+    aiNavigatorEnabled?: BoolFilter<"Map"> | boolean
+    aiNavigatorPrompt?: StringNullableFilter<"Map"> | string | null
+    createdAt?: DateTimeFilter<"Map"> | Date | string
+    updatedAt?: DateTimeFilter<"Map"> | Date | string
+    imageMedia?: XOR<MediaNullableScalarRelationFilter, MediaWhereInput> | null
+    levels?: LevelListRelationFilter
+    zones?: ZoneListRelationFilter
+    revisions?: MapRevisionListRelationFilter
+    members?: MapMemberListRelationFilter
+  }
+
+  export type MapOrderByWithRelationInput = {
+    id?: SortOrder
+    title?: SortOrder
+    description?: SortOrderInput | SortOrder
+    geographicBounds?: SortOrderInput | SortOrder
+    canvasConfig?: SortOrder
+    imageUrl?: SortOrderInput | SortOrder
+    imageMediaId?: SortOrderInput | SortOrder
+    useBaseMap?: SortOrder
+    published?: SortOrder
+    publishedSnapshot?: SortOrderInput | SortOrder
+    publishedAt?: SortOrderInput | SortOrder
+    categories?: SortOrderInput | SortOrder
+    aiNavigatorEnabled?: SortOrder
+    aiNavigatorPrompt?: SortOrderInput | SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+    imageMedia?: MediaOrderByWithRelationInput
+    levels?: LevelOrderByRelationAggregateInput
+    zones?: ZoneOrderByRelationAggregateInput
+    revisions?: MapRevisionOrderByRelationAggregateInput
+    members?: MapMemberOrderByRelationAggregateInput
+  }
+
+  export type MapWhereUniqueInput = Prisma.AtLeast<{
+    id?: string
+    AND?: MapWhereInput | MapWhereInput[]
+    OR?: MapWhereInput[]
+    NOT?: MapWhereInput | MapWhereInput[]
+    title?: StringFilter<"Map"> | string
+    description?: StringNullableFilter<"Map"> | string | null
+    geographicBounds?: StringNullableFilter<"Map"> | string | null
+    canvasConfig?: StringFilter<"Map"> | string
+    imageUrl?: StringNullableFilter<"Map"> | string | null
+    imageMediaId?: StringNullableFilter<"Map"> | string | null
+    useBaseMap?: BoolFilter<"Map"> | boolean
+    published?: BoolFilter<"Map"> | boolean
+    publishedSnapshot?: StringNullableFilter<"Map"> | string | null
+    publishedAt?: DateTimeNullableFilter<"Map"> | Date | string | null
+    categories?: StringNullableFilter<"Map"> | string | null
+    aiNavigatorEnabled?: BoolFilter<"Map"> | boolean
+    aiNavigatorPrompt?: StringNullableFilter<"Map"> | string | null
+    createdAt?: DateTimeFilter<"Map"> | Date | string
+    updatedAt?: DateTimeFilter<"Map"> | Date | string
+    imageMedia?: XOR<MediaNullableScalarRelationFilter, MediaWhereInput> | null
+    levels?: LevelListRelationFilter
+    zones?: ZoneListRelationFilter
+    revisions?: MapRevisionListRelationFilter
+    members?: MapMemberListRelationFilter
+  }, "id">
+
+  export type MapOrderByWithAggregationInput = {
+    id?: SortOrder
+    title?: SortOrder
+    description?: SortOrderInput | SortOrder
+    geographicBounds?: SortOrderInput | SortOrder
+    canvasConfig?: SortOrder
+    imageUrl?: SortOrderInput | SortOrder
+    imageMediaId?: SortOrderInput | SortOrder
+    useBaseMap?: SortOrder
+    published?: SortOrder
+    publishedSnapshot?: SortOrderInput | SortOrder
+    publishedAt?: SortOrderInput | SortOrder
+    categories?: SortOrderInput | SortOrder
+    aiNavigatorEnabled?: SortOrder
+    aiNavigatorPrompt?: SortOrderInput | SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+    _count?: MapCountOrderByAggregateInput
+    _max?: MapMaxOrderByAggregateInput
+    _min?: MapMinOrderByAggregateInput
+  }
+
+  export type MapScalarWhereWithAggregatesInput = {
+    AND?: MapScalarWhereWithAggregatesInput | MapScalarWhereWithAggregatesInput[]
+    OR?: MapScalarWhereWithAggregatesInput[]
+    NOT?: MapScalarWhereWithAggregatesInput | MapScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"Map"> | string
+    title?: StringWithAggregatesFilter<"Map"> | string
+    description?: StringNullableWithAggregatesFilter<"Map"> | string | null
+    geographicBounds?: StringNullableWithAggregatesFilter<"Map"> | string | null
+    canvasConfig?: StringWithAggregatesFilter<"Map"> | string
+    imageUrl?: StringNullableWithAggregatesFilter<"Map"> | string | null
+    imageMediaId?: StringNullableWithAggregatesFilter<"Map"> | string | null
+    useBaseMap?: BoolWithAggregatesFilter<"Map"> | boolean
+    published?: BoolWithAggregatesFilter<"Map"> | boolean
+    publishedSnapshot?: StringNullableWithAggregatesFilter<"Map"> | string | null
+    publishedAt?: DateTimeNullableWithAggregatesFilter<"Map"> | Date | string | null
+    categories?: StringNullableWithAggregatesFilter<"Map"> | string | null
+    aiNavigatorEnabled?: BoolWithAggregatesFilter<"Map"> | boolean
+    aiNavigatorPrompt?: StringNullableWithAggregatesFilter<"Map"> | string | null
+    createdAt?: DateTimeWithAggregatesFilter<"Map"> | Date | string
+    updatedAt?: DateTimeWithAggregatesFilter<"Map"> | Date | string
+  }
+
+  export type ZoneWhereInput = {
+    AND?: ZoneWhereInput | ZoneWhereInput[]
+    OR?: ZoneWhereInput[]
+    NOT?: ZoneWhereInput | ZoneWhereInput[]
+    id?: StringFilter<"Zone"> | string
+    mapId?: StringFilter<"Zone"> | string
+    type?: StringFilter<"Zone"> | string
+    coordinates?: StringFilter<"Zone"> | string
+    content?: StringFilter<"Zone"> | string
+    style?: StringNullableFilter<"Zone"> | string | null
+    category?: StringNullableFilter<"Zone"> | string | null
+    levelId?: StringNullableFilter<"Zone"> | string | null
+    externalId?: StringNullableFilter<"Zone"> | string | null
+    importedValues?: StringNullableFilter<"Zone"> | string | null
+    createdAt?: DateTimeFilter<"Zone"> | Date | string
+    updatedAt?: DateTimeFilter<"Zone"> | Date | string
+    map?: XOR<MapScalarRelationFilter, MapWhereInput>
+    level?: XOR<LevelNullableScalarRelationFilter, LevelWhereInput> | null
+    media?: MediaListRelationFilter
+  }
+
+  export type ZoneOrderByWithRelationInput = {
+    id?: SortOrder
+    mapId?: SortOrder
+    type?: SortOrder
+    coordinates?: SortOrder
+    content?: SortOrder
+    style?: SortOrderInput | SortOrder
+    category?: SortOrderInput | SortOrder
+    levelId?: SortOrderInput | SortOrder
+    externalId?: SortOrderInput | SortOrder
+    importedValues?: SortOrderInput | SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+    map?: MapOrderByWithRelationInput
+    level?: LevelOrderByWithRelationInput
+    media?: MediaOrderByRelationAggregateInput
+  }
+
+  export type ZoneWhereUniqueInput = Prisma.AtLeast<{
+    id?: string
+    AND?: ZoneWhereInput | ZoneWhereInput[]
+    OR?: ZoneWhereInput[]
+    NOT?: ZoneWhereInput | ZoneWhereInput[]
+    mapId?: StringFilter<"Zone"> | string
+    type?: StringFilter<"Zone"> | string
+    coordinates?: StringFilter<"Zone"> | string
+    content?: StringFilter<"Zone"> | string
+    style?: StringNullableFilter<"Zone"> | string | null
+    category?: StringNullableFilter<"Zone"> | string | null
+    levelId?: StringNullableFilter<"Zone"> | string | null
+    externalId?: StringNullableFilter<"Zone"> | string | null
+    importedValues?: StringNullableFilter<"Zone"> | string | null
+    createdAt?: DateTimeFilter<"Zone"> | Date | string
+    updatedAt?: DateTimeFilter<"Zone"> | Date | string
+    map?: XOR<MapScalarRelationFilter, MapWhereInput>
+    level?: XOR<LevelNullableScalarRelationFilter, LevelWhereInput> | null
+    media?: MediaListRelationFilter
+  }, "id">
+
+  export type ZoneOrderByWithAggregationInput = {
+    id?: SortOrder
+    mapId?: SortOrder
+    type?: SortOrder
+    coordinates?: SortOrder
+    content?: SortOrder
+    style?: SortOrderInput | SortOrder
+    category?: SortOrderInput | SortOrder
+    levelId?: SortOrderInput | SortOrder
+    externalId?: SortOrderInput | SortOrder
+    importedValues?: SortOrderInput | SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+    _count?: ZoneCountOrderByAggregateInput
+    _max?: ZoneMaxOrderByAggregateInput
+    _min?: ZoneMinOrderByAggregateInput
+  }
+
+  export type ZoneScalarWhereWithAggregatesInput = {
+    AND?: ZoneScalarWhereWithAggregatesInput | ZoneScalarWhereWithAggregatesInput[]
+    OR?: ZoneScalarWhereWithAggregatesInput[]
+    NOT?: ZoneScalarWhereWithAggregatesInput | ZoneScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"Zone"> | string
+    mapId?: StringWithAggregatesFilter<"Zone"> | string
+    type?: StringWithAggregatesFilter<"Zone"> | string
+    coordinates?: StringWithAggregatesFilter<"Zone"> | string
+    content?: StringWithAggregatesFilter<"Zone"> | string
+    style?: StringNullableWithAggregatesFilter<"Zone"> | string | null
+    category?: StringNullableWithAggregatesFilter<"Zone"> | string | null
+    levelId?: StringNullableWithAggregatesFilter<"Zone"> | string | null
+    externalId?: StringNullableWithAggregatesFilter<"Zone"> | string | null
+    importedValues?: StringNullableWithAggregatesFilter<"Zone"> | string | null
+    createdAt?: DateTimeWithAggregatesFilter<"Zone"> | Date | string
+    updatedAt?: DateTimeWithAggregatesFilter<"Zone"> | Date | string
+  }
+
+  export type LevelWhereInput = {
+    AND?: LevelWhereInput | LevelWhereInput[]
+    OR?: LevelWhereInput[]
+    NOT?: LevelWhereInput | LevelWhereInput[]
+    id?: StringFilter<"Level"> | string
+    mapId?: StringFilter<"Level"> | string
+    name?: StringFilter<"Level"> | string
+    ordinal?: IntFilter<"Level"> | number
+    imageUrl?: StringNullableFilter<"Level"> | string | null
+    imageMediaId?: StringNullableFilter<"Level"> | string | null
+    tiles?: StringNullableFilter<"Level"> | string | null
+    elevation?: FloatFilter<"Level"> | number
+    createdAt?: DateTimeFilter<"Level"> | Date | string
+    updatedAt?: DateTimeFilter<"Level"> | Date | string
+    map?: XOR<MapScalarRelationFilter, MapWhereInput>
+    imageMedia?: XOR<MediaNullableScalarRelationFilter, MediaWhereInput> | null
+    zones?: ZoneListRelationFilter
+  }
+
+  export type LevelOrderByWithRelationInput = {
+    id?: SortOrder
+    mapId?: SortOrder
+    name?: SortOrder
+    ordinal?: SortOrder
+    imageUrl?: SortOrderInput | SortOrder
+    imageMediaId?: SortOrderInput | SortOrder
+    tiles?: SortOrderInput | SortOrder
+    elevation?: SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+    map?: MapOrderByWithRelationInput
+    imageMedia?: MediaOrderByWithRelationInput
+    zones?: ZoneOrderByRelationAggregateInput
+  }
+
+  export type LevelWhereUniqueInput = Prisma.AtLeast<{
+    id?: string
+    AND?: LevelWhereInput | LevelWhereInput[]
+    OR?: LevelWhereInput[]
+    NOT?: LevelWhereInput | LevelWhereInput[]
+    mapId?: StringFilter<"Level"> | string
+    name?: StringFilter<"Level"> | string
+    ordinal?: IntFilter<"Level"> | number
+    imageUrl?: StringNullableFilter<"Level"> | string | null
+    imageMediaId?: StringNullableFilter<"Level"> | string | null
+    tiles?: StringNullableFilter<"Level"> | string | null
+    elevation?: FloatFilter<"Level"> | number
+    createdAt?: DateTimeFilter<"Level"> | Date | string
+    updatedAt?: DateTimeFilter<"Level"> | Date | string
+    map?: XOR<MapScalarRelationFilter, MapWhereInput>
+    imageMedia?: XOR<MediaNullableScalarRelationFilter, MediaWhereInput> | null
+    zones?: ZoneListRelationFilter
+  }, "id">
+
+  export type LevelOrderByWithAggregationInput = {
+    id?: SortOrder
+    mapId?: SortOrder
+    name?: SortOrder
+    ordinal?: SortOrder
+    imageUrl?: SortOrderInput | SortOrder
+    imageMediaId?: SortOrderInput | SortOrder
+    tiles?: SortOrderInput | SortOrder
+    elevation?: SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+    _count?: LevelCountOrderByAggregateInput
+    _avg?: LevelAvgOrderByAggregateInput
+    _max?: LevelMaxOrderByAggregateInput
+    _min?: LevelMinOrderByAggregateInput
+    _sum?: LevelSumOrderByAggregateInput
+  }
+
+  export type LevelScalarWhereWithAggregatesInput = {
+    AND?: LevelScalarWhereWithAggregatesInput | LevelScalarWhereWithAggregatesInput[]
+    OR?: LevelScalarWhereWithAggregatesInput[]
+    NOT?: LevelScalarWhereWithAggregatesInput | LevelScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"Level"> | string
+    mapId?: StringWithAggregatesFilter<"Level"> | string
+    name?: StringWithAggregatesFilter<"Level"> | string
+    ordinal?: IntWithAggregatesFilter<"Level"> | number
+    imageUrl?: StringNullableWithAggregatesFilter<"Level"> | string | null
+    imageMediaId?: StringNullableWithAggregatesFilter<"Level"> | string | null
+    tiles?: StringNullableWithAggregatesFilter<"Level"> | string | null
+    elevation?: FloatWithAggregatesFilter<"Level"> | number
+    createdAt?: DateTimeWithAggregatesFilter<"Level"> | Date | string
+    updatedAt?: DateTimeWithAggregatesFilter<"Level"> | Date | string
+  }
+
+  export type MapRevisionWhereInput = {
+    AND?: MapRevisionWhereInput | MapRevisionWhereInput[]
+    OR?: MapRevisionWhereInput[]
+    NOT?: MapRevisionWhereInput | MapRevisionWhereInput[]
+    id?: StringFilter<"MapRevision"> | string
+    mapId?: StringFilter<"MapRevision"> | string
+    snapshot?: StringFilter<"MapRevision"> | string
+    author?: StringNullableFilter<"MapRevision"> | string | null
+    message?: StringNullableFilter<"MapRevision"> | string | null
+    createdAt?: DateTimeFilter<"MapRevision"> | Date | string
+    map?: XOR<MapScalarRelationFilter, MapWhereInput>
+  }
+
+  export type MapRevisionOrderByWithRelationInput = {
+    id?: SortOrder
+    mapId?: SortOrder
+    snapshot?: SortOrder
+    author?: SortOrderInput | SortOrder
+    message?: SortOrderInput | SortOrder
+    createdAt?: SortOrder
+    map?: MapOrderByWithRelationInput
+  }
+
+  export type MapRevisionWhereUniqueInput = Prisma.AtLeast<{
+    id?: string
+    AND?: MapRevisionWhereInput | MapRevisionWhereInput[]
+    OR?: MapRevisionWhereInput[]
+    NOT?: MapRevisionWhereInput | MapRevisionWhereInput[]
+    mapId?: StringFilter<"MapRevision"> | string
+    snapshot?: StringFilter<"MapRevision"> | string
+    author?: StringNullableFilter<"MapRevision"> | string | null
+    message?: StringNullableFilter<"MapRevision"> | string | null
+    createdAt?: DateTimeFilter<"MapRevision"> | Date | string
+    map?: XOR<MapScalarRelationFilter, MapWhereInput>
+  }, "id">
+
+  export type MapRevisionOrderByWithAggregationInput = {
+    id?: SortOrder
+    mapId?: SortOrder
+    snapshot?: SortOrder
+    author?: SortOrderInput | SortOrder
+    message?: SortOrderInput | SortOrder
+    createdAt?: SortOrder
+    _count?: MapRevisionCountOrderByAggregateInput
+    _max?: MapRevisionMaxOrderByAggregateInput
+    _min?: MapRevisionMinOrderByAggregateInput
+  }
+
+  export type MapRevisionScalarWhereWithAggregatesInput = {
+    AND?: MapRevisionScalarWhereWithAggregatesInput | MapRevisionScalarWhereWithAggregatesInput[]
+    OR?: MapRevisionScalarWhereWithAggregatesInput[]
+    NOT?: MapRevisionScalarWhereWithAggregatesInput | MapRevisionScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"MapRevision"> | string
+    mapId?: StringWithAggregatesFilter<"MapRevision"> | string
+    snapshot?: StringWithAggregatesFilter<"MapRevision"> | string
+    author?: StringNullableWithAggregatesFilter<"MapRevision"> | string | null
+    message?: StringNullableWithAggregatesFilter<"MapRevision"> | string | null
+    createdAt?: DateTimeWithAggregatesFilter<"MapRevision"> | Date | string
+  }
+
+  export type UserWhereInput = {
+    AND?: UserWhereInput | UserWhereInput[]
+    OR?: UserWhereInput[]
+    NOT?: UserWhereInput | UserWhereInput[]
+    id?: StringFilter<"User"> | string
+    email?: StringFilter<"User"> | string
+    name?: StringNullableFilter<"User"> | string | null
+    passwordHash?: StringFilter<"User"> | string
+    createdAt?: DateTimeFilter<"User"> | Date | string
+    updatedAt?: DateTimeFilter<"User"> | Date | string
+    memberships?: MapMemberListRelationFilter
+    geocodeJobs?: GeocodeJobListRelationFilter
+  }
+
+  export type UserOrderByWithRelationInput = {
+    id?: SortOrder
+    email?: SortOrder
+    name?: SortOrderInput | SortOrder
+    passwordHash?: SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+    memberships?: MapMemberOrderByRelationAggregateInput
+    geocodeJobs?: GeocodeJobOrderByRelationAggregateInput
+  }
+
+  export type UserWhereUniqueInput = Prisma.AtLeast<{
+    id?: string
+    email?: string
+    AND?: UserWhereInput | UserWhereInput[]
+    OR?: UserWhereInput[]
+    NOT?: UserWhereInput | UserWhereInput[]
+    name?: StringNullableFilter<"User"> | string | null
+    passwordHash?: StringFilter<"User"> | string
+    createdAt?: DateTimeFilter<"User"> | Date | string
+    updatedAt?: DateTimeFilter<"User"> | Date | string
+    memberships?: MapMemberListRelationFilter
+    geocodeJobs?: GeocodeJobListRelationFilter
+  }, "id" | "email">
+
+  export type UserOrderByWithAggregationInput = {
+    id?: SortOrder
+    email?: SortOrder
+    name?: SortOrderInput | SortOrder
+    passwordHash?: SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+    _count?: UserCountOrderByAggregateInput
+    _max?: UserMaxOrderByAggregateInput
+    _min?: UserMinOrderByAggregateInput
+  }
+
+  export type UserScalarWhereWithAggregatesInput = {
+    AND?: UserScalarWhereWithAggregatesInput | UserScalarWhereWithAggregatesInput[]
+    OR?: UserScalarWhereWithAggregatesInput[]
+    NOT?: UserScalarWhereWithAggregatesInput | UserScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"User"> | string
+    email?: StringWithAggregatesFilter<"User"> | string
+    name?: StringNullableWithAggregatesFilter<"User"> | string | null
+    passwordHash?: StringWithAggregatesFilter<"User"> | string
+    createdAt?: DateTimeWithAggregatesFilter<"User"> | Date | string
+    updatedAt?: DateTimeWithAggregatesFilter<"User"> | Date | string
+  }
+
+  export type MapMemberWhereInput = {
+    AND?: MapMemberWhereInput | MapMemberWhereInput[]
+    OR?: MapMemberWhereInput[]
+    NOT?: MapMemberWhereInput | MapMemberWhereInput[]
+    id?: StringFilter<"MapMember"> | string
+    mapId?: StringFilter<"MapMember"> | string
+    userId?: StringFilter<"MapMember"> | string
+    role?: StringFilter<"MapMember"> | string
+    createdAt?: DateTimeFilter<"MapMember"> | Date | string
+    map?: XOR<MapScalarRelationFilter, MapWhereInput>
+    user?: XOR<UserScalarRelationFilter, UserWhereInput>
+  }
+
+  export type MapMemberOrderByWithRelationInput = {
+    id?: SortOrder
+    mapId?: SortOrder
+    userId?: SortOrder
+    role?: SortOrder
+    createdAt?: SortOrder
+    map?: MapOrderByWithRelationInput
+    user?: UserOrderByWithRelationInput
+  }
+
+  export type MapMemberWhereUniqueInput = Prisma.AtLeast<{
+    id?: string
+    mapId_userId?: MapMemberMapIdUserIdCompoundUniqueInput
+    AND?: MapMemberWhereInput | MapMemberWhereInput[]
+    OR?: MapMemberWhereInput[]
+    NOT?: MapMemberWhereInput | MapMemberWhereInput[]
+    mapId?: StringFilter<"MapMember"> | string
+    userId?: StringFilter<"MapMember"> | string
+    role?: StringFilter<"MapMember"> | string
+    createdAt?: DateTimeFilter<"MapMember"> | Date | string
+    map?: XOR<MapScalarRelationFilter, MapWhereInput>
+    user?: XOR<UserScalarRelationFilter, UserWhereInput>
+  }, "id" | "mapId_userId">
+
+  export type MapMemberOrderByWithAggregationInput = {
+    id?: SortOrder
+    mapId?: SortOrder
+    userId?: SortOrder
+    role?: SortOrder
+    createdAt?: SortOrder
+    _count?: MapMemberCountOrderByAggregateInput
+    _max?: MapMemberMaxOrderByAggregateInput
+    _min?: MapMemberMinOrderByAggregateInput
+  }
+
+  export type MapMemberScalarWhereWithAggregatesInput = {
+    AND?: MapMemberScalarWhereWithAggregatesInput | MapMemberScalarWhereWithAggregatesInput[]
+    OR?: MapMemberScalarWhereWithAggregatesInput[]
+    NOT?: MapMemberScalarWhereWithAggregatesInput | MapMemberScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"MapMember"> | string
+    mapId?: StringWithAggregatesFilter<"MapMember"> | string
+    userId?: StringWithAggregatesFilter<"MapMember"> | string
+    role?: StringWithAggregatesFilter<"MapMember"> | string
+    createdAt?: DateTimeWithAggregatesFilter<"MapMember"> | Date | string
+  }
+
+  export type MediaWhereInput = {
+    AND?: MediaWhereInput | MediaWhereInput[]
+    OR?: MediaWhereInput[]
+    NOT?: MediaWhereInput | MediaWhereInput[]
+    id?: StringFilter<"Media"> | string
+    hash?: StringFilter<"Media"> | string
+    mimeType?: StringFilter<"Media"> | string
+    size?: IntFilter<"Media"> | number
+    storageKey?: StringFilter<"Media"> | string
+    width?: IntNullableFilter<"Media"> | number | null
+    height?: IntNullableFilter<"Media"> | number | null
+    tilesKey?: StringNullableFilter<"Media"> | string | null
+    tileSize?: IntNullableFilter<"Media"> | number | null
+    tileMinLevel?: IntNullableFilter<"Media"> | number | null
+    tileMaxLevel?: IntNullableFilter<"Media"> | number | null
+    createdAt?: DateTimeFilter<"Media"> | Date | string
+    variants?: MediaVariantListRelationFilter
+    maps?: MapListRelationFilter
+    levels?: LevelListRelationFilter
+    zones?: ZoneListRelationFilter
+  }
+
+  export type MediaOrderByWithRelationInput = {
+    id?: SortOrder
+    hash?: SortOrder
+    mimeType?: SortOrder
+    size?: SortOrder
+    storageKey?: SortOrder
+    width?: SortOrderInput | SortOrder
+    height?: SortOrderInput | SortOrder
+    tilesKey?: SortOrderInput | SortOrder
+    tileSize?: SortOrderInput | SortOrder
+    tileMinLevel?: SortOrderInput | SortOrder
+    tileMaxLevel?: SortOrderInput | SortOrder
+    createdAt?: SortOrder
+    variants?: MediaVariantOrderByRelationAggregateInput
+    maps?: MapOrderByRelationAggregateInput
+    levels?: LevelOrderByRelationAggregateInput
+    zones?: ZoneOrderByRelationAggregateInput
+  }
+
+  export type MediaWhereUniqueInput = Prisma.AtLeast<{
+    id?: string
+    hash?: string
+    AND?: MediaWhereInput | MediaWhereInput[]
+    OR?: MediaWhereInput[]
+    NOT?: MediaWhereInput | MediaWhereInput[]
+    mimeType?: StringFilter<"Media"> | string
+    size?: IntFilter<"Media"> | number
+    storageKey?: StringFilter<"Media"> | string
+    width?: IntNullableFilter<"Media"> | number | null
+    height?: IntNullableFilter<"Media"> | number | null
+    tilesKey?: StringNullableFilter<"Media"> | string | null
+    tileSize?: IntNullableFilter<"Media"> | number | null
+    tileMinLevel?: IntNullableFilter<"Media"> | number | null
+    tileMaxLevel?: IntNullableFilter<"Media"> | number | null
+    createdAt?: DateTimeFilter<"Media"> | Date | string
+    variants?: MediaVariantListRelationFilter
+    maps?: MapListRelationFilter
+    levels?: LevelListRelationFilter
+    zones?: ZoneListRelationFilter
+  }, "id" | "hash">
+
+  export type MediaOrderByWithAggregationInput = {
+    id?: SortOrder
+    hash?: SortOrder
+    mimeType?: SortOrder
+    size?: SortOrder
+    storageKey?: SortOrder
+    width?: SortOrderInput | SortOrder
+    height?: SortOrderInput | SortOrder
+    tilesKey?: SortOrderInput | SortOrder
+    tileSize?: SortOrderInput | SortOrder
+    tileMinLevel?: SortOrderInput | SortOrder
+    tileMaxLevel?: SortOrderInput | SortOrder
+    createdAt?: SortOrder
+    _count?: MediaCountOrderByAggregateInput
+    _avg?: MediaAvgOrderByAggregateInput
+    _max?: MediaMaxOrderByAggregateInput
+    _min?: MediaMinOrderByAggregateInput
+    _sum?: MediaSumOrderByAggregateInput
+  }
+
+  export type MediaScalarWhereWithAggregatesInput = {
+    AND?: MediaScalarWhereWithAggregatesInput | MediaScalarWhereWithAggregatesInput[]
+    OR?: MediaScalarWhereWithAggregatesInput[]
+    NOT?: MediaScalarWhereWithAggregatesInput | MediaScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"Media"> | string
+    hash?: StringWithAggregatesFilter<"Media"> | string
+    mimeType?: StringWithAggregatesFilter<"Media"> | string
+    size?: IntWithAggregatesFilter<"Media"> | number
+    storageKey?: StringWithAggregatesFilter<"Media"> | string
+    width?: IntNullableWithAggregatesFilter<"Media"> | number | null
+    height?: IntNullableWithAggregatesFilter<"Media"> | number | null
+    tilesKey?: StringNullableWithAggregatesFilter<"Media"> | string | null
+    tileSize?: IntNullableWithAggregatesFilter<"Media"> | number | null
+    tileMinLevel?: IntNullableWithAggregatesFilter<"Media"> | number | null
+    tileMaxLevel?: IntNullableWithAggregatesFilter<"Media"> | number | null
+    createdAt?: DateTimeWithAggregatesFilter<"Media"> | Date | string
+  }
+
+  export type MediaVariantWhereInput = {
+    AND?: MediaVariantWhereInput | MediaVariantWhereInput[]
+    OR?: MediaVariantWhereInput[]
+    NOT?: MediaVariantWhereInput | MediaVariantWhereInput[]
+    id?: StringFilter<"MediaVariant"> | string
+    mediaId?: StringFilter<"MediaVariant"> | string
+    width?: IntFilter<"MediaVariant"> | number
+    height?: IntFilter<"MediaVariant"> | number
+    mimeType?: StringFilter<"MediaVariant"> | string
+    size?: IntFilter<"MediaVariant"> | number
+    storageKey?: StringFilter<"MediaVariant"> | string
+    createdAt?: DateTimeFilter<"MediaVariant"> | Date | string
+    media?: XOR<MediaScalarRelationFilter, MediaWhereInput>
+  }
+
+  export type MediaVariantOrderByWithRelationInput = {
+    id?: SortOrder
+    mediaId?: SortOrder
+    width?: SortOrder
+    height?: SortOrder
+    mimeType?: SortOrder
+    size?: SortOrder
+    storageKey?: SortOrder
+    createdAt?: SortOrder
+    media?: MediaOrderByWithRelationInput
+  }
+
+  export type MediaVariantWhereUniqueInput = Prisma.AtLeast<{
+    id?: string
+    mediaId_width?: MediaVariantMediaIdWidthCompoundUniqueInput
+    AND?: MediaVariantWhereInput | MediaVariantWhereInput[]
+    OR?: MediaVariantWhereInput[]
+    NOT?: MediaVariantWhereInput | MediaVariantWhereInput[]
+    mediaId?: StringFilter<"MediaVariant"> | string
+    width?: IntFilter<"MediaVariant"> | number
+    height?: IntFilter<"MediaVariant"> | number
+    mimeType?: StringFilter<"MediaVariant"> | string
+    size?: IntFilter<"MediaVariant"> | number
+    storageKey?: StringFilter<"MediaVariant"> | string
+    createdAt?: DateTimeFilter<"MediaVariant"> | Date | string
+    media?: XOR<MediaScalarRelationFilter, MediaWhereInput>
+  }, "id" | "mediaId_width">
+
+  export type MediaVariantOrderByWithAggregationInput = {
+    id?: SortOrder
+    mediaId?: SortOrder
+    width?: SortOrder
+    height?: SortOrder
+    mimeType?: SortOrder
+    size?: SortOrder
+    storageKey?: SortOrder
+    createdAt?: SortOrder
+    _count?: MediaVariantCountOrderByAggregateInput
+    _avg?: MediaVariantAvgOrderByAggregateInput
+    _max?: MediaVariantMaxOrderByAggregateInput
+    _min?: MediaVariantMinOrderByAggregateInput
+    _sum?: MediaVariantSumOrderByAggregateInput
+  }
+
+  export type MediaVariantScalarWhereWithAggregatesInput = {
+    AND?: MediaVariantScalarWhereWithAggregatesInput | MediaVariantScalarWhereWithAggregatesInput[]
+    OR?: MediaVariantScalarWhereWithAggregatesInput[]
+    NOT?: MediaVariantScalarWhereWithAggregatesInput | MediaVariantScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"MediaVariant"> | string
+    mediaId?: StringWithAggregatesFilter<"MediaVariant"> | string
+    width?: IntWithAggregatesFilter<"MediaVariant"> | number
+    height?: IntWithAggregatesFilter<"MediaVariant"> | number
+    mimeType?: StringWithAggregatesFilter<"MediaVariant"> | string
+    size?: IntWithAggregatesFilter<"MediaVariant"> | number
+    storageKey?: StringWithAggregatesFilter<"MediaVariant"> | string
+    createdAt?: DateTimeWithAggregatesFilter<"MediaVariant"> | Date | string
+  }
+
+  export type GeocodeCacheWhereInput = {
+    AND?: GeocodeCacheWhereInput | GeocodeCacheWhereInput[]
+    OR?: GeocodeCacheWhereInput[]
+    NOT?: GeocodeCacheWhereInput | GeocodeCacheWhereInput[]
+    id?: StringFilter<"GeocodeCache"> | string
+    provider?: StringFilter<"GeocodeCache"> | string
+    query?: StringFilter<"GeocodeCache"> | string
+    candidates?: StringFilter<"GeocodeCache"> | string
+    createdAt?: DateTimeFilter<"GeocodeCache"> | Date | string
+  }
+
+  export type GeocodeCacheOrderByWithRelationInput = {
+    id?: SortOrder
+    provider?: SortOrder
+    query?: SortOrder
+    candidates?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type GeocodeCacheWhereUniqueInput = Prisma.AtLeast<{
+    id?: string
+    provider_query?: GeocodeCacheProviderQueryCompoundUniqueInput
+    AND?: GeocodeCacheWhereInput | GeocodeCacheWhereInput[]
+    OR?: GeocodeCacheWhereInput[]
+    NOT?: GeocodeCacheWhereInput | GeocodeCacheWhereInput[]
+    provider?: StringFilter<"GeocodeCache"> | string
+    query?: StringFilter<"GeocodeCache"> | string
+    candidates?: StringFilter<"GeocodeCache"> | string
+    createdAt?: DateTimeFilter<"GeocodeCache"> | Date | string
+  }, "id" | "provider_query">
+
+  export type GeocodeCacheOrderByWithAggregationInput = {
+    id?: SortOrder
+    provider?: SortOrder
+    query?: SortOrder
+    candidates?: SortOrder
+    createdAt?: SortOrder
+    _count?: GeocodeCacheCountOrderByAggregateInput
+    _max?: GeocodeCacheMaxOrderByAggregateInput
+    _min?: GeocodeCacheMinOrderByAggregateInput
+  }
+
+  export type GeocodeCacheScalarWhereWithAggregatesInput = {
+    AND?: GeocodeCacheScalarWhereWithAggregatesInput | GeocodeCacheScalarWhereWithAggregatesInput[]
+    OR?: GeocodeCacheScalarWhereWithAggregatesInput[]
+    NOT?: GeocodeCacheScalarWhereWithAggregatesInput | GeocodeCacheScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"GeocodeCache"> | string
+    provider?: StringWithAggregatesFilter<"GeocodeCache"> | string
+    query?: StringWithAggregatesFilter<"GeocodeCache"> | string
+    candidates?: StringWithAggregatesFilter<"GeocodeCache"> | string
+    createdAt?: DateTimeWithAggregatesFilter<"GeocodeCache"> | Date | string
+  }
+
+  export type GeocodeJobWhereInput = {
+    AND?: GeocodeJobWhereInput | GeocodeJobWhereInput[]
+    OR?: GeocodeJobWhereInput[]
+    NOT?: GeocodeJobWhereInput | GeocodeJobWhereInput[]
+    id?: StringFilter<"GeocodeJob"> | string
+    userId?: StringFilter<"GeocodeJob"> | string
+    status?: StringFilter<"GeocodeJob"> | string
+    total?: IntFilter<"GeocodeJob"> | number
+    processed?: IntFilter<"GeocodeJob"> | number
+    bounds?: StringNullableFilter<"GeocodeJob"> | string | null
+    createdAt?: DateTimeFilter<"GeocodeJob"> | Date | string
+    updatedAt?: DateTimeFilter<"GeocodeJob"> | Date | string
+    user?: XOR<UserScalarRelationFilter, UserWhereInput>
+    items?: GeocodeJobItemListRelationFilter
+  }
+
+  export type GeocodeJobOrderByWithRelationInput = {
+    id?: SortOrder
+    userId?: SortOrder
+    status?: SortOrder
+    total?: SortOrder
+    processed?: SortOrder
+    bounds?: SortOrderInput | SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+    user?: UserOrderByWithRelationInput
+    items?: GeocodeJobItemOrderByRelationAggregateInput
+  }
+
+  export type GeocodeJobWhereUniqueInput = Prisma.AtLeast<{
+    id?: string
+    AND?: GeocodeJobWhereInput | GeocodeJobWhereInput[]
+    OR?: GeocodeJobWhereInput[]
+    NOT?: GeocodeJobWhereInput | GeocodeJobWhereInput[]
+    userId?: StringFilter<"GeocodeJob"> | string
+    status?: StringFilter<"GeocodeJob"> | string
+    total?: IntFilter<"GeocodeJob"> | number
+    processed?: IntFilter<"GeocodeJob"> | number
+    bounds?: StringNullableFilter<"GeocodeJob"> | string | null
+    createdAt?: DateTimeFilter<"GeocodeJob"> | Date | string
+    updatedAt?: DateTimeFilter<"GeocodeJob"> | Date | string
+    user?: XOR<UserScalarRelationFilter, UserWhereInput>
+    items?: GeocodeJobItemListRelationFilter
+  }, "id">
+
+  export type GeocodeJobOrderByWithAggregationInput = {
+    id?: SortOrder
+    userId?: SortOrder
+    status?: SortOrder
+    total?: SortOrder
+    processed?: SortOrder
+    bounds?: SortOrderInput | SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+    _count?: GeocodeJobCountOrderByAggregateInput
+    _avg?: GeocodeJobAvgOrderByAggregateInput
+    _max?: GeocodeJobMaxOrderByAggregateInput
+    _min?: GeocodeJobMinOrderByAggregateInput
+    _sum?: GeocodeJobSumOrderByAggregateInput
+  }
+
+  export type GeocodeJobScalarWhereWithAggregatesInput = {
+    AND?: GeocodeJobScalarWhereWithAggregatesInput | GeocodeJobScalarWhereWithAggregatesInput[]
+    OR?: GeocodeJobScalarWhereWithAggregatesInput[]
+    NOT?: GeocodeJobScalarWhereWithAggregatesInput | GeocodeJobScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"GeocodeJob"> | string
+    userId?: StringWithAggregatesFilter<"GeocodeJob"> | string
+    status?: StringWithAggregatesFilter<"GeocodeJob"> | string
+    total?: IntWithAggregatesFilter<"GeocodeJob"> | number
+    processed?: IntWithAggregatesFilter<"GeocodeJob"> | number
+    bounds?: StringNullableWithAggregatesFilter<"GeocodeJob"> | string | null
+    createdAt?: DateTimeWithAggregatesFilter<"GeocodeJob"> | Date | string
+    updatedAt?: DateTimeWithAggregatesFilter<"GeocodeJob"> | Date | string
+  }
+
+  export type GeocodeJobItemWhereInput = {
+    AND?: GeocodeJobItemWhereInput | GeocodeJobItemWhereInput[]
+    OR?: GeocodeJobItemWhereInput[]
+    NOT?: GeocodeJobItemWhereInput | GeocodeJobItemWhereInput[]
+    id?: StringFilter<"GeocodeJobItem"> | string
+    jobId?: StringFilter<"GeocodeJobItem"> | string
+    index?: IntFilter<"GeocodeJobItem"> | number
+    address?: StringFilter<"GeocodeJobItem"> | string
+    status?: StringFilter<"GeocodeJobItem"> | string
+    lat?: FloatNullableFilter<"GeocodeJobItem"> | number | null
+    lng?: FloatNullableFilter<"GeocodeJobItem"> | number | null
+    displayName?: StringNullableFilter<"GeocodeJobItem"> | string | null
+    candidates?: StringNullableFilter<"GeocodeJobItem"> | string | null
+    source?: StringNullableFilter<"GeocodeJobItem"> | string | null
+    error?: StringNullableFilter<"GeocodeJobItem"> | string | null
+    attempts?: IntFilter<"GeocodeJobItem"> | number
+    updatedAt?: DateTimeFilter<"GeocodeJobItem"> | Date | string
+    job?: XOR<GeocodeJobScalarRelationFilter, GeocodeJobWhereInput>
+  }
+
+  export type GeocodeJobItemOrderByWithRelationInput = {
+    id?: SortOrder
+    jobId?: SortOrder
+    index?: SortOrder
+    address?: SortOrder
+    status?: SortOrder
+    lat?: SortOrderInput | SortOrder
+    lng?: SortOrderInput | SortOrder
+    displayName?: SortOrderInput | SortOrder
+    candidates?: SortOrderInput | SortOrder
+    source?: SortOrderInput | SortOrder
+    error?: SortOrderInput | SortOrder
+    attempts?: SortOrder
+    updatedAt?: SortOrder
+    job?: GeocodeJobOrderByWithRelationInput
+  }
+
+  export type GeocodeJobItemWhereUniqueInput = Prisma.AtLeast<{
+    id?: string
+    jobId_index?: GeocodeJobItemJobIdIndexCompoundUniqueInput
+    AND?: GeocodeJobItemWhereInput | GeocodeJobItemWhereInput[]
+    OR?: GeocodeJobItemWhereInput[]
+    NOT?: GeocodeJobItemWhereInput | GeocodeJobItemWhereInput[]
+    jobId?: StringFilter<"GeocodeJobItem"> | string
+    index?: IntFilter<"GeocodeJobItem"> | number
+    address?: StringFilter<"GeocodeJobItem"> | string
+    status?: StringFilter<"GeocodeJobItem"> | string
+    lat?: FloatNullableFilter<"GeocodeJobItem"> | number | null
+    lng?: FloatNullableFilter<"GeocodeJobItem"> | number | null
+    displayName?: StringNullableFilter<"GeocodeJobItem"> | string | null
+    candidates?: StringNullableFilter<"GeocodeJobItem"> | string | null
+    source?: StringNullableFilter<"GeocodeJobItem"> | string | null
+    error?: StringNullableFilter<"GeocodeJobItem"> | string | null
+    attempts?: IntFilter<"GeocodeJobItem"> | number
+    updatedAt?: DateTimeFilter<"GeocodeJobItem"> | Date | string
+    job?: XOR<GeocodeJobScalarRelationFilter, GeocodeJobWhereInput>
+  }, "id" | "jobId_index">
+
+  export type GeocodeJobItemOrderByWithAggregationInput = {
+    id?: SortOrder
+    jobId?: SortOrder
+    index?: SortOrder
+    address?: SortOrder
+    status?: SortOrder
+    lat?: SortOrderInput | SortOrder
+    lng?: SortOrderInput | SortOrder
+    displayName?: SortOrderInput | SortOrder
+    candidates?: SortOrderInput | SortOrder
+    source?: SortOrderInput | SortOrder
+    error?: SortOrderInput | SortOrder
+    attempts?: SortOrder
+    updatedAt?: SortOrder
+    _count?: GeocodeJobItemCountOrderByAggregateInput
+    _avg?: GeocodeJobItemAvgOrderByAggregateInput
+    _max?: GeocodeJobItemMaxOrderByAggregateInput
+    _min?: GeocodeJobItemMinOrderByAggregateInput
+    _sum?: GeocodeJobItemSumOrderByAggregateInput
+  }
+
+  export type GeocodeJobItemScalarWhereWithAggregatesInput = {
+    AND?: GeocodeJobItemScalarWhereWithAggregatesInput | GeocodeJobItemScalarWhereWithAggregatesInput[]
+    OR?: GeocodeJobItemScalarWhereWithAggregatesInput[]
+    NOT?: GeocodeJobItemScalarWhereWithAggregatesInput | GeocodeJobItemScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"GeocodeJobItem"> | string
+    jobId?: StringWithAggregatesFilter<"GeocodeJobItem"> | string
+    index?: IntWithAggregatesFilter<"GeocodeJobItem"> | number
+    address?: StringWithAggregatesFilter<"GeocodeJobItem"> | string
+    status?: StringWithAggregatesFilter<"GeocodeJobItem"> | string
+    lat?: FloatNullableWithAggregatesFilter<"GeocodeJobItem"> | number | null
+    lng?: FloatNullableWithAggregatesFilter<"GeocodeJobItem"> | number | null
+    displayName?: StringNullableWithAggregatesFilter<"GeocodeJobItem"> | string | null
+    candidates?: StringNullableWithAggregatesFilter<"GeocodeJobItem"> | string | null
+    source?: StringNullableWithAggregatesFilter<"GeocodeJobItem"> | string | null
+    error?: StringNullableWithAggregatesFilter<"GeocodeJobItem"> | string | null
+    attempts?: IntWithAggregatesFilter<"GeocodeJobItem"> | number
+    updatedAt?: DateTimeWithAggregatesFilter<"GeocodeJobItem"> | Date | string
+  }
+
+  export type MapCreateInput = {
+    id?: string
+    title: string
+    description?: string | null
+    geographicBounds?: string | null
+    canvasConfig: string
+    imageUrl?: string | null
+    useBaseMap?: boolean
+    published?: boolean
+    publishedSnapshot?: string | null
+    publishedAt?: Date | string | null
+    categories?: string | null
+    aiNavigatorEnabled?: boolean
+    aiNavigatorPrompt?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    imageMedia?: MediaCreateNestedOneWithoutMapsInput
+    levels?: LevelCreateNestedManyWithoutMapInput
+    zones?: ZoneCreateNestedManyWithoutMapInput
+    revisions?: MapRevisionCreateNestedManyWithoutMapInput
+    members?: MapMemberCreateNestedManyWithoutMapInput
+  }
+
+  export type MapUncheckedCreateInput = {
+    id?: string
+    title: string
+    description?: string | null
+    geographicBounds?: string | null
+    canvasConfig: string
+    imageUrl?: string | null
+    imageMediaId?: string | null
+    useBaseMap?: boolean
+    published?: boolean
+    publishedSnapshot?: string | null
+    publishedAt?: Date | string | null
+    categories?: string | null
+    aiNavigatorEnabled?: boolean
+    aiNavigatorPrompt?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    levels?: LevelUncheckedCreateNestedManyWithoutMapInput
+    zones?: ZoneUncheckedCreateNestedManyWithoutMapInput
+    revisions?: MapRevisionUncheckedCreateNestedManyWithoutMapInput
+    members?: MapMemberUncheckedCreateNestedManyWithoutMapInput
+  }
+
+  export type MapUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    title?: StringFieldUpdateOperationsInput | string
+    description?: NullableStringFieldUpdateOperationsInput | string | null
+    geographicBounds?: NullableStringFieldUpdateOperationsInput | string | null
+    canvasConfig?: StringFieldUpdateOperationsInput | string
+    imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    useBaseMap?: BoolFieldUpdateOperationsInput | boolean
+    published?: BoolFieldUpdateOperationsInput | boolean
+    publishedSnapshot?: NullableStringFieldUpdateOperationsInput | string | null
+    publishedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    categories?: NullableStringFieldUpdateOperationsInput | string | null
+    aiNavigatorEnabled?: BoolFieldUpdateOperationsInput | boolean
+    aiNavigatorPrompt?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    imageMedia?: MediaUpdateOneWithoutMapsNestedInput
+    levels?: LevelUpdateManyWithoutMapNestedInput
+    zones?: ZoneUpdateManyWithoutMapNestedInput
+    revisions?: MapRevisionUpdateManyWithoutMapNestedInput
+    members?: MapMemberUpdateManyWithoutMapNestedInput
+  }
+
+  export type MapUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    title?: StringFieldUpdateOperationsInput | string
+    description?: NullableStringFieldUpdateOperationsInput | string | null
+    geographicBounds?: NullableStringFieldUpdateOperationsInput | string | null
+    canvasConfig?: StringFieldUpdateOperationsInput | string
+    imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    imageMediaId?: NullableStringFieldUpdateOperationsInput | string | null
+    useBaseMap?: BoolFieldUpdateOperationsInput | boolean
+    published?: BoolFieldUpdateOperationsInput | boolean
+    publishedSnapshot?: NullableStringFieldUpdateOperationsInput | string | null
+    publishedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    categories?: NullableStringFieldUpdateOperationsInput | string | null
+    aiNavigatorEnabled?: BoolFieldUpdateOperationsInput | boolean
+    aiNavigatorPrompt?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    levels?: LevelUncheckedUpdateManyWithoutMapNestedInput
+    zones?: ZoneUncheckedUpdateManyWithoutMapNestedInput
+    revisions?: MapRevisionUncheckedUpdateManyWithoutMapNestedInput
+    members?: MapMemberUncheckedUpdateManyWithoutMapNestedInput
+  }
+
+  export type MapCreateManyInput = {
+    id?: string
+    title: string
+    description?: string | null
+    geographicBounds?: string | null
+    canvasConfig: string
+    imageUrl?: string | null
+    imageMediaId?: string | null
+    useBaseMap?: boolean
+    published?: boolean
+    publishedSnapshot?: string | null
+    publishedAt?: Date | string | null
+    categories?: string | null
+    aiNavigatorEnabled?: boolean
+    aiNavigatorPrompt?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+  }
+
+  export type MapUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    title?: StringFieldUpdateOperationsInput | string
+    description?: NullableStringFieldUpdateOperationsInput | string | null
+    geographicBounds?: NullableStringFieldUpdateOperationsInput | string | null
+    canvasConfig?: StringFieldUpdateOperationsInput | string
+    imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    useBaseMap?: BoolFieldUpdateOperationsInput | boolean
+    published?: BoolFieldUpdateOperationsInput | boolean
+    publishedSnapshot?: NullableStringFieldUpdateOperationsInput | string | null
+    publishedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    categories?: NullableStringFieldUpdateOperationsInput | string | null
+    aiNavigatorEnabled?: BoolFieldUpdateOperationsInput | boolean
+    aiNavigatorPrompt?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type MapUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    title?: StringFieldUpdateOperationsInput | string
+    description?: NullableStringFieldUpdateOperationsInput | string | null
+    geographicBounds?: NullableStringFieldUpdateOperationsInput | string | null
+    canvasConfig?: StringFieldUpdateOperationsInput | string
+    imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    imageMediaId?: NullableStringFieldUpdateOperationsInput | string | null
+    useBaseMap?: BoolFieldUpdateOperationsInput | boolean
+    published?: BoolFieldUpdateOperationsInput | boolean
+    publishedSnapshot?: NullableStringFieldUpdateOperationsInput | string | null
+    publishedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    categories?: NullableStringFieldUpdateOperationsInput | string | null
+    aiNavigatorEnabled?: BoolFieldUpdateOperationsInput | boolean
+    aiNavigatorPrompt?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type ZoneCreateInput = {
+    id?: string
+    type: string
+    coordinates: string
+    content: string
+    style?: string | null
+    category?: string | null
+    externalId?: string | null
+    importedValues?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    map: MapCreateNestedOneWithoutZonesInput
+    level?: LevelCreateNestedOneWithoutZonesInput
+    media?: MediaCreateNestedManyWithoutZonesInput
+  }
+
+  export type ZoneUncheckedCreateInput = {
+    id?: string
+    mapId: string
+    type: string
+    coordinates: string
+    content: string
+    style?: string | null
+    category?: string | null
+    levelId?: string | null
+    externalId?: string | null
+    importedValues?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    media?: MediaUncheckedCreateNestedManyWithoutZonesInput
+  }
+
+  export type ZoneUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    type?: StringFieldUpdateOperationsInput | string
+    coordinates?: StringFieldUpdateOperationsInput | string
+    content?: StringFieldUpdateOperationsInput | string
+    style?: NullableStringFieldUpdateOperationsInput | string | null
+    category?: NullableStringFieldUpdateOperationsInput | string | null
+    externalId?: NullableStringFieldUpdateOperationsInput | string | null
+    importedValues?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    map?: MapUpdateOneRequiredWithoutZonesNestedInput
+    level?: LevelUpdateOneWithoutZonesNestedInput
+    media?: MediaUpdateManyWithoutZonesNestedInput
+  }
+
+  export type ZoneUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    mapId?: StringFieldUpdateOperationsInput | string
+    type?: StringFieldUpdateOperationsInput | string
+    coordinates?: StringFieldUpdateOperationsInput | string
+    content?: StringFieldUpdateOperationsInput | string
+    style?: NullableStringFieldUpdateOperationsInput | string | null
+    category?: NullableStringFieldUpdateOperationsInput | string | null
+    levelId?: NullableStringFieldUpdateOperationsInput | string | null
+    externalId?: NullableStringFieldUpdateOperationsInput | string | null
+    importedValues?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    media?: MediaUncheckedUpdateManyWithoutZonesNestedInput
+  }
+
+  export type ZoneCreateManyInput = {
+    id?: string
+    mapId: string
+    type: string
+    coordinates: string
+    content: string
+    style?: string | null
+    category?: string | null
+    levelId?: string | null
+    externalId?: string | null
+    importedValues?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+  }
+
+  export type ZoneUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    type?: StringFieldUpdateOperationsInput | string
+    coordinates?: StringFieldUpdateOperationsInput | string
+    content?: StringFieldUpdateOperationsInput | string
+    style?: NullableStringFieldUpdateOperationsInput | string | null
+    category?: NullableStringFieldUpdateOperationsInput | string | null
+    externalId?: NullableStringFieldUpdateOperationsInput | string | null
+    importedValues?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type ZoneUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    mapId?: StringFieldUpdateOperationsInput | string
+    type?: StringFieldUpdateOperationsInput | string
+    coordinates?: StringFieldUpdateOperationsInput | string
+    content?: StringFieldUpdateOperationsInput | string
+    style?: NullableStringFieldUpdateOperationsInput | string | null
+    category?: NullableStringFieldUpdateOperationsInput | string | null
+    levelId?: NullableStringFieldUpdateOperationsInput | string | null
+    externalId?: NullableStringFieldUpdateOperationsInput | string | null
+    importedValues?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type LevelCreateInput = {
+    id?: string
+    name: string
+    ordinal: number
+    imageUrl?: string | null
+    tiles?: string | null
+    elevation?: number
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    map: MapCreateNestedOneWithoutLevelsInput
+    imageMedia?: MediaCreateNestedOneWithoutLevelsInput
+    zones?: ZoneCreateNestedManyWithoutLevelInput
+  }
+
+  export type LevelUncheckedCreateInput = {
+    id?: string
+    mapId: string
+    name: string
+    ordinal: number
+    imageUrl?: string | null
+    imageMediaId?: string | null
+    tiles?: string | null
+    elevation?: number
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    zones?: ZoneUncheckedCreateNestedManyWithoutLevelInput
+  }
+
+  export type LevelUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    ordinal?: IntFieldUpdateOperationsInput | number
+    imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    tiles?: NullableStringFieldUpdateOperationsInput | string | null
+    elevation?: FloatFieldUpdateOperationsInput | number
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    map?: MapUpdateOneRequiredWithoutLevelsNestedInput
+    imageMedia?: MediaUpdateOneWithoutLevelsNestedInput
+    zones?: ZoneUpdateManyWithoutLevelNestedInput
+  }
+
+  export type LevelUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    mapId?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    ordinal?: IntFieldUpdateOperationsInput | number
+    imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    imageMediaId?: NullableStringFieldUpdateOperationsInput | string | null
+    tiles?: NullableStringFieldUpdateOperationsInput | string | null
+    elevation?: FloatFieldUpdateOperationsInput | number
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    zones?: ZoneUncheckedUpdateManyWithoutLevelNestedInput
+  }
+
+  export type LevelCreateManyInput = {
+    id?: string
+    mapId: string
+    name: string
+    ordinal: number
+    imageUrl?: string | null
+    imageMediaId?: string | null
+    tiles?: string | null
+    elevation?: number
+    createdAt?: Date | string
+    updatedAt?: Date | string
+  }
+
+  export type LevelUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    ordinal?: IntFieldUpdateOperationsInput | number
+    imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    tiles?: NullableStringFieldUpdateOperationsInput | string | null
+    elevation?: FloatFieldUpdateOperationsInput | number
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type LevelUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    mapId?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    ordinal?: IntFieldUpdateOperationsInput | number
+    imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    imageMediaId?: NullableStringFieldUpdateOperationsInput | string | null
+    tiles?: NullableStringFieldUpdateOperationsInput | string | null
+    elevation?: FloatFieldUpdateOperationsInput | number
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type MapRevisionCreateInput = {
+    id?: string
+    snapshot: string
+    author?: string | null
+    message?: string | null
+    createdAt?: Date | string
+    map: MapCreateNestedOneWithoutRevisionsInput
+  }
+
+  export type MapRevisionUncheckedCreateInput = {
+    id?: string
+    mapId: string
+    snapshot: string
+    author?: string | null
+    message?: string | null
+    createdAt?: Date | string
+  }
+
+  export type MapRevisionUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    snapshot?: StringFieldUpdateOperationsInput | string
+    author?: NullableStringFieldUpdateOperationsInput | string | null
+    message?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    map?: MapUpdateOneRequiredWithoutRevisionsNestedInput
+  }
+
+  export type MapRevisionUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    mapId?: StringFieldUpdateOperationsInput | string
+    snapshot?: StringFieldUpdateOperationsInput | string
+    author?: NullableStringFieldUpdateOperationsInput | string | null
+    message?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type MapRevisionCreateManyInput = {
+    id?: string
+    mapId: string
+    snapshot: string
+    author?: string | null
+    message?: string | null
+    createdAt?: Date | string
+  }
+
+  export type MapRevisionUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    snapshot?: StringFieldUpdateOperationsInput | string
+    author?: NullableStringFieldUpdateOperationsInput | string | null
+    message?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type MapRevisionUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    mapId?: StringFieldUpdateOperationsInput | string
+    snapshot?: StringFieldUpdateOperationsInput | string
+    author?: NullableStringFieldUpdateOperationsInput | string | null
+    message?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type UserCreateInput = {
+    id?: string
+    email: string
+    name?: string | null
+    passwordHash: string
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    memberships?: MapMemberCreateNestedManyWithoutUserInput
+    geocodeJobs?: GeocodeJobCreateNestedManyWithoutUserInput
+  }
+
+  export type UserUncheckedCreateInput = {
+    id?: string
+    email: string
+    name?: string | null
+    passwordHash: string
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    memberships?: MapMemberUncheckedCreateNestedManyWithoutUserInput
+    geocodeJobs?: GeocodeJobUncheckedCreateNestedManyWithoutUserInput
+  }
+
+  export type UserUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    email?: StringFieldUpdateOperationsInput | string
+    name?: NullableStringFieldUpdateOperationsInput | string | null
+    passwordHash?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    memberships?: MapMemberUpdateManyWithoutUserNestedInput
+    geocodeJobs?: GeocodeJobUpdateManyWithoutUserNestedInput
+  }
+
+  export type UserUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    email?: StringFieldUpdateOperationsInput | string
+    name?: NullableStringFieldUpdateOperationsInput | string | null
+    passwordHash?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    memberships?: MapMemberUncheckedUpdateManyWithoutUserNestedInput
+    geocodeJobs?: GeocodeJobUncheckedUpdateManyWithoutUserNestedInput
+  }
+
+  export type UserCreateManyInput = {
+    id?: string
+    email: string
+    name?: string | null
+    passwordHash: string
+    createdAt?: Date | string
+    updatedAt?: Date | string
+  }
+
+  export type UserUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    email?: StringFieldUpdateOperationsInput | string
+    name?: NullableStringFieldUpdateOperationsInput | string | null
+    passwordHash?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type UserUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    email?: StringFieldUpdateOperationsInput | string
+    name?: NullableStringFieldUpdateOperationsInput | string | null
+    passwordHash?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type MapMemberCreateInput = {
+    id?: string
+    role: string
+    createdAt?: Date | string
+    map: MapCreateNestedOneWithoutMembersInput
+    user: UserCreateNestedOneWithoutMembershipsInput
+  }
+
+  export type MapMemberUncheckedCreateInput = {
+    id?: string
+    mapId: string
+    userId: string
+    role: string
+    createdAt?: Date | string
+  }
+
+  export type MapMemberUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    role?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    map?: MapUpdateOneRequiredWithoutMembersNestedInput
+    user?: UserUpdateOneRequiredWithoutMembershipsNestedInput
+  }
+
+  export type MapMemberUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    mapId?: StringFieldUpdateOperationsInput | string
+    userId?: StringFieldUpdateOperationsInput | string
+    role?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type MapMemberCreateManyInput = {
+    id?: string
+    mapId: string
+    userId: string
+    role: string
+    createdAt?: Date | string
+  }
+
+  export type MapMemberUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    role?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type MapMemberUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    mapId?: StringFieldUpdateOperationsInput | string
+    userId?: StringFieldUpdateOperationsInput | string
+    role?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type MediaCreateInput = {
+    id?: string
+    hash: string
+    mimeType: string
+    size: number
+    storageKey: string
+    width?: number | null
+    height?: number | null
+    tilesKey?: string | null
+    tileSize?: number | null
+    tileMinLevel?: number | null
+    tileMaxLevel?: number | null
+    createdAt?: Date | string
+    variants?: MediaVariantCreateNestedManyWithoutMediaInput
+    maps?: MapCreateNestedManyWithoutImageMediaInput
+    levels?: LevelCreateNestedManyWithoutImageMediaInput
+    zones?: ZoneCreateNestedManyWithoutMediaInput
+  }
+
+  export type MediaUncheckedCreateInput = {
+    id?: string
+    hash: string
+    mimeType: string
+    size: number
+    storageKey: string
+    width?: number | null
+    height?: number | null
+    tilesKey?: string | null
+    tileSize?: number | null
+    tileMinLevel?: number | null
+    tileMaxLevel?: number | null
+    createdAt?: Date | string
+    variants?: MediaVariantUncheckedCreateNestedManyWithoutMediaInput
+    maps?: MapUncheckedCreateNestedManyWithoutImageMediaInput
+    levels?: LevelUncheckedCreateNestedManyWithoutImageMediaInput
+    zones?: ZoneUncheckedCreateNestedManyWithoutMediaInput
+  }
+
+  export type MediaUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    hash?: StringFieldUpdateOperationsInput | string
+    mimeType?: StringFieldUpdateOperationsInput | string
+    size?: IntFieldUpdateOperationsInput | number
+    storageKey?: StringFieldUpdateOperationsInput | string
+    width?: NullableIntFieldUpdateOperationsInput | number | null
+    height?: NullableIntFieldUpdateOperationsInput | number | null
+    tilesKey?: NullableStringFieldUpdateOperationsInput | string | null
+    tileSize?: NullableIntFieldUpdateOperationsInput | number | null
+    tileMinLevel?: NullableIntFieldUpdateOperationsInput | number | null
+    tileMaxLevel?: NullableIntFieldUpdateOperationsInput | number | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    variants?: MediaVariantUpdateManyWithoutMediaNestedInput
+    maps?: MapUpdateManyWithoutImageMediaNestedInput
+    levels?: LevelUpdateManyWithoutImageMediaNestedInput
+    zones?: ZoneUpdateManyWithoutMediaNestedInput
+  }
+
+  export type MediaUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    hash?: StringFieldUpdateOperationsInput | string
+    mimeType?: StringFieldUpdateOperationsInput | string
+    size?: IntFieldUpdateOperationsInput | number
+    storageKey?: StringFieldUpdateOperationsInput | string
+    width?: NullableIntFieldUpdateOperationsInput | number | null
+    height?: NullableIntFieldUpdateOperationsInput | number | null
+    tilesKey?: NullableStringFieldUpdateOperationsInput | string | null
+    tileSize?: NullableIntFieldUpdateOperationsInput | number | null
+    tileMinLevel?: NullableIntFieldUpdateOperationsInput | number | null
+    tileMaxLevel?: NullableIntFieldUpdateOperationsInput | number | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    variants?: MediaVariantUncheckedUpdateManyWithoutMediaNestedInput
+    maps?: MapUncheckedUpdateManyWithoutImageMediaNestedInput
+    levels?: LevelUncheckedUpdateManyWithoutImageMediaNestedInput
+    zones?: ZoneUncheckedUpdateManyWithoutMediaNestedInput
+  }
+
+  export type MediaCreateManyInput = {
+    id?: string
+    hash: string
+    mimeType: string
+    size: number
+    storageKey: string
+    width?: number | null
+    height?: number | null
+    tilesKey?: string | null
+    tileSize?: number | null
+    tileMinLevel?: number | null
+    tileMaxLevel?: number | null
+    createdAt?: Date | string
+  }
+
+  export type MediaUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    hash?: StringFieldUpdateOperationsInput | string
+    mimeType?: StringFieldUpdateOperationsInput | string
+    size?: IntFieldUpdateOperationsInput | number
+    storageKey?: StringFieldUpdateOperationsInput | string
+    width?: NullableIntFieldUpdateOperationsInput | number | null
+    height?: NullableIntFieldUpdateOperationsInput | number | null
+    tilesKey?: NullableStringFieldUpdateOperationsInput | string | null
+    tileSize?: NullableIntFieldUpdateOperationsInput | number | null
+    tileMinLevel?: NullableIntFieldUpdateOperationsInput | number | null
+    tileMaxLevel?: NullableIntFieldUpdateOperationsInput | number | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type MediaUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    hash?: StringFieldUpdateOperationsInput | string
+    mimeType?: StringFieldUpdateOperationsInput | string
+    size?: IntFieldUpdateOperationsInput | number
+    storageKey?: StringFieldUpdateOperationsInput | string
+    width?: NullableIntFieldUpdateOperationsInput | number | null
+    height?: NullableIntFieldUpdateOperationsInput | number | null
+    tilesKey?: NullableStringFieldUpdateOperationsInput | string | null
+    tileSize?: NullableIntFieldUpdateOperationsInput | number | null
+    tileMinLevel?: NullableIntFieldUpdateOperationsInput | number | null
+    tileMaxLevel?: NullableIntFieldUpdateOperationsInput | number | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type MediaVariantCreateInput = {
+    id?: string
+    width: number
+    height: number
+    mimeType: string
+    size: number
+    storageKey: string
+    createdAt?: Date | string
+    media: MediaCreateNestedOneWithoutVariantsInput
+  }
+
+  export type MediaVariantUncheckedCreateInput = {
+    id?: string
+    mediaId: string
+    width: number
+    height: number
+    mimeType: string
+    size: number
+    storageKey: string
+    createdAt?: Date | string
+  }
+
+  export type MediaVariantUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    width?: IntFieldUpdateOperationsInput | number
+    height?: IntFieldUpdateOperationsInput | number
+    mimeType?: StringFieldUpdateOperationsInput | string
+    size?: IntFieldUpdateOperationsInput | number
+    storageKey?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    media?: MediaUpdateOneRequiredWithoutVariantsNestedInput
+  }
+
+  export type MediaVariantUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    mediaId?: StringFieldUpdateOperationsInput | string
+    width?: IntFieldUpdateOperationsInput | number
+    height?: IntFieldUpdateOperationsInput | number
+    mimeType?: StringFieldUpdateOperationsInput | string
+    size?: IntFieldUpdateOperationsInput | number
+    storageKey?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type MediaVariantCreateManyInput = {
+    id?: string
+    mediaId: string
+    width: number
+    height: number
+    mimeType: string
+    size: number
+    storageKey: string
+    createdAt?: Date | string
+  }
+
+  export type MediaVariantUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    width?: IntFieldUpdateOperationsInput | number
+    height?: IntFieldUpdateOperationsInput | number
+    mimeType?: StringFieldUpdateOperationsInput | string
+    size?: IntFieldUpdateOperationsInput | number
+    storageKey?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type MediaVariantUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    mediaId?: StringFieldUpdateOperationsInput | string
+    width?: IntFieldUpdateOperationsInput | number
+    height?: IntFieldUpdateOperationsInput | number
+    mimeType?: StringFieldUpdateOperationsInput | string
+    size?: IntFieldUpdateOperationsInput | number
+    storageKey?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type GeocodeCacheCreateInput = {
+    id?: string
+    provider: string
+    query: string
+    candidates: string
+    createdAt?: Date | string
+  }
+
+  export type GeocodeCacheUncheckedCreateInput = {
+    id?: string
+    provider: string
+    query: string
+    candidates: string
+    createdAt?: Date | string
+  }
+
+  export type GeocodeCacheUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    provider?: StringFieldUpdateOperationsInput | string
+    query?: StringFieldUpdateOperationsInput | string
+    candidates?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type GeocodeCacheUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    provider?: StringFieldUpdateOperationsInput | string
+    query?: StringFieldUpdateOperationsInput | string
+    candidates?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type GeocodeCacheCreateManyInput = {
+    id?: string
+    provider: string
+    query: string
+    candidates: string
+    createdAt?: Date | string
+  }
+
+  export type GeocodeCacheUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    provider?: StringFieldUpdateOperationsInput | string
+    query?: StringFieldUpdateOperationsInput | string
+    candidates?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type GeocodeCacheUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    provider?: StringFieldUpdateOperationsInput | string
+    query?: StringFieldUpdateOperationsInput | string
+    candidates?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type GeocodeJobCreateInput = {
+    id?: string
+    status?: string
+    total: number
+    processed?: number
+    bounds?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    user: UserCreateNestedOneWithoutGeocodeJobsInput
+    items?: GeocodeJobItemCreateNestedManyWithoutJobInput
+  }
+
+  export type GeocodeJobUncheckedCreateInput = {
+    id?: string
+    userId: string
+    status?: string
+    total: number
+    processed?: number
+    bounds?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    items?: GeocodeJobItemUncheckedCreateNestedManyWithoutJobInput
+  }
+
+  export type GeocodeJobUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    status?: StringFieldUpdateOperationsInput | string
+    total?: IntFieldUpdateOperationsInput | number
+    processed?: IntFieldUpdateOperationsInput | number
+    bounds?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    user?: UserUpdateOneRequiredWithoutGeocodeJobsNestedInput
+    items?: GeocodeJobItemUpdateManyWithoutJobNestedInput
+  }
+
+  export type GeocodeJobUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    userId?: StringFieldUpdateOperationsInput | string
+    status?: StringFieldUpdateOperationsInput | string
+    total?: IntFieldUpdateOperationsInput | number
+    processed?: IntFieldUpdateOperationsInput | number
+    bounds?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    items?: GeocodeJobItemUncheckedUpdateManyWithoutJobNestedInput
+  }
+
+  export type GeocodeJobCreateManyInput = {
+    id?: string
+    userId: string
+    status?: string
+    total: number
+    processed?: number
+    bounds?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+  }
+
+  export type GeocodeJobUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    status?: StringFieldUpdateOperationsInput | string
+    total?: IntFieldUpdateOperationsInput | number
+    processed?: IntFieldUpdateOperationsInput | number
+    bounds?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type GeocodeJobUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    userId?: StringFieldUpdateOperationsInput | string
+    status?: StringFieldUpdateOperationsInput | string
+    total?: IntFieldUpdateOperationsInput | number
+    processed?: IntFieldUpdateOperationsInput | number
+    bounds?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type GeocodeJobItemCreateInput = {
+    id?: string
+    index: number
+    address: string
+    status?: string
+    lat?: number | null
+    lng?: number | null
+    displayName?: string | null
+    candidates?: string | null
+    source?: string | null
+    error?: string | null
+    attempts?: number
+    updatedAt?: Date | string
+    job: GeocodeJobCreateNestedOneWithoutItemsInput
+  }
+
+  export type GeocodeJobItemUncheckedCreateInput = {
+    id?: string
+    jobId: string
+    index: number
+    address: string
+    status?: string
+    lat?: number | null
+    lng?: number | null
+    displayName?: string | null
+    candidates?: string | null
+    source?: string | null
+    error?: string | null
+    attempts?: number
+    updatedAt?: Date | string
+  }
+
+  export type GeocodeJobItemUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    index?: IntFieldUpdateOperationsInput | number
+    address?: StringFieldUpdateOperationsInput | string
+    status?: StringFieldUpdateOperationsInput | string
+    lat?: NullableFloatFieldUpdateOperationsInput | number | null
+    lng?: NullableFloatFieldUpdateOperationsInput | number | null
+    displayName?: NullableStringFieldUpdateOperationsInput | string | null
+    candidates?: NullableStringFieldUpdateOperationsInput | string | null
+    source?: NullableStringFieldUpdateOperationsInput | string | null
+    error?: NullableStringFieldUpdateOperationsInput | string | null
+    attempts?: IntFieldUpdateOperationsInput | number
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    job?: GeocodeJobUpdateOneRequiredWithoutItemsNestedInput
+  }
+
+  export type GeocodeJobItemUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    jobId?: StringFieldUpdateOperationsInput | string
+    index?: IntFieldUpdateOperationsInput | number
+    address?: StringFieldUpdateOperationsInput | string
+    status?: StringFieldUpdateOperationsInput | string
+    lat?: NullableFloatFieldUpdateOperationsInput | number | null
+    lng?: NullableFloatFieldUpdateOperationsInput | number | null
+    displayName?: NullableStringFieldUpdateOperationsInput | string | null
+    candidates?: NullableStringFieldUpdateOperationsInput | string | null
+    source?: NullableStringFieldUpdateOperationsInput | string | null
+    error?: NullableStringFieldUpdateOperationsInput | string | null
+    attempts?: IntFieldUpdateOperationsInput | number
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type GeocodeJobItemCreateManyInput = {
+    id?: string
+    jobId: string
+    index: number
+    address: string
+    status?: string
+    lat?: number | null
+    lng?: number | null
+    displayName?: string | null
+    candidates?: string | null
+    source?: string | null
+    error?: string | null
+    attempts?: number
+    updatedAt?: Date | string
+  }
+
+  export type GeocodeJobItemUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    index?: IntFieldUpdateOperationsInput | number
+    address?: StringFieldUpdateOperationsInput | string
+    status?: StringFieldUpdateOperationsInput | string
+    lat?: NullableFloatFieldUpdateOperationsInput | number | null
+    lng?: NullableFloatFieldUpdateOperationsInput | number | null
+    displayName?: NullableStringFieldUpdateOperationsInput | string | null
+    candidates?: NullableStringFieldUpdateOperationsInput | string | null
+    source?: NullableStringFieldUpdateOperationsInput | string | null
+    error?: NullableStringFieldUpdateOperationsInput | string | null
+    attempts?: IntFieldUpdateOperationsInput | number
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type GeocodeJobItemUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    jobId?: StringFieldUpdateOperationsInput | string
+    index?: IntFieldUpdateOperationsInput | number
+    address?: StringFieldUpdateOperationsInput | string
+    status?: StringFieldUpdateOperationsInput | string
+    lat?: NullableFloatFieldUpdateOperationsInput | number | null
+    lng?: NullableFloatFieldUpdateOperationsInput | number | null
+    displayName?: NullableStringFieldUpdateOperationsInput | string | null
+    candidates?: NullableStringFieldUpdateOperationsInput | string | null
+    source?: NullableStringFieldUpdateOperationsInput | string | null
+    error?: NullableStringFieldUpdateOperationsInput | string | null
+    attempts?: IntFieldUpdateOperationsInput | number
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type StringFilter<$PrismaModel = never> = {
+    equals?: string | StringFieldRefInput<$PrismaModel>
+    in?: string[]
+    notIn?: string[]
+    lt?: string | StringFieldRefInput<$PrismaModel>
+    lte?: string | StringFieldRefInput<$PrismaModel>
+    gt?: string | StringFieldRefInput<$PrismaModel>
+    gte?: string | StringFieldRefInput<$PrismaModel>
+    contains?: string | StringFieldRefInput<$PrismaModel>
+    startsWith?: string | StringFieldRefInput<$PrismaModel>
+    endsWith?: string | StringFieldRefInput<$PrismaModel>
+    not?: NestedStringFilter<$PrismaModel> | string
+  }
+
+  export type StringNullableFilter<$PrismaModel = never> = {
+    equals?: string | StringFieldRefInput<$PrismaModel> | null
+    in?: string[] | null
+    notIn?: string[] | null
+    lt?: string | StringFieldRefInput<$PrismaModel>
+    lte?: string | StringFieldRefInput<$PrismaModel>
+    gt?: string | StringFieldRefInput<$PrismaModel>
+    gte?: string | StringFieldRefInput<$PrismaModel>
+    contains?: string | StringFieldRefInput<$PrismaModel>
+    startsWith?: string | StringFieldRefInput<$PrismaModel>
+    endsWith?: string | StringFieldRefInput<$PrismaModel>
+    not?: NestedStringNullableFilter<$PrismaModel> | string | null
+  }
+
+  export type BoolFilter<$PrismaModel = never> = {
+    equals?: boolean | BooleanFieldRefInput<$PrismaModel>
+    not?: NestedBoolFilter<$PrismaModel> | boolean
+  }
+
+  export type DateTimeNullableFilter<$PrismaModel = never> = {
+    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel> | null
+    in?: Date[] | string[] | null
+    notIn?: Date[] | string[] | null
+    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    not?: NestedDateTimeNullableFilter<$PrismaModel> | Date | string | null
+  }
+
+  export type DateTimeFilter<$PrismaModel = never> = {
+    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    in?: Date[] | string[]
+    notIn?: Date[] | string[]
+    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    not?: NestedDateTimeFilter<$PrismaModel> | Date | string
+  }
+
+  export type MediaNullableScalarRelationFilter = {
+    is?: MediaWhereInput | null
+    isNot?: MediaWhereInput | null
+  }
+
+  export type LevelListRelationFilter = {
+    every?: LevelWhereInput
+    some?: LevelWhereInput
+    none?: LevelWhereInput
+  }
+
+  export type ZoneListRelationFilter = {
+    every?: ZoneWhereInput
+    some?: ZoneWhereInput
+    none?: ZoneWhereInput
+  }
+
+  export type MapRevisionListRelationFilter = {
+    every?: MapRevisionWhereInput
+    some?: MapRevisionWhereInput
+    none?: MapRevisionWhereInput
+  }
+
+  export type MapMemberListRelationFilter = {
+    every?: MapMemberWhereInput
+    some?: MapMemberWhereInput
+    none?: MapMemberWhereInput
+  }
+
+  export type SortOrderInput = {
+    sort: SortOrder
+    nulls?: NullsOrder
+  }
+
+  export type LevelOrderByRelationAggregateInput = {
+    _count?: SortOrder
+  }
+
+  export type ZoneOrderByRelationAggregateInput = {
+    _count?: SortOrder
+  }
+
+  export type MapRevisionOrderByRelationAggregateInput = {
+    _count?: SortOrder
+  }
+
+  export type MapMemberOrderByRelationAggregateInput = {
+    _count?: SortOrder
+  }
+
+  export type MapCountOrderByAggregateInput = {
+    id?: SortOrder
+    title?: SortOrder
+    description?: SortOrder
+    geographicBounds?: SortOrder
+    canvasConfig?: SortOrder
+    imageUrl?: SortOrder
+    imageMediaId?: SortOrder
+    useBaseMap?: SortOrder
+    published?: SortOrder
+    publishedSnapshot?: SortOrder
+    publishedAt?: SortOrder
+    categories?: SortOrder
+    aiNavigatorEnabled?: SortOrder
+    aiNavigatorPrompt?: SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type MapMaxOrderByAggregateInput = {
+    id?: SortOrder
+    title?: SortOrder
+    description?: SortOrder
+    geographicBounds?: SortOrder
+    canvasConfig?: SortOrder
+    imageUrl?: SortOrder
+    imageMediaId?: SortOrder
+    useBaseMap?: SortOrder
+    published?: SortOrder
+    publishedSnapshot?: SortOrder
+    publishedAt?: SortOrder
+    categories?: SortOrder
+    aiNavigatorEnabled?: SortOrder
+    aiNavigatorPrompt?: SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type MapMinOrderByAggregateInput = {
+    id?: SortOrder
+    title?: SortOrder
+    description?: SortOrder
+    geographicBounds?: SortOrder
+    canvasConfig?: SortOrder
+    imageUrl?: SortOrder
+    imageMediaId?: SortOrder
+    useBaseMap?: SortOrder
+    published?: SortOrder
+    publishedSnapshot?: SortOrder
+    publishedAt?: SortOrder
+    categories?: SortOrder
+    aiNavigatorEnabled?: SortOrder
+    aiNavigatorPrompt?: SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type StringWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: string | StringFieldRefInput<$PrismaModel>
+    in?: string[]
+    notIn?: string[]
+    lt?: string | StringFieldRefInput<$PrismaModel>
+    lte?: string | StringFieldRefInput<$PrismaModel>
+    gt?: string | StringFieldRefInput<$PrismaModel>
+    gte?: string | StringFieldRefInput<$PrismaModel>
+    contains?: string | StringFieldRefInput<$PrismaModel>
+    startsWith?: string | StringFieldRefInput<$PrismaModel>
+    endsWith?: string | StringFieldRefInput<$PrismaModel>
+    not?: NestedStringWithAggregatesFilter<$PrismaModel> | string
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedStringFilter<$PrismaModel>
+    _max?: NestedStringFilter<$PrismaModel>
+  }
+
+  export type StringNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: string | StringFieldRefInput<$PrismaModel> | null
+    in?: string[] | null
+    notIn?: string[] | null
+    lt?: string | StringFieldRefInput<$PrismaModel>
+    lte?: string | StringFieldRefInput<$PrismaModel>
+    gt?: string | StringFieldRefInput<$PrismaModel>
+    gte?: string | StringFieldRefInput<$PrismaModel>
+    contains?: string | StringFieldRefInput<$PrismaModel>
+    startsWith?: string | StringFieldRefInput<$PrismaModel>
+    endsWith?: string | StringFieldRefInput<$PrismaModel>
+    not?: NestedStringNullableWithAggregatesFilter<$PrismaModel> | string | null
+    _count?: NestedIntNullableFilter<$PrismaModel>
+    _min?: NestedStringNullableFilter<$PrismaModel>
+    _max?: NestedStringNullableFilter<$PrismaModel>
+  }
+
+  export type BoolWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: boolean | BooleanFieldRefInput<$PrismaModel>
+    not?: NestedBoolWithAggregatesFilter<$PrismaModel> | boolean
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedBoolFilter<$PrismaModel>
+    _max?: NestedBoolFilter<$PrismaModel>
+  }
+
+  export type DateTimeNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel> | null
+    in?: Date[] | string[] | null
+    notIn?: Date[] | string[] | null
+    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    not?: NestedDateTimeNullableWithAggregatesFilter<$PrismaModel> | Date | string | null
+    _count?: NestedIntNullableFilter<$PrismaModel>
+    _min?: NestedDateTimeNullableFilter<$PrismaModel>
+    _max?: NestedDateTimeNullableFilter<$PrismaModel>
+  }
+
+  export type DateTimeWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    in?: Date[] | string[]
+    notIn?: Date[] | string[]
+    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    not?: NestedDateTimeWithAggregatesFilter<$PrismaModel> | Date | string
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedDateTimeFilter<$PrismaModel>
+    _max?: NestedDateTimeFilter<$PrismaModel>
+  }
+
+  export type MapScalarRelationFilter = {
+    is?: MapWhereInput
+    isNot?: MapWhereInput
+  }
+
+  export type LevelNullableScalarRelationFilter = {
+    is?: LevelWhereInput | null
+    isNot?: LevelWhereInput | null
+  }
+
+  export type MediaListRelationFilter = {
+    every?: MediaWhereInput
+    some?: MediaWhereInput
+    none?: MediaWhereInput
+  }
+
+  export type MediaOrderByRelationAggregateInput = {
+    _count?: SortOrder
+  }
+
+  export type ZoneCountOrderByAggregateInput = {
+    id?: SortOrder
+    mapId?: SortOrder
+    type?: SortOrder
+    coordinates?: SortOrder
+    content?: SortOrder
+    style?: SortOrder
+    category?: SortOrder
+    levelId?: SortOrder
+    externalId?: SortOrder
+    importedValues?: SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type ZoneMaxOrderByAggregateInput = {
+    id?: SortOrder
+    mapId?: SortOrder
+    type?: SortOrder
+    coordinates?: SortOrder
+    content?: SortOrder
+    style?: SortOrder
+    category?: SortOrder
+    levelId?: SortOrder
+    externalId?: SortOrder
+    importedValues?: SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type ZoneMinOrderByAggregateInput = {
+    id?: SortOrder
+    mapId?: SortOrder
+    type?: SortOrder
+    coordinates?: SortOrder
+    content?: SortOrder
+    style?: SortOrder
+    category?: SortOrder
+    levelId?: SortOrder
+    externalId?: SortOrder
+    importedValues?: SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type IntFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel>
+    in?: number[]
+    notIn?: number[]
+    lt?: number | IntFieldRefInput<$PrismaModel>
+    lte?: number | IntFieldRefInput<$PrismaModel>
+    gt?: number | IntFieldRefInput<$PrismaModel>
+    gte?: number | IntFieldRefInput<$PrismaModel>
+    not?: NestedIntFilter<$PrismaModel> | number
+  }
+
+  export type FloatFilter<$PrismaModel = never> = {
+    equals?: number | FloatFieldRefInput<$PrismaModel>
+    in?: number[]
+    notIn?: number[]
+    lt?: number | FloatFieldRefInput<$PrismaModel>
+    lte?: number | FloatFieldRefInput<$PrismaModel>
+    gt?: number | FloatFieldRefInput<$PrismaModel>
+    gte?: number | FloatFieldRefInput<$PrismaModel>
+    not?: NestedFloatFilter<$PrismaModel> | number
+  }
+
+  export type LevelCountOrderByAggregateInput = {
+    id?: SortOrder
+    mapId?: SortOrder
+    name?: SortOrder
+    ordinal?: SortOrder
+    imageUrl?: SortOrder
+    imageMediaId?: SortOrder
+    tiles?: SortOrder
+    elevation?: SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type LevelAvgOrderByAggregateInput = {
+    ordinal?: SortOrder
+    elevation?: SortOrder
+  }
+
+  export type LevelMaxOrderByAggregateInput = {
+    id?: SortOrder
+    mapId?: SortOrder
+    name?: SortOrder
+    ordinal?: SortOrder
+    imageUrl?: SortOrder
+    imageMediaId?: SortOrder
+    tiles?: SortOrder
+    elevation?: SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type LevelMinOrderByAggregateInput = {
+    id?: SortOrder
+    mapId?: SortOrder
+    name?: SortOrder
+    ordinal?: SortOrder
+    imageUrl?: SortOrder
+    imageMediaId?: SortOrder
+    tiles?: SortOrder
+    elevation?: SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type LevelSumOrderByAggregateInput = {
+    ordinal?: SortOrder
+    elevation?: SortOrder
+  }
+
+  export type IntWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel>
+    in?: number[]
+    notIn?: number[]
+    lt?: number | IntFieldRefInput<$PrismaModel>
+    lte?: number | IntFieldRefInput<$PrismaModel>
+    gt?: number | IntFieldRefInput<$PrismaModel>
+    gte?: number | IntFieldRefInput<$PrismaModel>
+    not?: NestedIntWithAggregatesFilter<$PrismaModel> | number
+    _count?: NestedIntFilter<$PrismaModel>
+    _avg?: NestedFloatFilter<$PrismaModel>
+    _sum?: NestedIntFilter<$PrismaModel>
+    _min?: NestedIntFilter<$PrismaModel>
+    _max?: NestedIntFilter<$PrismaModel>
+  }
+
+  export type FloatWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: number | FloatFieldRefInput<$PrismaModel>
+    in?: number[]
+    notIn?: number[]
+    lt?: number | FloatFieldRefInput<$PrismaModel>
+    lte?: number | FloatFieldRefInput<$PrismaModel>
+    gt?: number | FloatFieldRefInput<$PrismaModel>
+    gte?: number | FloatFieldRefInput<$PrismaModel>
+    not?: NestedFloatWithAggregatesFilter<$PrismaModel> | number
+    _count?: NestedIntFilter<$PrismaModel>
+    _avg?: NestedFloatFilter<$PrismaModel>
+    _sum?: NestedFloatFilter<$PrismaModel>
+    _min?: NestedFloatFilter<$PrismaModel>
+    _max?: NestedFloatFilter<$PrismaModel>
+  }
+
+  export type MapRevisionCountOrderByAggregateInput = {
+    id?: SortOrder
+    mapId?: SortOrder
+    snapshot?: SortOrder
+    author?: SortOrder
+    message?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type MapRevisionMaxOrderByAggregateInput = {
+    id?: SortOrder
+    mapId?: SortOrder
+    snapshot?: SortOrder
+    author?: SortOrder
+    message?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type MapRevisionMinOrderByAggregateInput = {
+    id?: SortOrder
+    mapId?: SortOrder
+    snapshot?: SortOrder
+    author?: SortOrder
+    message?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type GeocodeJobListRelationFilter = {
+    every?: GeocodeJobWhereInput
+    some?: GeocodeJobWhereInput
+    none?: GeocodeJobWhereInput
+  }
+
+  export type GeocodeJobOrderByRelationAggregateInput = {
+    _count?: SortOrder
+  }
+
+  export type UserCountOrderByAggregateInput = {
+    id?: SortOrder
+    email?: SortOrder
+    name?: SortOrder
+    passwordHash?: SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type UserMaxOrderByAggregateInput = {
+    id?: SortOrder
+    email?: SortOrder
+    name?: SortOrder
+    passwordHash?: SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type UserMinOrderByAggregateInput = {
+    id?: SortOrder
+    email?: SortOrder
+    name?: SortOrder
+    passwordHash?: SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type UserScalarRelationFilter = {
+    is?: UserWhereInput
+    isNot?: UserWhereInput
+  }
+
+  export type MapMemberMapIdUserIdCompoundUniqueInput = {
+    mapId: string
+    userId: string
+  }
+
+  export type MapMemberCountOrderByAggregateInput = {
+    id?: SortOrder
+    mapId?: SortOrder
+    userId?: SortOrder
+    role?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type MapMemberMaxOrderByAggregateInput = {
+    id?: SortOrder
+    mapId?: SortOrder
+    userId?: SortOrder
+    role?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type MapMemberMinOrderByAggregateInput = {
+    id?: SortOrder
+    mapId?: SortOrder
+    userId?: SortOrder
+    role?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type IntNullableFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel> | null
+    in?: number[] | null
+    notIn?: number[] | null
+    lt?: number | IntFieldRefInput<$PrismaModel>
+    lte?: number | IntFieldRefInput<$PrismaModel>
+    gt?: number | IntFieldRefInput<$PrismaModel>
+    gte?: number | IntFieldRefInput<$PrismaModel>
+    not?: NestedIntNullableFilter<$PrismaModel> | number | null
+  }
+
+  export type MediaVariantListRelationFilter = {
+    every?: MediaVariantWhereInput
+    some?: MediaVariantWhereInput
+    none?: MediaVariantWhereInput
+  }
+
+  export type MapListRelationFilter = {
+    every?: MapWhereInput
+    some?: MapWhereInput
+    none?: MapWhereInput
+  }
+
+  export type MediaVariantOrderByRelationAggregateInput = {
+    _count?: SortOrder
+  }
+
+  export type MapOrderByRelationAggregateInput = {
+    _count?: SortOrder
+  }
+
+  export type MediaCountOrderByAggregateInput = {
+    id?: SortOrder
+    hash?: SortOrder
+    mimeType?: SortOrder
+    size?: SortOrder
+    storageKey?: SortOrder
+    width?: SortOrder
+    height?: SortOrder
+    tilesKey?: SortOrder
+    tileSize?: SortOrder
+    tileMinLevel?: SortOrder
+    tileMaxLevel?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type MediaAvgOrderByAggregateInput = {
+    size?: SortOrder
+    width?: SortOrder
+    height?: SortOrder
+    tileSize?: SortOrder
+    tileMinLevel?: SortOrder
+    tileMaxLevel?: SortOrder
+  }
+
+  export type MediaMaxOrderByAggregateInput = {
+    id?: SortOrder
+    hash?: SortOrder
+    mimeType?: SortOrder
+    size?: SortOrder
+    storageKey?: SortOrder
+    width?: SortOrder
+    height?: SortOrder
+    tilesKey?: SortOrder
+    tileSize?: SortOrder
+    tileMinLevel?: SortOrder
+    tileMaxLevel?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type MediaMinOrderByAggregateInput = {
+    id?: SortOrder
+    hash?: SortOrder
+    mimeType?: SortOrder
+    size?: SortOrder
+    storageKey?: SortOrder
+    width?: SortOrder
+    height?: SortOrder
+    tilesKey?: SortOrder
+    tileSize?: SortOrder
+    tileMinLevel?: SortOrder
+    tileMaxLevel?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type MediaSumOrderByAggregateInput = {
+    size?: SortOrder
+    width?: SortOrder
+    height?: SortOrder
+    tileSize?: SortOrder
+    tileMinLevel?: SortOrder
+    tileMaxLevel?: SortOrder
+  }
+
+  export type IntNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel> | null
+    in?: number[] | null
+    notIn?: number[] | null
+    lt?: number | IntFieldRefInput<$PrismaModel>
+    lte?: number | IntFieldRefInput<$PrismaModel>
+    gt?: number | IntFieldRefInput<$PrismaModel>
+    gte?: number | IntFieldRefInput<$PrismaModel>
+    not?: NestedIntNullableWithAggregatesFilter<$PrismaModel> | number | null
+    _count?: NestedIntNullableFilter<$PrismaModel>
+    _avg?: NestedFloatNullableFilter<$PrismaModel>
+    _sum?: NestedIntNullableFilter<$PrismaModel>
+    _min?: NestedIntNullableFilter<$PrismaModel>
+    _max?: NestedIntNullableFilter<$PrismaModel>
+  }
+
+  export type MediaScalarRelationFilter = {
+    is?: MediaWhereInput
+    isNot?: MediaWhereInput
+  }
+
+  export type MediaVariantMediaIdWidthCompoundUniqueInput = {
+    mediaId: string
+    width: number
+  }
+
+  export type MediaVariantCountOrderByAggregateInput = {
+    id?: SortOrder
+    mediaId?: SortOrder
+    width?: SortOrder
+    height?: SortOrder
+    mimeType?: SortOrder
+    size?: SortOrder
+    storageKey?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type MediaVariantAvgOrderByAggregateInput = {
+    width?: SortOrder
+    height?: SortOrder
+    size?: SortOrder
+  }
+
+  export type MediaVariantMaxOrderByAggregateInput = {
+    id?: SortOrder
+    mediaId?: SortOrder
+    width?: SortOrder
+    height?: SortOrder
+    mimeType?: SortOrder
+    size?: SortOrder
+    storageKey?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type MediaVariantMinOrderByAggregateInput = {
+    id?: SortOrder
+    mediaId?: SortOrder
+    width?: SortOrder
+    height?: SortOrder
+    mimeType?: SortOrder
+    size?: SortOrder
+    storageKey?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type MediaVariantSumOrderByAggregateInput = {
+    width?: SortOrder
+    height?: SortOrder
+    size?: SortOrder
+  }
+
+  export type GeocodeCacheProviderQueryCompoundUniqueInput = {
+    provider: string
+    query: string
+  }
+
+  export type GeocodeCacheCountOrderByAggregateInput = {
+    id?: SortOrder
+    provider?: SortOrder
+    query?: SortOrder
+    candidates?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type GeocodeCacheMaxOrderByAggregateInput = {
+    id?: SortOrder
+    provider?: SortOrder
+    query?: SortOrder
+    candidates?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type GeocodeCacheMinOrderByAggregateInput = {
+    id?: SortOrder
+    provider?: SortOrder
+    query?: SortOrder
+    candidates?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type GeocodeJobItemListRelationFilter = {
+    every?: GeocodeJobItemWhereInput
+    some?: GeocodeJobItemWhereInput
+    none?: GeocodeJobItemWhereInput
+  }
+
+  export type GeocodeJobItemOrderByRelationAggregateInput = {
+    _count?: SortOrder
+  }
+
+  export type GeocodeJobCountOrderByAggregateInput = {
+    id?: SortOrder
+    userId?: SortOrder
+    status?: SortOrder
+    total?: SortOrder
+    processed?: SortOrder
+    bounds?: SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type GeocodeJobAvgOrderByAggregateInput = {
+    total?: SortOrder
+    processed?: SortOrder
+  }
+
+  export type GeocodeJobMaxOrderByAggregateInput = {
+    id?: SortOrder
+    userId?: SortOrder
+    status?: SortOrder
+    total?: SortOrder
+    processed?: SortOrder
+    bounds?: SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type GeocodeJobMinOrderByAggregateInput = {
+    id?: SortOrder
+    userId?: SortOrder
+    status?: SortOrder
+    total?: SortOrder
+    processed?: SortOrder
+    bounds?: SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type GeocodeJobSumOrderByAggregateInput = {
+    total?: SortOrder
+    processed?: SortOrder
+  }
+
+  export type FloatNullableFilter<$PrismaModel = never> = {
+    equals?: number | FloatFieldRefInput<$PrismaModel> | null
+    in?: number[] | null
+    notIn?: number[] | null
+    lt?: number | FloatFieldRefInput<$PrismaModel>
+    lte?: number | FloatFieldRefInput<$PrismaModel>
+    gt?: number | FloatFieldRefInput<$PrismaModel>
+    gte?: number | FloatFieldRefInput<$PrismaModel>
+    not?: NestedFloatNullableFilter<$PrismaModel> | number | null
+  }
+
+  export type GeocodeJobScalarRelationFilter = {
+    is?: GeocodeJobWhereInput
+    isNot?: GeocodeJobWhereInput
+  }
+
+  export type GeocodeJobItemJobIdIndexCompoundUniqueInput = {
+    jobId: string
+    index: number
+  }
+
+  export type GeocodeJobItemCountOrderByAggregateInput = {
+    id?: SortOrder
+    jobId?: SortOrder
+    index?: SortOrder
+    address?: SortOrder
+    status?: SortOrder
+    lat?: SortOrder
+    lng?: SortOrder
+    displayName?: SortOrder
+    candidates?: SortOrder
+    source?: SortOrder
+    error?: SortOrder
+    attempts?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type GeocodeJobItemAvgOrderByAggregateInput = {
+    index?: SortOrder
+    lat?: SortOrder
+    lng?: SortOrder
+    attempts?: SortOrder
+  }
+
+  export type GeocodeJobItemMaxOrderByAggregateInput = {
+    id?: SortOrder
+    jobId?: SortOrder
+    index?: SortOrder
+    address?: SortOrder
+    status?: SortOrder
+    lat?: SortOrder
+    lng?: SortOrder
+    displayName?: SortOrder
+    candidates?: SortOrder
+    source?: SortOrder
+    error?: SortOrder
+    attempts?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type GeocodeJobItemMinOrderByAggregateInput = {
+    id?: SortOrder
+    jobId?: SortOrder
+    index?: SortOrder
+    address?: SortOrder
+    status?: SortOrder
+    lat?: SortOrder
+    lng?: SortOrder
+    displayName?: SortOrder
+    candidates?: SortOrder
+    source?: SortOrder
+    error?: SortOrder
+    attempts?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type GeocodeJobItemSumOrderByAggregateInput = {
+    index?: SortOrder
+    lat?: SortOrder
+    lng?: SortOrder
+    attempts?: SortOrder
+  }
+
+  export type FloatNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: number | FloatFieldRefInput<$PrismaModel> | null
+    in?: number[] | null
+    notIn?: number[] | null
+    lt?: number | FloatFieldRefInput<$PrismaModel>
+    lte?: number | FloatFieldRefInput<$PrismaModel>
+    gt?: number | FloatFieldRefInput<$PrismaModel>
+    gte?: number | FloatFieldRefInput<$PrismaModel>
+    not?: NestedFloatNullableWithAggregatesFilter<$PrismaModel> | number | null
+    _count?: NestedIntNullableFilter<$PrismaModel>
+    _avg?: NestedFloatNullableFilter<$PrismaModel>
+    _sum?: NestedFloatNullableFilter<$PrismaModel>
+    _min?: NestedFloatNullableFilter<$PrismaModel>
+    _max?: NestedFloatNullableFilter<$PrismaModel>
+  }
+
+  export type MediaCreateNestedOneWithoutMapsInput = {
+    create?: XOR<MediaCreateWithoutMapsInput, MediaUncheckedCreateWithoutMapsInput>
+    connectOrCreate?: MediaCreateOrConnectWithoutMapsInput
+    connect?: MediaWhereUniqueInput
+  }
+
+  export type LevelCreateNestedManyWithoutMapInput = {
+    create?: XOR<LevelCreateWithoutMapInput, LevelUncheckedCreateWithoutMapInput> | LevelCreateWithoutMapInput[] | LevelUncheckedCreateWithoutMapInput[]
+    connectOrCreate?: LevelCreateOrConnectWithoutMapInput | LevelCreateOrConnectWithoutMapInput[]
+    createMany?: LevelCreateManyMapInputEnvelope
+    connect?: LevelWhereUniqueInput | LevelWhereUniqueInput[]
+  }
+
+  export type ZoneCreateNestedManyWithoutMapInput = {
+    create?: XOR<ZoneCreateWithoutMapInput, ZoneUncheckedCreateWithoutMapInput> | ZoneCreateWithoutMapInput[] | ZoneUncheckedCreateWithoutMapInput[]
+    connectOrCreate?: ZoneCreateOrConnectWithoutMapInput | ZoneCreateOrConnectWithoutMapInput[]
+    createMany?: ZoneCreateManyMapInputEnvelope
+    connect?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+  }
+
+  export type MapRevisionCreateNestedManyWithoutMapInput = {
+    create?: XOR<MapRevisionCreateWithoutMapInput, MapRevisionUncheckedCreateWithoutMapInput> | MapRevisionCreateWithoutMapInput[] | MapRevisionUncheckedCreateWithoutMapInput[]
+    connectOrCreate?: MapRevisionCreateOrConnectWithoutMapInput | MapRevisionCreateOrConnectWithoutMapInput[]
+    createMany?: MapRevisionCreateManyMapInputEnvelope
+    connect?: MapRevisionWhereUniqueInput | MapRevisionWhereUniqueInput[]
+  }
+
+  export type MapMemberCreateNestedManyWithoutMapInput = {
+    create?: XOR<MapMemberCreateWithoutMapInput, MapMemberUncheckedCreateWithoutMapInput> | MapMemberCreateWithoutMapInput[] | MapMemberUncheckedCreateWithoutMapInput[]
+    connectOrCreate?: MapMemberCreateOrConnectWithoutMapInput | MapMemberCreateOrConnectWithoutMapInput[]
+    createMany?: MapMemberCreateManyMapInputEnvelope
+    connect?: MapMemberWhereUniqueInput | MapMemberWhereUniqueInput[]
+  }
+
+  export type LevelUncheckedCreateNestedManyWithoutMapInput = {
+    create?: XOR<LevelCreateWithoutMapInput, LevelUncheckedCreateWithoutMapInput> | LevelCreateWithoutMapInput[] | LevelUncheckedCreateWithoutMapInput[]
+    connectOrCreate?: LevelCreateOrConnectWithoutMapInput | LevelCreateOrConnectWithoutMapInput[]
+    createMany?: LevelCreateManyMapInputEnvelope
+    connect?: LevelWhereUniqueInput | LevelWhereUniqueInput[]
+  }
+
+  export type ZoneUncheckedCreateNestedManyWithoutMapInput = {
+    create?: XOR<ZoneCreateWithoutMapInput, ZoneUncheckedCreateWithoutMapInput> | ZoneCreateWithoutMapInput[] | ZoneUncheckedCreateWithoutMapInput[]
+    connectOrCreate?: ZoneCreateOrConnectWithoutMapInput | ZoneCreateOrConnectWithoutMapInput[]
+    createMany?: ZoneCreateManyMapInputEnvelope
+    connect?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+  }
+
+  export type MapRevisionUncheckedCreateNestedManyWithoutMapInput = {
+    create?: XOR<MapRevisionCreateWithoutMapInput, MapRevisionUncheckedCreateWithoutMapInput> | MapRevisionCreateWithoutMapInput[] | MapRevisionUncheckedCreateWithoutMapInput[]
+    connectOrCreate?: MapRevisionCreateOrConnectWithoutMapInput | MapRevisionCreateOrConnectWithoutMapInput[]
+    createMany?: MapRevisionCreateManyMapInputEnvelope
+    connect?: MapRevisionWhereUniqueInput | MapRevisionWhereUniqueInput[]
+  }
+
+  export type MapMemberUncheckedCreateNestedManyWithoutMapInput = {
+    create?: XOR<MapMemberCreateWithoutMapInput, MapMemberUncheckedCreateWithoutMapInput> | MapMemberCreateWithoutMapInput[] | MapMemberUncheckedCreateWithoutMapInput[]
+    connectOrCreate?: MapMemberCreateOrConnectWithoutMapInput | MapMemberCreateOrConnectWithoutMapInput[]
+    createMany?: MapMemberCreateManyMapInputEnvelope
+    connect?: MapMemberWhereUniqueInput | MapMemberWhereUniqueInput[]
+  }
+
+  export type StringFieldUpdateOperationsInput = {
+    set?: string
+  }
+
+  export type NullableStringFieldUpdateOperationsInput = {
+    set?: string | null
+  }
+
+  export type BoolFieldUpdateOperationsInput = {
+    set?: boolean
+  }
+
+  export type NullableDateTimeFieldUpdateOperationsInput = {
+    set?: Date | string | null
+  }
+
+  export type DateTimeFieldUpdateOperationsInput = {
+    set?: Date | string
+  }
+
+  export type MediaUpdateOneWithoutMapsNestedInput = {
+    create?: XOR<MediaCreateWithoutMapsInput, MediaUncheckedCreateWithoutMapsInput>
+    connectOrCreate?: MediaCreateOrConnectWithoutMapsInput
+    upsert?: MediaUpsertWithoutMapsInput
+    disconnect?: MediaWhereInput | boolean
+    delete?: MediaWhereInput | boolean
+    connect?: MediaWhereUniqueInput
+    update?: XOR<XOR<MediaUpdateToOneWithWhereWithoutMapsInput, MediaUpdateWithoutMapsInput>, MediaUncheckedUpdateWithoutMapsInput>
+  }
+
+  export type LevelUpdateManyWithoutMapNestedInput = {
+    create?: XOR<LevelCreateWithoutMapInput, LevelUncheckedCreateWithoutMapInput> | LevelCreateWithoutMapInput[] | LevelUncheckedCreateWithoutMapInput[]
+    connectOrCreate?: LevelCreateOrConnectWithoutMapInput | LevelCreateOrConnectWithoutMapInput[]
+    upsert?: LevelUpsertWithWhereUniqueWithoutMapInput | LevelUpsertWithWhereUniqueWithoutMapInput[]
+    createMany?: LevelCreateManyMapInputEnvelope
+    set?: LevelWhereUniqueInput | LevelWhereUniqueInput[]
+    disconnect?: LevelWhereUniqueInput | LevelWhereUniqueInput[]
+    delete?: LevelWhereUniqueInput | LevelWhereUniqueInput[]
+    connect?: LevelWhereUniqueInput | LevelWhereUniqueInput[]
+    update?: LevelUpdateWithWhereUniqueWithoutMapInput | LevelUpdateWithWhereUniqueWithoutMapInput[]
+    updateMany?: LevelUpdateManyWithWhereWithoutMapInput | LevelUpdateManyWithWhereWithoutMapInput[]
+    deleteMany?: LevelScalarWhereInput | LevelScalarWhereInput[]
+  }
+
+  export type ZoneUpdateManyWithoutMapNestedInput = {
+    create?: XOR<ZoneCreateWithoutMapInput, ZoneUncheckedCreateWithoutMapInput> | ZoneCreateWithoutMapInput[] | ZoneUncheckedCreateWithoutMapInput[]
+    connectOrCreate?: ZoneCreateOrConnectWithoutMapInput | ZoneCreateOrConnectWithoutMapInput[]
+    upsert?: ZoneUpsertWithWhereUniqueWithoutMapInput | ZoneUpsertWithWhereUniqueWithoutMapInput[]
+    createMany?: ZoneCreateManyMapInputEnvelope
+    set?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+    disconnect?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+    delete?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+    connect?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+    update?: ZoneUpdateWithWhereUniqueWithoutMapInput | ZoneUpdateWithWhereUniqueWithoutMapInput[]
+    updateMany?: ZoneUpdateManyWithWhereWithoutMapInput | ZoneUpdateManyWithWhereWithoutMapInput[]
+    deleteMany?: ZoneScalarWhereInput | ZoneScalarWhereInput[]
+  }
+
+  export type MapRevisionUpdateManyWithoutMapNestedInput = {
+    create?: XOR<MapRevisionCreateWithoutMapInput, MapRevisionUncheckedCreateWithoutMapInput> | MapRevisionCreateWithoutMapInput[] | MapRevisionUncheckedCreateWithoutMapInput[]
+    connectOrCreate?: MapRevisionCreateOrConnectWithoutMapInput | MapRevisionCreateOrConnectWithoutMapInput[]
+    upsert?: MapRevisionUpsertWithWhereUniqueWithoutMapInput | MapRevisionUpsertWithWhereUniqueWithoutMapInput[]
+    createMany?: MapRevisionCreateManyMapInputEnvelope
+    set?: MapRevisionWhereUniqueInput | MapRevisionWhereUniqueInput[]
+    disconnect?: MapRevisionWhereUniqueInput | MapRevisionWhereUniqueInput[]
+    delete?: MapRevisionWhereUniqueInput | MapRevisionWhereUniqueInput[]
+    connect?: MapRevisionWhereUniqueInput | MapRevisionWhereUniqueInput[]
+    update?: MapRevisionUpdateWithWhereUniqueWithoutMapInput | MapRevisionUpdateWithWhereUniqueWithoutMapInput[]
+    updateMany?: MapRevisionUpdateManyWithWhereWithoutMapInput | MapRevisionUpdateManyWithWhereWithoutMapInput[]
+    deleteMany?: MapRevisionScalarWhereInput | MapRevisionScalarWhereInput[]
+  }
+
+  export type MapMemberUpdateManyWithoutMapNestedInput = {
+    create?: XOR<MapMemberCreateWithoutMapInput, MapMemberUncheckedCreateWithoutMapInput> | MapMemberCreateWithoutMapInput[] | MapMemberUncheckedCreateWithoutMapInput[]
+    connectOrCreate?: MapMemberCreateOrConnectWithoutMapInput | MapMemberCreateOrConnectWithoutMapInput[]
+    upsert?: MapMemberUpsertWithWhereUniqueWithoutMapInput | MapMemberUpsertWithWhereUniqueWithoutMapInput[]
+    createMany?: MapMemberCreateManyMapInputEnvelope
+    set?: MapMemberWhereUniqueInput | MapMemberWhereUniqueInput[]
+    disconnect?: MapMemberWhereUniqueInput | MapMemberWhereUniqueInput[]
+    delete?: MapMemberWhereUniqueInput | MapMemberWhereUniqueInput[]
+    connect?: MapMemberWhereUniqueInput | MapMemberWhereUniqueInput[]
+    update?: MapMemberUpdateWithWhereUniqueWithoutMapInput | MapMemberUpdateWithWhereUniqueWithoutMapInput[]
+    updateMany?: MapMemberUpdateManyWithWhereWithoutMapInput | MapMemberUpdateManyWithWhereWithoutMapInput[]
+    deleteMany?: MapMemberScalarWhereInput | MapMemberScalarWhereInput[]
+  }
+
+  export type LevelUncheckedUpdateManyWithoutMapNestedInput = {
+    create?: XOR<LevelCreateWithoutMapInput, LevelUncheckedCreateWithoutMapInput> | LevelCreateWithoutMapInput[] | LevelUncheckedCreateWithoutMapInput[]
+    connectOrCreate?: LevelCreateOrConnectWithoutMapInput | LevelCreateOrConnectWithoutMapInput[]
+    upsert?: LevelUpsertWithWhereUniqueWithoutMapInput | LevelUpsertWithWhereUniqueWithoutMapInput[]
+    createMany?: LevelCreateManyMapInputEnvelope
+    set?: LevelWhereUniqueInput | LevelWhereUniqueInput[]
+    disconnect?: LevelWhereUniqueInput | LevelWhereUniqueInput[]
+    delete?: LevelWhereUniqueInput | LevelWhereUniqueInput[]
+    connect?: LevelWhereUniqueInput | LevelWhereUniqueInput[]
+    update?: LevelUpdateWithWhereUniqueWithoutMapInput | LevelUpdateWithWhereUniqueWithoutMapInput[]
+    updateMany?: LevelUpdateManyWithWhereWithoutMapInput | LevelUpdateManyWithWhereWithoutMapInput[]
+    deleteMany?: LevelScalarWhereInput | LevelScalarWhereInput[]
+  }
+
+  export type ZoneUncheckedUpdateManyWithoutMapNestedInput = {
+    create?: XOR<ZoneCreateWithoutMapInput, ZoneUncheckedCreateWithoutMapInput> | ZoneCreateWithoutMapInput[] | ZoneUncheckedCreateWithoutMapInput[]
+    connectOrCreate?: ZoneCreateOrConnectWithoutMapInput | ZoneCreateOrConnectWithoutMapInput[]
+    upsert?: ZoneUpsertWithWhereUniqueWithoutMapInput | ZoneUpsertWithWhereUniqueWithoutMapInput[]
+    createMany?: ZoneCreateManyMapInputEnvelope
+    set?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+    disconnect?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+    delete?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+    connect?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+    update?: ZoneUpdateWithWhereUniqueWithoutMapInput | ZoneUpdateWithWhereUniqueWithoutMapInput[]
+    updateMany?: ZoneUpdateManyWithWhereWithoutMapInput | ZoneUpdateManyWithWhereWithoutMapInput[]
+    deleteMany?: ZoneScalarWhereInput | ZoneScalarWhereInput[]
+  }
+
+  export type MapRevisionUncheckedUpdateManyWithoutMapNestedInput = {
+    create?: XOR<MapRevisionCreateWithoutMapInput, MapRevisionUncheckedCreateWithoutMapInput> | MapRevisionCreateWithoutMapInput[] | MapRevisionUncheckedCreateWithoutMapInput[]
+    connectOrCreate?: MapRevisionCreateOrConnectWithoutMapInput | MapRevisionCreateOrConnectWithoutMapInput[]
+    upsert?: MapRevisionUpsertWithWhereUniqueWithoutMapInput | MapRevisionUpsertWithWhereUniqueWithoutMapInput[]
+    createMany?: MapRevisionCreateManyMapInputEnvelope
+    set?: MapRevisionWhereUniqueInput | MapRevisionWhereUniqueInput[]
+    disconnect?: MapRevisionWhereUniqueInput | MapRevisionWhereUniqueInput[]
+    delete?: MapRevisionWhereUniqueInput | MapRevisionWhereUniqueInput[]
+    connect?: MapRevisionWhereUniqueInput | MapRevisionWhereUniqueInput[]
+    update?: MapRevisionUpdateWithWhereUniqueWithoutMapInput | MapRevisionUpdateWithWhereUniqueWithoutMapInput[]
+    updateMany?: MapRevisionUpdateManyWithWhereWithoutMapInput | MapRevisionUpdateManyWithWhereWithoutMapInput[]
+    deleteMany?: MapRevisionScalarWhereInput | MapRevisionScalarWhereInput[]
+  }
+
+  export type MapMemberUncheckedUpdateManyWithoutMapNestedInput = {
+    create?: XOR<MapMemberCreateWithoutMapInput, MapMemberUncheckedCreateWithoutMapInput> | MapMemberCreateWithoutMapInput[] | MapMemberUncheckedCreateWithoutMapInput[]
+    connectOrCreate?: MapMemberCreateOrConnectWithoutMapInput | MapMemberCreateOrConnectWithoutMapInput[]
+    upsert?: MapMemberUpsertWithWhereUniqueWithoutMapInput | MapMemberUpsertWithWhereUniqueWithoutMapInput[]
+    createMany?: MapMemberCreateManyMapInputEnvelope
+    set?: MapMemberWhereUniqueInput | MapMemberWhereUniqueInput[]
+    disconnect?: MapMemberWhereUniqueInput | MapMemberWhereUniqueInput[]
+    delete?: MapMemberWhereUniqueInput | MapMemberWhereUniqueInput[]
+    connect?: MapMemberWhereUniqueInput | MapMemberWhereUniqueInput[]
+    update?: MapMemberUpdateWithWhereUniqueWithoutMapInput | MapMemberUpdateWithWhereUniqueWithoutMapInput[]
+    updateMany?: MapMemberUpdateManyWithWhereWithoutMapInput | MapMemberUpdateManyWithWhereWithoutMapInput[]
+    deleteMany?: MapMemberScalarWhereInput | MapMemberScalarWhereInput[]
+  }
+
+  export type MapCreateNestedOneWithoutZonesInput = {
+    create?: XOR<MapCreateWithoutZonesInput, MapUncheckedCreateWithoutZonesInput>
+    connectOrCreate?: MapCreateOrConnectWithoutZonesInput
+    connect?: MapWhereUniqueInput
+  }
+
+  export type LevelCreateNestedOneWithoutZonesInput = {
+    create?: XOR<LevelCreateWithoutZonesInput, LevelUncheckedCreateWithoutZonesInput>
+    connectOrCreate?: LevelCreateOrConnectWithoutZonesInput
+    connect?: LevelWhereUniqueInput
+  }
+
+  export type MediaCreateNestedManyWithoutZonesInput = {
+    create?: XOR<MediaCreateWithoutZonesInput, MediaUncheckedCreateWithoutZonesInput> | MediaCreateWithoutZonesInput[] | MediaUncheckedCreateWithoutZonesInput[]
+    connectOrCreate?: MediaCreateOrConnectWithoutZonesInput | MediaCreateOrConnectWithoutZonesInput[]
+    connect?: MediaWhereUniqueInput | MediaWhereUniqueInput[]
+  }
+
+  export type MediaUncheckedCreateNestedManyWithoutZonesInput = {
+    create?: XOR<MediaCreateWithoutZonesInput, MediaUncheckedCreateWithoutZonesInput> | MediaCreateWithoutZonesInput[] | MediaUncheckedCreateWithoutZonesInput[]
+    connectOrCreate?: MediaCreateOrConnectWithoutZonesInput | MediaCreateOrConnectWithoutZonesInput[]
+    connect?: MediaWhereUniqueInput | MediaWhereUniqueInput[]
+  }
+
+  export type MapUpdateOneRequiredWithoutZonesNestedInput = {
+    create?: XOR<MapCreateWithoutZonesInput, MapUncheckedCreateWithoutZonesInput>
+    connectOrCreate?: MapCreateOrConnectWithoutZonesInput
+    upsert?: MapUpsertWithoutZonesInput
+    connect?: MapWhereUniqueInput
+    update?: XOR<XOR<MapUpdateToOneWithWhereWithoutZonesInput, MapUpdateWithoutZonesInput>, MapUncheckedUpdateWithoutZonesInput>
+  }
+
+  export type LevelUpdateOneWithoutZonesNestedInput = {
+    create?: XOR<LevelCreateWithoutZonesInput, LevelUncheckedCreateWithoutZonesInput>
+    connectOrCreate?: LevelCreateOrConnectWithoutZonesInput
+    upsert?: LevelUpsertWithoutZonesInput
+    disconnect?: LevelWhereInput | boolean
+    delete?: LevelWhereInput | boolean
+    connect?: LevelWhereUniqueInput
+    update?: XOR<XOR<LevelUpdateToOneWithWhereWithoutZonesInput, LevelUpdateWithoutZonesInput>, LevelUncheckedUpdateWithoutZonesInput>
+  }
+
+  export type MediaUpdateManyWithoutZonesNestedInput = {
+    create?: XOR<MediaCreateWithoutZonesInput, MediaUncheckedCreateWithoutZonesInput> | MediaCreateWithoutZonesInput[] | MediaUncheckedCreateWithoutZonesInput[]
+    connectOrCreate?: MediaCreateOrConnectWithoutZonesInput | MediaCreateOrConnectWithoutZonesInput[]
+    upsert?: MediaUpsertWithWhereUniqueWithoutZonesInput | MediaUpsertWithWhereUniqueWithoutZonesInput[]
+    set?: MediaWhereUniqueInput | MediaWhereUniqueInput[]
+    disconnect?: MediaWhereUniqueInput | MediaWhereUniqueInput[]
+    delete?: MediaWhereUniqueInput | MediaWhereUniqueInput[]
+    connect?: MediaWhereUniqueInput | MediaWhereUniqueInput[]
+    update?: MediaUpdateWithWhereUniqueWithoutZonesInput | MediaUpdateWithWhereUniqueWithoutZonesInput[]
+    updateMany?: MediaUpdateManyWithWhereWithoutZonesInput | MediaUpdateManyWithWhereWithoutZonesInput[]
+    deleteMany?: MediaScalarWhereInput | MediaScalarWhereInput[]
+  }
+
+  export type MediaUncheckedUpdateManyWithoutZonesNestedInput = {
+    create?: XOR<MediaCreateWithoutZonesInput, MediaUncheckedCreateWithoutZonesInput> | MediaCreateWithoutZonesInput[] | MediaUncheckedCreateWithoutZonesInput[]
+    connectOrCreate?: MediaCreateOrConnectWithoutZonesInput | MediaCreateOrConnectWithoutZonesInput[]
+    upsert?: MediaUpsertWithWhereUniqueWithoutZonesInput | MediaUpsertWithWhereUniqueWithoutZonesInput[]
+    set?: MediaWhereUniqueInput | MediaWhereUniqueInput[]
+    disconnect?: MediaWhereUniqueInput | MediaWhereUniqueInput[]
+    delete?: MediaWhereUniqueInput | MediaWhereUniqueInput[]
+    connect?: MediaWhereUniqueInput | MediaWhereUniqueInput[]
+    update?: MediaUpdateWithWhereUniqueWithoutZonesInput | MediaUpdateWithWhereUniqueWithoutZonesInput[]
+    updateMany?: MediaUpdateManyWithWhereWithoutZonesInput | MediaUpdateManyWithWhereWithoutZonesInput[]
+    deleteMany?: MediaScalarWhereInput | MediaScalarWhereInput[]
+  }
+
+  export type MapCreateNestedOneWithoutLevelsInput = {
+    create?: XOR<MapCreateWithoutLevelsInput, MapUncheckedCreateWithoutLevelsInput>
+    connectOrCreate?: MapCreateOrConnectWithoutLevelsInput
+    connect?: MapWhereUniqueInput
+  }
+
+  export type MediaCreateNestedOneWithoutLevelsInput = {
+    create?: XOR<MediaCreateWithoutLevelsInput, MediaUncheckedCreateWithoutLevelsInput>
+    connectOrCreate?: MediaCreateOrConnectWithoutLevelsInput
+    connect?: MediaWhereUniqueInput
+  }
+
+  export type ZoneCreateNestedManyWithoutLevelInput = {
+    create?: XOR<ZoneCreateWithoutLevelInput, ZoneUncheckedCreateWithoutLevelInput> | ZoneCreateWithoutLevelInput[] | ZoneUncheckedCreateWithoutLevelInput[]
+    connectOrCreate?: ZoneCreateOrConnectWithoutLevelInput | ZoneCreateOrConnectWithoutLevelInput[]
+    createMany?: ZoneCreateManyLevelInputEnvelope
+    connect?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+  }
+
+  export type ZoneUncheckedCreateNestedManyWithoutLevelInput = {
+    create?: XOR<ZoneCreateWithoutLevelInput, ZoneUncheckedCreateWithoutLevelInput> | ZoneCreateWithoutLevelInput[] | ZoneUncheckedCreateWithoutLevelInput[]
+    connectOrCreate?: ZoneCreateOrConnectWithoutLevelInput | ZoneCreateOrConnectWithoutLevelInput[]
+    createMany?: ZoneCreateManyLevelInputEnvelope
+    connect?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+  }
+
+  export type IntFieldUpdateOperationsInput = {
+    set?: number
+    increment?: number
+    decrement?: number
+    multiply?: number
+    divide?: number
+  }
+
+  export type FloatFieldUpdateOperationsInput = {
+    set?: number
+    increment?: number
+    decrement?: number
+    multiply?: number
+    divide?: number
+  }
+
+  export type MapUpdateOneRequiredWithoutLevelsNestedInput = {
+    create?: XOR<MapCreateWithoutLevelsInput, MapUncheckedCreateWithoutLevelsInput>
+    connectOrCreate?: MapCreateOrConnectWithoutLevelsInput
+    upsert?: MapUpsertWithoutLevelsInput
+    connect?: MapWhereUniqueInput
+    update?: XOR<XOR<MapUpdateToOneWithWhereWithoutLevelsInput, MapUpdateWithoutLevelsInput>, MapUncheckedUpdateWithoutLevelsInput>
+  }
+
+  export type MediaUpdateOneWithoutLevelsNestedInput = {
+    create?: XOR<MediaCreateWithoutLevelsInput, MediaUncheckedCreateWithoutLevelsInput>
+    connectOrCreate?: MediaCreateOrConnectWithoutLevelsInput
+    upsert?: MediaUpsertWithoutLevelsInput
+    disconnect?: MediaWhereInput | boolean
+    delete?: MediaWhereInput | boolean
+    connect?: MediaWhereUniqueInput
+    update?: XOR<XOR<MediaUpdateToOneWithWhereWithoutLevelsInput, MediaUpdateWithoutLevelsInput>, MediaUncheckedUpdateWithoutLevelsInput>
+  }
+
+  export type ZoneUpdateManyWithoutLevelNestedInput = {
+    create?: XOR<ZoneCreateWithoutLevelInput, ZoneUncheckedCreateWithoutLevelInput> | ZoneCreateWithoutLevelInput[] | ZoneUncheckedCreateWithoutLevelInput[]
+    connectOrCreate?: ZoneCreateOrConnectWithoutLevelInput | ZoneCreateOrConnectWithoutLevelInput[]
+    upsert?: ZoneUpsertWithWhereUniqueWithoutLevelInput | ZoneUpsertWithWhereUniqueWithoutLevelInput[]
+    createMany?: ZoneCreateManyLevelInputEnvelope
+    set?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+    disconnect?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+    delete?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+    connect?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+    update?: ZoneUpdateWithWhereUniqueWithoutLevelInput | ZoneUpdateWithWhereUniqueWithoutLevelInput[]
+    updateMany?: ZoneUpdateManyWithWhereWithoutLevelInput | ZoneUpdateManyWithWhereWithoutLevelInput[]
+    deleteMany?: ZoneScalarWhereInput | ZoneScalarWhereInput[]
+  }
+
+  export type ZoneUncheckedUpdateManyWithoutLevelNestedInput = {
+    create?: XOR<ZoneCreateWithoutLevelInput, ZoneUncheckedCreateWithoutLevelInput> | ZoneCreateWithoutLevelInput[] | ZoneUncheckedCreateWithoutLevelInput[]
+    connectOrCreate?: ZoneCreateOrConnectWithoutLevelInput | ZoneCreateOrConnectWithoutLevelInput[]
+    upsert?: ZoneUpsertWithWhereUniqueWithoutLevelInput | ZoneUpsertWithWhereUniqueWithoutLevelInput[]
+    createMany?: ZoneCreateManyLevelInputEnvelope
+    set?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+    disconnect?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+    delete?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+    connect?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+    update?: ZoneUpdateWithWhereUniqueWithoutLevelInput | ZoneUpdateWithWhereUniqueWithoutLevelInput[]
+    updateMany?: ZoneUpdateManyWithWhereWithoutLevelInput | ZoneUpdateManyWithWhereWithoutLevelInput[]
+    deleteMany?: ZoneScalarWhereInput | ZoneScalarWhereInput[]
+  }
+
+  export type MapCreateNestedOneWithoutRevisionsInput = {
+    create?: XOR<MapCreateWithoutRevisionsInput, MapUncheckedCreateWithoutRevisionsInput>
+    connectOrCreate?: MapCreateOrConnectWithoutRevisionsInput
+    connect?: MapWhereUniqueInput
+  }
+
+  export type MapUpdateOneRequiredWithoutRevisionsNestedInput = {
+    create?: XOR<MapCreateWithoutRevisionsInput, MapUncheckedCreateWithoutRevisionsInput>
+    connectOrCreate?: MapCreateOrConnectWithoutRevisionsInput
+    upsert?: MapUpsertWithoutRevisionsInput
+    connect?: MapWhereUniqueInput
+    update?: XOR<XOR<MapUpdateToOneWithWhereWithoutRevisionsInput, MapUpdateWithoutRevisionsInput>, MapUncheckedUpdateWithoutRevisionsInput>
+  }
+
+  export type MapMemberCreateNestedManyWithoutUserInput = {
+    create?: XOR<MapMemberCreateWithoutUserInput, MapMemberUncheckedCreateWithoutUserInput> | MapMemberCreateWithoutUserInput[] | MapMemberUncheckedCreateWithoutUserInput[]
+    connectOrCreate?: MapMemberCreateOrConnectWithoutUserInput | MapMemberCreateOrConnectWithoutUserInput[]
+    createMany?: MapMemberCreateManyUserInputEnvelope
+    connect?: MapMemberWhereUniqueInput | MapMemberWhereUniqueInput[]
+  }
+
+  export type GeocodeJobCreateNestedManyWithoutUserInput = {
+    create?: XOR<GeocodeJobCreateWithoutUserInput, GeocodeJobUncheckedCreateWithoutUserInput> | GeocodeJobCreateWithoutUserInput[] | GeocodeJobUncheckedCreateWithoutUserInput[]
+    connectOrCreate?: GeocodeJobCreateOrConnectWithoutUserInput | GeocodeJobCreateOrConnectWithoutUserInput[]
+    createMany?: GeocodeJobCreateManyUserInputEnvelope
+    connect?: GeocodeJobWhereUniqueInput | GeocodeJobWhereUniqueInput[]
+  }
+
+  export type MapMemberUncheckedCreateNestedManyWithoutUserInput = {
+    create?: XOR<MapMemberCreateWithoutUserInput, MapMemberUncheckedCreateWithoutUserInput> | MapMemberCreateWithoutUserInput[] | MapMemberUncheckedCreateWithoutUserInput[]
+    connectOrCreate?: MapMemberCreateOrConnectWithoutUserInput | MapMemberCreateOrConnectWithoutUserInput[]
+    createMany?: MapMemberCreateManyUserInputEnvelope
+    connect?: MapMemberWhereUniqueInput | MapMemberWhereUniqueInput[]
+  }
+
+  export type GeocodeJobUncheckedCreateNestedManyWithoutUserInput = {
+    create?: XOR<GeocodeJobCreateWithoutUserInput, GeocodeJobUncheckedCreateWithoutUserInput> | GeocodeJobCreateWithoutUserInput[] | GeocodeJobUncheckedCreateWithoutUserInput[]
+    connectOrCreate?: GeocodeJobCreateOrConnectWithoutUserInput | GeocodeJobCreateOrConnectWithoutUserInput[]
+    createMany?: GeocodeJobCreateManyUserInputEnvelope
+    connect?: GeocodeJobWhereUniqueInput | GeocodeJobWhereUniqueInput[]
+  }
+
+  export type MapMemberUpdateManyWithoutUserNestedInput = {
+    create?: XOR<MapMemberCreateWithoutUserInput, MapMemberUncheckedCreateWithoutUserInput> | MapMemberCreateWithoutUserInput[] | MapMemberUncheckedCreateWithoutUserInput[]
+    connectOrCreate?: MapMemberCreateOrConnectWithoutUserInput | MapMemberCreateOrConnectWithoutUserInput[]
+    upsert?: MapMemberUpsertWithWhereUniqueWithoutUserInput | MapMemberUpsertWithWhereUniqueWithoutUserInput[]
+    createMany?: MapMemberCreateManyUserInputEnvelope
+    set?: MapMemberWhereUniqueInput | MapMemberWhereUniqueInput[]
+    disconnect?: MapMemberWhereUniqueInput | MapMemberWhereUniqueInput[]
+    delete?: MapMemberWhereUniqueInput | MapMemberWhereUniqueInput[]
+    connect?: MapMemberWhereUniqueInput | MapMemberWhereUniqueInput[]
+    update?: MapMemberUpdateWithWhereUniqueWithoutUserInput | MapMemberUpdateWithWhereUniqueWithoutUserInput[]
+    updateMany?: MapMemberUpdateManyWithWhereWithoutUserInput | MapMemberUpdateManyWithWhereWithoutUserInput[]
+    deleteMany?: MapMemberScalarWhereInput | MapMemberScalarWhereInput[]
+  }
+
+  export type GeocodeJobUpdateManyWithoutUserNestedInput = {
+    create?: XOR<GeocodeJobCreateWithoutUserInput, GeocodeJobUncheckedCreateWithoutUserInput> | GeocodeJobCreateWithoutUserInput[] | GeocodeJobUncheckedCreateWithoutUserInput[]
+    connectOrCreate?: GeocodeJobCreateOrConnectWithoutUserInput | GeocodeJobCreateOrConnectWithoutUserInput[]
+    upsert?: GeocodeJobUpsertWithWhereUniqueWithoutUserInput | GeocodeJobUpsertWithWhereUniqueWithoutUserInput[]
+    createMany?: GeocodeJobCreateManyUserInputEnvelope
+    set?: GeocodeJobWhereUniqueInput | GeocodeJobWhereUniqueInput[]
+    disconnect?: GeocodeJobWhereUniqueInput | GeocodeJobWhereUniqueInput[]
+    delete?: GeocodeJobWhereUniqueInput | GeocodeJobWhereUniqueInput[]
+    connect?: GeocodeJobWhereUniqueInput | GeocodeJobWhereUniqueInput[]
+    update?: GeocodeJobUpdateWithWhereUniqueWithoutUserInput | GeocodeJobUpdateWithWhereUniqueWithoutUserInput[]
+    updateMany?: GeocodeJobUpdateManyWithWhereWithoutUserInput | GeocodeJobUpdateManyWithWhereWithoutUserInput[]
+    deleteMany?: GeocodeJobScalarWhereInput | GeocodeJobScalarWhereInput[]
+  }
+
+  export type MapMemberUncheckedUpdateManyWithoutUserNestedInput = {
+    create?: XOR<MapMemberCreateWithoutUserInput, MapMemberUncheckedCreateWithoutUserInput> | MapMemberCreateWithoutUserInput[] | MapMemberUncheckedCreateWithoutUserInput[]
+    connectOrCreate?: MapMemberCreateOrConnectWithoutUserInput | MapMemberCreateOrConnectWithoutUserInput[]
+    upsert?: MapMemberUpsertWithWhereUniqueWithoutUserInput | MapMemberUpsertWithWhereUniqueWithoutUserInput[]
+    createMany?: MapMemberCreateManyUserInputEnvelope
+    set?: MapMemberWhereUniqueInput | MapMemberWhereUniqueInput[]
+    disconnect?: MapMemberWhereUniqueInput | MapMemberWhereUniqueInput[]
+    delete?: MapMemberWhereUniqueInput | MapMemberWhereUniqueInput[]
+    connect?: MapMemberWhereUniqueInput | MapMemberWhereUniqueInput[]
+    update?: MapMemberUpdateWithWhereUniqueWithoutUserInput | MapMemberUpdateWithWhereUniqueWithoutUserInput[]
+    updateMany?: MapMemberUpdateManyWithWhereWithoutUserInput | MapMemberUpdateManyWithWhereWithoutUserInput[]
+    deleteMany?: MapMemberScalarWhereInput | MapMemberScalarWhereInput[]
+  }
+
+  export type GeocodeJobUncheckedUpdateManyWithoutUserNestedInput = {
+    create?: XOR<GeocodeJobCreateWithoutUserInput, GeocodeJobUncheckedCreateWithoutUserInput> | GeocodeJobCreateWithoutUserInput[] | GeocodeJobUncheckedCreateWithoutUserInput[]
+    connectOrCreate?: GeocodeJobCreateOrConnectWithoutUserInput | GeocodeJobCreateOrConnectWithoutUserInput[]
+    upsert?: GeocodeJobUpsertWithWhereUniqueWithoutUserInput | GeocodeJobUpsertWithWhereUniqueWithoutUserInput[]
+    createMany?: GeocodeJobCreateManyUserInputEnvelope
+    set?: GeocodeJobWhereUniqueInput | GeocodeJobWhereUniqueInput[]
+    disconnect?: GeocodeJobWhereUniqueInput | GeocodeJobWhereUniqueInput[]
+    delete?: GeocodeJobWhereUniqueInput | GeocodeJobWhereUniqueInput[]
+    connect?: GeocodeJobWhereUniqueInput | GeocodeJobWhereUniqueInput[]
+    update?: GeocodeJobUpdateWithWhereUniqueWithoutUserInput | GeocodeJobUpdateWithWhereUniqueWithoutUserInput[]
+    updateMany?: GeocodeJobUpdateManyWithWhereWithoutUserInput | GeocodeJobUpdateManyWithWhereWithoutUserInput[]
+    deleteMany?: GeocodeJobScalarWhereInput | GeocodeJobScalarWhereInput[]
+  }
+
+  export type MapCreateNestedOneWithoutMembersInput = {
+    create?: XOR<MapCreateWithoutMembersInput, MapUncheckedCreateWithoutMembersInput>
+    connectOrCreate?: MapCreateOrConnectWithoutMembersInput
+    connect?: MapWhereUniqueInput
+  }
+
+  export type UserCreateNestedOneWithoutMembershipsInput = {
+    create?: XOR<UserCreateWithoutMembershipsInput, UserUncheckedCreateWithoutMembershipsInput>
+    connectOrCreate?: UserCreateOrConnectWithoutMembershipsInput
+    connect?: UserWhereUniqueInput
+  }
+
+  export type MapUpdateOneRequiredWithoutMembersNestedInput = {
+    create?: XOR<MapCreateWithoutMembersInput, MapUncheckedCreateWithoutMembersInput>
+    connectOrCreate?: MapCreateOrConnectWithoutMembersInput
+    upsert?: MapUpsertWithoutMembersInput
+    connect?: MapWhereUniqueInput
+    update?: XOR<XOR<MapUpdateToOneWithWhereWithoutMembersInput, MapUpdateWithoutMembersInput>, MapUncheckedUpdateWithoutMembersInput>
+  }
+
+  export type UserUpdateOneRequiredWithoutMembershipsNestedInput = {
+    create?: XOR<UserCreateWithoutMembershipsInput, UserUncheckedCreateWithoutMembershipsInput>
+    connectOrCreate?: UserCreateOrConnectWithoutMembershipsInput
+    upsert?: UserUpsertWithoutMembershipsInput
+    connect?: UserWhereUniqueInput
+    update?: XOR<XOR<UserUpdateToOneWithWhereWithoutMembershipsInput, UserUpdateWithoutMembershipsInput>, UserUncheckedUpdateWithoutMembershipsInput>
+  }
+
+  export type MediaVariantCreateNestedManyWithoutMediaInput = {
+    create?: XOR<MediaVariantCreateWithoutMediaInput, MediaVariantUncheckedCreateWithoutMediaInput> | MediaVariantCreateWithoutMediaInput[] | MediaVariantUncheckedCreateWithoutMediaInput[]
+    connectOrCreate?: MediaVariantCreateOrConnectWithoutMediaInput | MediaVariantCreateOrConnectWithoutMediaInput[]
+    createMany?: MediaVariantCreateManyMediaInputEnvelope
+    connect?: MediaVariantWhereUniqueInput | MediaVariantWhereUniqueInput[]
+  }
+
+  export type MapCreateNestedManyWithoutImageMediaInput = {
+    create?: XOR<MapCreateWithoutImageMediaInput, MapUncheckedCreateWithoutImageMediaInput> | MapCreateWithoutImageMediaInput[] | MapUncheckedCreateWithoutImageMediaInput[]
+    connectOrCreate?: MapCreateOrConnectWithoutImageMediaInput | MapCreateOrConnectWithoutImageMediaInput[]
+    createMany?: MapCreateManyImageMediaInputEnvelope
+    connect?: MapWhereUniqueInput | MapWhereUniqueInput[]
+  }
+
+  export type LevelCreateNestedManyWithoutImageMediaInput = {
+    create?: XOR<LevelCreateWithoutImageMediaInput, LevelUncheckedCreateWithoutImageMediaInput> | LevelCreateWithoutImageMediaInput[] | LevelUncheckedCreateWithoutImageMediaInput[]
+    connectOrCreate?: LevelCreateOrConnectWithoutImageMediaInput | LevelCreateOrConnectWithoutImageMediaInput[]
+    createMany?: LevelCreateManyImageMediaInputEnvelope
+    connect?: LevelWhereUniqueInput | LevelWhereUniqueInput[]
+  }
+
+  export type ZoneCreateNestedManyWithoutMediaInput = {
+    create?: XOR<ZoneCreateWithoutMediaInput, ZoneUncheckedCreateWithoutMediaInput> | ZoneCreateWithoutMediaInput[] | ZoneUncheckedCreateWithoutMediaInput[]
+    connectOrCreate?: ZoneCreateOrConnectWithoutMediaInput | ZoneCreateOrConnectWithoutMediaInput[]
+    connect?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+  }
+
+  export type MediaVariantUncheckedCreateNestedManyWithoutMediaInput = {
+    create?: XOR<MediaVariantCreateWithoutMediaInput, MediaVariantUncheckedCreateWithoutMediaInput> | MediaVariantCreateWithoutMediaInput[] | MediaVariantUncheckedCreateWithoutMediaInput[]
+    connectOrCreate?: MediaVariantCreateOrConnectWithoutMediaInput | MediaVariantCreateOrConnectWithoutMediaInput[]
+    createMany?: MediaVariantCreateManyMediaInputEnvelope
+    connect?: MediaVariantWhereUniqueInput | MediaVariantWhereUniqueInput[]
+  }
+
+  export type MapUncheckedCreateNestedManyWithoutImageMediaInput = {
+    create?: XOR<MapCreateWithoutImageMediaInput, MapUncheckedCreateWithoutImageMediaInput> | MapCreateWithoutImageMediaInput[] | MapUncheckedCreateWithoutImageMediaInput[]
+    connectOrCreate?: MapCreateOrConnectWithoutImageMediaInput | MapCreateOrConnectWithoutImageMediaInput[]
+    createMany?: MapCreateManyImageMediaInputEnvelope
+    connect?: MapWhereUniqueInput | MapWhereUniqueInput[]
+  }
+
+  export type LevelUncheckedCreateNestedManyWithoutImageMediaInput = {
+    create?: XOR<LevelCreateWithoutImageMediaInput, LevelUncheckedCreateWithoutImageMediaInput> | LevelCreateWithoutImageMediaInput[] | LevelUncheckedCreateWithoutImageMediaInput[]
+    connectOrCreate?: LevelCreateOrConnectWithoutImageMediaInput | LevelCreateOrConnectWithoutImageMediaInput[]
+    createMany?: LevelCreateManyImageMediaInputEnvelope
+    connect?: LevelWhereUniqueInput | LevelWhereUniqueInput[]
+  }
+
+  export type ZoneUncheckedCreateNestedManyWithoutMediaInput = {
+    create?: XOR<ZoneCreateWithoutMediaInput, ZoneUncheckedCreateWithoutMediaInput> | ZoneCreateWithoutMediaInput[] | ZoneUncheckedCreateWithoutMediaInput[]
+    connectOrCreate?: ZoneCreateOrConnectWithoutMediaInput | ZoneCreateOrConnectWithoutMediaInput[]
+    connect?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+  }
+
+  export type NullableIntFieldUpdateOperationsInput = {
+    set?: number | null
+    increment?: number
+    decrement?: number
+    multiply?: number
+    divide?: number
+  }
+
+  export type MediaVariantUpdateManyWithoutMediaNestedInput = {
+    create?: XOR<MediaVariantCreateWithoutMediaInput, MediaVariantUncheckedCreateWithoutMediaInput> | MediaVariantCreateWithoutMediaInput[] | MediaVariantUncheckedCreateWithoutMediaInput[]
+    connectOrCreate?: MediaVariantCreateOrConnectWithoutMediaInput | MediaVariantCreateOrConnectWithoutMediaInput[]
+    upsert?: MediaVariantUpsertWithWhereUniqueWithoutMediaInput | MediaVariantUpsertWithWhereUniqueWithoutMediaInput[]
+    createMany?: MediaVariantCreateManyMediaInputEnvelope
+    set?: MediaVariantWhereUniqueInput | MediaVariantWhereUniqueInput[]
+    disconnect?: MediaVariantWhereUniqueInput | MediaVariantWhereUniqueInput[]
+    delete?: MediaVariantWhereUniqueInput | MediaVariantWhereUniqueInput[]
+    connect?: MediaVariantWhereUniqueInput | MediaVariantWhereUniqueInput[]
+    update?: MediaVariantUpdateWithWhereUniqueWithoutMediaInput | MediaVariantUpdateWithWhereUniqueWithoutMediaInput[]
+    updateMany?: MediaVariantUpdateManyWithWhereWithoutMediaInput | MediaVariantUpdateManyWithWhereWithoutMediaInput[]
+    deleteMany?: MediaVariantScalarWhereInput | MediaVariantScalarWhereInput[]
+  }
+
+  export type MapUpdateManyWithoutImageMediaNestedInput = {
+    create?: XOR<MapCreateWithoutImageMediaInput, MapUncheckedCreateWithoutImageMediaInput> | MapCreateWithoutImageMediaInput[] | MapUncheckedCreateWithoutImageMediaInput[]
+    connectOrCreate?: MapCreateOrConnectWithoutImageMediaInput | MapCreateOrConnectWithoutImageMediaInput[]
+    upsert?: MapUpsertWithWhereUniqueWithoutImageMediaInput | MapUpsertWithWhereUniqueWithoutImageMediaInput[]
+    createMany?: MapCreateManyImageMediaInputEnvelope
+    set?: MapWhereUniqueInput | MapWhereUniqueInput[]
+    disconnect?: MapWhereUniqueInput | MapWhereUniqueInput[]
+    delete?: MapWhereUniqueInput | MapWhereUniqueInput[]
+    connect?: MapWhereUniqueInput | MapWhereUniqueInput[]
+    update?: MapUpdateWithWhereUniqueWithoutImageMediaInput | MapUpdateWithWhereUniqueWithoutImageMediaInput[]
+    updateMany?: MapUpdateManyWithWhereWithoutImageMediaInput | MapUpdateManyWithWhereWithoutImageMediaInput[]
+    deleteMany?: MapScalarWhereInput | MapScalarWhereInput[]
+  }
+
+  export type LevelUpdateManyWithoutImageMediaNestedInput = {
+    create?: XOR<LevelCreateWithoutImageMediaInput, LevelUncheckedCreateWithoutImageMediaInput> | LevelCreateWithoutImageMediaInput[] | LevelUncheckedCreateWithoutImageMediaInput[]
+    connectOrCreate?: LevelCreateOrConnectWithoutImageMediaInput | LevelCreateOrConnectWithoutImageMediaInput[]
+    upsert?: LevelUpsertWithWhereUniqueWithoutImageMediaInput | LevelUpsertWithWhereUniqueWithoutImageMediaInput[]
+    createMany?: LevelCreateManyImageMediaInputEnvelope
+    set?: LevelWhereUniqueInput | LevelWhereUniqueInput[]
+    disconnect?: LevelWhereUniqueInput | LevelWhereUniqueInput[]
+    delete?: LevelWhereUniqueInput | LevelWhereUniqueInput[]
+    connect?: LevelWhereUniqueInput | LevelWhereUniqueInput[]
+    update?: LevelUpdateWithWhereUniqueWithoutImageMediaInput | LevelUpdateWithWhereUniqueWithoutImageMediaInput[]
+    updateMany?: LevelUpdateManyWithWhereWithoutImageMediaInput | LevelUpdateManyWithWhereWithoutImageMediaInput[]
+    deleteMany?: LevelScalarWhereInput | LevelScalarWhereInput[]
+  }
+
+  export type ZoneUpdateManyWithoutMediaNestedInput = {
+    create?: XOR<ZoneCreateWithoutMediaInput, ZoneUncheckedCreateWithoutMediaInput> | ZoneCreateWithoutMediaInput[] | ZoneUncheckedCreateWithoutMediaInput[]
+    connectOrCreate?: ZoneCreateOrConnectWithoutMediaInput | ZoneCreateOrConnectWithoutMediaInput[]
+    upsert?: ZoneUpsertWithWhereUniqueWithoutMediaInput | ZoneUpsertWithWhereUniqueWithoutMediaInput[]
+    set?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+    disconnect?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+    delete?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+    connect?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+    update?: ZoneUpdateWithWhereUniqueWithoutMediaInput | ZoneUpdateWithWhereUniqueWithoutMediaInput[]
+    updateMany?: ZoneUpdateManyWithWhereWithoutMediaInput | ZoneUpdateManyWithWhereWithoutMediaInput[]
+    deleteMany?: ZoneScalarWhereInput | ZoneScalarWhereInput[]
+  }
+
+  export type MediaVariantUncheckedUpdateManyWithoutMediaNestedInput = {
+    create?: XOR<MediaVariantCreateWithoutMediaInput, MediaVariantUncheckedCreateWithoutMediaInput> | MediaVariantCreateWithoutMediaInput[] | MediaVariantUncheckedCreateWithoutMediaInput[]
+    connectOrCreate?: MediaVariantCreateOrConnectWithoutMediaInput | MediaVariantCreateOrConnectWithoutMediaInput[]
+    upsert?: MediaVariantUpsertWithWhereUniqueWithoutMediaInput | MediaVariantUpsertWithWhereUniqueWithoutMediaInput[]
+    createMany?: MediaVariantCreateManyMediaInputEnvelope
+    set?: MediaVariantWhereUniqueInput | MediaVariantWhereUniqueInput[]
+    disconnect?: MediaVariantWhereUniqueInput | MediaVariantWhereUniqueInput[]
+    delete?: MediaVariantWhereUniqueInput | MediaVariantWhereUniqueInput[]
+    connect?: MediaVariantWhereUniqueInput | MediaVariantWhereUniqueInput[]
+    update?: MediaVariantUpdateWithWhereUniqueWithoutMediaInput | MediaVariantUpdateWithWhereUniqueWithoutMediaInput[]
+    updateMany?: MediaVariantUpdateManyWithWhereWithoutMediaInput | MediaVariantUpdateManyWithWhereWithoutMediaInput[]
+    deleteMany?: MediaVariantScalarWhereInput | MediaVariantScalarWhereInput[]
+  }
+
+  export type MapUncheckedUpdateManyWithoutImageMediaNestedInput = {
+    create?: XOR<MapCreateWithoutImageMediaInput, MapUncheckedCreateWithoutImageMediaInput> | MapCreateWithoutImageMediaInput[] | MapUncheckedCreateWithoutImageMediaInput[]
+    connectOrCreate?: MapCreateOrConnectWithoutImageMediaInput | MapCreateOrConnectWithoutImageMediaInput[]
+    upsert?: MapUpsertWithWhereUniqueWithoutImageMediaInput | MapUpsertWithWhereUniqueWithoutImageMediaInput[]
+    createMany?: MapCreateManyImageMediaInputEnvelope
+    set?: MapWhereUniqueInput | MapWhereUniqueInput[]
+    disconnect?: MapWhereUniqueInput | MapWhereUniqueInput[]
+    delete?: MapWhereUniqueInput | MapWhereUniqueInput[]
+    connect?: MapWhereUniqueInput | MapWhereUniqueInput[]
+    update?: MapUpdateWithWhereUniqueWithoutImageMediaInput | MapUpdateWithWhereUniqueWithoutImageMediaInput[]
+    updateMany?: MapUpdateManyWithWhereWithoutImageMediaInput | MapUpdateManyWithWhereWithoutImageMediaInput[]
+    deleteMany?: MapScalarWhereInput | MapScalarWhereInput[]
+  }
+
+  export type LevelUncheckedUpdateManyWithoutImageMediaNestedInput = {
+    create?: XOR<LevelCreateWithoutImageMediaInput, LevelUncheckedCreateWithoutImageMediaInput> | LevelCreateWithoutImageMediaInput[] | LevelUncheckedCreateWithoutImageMediaInput[]
+    connectOrCreate?: LevelCreateOrConnectWithoutImageMediaInput | LevelCreateOrConnectWithoutImageMediaInput[]
+    upsert?: LevelUpsertWithWhereUniqueWithoutImageMediaInput | LevelUpsertWithWhereUniqueWithoutImageMediaInput[]
+    createMany?: LevelCreateManyImageMediaInputEnvelope
+    set?: LevelWhereUniqueInput | LevelWhereUniqueInput[]
+    disconnect?: LevelWhereUniqueInput | LevelWhereUniqueInput[]
+    delete?: LevelWhereUniqueInput | LevelWhereUniqueInput[]
+    connect?: LevelWhereUniqueInput | LevelWhereUniqueInput[]
+    update?: LevelUpdateWithWhereUniqueWithoutImageMediaInput | LevelUpdateWithWhereUniqueWithoutImageMediaInput[]
+    updateMany?: LevelUpdateManyWithWhereWithoutImageMediaInput | LevelUpdateManyWithWhereWithoutImageMediaInput[]
+    deleteMany?: LevelScalarWhereInput | LevelScalarWhereInput[]
+  }
+
+  export type ZoneUncheckedUpdateManyWithoutMediaNestedInput = {
+    create?: XOR<ZoneCreateWithoutMediaInput, ZoneUncheckedCreateWithoutMediaInput> | ZoneCreateWithoutMediaInput[] | ZoneUncheckedCreateWithoutMediaInput[]
+    connectOrCreate?: ZoneCreateOrConnectWithoutMediaInput | ZoneCreateOrConnectWithoutMediaInput[]
+    upsert?: ZoneUpsertWithWhereUniqueWithoutMediaInput | ZoneUpsertWithWhereUniqueWithoutMediaInput[]
+    set?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+    disconnect?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+    delete?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+    connect?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+    update?: ZoneUpdateWithWhereUniqueWithoutMediaInput | ZoneUpdateWithWhereUniqueWithoutMediaInput[]
+    updateMany?: ZoneUpdateManyWithWhereWithoutMediaInput | ZoneUpdateManyWithWhereWithoutMediaInput[]
+    deleteMany?: ZoneScalarWhereInput | ZoneScalarWhereInput[]
+  }
+
+  export type MediaCreateNestedOneWithoutVariantsInput = {
+    create?: XOR<MediaCreateWithoutVariantsInput, MediaUncheckedCreateWithoutVariantsInput>
+    connectOrCreate?: MediaCreateOrConnectWithoutVariantsInput
+    connect?: MediaWhereUniqueInput
+  }
+
+  export type MediaUpdateOneRequiredWithoutVariantsNestedInput = {
+    create?: XOR<MediaCreateWithoutVariantsInput, MediaUncheckedCreateWithoutVariantsInput>
+    connectOrCreate?: MediaCreateOrConnectWithoutVariantsInput
+    upsert?: MediaUpsertWithoutVariantsInput
+    connect?: MediaWhereUniqueInput
+    update?: XOR<XOR<MediaUpdateToOneWithWhereWithoutVariantsInput, MediaUpdateWithoutVariantsInput>, MediaUncheckedUpdateWithoutVariantsInput>
+  }
+
+  export type UserCreateNestedOneWithoutGeocodeJobsInput = {
+    create?: XOR<UserCreateWithoutGeocodeJobsInput, UserUncheckedCreateWithoutGeocodeJobsInput>
+    connectOrCreate?: UserCreateOrConnectWithoutGeocodeJobsInput
+    connect?: UserWhereUniqueInput
+  }
+
+  export type GeocodeJobItemCreateNestedManyWithoutJobInput = {
+    create?: XOR<GeocodeJobItemCreateWithoutJobInput, GeocodeJobItemUncheckedCreateWithoutJobInput> | GeocodeJobItemCreateWithoutJobInput[] | GeocodeJobItemUncheckedCreateWithoutJobInput[]
+    connectOrCreate?: GeocodeJobItemCreateOrConnectWithoutJobInput | GeocodeJobItemCreateOrConnectWithoutJobInput[]
+    createMany?: GeocodeJobItemCreateManyJobInputEnvelope
+    connect?: GeocodeJobItemWhereUniqueInput | GeocodeJobItemWhereUniqueInput[]
+  }
+
+  export type GeocodeJobItemUncheckedCreateNestedManyWithoutJobInput = {
+    create?: XOR<GeocodeJobItemCreateWithoutJobInput, GeocodeJobItemUncheckedCreateWithoutJobInput> | GeocodeJobItemCreateWithoutJobInput[] | GeocodeJobItemUncheckedCreateWithoutJobInput[]
+    connectOrCreate?: GeocodeJobItemCreateOrConnectWithoutJobInput | GeocodeJobItemCreateOrConnectWithoutJobInput[]
+    createMany?: GeocodeJobItemCreateManyJobInputEnvelope
+    connect?: GeocodeJobItemWhereUniqueInput | GeocodeJobItemWhereUniqueInput[]
+  }
+
+  export type UserUpdateOneRequiredWithoutGeocodeJobsNestedInput = {
+    create?: XOR<UserCreateWithoutGeocodeJobsInput, UserUncheckedCreateWithoutGeocodeJobsInput>
+    connectOrCreate?: UserCreateOrConnectWithoutGeocodeJobsInput
+    upsert?: UserUpsertWithoutGeocodeJobsInput
+    connect?: UserWhereUniqueInput
+    update?: XOR<XOR<UserUpdateToOneWithWhereWithoutGeocodeJobsInput, UserUpdateWithoutGeocodeJobsInput>, UserUncheckedUpdateWithoutGeocodeJobsInput>
+  }
+
+  export type GeocodeJobItemUpdateManyWithoutJobNestedInput = {
+    create?: XOR<GeocodeJobItemCreateWithoutJobInput, GeocodeJobItemUncheckedCreateWithoutJobInput> | GeocodeJobItemCreateWithoutJobInput[] | GeocodeJobItemUncheckedCreateWithoutJobInput[]
+    connectOrCreate?: GeocodeJobItemCreateOrConnectWithoutJobInput | GeocodeJobItemCreateOrConnectWithoutJobInput[]
+    upsert?: GeocodeJobItemUpsertWithWhereUniqueWithoutJobInput | GeocodeJobItemUpsertWithWhereUniqueWithoutJobInput[]
+    createMany?: GeocodeJobItemCreateManyJobInputEnvelope
+    set?: GeocodeJobItemWhereUniqueInput | GeocodeJobItemWhereUniqueInput[]
+    disconnect?: GeocodeJobItemWhereUniqueInput | GeocodeJobItemWhereUniqueInput[]
+    delete?: GeocodeJobItemWhereUniqueInput | GeocodeJobItemWhereUniqueInput[]
+    connect?: GeocodeJobItemWhereUniqueInput | GeocodeJobItemWhereUniqueInput[]
+    update?: GeocodeJobItemUpdateWithWhereUniqueWithoutJobInput | GeocodeJobItemUpdateWithWhereUniqueWithoutJobInput[]
+    updateMany?: GeocodeJobItemUpdateManyWithWhereWithoutJobInput | GeocodeJobItemUpdateManyWithWhereWithoutJobInput[]
+    deleteMany?: GeocodeJobItemScalarWhereInput | GeocodeJobItemScalarWhereInput[]
+  }
+
+  export type GeocodeJobItemUncheckedUpdateManyWithoutJobNestedInput = {
+    create?: XOR<GeocodeJobItemCreateWithoutJobInput, GeocodeJobItemUncheckedCreateWithoutJobInput> | GeocodeJobItemCreateWithoutJobInput[] | GeocodeJobItemUncheckedCreateWithoutJobInput[]
+    connectOrCreate?: GeocodeJobItemCreateOrConnectWithoutJobInput | GeocodeJobItemCreateOrConnectWithoutJobInput[]
+    upsert?: GeocodeJobItemUpsertWithWhereUniqueWithoutJobInput | GeocodeJobItemUpsertWithWhereUniqueWithoutJobInput[]
+    createMany?: GeocodeJobItemCreateManyJobInputEnvelope
+    set?: GeocodeJobItemWhereUniqueInput | GeocodeJobItemWhereUniqueInput[]
+    disconnect?: GeocodeJobItemWhereUniqueInput | GeocodeJobItemWhereUniqueInput[]
+    delete?: GeocodeJobItemWhereUniqueInput | GeocodeJobItemWhereUniqueInput[]
+    connect?: GeocodeJobItemWhereUniqueInput | GeocodeJobItemWhereUniqueInput[]
+    update?: GeocodeJobItemUpdateWithWhereUniqueWithoutJobInput | GeocodeJobItemUpdateWithWhereUniqueWithoutJobInput[]
+    updateMany?: GeocodeJobItemUpdateManyWithWhereWithoutJobInput | GeocodeJobItemUpdateManyWithWhereWithoutJobInput[]
+    deleteMany?: GeocodeJobItemScalarWhereInput | GeocodeJobItemScalarWhereInput[]
+  }
+
+  export type GeocodeJobCreateNestedOneWithoutItemsInput = {
+    create?: XOR<GeocodeJobCreateWithoutItemsInput, GeocodeJobUncheckedCreateWithoutItemsInput>
+    connectOrCreate?: GeocodeJobCreateOrConnectWithoutItemsInput
+    connect?: GeocodeJobWhereUniqueInput
+  }
+
+  export type NullableFloatFieldUpdateOperationsInput = {
+    set?: number | null
+    increment?: number
+    decrement?: number
+    multiply?: number
+    divide?: number
+  }
+
+  export type GeocodeJobUpdateOneRequiredWithoutItemsNestedInput = {
+    create?: XOR<GeocodeJobCreateWithoutItemsInput, GeocodeJobUncheckedCreateWithoutItemsInput>
+    connectOrCreate?: GeocodeJobCreateOrConnectWithoutItemsInput
+    upsert?: GeocodeJobUpsertWithoutItemsInput
+    connect?: GeocodeJobWhereUniqueInput
+    update?: XOR<XOR<GeocodeJobUpdateToOneWithWhereWithoutItemsInput, GeocodeJobUpdateWithoutItemsInput>, GeocodeJobUncheckedUpdateWithoutItemsInput>
+  }
+
+  export type NestedStringFilter<$PrismaModel = never> = {
+    equals?: string | StringFieldRefInput<$PrismaModel>
+    in?: string[]
+    notIn?: string[]
+    lt?: string | StringFieldRefInput<$PrismaModel>
+    lte?: string | StringFieldRefInput<$PrismaModel>
+    gt?: string | StringFieldRefInput<$PrismaModel>
+    gte?: string | StringFieldRefInput<$PrismaModel>
+    contains?: string | StringFieldRefInput<$PrismaModel>
+    startsWith?: string | StringFieldRefInput<$PrismaModel>
+    endsWith?: string | StringFieldRefInput<$PrismaModel>
+    not?: NestedStringFilter<$PrismaModel> | string
+  }
+
+  export type NestedStringNullableFilter<$PrismaModel = never> = {
+    equals?: string | StringFieldRefInput<$PrismaModel> | null
+    in?: string[] | null
+    notIn?: string[] | null
+    lt?: string | StringFieldRefInput<$PrismaModel>
+    lte?: string | StringFieldRefInput<$PrismaModel>
+    gt?: string | StringFieldRefInput<$PrismaModel>
+    gte?: string | StringFieldRefInput<$PrismaModel>
+    contains?: string | StringFieldRefInput<$PrismaModel>
+    startsWith?: string | StringFieldRefInput<$PrismaModel>
+    endsWith?: string | StringFieldRefInput<$PrismaModel>
+    not?: NestedStringNullableFilter<$PrismaModel> | string | null
+  }
+
+  export type NestedBoolFilter<$PrismaModel = never> = {
+    equals?: boolean | BooleanFieldRefInput<$PrismaModel>
+    not?: NestedBoolFilter<$PrismaModel> | boolean
+  }
+
+  export type NestedDateTimeNullableFilter<$PrismaModel = never> = {
+    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel> | null
+    in?: Date[] | string[] | null
+    notIn?: Date[] | string[] | null
+    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    not?: NestedDateTimeNullableFilter<$PrismaModel> | Date | string | null
+  }
+
+  export type NestedDateTimeFilter<$PrismaModel = never> = {
+    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    in?: Date[] | string[]
+    notIn?: Date[] | string[]
+    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    not?: NestedDateTimeFilter<$PrismaModel> | Date | string
+  }
+
+  export type NestedStringWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: string | StringFieldRefInput<$PrismaModel>
+    in?: string[]
+    notIn?: string[]
+    lt?: string | StringFieldRefInput<$PrismaModel>
+    lte?: string | StringFieldRefInput<$PrismaModel>
+    gt?: string | StringFieldRefInput<$PrismaModel>
+    gte?: string | StringFieldRefInput<$PrismaModel>
+    contains?: string | StringFieldRefInput<$PrismaModel>
+    startsWith?: string | StringFieldRefInput<$PrismaModel>
+    endsWith?: string | StringFieldRefInput<$PrismaModel>
+    not?: NestedStringWithAggregatesFilter<$PrismaModel> | string
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedStringFilter<$PrismaModel>
+    _max?: NestedStringFilter<$PrismaModel>
+  }
+
+  export type NestedIntFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel>
+    in?: number[]
+    notIn?: number[]
+    lt?: number | IntFieldRefInput<$PrismaModel>
+    lte?: number | IntFieldRefInput<$PrismaModel>
+    gt?: number | IntFieldRefInput<$PrismaModel>
+    gte?: number | IntFieldRefInput<$PrismaModel>
+    not?: NestedIntFilter<$PrismaModel> | number
+  }
+
+  export type NestedStringNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: string | StringFieldRefInput<$PrismaModel> | null
+    in?: string[] | null
+    notIn?: string[] | null
+    lt?: string | StringFieldRefInput<$PrismaModel>
+    lte?: string | StringFieldRefInput<$PrismaModel>
+    gt?: string | StringFieldRefInput<$PrismaModel>
+    gte?: string | StringFieldRefInput<$PrismaModel>
+    contains?: string | StringFieldRefInput<$PrismaModel>
+    startsWith?: string | StringFieldRefInput<$PrismaModel>
+    endsWith?: string | StringFieldRefInput<$PrismaModel>
+    not?: NestedStringNullableWithAggregatesFilter<$PrismaModel> | string | null
+    _count?: NestedIntNullableFilter<$PrismaModel>
+    _min?: NestedStringNullableFilter<$PrismaModel>
+    _max?: NestedStringNullableFilter<$PrismaModel>
+  }
+
+  export type NestedIntNullableFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel> | null
+    in?: number[] | null
+    notIn?: number[] | null
+    lt?: number | IntFieldRefInput<$PrismaModel>
+    lte?: number | IntFieldRefInput<$PrismaModel>
+    gt?: number | IntFieldRefInput<$PrismaModel>
+    gte?: number | IntFieldRefInput<$PrismaModel>
+    not?: NestedIntNullableFilter<$PrismaModel> | number | null
+  }
+
+  export type NestedBoolWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: boolean | BooleanFieldRefInput<$PrismaModel>
+    not?: NestedBoolWithAggregatesFilter<$PrismaModel> | boolean
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedBoolFilter<$PrismaModel>
+    _max?: NestedBoolFilter<$PrismaModel>
+  }
+
+  export type NestedDateTimeNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel> | null
+    in?: Date[] | string[] | null
+    notIn?: Date[] | string[] | null
+    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    not?: NestedDateTimeNullableWithAggregatesFilter<$PrismaModel> | Date | string | null
+    _count?: NestedIntNullableFilter<$PrismaModel>
+    _min?: NestedDateTimeNullableFilter<$PrismaModel>
+    _max?: NestedDateTimeNullableFilter<$PrismaModel>
+  }
+
+  export type NestedDateTimeWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    in?: Date[] | string[]
+    notIn?: Date[] | string[]
+    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
+    not?: NestedDateTimeWithAggregatesFilter<$PrismaModel> | Date | string
+    _count?: NestedIntFilter<$PrismaModel>
+    _min?: NestedDateTimeFilter<$PrismaModel>
+    _max?: NestedDateTimeFilter<$PrismaModel>
+  }
+
+  export type NestedFloatFilter<$PrismaModel = never> = {
+    equals?: number | FloatFieldRefInput<$PrismaModel>
+    in?: number[]
+    notIn?: number[]
+    lt?: number | FloatFieldRefInput<$PrismaModel>
+    lte?: number | FloatFieldRefInput<$PrismaModel>
+    gt?: number | FloatFieldRefInput<$PrismaModel>
+    gte?: number | FloatFieldRefInput<$PrismaModel>
+    not?: NestedFloatFilter<$PrismaModel> | number
+  }
+
+  export type NestedIntWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel>
+    in?: number[]
+    notIn?: number[]
+    lt?: number | IntFieldRefInput<$PrismaModel>
+    lte?: number | IntFieldRefInput<$PrismaModel>
+    gt?: number | IntFieldRefInput<$PrismaModel>
+    gte?: number | IntFieldRefInput<$PrismaModel>
+    not?: NestedIntWithAggregatesFilter<$PrismaModel> | number
+    _count?: NestedIntFilter<$PrismaModel>
+    _avg?: NestedFloatFilter<$PrismaModel>
+    _sum?: NestedIntFilter<$PrismaModel>
+    _min?: NestedIntFilter<$PrismaModel>
+    _max?: NestedIntFilter<$PrismaModel>
+  }
+
+  export type NestedFloatWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: number | FloatFieldRefInput<$PrismaModel>
+    in?: number[]
+    notIn?: number[]
+    lt?: number | FloatFieldRefInput<$PrismaModel>
+    lte?: number | FloatFieldRefInput<$PrismaModel>
+    gt?: number | FloatFieldRefInput<$PrismaModel>
+    gte?: number | FloatFieldRefInput<$PrismaModel>
+    not?: NestedFloatWithAggregatesFilter<$PrismaModel> | number
+    _count?: NestedIntFilter<$PrismaModel>
+    _avg?: NestedFloatFilter<$PrismaModel>
+    _sum?: NestedFloatFilter<$PrismaModel>
+    _min?: NestedFloatFilter<$PrismaModel>
+    _max?: NestedFloatFilter<$PrismaModel>
+  }
+
+  export type NestedIntNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: number | IntFieldRefInput<$PrismaModel> | null
+    in?: number[] | null
+    notIn?: number[] | null
+    lt?: number | IntFieldRefInput<$PrismaModel>
+    lte?: number | IntFieldRefInput<$PrismaModel>
+    gt?: number | IntFieldRefInput<$PrismaModel>
+    gte?: number | IntFieldRefInput<$PrismaModel>
+    not?: NestedIntNullableWithAggregatesFilter<$PrismaModel> | number | null
+    _count?: NestedIntNullableFilter<$PrismaModel>
+    _avg?: NestedFloatNullableFilter<$PrismaModel>
+    _sum?: NestedIntNullableFilter<$PrismaModel>
+    _min?: NestedIntNullableFilter<$PrismaModel>
+    _max?: NestedIntNullableFilter<$PrismaModel>
+  }
+
+  export type NestedFloatNullableFilter<$PrismaModel = never> = {
+    equals?: number | FloatFieldRefInput<$PrismaModel> | null
+    in?: number[] | null
+    notIn?: number[] | null
+    lt?: number | FloatFieldRefInput<$PrismaModel>
+    lte?: number | FloatFieldRefInput<$PrismaModel>
+    gt?: number | FloatFieldRefInput<$PrismaModel>
+    gte?: number | FloatFieldRefInput<$PrismaModel>
+    not?: NestedFloatNullableFilter<$PrismaModel> | number | null
+  }
+
+  export type NestedFloatNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: number | FloatFieldRefInput<$PrismaModel> | null
+    in?: number[] | null
+    notIn?: number[] | null
+    lt?: number | FloatFieldRefInput<$PrismaModel>
+    lte?: number | FloatFieldRefInput<$PrismaModel>
+    gt?: number | FloatFieldRefInput<$PrismaModel>
+    gte?: number | FloatFieldRefInput<$PrismaModel>
+    not?: NestedFloatNullableWithAggregatesFilter<$PrismaModel> | number | null
+    _count?: NestedIntNullableFilter<$PrismaModel>
+    _avg?: NestedFloatNullableFilter<$PrismaModel>
+    _sum?: NestedFloatNullableFilter<$PrismaModel>
+    _min?: NestedFloatNullableFilter<$PrismaModel>
+    _max?: NestedFloatNullableFilter<$PrismaModel>
+  }
+
+  export type MediaCreateWithoutMapsInput = {
+    id?: string
+    hash: string
+    mimeType: string
+    size: number
+    storageKey: string
+    width?: number | null
+    height?: number | null
+    tilesKey?: string | null
+    tileSize?: number | null
+    tileMinLevel?: number | null
+    tileMaxLevel?: number | null
+    createdAt?: Date | string
+    variants?: MediaVariantCreateNestedManyWithoutMediaInput
+    levels?: LevelCreateNestedManyWithoutImageMediaInput
+    zones?: ZoneCreateNestedManyWithoutMediaInput
+  }
+
+  export type MediaUncheckedCreateWithoutMapsInput = {
+    id?: string
+    hash: string
+    mimeType: string
+    size: number
+    storageKey: string
+    width?: number | null
+    height?: number | null
+    tilesKey?: string | null
+    tileSize?: number | null
+    tileMinLevel?: number | null
+    tileMaxLevel?: number | null
+    createdAt?: Date | string
+    variants?: MediaVariantUncheckedCreateNestedManyWithoutMediaInput
+    levels?: LevelUncheckedCreateNestedManyWithoutImageMediaInput
+    zones?: ZoneUncheckedCreateNestedManyWithoutMediaInput
+  }
+
+  export type MediaCreateOrConnectWithoutMapsInput = {
+    where: MediaWhereUniqueInput
+    create: XOR<MediaCreateWithoutMapsInput, MediaUncheckedCreateWithoutMapsInput>
+  }
+
+  export type LevelCreateWithoutMapInput = {
+    id?: string
+    name: string
+    ordinal: number
+    imageUrl?: string | null
+    tiles?: string | null
+    elevation?: number
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    imageMedia?: MediaCreateNestedOneWithoutLevelsInput
+    zones?: ZoneCreateNestedManyWithoutLevelInput
+  }
+
+  export type LevelUncheckedCreateWithoutMapInput = {
+    id?: string
+    name: string
+    ordinal: number
+    imageUrl?: string | null
+    imageMediaId?: string | null
+    tiles?: string | null
+    elevation?: number
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    zones?: ZoneUncheckedCreateNestedManyWithoutLevelInput
+  }
+
+  export type LevelCreateOrConnectWithoutMapInput = {
+    where: LevelWhereUniqueInput
+    create: XOR<LevelCreateWithoutMapInput, LevelUncheckedCreateWithoutMapInput>
+  }
+
+  export type LevelCreateManyMapInputEnvelope = {
+    data: LevelCreateManyMapInput | LevelCreateManyMapInput[]
+  }
+
+  export type ZoneCreateWithoutMapInput = {
+    id?: string
+    type: string
+    coordinates: string
+    content: string
+    style?: string | null
+    category?: string | null
+    externalId?: string | null
+    importedValues?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    level?: LevelCreateNestedOneWithoutZonesInput
+    media?: MediaCreateNestedManyWithoutZonesInput
+  }
+
+  export type ZoneUncheckedCreateWithoutMapInput = {
+    id?: string
+    type: string
+    coordinates: string
+    content: string
+    style?: string | null
+    category?: string | null
+    levelId?: string | null
+    externalId?: string | null
+    importedValues?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    media?: MediaUncheckedCreateNestedManyWithoutZonesInput
+  }
+
+  export type ZoneCreateOrConnectWithoutMapInput = {
+    where: ZoneWhereUniqueInput
+    create: XOR<ZoneCreateWithoutMapInput, ZoneUncheckedCreateWithoutMapInput>
+  }
+
+  export type ZoneCreateManyMapInputEnvelope = {
+    data: ZoneCreateManyMapInput | ZoneCreateManyMapInput[]
+  }
+
+  export type MapRevisionCreateWithoutMapInput = {
+    id?: string
+    snapshot: string
+    author?: string | null
+    message?: string | null
+    createdAt?: Date | string
+  }
+
+  export type MapRevisionUncheckedCreateWithoutMapInput = {
+    id?: string
+    snapshot: string
+    author?: string | null
+    message?: string | null
+    createdAt?: Date | string
+  }
+
+  export type MapRevisionCreateOrConnectWithoutMapInput = {
+    where: MapRevisionWhereUniqueInput
+    create: XOR<MapRevisionCreateWithoutMapInput, MapRevisionUncheckedCreateWithoutMapInput>
+  }
+
+  export type MapRevisionCreateManyMapInputEnvelope = {
+    data: MapRevisionCreateManyMapInput | MapRevisionCreateManyMapInput[]
+  }
+
+  export type MapMemberCreateWithoutMapInput = {
+    id?: string
+    role: string
+    createdAt?: Date | string
+    user: UserCreateNestedOneWithoutMembershipsInput
+  }
+
+  export type MapMemberUncheckedCreateWithoutMapInput = {
+    id?: string
+    userId: string
+    role: string
+    createdAt?: Date | string
+  }
+
+  export type MapMemberCreateOrConnectWithoutMapInput = {
+    where: MapMemberWhereUniqueInput
+    create: XOR<MapMemberCreateWithoutMapInput, MapMemberUncheckedCreateWithoutMapInput>
+  }
+
+  export type MapMemberCreateManyMapInputEnvelope = {
+    data: MapMemberCreateManyMapInput | MapMemberCreateManyMapInput[]
+  }
+
+  export type MediaUpsertWithoutMapsInput = {
+    update: XOR<MediaUpdateWithoutMapsInput, MediaUncheckedUpdateWithoutMapsInput>
+    create: XOR<MediaCreateWithoutMapsInput, MediaUncheckedCreateWithoutMapsInput>
+    where?: MediaWhereInput
+  }
+
+  export type MediaUpdateToOneWithWhereWithoutMapsInput = {
+    where?: MediaWhereInput
+    data: XOR<MediaUpdateWithoutMapsInput, MediaUncheckedUpdateWithoutMapsInput>
+  }
+
+  export type MediaUpdateWithoutMapsInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    hash?: StringFieldUpdateOperationsInput | string
+    mimeType?: StringFieldUpdateOperationsInput | string
+    size?: IntFieldUpdateOperationsInput | number
+    storageKey?: StringFieldUpdateOperationsInput | string
+    width?: NullableIntFieldUpdateOperationsInput | number | null
+    height?: NullableIntFieldUpdateOperationsInput | number | null
+    tilesKey?: NullableStringFieldUpdateOperationsInput | string | null
+    tileSize?: NullableIntFieldUpdateOperationsInput | number | null
+    tileMinLevel?: NullableIntFieldUpdateOperationsInput | number | null
+    tileMaxLevel?: NullableIntFieldUpdateOperationsInput | number | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    variants?: MediaVariantUpdateManyWithoutMediaNestedInput
+    levels?: LevelUpdateManyWithoutImageMediaNestedInput
+    zones?: ZoneUpdateManyWithoutMediaNestedInput
+  }
+
+  export type MediaUncheckedUpdateWithoutMapsInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    hash?: StringFieldUpdateOperationsInput | string
+    mimeType?: StringFieldUpdateOperationsInput | string
+    size?: IntFieldUpdateOperationsInput | number
+    storageKey?: StringFieldUpdateOperationsInput | string
+    width?: NullableIntFieldUpdateOperationsInput | number | null
+    height?: NullableIntFieldUpdateOperationsInput | number | null
+    tilesKey?: NullableStringFieldUpdateOperationsInput | string | null
+    tileSize?: NullableIntFieldUpdateOperationsInput | number | null
+    tileMinLevel?: NullableIntFieldUpdateOperationsInput | number | null
+    tileMaxLevel?: NullableIntFieldUpdateOperationsInput | number | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    variants?: MediaVariantUncheckedUpdateManyWithoutMediaNestedInput
+    levels?: LevelUncheckedUpdateManyWithoutImageMediaNestedInput
+    zones?: ZoneUncheckedUpdateManyWithoutMediaNestedInput
+  }
+
+  export type LevelUpsertWithWhereUniqueWithoutMapInput = {
+    where: LevelWhereUniqueInput
+    update: XOR<LevelUpdateWithoutMapInput, LevelUncheckedUpdateWithoutMapInput>
+    create: XOR<LevelCreateWithoutMapInput, LevelUncheckedCreateWithoutMapInput>
+  }
+
+  export type LevelUpdateWithWhereUniqueWithoutMapInput = {
+    where: LevelWhereUniqueInput
+    data: XOR<LevelUpdateWithoutMapInput, LevelUncheckedUpdateWithoutMapInput>
+  }
+
+  export type LevelUpdateManyWithWhereWithoutMapInput = {
+    where: LevelScalarWhereInput
+    data: XOR<LevelUpdateManyMutationInput, LevelUncheckedUpdateManyWithoutMapInput>
+  }
+
+  export type LevelScalarWhereInput = {
+    AND?: LevelScalarWhereInput | LevelScalarWhereInput[]
+    OR?: LevelScalarWhereInput[]
+    NOT?: LevelScalarWhereInput | LevelScalarWhereInput[]
+    id?: StringFilter<"Level"> | string
+    mapId?: StringFilter<"Level"> | string
+    name?: StringFilter<"Level"> | string
+    ordinal?: IntFilter<"Level"> | number
+    imageUrl?: StringNullableFilter<"Level"> | string | null
+    imageMediaId?: StringNullableFilter<"Level"> | string | null
+    tiles?: StringNullableFilter<"Level"> | string | null
+    elevation?: FloatFilter<"Level"> | number
+    createdAt?: DateTimeFilter<"Level"> | Date | string
+    updatedAt?: DateTimeFilter<"Level"> | Date | string
+  }
+
+  export type ZoneUpsertWithWhereUniqueWithoutMapInput = {
+    where: ZoneWhereUniqueInput
+    update: XOR<ZoneUpdateWithoutMapInput, ZoneUncheckedUpdateWithoutMapInput>
+    create: XOR<ZoneCreateWithoutMapInput, ZoneUncheckedCreateWithoutMapInput>
+  }
+
+  export type ZoneUpdateWithWhereUniqueWithoutMapInput = {
+    where: ZoneWhereUniqueInput
+    data: XOR<ZoneUpdateWithoutMapInput, ZoneUncheckedUpdateWithoutMapInput>
+  }
+
+  export type ZoneUpdateManyWithWhereWithoutMapInput = {
+    where: ZoneScalarWhereInput
+    data: XOR<ZoneUpdateManyMutationInput, ZoneUncheckedUpdateManyWithoutMapInput>
+  }
+
+  export type ZoneScalarWhereInput = {
+    AND?: ZoneScalarWhereInput | ZoneScalarWhereInput[]
+    OR?: ZoneScalarWhereInput[]
+    NOT?: ZoneScalarWhereInput | ZoneScalarWhereInput[]
+    id?: StringFilter<"Zone"> | string
+    mapId?: StringFilter<"Zone"> | string
+    type?: StringFilter<"Zone"> | string
+    coordinates?: StringFilter<"Zone"> | string
+    content?: StringFilter<"Zone"> | string
+    style?: StringNullableFilter<"Zone"> | string | null
+    category?: StringNullableFilter<"Zone"> | string | null
+    levelId?: StringNullableFilter<"Zone"> | string | null
+    externalId?: StringNullableFilter<"Zone"> | string | null
+    importedValues?: StringNullableFilter<"Zone"> | string | null
+    createdAt?: DateTimeFilter<"Zone"> | Date | string
+    updatedAt?: DateTimeFilter<"Zone"> | Date | string
+  }
+
+  export type MapRevisionUpsertWithWhereUniqueWithoutMapInput = {
+    where: MapRevisionWhereUniqueInput
+    update: XOR<MapRevisionUpdateWithoutMapInput, MapRevisionUncheckedUpdateWithoutMapInput>
+    create: XOR<MapRevisionCreateWithoutMapInput, MapRevisionUncheckedCreateWithoutMapInput>
+  }
+
+  export type MapRevisionUpdateWithWhereUniqueWithoutMapInput = {
+    where: MapRevisionWhereUniqueInput
+    data: XOR<MapRevisionUpdateWithoutMapInput, MapRevisionUncheckedUpdateWithoutMapInput>
+  }
+
+  export type MapRevisionUpdateManyWithWhereWithoutMapInput = {
+    where: MapRevisionScalarWhereInput
+    data: XOR<MapRevisionUpdateManyMutationInput, MapRevisionUncheckedUpdateManyWithoutMapInput>
+  }
+
+  export type MapRevisionScalarWhereInput = {
+    AND?: MapRevisionScalarWhereInput | MapRevisionScalarWhereInput[]
+    OR?: MapRevisionScalarWhereInput[]
+    NOT?: MapRevisionScalarWhereInput | MapRevisionScalarWhereInput[]
+    id?: StringFilter<"MapRevision"> | string
+    mapId?: StringFilter<"MapRevision"> | string
+    snapshot?: StringFilter<"MapRevision"> | string
+    author?: StringNullableFilter<"MapRevision"> | string | null
+    message?: StringNullableFilter<"MapRevision"> | string | null
+    createdAt?: DateTimeFilter<"MapRevision"> | Date | string
+  }
+
+  export type MapMemberUpsertWithWhereUniqueWithoutMapInput = {
+    where: MapMemberWhereUniqueInput
+    update: XOR<MapMemberUpdateWithoutMapInput, MapMemberUncheckedUpdateWithoutMapInput>
+    create: XOR<MapMemberCreateWithoutMapInput, MapMemberUncheckedCreateWithoutMapInput>
+  }
+
+  export type MapMemberUpdateWithWhereUniqueWithoutMapInput = {
+    where: MapMemberWhereUniqueInput
+    data: XOR<MapMemberUpdateWithoutMapInput, MapMemberUncheckedUpdateWithoutMapInput>
+  }
+
+  export type MapMemberUpdateManyWithWhereWithoutMapInput = {
+    where: MapMemberScalarWhereInput
+    data: XOR<MapMemberUpdateManyMutationInput, MapMemberUncheckedUpdateManyWithoutMapInput>
+  }
+
+  export type MapMemberScalarWhereInput = {
+    AND?: MapMemberScalarWhereInput | MapMemberScalarWhereInput[]
+    OR?: MapMemberScalarWhereInput[]
+    NOT?: MapMemberScalarWhereInput | MapMemberScalarWhereInput[]
+    id?: StringFilter<"MapMember"> | string
+    mapId?: StringFilter<"MapMember"> | string
+    userId?: StringFilter<"MapMember"> | string
+    role?: StringFilter<"MapMember"> | string
+    createdAt?: DateTimeFilter<"MapMember"> | Date | string
+  }
+
+  export type MapCreateWithoutZonesInput = {
+    id?: string
+    title: string
+    description?: string | null
+    geographicBounds?: string | null
+    canvasConfig: string
+    imageUrl?: string | null
+    useBaseMap?: boolean
+    published?: boolean
+    publishedSnapshot?: string | null
+    publishedAt?: Date | string | null
+    categories?: string | null
+    aiNavigatorEnabled?: boolean
+    aiNavigatorPrompt?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    imageMedia?: MediaCreateNestedOneWithoutMapsInput
+    levels?: LevelCreateNestedManyWithoutMapInput
+    revisions?: MapRevisionCreateNestedManyWithoutMapInput
+    members?: MapMemberCreateNestedManyWithoutMapInput
+  }
+
+  export type MapUncheckedCreateWithoutZonesInput = {
+    id?: string
+    title: string
+    description?: string | null
+    geographicBounds?: string | null
+    canvasConfig: string
+    imageUrl?: string | null
+    imageMediaId?: string | null
+    useBaseMap?: boolean
+    published?: boolean
+    publishedSnapshot?: string | null
+    publishedAt?: Date | string | null
+    categories?: string | null
+    aiNavigatorEnabled?: boolean
+    aiNavigatorPrompt?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    levels?: LevelUncheckedCreateNestedManyWithoutMapInput
+    revisions?: MapRevisionUncheckedCreateNestedManyWithoutMapInput
+    members?: MapMemberUncheckedCreateNestedManyWithoutMapInput
+  }
+
+  export type MapCreateOrConnectWithoutZonesInput = {
+    where: MapWhereUniqueInput
+    create: XOR<MapCreateWithoutZonesInput, MapUncheckedCreateWithoutZonesInput>
+  }
+
+  export type LevelCreateWithoutZonesInput = {
+    id?: string
+    name: string
+    ordinal: number
+    imageUrl?: string | null
+    tiles?: string | null
+    elevation?: number
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    map: MapCreateNestedOneWithoutLevelsInput
+    imageMedia?: MediaCreateNestedOneWithoutLevelsInput
+  }
+
+  export type LevelUncheckedCreateWithoutZonesInput = {
+    id?: string
+    mapId: string
+    name: string
+    ordinal: number
+    imageUrl?: string | null
+    imageMediaId?: string | null
+    tiles?: string | null
+    elevation?: number
+    createdAt?: Date | string
+    updatedAt?: Date | string
+  }
+
+  export type LevelCreateOrConnectWithoutZonesInput = {
+    where: LevelWhereUniqueInput
+    create: XOR<LevelCreateWithoutZonesInput, LevelUncheckedCreateWithoutZonesInput>
+  }
+
+  export type MediaCreateWithoutZonesInput = {
+    id?: string
+    hash: string
+    mimeType: string
+    size: number
+    storageKey: string
+    width?: number | null
+    height?: number | null
+    tilesKey?: string | null
+    tileSize?: number | null
+    tileMinLevel?: number | null
+    tileMaxLevel?: number | null
+    createdAt?: Date | string
+    variants?: MediaVariantCreateNestedManyWithoutMediaInput
+    maps?: MapCreateNestedManyWithoutImageMediaInput
+    levels?: LevelCreateNestedManyWithoutImageMediaInput
+  }
+
+  export type MediaUncheckedCreateWithoutZonesInput = {
+    id?: string
+    hash: string
+    mimeType: string
+    size: number
+    storageKey: string
+    width?: number | null
+    height?: number | null
+    tilesKey?: string | null
+    tileSize?: number | null
+    tileMinLevel?: number | null
+    tileMaxLevel?: number | null
+    createdAt?: Date | string
+    variants?: MediaVariantUncheckedCreateNestedManyWithoutMediaInput
+    maps?: MapUncheckedCreateNestedManyWithoutImageMediaInput
+    levels?: LevelUncheckedCreateNestedManyWithoutImageMediaInput
+  }
+
+  export type MediaCreateOrConnectWithoutZonesInput = {
+    where: MediaWhereUniqueInput
+    create: XOR<MediaCreateWithoutZonesInput, MediaUncheckedCreateWithoutZonesInput>
+  }
+
+  export type MapUpsertWithoutZonesInput = {
+    update: XOR<MapUpdateWithoutZonesInput, MapUncheckedUpdateWithoutZonesInput>
+    create: XOR<MapCreateWithoutZonesInput, MapUncheckedCreateWithoutZonesInput>
+    where?: MapWhereInput
+  }
+
+  export type MapUpdateToOneWithWhereWithoutZonesInput = {
+    where?: MapWhereInput
+    data: XOR<MapUpdateWithoutZonesInput, MapUncheckedUpdateWithoutZonesInput>
+  }
 
-  export const ZoneScalarFieldEnum: {
-    id: 'id',
-    mapId: 'mapId',
-    type: 'type',
-    coordinates: 'coordinates',
-    content: 'content',
-    style: 'style',
-    createdAt: 'createdAt',
-    updatedAt: 'updatedAt'
-  };
+  export type MapUpdateWithoutZonesInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    title?: StringFieldUpdateOperationsInput | string
+    description?: NullableStringFieldUpdateOperationsInput | string | null
+    geographicBounds?: NullableStringFieldUpdateOperationsInput | string | null
+    canvasConfig?: StringFieldUpdateOperationsInput | string
+    imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    useBaseMap?: BoolFieldUpdateOperationsInput | boolean
+    published?: BoolFieldUpdateOperationsInput | boolean
+    publishedSnapshot?: NullableStringFieldUpdateOperationsInput | string | null
+    publishedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    categories?: NullableStringFieldUpdateOperationsInput | string | null
+    aiNavigatorEnabled?: BoolFieldUpdateOperationsInput | boolean
+    aiNavigatorPrompt?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    imageMedia?: MediaUpdateOneWithoutMapsNestedInput
+    levels?: LevelUpdateManyWithoutMapNestedInput
+    revisions?: MapRevisionUpdateManyWithoutMapNestedInput
+    members?: MapMemberUpdateManyWithoutMapNestedInput
+  }
 
-  export type ZoneScalarFieldEnum = (typeof ZoneScalarFieldEnum)[keyof typeof ZoneScalarFieldEnum]
+  export type MapUncheckedUpdateWithoutZonesInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    title?: StringFieldUpdateOperationsInput | string
+    description?: NullableStringFieldUpdateOperationsInput | string | null
+    geographicBounds?: NullableStringFieldUpdateOperationsInput | string | null
+    canvasConfig?: StringFieldUpdateOperationsInput | string
+    imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    imageMediaId?: NullableStringFieldUpdateOperationsInput | string | null
+    useBaseMap?: BoolFieldUpdateOperationsInput | boolean
+    published?: BoolFieldUpdateOperationsInput | boolean
+    publishedSnapshot?: NullableStringFieldUpdateOperationsInput | string | null
+    publishedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    categories?: NullableStringFieldUpdateOperationsInput | string | null
+    aiNavigatorEnabled?: BoolFieldUpdateOperationsInput | boolean
+    aiNavigatorPrompt?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    levels?: LevelUncheckedUpdateManyWithoutMapNestedInput
+    revisions?: MapRevisionUncheckedUpdateManyWithoutMapNestedInput
+    members?: MapMemberUncheckedUpdateManyWithoutMapNestedInput
+  }
 
+  export type LevelUpsertWithoutZonesInput = {
+    update: XOR<LevelUpdateWithoutZonesInput, LevelUncheckedUpdateWithoutZonesInput>
+    create: XOR<LevelCreateWithoutZonesInput, LevelUncheckedCreateWithoutZonesInput>
+    where?: LevelWhereInput
+  }
 
-  export const SortOrder: {
-    asc: 'asc',
-    desc: 'desc'
-  };
+  export type LevelUpdateToOneWithWhereWithoutZonesInput = {
+    where?: LevelWhereInput
+    data: XOR<LevelUpdateWithoutZonesInput, LevelUncheckedUpdateWithoutZonesInput>
+  }
 
-  export type SortOrder = (typeof SortOrder)[keyof typeof SortOrder]
+  export type LevelUpdateWithoutZonesInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    ordinal?: IntFieldUpdateOperationsInput | number
+    imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    tiles?: NullableStringFieldUpdateOperationsInput | string | null
+    elevation?: FloatFieldUpdateOperationsInput | number
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    map?: MapUpdateOneRequiredWithoutLevelsNestedInput
+    imageMedia?: MediaUpdateOneWithoutLevelsNestedInput
+  }
 
+  export type LevelUncheckedUpdateWithoutZonesInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    mapId?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    ordinal?: IntFieldUpdateOperationsInput | number
+    imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    imageMediaId?: NullableStringFieldUpdateOperationsInput | string | null
+    tiles?: NullableStringFieldUpdateOperationsInput | string | null
+    elevation?: FloatFieldUpdateOperationsInput | number
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
 
-  export const NullsOrder: {
-    first: 'first',
-    last: 'last'
-  };
+  export type MediaUpsertWithWhereUniqueWithoutZonesInput = {
+    where: MediaWhereUniqueInput
+    update: XOR<MediaUpdateWithoutZonesInput, MediaUncheckedUpdateWithoutZonesInput>
+    create: XOR<MediaCreateWithoutZonesInput, MediaUncheckedCreateWithoutZonesInput>
+  }
 
-  export type NullsOrder = (typeof NullsOrder)[keyof typeof NullsOrder]
+  export type MediaUpdateWithWhereUniqueWithoutZonesInput = {
+    where: MediaWhereUniqueInput
+    data: XOR<MediaUpdateWithoutZonesInput, MediaUncheckedUpdateWithoutZonesInput>
+  }
 
+  export type MediaUpdateManyWithWhereWithoutZonesInput = {
+    where: MediaScalarWhereInput
+    data: XOR<MediaUpdateManyMutationInput, MediaUncheckedUpdateManyWithoutZonesInput>
+  }
 
-  /**
-   * Field references
-   */
+  export type MediaScalarWhereInput = {
+    AND?: MediaScalarWhereInput | MediaScalarWhereInput[]
+    OR?: MediaScalarWhereInput[]
+    NOT?: MediaScalarWhereInput | MediaScalarWhereInput[]
+    id?: StringFilter<"Media"> | string
+    hash?: StringFilter<"Media"> | string
+    mimeType?: StringFilter<"Media"> | string
+    size?: IntFilter<"Media"> | number
+    storageKey?: StringFilter<"Media"> | string
+    width?: IntNullableFilter<"Media"> | number | null
+    height?: IntNullableFilter<"Media"> | number | null
+    tilesKey?: StringNullableFilter<"Media"> | string | null
+    tileSize?: IntNullableFilter<"Media"> | number | null
+    tileMinLevel?: IntNullableFilter<"Media"> | number | null
+    tileMaxLevel?: IntNullableFilter<"Media"> | number | null
+    createdAt?: DateTimeFilter<"Media"> | Date | string
+  }
 
+  export type MapCreateWithoutLevelsInput = {
+    id?: string
+    title: string
+    description?: string | null
+    geographicBounds?: string | null
+    canvasConfig: string
+    imageUrl?: string | null
+    useBaseMap?: boolean
+    published?: boolean
+    publishedSnapshot?: string | null
+    publishedAt?: Date | string | null
+    categories?: string | null
+    aiNavigatorEnabled?: boolean
+    aiNavigatorPrompt?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    imageMedia?: MediaCreateNestedOneWithoutMapsInput
+    zones?: ZoneCreateNestedManyWithoutMapInput
+    revisions?: MapRevisionCreateNestedManyWithoutMapInput
+    members?: MapMemberCreateNestedManyWithoutMapInput
+  }
 
-  /**
-   * Reference to a field of type 'String'
-   */
-  export type StringFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'String'>
-    
+  export type MapUncheckedCreateWithoutLevelsInput = {
+    id?: string
+    title: string
+    description?: string | null
+    geographicBounds?: string | null
+    canvasConfig: string
+    imageUrl?: string | null
+    imageMediaId?: string | null
+    useBaseMap?: boolean
+    published?: boolean
+    publishedSnapshot?: string | null
+    publishedAt?: Date | string | null
+    categories?: string | null
+    aiNavigatorEnabled?: boolean
+    aiNavigatorPrompt?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    zones?: ZoneUncheckedCreateNestedManyWithoutMapInput
+    revisions?: MapRevisionUncheckedCreateNestedManyWithoutMapInput
+    members?: MapMemberUncheckedCreateNestedManyWithoutMapInput
+  }
+
+  export type MapCreateOrConnectWithoutLevelsInput = {
+    where: MapWhereUniqueInput
+    create: XOR<MapCreateWithoutLevelsInput, MapUncheckedCreateWithoutLevelsInput>
+  }
+
+  export type MediaCreateWithoutLevelsInput = {
+    id?: string
+    hash: string
+    mimeType: string
+    size: number
+    storageKey: string
+    width?: number | null
+    height?: number | null
+    tilesKey?: string | null
+    tileSize?: number | null
+    tileMinLevel?: number | null
+    tileMaxLevel?: number | null
+    createdAt?: Date | string
+    variants?: MediaVariantCreateNestedManyWithoutMediaInput
+    maps?: MapCreateNestedManyWithoutImageMediaInput
+    zones?: ZoneCreateNestedManyWithoutMediaInput
+  }
+
+  export type MediaUncheckedCreateWithoutLevelsInput = {
+    id?: string
+    hash: string
+    mimeType: string
+    size: number
+    storageKey: string
+    width?: number | null
+    height?: number | null
+    tilesKey?: string | null
+    tileSize?: number | null
+    tileMinLevel?: number | null
+    tileMaxLevel?: number | null
+    createdAt?: Date | string
+    variants?: MediaVariantUncheckedCreateNestedManyWithoutMediaInput
+    maps?: MapUncheckedCreateNestedManyWithoutImageMediaInput
+    zones?: ZoneUncheckedCreateNestedManyWithoutMediaInput
+  }
+
+  export type MediaCreateOrConnectWithoutLevelsInput = {
+    where: MediaWhereUniqueInput
+    create: XOR<MediaCreateWithoutLevelsInput, MediaUncheckedCreateWithoutLevelsInput>
+  }
+
+  export type ZoneCreateWithoutLevelInput = {
+    id?: string
+    type: string
+    coordinates: string
+    content: string
+    style?: string | null
+    category?: string | null
+    externalId?: string | null
+    importedValues?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    map: MapCreateNestedOneWithoutZonesInput
+    media?: MediaCreateNestedManyWithoutZonesInput
+  }
+
+  export type ZoneUncheckedCreateWithoutLevelInput = {
+    id?: string
+    mapId: string
+    type: string
+    coordinates: string
+    content: string
+    style?: string | null
+    category?: string | null
+    externalId?: string | null
+    importedValues?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    media?: MediaUncheckedCreateNestedManyWithoutZonesInput
+  }
+
+  export type ZoneCreateOrConnectWithoutLevelInput = {
+    where: ZoneWhereUniqueInput
+    create: XOR<ZoneCreateWithoutLevelInput, ZoneUncheckedCreateWithoutLevelInput>
+  }
+
+  export type ZoneCreateManyLevelInputEnvelope = {
+    data: ZoneCreateManyLevelInput | ZoneCreateManyLevelInput[]
+  }
+
+  export type MapUpsertWithoutLevelsInput = {
+    update: XOR<MapUpdateWithoutLevelsInput, MapUncheckedUpdateWithoutLevelsInput>
+    create: XOR<MapCreateWithoutLevelsInput, MapUncheckedCreateWithoutLevelsInput>
+    where?: MapWhereInput
+  }
+
+  export type MapUpdateToOneWithWhereWithoutLevelsInput = {
+    where?: MapWhereInput
+    data: XOR<MapUpdateWithoutLevelsInput, MapUncheckedUpdateWithoutLevelsInput>
+  }
+
+  export type MapUpdateWithoutLevelsInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    title?: StringFieldUpdateOperationsInput | string
+    description?: NullableStringFieldUpdateOperationsInput | string | null
+    geographicBounds?: NullableStringFieldUpdateOperationsInput | string | null
+    canvasConfig?: StringFieldUpdateOperationsInput | string
+    imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    useBaseMap?: BoolFieldUpdateOperationsInput | boolean
+    published?: BoolFieldUpdateOperationsInput | boolean
+    publishedSnapshot?: NullableStringFieldUpdateOperationsInput | string | null
+    publishedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    categories?: NullableStringFieldUpdateOperationsInput | string | null
+    aiNavigatorEnabled?: BoolFieldUpdateOperationsInput | boolean
+    aiNavigatorPrompt?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    imageMedia?: MediaUpdateOneWithoutMapsNestedInput
+    zones?: ZoneUpdateManyWithoutMapNestedInput
+    revisions?: MapRevisionUpdateManyWithoutMapNestedInput
+    members?: MapMemberUpdateManyWithoutMapNestedInput
+  }
+
+  export type MapUncheckedUpdateWithoutLevelsInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    title?: StringFieldUpdateOperationsInput | string
+    description?: NullableStringFieldUpdateOperationsInput | string | null
+    geographicBounds?: NullableStringFieldUpdateOperationsInput | string | null
+    canvasConfig?: StringFieldUpdateOperationsInput | string
+    imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    imageMediaId?: NullableStringFieldUpdateOperationsInput | string | null
+    useBaseMap?: BoolFieldUpdateOperationsInput | boolean
+    published?: BoolFieldUpdateOperationsInput | boolean
+    publishedSnapshot?: NullableStringFieldUpdateOperationsInput | string | null
+    publishedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    categories?: NullableStringFieldUpdateOperationsInput | string | null
+    aiNavigatorEnabled?: BoolFieldUpdateOperationsInput | boolean
+    aiNavigatorPrompt?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    zones?: ZoneUncheckedUpdateManyWithoutMapNestedInput
+    revisions?: MapRevisionUncheckedUpdateManyWithoutMapNestedInput
+    members?: MapMemberUncheckedUpdateManyWithoutMapNestedInput
+  }
+
+  export type MediaUpsertWithoutLevelsInput = {
+    update: XOR<MediaUpdateWithoutLevelsInput, MediaUncheckedUpdateWithoutLevelsInput>
+    create: XOR<MediaCreateWithoutLevelsInput, MediaUncheckedCreateWithoutLevelsInput>
+    where?: MediaWhereInput
+  }
+
+  export type MediaUpdateToOneWithWhereWithoutLevelsInput = {
+    where?: MediaWhereInput
+    data: XOR<MediaUpdateWithoutLevelsInput, MediaUncheckedUpdateWithoutLevelsInput>
+  }
+
+  export type MediaUpdateWithoutLevelsInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    hash?: StringFieldUpdateOperationsInput | string
+    mimeType?: StringFieldUpdateOperationsInput | string
+    size?: IntFieldUpdateOperationsInput | number
+    storageKey?: StringFieldUpdateOperationsInput | string
+    width?: NullableIntFieldUpdateOperationsInput | number | null
+    height?: NullableIntFieldUpdateOperationsInput | number | null
+    tilesKey?: NullableStringFieldUpdateOperationsInput | string | null
+    tileSize?: NullableIntFieldUpdateOperationsInput | number | null
+    tileMinLevel?: NullableIntFieldUpdateOperationsInput | number | null
+    tileMaxLevel?: NullableIntFieldUpdateOperationsInput | number | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    variants?: MediaVariantUpdateManyWithoutMediaNestedInput
+    maps?: MapUpdateManyWithoutImageMediaNestedInput
+    zones?: ZoneUpdateManyWithoutMediaNestedInput
+  }
+
+  export type MediaUncheckedUpdateWithoutLevelsInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    hash?: StringFieldUpdateOperationsInput | string
+    mimeType?: StringFieldUpdateOperationsInput | string
+    size?: IntFieldUpdateOperationsInput | number
+    storageKey?: StringFieldUpdateOperationsInput | string
+    width?: NullableIntFieldUpdateOperationsInput | number | null
+    height?: NullableIntFieldUpdateOperationsInput | number | null
+    tilesKey?: NullableStringFieldUpdateOperationsInput | string | null
+    tileSize?: NullableIntFieldUpdateOperationsInput | number | null
+    tileMinLevel?: NullableIntFieldUpdateOperationsInput | number | null
+    tileMaxLevel?: NullableIntFieldUpdateOperationsInput | number | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    variants?: MediaVariantUncheckedUpdateManyWithoutMediaNestedInput
+    maps?: MapUncheckedUpdateManyWithoutImageMediaNestedInput
+    zones?: ZoneUncheckedUpdateManyWithoutMediaNestedInput
+  }
+
+  export type ZoneUpsertWithWhereUniqueWithoutLevelInput = {
+    where: ZoneWhereUniqueInput
+    update: XOR<ZoneUpdateWithoutLevelInput, ZoneUncheckedUpdateWithoutLevelInput>
+    create: XOR<ZoneCreateWithoutLevelInput, ZoneUncheckedCreateWithoutLevelInput>
+  }
+
+  export type ZoneUpdateWithWhereUniqueWithoutLevelInput = {
+    where: ZoneWhereUniqueInput
+    data: XOR<ZoneUpdateWithoutLevelInput, ZoneUncheckedUpdateWithoutLevelInput>
+  }
+
+  export type ZoneUpdateManyWithWhereWithoutLevelInput = {
+    where: ZoneScalarWhereInput
+    data: XOR<ZoneUpdateManyMutationInput, ZoneUncheckedUpdateManyWithoutLevelInput>
+  }
+
+  export type MapCreateWithoutRevisionsInput = {
+    id?: string
+    title: string
+    description?: string | null
+    geographicBounds?: string | null
+    canvasConfig: string
+    imageUrl?: string | null
+    useBaseMap?: boolean
+    published?: boolean
+    publishedSnapshot?: string | null
+    publishedAt?: Date | string | null
+    categories?: string | null
+    aiNavigatorEnabled?: boolean
+    aiNavigatorPrompt?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    imageMedia?: MediaCreateNestedOneWithoutMapsInput
+    levels?: LevelCreateNestedManyWithoutMapInput
+    zones?: ZoneCreateNestedManyWithoutMapInput
+    members?: MapMemberCreateNestedManyWithoutMapInput
+  }
+
+  export type MapUncheckedCreateWithoutRevisionsInput = {
+    id?: string
+    title: string
+    description?: string | null
+    geographicBounds?: string | null
+    canvasConfig: string
+    imageUrl?: string | null
+    imageMediaId?: string | null
+    useBaseMap?: boolean
+    published?: boolean
+    publishedSnapshot?: string | null
+    publishedAt?: Date | string | null
+    categories?: string | null
+    aiNavigatorEnabled?: boolean
+    aiNavigatorPrompt?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    levels?: LevelUncheckedCreateNestedManyWithoutMapInput
+    zones?: ZoneUncheckedCreateNestedManyWithoutMapInput
+    members?: MapMemberUncheckedCreateNestedManyWithoutMapInput
+  }
+
+  export type MapCreateOrConnectWithoutRevisionsInput = {
+    where: MapWhereUniqueInput
+    create: XOR<MapCreateWithoutRevisionsInput, MapUncheckedCreateWithoutRevisionsInput>
+  }
+
+  export type MapUpsertWithoutRevisionsInput = {
+    update: XOR<MapUpdateWithoutRevisionsInput, MapUncheckedUpdateWithoutRevisionsInput>
+    create: XOR<MapCreateWithoutRevisionsInput, MapUncheckedCreateWithoutRevisionsInput>
+    where?: MapWhereInput
+  }
 
+  export type MapUpdateToOneWithWhereWithoutRevisionsInput = {
+    where?: MapWhereInput
+    data: XOR<MapUpdateWithoutRevisionsInput, MapUncheckedUpdateWithoutRevisionsInput>
+  }
+
+  export type MapUpdateWithoutRevisionsInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    title?: StringFieldUpdateOperationsInput | string
+    description?: NullableStringFieldUpdateOperationsInput | string | null
+    geographicBounds?: NullableStringFieldUpdateOperationsInput | string | null
+    canvasConfig?: StringFieldUpdateOperationsInput | string
+    imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    useBaseMap?: BoolFieldUpdateOperationsInput | boolean
+    published?: BoolFieldUpdateOperationsInput | boolean
+    publishedSnapshot?: NullableStringFieldUpdateOperationsInput | string | null
+    publishedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    categories?: NullableStringFieldUpdateOperationsInput | string | null
+    aiNavigatorEnabled?: BoolFieldUpdateOperationsInput | boolean
+    aiNavigatorPrompt?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    imageMedia?: MediaUpdateOneWithoutMapsNestedInput
+    levels?: LevelUpdateManyWithoutMapNestedInput
+    zones?: ZoneUpdateManyWithoutMapNestedInput
+    members?: MapMemberUpdateManyWithoutMapNestedInput
+  }
 
-  /**
-   * Reference to a field of type 'Boolean'
-   */
-  export type BooleanFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Boolean'>
-    
+  export type MapUncheckedUpdateWithoutRevisionsInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    title?: StringFieldUpdateOperationsInput | string
+    description?: NullableStringFieldUpdateOperationsInput | string | null
+    geographicBounds?: NullableStringFieldUpdateOperationsInput | string | null
+    canvasConfig?: StringFieldUpdateOperationsInput | string
+    imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    imageMediaId?: NullableStringFieldUpdateOperationsInput | string | null
+    useBaseMap?: BoolFieldUpdateOperationsInput | boolean
+    published?: BoolFieldUpdateOperationsInput | boolean
+    publishedSnapshot?: NullableStringFieldUpdateOperationsInput | string | null
+    publishedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    categories?: NullableStringFieldUpdateOperationsInput | string | null
+    aiNavigatorEnabled?: BoolFieldUpdateOperationsInput | boolean
+    aiNavigatorPrompt?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    levels?: LevelUncheckedUpdateManyWithoutMapNestedInput
+    zones?: ZoneUncheckedUpdateManyWithoutMapNestedInput
+    members?: MapMemberUncheckedUpdateManyWithoutMapNestedInput
+  }
 
+  export type MapMemberCreateWithoutUserInput = {
+    id?: string
+    role: string
+    createdAt?: Date | string
+    map: MapCreateNestedOneWithoutMembersInput
+  }
 
-  /**
-   * Reference to a field of type 'DateTime'
-   */
-  export type DateTimeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DateTime'>
-    
+  export type MapMemberUncheckedCreateWithoutUserInput = {
+    id?: string
+    mapId: string
+    role: string
+    createdAt?: Date | string
+  }
 
+  export type MapMemberCreateOrConnectWithoutUserInput = {
+    where: MapMemberWhereUniqueInput
+    create: XOR<MapMemberCreateWithoutUserInput, MapMemberUncheckedCreateWithoutUserInput>
+  }
 
-  /**
-   * Reference to a field of type 'Int'
-   */
-  export type IntFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'Int'>
-    
-  /**
-   * Deep Input Types
-   */
+  export type MapMemberCreateManyUserInputEnvelope = {
+    data: MapMemberCreateManyUserInput | MapMemberCreateManyUserInput[]
+  }
 
+  export type GeocodeJobCreateWithoutUserInput = {
+    id?: string
+    status?: string
+    total: number
+    processed?: number
+    bounds?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    items?: GeocodeJobItemCreateNestedManyWithoutJobInput
+  }
 
-  export type MapWhereInput = {
-    AND?: MapWhereInput | MapWhereInput[]
-    OR?: MapWhereInput[]
-    NOT?: MapWhereInput | MapWhereInput[]
-    id?: StringFilter<"Map"> | string
-    title?: StringFilter<"Map"> | string
-    description?: StringNullableFilter<"Map"> | string | null
-    geographicBounds?: StringNullableFilter<"Map"> | string | null
-    canvasConfig?: StringFilter<"Map"> | string
-    imageUrl?: StringNullableFilter<"Map"> | string | null
-    useBaseMap?: BoolFilter<"Map"> | boolean
-    published?: BoolFilter<"Map"> | boolean
-    categories?: StringNullableFilter<"Map"> | string | null
-    aiNavigatorEnabled?: BoolFilter<"Map"> | boolean
-    aiNavigatorPrompt?: StringNullableFilter<"Map"> | string | null
-    createdAt?: DateTimeFilter<"Map"> | Date | string
-    updatedAt?: DateTimeFilter<"Map"> | Date | string
-    zones?: ZoneListRelationFilter
+  export type GeocodeJobUncheckedCreateWithoutUserInput = {
+    id?: string
+    status?: string
+    total: number
+    processed?: number
+    bounds?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    items?: GeocodeJobItemUncheckedCreateNestedManyWithoutJobInput
   }
 
-  export type MapOrderByWithRelationInput = {
-    id?: SortOrder
-    title?: SortOrder
-    description?: SortOrderInput | SortOrder
-    geographicBounds?: SortOrderInput | SortOrder
-    canvasConfig?: SortOrder
-    imageUrl?: SortOrderInput | SortOrder
-    useBaseMap?: SortOrder
-    published?: SortOrder
-    categories?: SortOrderInput | SortOrder
-    aiNavigatorEnabled?: SortOrder
-    aiNavigatorPrompt?: SortOrderInput | SortOrder
-    createdAt?: SortOrder
-    updatedAt?: SortOrder
-    zones?: ZoneOrderByRelationAggregateInput
+  export type GeocodeJobCreateOrConnectWithoutUserInput = {
+    where: GeocodeJobWhereUniqueInput
+    create: XOR<GeocodeJobCreateWithoutUserInput, GeocodeJobUncheckedCreateWithoutUserInput>
   }
 
-  export type MapWhereUniqueInput = Prisma.AtLeast<{
-    id?: string
-    AND?: MapWhereInput | MapWhereInput[]
-    OR?: MapWhereInput[]
-    NOT?: MapWhereInput | MapWhereInput[]
-    title?: StringFilter<"Map"> | string
-    description?: StringNullableFilter<"Map"> | string | null
-    geographicBounds?: StringNullableFilter<"Map"> | string | null
-    canvasConfig?: StringFilter<"Map"> | string
-    imageUrl?: StringNullableFilter<"Map"> | string | null
-    useBaseMap?: BoolFilter<"Map"> | boolean
-    published?: BoolFilter<"Map"> | boolean
-    categories?: StringNullableFilter<"Map"> | string | null
-    aiNavigatorEnabled?: BoolFilter<"Map"> | boolean
-    aiNavigatorPrompt?: StringNullableFilter<"Map"> | string | null
-    createdAt?: DateTimeFilter<"Map"> | Date | string
-    updatedAt?: DateTimeFilter<"Map"> | Date | string
-    zones?: ZoneListRelationFilter
-  }, "id">
+  export type GeocodeJobCreateManyUserInputEnvelope = {
+    data: GeocodeJobCreateManyUserInput | GeocodeJobCreateManyUserInput[]
+  }
 
-  export type MapOrderByWithAggregationInput = {
-    id?: SortOrder
-    title?: SortOrder
-    description?: SortOrderInput | SortOrder
-    geographicBounds?: SortOrderInput | SortOrder
-    canvasConfig?: SortOrder
-    imageUrl?: SortOrderInput | SortOrder
-    useBaseMap?: SortOrder
-    published?: SortOrder
-    categories?: SortOrderInput | SortOrder
-    aiNavigatorEnabled?: SortOrder
-    aiNavigatorPrompt?: SortOrderInput | SortOrder
-    createdAt?: SortOrder
-    updatedAt?: SortOrder
-    _count?: MapCountOrderByAggregateInput
-    _max?: MapMaxOrderByAggregateInput
-    _min?: MapMinOrderByAggregateInput
+  export type MapMemberUpsertWithWhereUniqueWithoutUserInput = {
+    where: MapMemberWhereUniqueInput
+    update: XOR<MapMemberUpdateWithoutUserInput, MapMemberUncheckedUpdateWithoutUserInput>
+    create: XOR<MapMemberCreateWithoutUserInput, MapMemberUncheckedCreateWithoutUserInput>
   }
 
-  export type MapScalarWhereWithAggregatesInput = {
-    AND?: MapScalarWhereWithAggregatesInput | MapScalarWhereWithAggregatesInput[]
-    OR?: MapScalarWhereWithAggregatesInput[]
-    NOT?: MapScalarWhereWithAggregatesInput | MapScalarWhereWithAggregatesInput[]
-    id?: StringWithAggregatesFilter<"Map"> | string
-    title?: StringWithAggregatesFilter<"Map"> | string
-    description?: StringNullableWithAggregatesFilter<"Map"> | string | null
-    geographicBounds?: StringNullableWithAggregatesFilter<"Map"> | string | null
-    canvasConfig?: StringWithAggregatesFilter<"Map"> | string
-    imageUrl?: StringNullableWithAggregatesFilter<"Map"> | string | null
-    useBaseMap?: BoolWithAggregatesFilter<"Map"> | boolean
-    published?: BoolWithAggregatesFilter<"Map"> | boolean
-    categories?: StringNullableWithAggregatesFilter<"Map"> | string | null
-    aiNavigatorEnabled?: BoolWithAggregatesFilter<"Map"> | boolean
-    aiNavigatorPrompt?: StringNullableWithAggregatesFilter<"Map"> | string | null
-    createdAt?: DateTimeWithAggregatesFilter<"Map"> | Date | string
-    updatedAt?: DateTimeWithAggregatesFilter<"Map"> | Date | string
+  export type MapMemberUpdateWithWhereUniqueWithoutUserInput = {
+    where: MapMemberWhereUniqueInput
+    data: XOR<MapMemberUpdateWithoutUserInput, MapMemberUncheckedUpdateWithoutUserInput>
   }
 
-  export type ZoneWhereInput = {
-    AND?: ZoneWhereInput | ZoneWhereInput[]
-    OR?: ZoneWhereInput[]
-    NOT?: ZoneWhereInput | ZoneWhereInput[]
-    id?: StringFilter<"Zone"> | string
-    mapId?: StringFilter<"Zone"> | string
-    type?: StringFilter<"Zone"> | string
-    coordinates?: StringFilter<"Zone"> | string
-    content?: StringFilter<"Zone"> | string
-    style?: StringNullableFilter<"Zone"> | string | null
-    createdAt?: DateTimeFilter<"Zone"> | Date | string
-    updatedAt?: DateTimeFilter<"Zone"> | Date | string
-    map?: XOR<MapScalarRelationFilter, MapWhereInput>
+  export type MapMemberUpdateManyWithWhereWithoutUserInput = {
+    where: MapMemberScalarWhereInput
+    data: XOR<MapMemberUpdateManyMutationInput, MapMemberUncheckedUpdateManyWithoutUserInput>
   }
 
-  export type ZoneOrderByWithRelationInput = {
-    id?: SortOrder
-    mapId?: SortOrder
-    type?: SortOrder
-    coordinates?: SortOrder
-    content?: SortOrder
-    style?: SortOrderInput | SortOrder
-    createdAt?: SortOrder
-    updatedAt?: SortOrder
-    map?: MapOrderByWithRelationInput
+  export type GeocodeJobUpsertWithWhereUniqueWithoutUserInput = {
+    where: GeocodeJobWhereUniqueInput
+    update: XOR<GeocodeJobUpdateWithoutUserInput, GeocodeJobUncheckedUpdateWithoutUserInput>
+    create: XOR<GeocodeJobCreateWithoutUserInput, GeocodeJobUncheckedCreateWithoutUserInput>
   }
 
-  export type ZoneWhereUniqueInput = Prisma.AtLeast<{
-    id?: string
-    AND?: ZoneWhereInput | ZoneWhereInput[]
-    OR?: ZoneWhereInput[]
-    NOT?: ZoneWhereInput | ZoneWhereInput[]
-    mapId?: StringFilter<"Zone"> | string
-    type?: StringFilter<"Zone"> | string
-    coordinates?: StringFilter<"Zone"> | string
-    content?: StringFilter<"Zone"> | string
-    style?: StringNullableFilter<"Zone"> | string | null
-    createdAt?: DateTimeFilter<"Zone"> | Date | string
-    updatedAt?: DateTimeFilter<"Zone"> | Date | string
-    map?: XOR<MapScalarRelationFilter, MapWhereInput>
-  }, "id">
+  export type GeocodeJobUpdateWithWhereUniqueWithoutUserInput = {
+    where: GeocodeJobWhereUniqueInput
+    data: XOR<GeocodeJobUpdateWithoutUserInput, GeocodeJobUncheckedUpdateWithoutUserInput>
+  }
 
-  export type ZoneOrderByWithAggregationInput = {
-    id?: SortOrder
-    mapId?: SortOrder
-    type?: SortOrder
-    coordinates?: SortOrder
-    content?: SortOrder
-    style?: SortOrderInput | SortOrder
-    createdAt?: SortOrder
-    updatedAt?: SortOrder
-    _count?: ZoneCountOrderByAggregateInput
-    _max?: ZoneMaxOrderByAggregateInput
-    _min?: ZoneMinOrderByAggregateInput
+  export type GeocodeJobUpdateManyWithWhereWithoutUserInput = {
+    where: GeocodeJobScalarWhereInput
+    data: XOR<GeocodeJobUpdateManyMutationInput, GeocodeJobUncheckedUpdateManyWithoutUserInput>
   }
 
-  export type ZoneScalarWhereWithAggregatesInput = {
-    AND?: ZoneScalarWhereWithAggregatesInput | ZoneScalarWhereWithAggregatesInput[]
-    OR?: ZoneScalarWhereWithAggregatesInput[]
-    NOT?: ZoneScalarWhereWithAggregatesInput | ZoneScalarWhereWithAggregatesInput[]
-    id?: StringWithAggregatesFilter<"Zone"> | string
-    mapId?: StringWithAggregatesFilter<"Zone"> | string
-    type?: StringWithAggregatesFilter<"Zone"> | string
-    coordinates?: StringWithAggregatesFilter<"Zone"> | string
-    content?: StringWithAggregatesFilter<"Zone"> | string
-    style?: StringNullableWithAggregatesFilter<"Zone"> | string | null
-    createdAt?: DateTimeWithAggregatesFilter<"Zone"> | Date | string
-    updatedAt?: DateTimeWithAggregatesFilter<"Zone"> | Date | string
+  export type GeocodeJobScalarWhereInput = {
+    AND?: GeocodeJobScalarWhereInput | GeocodeJobScalarWhereInput[]
+    OR?: GeocodeJobScalarWhereInput[]
+    NOT?: GeocodeJobScalarWhereInput | GeocodeJobScalarWhereInput[]
+    id?: StringFilter<"GeocodeJob"> | string
+    userId?: StringFilter<"GeocodeJob"> | string
+    status?: StringFilter<"GeocodeJob"> | string
+    total?: IntFilter<"GeocodeJob"> | number
+    processed?: IntFilter<"GeocodeJob"> | number
+    bounds?: StringNullableFilter<"GeocodeJob"> | string | null
+    createdAt?: DateTimeFilter<"GeocodeJob"> | Date | string
+    updatedAt?: DateTimeFilter<"GeocodeJob"> | Date | string
   }
 
-  export type MapCreateInput = {
+  export type MapCreateWithoutMembersInput = {
     id?: string
     title: string
     description?: string | null
@@ -3518,32 +19777,83 @@ export namespace Prisma {
     imageUrl?: string | null
     useBaseMap?: boolean
     published?: boolean
+    publishedSnapshot?: string | null
+    publishedAt?: Date | string | null
     categories?: string | null
     aiNavigatorEnabled?: boolean
     aiNavigatorPrompt?: string | null
     createdAt?: Date | string
     updatedAt?: Date | string
+    imageMedia?: MediaCreateNestedOneWithoutMapsInput
+    levels?: LevelCreateNestedManyWithoutMapInput
     zones?: ZoneCreateNestedManyWithoutMapInput
+    revisions?: MapRevisionCreateNestedManyWithoutMapInput
   }
 
-  export type MapUncheckedCreateInput = {
+  export type MapUncheckedCreateWithoutMembersInput = {
     id?: string
     title: string
     description?: string | null
     geographicBounds?: string | null
     canvasConfig: string
     imageUrl?: string | null
+    imageMediaId?: string | null
     useBaseMap?: boolean
     published?: boolean
+    publishedSnapshot?: string | null
+    publishedAt?: Date | string | null
     categories?: string | null
     aiNavigatorEnabled?: boolean
     aiNavigatorPrompt?: string | null
     createdAt?: Date | string
     updatedAt?: Date | string
+    levels?: LevelUncheckedCreateNestedManyWithoutMapInput
     zones?: ZoneUncheckedCreateNestedManyWithoutMapInput
+    revisions?: MapRevisionUncheckedCreateNestedManyWithoutMapInput
   }
 
-  export type MapUpdateInput = {
+  export type MapCreateOrConnectWithoutMembersInput = {
+    where: MapWhereUniqueInput
+    create: XOR<MapCreateWithoutMembersInput, MapUncheckedCreateWithoutMembersInput>
+  }
+
+  export type UserCreateWithoutMembershipsInput = {
+    id?: string
+    email: string
+    name?: string | null
+    passwordHash: string
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    geocodeJobs?: GeocodeJobCreateNestedManyWithoutUserInput
+  }
+
+  export type UserUncheckedCreateWithoutMembershipsInput = {
+    id?: string
+    email: string
+    name?: string | null
+    passwordHash: string
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    geocodeJobs?: GeocodeJobUncheckedCreateNestedManyWithoutUserInput
+  }
+
+  export type UserCreateOrConnectWithoutMembershipsInput = {
+    where: UserWhereUniqueInput
+    create: XOR<UserCreateWithoutMembershipsInput, UserUncheckedCreateWithoutMembershipsInput>
+  }
+
+  export type MapUpsertWithoutMembersInput = {
+    update: XOR<MapUpdateWithoutMembersInput, MapUncheckedUpdateWithoutMembersInput>
+    create: XOR<MapCreateWithoutMembersInput, MapUncheckedCreateWithoutMembersInput>
+    where?: MapWhereInput
+  }
+
+  export type MapUpdateToOneWithWhereWithoutMembersInput = {
+    where?: MapWhereInput
+    data: XOR<MapUpdateWithoutMembersInput, MapUncheckedUpdateWithoutMembersInput>
+  }
+
+  export type MapUpdateWithoutMembersInput = {
     id?: StringFieldUpdateOperationsInput | string
     title?: StringFieldUpdateOperationsInput | string
     description?: NullableStringFieldUpdateOperationsInput | string | null
@@ -3552,32 +19862,124 @@ export namespace Prisma {
     imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
     useBaseMap?: BoolFieldUpdateOperationsInput | boolean
     published?: BoolFieldUpdateOperationsInput | boolean
+    publishedSnapshot?: NullableStringFieldUpdateOperationsInput | string | null
+    publishedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
     categories?: NullableStringFieldUpdateOperationsInput | string | null
     aiNavigatorEnabled?: BoolFieldUpdateOperationsInput | boolean
     aiNavigatorPrompt?: NullableStringFieldUpdateOperationsInput | string | null
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
     updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    imageMedia?: MediaUpdateOneWithoutMapsNestedInput
+    levels?: LevelUpdateManyWithoutMapNestedInput
     zones?: ZoneUpdateManyWithoutMapNestedInput
+    revisions?: MapRevisionUpdateManyWithoutMapNestedInput
   }
 
-  export type MapUncheckedUpdateInput = {
+  export type MapUncheckedUpdateWithoutMembersInput = {
     id?: StringFieldUpdateOperationsInput | string
     title?: StringFieldUpdateOperationsInput | string
     description?: NullableStringFieldUpdateOperationsInput | string | null
     geographicBounds?: NullableStringFieldUpdateOperationsInput | string | null
     canvasConfig?: StringFieldUpdateOperationsInput | string
     imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    imageMediaId?: NullableStringFieldUpdateOperationsInput | string | null
     useBaseMap?: BoolFieldUpdateOperationsInput | boolean
     published?: BoolFieldUpdateOperationsInput | boolean
+    publishedSnapshot?: NullableStringFieldUpdateOperationsInput | string | null
+    publishedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
     categories?: NullableStringFieldUpdateOperationsInput | string | null
     aiNavigatorEnabled?: BoolFieldUpdateOperationsInput | boolean
     aiNavigatorPrompt?: NullableStringFieldUpdateOperationsInput | string | null
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
     updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    levels?: LevelUncheckedUpdateManyWithoutMapNestedInput
     zones?: ZoneUncheckedUpdateManyWithoutMapNestedInput
+    revisions?: MapRevisionUncheckedUpdateManyWithoutMapNestedInput
+  }
+
+  export type UserUpsertWithoutMembershipsInput = {
+    update: XOR<UserUpdateWithoutMembershipsInput, UserUncheckedUpdateWithoutMembershipsInput>
+    create: XOR<UserCreateWithoutMembershipsInput, UserUncheckedCreateWithoutMembershipsInput>
+    where?: UserWhereInput
+  }
+
+  export type UserUpdateToOneWithWhereWithoutMembershipsInput = {
+    where?: UserWhereInput
+    data: XOR<UserUpdateWithoutMembershipsInput, UserUncheckedUpdateWithoutMembershipsInput>
+  }
+
+  export type UserUpdateWithoutMembershipsInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    email?: StringFieldUpdateOperationsInput | string
+    name?: NullableStringFieldUpdateOperationsInput | string | null
+    passwordHash?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    geocodeJobs?: GeocodeJobUpdateManyWithoutUserNestedInput
+  }
+
+  export type UserUncheckedUpdateWithoutMembershipsInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    email?: StringFieldUpdateOperationsInput | string
+    name?: NullableStringFieldUpdateOperationsInput | string | null
+    passwordHash?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    geocodeJobs?: GeocodeJobUncheckedUpdateManyWithoutUserNestedInput
+  }
+
+  export type MediaVariantCreateWithoutMediaInput = {
+    id?: string
+    width: number
+    height: number
+    mimeType: string
+    size: number
+    storageKey: string
+    createdAt?: Date | string
+  }
+
+  export type MediaVariantUncheckedCreateWithoutMediaInput = {
+    id?: string
+    width: number
+    height: number
+    mimeType: string
+    size: number
+    storageKey: string
+    createdAt?: Date | string
+  }
+
+  export type MediaVariantCreateOrConnectWithoutMediaInput = {
+    where: MediaVariantWhereUniqueInput
+    create: XOR<MediaVariantCreateWithoutMediaInput, MediaVariantUncheckedCreateWithoutMediaInput>
+  }
+
+  export type MediaVariantCreateManyMediaInputEnvelope = {
+    data: MediaVariantCreateManyMediaInput | MediaVariantCreateManyMediaInput[]
+  }
+
+  export type MapCreateWithoutImageMediaInput = {
+    id?: string
+    title: string
+    description?: string | null
+    geographicBounds?: string | null
+    canvasConfig: string
+    imageUrl?: string | null
+    useBaseMap?: boolean
+    published?: boolean
+    publishedSnapshot?: string | null
+    publishedAt?: Date | string | null
+    categories?: string | null
+    aiNavigatorEnabled?: boolean
+    aiNavigatorPrompt?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    levels?: LevelCreateNestedManyWithoutMapInput
+    zones?: ZoneCreateNestedManyWithoutMapInput
+    revisions?: MapRevisionCreateNestedManyWithoutMapInput
+    members?: MapMemberCreateNestedManyWithoutMapInput
   }
 
-  export type MapCreateManyInput = {
+  export type MapUncheckedCreateWithoutImageMediaInput = {
     id?: string
     title: string
     description?: string | null
@@ -3586,576 +19988,834 @@ export namespace Prisma {
     imageUrl?: string | null
     useBaseMap?: boolean
     published?: boolean
+    publishedSnapshot?: string | null
+    publishedAt?: Date | string | null
     categories?: string | null
     aiNavigatorEnabled?: boolean
     aiNavigatorPrompt?: string | null
     createdAt?: Date | string
     updatedAt?: Date | string
+    levels?: LevelUncheckedCreateNestedManyWithoutMapInput
+    zones?: ZoneUncheckedCreateNestedManyWithoutMapInput
+    revisions?: MapRevisionUncheckedCreateNestedManyWithoutMapInput
+    members?: MapMemberUncheckedCreateNestedManyWithoutMapInput
   }
 
-  export type MapUpdateManyMutationInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    title?: StringFieldUpdateOperationsInput | string
-    description?: NullableStringFieldUpdateOperationsInput | string | null
-    geographicBounds?: NullableStringFieldUpdateOperationsInput | string | null
-    canvasConfig?: StringFieldUpdateOperationsInput | string
-    imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
-    useBaseMap?: BoolFieldUpdateOperationsInput | boolean
-    published?: BoolFieldUpdateOperationsInput | boolean
-    categories?: NullableStringFieldUpdateOperationsInput | string | null
-    aiNavigatorEnabled?: BoolFieldUpdateOperationsInput | boolean
-    aiNavigatorPrompt?: NullableStringFieldUpdateOperationsInput | string | null
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  export type MapCreateOrConnectWithoutImageMediaInput = {
+    where: MapWhereUniqueInput
+    create: XOR<MapCreateWithoutImageMediaInput, MapUncheckedCreateWithoutImageMediaInput>
   }
 
-  export type MapUncheckedUpdateManyInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    title?: StringFieldUpdateOperationsInput | string
-    description?: NullableStringFieldUpdateOperationsInput | string | null
-    geographicBounds?: NullableStringFieldUpdateOperationsInput | string | null
-    canvasConfig?: StringFieldUpdateOperationsInput | string
-    imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
-    useBaseMap?: BoolFieldUpdateOperationsInput | boolean
-    published?: BoolFieldUpdateOperationsInput | boolean
-    categories?: NullableStringFieldUpdateOperationsInput | string | null
-    aiNavigatorEnabled?: BoolFieldUpdateOperationsInput | boolean
-    aiNavigatorPrompt?: NullableStringFieldUpdateOperationsInput | string | null
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  export type MapCreateManyImageMediaInputEnvelope = {
+    data: MapCreateManyImageMediaInput | MapCreateManyImageMediaInput[]
   }
 
-  export type ZoneCreateInput = {
+  export type LevelCreateWithoutImageMediaInput = {
+    id?: string
+    name: string
+    ordinal: number
+    imageUrl?: string | null
+    tiles?: string | null
+    elevation?: number
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    map: MapCreateNestedOneWithoutLevelsInput
+    zones?: ZoneCreateNestedManyWithoutLevelInput
+  }
+
+  export type LevelUncheckedCreateWithoutImageMediaInput = {
+    id?: string
+    mapId: string
+    name: string
+    ordinal: number
+    imageUrl?: string | null
+    tiles?: string | null
+    elevation?: number
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    zones?: ZoneUncheckedCreateNestedManyWithoutLevelInput
+  }
+
+  export type LevelCreateOrConnectWithoutImageMediaInput = {
+    where: LevelWhereUniqueInput
+    create: XOR<LevelCreateWithoutImageMediaInput, LevelUncheckedCreateWithoutImageMediaInput>
+  }
+
+  export type LevelCreateManyImageMediaInputEnvelope = {
+    data: LevelCreateManyImageMediaInput | LevelCreateManyImageMediaInput[]
+  }
+
+  export type ZoneCreateWithoutMediaInput = {
     id?: string
     type: string
     coordinates: string
     content: string
     style?: string | null
+    category?: string | null
+    externalId?: string | null
+    importedValues?: string | null
     createdAt?: Date | string
     updatedAt?: Date | string
     map: MapCreateNestedOneWithoutZonesInput
+    level?: LevelCreateNestedOneWithoutZonesInput
   }
 
-  export type ZoneUncheckedCreateInput = {
+  export type ZoneUncheckedCreateWithoutMediaInput = {
     id?: string
     mapId: string
     type: string
     coordinates: string
     content: string
     style?: string | null
+    category?: string | null
+    levelId?: string | null
+    externalId?: string | null
+    importedValues?: string | null
     createdAt?: Date | string
     updatedAt?: Date | string
   }
 
-  export type ZoneUpdateInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    type?: StringFieldUpdateOperationsInput | string
-    coordinates?: StringFieldUpdateOperationsInput | string
-    content?: StringFieldUpdateOperationsInput | string
-    style?: NullableStringFieldUpdateOperationsInput | string | null
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    map?: MapUpdateOneRequiredWithoutZonesNestedInput
+  export type ZoneCreateOrConnectWithoutMediaInput = {
+    where: ZoneWhereUniqueInput
+    create: XOR<ZoneCreateWithoutMediaInput, ZoneUncheckedCreateWithoutMediaInput>
   }
 
-  export type ZoneUncheckedUpdateInput = {
-    id?: StringFieldUpdateOperationsInput | string
-    mapId?: StringFieldUpdateOperationsInput | string
-    type?: StringFieldUpdateOperationsInput | string
-    coordinates?: StringFieldUpdateOperationsInput | string
-    content?: StringFieldUpdateOperationsInput | string
-    style?: NullableStringFieldUpdateOperationsInput | string | null
-    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  export type MediaVariantUpsertWithWhereUniqueWithoutMediaInput = {
+    where: MediaVariantWhereUniqueInput
+    update: XOR<MediaVariantUpdateWithoutMediaInput, MediaVariantUncheckedUpdateWithoutMediaInput>
+    create: XOR<MediaVariantCreateWithoutMediaInput, MediaVariantUncheckedCreateWithoutMediaInput>
   }
 
-  export type ZoneCreateManyInput = {
+  export type MediaVariantUpdateWithWhereUniqueWithoutMediaInput = {
+    where: MediaVariantWhereUniqueInput
+    data: XOR<MediaVariantUpdateWithoutMediaInput, MediaVariantUncheckedUpdateWithoutMediaInput>
+  }
+
+  export type MediaVariantUpdateManyWithWhereWithoutMediaInput = {
+    where: MediaVariantScalarWhereInput
+    data: XOR<MediaVariantUpdateManyMutationInput, MediaVariantUncheckedUpdateManyWithoutMediaInput>
+  }
+
+  export type MediaVariantScalarWhereInput = {
+    AND?: MediaVariantScalarWhereInput | MediaVariantScalarWhereInput[]
+    OR?: MediaVariantScalarWhereInput[]
+    NOT?: MediaVariantScalarWhereInput | MediaVariantScalarWhereInput[]
+    id?: StringFilter<"MediaVariant"> | string
+    mediaId?: StringFilter<"MediaVariant"> | string
+    width?: IntFilter<"MediaVariant"> | number
+    height?: IntFilter<"MediaVariant"> | number
+    mimeType?: StringFilter<"MediaVariant"> | string
+    size?: IntFilter<"MediaVariant"> | number
+    storageKey?: StringFilter<"MediaVariant"> | string
+    createdAt?: DateTimeFilter<"MediaVariant"> | Date | string
+  }
+
+  export type MapUpsertWithWhereUniqueWithoutImageMediaInput = {
+    where: MapWhereUniqueInput
+    update: XOR<MapUpdateWithoutImageMediaInput, MapUncheckedUpdateWithoutImageMediaInput>
+    create: XOR<MapCreateWithoutImageMediaInput, MapUncheckedCreateWithoutImageMediaInput>
+  }
+
+  export type MapUpdateWithWhereUniqueWithoutImageMediaInput = {
+    where: MapWhereUniqueInput
+    data: XOR<MapUpdateWithoutImageMediaInput, MapUncheckedUpdateWithoutImageMediaInput>
+  }
+
+  export type MapUpdateManyWithWhereWithoutImageMediaInput = {
+    where: MapScalarWhereInput
+    data: XOR<MapUpdateManyMutationInput, MapUncheckedUpdateManyWithoutImageMediaInput>
+  }
+
+  export type MapScalarWhereInput = {
+    AND?: MapScalarWhereInput | MapScalarWhereInput[]
+    OR?: MapScalarWhereInput[]
+    NOT?: MapScalarWhereInput | MapScalarWhereInput[]
+    id?: StringFilter<"Map"> | string
+    title?: StringFilter<"Map"> | string
+    description?: StringNullableFilter<"Map"> | string | null
+    geographicBounds?: StringNullableFilter<"Map"> | string | null
+    canvasConfig?: StringFilter<"Map"> | string
+    imageUrl?: StringNullableFilter<"Map"> | string | null
+    imageMediaId?: StringNullableFilter<"Map"> | string | null
+    useBaseMap?: BoolFilter<"Map"> | boolean
+    published?: BoolFilter<"Map"> | boolean
+    publishedSnapshot?: StringNullableFilter<"Map"> | string | null
+    publishedAt?: DateTimeNullableFilter<"Map"> | Date | string | null
+    categories?: StringNullableFilter<"Map"> | string | null
+    aiNavigatorEnabled?: BoolFilter<"Map"> | boolean
+    aiNavigatorPrompt?: StringNullableFilter<"Map"> | string | null
+    createdAt?: DateTimeFilter<"Map"> | Date | string
+    updatedAt?: DateTimeFilter<"Map"> | Date | string
+  }
+
+  export type LevelUpsertWithWhereUniqueWithoutImageMediaInput = {
+    where: LevelWhereUniqueInput
+    update: XOR<LevelUpdateWithoutImageMediaInput, LevelUncheckedUpdateWithoutImageMediaInput>
+    create: XOR<LevelCreateWithoutImageMediaInput, LevelUncheckedCreateWithoutImageMediaInput>
+  }
+
+  export type LevelUpdateWithWhereUniqueWithoutImageMediaInput = {
+    where: LevelWhereUniqueInput
+    data: XOR<LevelUpdateWithoutImageMediaInput, LevelUncheckedUpdateWithoutImageMediaInput>
+  }
+
+  export type LevelUpdateManyWithWhereWithoutImageMediaInput = {
+    where: LevelScalarWhereInput
+    data: XOR<LevelUpdateManyMutationInput, LevelUncheckedUpdateManyWithoutImageMediaInput>
+  }
+
+  export type ZoneUpsertWithWhereUniqueWithoutMediaInput = {
+    where: ZoneWhereUniqueInput
+    update: XOR<ZoneUpdateWithoutMediaInput, ZoneUncheckedUpdateWithoutMediaInput>
+    create: XOR<ZoneCreateWithoutMediaInput, ZoneUncheckedCreateWithoutMediaInput>
+  }
+
+  export type ZoneUpdateWithWhereUniqueWithoutMediaInput = {
+    where: ZoneWhereUniqueInput
+    data: XOR<ZoneUpdateWithoutMediaInput, ZoneUncheckedUpdateWithoutMediaInput>
+  }
+
+  export type ZoneUpdateManyWithWhereWithoutMediaInput = {
+    where: ZoneScalarWhereInput
+    data: XOR<ZoneUpdateManyMutationInput, ZoneUncheckedUpdateManyWithoutMediaInput>
+  }
+
+  export type MediaCreateWithoutVariantsInput = {
     id?: string
-    mapId: string
-    type: string
-    coordinates: string
-    content: string
-    style?: string | null
+    hash: string
+    mimeType: string
+    size: number
+    storageKey: string
+    width?: number | null
+    height?: number | null
+    tilesKey?: string | null
+    tileSize?: number | null
+    tileMinLevel?: number | null
+    tileMaxLevel?: number | null
     createdAt?: Date | string
-    updatedAt?: Date | string
+    maps?: MapCreateNestedManyWithoutImageMediaInput
+    levels?: LevelCreateNestedManyWithoutImageMediaInput
+    zones?: ZoneCreateNestedManyWithoutMediaInput
   }
 
-  export type ZoneUpdateManyMutationInput = {
+  export type MediaUncheckedCreateWithoutVariantsInput = {
+    id?: string
+    hash: string
+    mimeType: string
+    size: number
+    storageKey: string
+    width?: number | null
+    height?: number | null
+    tilesKey?: string | null
+    tileSize?: number | null
+    tileMinLevel?: number | null
+    tileMaxLevel?: number | null
+    createdAt?: Date | string
+    maps?: MapUncheckedCreateNestedManyWithoutImageMediaInput
+    levels?: LevelUncheckedCreateNestedManyWithoutImageMediaInput
+    zones?: ZoneUncheckedCreateNestedManyWithoutMediaInput
+  }
+
+  export type MediaCreateOrConnectWithoutVariantsInput = {
+    where: MediaWhereUniqueInput
+    create: XOR<MediaCreateWithoutVariantsInput, MediaUncheckedCreateWithoutVariantsInput>
+  }
+
+  export type MediaUpsertWithoutVariantsInput = {
+    update: XOR<MediaUpdateWithoutVariantsInput, MediaUncheckedUpdateWithoutVariantsInput>
+    create: XOR<MediaCreateWithoutVariantsInput, MediaUncheckedCreateWithoutVariantsInput>
+    where?: MediaWhereInput
+  }
+
+  export type MediaUpdateToOneWithWhereWithoutVariantsInput = {
+    where?: MediaWhereInput
+    data: XOR<MediaUpdateWithoutVariantsInput, MediaUncheckedUpdateWithoutVariantsInput>
+  }
+
+  export type MediaUpdateWithoutVariantsInput = {
     id?: StringFieldUpdateOperationsInput | string
-    type?: StringFieldUpdateOperationsInput | string
-    coordinates?: StringFieldUpdateOperationsInput | string
-    content?: StringFieldUpdateOperationsInput | string
-    style?: NullableStringFieldUpdateOperationsInput | string | null
+    hash?: StringFieldUpdateOperationsInput | string
+    mimeType?: StringFieldUpdateOperationsInput | string
+    size?: IntFieldUpdateOperationsInput | number
+    storageKey?: StringFieldUpdateOperationsInput | string
+    width?: NullableIntFieldUpdateOperationsInput | number | null
+    height?: NullableIntFieldUpdateOperationsInput | number | null
+    tilesKey?: NullableStringFieldUpdateOperationsInput | string | null
+    tileSize?: NullableIntFieldUpdateOperationsInput | number | null
+    tileMinLevel?: NullableIntFieldUpdateOperationsInput | number | null
+    tileMaxLevel?: NullableIntFieldUpdateOperationsInput | number | null
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    maps?: MapUpdateManyWithoutImageMediaNestedInput
+    levels?: LevelUpdateManyWithoutImageMediaNestedInput
+    zones?: ZoneUpdateManyWithoutMediaNestedInput
   }
 
-  export type ZoneUncheckedUpdateManyInput = {
+  export type MediaUncheckedUpdateWithoutVariantsInput = {
     id?: StringFieldUpdateOperationsInput | string
-    mapId?: StringFieldUpdateOperationsInput | string
-    type?: StringFieldUpdateOperationsInput | string
-    coordinates?: StringFieldUpdateOperationsInput | string
-    content?: StringFieldUpdateOperationsInput | string
-    style?: NullableStringFieldUpdateOperationsInput | string | null
+    hash?: StringFieldUpdateOperationsInput | string
+    mimeType?: StringFieldUpdateOperationsInput | string
+    size?: IntFieldUpdateOperationsInput | number
+    storageKey?: StringFieldUpdateOperationsInput | string
+    width?: NullableIntFieldUpdateOperationsInput | number | null
+    height?: NullableIntFieldUpdateOperationsInput | number | null
+    tilesKey?: NullableStringFieldUpdateOperationsInput | string | null
+    tileSize?: NullableIntFieldUpdateOperationsInput | number | null
+    tileMinLevel?: NullableIntFieldUpdateOperationsInput | number | null
+    tileMaxLevel?: NullableIntFieldUpdateOperationsInput | number | null
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
-    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    maps?: MapUncheckedUpdateManyWithoutImageMediaNestedInput
+    levels?: LevelUncheckedUpdateManyWithoutImageMediaNestedInput
+    zones?: ZoneUncheckedUpdateManyWithoutMediaNestedInput
   }
 
-  export type StringFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel>
-    in?: string[]
-    notIn?: string[]
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    not?: NestedStringFilter<$PrismaModel> | string
+  export type UserCreateWithoutGeocodeJobsInput = {
+    id?: string
+    email: string
+    name?: string | null
+    passwordHash: string
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    memberships?: MapMemberCreateNestedManyWithoutUserInput
   }
 
-  export type StringNullableFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel> | null
-    in?: string[] | null
-    notIn?: string[] | null
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    not?: NestedStringNullableFilter<$PrismaModel> | string | null
+  export type UserUncheckedCreateWithoutGeocodeJobsInput = {
+    id?: string
+    email: string
+    name?: string | null
+    passwordHash: string
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    memberships?: MapMemberUncheckedCreateNestedManyWithoutUserInput
   }
 
-  export type BoolFilter<$PrismaModel = never> = {
-    equals?: boolean | BooleanFieldRefInput<$PrismaModel>
-    not?: NestedBoolFilter<$PrismaModel> | boolean
+  export type UserCreateOrConnectWithoutGeocodeJobsInput = {
+    where: UserWhereUniqueInput
+    create: XOR<UserCreateWithoutGeocodeJobsInput, UserUncheckedCreateWithoutGeocodeJobsInput>
   }
 
-  export type DateTimeFilter<$PrismaModel = never> = {
-    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    in?: Date[] | string[]
-    notIn?: Date[] | string[]
-    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    not?: NestedDateTimeFilter<$PrismaModel> | Date | string
+  export type GeocodeJobItemCreateWithoutJobInput = {
+    id?: string
+    index: number
+    address: string
+    status?: string
+    lat?: number | null
+    lng?: number | null
+    displayName?: string | null
+    candidates?: string | null
+    source?: string | null
+    error?: string | null
+    attempts?: number
+    updatedAt?: Date | string
   }
 
-  export type ZoneListRelationFilter = {
-    every?: ZoneWhereInput
-    some?: ZoneWhereInput
-    none?: ZoneWhereInput
+  export type GeocodeJobItemUncheckedCreateWithoutJobInput = {
+    id?: string
+    index: number
+    address: string
+    status?: string
+    lat?: number | null
+    lng?: number | null
+    displayName?: string | null
+    candidates?: string | null
+    source?: string | null
+    error?: string | null
+    attempts?: number
+    updatedAt?: Date | string
   }
 
-  export type SortOrderInput = {
-    sort: SortOrder
-    nulls?: NullsOrder
+  export type GeocodeJobItemCreateOrConnectWithoutJobInput = {
+    where: GeocodeJobItemWhereUniqueInput
+    create: XOR<GeocodeJobItemCreateWithoutJobInput, GeocodeJobItemUncheckedCreateWithoutJobInput>
   }
 
-  export type ZoneOrderByRelationAggregateInput = {
-    _count?: SortOrder
+  export type GeocodeJobItemCreateManyJobInputEnvelope = {
+    data: GeocodeJobItemCreateManyJobInput | GeocodeJobItemCreateManyJobInput[]
   }
 
-  export type MapCountOrderByAggregateInput = {
-    id?: SortOrder
-    title?: SortOrder
-    description?: SortOrder
-    geographicBounds?: SortOrder
-    canvasConfig?: SortOrder
-    imageUrl?: SortOrder
-    useBaseMap?: SortOrder
-    published?: SortOrder
-    categories?: SortOrder
-    aiNavigatorEnabled?: SortOrder
-    aiNavigatorPrompt?: SortOrder
-    createdAt?: SortOrder
-    updatedAt?: SortOrder
+  export type UserUpsertWithoutGeocodeJobsInput = {
+    update: XOR<UserUpdateWithoutGeocodeJobsInput, UserUncheckedUpdateWithoutGeocodeJobsInput>
+    create: XOR<UserCreateWithoutGeocodeJobsInput, UserUncheckedCreateWithoutGeocodeJobsInput>
+    where?: UserWhereInput
   }
 
-  export type MapMaxOrderByAggregateInput = {
-    id?: SortOrder
-    title?: SortOrder
-    description?: SortOrder
-    geographicBounds?: SortOrder
-    canvasConfig?: SortOrder
-    imageUrl?: SortOrder
-    useBaseMap?: SortOrder
-    published?: SortOrder
-    categories?: SortOrder
-    aiNavigatorEnabled?: SortOrder
-    aiNavigatorPrompt?: SortOrder
-    createdAt?: SortOrder
-    updatedAt?: SortOrder
+  export type UserUpdateToOneWithWhereWithoutGeocodeJobsInput = {
+    where?: UserWhereInput
+    data: XOR<UserUpdateWithoutGeocodeJobsInput, UserUncheckedUpdateWithoutGeocodeJobsInput>
   }
-
-  export type MapMinOrderByAggregateInput = {
-    id?: SortOrder
-    title?: SortOrder
-    description?: SortOrder
-    geographicBounds?: SortOrder
-    canvasConfig?: SortOrder
-    imageUrl?: SortOrder
-    useBaseMap?: SortOrder
-    published?: SortOrder
-    categories?: SortOrder
-    aiNavigatorEnabled?: SortOrder
-    aiNavigatorPrompt?: SortOrder
-    createdAt?: SortOrder
-    updatedAt?: SortOrder
+
+  export type UserUpdateWithoutGeocodeJobsInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    email?: StringFieldUpdateOperationsInput | string
+    name?: NullableStringFieldUpdateOperationsInput | string | null
+    passwordHash?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    memberships?: MapMemberUpdateManyWithoutUserNestedInput
   }
 
-  export type StringWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel>
-    in?: string[]
-    notIn?: string[]
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    not?: NestedStringWithAggregatesFilter<$PrismaModel> | string
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedStringFilter<$PrismaModel>
-    _max?: NestedStringFilter<$PrismaModel>
+  export type UserUncheckedUpdateWithoutGeocodeJobsInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    email?: StringFieldUpdateOperationsInput | string
+    name?: NullableStringFieldUpdateOperationsInput | string | null
+    passwordHash?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    memberships?: MapMemberUncheckedUpdateManyWithoutUserNestedInput
   }
 
-  export type StringNullableWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel> | null
-    in?: string[] | null
-    notIn?: string[] | null
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    not?: NestedStringNullableWithAggregatesFilter<$PrismaModel> | string | null
-    _count?: NestedIntNullableFilter<$PrismaModel>
-    _min?: NestedStringNullableFilter<$PrismaModel>
-    _max?: NestedStringNullableFilter<$PrismaModel>
+  export type GeocodeJobItemUpsertWithWhereUniqueWithoutJobInput = {
+    where: GeocodeJobItemWhereUniqueInput
+    update: XOR<GeocodeJobItemUpdateWithoutJobInput, GeocodeJobItemUncheckedUpdateWithoutJobInput>
+    create: XOR<GeocodeJobItemCreateWithoutJobInput, GeocodeJobItemUncheckedCreateWithoutJobInput>
   }
 
-  export type BoolWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: boolean | BooleanFieldRefInput<$PrismaModel>
-    not?: NestedBoolWithAggregatesFilter<$PrismaModel> | boolean
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedBoolFilter<$PrismaModel>
-    _max?: NestedBoolFilter<$PrismaModel>
+  export type GeocodeJobItemUpdateWithWhereUniqueWithoutJobInput = {
+    where: GeocodeJobItemWhereUniqueInput
+    data: XOR<GeocodeJobItemUpdateWithoutJobInput, GeocodeJobItemUncheckedUpdateWithoutJobInput>
   }
 
-  export type DateTimeWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    in?: Date[] | string[]
-    notIn?: Date[] | string[]
-    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    not?: NestedDateTimeWithAggregatesFilter<$PrismaModel> | Date | string
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedDateTimeFilter<$PrismaModel>
-    _max?: NestedDateTimeFilter<$PrismaModel>
+  export type GeocodeJobItemUpdateManyWithWhereWithoutJobInput = {
+    where: GeocodeJobItemScalarWhereInput
+    data: XOR<GeocodeJobItemUpdateManyMutationInput, GeocodeJobItemUncheckedUpdateManyWithoutJobInput>
   }
 
-  export type MapScalarRelationFilter = {
-    is?: MapWhereInput
-    isNot?: MapWhereInput
+  export type GeocodeJobItemScalarWhereInput = {
+    AND?: GeocodeJobItemScalarWhereInput | GeocodeJobItemScalarWhereInput[]
+    OR?: GeocodeJobItemScalarWhereInput[]
+    NOT?: GeocodeJobItemScalarWhereInput | GeocodeJobItemScalarWhereInput[]
+    id?: StringFilter<"GeocodeJobItem"> | string
+    jobId?: StringFilter<"GeocodeJobItem"> | string
+    index?: IntFilter<"GeocodeJobItem"> | number
+    address?: StringFilter<"GeocodeJobItem"> | string
+    status?: StringFilter<"GeocodeJobItem"> | string
+    lat?: FloatNullableFilter<"GeocodeJobItem"> | number | null
+    lng?: FloatNullableFilter<"GeocodeJobItem"> | number | null
+    displayName?: StringNullableFilter<"GeocodeJobItem"> | string | null
+    candidates?: StringNullableFilter<"GeocodeJobItem"> | string | null
+    source?: StringNullableFilter<"GeocodeJobItem"> | string | null
+    error?: StringNullableFilter<"GeocodeJobItem"> | string | null
+    attempts?: IntFilter<"GeocodeJobItem"> | number
+    updatedAt?: DateTimeFilter<"GeocodeJobItem"> | Date | string
   }
 
-  export type ZoneCountOrderByAggregateInput = {
-    id?: SortOrder
-    mapId?: SortOrder
-    type?: SortOrder
-    coordinates?: SortOrder
-    content?: SortOrder
-    style?: SortOrder
-    createdAt?: SortOrder
-    updatedAt?: SortOrder
+  export type GeocodeJobCreateWithoutItemsInput = {
+    id?: string
+    status?: string
+    total: number
+    processed?: number
+    bounds?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    user: UserCreateNestedOneWithoutGeocodeJobsInput
   }
 
-  export type ZoneMaxOrderByAggregateInput = {
-    id?: SortOrder
-    mapId?: SortOrder
-    type?: SortOrder
-    coordinates?: SortOrder
-    content?: SortOrder
-    style?: SortOrder
-    createdAt?: SortOrder
-    updatedAt?: SortOrder
+  export type GeocodeJobUncheckedCreateWithoutItemsInput = {
+    id?: string
+    userId: string
+    status?: string
+    total: number
+    processed?: number
+    bounds?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
   }
 
-  export type ZoneMinOrderByAggregateInput = {
-    id?: SortOrder
-    mapId?: SortOrder
-    type?: SortOrder
-    coordinates?: SortOrder
-    content?: SortOrder
-    style?: SortOrder
-    createdAt?: SortOrder
-    updatedAt?: SortOrder
+  export type GeocodeJobCreateOrConnectWithoutItemsInput = {
+    where: GeocodeJobWhereUniqueInput
+    create: XOR<GeocodeJobCreateWithoutItemsInput, GeocodeJobUncheckedCreateWithoutItemsInput>
   }
 
-  export type ZoneCreateNestedManyWithoutMapInput = {
-    create?: XOR<ZoneCreateWithoutMapInput, ZoneUncheckedCreateWithoutMapInput> | ZoneCreateWithoutMapInput[] | ZoneUncheckedCreateWithoutMapInput[]
-    connectOrCreate?: ZoneCreateOrConnectWithoutMapInput | ZoneCreateOrConnectWithoutMapInput[]
-    createMany?: ZoneCreateManyMapInputEnvelope
-    connect?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+  export type GeocodeJobUpsertWithoutItemsInput = {
+    update: XOR<GeocodeJobUpdateWithoutItemsInput, GeocodeJobUncheckedUpdateWithoutItemsInput>
+    create: XOR<GeocodeJobCreateWithoutItemsInput, GeocodeJobUncheckedCreateWithoutItemsInput>
+    where?: GeocodeJobWhereInput
   }
 
-  export type ZoneUncheckedCreateNestedManyWithoutMapInput = {
-    create?: XOR<ZoneCreateWithoutMapInput, ZoneUncheckedCreateWithoutMapInput> | ZoneCreateWithoutMapInput[] | ZoneUncheckedCreateWithoutMapInput[]
-    connectOrCreate?: ZoneCreateOrConnectWithoutMapInput | ZoneCreateOrConnectWithoutMapInput[]
-    createMany?: ZoneCreateManyMapInputEnvelope
-    connect?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
+  export type GeocodeJobUpdateToOneWithWhereWithoutItemsInput = {
+    where?: GeocodeJobWhereInput
+    data: XOR<GeocodeJobUpdateWithoutItemsInput, GeocodeJobUncheckedUpdateWithoutItemsInput>
   }
 
-  export type StringFieldUpdateOperationsInput = {
-    set?: string
+  export type GeocodeJobUpdateWithoutItemsInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    status?: StringFieldUpdateOperationsInput | string
+    total?: IntFieldUpdateOperationsInput | number
+    processed?: IntFieldUpdateOperationsInput | number
+    bounds?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    user?: UserUpdateOneRequiredWithoutGeocodeJobsNestedInput
   }
 
-  export type NullableStringFieldUpdateOperationsInput = {
-    set?: string | null
+  export type GeocodeJobUncheckedUpdateWithoutItemsInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    userId?: StringFieldUpdateOperationsInput | string
+    status?: StringFieldUpdateOperationsInput | string
+    total?: IntFieldUpdateOperationsInput | number
+    processed?: IntFieldUpdateOperationsInput | number
+    bounds?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
   }
 
-  export type BoolFieldUpdateOperationsInput = {
-    set?: boolean
+  export type LevelCreateManyMapInput = {
+    id?: string
+    name: string
+    ordinal: number
+    imageUrl?: string | null
+    imageMediaId?: string | null
+    tiles?: string | null
+    elevation?: number
+    createdAt?: Date | string
+    updatedAt?: Date | string
   }
 
-  export type DateTimeFieldUpdateOperationsInput = {
-    set?: Date | string
+  export type ZoneCreateManyMapInput = {
+    id?: string
+    type: string
+    coordinates: string
+    content: string
+    style?: string | null
+    category?: string | null
+    levelId?: string | null
+    externalId?: string | null
+    importedValues?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
   }
 
-  export type ZoneUpdateManyWithoutMapNestedInput = {
-    create?: XOR<ZoneCreateWithoutMapInput, ZoneUncheckedCreateWithoutMapInput> | ZoneCreateWithoutMapInput[] | ZoneUncheckedCreateWithoutMapInput[]
-    connectOrCreate?: ZoneCreateOrConnectWithoutMapInput | ZoneCreateOrConnectWithoutMapInput[]
-    upsert?: ZoneUpsertWithWhereUniqueWithoutMapInput | ZoneUpsertWithWhereUniqueWithoutMapInput[]
-    createMany?: ZoneCreateManyMapInputEnvelope
-    set?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
-    disconnect?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
-    delete?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
-    connect?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
-    update?: ZoneUpdateWithWhereUniqueWithoutMapInput | ZoneUpdateWithWhereUniqueWithoutMapInput[]
-    updateMany?: ZoneUpdateManyWithWhereWithoutMapInput | ZoneUpdateManyWithWhereWithoutMapInput[]
-    deleteMany?: ZoneScalarWhereInput | ZoneScalarWhereInput[]
+  export type MapRevisionCreateManyMapInput = {
+    id?: string
+    snapshot: string
+    author?: string | null
+    message?: string | null
+    createdAt?: Date | string
   }
 
-  export type ZoneUncheckedUpdateManyWithoutMapNestedInput = {
-    create?: XOR<ZoneCreateWithoutMapInput, ZoneUncheckedCreateWithoutMapInput> | ZoneCreateWithoutMapInput[] | ZoneUncheckedCreateWithoutMapInput[]
-    connectOrCreate?: ZoneCreateOrConnectWithoutMapInput | ZoneCreateOrConnectWithoutMapInput[]
-    upsert?: ZoneUpsertWithWhereUniqueWithoutMapInput | ZoneUpsertWithWhereUniqueWithoutMapInput[]
-    createMany?: ZoneCreateManyMapInputEnvelope
-    set?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
-    disconnect?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
-    delete?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
-    connect?: ZoneWhereUniqueInput | ZoneWhereUniqueInput[]
-    update?: ZoneUpdateWithWhereUniqueWithoutMapInput | ZoneUpdateWithWhereUniqueWithoutMapInput[]
-    updateMany?: ZoneUpdateManyWithWhereWithoutMapInput | ZoneUpdateManyWithWhereWithoutMapInput[]
-    deleteMany?: ZoneScalarWhereInput | ZoneScalarWhereInput[]
+  export type MapMemberCreateManyMapInput = {
+    id?: string
+    userId: string
+    role: string
+    createdAt?: Date | string
   }
 
-  export type MapCreateNestedOneWithoutZonesInput = {
-    create?: XOR<MapCreateWithoutZonesInput, MapUncheckedCreateWithoutZonesInput>
-    connectOrCreate?: MapCreateOrConnectWithoutZonesInput
-    connect?: MapWhereUniqueInput
+  export type LevelUpdateWithoutMapInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    ordinal?: IntFieldUpdateOperationsInput | number
+    imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    tiles?: NullableStringFieldUpdateOperationsInput | string | null
+    elevation?: FloatFieldUpdateOperationsInput | number
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    imageMedia?: MediaUpdateOneWithoutLevelsNestedInput
+    zones?: ZoneUpdateManyWithoutLevelNestedInput
   }
 
-  export type MapUpdateOneRequiredWithoutZonesNestedInput = {
-    create?: XOR<MapCreateWithoutZonesInput, MapUncheckedCreateWithoutZonesInput>
-    connectOrCreate?: MapCreateOrConnectWithoutZonesInput
-    upsert?: MapUpsertWithoutZonesInput
-    connect?: MapWhereUniqueInput
-    update?: XOR<XOR<MapUpdateToOneWithWhereWithoutZonesInput, MapUpdateWithoutZonesInput>, MapUncheckedUpdateWithoutZonesInput>
+  export type LevelUncheckedUpdateWithoutMapInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    ordinal?: IntFieldUpdateOperationsInput | number
+    imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    imageMediaId?: NullableStringFieldUpdateOperationsInput | string | null
+    tiles?: NullableStringFieldUpdateOperationsInput | string | null
+    elevation?: FloatFieldUpdateOperationsInput | number
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    zones?: ZoneUncheckedUpdateManyWithoutLevelNestedInput
   }
 
-  export type NestedStringFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel>
-    in?: string[]
-    notIn?: string[]
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    not?: NestedStringFilter<$PrismaModel> | string
+  export type LevelUncheckedUpdateManyWithoutMapInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    ordinal?: IntFieldUpdateOperationsInput | number
+    imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    imageMediaId?: NullableStringFieldUpdateOperationsInput | string | null
+    tiles?: NullableStringFieldUpdateOperationsInput | string | null
+    elevation?: FloatFieldUpdateOperationsInput | number
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
   }
 
-  export type NestedStringNullableFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel> | null
-    in?: string[] | null
-    notIn?: string[] | null
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    not?: NestedStringNullableFilter<$PrismaModel> | string | null
+  export type ZoneUpdateWithoutMapInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    type?: StringFieldUpdateOperationsInput | string
+    coordinates?: StringFieldUpdateOperationsInput | string
+    content?: StringFieldUpdateOperationsInput | string
+    style?: NullableStringFieldUpdateOperationsInput | string | null
+    category?: NullableStringFieldUpdateOperationsInput | string | null
+    externalId?: NullableStringFieldUpdateOperationsInput | string | null
+    importedValues?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    level?: LevelUpdateOneWithoutZonesNestedInput
+    media?: MediaUpdateManyWithoutZonesNestedInput
   }
 
-  export type NestedBoolFilter<$PrismaModel = never> = {
-    equals?: boolean | BooleanFieldRefInput<$PrismaModel>
-    not?: NestedBoolFilter<$PrismaModel> | boolean
+  export type ZoneUncheckedUpdateWithoutMapInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    type?: StringFieldUpdateOperationsInput | string
+    coordinates?: StringFieldUpdateOperationsInput | string
+    content?: StringFieldUpdateOperationsInput | string
+    style?: NullableStringFieldUpdateOperationsInput | string | null
+    category?: NullableStringFieldUpdateOperationsInput | string | null
+    levelId?: NullableStringFieldUpdateOperationsInput | string | null
+    externalId?: NullableStringFieldUpdateOperationsInput | string | null
+    importedValues?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    media?: MediaUncheckedUpdateManyWithoutZonesNestedInput
   }
 
-  export type NestedDateTimeFilter<$PrismaModel = never> = {
-    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    in?: Date[] | string[]
-    notIn?: Date[] | string[]
-    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    not?: NestedDateTimeFilter<$PrismaModel> | Date | string
+  export type ZoneUncheckedUpdateManyWithoutMapInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    type?: StringFieldUpdateOperationsInput | string
+    coordinates?: StringFieldUpdateOperationsInput | string
+    content?: StringFieldUpdateOperationsInput | string
+    style?: NullableStringFieldUpdateOperationsInput | string | null
+    category?: NullableStringFieldUpdateOperationsInput | string | null
+    levelId?: NullableStringFieldUpdateOperationsInput | string | null
+    externalId?: NullableStringFieldUpdateOperationsInput | string | null
+    importedValues?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
   }
 
-  export type NestedStringWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel>
-    in?: string[]
-    notIn?: string[]
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    not?: NestedStringWithAggregatesFilter<$PrismaModel> | string
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedStringFilter<$PrismaModel>
-    _max?: NestedStringFilter<$PrismaModel>
+  export type MapRevisionUpdateWithoutMapInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    snapshot?: StringFieldUpdateOperationsInput | string
+    author?: NullableStringFieldUpdateOperationsInput | string | null
+    message?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type MapRevisionUncheckedUpdateWithoutMapInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    snapshot?: StringFieldUpdateOperationsInput | string
+    author?: NullableStringFieldUpdateOperationsInput | string | null
+    message?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
   }
 
-  export type NestedIntFilter<$PrismaModel = never> = {
-    equals?: number | IntFieldRefInput<$PrismaModel>
-    in?: number[]
-    notIn?: number[]
-    lt?: number | IntFieldRefInput<$PrismaModel>
-    lte?: number | IntFieldRefInput<$PrismaModel>
-    gt?: number | IntFieldRefInput<$PrismaModel>
-    gte?: number | IntFieldRefInput<$PrismaModel>
-    not?: NestedIntFilter<$PrismaModel> | number
+  export type MapRevisionUncheckedUpdateManyWithoutMapInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    snapshot?: StringFieldUpdateOperationsInput | string
+    author?: NullableStringFieldUpdateOperationsInput | string | null
+    message?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
   }
 
-  export type NestedStringNullableWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: string | StringFieldRefInput<$PrismaModel> | null
-    in?: string[] | null
-    notIn?: string[] | null
-    lt?: string | StringFieldRefInput<$PrismaModel>
-    lte?: string | StringFieldRefInput<$PrismaModel>
-    gt?: string | StringFieldRefInput<$PrismaModel>
-    gte?: string | StringFieldRefInput<$PrismaModel>
-    contains?: string | StringFieldRefInput<$PrismaModel>
-    startsWith?: string | StringFieldRefInput<$PrismaModel>
-    endsWith?: string | StringFieldRefInput<$PrismaModel>
-    not?: NestedStringNullableWithAggregatesFilter<$PrismaModel> | string | null
-    _count?: NestedIntNullableFilter<$PrismaModel>
-    _min?: NestedStringNullableFilter<$PrismaModel>
-    _max?: NestedStringNullableFilter<$PrismaModel>
+  export type MapMemberUpdateWithoutMapInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    role?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    user?: UserUpdateOneRequiredWithoutMembershipsNestedInput
   }
 
-  export type NestedIntNullableFilter<$PrismaModel = never> = {
-    equals?: number | IntFieldRefInput<$PrismaModel> | null
-    in?: number[] | null
-    notIn?: number[] | null
-    lt?: number | IntFieldRefInput<$PrismaModel>
-    lte?: number | IntFieldRefInput<$PrismaModel>
-    gt?: number | IntFieldRefInput<$PrismaModel>
-    gte?: number | IntFieldRefInput<$PrismaModel>
-    not?: NestedIntNullableFilter<$PrismaModel> | number | null
+  export type MapMemberUncheckedUpdateWithoutMapInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    userId?: StringFieldUpdateOperationsInput | string
+    role?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
   }
 
-  export type NestedBoolWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: boolean | BooleanFieldRefInput<$PrismaModel>
-    not?: NestedBoolWithAggregatesFilter<$PrismaModel> | boolean
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedBoolFilter<$PrismaModel>
-    _max?: NestedBoolFilter<$PrismaModel>
+  export type MapMemberUncheckedUpdateManyWithoutMapInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    userId?: StringFieldUpdateOperationsInput | string
+    role?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
   }
 
-  export type NestedDateTimeWithAggregatesFilter<$PrismaModel = never> = {
-    equals?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    in?: Date[] | string[]
-    notIn?: Date[] | string[]
-    lt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    lte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gt?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    gte?: Date | string | DateTimeFieldRefInput<$PrismaModel>
-    not?: NestedDateTimeWithAggregatesFilter<$PrismaModel> | Date | string
-    _count?: NestedIntFilter<$PrismaModel>
-    _min?: NestedDateTimeFilter<$PrismaModel>
-    _max?: NestedDateTimeFilter<$PrismaModel>
+  export type MediaUpdateWithoutZonesInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    hash?: StringFieldUpdateOperationsInput | string
+    mimeType?: StringFieldUpdateOperationsInput | string
+    size?: IntFieldUpdateOperationsInput | number
+    storageKey?: StringFieldUpdateOperationsInput | string
+    width?: NullableIntFieldUpdateOperationsInput | number | null
+    height?: NullableIntFieldUpdateOperationsInput | number | null
+    tilesKey?: NullableStringFieldUpdateOperationsInput | string | null
+    tileSize?: NullableIntFieldUpdateOperationsInput | number | null
+    tileMinLevel?: NullableIntFieldUpdateOperationsInput | number | null
+    tileMaxLevel?: NullableIntFieldUpdateOperationsInput | number | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    variants?: MediaVariantUpdateManyWithoutMediaNestedInput
+    maps?: MapUpdateManyWithoutImageMediaNestedInput
+    levels?: LevelUpdateManyWithoutImageMediaNestedInput
   }
 
-  export type ZoneCreateWithoutMapInput = {
+  export type MediaUncheckedUpdateWithoutZonesInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    hash?: StringFieldUpdateOperationsInput | string
+    mimeType?: StringFieldUpdateOperationsInput | string
+    size?: IntFieldUpdateOperationsInput | number
+    storageKey?: StringFieldUpdateOperationsInput | string
+    width?: NullableIntFieldUpdateOperationsInput | number | null
+    height?: NullableIntFieldUpdateOperationsInput | number | null
+    tilesKey?: NullableStringFieldUpdateOperationsInput | string | null
+    tileSize?: NullableIntFieldUpdateOperationsInput | number | null
+    tileMinLevel?: NullableIntFieldUpdateOperationsInput | number | null
+    tileMaxLevel?: NullableIntFieldUpdateOperationsInput | number | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    variants?: MediaVariantUncheckedUpdateManyWithoutMediaNestedInput
+    maps?: MapUncheckedUpdateManyWithoutImageMediaNestedInput
+    levels?: LevelUncheckedUpdateManyWithoutImageMediaNestedInput
+  }
+
+  export type MediaUncheckedUpdateManyWithoutZonesInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    hash?: StringFieldUpdateOperationsInput | string
+    mimeType?: StringFieldUpdateOperationsInput | string
+    size?: IntFieldUpdateOperationsInput | number
+    storageKey?: StringFieldUpdateOperationsInput | string
+    width?: NullableIntFieldUpdateOperationsInput | number | null
+    height?: NullableIntFieldUpdateOperationsInput | number | null
+    tilesKey?: NullableStringFieldUpdateOperationsInput | string | null
+    tileSize?: NullableIntFieldUpdateOperationsInput | number | null
+    tileMinLevel?: NullableIntFieldUpdateOperationsInput | number | null
+    tileMaxLevel?: NullableIntFieldUpdateOperationsInput | number | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type ZoneCreateManyLevelInput = {
     id?: string
+    mapId: string
     type: string
     coordinates: string
     content: string
     style?: string | null
+    category?: string | null
+    externalId?: string | null
+    importedValues?: string | null
     createdAt?: Date | string
     updatedAt?: Date | string
   }
 
-  export type ZoneUncheckedCreateWithoutMapInput = {
+  export type ZoneUpdateWithoutLevelInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    type?: StringFieldUpdateOperationsInput | string
+    coordinates?: StringFieldUpdateOperationsInput | string
+    content?: StringFieldUpdateOperationsInput | string
+    style?: NullableStringFieldUpdateOperationsInput | string | null
+    category?: NullableStringFieldUpdateOperationsInput | string | null
+    externalId?: NullableStringFieldUpdateOperationsInput | string | null
+    importedValues?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    map?: MapUpdateOneRequiredWithoutZonesNestedInput
+    media?: MediaUpdateManyWithoutZonesNestedInput
+  }
+
+  export type ZoneUncheckedUpdateWithoutLevelInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    mapId?: StringFieldUpdateOperationsInput | string
+    type?: StringFieldUpdateOperationsInput | string
+    coordinates?: StringFieldUpdateOperationsInput | string
+    content?: StringFieldUpdateOperationsInput | string
+    style?: NullableStringFieldUpdateOperationsInput | string | null
+    category?: NullableStringFieldUpdateOperationsInput | string | null
+    externalId?: NullableStringFieldUpdateOperationsInput | string | null
+    importedValues?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    media?: MediaUncheckedUpdateManyWithoutZonesNestedInput
+  }
+
+  export type ZoneUncheckedUpdateManyWithoutLevelInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    mapId?: StringFieldUpdateOperationsInput | string
+    type?: StringFieldUpdateOperationsInput | string
+    coordinates?: StringFieldUpdateOperationsInput | string
+    content?: StringFieldUpdateOperationsInput | string
+    style?: NullableStringFieldUpdateOperationsInput | string | null
+    category?: NullableStringFieldUpdateOperationsInput | string | null
+    externalId?: NullableStringFieldUpdateOperationsInput | string | null
+    importedValues?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type MapMemberCreateManyUserInput = {
     id?: string
-    type: string
-    coordinates: string
-    content: string
-    style?: string | null
+    mapId: string
+    role: string
+    createdAt?: Date | string
+  }
+
+  export type GeocodeJobCreateManyUserInput = {
+    id?: string
+    status?: string
+    total: number
+    processed?: number
+    bounds?: string | null
     createdAt?: Date | string
     updatedAt?: Date | string
   }
 
-  export type ZoneCreateOrConnectWithoutMapInput = {
-    where: ZoneWhereUniqueInput
-    create: XOR<ZoneCreateWithoutMapInput, ZoneUncheckedCreateWithoutMapInput>
+  export type MapMemberUpdateWithoutUserInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    role?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    map?: MapUpdateOneRequiredWithoutMembersNestedInput
   }
 
-  export type ZoneCreateManyMapInputEnvelope = {
-    data: ZoneCreateManyMapInput | ZoneCreateManyMapInput[]
+  export type MapMemberUncheckedUpdateWithoutUserInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    mapId?: StringFieldUpdateOperationsInput | string
+    role?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
   }
 
-  export type ZoneUpsertWithWhereUniqueWithoutMapInput = {
-    where: ZoneWhereUniqueInput
-    update: XOR<ZoneUpdateWithoutMapInput, ZoneUncheckedUpdateWithoutMapInput>
-    create: XOR<ZoneCreateWithoutMapInput, ZoneUncheckedCreateWithoutMapInput>
+  export type MapMemberUncheckedUpdateManyWithoutUserInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    mapId?: StringFieldUpdateOperationsInput | string
+    role?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
   }
 
-  export type ZoneUpdateWithWhereUniqueWithoutMapInput = {
-    where: ZoneWhereUniqueInput
-    data: XOR<ZoneUpdateWithoutMapInput, ZoneUncheckedUpdateWithoutMapInput>
+  export type GeocodeJobUpdateWithoutUserInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    status?: StringFieldUpdateOperationsInput | string
+    total?: IntFieldUpdateOperationsInput | number
+    processed?: IntFieldUpdateOperationsInput | number
+    bounds?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    items?: GeocodeJobItemUpdateManyWithoutJobNestedInput
   }
 
-  export type ZoneUpdateManyWithWhereWithoutMapInput = {
-    where: ZoneScalarWhereInput
-    data: XOR<ZoneUpdateManyMutationInput, ZoneUncheckedUpdateManyWithoutMapInput>
+  export type GeocodeJobUncheckedUpdateWithoutUserInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    status?: StringFieldUpdateOperationsInput | string
+    total?: IntFieldUpdateOperationsInput | number
+    processed?: IntFieldUpdateOperationsInput | number
+    bounds?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    items?: GeocodeJobItemUncheckedUpdateManyWithoutJobNestedInput
   }
 
-  export type ZoneScalarWhereInput = {
-    AND?: ZoneScalarWhereInput | ZoneScalarWhereInput[]
-    OR?: ZoneScalarWhereInput[]
-    NOT?: ZoneScalarWhereInput | ZoneScalarWhereInput[]
-    id?: StringFilter<"Zone"> | string
-    mapId?: StringFilter<"Zone"> | string
-    type?: StringFilter<"Zone"> | string
-    coordinates?: StringFilter<"Zone"> | string
-    content?: StringFilter<"Zone"> | string
-    style?: StringNullableFilter<"Zone"> | string | null
-    createdAt?: DateTimeFilter<"Zone"> | Date | string
-    updatedAt?: DateTimeFilter<"Zone"> | Date | string
+  export type GeocodeJobUncheckedUpdateManyWithoutUserInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    status?: StringFieldUpdateOperationsInput | string
+    total?: IntFieldUpdateOperationsInput | number
+    processed?: IntFieldUpdateOperationsInput | number
+    bounds?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
   }
 
-  export type MapCreateWithoutZonesInput = {
+  export type MediaVariantCreateManyMediaInput = {
+    id?: string
+    width: number
+    height: number
+    mimeType: string
+    size: number
+    storageKey: string
+    createdAt?: Date | string
+  }
+
+  export type MapCreateManyImageMediaInput = {
     id?: string
     title: string
     description?: string | null
@@ -4164,6 +20824,8 @@ export namespace Prisma {
     imageUrl?: string | null
     useBaseMap?: boolean
     published?: boolean
+    publishedSnapshot?: string | null
+    publishedAt?: Date | string | null
     categories?: string | null
     aiNavigatorEnabled?: boolean
     aiNavigatorPrompt?: string | null
@@ -4171,39 +20833,49 @@ export namespace Prisma {
     updatedAt?: Date | string
   }
 
-  export type MapUncheckedCreateWithoutZonesInput = {
+  export type LevelCreateManyImageMediaInput = {
     id?: string
-    title: string
-    description?: string | null
-    geographicBounds?: string | null
-    canvasConfig: string
+    mapId: string
+    name: string
+    ordinal: number
     imageUrl?: string | null
-    useBaseMap?: boolean
-    published?: boolean
-    categories?: string | null
-    aiNavigatorEnabled?: boolean
-    aiNavigatorPrompt?: string | null
+    tiles?: string | null
+    elevation?: number
     createdAt?: Date | string
     updatedAt?: Date | string
   }
 
-  export type MapCreateOrConnectWithoutZonesInput = {
-    where: MapWhereUniqueInput
-    create: XOR<MapCreateWithoutZonesInput, MapUncheckedCreateWithoutZonesInput>
+  export type MediaVariantUpdateWithoutMediaInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    width?: IntFieldUpdateOperationsInput | number
+    height?: IntFieldUpdateOperationsInput | number
+    mimeType?: StringFieldUpdateOperationsInput | string
+    size?: IntFieldUpdateOperationsInput | number
+    storageKey?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
   }
 
-  export type MapUpsertWithoutZonesInput = {
-    update: XOR<MapUpdateWithoutZonesInput, MapUncheckedUpdateWithoutZonesInput>
-    create: XOR<MapCreateWithoutZonesInput, MapUncheckedCreateWithoutZonesInput>
-    where?: MapWhereInput
+  export type MediaVariantUncheckedUpdateWithoutMediaInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    width?: IntFieldUpdateOperationsInput | number
+    height?: IntFieldUpdateOperationsInput | number
+    mimeType?: StringFieldUpdateOperationsInput | string
+    size?: IntFieldUpdateOperationsInput | number
+    storageKey?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
   }
 
-  export type MapUpdateToOneWithWhereWithoutZonesInput = {
-    where?: MapWhereInput
-    data: XOR<MapUpdateWithoutZonesInput, MapUncheckedUpdateWithoutZonesInput>
+  export type MediaVariantUncheckedUpdateManyWithoutMediaInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    width?: IntFieldUpdateOperationsInput | number
+    height?: IntFieldUpdateOperationsInput | number
+    mimeType?: StringFieldUpdateOperationsInput | string
+    size?: IntFieldUpdateOperationsInput | number
+    storageKey?: StringFieldUpdateOperationsInput | string
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
   }
 
-  export type MapUpdateWithoutZonesInput = {
+  export type MapUpdateWithoutImageMediaInput = {
     id?: StringFieldUpdateOperationsInput | string
     title?: StringFieldUpdateOperationsInput | string
     description?: NullableStringFieldUpdateOperationsInput | string | null
@@ -4212,14 +20884,20 @@ export namespace Prisma {
     imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
     useBaseMap?: BoolFieldUpdateOperationsInput | boolean
     published?: BoolFieldUpdateOperationsInput | boolean
+    publishedSnapshot?: NullableStringFieldUpdateOperationsInput | string | null
+    publishedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
     categories?: NullableStringFieldUpdateOperationsInput | string | null
     aiNavigatorEnabled?: BoolFieldUpdateOperationsInput | boolean
     aiNavigatorPrompt?: NullableStringFieldUpdateOperationsInput | string | null
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
     updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    levels?: LevelUpdateManyWithoutMapNestedInput
+    zones?: ZoneUpdateManyWithoutMapNestedInput
+    revisions?: MapRevisionUpdateManyWithoutMapNestedInput
+    members?: MapMemberUpdateManyWithoutMapNestedInput
   }
 
-  export type MapUncheckedUpdateWithoutZonesInput = {
+  export type MapUncheckedUpdateWithoutImageMediaInput = {
     id?: StringFieldUpdateOperationsInput | string
     title?: StringFieldUpdateOperationsInput | string
     description?: NullableStringFieldUpdateOperationsInput | string | null
@@ -4228,53 +20906,180 @@ export namespace Prisma {
     imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
     useBaseMap?: BoolFieldUpdateOperationsInput | boolean
     published?: BoolFieldUpdateOperationsInput | boolean
+    publishedSnapshot?: NullableStringFieldUpdateOperationsInput | string | null
+    publishedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
     categories?: NullableStringFieldUpdateOperationsInput | string | null
     aiNavigatorEnabled?: BoolFieldUpdateOperationsInput | boolean
     aiNavigatorPrompt?: NullableStringFieldUpdateOperationsInput | string | null
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
     updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    levels?: LevelUncheckedUpdateManyWithoutMapNestedInput
+    zones?: ZoneUncheckedUpdateManyWithoutMapNestedInput
+    revisions?: MapRevisionUncheckedUpdateManyWithoutMapNestedInput
+    members?: MapMemberUncheckedUpdateManyWithoutMapNestedInput
   }
 
-  export type ZoneCreateManyMapInput = {
-    id?: string
-    type: string
-    coordinates: string
-    content: string
-    style?: string | null
-    createdAt?: Date | string
-    updatedAt?: Date | string
+  export type MapUncheckedUpdateManyWithoutImageMediaInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    title?: StringFieldUpdateOperationsInput | string
+    description?: NullableStringFieldUpdateOperationsInput | string | null
+    geographicBounds?: NullableStringFieldUpdateOperationsInput | string | null
+    canvasConfig?: StringFieldUpdateOperationsInput | string
+    imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    useBaseMap?: BoolFieldUpdateOperationsInput | boolean
+    published?: BoolFieldUpdateOperationsInput | boolean
+    publishedSnapshot?: NullableStringFieldUpdateOperationsInput | string | null
+    publishedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    categories?: NullableStringFieldUpdateOperationsInput | string | null
+    aiNavigatorEnabled?: BoolFieldUpdateOperationsInput | boolean
+    aiNavigatorPrompt?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
   }
 
-  export type ZoneUpdateWithoutMapInput = {
+  export type LevelUpdateWithoutImageMediaInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    ordinal?: IntFieldUpdateOperationsInput | number
+    imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    tiles?: NullableStringFieldUpdateOperationsInput | string | null
+    elevation?: FloatFieldUpdateOperationsInput | number
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    map?: MapUpdateOneRequiredWithoutLevelsNestedInput
+    zones?: ZoneUpdateManyWithoutLevelNestedInput
+  }
+
+  export type LevelUncheckedUpdateWithoutImageMediaInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    mapId?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    ordinal?: IntFieldUpdateOperationsInput | number
+    imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    tiles?: NullableStringFieldUpdateOperationsInput | string | null
+    elevation?: FloatFieldUpdateOperationsInput | number
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    zones?: ZoneUncheckedUpdateManyWithoutLevelNestedInput
+  }
+
+  export type LevelUncheckedUpdateManyWithoutImageMediaInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    mapId?: StringFieldUpdateOperationsInput | string
+    name?: StringFieldUpdateOperationsInput | string
+    ordinal?: IntFieldUpdateOperationsInput | number
+    imageUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    tiles?: NullableStringFieldUpdateOperationsInput | string | null
+    elevation?: FloatFieldUpdateOperationsInput | number
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type ZoneUpdateWithoutMediaInput = {
     id?: StringFieldUpdateOperationsInput | string
     type?: StringFieldUpdateOperationsInput | string
     coordinates?: StringFieldUpdateOperationsInput | string
     content?: StringFieldUpdateOperationsInput | string
     style?: NullableStringFieldUpdateOperationsInput | string | null
+    category?: NullableStringFieldUpdateOperationsInput | string | null
+    externalId?: NullableStringFieldUpdateOperationsInput | string | null
+    importedValues?: NullableStringFieldUpdateOperationsInput | string | null
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
     updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    map?: MapUpdateOneRequiredWithoutZonesNestedInput
+    level?: LevelUpdateOneWithoutZonesNestedInput
   }
 
-  export type ZoneUncheckedUpdateWithoutMapInput = {
+  export type ZoneUncheckedUpdateWithoutMediaInput = {
     id?: StringFieldUpdateOperationsInput | string
+    mapId?: StringFieldUpdateOperationsInput | string
     type?: StringFieldUpdateOperationsInput | string
     coordinates?: StringFieldUpdateOperationsInput | string
     content?: StringFieldUpdateOperationsInput | string
     style?: NullableStringFieldUpdateOperationsInput | string | null
+    category?: NullableStringFieldUpdateOperationsInput | string | null
+    levelId?: NullableStringFieldUpdateOperationsInput | string | null
+    externalId?: NullableStringFieldUpdateOperationsInput | string | null
+    importedValues?: NullableStringFieldUpdateOperationsInput | string | null
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
     updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
   }
 
-  export type ZoneUncheckedUpdateManyWithoutMapInput = {
+  export type ZoneUncheckedUpdateManyWithoutMediaInput = {
     id?: StringFieldUpdateOperationsInput | string
+    mapId?: StringFieldUpdateOperationsInput | string
     type?: StringFieldUpdateOperationsInput | string
     coordinates?: StringFieldUpdateOperationsInput | string
     content?: StringFieldUpdateOperationsInput | string
     style?: NullableStringFieldUpdateOperationsInput | string | null
+    category?: NullableStringFieldUpdateOperationsInput | string | null
+    levelId?: NullableStringFieldUpdateOperationsInput | string | null
+    externalId?: NullableStringFieldUpdateOperationsInput | string | null
+    importedValues?: NullableStringFieldUpdateOperationsInput | string | null
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
     updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
   }
 
+  export type GeocodeJobItemCreateManyJobInput = {
+    id?: string
+    index: number
+    address: string
+    status?: string
+    lat?: number | null
+    lng?: number | null
+    displayName?: string | null
+    candidates?: string | null
+    source?: string | null
+    error?: string | null
+    attempts?: number
+    updatedAt?: Date | string
+  }
+
+  export type GeocodeJobItemUpdateWithoutJobInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    index?: IntFieldUpdateOperationsInput | number
+    address?: StringFieldUpdateOperationsInput | string
+    status?: StringFieldUpdateOperationsInput | string
+    lat?: NullableFloatFieldUpdateOperationsInput | number | null
+    lng?: NullableFloatFieldUpdateOperationsInput | number | null
+    displayName?: NullableStringFieldUpdateOperationsInput | string | null
+    candidates?: NullableStringFieldUpdateOperationsInput | string | null
+    source?: NullableStringFieldUpdateOperationsInput | string | null
+    error?: NullableStringFieldUpdateOperationsInput | string | null
+    attempts?: IntFieldUpdateOperationsInput | number
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type GeocodeJobItemUncheckedUpdateWithoutJobInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    index?: IntFieldUpdateOperationsInput | number
+    address?: StringFieldUpdateOperationsInput | string
+    status?: StringFieldUpdateOperationsInput | string
+    lat?: NullableFloatFieldUpdateOperationsInput | number | null
+    lng?: NullableFloatFieldUpdateOperationsInput | number | null
+    displayName?: NullableStringFieldUpdateOperationsInput | string | null
+    candidates?: NullableStringFieldUpdateOperationsInput | string | null
+    source?: NullableStringFieldUpdateOperationsInput | string | null
+    error?: NullableStringFieldUpdateOperationsInput | string | null
+    attempts?: IntFieldUpdateOperationsInput | number
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type GeocodeJobItemUncheckedUpdateManyWithoutJobInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    index?: IntFieldUpdateOperationsInput | number
+    address?: StringFieldUpdateOperationsInput | string
+    status?: StringFieldUpdateOperationsInput | string
+    lat?: NullableFloatFieldUpdateOperationsInput | number | null
+    lng?: NullableFloatFieldUpdateOperationsInput | number | null
+    displayName?: NullableStringFieldUpdateOperationsInput | string | null
+    candidates?: NullableStringFieldUpdateOperationsInput | string | null
+    source?: NullableStringFieldUpdateOperationsInput | string | null
+    error?: NullableStringFieldUpdateOperationsInput | string | null
+    attempts?: IntFieldUpdateOperationsInput | number
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
 
 
   /**
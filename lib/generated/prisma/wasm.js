@@ -96,8 +96,11 @@ exports.Prisma.MapScalarFieldEnum = {
   geographicBounds: 'geographicBounds',
   canvasConfig: 'canvasConfig',
   imageUrl: 'imageUrl',
+  imageMediaId: 'imageMediaId',
   useBaseMap: 'useBaseMap',
   published: 'published',
+  publishedSnapshot: 'publishedSnapshot',
+  publishedAt: 'publishedAt',
   categories: 'categories',
   aiNavigatorEnabled: 'aiNavigatorEnabled',
   aiNavigatorPrompt: 'aiNavigatorPrompt',
@@ -112,10 +115,114 @@ exports.Prisma.ZoneScalarFieldEnum = {
   coordinates: 'coordinates',
   content: 'content',
   style: 'style',
+  category: 'category',
+  levelId: 'levelId',
+  externalId: 'externalId',
+  importedValues: 'importedValues',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 };
 
+exports.Prisma.LevelScalarFieldEnum = {
+  id: 'id',
+  mapId: 'mapId',
+  name: 'name',
+  ordinal: 'ordinal',
+  imageUrl: 'imageUrl',
+  imageMediaId: 'imageMediaId',
+  tiles: 'tiles',
+  elevation: 'elevation',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.MapRevisionScalarFieldEnum = {
+  id: 'id',
+  mapId: 'mapId',
+  snapshot: 'snapshot',
+  author: 'author',
+  message: 'message',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.UserScalarFieldEnum = {
+  id: 'id',
+  email: 'email',
+  name: 'name',
+  passwordHash: 'passwordHash',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.MapMemberScalarFieldEnum = {
+  id: 'id',
+  mapId: 'mapId',
+  userId: 'userId',
+  role: 'role',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.MediaScalarFieldEnum = {
+  id: 'id',
+  hash: 'hash',
+  mimeType: 'mimeType',
+  size: 'size',
+  storageKey: 'storageKey',
+  width: 'width',
+  height: 'height',
+  tilesKey: 'tilesKey',
+  tileSize: 'tileSize',
+  tileMinLevel: 'tileMinLevel',
+  tileMaxLevel: 'tileMaxLevel',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.MediaVariantScalarFieldEnum = {
+  id: 'id',
+  mediaId: 'mediaId',
+  width: 'width',
+  height: 'height',
+  mimeType: 'mimeType',
+  size: 'size',
+  storageKey: 'storageKey',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.GeocodeCacheScalarFieldEnum = {
+  id: 'id',
+  provider: 'provider',
+  query: 'query',
+  candidates: 'candidates',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.GeocodeJobScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  status: 'status',
+  total: 'total',
+  processed: 'processed',
+  bounds: 'bounds',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.GeocodeJobItemScalarFieldEnum = {
+  id: 'id',
+  jobId: 'jobId',
+  index: 'index',
+  address: 'address',
+  status: 'status',
+  lat: 'lat',
+  lng: 'lng',
+  displayName: 'displayName',
+  candidates: 'candidates',
+  source: 'source',
+  error: 'error',
+  attempts: 'attempts',
+  updatedAt: 'updatedAt'
+};
+
 exports.Prisma.SortOrder = {
   asc: 'asc',
   desc: 'desc'
@@ -129,7 +236,16 @@ exports.Prisma.NullsOrder = {
 
 exports.Prisma.ModelName = {
   Map: 'Map',
-  Zone: 'Zone'
+  Zone: 'Zone',
+  Level: 'Level',
+  MapRevision: 'MapRevision',
+  User: 'User',
+  MapMember: 'MapMember',
+  Media: 'Media',
+  MediaVariant: 'MediaVariant',
+  GeocodeCache: 'GeocodeCache',
+  GeocodeJob: 'GeocodeJob',
+  GeocodeJobItem: 'GeocodeJobItem'
 };
 /**
  * Create the Client
@@ -185,13 +301,13 @@ const config = {
       }
     }
   },
-  "inlineSchema": "// This is your Prisma schema file,\n// learn more about it in the docs: https://pris.ly/d/prisma-schema\n\ngenerator client {\n  provider      = \"prisma-client-js\"\n  output        = \"../lib/generated/prisma\"\n  binaryTargets = [\"native\", \"darwin-arm64\", \"windows\"]\n}\n\ndatasource db {\n  provider = \"sqlite\"\n  url      = env(\"DATABASE_URL\")\n}\n\nmodel Map {\n  id                 String   @id @default(cuid())\n  title              String\n  description        String?\n  // Geographic bounds for the canvas area (JSON: {minLat, maxLat, minLng, maxLng})\n  geographicBounds   String?\n  // Canvas configuration (JSON: {width, height, coordinateSystem, etc.})\n  canvasConfig       String\n  // URL to uploaded blueprint/floor plan image\n  imageUrl           String?\n  // Whether the map uses base map imagery or uploaded blueprint\n  useBaseMap         Boolean  @default(false)\n  // Published status\n  published          Boolean  @default(false)\n  // Available categories for zones in this map (JSON: string[])\n  categories         String?\n  // AI Navigator settings\n  aiNavigatorEnabled Boolean  @default(true)\n  aiNavigatorPrompt  String? // Custom system instructions for AI\n  createdAt          DateTime @default(now())\n  updatedAt          DateTime @updatedAt\n\n  zones Zone[]\n}\n\nmodel Zone {\n  id          String   @id @default(cuid())\n  mapId       String\n  // Zone type: 'point', 'rectangle', 'circle', 'polygon'\n  type        String\n  // Coordinates in JSON format\n  // Point: {x, y}\n  // Rectangle: {x, y, width, height}\n  // Circle: {x, y, radius}\n  // Polygon: {points: [{x, y}, {x, y}, ...]}\n  coordinates String\n  // Content for this zone (JSON: {title, description, category, images, links})\n  content     String\n  // Style configuration (JSON: {color, borderColor, opacity, icon, etc.})\n  style       String?\n  createdAt   DateTime @default(now())\n  updatedAt   DateTime @updatedAt\n\n  map Map @relation(fields: [mapId], references: [id], onDelete: Cascade)\n\n  @@index([mapId])\n}\n",
-  "inlineSchemaHash": "553cf18d66e5b2d8ddd7d8d6181842d5ee4d34db33bdde661dec348df83ee583",
+  "inlineSchema": "// This is your Prisma schema file,\n// learn more about it in the docs: https://pris.ly/d/prisma-schema\n\ngenerator client {\n  provider      = \"prisma-client-js\"\n  output        = \"../lib/generated/prisma\"\n  binaryTargets = [\"native\", \"darwin-arm64\", \"windows\"]\n}\n\ndatasource db {\n  provider = \"sqlite\"\n  url      = env(\"DATABASE_URL\")\n}\n\nmodel Map {\n  id                 String    @id @default(cuid())\n  title              String\n  description        String?\n  // Geographic bounds for the canvas area (JSON: {minLat, maxLat, minLng, maxLng})\n  geographicBounds   String?\n  // Canvas configuration (JSON: {width, height, coordinateSystem, etc.})\n  canvasConfig       String\n  // URL to uploaded blueprint/floor plan image\n  imageUrl           String?\n  // Stored media behind imageUrl, when it was uploaded through /api/media\n  imageMediaId       String?\n  // Whether the map uses base map imagery or uploaded blueprint\n  useBaseMap         Boolean   @default(false)\n  // Published status\n  published          Boolean   @default(false)\n  // Version served to viewers, promoted from the draft (the live rows) on publish (JSON: MapSnapshot)\n  publishedSnapshot  String?\n  publishedAt        DateTime?\n  // Available categories for zones in this map (JSON: string[])\n  categories         String?\n  // AI Navigator settings\n  aiNavigatorEnabled Boolean   @default(true)\n  aiNavigatorPrompt  String? // Custom system instructions for AI\n  createdAt          DateTime  @default(now())\n  updatedAt          DateTime  @updatedAt\n\n  imageMedia Media?        @relation(fields: [imageMediaId], references: [id], onDelete: SetNull)\n  levels     Level[]\n  zones      Zone[]\n  revisions  MapRevision[]\n  members    MapMember[]\n\n  @@index([imageMediaId])\n}\n\nmodel Zone {\n  id             String   @id @default(cuid())\n  mapId          String\n  // Zone type: 'point', 'rectangle', 'circle', 'polygon'\n  type           String\n  // Coordinates in JSON format\n  // Point: {x, y}\n  // Rectangle: {x, y, width, height}\n  // Circle: {x, y, radius}\n  // Polygon: {points: [{x, y}, {x, y}, ...]}\n  coordinates    String\n  // Content for this zone (JSON: {title, description, category, images, links})\n  content        String\n  // Style configuration (JSON: {color, borderColor, opacity, icon, etc.})\n  style          String?\n  // Copy of content.category, kept in sync on write so listings can filter and count by it\n  category       String?\n  // Floor the zone is on (null: shown on every level, e.g. a building entrance)\n  levelId        String?\n  // Key of the spreadsheet row the zone was imported from, matched on re-import\n  externalId     String?\n  // Synced field values as last imported (JSON), to tell editor changes apart on re-import\n  importedValues String?\n  createdAt      DateTime @default(now())\n  updatedAt      DateTime @updatedAt\n\n  map   Map     @relation(fields: [mapId], references: [id], onDelete: Cascade)\n  level Level?  @relation(fields: [levelId], references: [id], onDelete: SetNull)\n  // Uploaded media referenced by content.images / content.videos\n  media Media[]\n\n  @@index([mapId])\n  @@index([mapId, category])\n  @@index([levelId])\n  @@index([mapId, externalId])\n}\n\n// Floor of a multi-level map. Levels share the map's canvas and georeference;\n// each can have its own blueprint drawn over the same canvas.\nmodel Level {\n  id           String   @id @default(cuid())\n  mapId        String\n  name         String\n  // Floor order: 0 is the ground floor, negative numbers are below ground\n  ordinal      Int\n  // Floor plan for this level (falls back to the map's imageUrl when null)\n  imageUrl     String?\n  imageMediaId String?\n  // Zoom pyramid of the floor plan (JSON: TilePyramid)\n  tiles        String?\n  // Height of the floor above ground in meters, used for altitude in the 3D viewer\n  elevation    Float    @default(0)\n  createdAt    DateTime @default(now())\n  updatedAt    DateTime @updatedAt\n\n  map        Map    @relation(fields: [mapId], references: [id], onDelete: Cascade)\n  imageMedia Media? @relation(fields: [imageMediaId], references: [id], onDelete: SetNull)\n  zones      Zone[]\n\n  @@index([mapId, ordinal])\n  @@index([imageMediaId])\n}\n\nmodel MapRevision {\n  id        String   @id @default(cuid())\n  mapId     String\n  // Full map state after the change (JSON: MapSnapshot from lib/types.ts)\n  snapshot  String\n  // Who made the change and an optional note describing it\n  author    String?\n  message   String?\n  createdAt DateTime @default(now())\n\n  map Map @relation(fields: [mapId], references: [id], onDelete: Cascade)\n\n  @@index([mapId, createdAt])\n}\n\nmodel User {\n  id           String   @id @default(cuid())\n  email        String   @unique\n  name         String?\n  // scrypt hash (format: scrypt:<salt>:<hash>, hex encoded)\n  passwordHash String\n  createdAt    DateTime @default(now())\n  updatedAt    DateTime @updatedAt\n\n  memberships MapMember[]\n  geocodeJobs GeocodeJob[]\n}\n\nmodel MapMember {\n  id        String   @id @default(cuid())\n  mapId     String\n  userId    String\n  // Role: 'owner', 'editor', 'viewer'\n  role      String\n  createdAt DateTime @default(now())\n\n  map  Map  @relation(fields: [mapId], references: [id], onDelete: Cascade)\n  user User @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@unique([mapId, userId])\n  @@index([userId])\n}\n\nmodel Media {\n  id           String   @id @default(cuid())\n  // SHA-256 of the file contents (hex); identical uploads share one row and one stored object\n  hash         String   @unique\n  mimeType     String\n  size         Int\n  // Object key within the storage driver (local directory or S3 bucket)\n  storageKey   String\n  // Pixel size of images after EXIF orientation is applied (null for videos)\n  width        Int?\n  height       Int?\n  // Zoom pyramid of large blueprints (DeepZoom layout: <tilesKey><level>/<col>_<row>.webp)\n  tilesKey     String?\n  tileSize     Int?\n  tileMinLevel Int?\n  tileMaxLevel Int?\n  createdAt    DateTime @default(now())\n\n  variants MediaVariant[]\n  maps     Map[]\n  levels   Level[]\n  zones    Zone[]\n}\n\n// Downscaled copy of an image, generated on upload\nmodel MediaVariant {\n  id         String   @id @default(cuid())\n  mediaId    String\n  width      Int\n  height     Int\n  mimeType   String\n  size       Int\n  storageKey String\n  createdAt  DateTime @default(now())\n\n  media Media @relation(fields: [mediaId], references: [id], onDelete: Cascade)\n\n  @@unique([mediaId, width])\n}\n\n// Geocoder answers, so re-imports don't query the provider again for the same address\nmodel GeocodeCache {\n  id         String   @id @default(cuid())\n  provider   String\n  // Address as normalized by lib/geocoding (lowercase, single spaces)\n  query      String\n  // JSON array of GeocodeCandidate, best first; [] when the provider found\n  // nothing: misses are cached too\n  candidates String\n  // Entries older than GEOCODE_CACHE_TTL_DAYS are queried again\n  createdAt  DateTime @default(now())\n\n  @@unique([provider, query])\n}\n\n// Addresses geocoded on the server in the background (POST /api/geocode/batch).\n// Pending items survive restarts and are picked up again by lib/geocode-jobs.\nmodel GeocodeJob {\n  id        String   @id @default(cuid())\n  userId    String\n  // 'running' until every item has an answer, then 'done'\n  status    String   @default(\"running\")\n  total     Int\n  processed Int      @default(0)\n  // JSON GeographicBounds of the map: candidates inside it are preferred\n  bounds    String?\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  user  User             @relation(fields: [userId], references: [id], onDelete: Cascade)\n  items GeocodeJobItem[]\n\n  @@index([userId])\n  @@index([status, createdAt])\n}\n\nmodel GeocodeJobItem {\n  id          String   @id @default(cuid())\n  jobId       String\n  // Position in the submitted address list\n  index       Int\n  address     String\n  // 'pending', 'ok', 'not_found', 'ambiguous' or 'error'\n  status      String   @default(\"pending\")\n  lat         Float?\n  lng         Float?\n  displayName String?\n  // JSON array of GeocodeCandidate, best first; lat/lng above are the best one's\n  candidates  String?\n  source      String?\n  error       String?\n  // Retried items skip the geocode cache\n  attempts    Int      @default(0)\n  updatedAt   DateTime @updatedAt\n\n  job GeocodeJob @relation(fields: [jobId], references: [id], onDelete: Cascade)\n\n  @@unique([jobId, index])\n  @@index([status])\n}\n",
+  "inlineSchemaHash": "d8d05be8a110e65be286a4cc2a3ef2f416452fc94ee9c89898f9da27f94d7228",
   "copyEngine": true
 }
 config.dirname = '/'
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"Map\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"geographicBounds\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"canvasConfig\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"useBaseMap\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"published\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"categories\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"aiNavigatorEnabled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"aiNavigatorPrompt\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"zones\",\"kind\":\"object\",\"type\":\"Zone\",\"relationName\":\"MapToZone\"}],\"dbName\":null},\"Zone\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"mapId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"coordinates\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"style\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"map\",\"kind\":\"object\",\"type\":\"Map\",\"relationName\":\"MapToZone\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"Map\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"geographicBounds\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"canvasConfig\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"imageMediaId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"useBaseMap\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"published\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"publishedSnapshot\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"publishedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"categories\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"aiNavigatorEnabled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"aiNavigatorPrompt\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"imageMedia\",\"kind\":\"object\",\"type\":\"Media\",\"relationName\":\"MapToMedia\"},{\"name\":\"levels\",\"kind\":\"object\",\"type\":\"Level\",\"relationName\":\"LevelToMap\"},{\"name\":\"zones\",\"kind\":\"object\",\"type\":\"Zone\",\"relationName\":\"MapToZone\"},{\"name\":\"revisions\",\"kind\":\"object\",\"type\":\"MapRevision\",\"relationName\":\"MapToMapRevision\"},{\"name\":\"members\",\"kind\":\"object\",\"type\":\"MapMember\",\"relationName\":\"MapToMapMember\"}],\"dbName\":null},\"Zone\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"mapId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"coordinates\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"content\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"style\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"levelId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"externalId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"importedValues\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"map\",\"kind\":\"object\",\"type\":\"Map\",\"relationName\":\"MapToZone\"},{\"name\":\"level\",\"kind\":\"object\",\"type\":\"Level\",\"relationName\":\"LevelToZone\"},{\"name\":\"media\",\"kind\":\"object\",\"type\":\"Media\",\"relationName\":\"MediaToZone\"}],\"dbName\":null},\"Level\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"mapId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ordinal\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"imageUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"imageMediaId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tiles\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"elevation\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"map\",\"kind\":\"object\",\"type\":\"Map\",\"relationName\":\"LevelToMap\"},{\"name\":\"imageMedia\",\"kind\":\"object\",\"type\":\"Media\",\"relationName\":\"LevelToMedia\"},{\"name\":\"zones\",\"kind\":\"object\",\"type\":\"Zone\",\"relationName\":\"LevelToZone\"}],\"dbName\":null},\"MapRevision\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"mapId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"snapshot\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"author\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"message\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"map\",\"kind\":\"object\",\"type\":\"Map\",\"relationName\":\"MapToMapRevision\"}],\"dbName\":null},\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"passwordHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"memberships\",\"kind\":\"object\",\"type\":\"MapMember\",\"relationName\":\"MapMemberToUser\"},{\"name\":\"geocodeJobs\",\"kind\":\"object\",\"type\":\"GeocodeJob\",\"relationName\":\"GeocodeJobToUser\"}],\"dbName\":null},\"MapMember\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"mapId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"map\",\"kind\":\"object\",\"type\":\"Map\",\"relationName\":\"MapToMapMember\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"MapMemberToUser\"}],\"dbName\":null},\"Media\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"hash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"mimeType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"size\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"storageKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"width\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"height\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"tilesKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tileSize\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"tileMinLevel\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"tileMaxLevel\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"variants\",\"kind\":\"object\",\"type\":\"MediaVariant\",\"relationName\":\"MediaToMediaVariant\"},{\"name\":\"maps\",\"kind\":\"object\",\"type\":\"Map\",\"relationName\":\"MapToMedia\"},{\"name\":\"levels\",\"kind\":\"object\",\"type\":\"Level\",\"relationName\":\"LevelToMedia\"},{\"name\":\"zones\",\"kind\":\"object\",\"type\":\"Zone\",\"relationName\":\"MediaToZone\"}],\"dbName\":null},\"MediaVariant\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"mediaId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"width\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"height\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"mimeType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"size\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"storageKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"media\",\"kind\":\"object\",\"type\":\"Media\",\"relationName\":\"MediaToMediaVariant\"}],\"dbName\":null},\"GeocodeCache\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"provider\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"query\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"candidates\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"GeocodeJob\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"total\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"processed\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"bounds\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"GeocodeJobToUser\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"GeocodeJobItem\",\"relationName\":\"GeocodeJobToGeocodeJobItem\"}],\"dbName\":null},\"GeocodeJobItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"jobId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"index\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"address\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lat\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"lng\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"displayName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"candidates\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"source\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"error\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"attempts\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"job\",\"kind\":\"object\",\"type\":\"GeocodeJob\",\"relationName\":\"GeocodeJobToGeocodeJobItem\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
 defineDmmfProperty(exports.Prisma, config.runtimeDataModel)
 config.engineWasm = {
   getRuntime: async () => require('./query_engine_bg.js'),
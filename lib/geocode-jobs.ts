@@ -0,0 +1,238 @@
+import { prisma } from './prisma';
+import { geocode } from './geocoding';
+import { GeocodeCandidate, GeocodeItemStatus, GeocodeJob, GeocodeJobItem, GeographicBounds } from './types';
+
+/**
+ * Batch geocoding on the server: a job's addresses are stored as pending items
+ * and answered one at a time by a worker running in the server process, so
+ * progress doesn't depend on the browser tab that submitted them. The worker
+ * stops when nothing is pending and is started again by the batch endpoints,
+ * which also resumes jobs interrupted by a restart.
+ */
+
+// Finished jobs are kept this long for the import dialog to pick up again
+const JOB_RETENTION_DAYS = 7;
+
+const ITEM_STATUSES: GeocodeItemStatus[] = ['pending', 'ok', 'not_found', 'ambiguous', 'error'];
+
+// Items written around a cursor's time are sent again rather than missed
+const CURSOR_OVERLAP_MS = 1000;
+
+/**
+ * Job row as stored by Prisma
+ */
+interface GeocodeJobRecord {
+  id: string;
+  status: string;
+  total: number;
+  processed: number;
+  bounds: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Item row as stored by Prisma
+ */
+interface GeocodeJobItemRecord {
+  index: number;
+  address: string;
+  status: string;
+  lat: number | null;
+  lng: number | null;
+  displayName: string | null;
+  candidates: string | null;
+  source: string | null;
+  error: string | null;
+  updatedAt: Date;
+}
+
+function serializeGeocodeJobItem(item: GeocodeJobItemRecord): GeocodeJobItem {
+  return {
+    index: item.index,
+    address: item.address,
+    status: item.status as GeocodeItemStatus,
+    ...(item.lat !== null && item.lng !== null && { lat: item.lat, lng: item.lng }),
+    ...(item.displayName && { displayName: item.displayName }),
+    ...(item.candidates && { candidates: JSON.parse(item.candidates) as GeocodeCandidate[] }),
+    ...(item.source && { source: item.source }),
+    ...(item.error && { error: item.error }),
+  };
+}
+
+/**
+ * A job with its counts per status and the items changed since `since`
+ * (every item without it)
+ */
+async function loadGeocodeJob(job: GeocodeJobRecord, since?: Date): Promise<GeocodeJob> {
+  const [groups, items] = await Promise.all([
+    prisma.geocodeJobItem.groupBy({ by: ['status'], where: { jobId: job.id }, _count: { _all: true } }),
+    prisma.geocodeJobItem.findMany({
+      where: { jobId: job.id, ...(since && { updatedAt: { gte: new Date(since.getTime() - CURSOR_OVERLAP_MS) } }) },
+      orderBy: { index: 'asc' },
+    }),
+  ]);
+
+  const counts = Object.fromEntries(ITEM_STATUSES.map(status => [status, 0])) as Record<GeocodeItemStatus, number>;
+  groups.forEach(group => {
+    counts[group.status as GeocodeItemStatus] = group._count._all;
+  });
+  const cursor = items.reduce((latest, item) => (item.updatedAt > latest ? item.updatedAt : latest), since ?? job.createdAt);
+
+  return {
+    id: job.id,
+    status: job.status === 'done' ? 'done' : 'running',
+    total: job.total,
+    processed: job.processed,
+    ...(job.bounds && { bounds: JSON.parse(job.bounds) as GeographicBounds }),
+    counts,
+    items: items.map(serializeGeocodeJobItem),
+    cursor: cursor.toISOString(),
+    createdAt: job.createdAt,
+  };
+}
+
+/**
+ * Queue addresses for geocoding and start the worker. Candidates inside the
+ * bounds, when given, are preferred.
+ */
+export async function createGeocodeJob(
+  userId: string,
+  addresses: string[],
+  bounds?: GeographicBounds
+): Promise<GeocodeJob> {
+  const cutoff = new Date(Date.now() - JOB_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  await prisma.geocodeJob.deleteMany({ where: { updatedAt: { lt: cutoff } } });
+
+  const job = await prisma.geocodeJob.create({
+    data: {
+      userId,
+      total: addresses.length,
+      bounds: bounds ? JSON.stringify(bounds) : null,
+      items: { create: addresses.map((address, index) => ({ index, address })) },
+    },
+  });
+
+  startGeocodeWorker();
+  return loadGeocodeJob(job);
+}
+
+/**
+ * A job of the user, or null when it doesn't exist or belongs to someone else.
+ * With `since` (a previous response's cursor), only items changed after it are
+ * included. Resumes the worker in case the server restarted since the job was created.
+ */
+export async function getGeocodeJob(id: string, userId: string, since?: Date): Promise<GeocodeJob | null> {
+  const job = await prisma.geocodeJob.findFirst({ where: { id, userId } });
+  if (!job) return null;
+  if (job.status !== 'done') startGeocodeWorker();
+  return loadGeocodeJob(job, since);
+}
+
+/**
+ * Queue items again: the given indexes, else every item that failed or wasn't
+ * found. Retried items ask the providers again instead of using the cache.
+ */
+export async function retryGeocodeJob(id: string, userId: string, indexes?: number[]): Promise<GeocodeJob | null> {
+  const job = await prisma.geocodeJob.findFirst({ where: { id, userId }, select: { id: true } });
+  if (!job) return null;
+
+  const { count } = await prisma.geocodeJobItem.updateMany({
+    where: indexes ? { jobId: id, index: { in: indexes } } : { jobId: id, status: { in: ['not_found', 'error'] } },
+    data: { status: 'pending', lat: null, lng: null, displayName: null, candidates: null, source: null, error: null },
+  });
+  if (count > 0) await updateJobProgress(id);
+
+  return getGeocodeJob(id, userId);
+}
+
+/**
+ * Delete a job of the user; false when there is none
+ */
+export async function deleteGeocodeJob(id: string, userId: string): Promise<boolean> {
+  const { count } = await prisma.geocodeJob.deleteMany({ where: { id, userId } });
+  return count > 0;
+}
+
+async function updateJobProgress(jobId: string) {
+  const [total, pending] = await Promise.all([
+    prisma.geocodeJobItem.count({ where: { jobId } }),
+    prisma.geocodeJobItem.count({ where: { jobId, status: 'pending' } }),
+  ]);
+  // updateMany: the job may have been deleted meanwhile
+  await prisma.geocodeJob.updateMany({
+    where: { id: jobId },
+    data: { processed: total - pending, status: pending === 0 ? 'done' : 'running' },
+  });
+}
+
+/**
+ * Answer one pending item
+ */
+async function processItem(item: {
+  id: string;
+  jobId: string;
+  address: string;
+  attempts: number;
+  job: { bounds: string | null };
+}) {
+  let data: {
+    status: GeocodeItemStatus;
+    lat?: number;
+    lng?: number;
+    displayName?: string;
+    candidates?: string;
+    source?: string;
+    error?: string;
+  };
+  try {
+    const bounds = item.job.bounds ? JSON.parse(item.job.bounds) as GeographicBounds : undefined;
+    const result = await geocode(item.address, { refresh: item.attempts > 0, bounds });
+    const [best] = result?.candidates ?? [];
+    data = result && best
+      ? {
+        status: result.ambiguous ? 'ambiguous' : 'ok',
+        lat: best.lat,
+        lng: best.lng,
+        displayName: best.displayName,
+        candidates: JSON.stringify(result.candidates),
+        source: result.source,
+      }
+      : { status: 'not_found' };
+  } catch (error) {
+    data = { status: 'error', error: error instanceof Error ? error.message : 'Geocoding failed' };
+  }
+
+  // The job may have been deleted while the item was geocoded; move on to the next one
+  const { count } = await prisma.geocodeJobItem.updateMany({
+    where: { id: item.id, jobId: item.jobId },
+    data: { ...data, attempts: { increment: 1 } },
+  });
+  if (count > 0) await updateJobProgress(item.jobId);
+}
+
+async function runWorker() {
+  for (;;) {
+    // Oldest job first, in address order
+    const item = await prisma.geocodeJobItem.findFirst({
+      where: { status: 'pending', job: { status: 'running' } },
+      orderBy: [{ job: { createdAt: 'asc' } }, { index: 'asc' }],
+      select: { id: true, jobId: true, address: true, attempts: true, job: { select: { bounds: true } } },
+    });
+    if (!item) return;
+    await processItem(item);
+  }
+}
+
+let worker: Promise<void> | null = null;
+
+/**
+ * Start the worker unless it is already running. Items queued while it is
+ * about to stop are picked up by the next call (the dialog polls the job).
+ */
+export function startGeocodeWorker() {
+  worker ??= runWorker()
+    .catch(error => console.error('Geocoding worker stopped:', error))
+    .finally(() => {
+      worker = null;
+    });
+}
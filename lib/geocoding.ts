@@ -0,0 +1,423 @@
+import { readFile } from 'fs/promises';
+import { prisma } from './prisma';
+import { distanceMeters } from './coordinate-converter';
+import { GeocodeCandidate, GeocodeMatchType, GeographicBounds } from './types';
+
+/**
+ * Server-side geocoding: a chain of providers tried in order, with their
+ * answers (including "not found") cached in the GeocodeCache table so
+ * re-importing a file doesn't query them again. Providers return several
+ * candidates with a confidence score; addresses whose best candidate is
+ * doubtful are flagged as ambiguous so the user can pick the right place.
+ */
+
+// 'bypass': the provider isn't cached (local and mock providers answer instantly)
+export type GeocodeCacheStatus = 'hit' | 'miss' | 'bypass';
+
+export interface GeocodeResponse {
+  // Best first: candidates inside the bounds, then by confidence
+  candidates: GeocodeCandidate[];
+  // The best candidate is doubtful: low confidence, outside the bounds, or
+  // another candidate elsewhere is nearly as likely
+  ambiguous: boolean;
+  // Name of the provider that found the address
+  source: string;
+  cache: GeocodeCacheStatus;
+}
+
+/**
+ * Backend that turns an address into candidate positions, best first. Returns
+ * [] when the address isn't found, and throws when the service fails (failures
+ * aren't cached).
+ */
+export interface GeocodeProvider {
+  readonly name: string;
+  readonly cacheable: boolean;
+  // Minimum time between two requests, in milliseconds
+  readonly interval: number;
+  geocode(address: string): Promise<GeocodeCandidate[]>;
+}
+
+export interface GeocodeOptions {
+  // Ask the providers again instead of using cached answers (the cache is updated)
+  refresh?: boolean;
+  // Map area: candidates get an inBounds flag and those inside come first
+  bounds?: GeographicBounds;
+  // Number of candidates returned (at most MAX_GEOCODE_CANDIDATES)
+  limit?: number;
+}
+
+// Candidates fetched from providers and cached per address
+export const MAX_GEOCODE_CANDIDATES = 5;
+// Best candidates below this confidence are ambiguous
+const LOW_CONFIDENCE = 0.6;
+// Another candidate within this much of the best one's confidence, and further
+// away than DISTINCT_PLACE_METERS, makes the address ambiguous
+const CLOSE_CONFIDENCE = 0.1;
+const DISTINCT_PLACE_METERS = 1000;
+
+const MATCH_CONFIDENCE: Record<GeocodeMatchType, number> = {
+  rooftop: 0.95,
+  interpolated: 0.8,
+  approximate: 0.5,
+};
+
+const DEFAULT_CACHE_TTL_DAYS = 30;
+// Nominatim's usage policy allows one request per second
+const NOMINATIM_INTERVAL_MS = 1000;
+// Well below Google's per-second quota
+const GOOGLE_INTERVAL_MS = 100;
+
+/**
+ * Cache key of an address: case, spacing and trailing punctuation don't make a different address
+ */
+export function normalizeAddress(address: string): string {
+  return address
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/\s*,\s*/g, ', ')
+    .replace(/[\s,.;]+$/, '')
+    .trim();
+}
+
+// Result of the Google Geocoding API (the fields used here)
+interface GoogleGeocodeResult {
+  formatted_address: string;
+  partial_match?: boolean;
+  geometry: {
+    location: { lat: number; lng: number };
+    location_type: 'ROOFTOP' | 'RANGE_INTERPOLATED' | 'GEOMETRIC_CENTER' | 'APPROXIMATE';
+  };
+}
+
+// Result of a Nominatim search (the fields used here)
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  display_name: string;
+  // 30 for buildings and house numbers, 26-27 for streets, less for areas
+  place_rank?: number;
+  // 0 to 1, how prominent the place is
+  importance?: number;
+  class?: string;
+  type?: string;
+}
+
+/**
+ * Google Maps Geocoding API (GOOGLE_MAPS_API_KEY)
+ */
+export class GoogleGeocodeProvider implements GeocodeProvider {
+  readonly name = 'google';
+  readonly cacheable = true;
+  readonly interval = GOOGLE_INTERVAL_MS;
+
+  constructor(private readonly apiKey: string) {}
+
+  async geocode(address: string): Promise<GeocodeCandidate[]> {
+    const response = await fetch(
+      `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(address)}&key=${this.apiKey}`
+    );
+    if (!response.ok) {
+      throw new Error(`Google geocoding failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    if (data.status === 'ZERO_RESULTS') return [];
+    if (data.status !== 'OK') {
+      // OVER_QUERY_LIMIT, REQUEST_DENIED, ...: let the next provider try
+      throw new Error(`Google geocoding failed: ${data.status}`);
+    }
+
+    return data.results.slice(0, MAX_GEOCODE_CANDIDATES).map((result: GoogleGeocodeResult): GeocodeCandidate => {
+      const locationType = result.geometry.location_type;
+      const matchType: GeocodeMatchType = locationType === 'ROOFTOP'
+        ? 'rooftop'
+        : locationType === 'RANGE_INTERPOLATED' ? 'interpolated' : 'approximate';
+      return {
+        lat: result.geometry.location.lat,
+        lng: result.geometry.location.lng,
+        displayName: result.formatted_address,
+        // Partial matches only matched part of the address
+        confidence: MATCH_CONFIDENCE[matchType] * (result.partial_match ? 0.6 : 1),
+        matchType,
+      };
+    });
+  }
+}
+
+/**
+ * OpenStreetMap Nominatim, the public server or a self-hosted one (NOMINATIM_URL).
+ * Requests to the public server are spaced out to respect its usage policy.
+ */
+export class NominatimGeocodeProvider implements GeocodeProvider {
+  readonly name = 'nominatim';
+  readonly cacheable = true;
+
+  constructor(private readonly baseUrl: string, readonly interval: number) {}
+
+  async geocode(address: string): Promise<GeocodeCandidate[]> {
+    const response = await fetch(
+      `${this.baseUrl}/search?q=${encodeURIComponent(address)}&format=json&limit=${MAX_GEOCODE_CANDIDATES}`,
+      {
+        headers: {
+          'User-Agent': 'MapConfigurator/1.0', // Required by Nominatim
+        },
+      }
+    );
+    if (!response.ok) {
+      throw new Error(`Nominatim geocoding failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data: NominatimPlace[] = await response.json();
+    return data.map(place => {
+      // House numbers placed along an address interpolation line come back as place=house
+      const matchType: GeocodeMatchType = place.class === 'place' && place.type === 'house'
+        ? 'interpolated'
+        : (place.place_rank ?? 0) >= 30 ? 'rooftop' : 'approximate';
+      return {
+        lat: parseFloat(place.lat),
+        lng: parseFloat(place.lon),
+        displayName: place.display_name,
+        // Streets and areas are more likely the place meant when they are prominent
+        confidence: matchType === 'approximate'
+          ? MATCH_CONFIDENCE.approximate * (0.6 + 0.8 * (place.importance ?? 0.25))
+          : MATCH_CONFIDENCE[matchType],
+        matchType,
+      };
+    });
+  }
+}
+
+/**
+ * Offline lookup in a JSON file of known addresses (GEOCODE_LOCAL_FILE):
+ * `{ "1 Main St, Springfield": { "lat": 39.8, "lng": -89.6 } }` or `[lat, lng]` values
+ */
+export class LocalGeocodeProvider implements GeocodeProvider {
+  readonly name = 'local';
+  readonly cacheable = false;
+  readonly interval = 0;
+  private entries: Promise<Map<string, GeocodeCandidate>> | undefined;
+
+  constructor(private readonly file: string) {}
+
+  private load(): Promise<Map<string, GeocodeCandidate>> {
+    this.entries ??= readFile(this.file, 'utf-8').then(text => {
+      const entries = new Map<string, GeocodeCandidate>();
+      for (const [address, value] of Object.entries(JSON.parse(text) as Record<string, unknown>)) {
+        const position = value as { lat?: unknown; lng?: unknown } | null;
+        const [lat, lng] = Array.isArray(value) ? value : [position?.lat, position?.lng];
+        if (typeof lat === 'number' && typeof lng === 'number') {
+          // Listed addresses are known places
+          entries.set(normalizeAddress(address), { lat, lng, displayName: address, confidence: 1, matchType: 'rooftop' });
+        }
+      }
+      return entries;
+    });
+    // A failed read is tried again on the next lookup
+    this.entries.catch(() => {
+      this.entries = undefined;
+    });
+    return this.entries;
+  }
+
+  async geocode(address: string): Promise<GeocodeCandidate[]> {
+    const entry = (await this.load()).get(normalizeAddress(address));
+    return entry ? [entry] : [];
+  }
+}
+
+/**
+ * Fake positions for development and demos without network access: every
+ * address gets a stable spot within about 5 km of GEOCODE_MOCK_CENTER
+ */
+export class MockGeocodeProvider implements GeocodeProvider {
+  readonly name = 'mock';
+  readonly cacheable = false;
+  readonly interval = 0;
+
+  constructor(private readonly center: { lat: number; lng: number }) {}
+
+  async geocode(address: string): Promise<GeocodeCandidate[]> {
+    // FNV-1a hash of the address, split into two offsets
+    let hash = 0x811c9dc5;
+    for (const char of normalizeAddress(address)) {
+      hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193) >>> 0;
+    }
+    const offset = (bits: number) => (bits / 0xffff - 0.5) * 0.1;
+    return [{
+      lat: this.center.lat + offset(hash >>> 16),
+      lng: this.center.lng + offset(hash & 0xffff),
+      displayName: address,
+      confidence: MATCH_CONFIDENCE.rooftop,
+      matchType: 'rooftop',
+    }];
+  }
+}
+
+function createProvider(name: string): GeocodeProvider | null {
+  switch (name) {
+    case 'google': {
+      const apiKey = process.env.GOOGLE_MAPS_API_KEY;
+      // Without a key Google is skipped, as the default chain includes it
+      return apiKey && apiKey !== 'YOUR_API_KEY_HERE' ? new GoogleGeocodeProvider(apiKey) : null;
+    }
+    case 'nominatim': {
+      const baseUrl = process.env.NOMINATIM_URL?.replace(/\/+$/, '');
+      // Self-hosted servers have no usage policy to respect
+      return new NominatimGeocodeProvider(baseUrl || 'https://nominatim.openstreetmap.org', baseUrl ? 0 : NOMINATIM_INTERVAL_MS);
+    }
+    case 'local': {
+      const file = process.env.GEOCODE_LOCAL_FILE;
+      if (!file) {
+        throw new Error('GEOCODE_LOCAL_FILE must be set when GEOCODE_PROVIDERS includes local');
+      }
+      return new LocalGeocodeProvider(file);
+    }
+    case 'mock': {
+      const [lat, lng] = (process.env.GEOCODE_MOCK_CENTER || '28.6024,-81.2001').split(',').map(Number);
+      return new MockGeocodeProvider({ lat, lng });
+    }
+    default:
+      throw new Error(`Unknown geocoding provider: ${name}`);
+  }
+}
+
+let providers: GeocodeProvider[] | undefined;
+
+/**
+ * The providers selected by GEOCODE_PROVIDERS, a comma-separated list tried in
+ * order (`google`, `nominatim`, `local`, `mock`; default `google,nominatim`)
+ */
+export function getGeocodeProviders(): GeocodeProvider[] {
+  if (providers) return providers;
+
+  providers = (process.env.GEOCODE_PROVIDERS || 'google,nominatim')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean)
+    .map(createProvider)
+    .filter((provider): provider is GeocodeProvider => provider !== null);
+
+  return providers;
+}
+
+// When each provider may be sent its next request
+const nextRequest = new Map<string, number>();
+
+/**
+ * Wait for the provider's turn: requests from every caller (single lookups
+ * and batch jobs) are spaced by the provider's interval
+ */
+async function throttle(provider: GeocodeProvider) {
+  if (provider.interval <= 0) return;
+  const now = Date.now();
+  const slot = Math.max(nextRequest.get(provider.name) ?? 0, now);
+  nextRequest.set(provider.name, slot + provider.interval);
+  if (slot > now) await new Promise(resolve => setTimeout(resolve, slot - now));
+}
+
+function cacheTtlMs(): number {
+  const days = Number(process.env.GEOCODE_CACHE_TTL_DAYS);
+  return (Number.isFinite(days) && days >= 0 ? days : DEFAULT_CACHE_TTL_DAYS) * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * One provider's candidates for an address, from the cache while it is fresh.
+ * Returns undefined when the provider failed.
+ */
+async function lookup(
+  provider: GeocodeProvider,
+  address: string,
+  query: string,
+  options: GeocodeOptions
+): Promise<{ candidates: GeocodeCandidate[]; cache: GeocodeCacheStatus } | undefined> {
+  if (provider.cacheable && !options.refresh) {
+    const cached = await prisma.geocodeCache.findUnique({
+      where: { provider_query: { provider: provider.name, query } },
+    });
+    if (cached && Date.now() - cached.createdAt.getTime() < cacheTtlMs()) {
+      return { candidates: JSON.parse(cached.candidates) as GeocodeCandidate[], cache: 'hit' };
+    }
+  }
+
+  let candidates: GeocodeCandidate[];
+  try {
+    await throttle(provider);
+    candidates = (await provider.geocode(address)).slice(0, MAX_GEOCODE_CANDIDATES);
+  } catch (error) {
+    console.warn(`Geocoding provider ${provider.name} failed for "${address}":`, error);
+    return undefined;
+  }
+  if (!provider.cacheable) return { candidates, cache: 'bypass' };
+
+  const data = { candidates: JSON.stringify(candidates), createdAt: new Date() };
+  await prisma.geocodeCache.upsert({
+    where: { provider_query: { provider: provider.name, query } },
+    create: { provider: provider.name, query, ...data },
+    update: data,
+  });
+  return { candidates, cache: 'miss' };
+}
+
+function inBounds(candidate: { lat: number; lng: number }, bounds: GeographicBounds): boolean {
+  return candidate.lat >= bounds.minLat && candidate.lat <= bounds.maxLat
+    && candidate.lng >= bounds.minLng && candidate.lng <= bounds.maxLng;
+}
+
+/**
+ * Candidates best first: those inside the bounds (when given), then by confidence
+ */
+export function rankCandidates(candidates: GeocodeCandidate[], bounds?: GeographicBounds): GeocodeCandidate[] {
+  return candidates
+    .map(candidate => (bounds ? { ...candidate, inBounds: inBounds(candidate, bounds) } : candidate))
+    .sort((a, b) => Number(b.inBounds ?? true) - Number(a.inBounds ?? true) || b.confidence - a.confidence);
+}
+
+/**
+ * Whether the best of ranked candidates is doubtful enough to ask the user
+ */
+export function isAmbiguous(ranked: GeocodeCandidate[]): boolean {
+  const [best, ...others] = ranked;
+  if (!best) return false;
+  if (best.confidence < LOW_CONFIDENCE || best.inBounds === false) return true;
+  return others.some(other => other.inBounds !== false
+    && best.confidence - other.confidence <= CLOSE_CONFIDENCE
+    && distanceMeters(best, other) > DISTINCT_PLACE_METERS);
+}
+
+/**
+ * Geocode an address with the first provider that finds it; null when none
+ * does. With bounds, a provider whose candidates all fall outside them only
+ * answers when no later provider has one inside. Throws when every provider
+ * failed, so nothing could tell.
+ */
+export async function geocode(address: string, options: GeocodeOptions = {}): Promise<GeocodeResponse | null> {
+  const query = normalizeAddress(address);
+  if (!query) return null;
+
+  const limit = Math.min(options.limit ?? MAX_GEOCODE_CANDIDATES, MAX_GEOCODE_CANDIDATES);
+  let answered = false;
+  let outside: GeocodeResponse | null = null;
+
+  for (const provider of getGeocodeProviders()) {
+    const answer = await lookup(provider, address, query, options);
+    answered ||= answer !== undefined;
+    if (!answer || answer.candidates.length === 0) continue;
+
+    const ranked = rankCandidates(answer.candidates, options.bounds);
+    const response = {
+      candidates: ranked.slice(0, limit),
+      ambiguous: isAmbiguous(ranked),
+      source: provider.name,
+      cache: answer.cache,
+    };
+    if (ranked[0].inBounds !== false) return response;
+    outside ??= response;
+  }
+
+  if (!answered) {
+    throw new Error('No geocoding provider could be reached');
+  }
+  return outside;
+}
@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { geoToMercator, mercatorToGeo, pixelToGeo } from './coordinate-converter';
+import {
+  alignmentToGeoreference,
+  boundsToAlignment,
+  fitGeoreference,
+  georeferenceBounds,
+  georeferenceToAlignment,
+} from './georeference';
+import { ControlPoint, Georeference } from './types';
+
+const WIDTH = 2000;
+const HEIGHT = 1000;
+const PIXELS = [[100, 80], [1900, 120], [1850, 900], [150, 950], [1000, 500]];
+
+// A blueprint turned 30° clockwise at 0.25m per pixel
+const ALIGNMENT = { center: { lat: 52.52, lng: 13.405 }, metersPerPixel: 0.25, rotation: 30 };
+
+function controlPoints(frame: Georeference, pixels = PIXELS): ControlPoint[] {
+  return pixels.map(([x, y]) => ({ x, y, ...pixelToGeo(x, y, WIDTH, HEIGHT, frame) }));
+}
+
+function assertClose(actual: number, expected: number, tolerance: number) {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `expected ${actual} to be within ${tolerance} of ${expected}`);
+}
+
+describe('fitGeoreference', () => {
+  it('recovers a rotated blueprint from its control points with a similarity fit', () => {
+    const points = controlPoints(alignmentToGeoreference(ALIGNMENT, WIDTH, HEIGHT));
+    const fit = fitGeoreference(points, 'similarity');
+
+    assert.ok(fit);
+    assertClose(fit.rmsMeters, 0, 0.001);
+    const alignment = georeferenceToAlignment(fit.georeference, WIDTH, HEIGHT);
+    assertClose(alignment.rotation, 30, 1e-6);
+    assertClose(alignment.metersPerPixel, 0.25, 1e-6);
+  });
+
+  it('fits a blueprint stretched along one axis only with an affine fit', () => {
+    // Same placement, but pixels are 40% taller than they are wide
+    const base = alignmentToGeoreference(ALIGNMENT, WIDTH, HEIGHT);
+    const [a, b, c, d, e, f] = base.transform;
+    const stretched: Georeference = { ...base, method: 'affine', transform: [a, b * 1.4, c, d, e * 1.4, f] };
+    const points = controlPoints(stretched);
+
+    const affine = fitGeoreference(points, 'affine');
+    const similarity = fitGeoreference(points, 'similarity');
+
+    assert.ok(affine && similarity);
+    assertClose(affine.rmsMeters, 0, 0.001);
+    // A similarity keeps pixels square, so it can't follow the stretch
+    assert.ok(similarity.rmsMeters > 10, `similarity rms was ${similarity.rmsMeters}`);
+    assert.equal(similarity.residuals.length, points.length);
+  });
+
+  it('keeps an unmirrored blueprint unmirrored', () => {
+    const fit = fitGeoreference(controlPoints(alignmentToGeoreference(ALIGNMENT, WIDTH, HEIGHT)), 'similarity');
+
+    assert.ok(fit);
+    const [a, b, , d, e] = fit.georeference.transform;
+    // Canvas y points down and Mercator y up: the determinant is negative
+    assert.ok(a * e - b * d < 0);
+  });
+
+  it('needs at least three points', () => {
+    const points = controlPoints(alignmentToGeoreference(ALIGNMENT, WIDTH, HEIGHT)).slice(0, 2);
+
+    assert.equal(fitGeoreference(points, 'similarity'), null);
+  });
+
+  it('rejects points that do not pin the transform down', () => {
+    const georeference = alignmentToGeoreference(ALIGNMENT, WIDTH, HEIGHT);
+    const collinear = controlPoints(georeference, [[0, 0], [500, 250], [1000, 500]]);
+    const samePixel = controlPoints(georeference, [[10, 10], [10, 10], [10, 10]]);
+    const samePlace = samePixel.map((point, i) => ({ ...point, x: i * 100, y: i * 50 + 7 }));
+
+    assert.equal(fitGeoreference(collinear, 'affine'), null);
+    assert.ok(fitGeoreference(collinear, 'similarity'));
+    assert.equal(fitGeoreference(samePixel, 'similarity'), null);
+    assert.equal(fitGeoreference(samePlace, 'similarity'), null);
+  });
+});
+
+describe('georeferenceBounds', () => {
+  it('contains every corner of the georeferenced canvas', () => {
+    const georeference = alignmentToGeoreference(ALIGNMENT, WIDTH, HEIGHT);
+    const bounds = georeferenceBounds(georeference, WIDTH, HEIGHT);
+
+    for (const [x, y] of [[0, 0], [WIDTH, 0], [WIDTH, HEIGHT], [0, HEIGHT]]) {
+      const corner = pixelToGeo(x, y, WIDTH, HEIGHT, georeference);
+      assert.ok(corner.lat >= bounds.minLat && corner.lat <= bounds.maxLat);
+      assert.ok(corner.lng >= bounds.minLng && corner.lng <= bounds.maxLng);
+    }
+  });
+});
+
+describe('alignments', () => {
+  it('round-trip through a georeference', () => {
+    const georeference = alignmentToGeoreference(ALIGNMENT, WIDTH, HEIGHT);
+    const alignment = georeferenceToAlignment(georeference, WIDTH, HEIGHT);
+
+    assertClose(alignment.center.lat, ALIGNMENT.center.lat, 1e-9);
+    assertClose(alignment.center.lng, ALIGNMENT.center.lng, 1e-9);
+    assertClose(alignment.metersPerPixel, ALIGNMENT.metersPerPixel, 1e-9);
+    assertClose(alignment.rotation, ALIGNMENT.rotation, 1e-9);
+    assert.equal(georeference.controlPoints.length, 4);
+  });
+
+  it('stretch the canvas width across north-up bounds', () => {
+    const { x: west } = geoToMercator(52.5, 13.4);
+    const bounds = { minLat: 52.5, maxLat: 52.51, minLng: 13.4, maxLng: mercatorToGeo(west + 0.0005, 0).lng };
+    const alignment = boundsToAlignment(bounds, WIDTH, HEIGHT);
+
+    assert.equal(alignment.rotation, 0);
+    assertClose(alignment.center.lng, (bounds.minLng + bounds.maxLng) / 2, 1e-9);
+    // 0.0005 radians of longitude is about 3185m at the equator, times cos(52.505°) here
+    assertClose(alignment.metersPerPixel * WIDTH, 0.0005 * 6371008.8 * Math.cos((52.505 * Math.PI) / 180), 5);
+  });
+});
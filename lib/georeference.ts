@@ -0,0 +1,175 @@
+import { distanceMeters, EARTH_RADIUS_METERS, geoToMercator, mercatorToGeo, pixelToGeo } from './coordinate-converter';
+import { ControlPoint, GeographicBounds, Georeference, GeoreferenceMethod } from './types';
+
+export const MIN_CONTROL_POINTS = 3;
+
+/**
+ * A blueprint laid on the map by hand: where its center is, how large its
+ * pixels are on the ground and how far it is turned clockwise from north-up
+ */
+export interface BlueprintAlignment {
+  center: { lat: number; lng: number };
+  metersPerPixel: number;
+  rotation: number; // degrees
+}
+
+export interface GeoreferenceFit {
+  georeference: Georeference;
+  // Distance in meters between each control point's position and where the fit puts its pixel
+  residuals: number[];
+  rmsMeters: number;
+}
+
+/**
+ * Least-squares fit of a transform from canvas pixels to geographic positions.
+ * Works in Web Mercator, where a north-up blueprint is a pure scale and
+ * translation, so similarity fits keep angles true. Returns null with fewer than
+ * MIN_CONTROL_POINTS points, or when they don't pin the transform down (all in
+ * one place, or in a line for affine fits).
+ */
+export function fitGeoreference(controlPoints: ControlPoint[], method: GeoreferenceMethod): GeoreferenceFit | null {
+  if (controlPoints.length < MIN_CONTROL_POINTS) return null;
+
+  const targets = controlPoints.map(point => geoToMercator(point.lat, point.lng));
+  const n = controlPoints.length;
+
+  // Center both sides: keeps the sums well conditioned for small areas far from the origin
+  const mx = controlPoints.reduce((sum, point) => sum + point.x, 0) / n;
+  const my = controlPoints.reduce((sum, point) => sum + point.y, 0) / n;
+  const mX = targets.reduce((sum, target) => sum + target.x, 0) / n;
+  const mY = targets.reduce((sum, target) => sum + target.y, 0) / n;
+
+  let suu = 0, svv = 0, suv = 0, suU = 0, svU = 0, suV = 0, svV = 0;
+  controlPoints.forEach((point, i) => {
+    const u = point.x - mx;
+    const v = point.y - my;
+    const U = targets[i].x - mX;
+    const V = targets[i].y - mY;
+    suu += u * u;
+    svv += v * v;
+    suv += u * v;
+    suU += u * U;
+    svU += v * U;
+    suV += u * V;
+    svV += v * V;
+  });
+
+  let a: number, b: number, d: number, e: number;
+  if (method === 'similarity') {
+    // Canvas y points down while Mercator y points up, so an unmirrored
+    // blueprint is a reflected similarity: X = a·x + b·y + c, Y = b·x − a·y + f
+    const spread = suu + svv;
+    if (spread === 0) return null;
+    a = (suU - svV) / spread;
+    b = (svU + suV) / spread;
+    d = b;
+    e = -a;
+  } else {
+    const det = suu * svv - suv * suv;
+    if (det <= 1e-9 * suu * svv) return null;
+    a = (svv * suU - suv * svU) / det;
+    b = (suu * svU - suv * suU) / det;
+    d = (svv * suV - suv * svV) / det;
+    e = (suu * svV - suv * suV) / det;
+  }
+
+  // All control points at the same geographic position
+  if (a * e - b * d === 0) return null;
+
+  const georeference: Georeference = {
+    method,
+    controlPoints,
+    transform: [a, b, mX - a * mx - b * my, d, e, mY - d * mx - e * my],
+  };
+
+  const residuals = controlPoints.map(point =>
+    distanceMeters(pixelToGeo(point.x, point.y, 0, 0, georeference), point)
+  );
+  const rmsMeters = Math.sqrt(residuals.reduce((sum, residual) => sum + residual * residual, 0) / n);
+
+  return { georeference, residuals, rmsMeters };
+}
+
+/**
+ * Smallest north-up bounds containing the whole georeferenced canvas. Maps keep
+ * these alongside the georeference for framing the viewers.
+ */
+export function georeferenceBounds(georeference: Georeference, canvasWidth: number, canvasHeight: number): GeographicBounds {
+  const corners = [
+    [0, 0],
+    [canvasWidth, 0],
+    [canvasWidth, canvasHeight],
+    [0, canvasHeight],
+  ].map(([x, y]) => pixelToGeo(x, y, canvasWidth, canvasHeight, georeference));
+
+  return {
+    minLat: Math.min(...corners.map(corner => corner.lat)),
+    maxLat: Math.max(...corners.map(corner => corner.lat)),
+    minLng: Math.min(...corners.map(corner => corner.lng)),
+    maxLng: Math.max(...corners.map(corner => corner.lng)),
+  };
+}
+
+/**
+ * Similarity georeference placing the canvas as described by an alignment. The
+ * canvas corners are recorded as its control points.
+ */
+export function alignmentToGeoreference(alignment: BlueprintAlignment, canvasWidth: number, canvasHeight: number): Georeference {
+  const center = geoToMercator(alignment.center.lat, alignment.center.lng);
+  // Mercator units per meter grow with latitude
+  const scale = alignment.metersPerPixel / (EARTH_RADIUS_METERS * Math.cos((alignment.center.lat * Math.PI) / 180));
+  const theta = (alignment.rotation * Math.PI) / 180;
+
+  // Canvas y points down: turning clockwise by theta, a pixel step right goes
+  // (cos, -sin) east/north and a step down (-sin, -cos)
+  const a = scale * Math.cos(theta);
+  const b = -scale * Math.sin(theta);
+  const d = b;
+  const e = -a;
+  const cx = canvasWidth / 2;
+  const cy = canvasHeight / 2;
+  const transform: Georeference['transform'] = [a, b, center.x - a * cx - b * cy, d, e, center.y - d * cx - e * cy];
+
+  const controlPoints = [
+    [0, 0],
+    [canvasWidth, 0],
+    [canvasWidth, canvasHeight],
+    [0, canvasHeight],
+  ].map(([x, y]) => ({
+    x,
+    y,
+    ...mercatorToGeo(transform[0] * x + transform[1] * y + transform[2], transform[3] * x + transform[4] * y + transform[5]),
+  }));
+
+  return { method: 'similarity', controlPoints, transform };
+}
+
+/**
+ * Alignment closest to a georeference. Affine fits lose their stretch and skew.
+ */
+export function georeferenceToAlignment(georeference: Georeference, canvasWidth: number, canvasHeight: number): BlueprintAlignment {
+  const [a, b, , d, e] = georeference.transform;
+  const center = pixelToGeo(canvasWidth / 2, canvasHeight / 2, canvasWidth, canvasHeight, georeference);
+  // Closest reflected similarity: a = s·cos, e = -s·cos, b = d = -s·sin
+  const cos = (a - e) / 2;
+  const sin = -(b + d) / 2;
+  const scale = Math.hypot(cos, sin);
+
+  return {
+    center,
+    metersPerPixel: scale * EARTH_RADIUS_METERS * Math.cos((center.lat * Math.PI) / 180),
+    rotation: (Math.atan2(sin, cos) * 180) / Math.PI,
+  };
+}
+
+/**
+ * North-up alignment stretching the canvas width across geographic bounds
+ */
+export function boundsToAlignment(bounds: GeographicBounds, canvasWidth: number, canvasHeight: number): BlueprintAlignment {
+  const center = pixelToGeo(canvasWidth / 2, canvasHeight / 2, canvasWidth, canvasHeight, bounds);
+  const widthMeters = distanceMeters(
+    { lat: center.lat, lng: bounds.minLng },
+    { lat: center.lat, lng: bounds.maxLng }
+  );
+  return { center, metersPerPixel: widthMeters / canvasWidth, rotation: 0 };
+}
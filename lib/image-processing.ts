@@ -0,0 +1,72 @@
+import sharp from 'sharp';
+import { IMAGE_VARIANT_WIDTHS } from './media-client';
+
+// Formats re-encoded on upload; others (SVG, GIF, ...) are stored as-is
+const OUTPUT_FORMATS: Record<string, { format: keyof sharp.FormatEnum; options: object }> = {
+  'image/jpeg': { format: 'jpeg', options: { quality: 90 } },
+  'image/png': { format: 'png', options: {} },
+  'image/webp': { format: 'webp', options: { quality: 90 } },
+  'image/avif': { format: 'avif', options: { quality: 70 } },
+};
+
+const VARIANT_QUALITY = 80;
+// Campus-scale plans can exceed sharp's default 268 megapixel input limit
+export const MAX_IMAGE_PIXELS = 40000 * 40000;
+
+export interface ImageVariantData {
+  width: number;
+  height: number;
+  mimeType: string;
+  data: Buffer;
+}
+
+export interface ProcessedImage {
+  // The original, upright and without metadata, in its uploaded format
+  data: Buffer;
+  width: number;
+  height: number;
+  variants: ImageVariantData[];
+}
+
+/**
+ * Normalize an uploaded image: apply its EXIF orientation, strip metadata (GPS
+ * position, camera details) and render a WebP variant for every standard width
+ * smaller than the image. Returns null for types that are stored untouched,
+ * including animated images.
+ */
+export async function processImage(data: Buffer, mimeType: string): Promise<ProcessedImage | null> {
+  const output = OUTPUT_FORMATS[mimeType];
+  if (!output) return null;
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(data, { limitInputPixels: MAX_IMAGE_PIXELS }).metadata();
+  } catch {
+    throw new Error(`Could not read ${mimeType} image`);
+  }
+  if ((metadata.pages ?? 1) > 1) return null;
+
+  // rotate() without an angle applies the EXIF orientation; sharp drops metadata on output
+  const source = sharp(data, { limitInputPixels: MAX_IMAGE_PIXELS }).rotate();
+  const original = await source
+    .clone()
+    .toFormat(output.format, output.options)
+    .toBuffer({ resolveWithObject: true });
+
+  const variants: ImageVariantData[] = [];
+  for (const width of IMAGE_VARIANT_WIDTHS.filter(width => width < original.info.width)) {
+    const variant = await source
+      .clone()
+      .resize({ width })
+      .webp({ quality: VARIANT_QUALITY })
+      .toBuffer({ resolveWithObject: true });
+    variants.push({ width: variant.info.width, height: variant.info.height, mimeType: 'image/webp', data: variant.data });
+  }
+
+  return {
+    data: original.data,
+    width: original.info.width,
+    height: original.info.height,
+    variants,
+  };
+}
@@ -0,0 +1,53 @@
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { MAX_IMAGE_PIXELS } from './image-processing';
+import { MediaStorage } from './media-storage';
+
+export const TILE_SIZE = 256;
+const TILE_QUALITY = 80;
+
+export interface GeneratedTiles {
+  tileSize: number;
+  minLevel: number;
+  maxLevel: number;
+  count: number;
+}
+
+/**
+ * Cut an image into a DeepZoom pyramid of WebP tiles and upload them under
+ * `<prefix><level>/<col>_<row>.webp`. libvips streams the image while tiling,
+ * so this works for images far larger than memory would allow as one bitmap.
+ * The pyramid stops at the first level that fits in one tile, which is level 0.
+ */
+export async function generateTiles(data: Buffer, storage: MediaStorage, prefix: string): Promise<GeneratedTiles> {
+  const workDir = await mkdtemp(path.join(tmpdir(), 'map-tiles-'));
+
+  try {
+    await sharp(data, { limitInputPixels: MAX_IMAGE_PIXELS })
+      .rotate()
+      .webp({ quality: TILE_QUALITY })
+      .tile({ size: TILE_SIZE, overlap: 0, layout: 'dz', depth: 'onetile' })
+      .toFile(path.join(workDir, 'blueprint.dz'));
+
+    const levelsDir = path.join(workDir, 'blueprint_files');
+    const levels = (await readdir(levelsDir)).map(Number).filter(Number.isInteger).sort((a, b) => a - b);
+    if (levels.length === 0) {
+      throw new Error('Tiling produced no levels');
+    }
+
+    let count = 0;
+    for (const level of levels) {
+      for (const file of await readdir(path.join(levelsDir, String(level)))) {
+        const tile = await readFile(path.join(levelsDir, String(level), file));
+        await storage.put(`${prefix}${level}/${file}`, tile, 'image/webp');
+        count++;
+      }
+    }
+
+    return { tileSize: TILE_SIZE, minLevel: levels[0], maxLevel: levels[levels.length - 1], count };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
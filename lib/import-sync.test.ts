@@ -0,0 +1,147 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  applyImportSync,
+  geoLocation,
+  planImportSync,
+  SyncableZone,
+  withImportedValues,
+  zoneLocation,
+  ZoneLocationAdapter,
+} from './import-sync';
+
+// Zones placed by a single geographic position
+type TestZone = SyncableZone & { position: { lat: number; lng: number } };
+
+const location: ZoneLocationAdapter<TestZone> = {
+  get: zone => geoLocation(zone.position),
+  set: (zone, from) => ({ ...zone, position: from.position }),
+};
+
+const OPTIONS = { keepEditedFields: true, deleteMissing: false };
+
+function row(key: string | undefined, title: string, lat = 1, lng = 2): TestZone {
+  return { id: `new-${key}`, externalId: key, content: { title }, position: { lat, lng } };
+}
+
+// A zone as stored after an earlier import of `row`
+function imported(id: string, source: TestZone): TestZone {
+  return { ...withImportedValues(source, location), id };
+}
+
+describe('planImportSync', () => {
+  it('creates zones for new keys and recognizes unchanged ones', () => {
+    const existing = [imported('z1', row('A', 'Library'))];
+
+    const plan = planImportSync(existing, [row('A', 'Library'), row('B', 'Gym')], OPTIONS, location);
+
+    assert.deepEqual(plan.create.map(zone => zone.externalId), ['B']);
+    assert.ok(plan.create[0].importedValues);
+    assert.deepEqual(plan.unchanged.map(zone => zone.id), ['z1']);
+    assert.equal(plan.update.length, 0);
+  });
+
+  it('updates fields the file changed and keeps fields edited since the last import', () => {
+    const zone = imported('z1', row('A', 'Library'));
+    const edited = { ...zone, content: { ...zone.content, title: 'Main Library' } };
+
+    const plan = planImportSync([edited], [row('A', 'Old Library', 5, 6)], OPTIONS, location);
+
+    assert.equal(plan.update.length, 1);
+    const [update] = plan.update;
+    assert.deepEqual(update.fields, ['location']);
+    assert.deepEqual(update.kept, ['title']);
+    assert.equal(update.after.content.title, 'Main Library');
+    assert.deepEqual(update.after.position, { lat: 5, lng: 6 });
+  });
+
+  it('overwrites edited fields when asked to', () => {
+    const zone = imported('z1', row('A', 'Library'));
+    const edited = { ...zone, content: { ...zone.content, title: 'Main Library' } };
+
+    const plan = planImportSync([edited], [row('A', 'Old Library')], { ...OPTIONS, keepEditedFields: false }, location);
+
+    assert.deepEqual(plan.update[0].fields, ['title']);
+    assert.equal(plan.update[0].after.content.title, 'Old Library');
+  });
+
+  it('treats zones imported before values were recorded as unedited', () => {
+    const legacy = { ...row('A', 'Main Library'), id: 'z1' };
+
+    const plan = planImportSync([legacy], [row('A', 'Library')], OPTIONS, location);
+
+    assert.deepEqual(plan.update[0].fields, ['title']);
+  });
+
+  it('only compares the fields the file provides', () => {
+    const zone = imported('z1', row('A', 'Library'));
+
+    const plan = planImportSync([zone], [row('A', 'Renamed', 9, 9)], { ...OPTIONS, fields: ['location'] }, location);
+
+    assert.deepEqual(plan.update[0].fields, ['location']);
+    assert.equal(plan.update[0].after.content.title, 'Library');
+  });
+
+  it('counts rows without a key and uses only the first row of a repeated key', () => {
+    const plan = planImportSync([], [row(undefined, 'No key'), row('A', 'First'), row('A', 'Second'), row('A', 'Third')], OPTIONS, location);
+
+    assert.equal(plan.missingKeys, 1);
+    assert.deepEqual(plan.duplicateKeys, ['A']);
+    assert.deepEqual(plan.create.map(zone => zone.content.title), ['First']);
+  });
+
+  it('deletes zones whose key left the file, but never unlocated rows or zones without a key', () => {
+    const existing = [
+      imported('z1', row('A', 'Kept')),
+      imported('z2', row('B', 'Dropped')),
+      imported('z3', row('C', 'Not geocoded')),
+      { ...row(undefined, 'Drawn by hand'), id: 'z4' },
+    ];
+    const unlocated = new Set(['C', 'D']);
+
+    const plan = planImportSync(existing, [row('A', 'Kept'), row('D', 'New but not geocoded')], { ...OPTIONS, deleteMissing: true }, location, unlocated);
+
+    assert.deepEqual(plan.remove.map(zone => zone.id), ['z2']);
+    assert.equal(plan.create.length, 0);
+    assert.equal(plan.unlocated, 2);
+  });
+
+  it('keeps the location of rows that could not be geocoded', () => {
+    const zone = imported('z1', row('A', 'Library', 1, 2));
+
+    const plan = planImportSync([zone], [row('A', 'Library', 0, 0)], OPTIONS, location, new Set(['A']));
+
+    assert.equal(plan.update.length, 0);
+    assert.deepEqual(plan.unchanged[0].position, { lat: 1, lng: 2 });
+  });
+});
+
+describe('applyImportSync', () => {
+  it('replaces updated zones in place, drops removed ones and appends new ones', () => {
+    const zones = [imported('z1', row('A', 'Library')), imported('z2', row('B', 'Gym')), { ...row(undefined, 'Hand drawn'), id: 'z3' }];
+
+    const plan = planImportSync(zones, [row('A', 'Main Library'), row('C', 'Pool')], { ...OPTIONS, deleteMissing: true }, location);
+    const result = applyImportSync(zones, plan);
+
+    assert.deepEqual(result.map(zone => [zone.id, zone.content.title]), [
+      ['z1', 'Main Library'],
+      ['z3', 'Hand drawn'],
+      ['new-C', 'Pool'],
+    ]);
+  });
+});
+
+describe('zoneLocation', () => {
+  it('compares geolocated zones by position, rounded to about a centimeter', () => {
+    const a = zoneLocation('point', { x: 10, y: 10, lat: 52.520000001, lng: 13.4 });
+    const b = zoneLocation('point', { x: 99, y: 99, lat: 52.52, lng: 13.400000004 });
+
+    assert.deepEqual(a, b);
+  });
+
+  it('falls back to canvas coordinates when a vertex has no position', () => {
+    const coordinates = { points: [{ x: 0, y: 0, lat: 1, lng: 1 }, { x: 5, y: 5 }, { x: 0, y: 5, lat: 2, lng: 2 }] };
+
+    assert.deepEqual(zoneLocation('polygon', coordinates), { type: 'polygon', coordinates });
+  });
+});
@@ -0,0 +1,235 @@
+import { ImportedValues, SyncField, ZoneContent, ZoneCoordinates, ZoneStyle, ZoneType } from './types';
+
+/**
+ * Re-import of a spreadsheet onto zones imported from it earlier. Rows are
+ * matched to zones by a key column stored as the zone's externalId; the values
+ * each zone last received from the file are kept with it, so fields edited in
+ * the editor since then can be told apart and left alone.
+ */
+
+export const SYNC_FIELDS: SyncField[] = ['title', 'description', 'category', 'images', 'videos', 'links', 'color', 'icon', 'location'];
+
+export interface SyncableZone {
+  id: string;
+  content: ZoneContent;
+  style?: ZoneStyle;
+  externalId?: string;
+  importedValues?: ImportedValues;
+}
+
+/**
+ * How an editor reads and moves the location of its zones
+ */
+export interface ZoneLocationAdapter<T> {
+  // Location in a comparable form (see zoneLocation)
+  get(zone: T): unknown;
+  // `zone` moved to the location of `from`
+  set(zone: T, from: T): T;
+}
+
+export interface ImportSyncOptions {
+  // Leave fields changed in the editor since the last import as they are
+  keepEditedFields: boolean;
+  // Delete imported zones whose key is no longer in the file (zones without a key are never deleted)
+  deleteMissing: boolean;
+  // Fields the file provides (mapped columns); the others are left alone. All fields when unset.
+  fields?: SyncField[];
+}
+
+export interface ZoneUpdate<T> {
+  before: T;
+  after: T;
+  // Fields taking the file's value
+  fields: SyncField[];
+  // Fields that differ from the file but were edited since the last import, left as they are
+  kept: SyncField[];
+}
+
+export interface ImportSyncPlan<T> {
+  create: T[];
+  update: ZoneUpdate<T>[];
+  remove: T[];
+  // Zones already matching the file (with their imported values refreshed)
+  unchanged: T[];
+  // Rows without a key value, which can't be synced
+  missingKeys: number;
+  // Rows that couldn't be geocoded: their zones keep their location, and aren't created or deleted
+  unlocated: number;
+  // Keys on more than one row: only the first row is used
+  duplicateKeys: string[];
+}
+
+/**
+ * Comparable location of a canvas zone: the geographic position when every
+ * vertex has one (so moving the map's area doesn't count as a change), else
+ * the canvas coordinates
+ */
+export function zoneLocation(type: ZoneType, coordinates: ZoneCoordinates): unknown {
+  if (type === 'point' && 'lat' in coordinates && coordinates.lat !== undefined && coordinates.lng !== undefined) {
+    return geoLocation({ lat: coordinates.lat, lng: coordinates.lng });
+  }
+  if (type === 'polygon' && 'points' in coordinates && coordinates.points.every(p => p.lat !== undefined && p.lng !== undefined)) {
+    return geoLocation(coordinates.points.map(p => ({ lat: p.lat!, lng: p.lng! })));
+  }
+  return { type, coordinates };
+}
+
+/**
+ * Comparable location of a geographic point, or of a polygon given its vertices
+ */
+export function geoLocation(position: { lat: number; lng: number } | { lat: number; lng: number }[]): unknown {
+  // Rounded to about a centimeter so float noise doesn't read as a move
+  const round = (value: number) => Math.round(value * 1e7) / 1e7;
+  return Array.isArray(position)
+    ? { type: 'polygon', points: position.map(vertex => [round(vertex.lat), round(vertex.lng)]) }
+    : { type: 'point', lat: round(position.lat), lng: round(position.lng) };
+}
+
+/**
+ * Synced fields of a zone in a comparable text form
+ */
+export function syncedValues<T extends SyncableZone>(zone: T, location: ZoneLocationAdapter<T>): Record<SyncField, string> {
+  const { content } = zone;
+  return {
+    title: content.title ?? '',
+    description: content.description ?? '',
+    category: content.category ?? '',
+    images: JSON.stringify(content.images ?? []),
+    videos: JSON.stringify(content.videos ?? []),
+    links: JSON.stringify(content.links ?? []),
+    color: zone.style?.color ?? '',
+    icon: zone.style?.icon ?? '',
+    location: JSON.stringify(location.get(zone)),
+  };
+}
+
+/**
+ * An imported zone with its synced values recorded, so a later sync can spot edits.
+ * Zones without a key are returned as they are.
+ */
+export function withImportedValues<T extends SyncableZone>(zone: T, location: ZoneLocationAdapter<T>): T {
+  return zone.externalId ? { ...zone, importedValues: syncedValues(zone, location) } : zone;
+}
+
+/**
+ * Copy the given fields of an imported zone onto an existing one
+ */
+function mergeFields<T extends SyncableZone>(existing: T, imported: T, fields: SyncField[], location: ZoneLocationAdapter<T>): T {
+  const content: ZoneContent = { ...existing.content };
+  if (fields.includes('title')) content.title = imported.content.title;
+  if (fields.includes('description')) content.description = imported.content.description;
+  if (fields.includes('category')) content.category = imported.content.category;
+  if (fields.includes('images')) content.images = imported.content.images;
+  if (fields.includes('videos')) content.videos = imported.content.videos;
+  if (fields.includes('links')) content.links = imported.content.links;
+
+  let style = existing.style;
+  for (const field of ['color', 'icon'] as const) {
+    if (!fields.includes(field)) continue;
+    style = { ...style, [field]: imported.style?.[field] };
+    if (!style[field]) delete style[field];
+  }
+
+  const merged = { ...existing, content, ...(style !== existing.style && { style }) };
+  return fields.includes('location') ? location.set(merged, imported) : merged;
+}
+
+/**
+ * Dry run of a sync: which zones the file creates, updates and deletes.
+ * `imported` are the file's rows as editor zones (with externalId set from the
+ * key column); rows listed in `unlocatedKeys` couldn't be geocoded, so their
+ * zones keep their location.
+ */
+export function planImportSync<T extends SyncableZone>(
+  existing: T[],
+  imported: T[],
+  options: ImportSyncOptions,
+  location: ZoneLocationAdapter<T>,
+  unlocatedKeys: Set<string> = new Set()
+): ImportSyncPlan<T> {
+  const plan: ImportSyncPlan<T> = {
+    create: [],
+    update: [],
+    remove: [],
+    unchanged: [],
+    missingKeys: 0,
+    unlocated: unlocatedKeys.size,
+    duplicateKeys: [],
+  };
+
+  const existingByKey = new Map<string, T>();
+  existing.forEach(zone => {
+    if (zone.externalId && !existingByKey.has(zone.externalId)) existingByKey.set(zone.externalId, zone);
+  });
+
+  const seenKeys = new Set<string>();
+  for (const zone of imported) {
+    const key = zone.externalId;
+    if (!key) {
+      plan.missingKeys++;
+      continue;
+    }
+    if (seenKeys.has(key)) {
+      if (!plan.duplicateKeys.includes(key)) plan.duplicateKeys.push(key);
+      continue;
+    }
+    seenKeys.add(key);
+
+    const match = existingByKey.get(key);
+    if (!match) {
+      if (!unlocatedKeys.has(key)) plan.create.push(withImportedValues(zone, location));
+      continue;
+    }
+
+    const current = syncedValues(match, location);
+    const incoming = syncedValues(zone, location);
+    const importedValues: ImportedValues = { ...match.importedValues };
+    const fields: SyncField[] = [];
+    const kept: SyncField[] = [];
+
+    for (const field of options.fields ?? SYNC_FIELDS) {
+      if (field === 'location' && unlocatedKeys.has(key)) continue;
+      if (current[field] !== incoming[field]) {
+        // Zones imported before values were recorded have no baseline: nothing counts as edited
+        const baseline = match.importedValues?.[field];
+        const edited = baseline !== undefined && current[field] !== baseline;
+        if (options.keepEditedFields && edited) {
+          kept.push(field);
+          continue;
+        }
+        fields.push(field);
+      }
+      importedValues[field] = incoming[field];
+    }
+
+    const after = { ...mergeFields(match, zone, fields, location), importedValues };
+    if (fields.length > 0 || kept.length > 0) {
+      plan.update.push({ before: match, after, fields, kept });
+    } else {
+      plan.unchanged.push(after);
+    }
+  }
+
+  if (options.deleteMissing) {
+    // Editors may drop rows they can't place, so unlocated keys count as present
+    plan.remove = [...existingByKey.values()]
+      .filter(zone => !seenKeys.has(zone.externalId!) && !unlocatedKeys.has(zone.externalId!));
+  }
+
+  return plan;
+}
+
+/**
+ * Zones after applying a sync plan: updated zones stay in place, new zones come last
+ */
+export function applyImportSync<T extends SyncableZone>(zones: T[], plan: ImportSyncPlan<T>): T[] {
+  const replaced = new Map<string, T>([
+    ...plan.update.map(({ before, after }) => [before.id, after] as [string, T]),
+    ...plan.unchanged.map(zone => [zone.id, zone] as [string, T]),
+  ]);
+  const removed = new Set(plan.remove.map(zone => zone.id));
+  return [
+    ...zones.filter(zone => !removed.has(zone.id)).map(zone => replaced.get(zone.id) ?? zone),
+    ...plan.create,
+  ];
+}
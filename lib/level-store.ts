@@ -0,0 +1,128 @@
+import { Prisma } from './generated/prisma';
+import { findImageMediaId } from './media';
+import { prisma } from './prisma';
+import { TilePyramid } from './types';
+
+/**
+ * Level payload accepted by the map API routes.
+ * `id` is optional: ids that don't belong to the map are treated as client-side
+ * placeholders (zones may reference them through `levelId`) and replaced by
+ * server-generated ids.
+ */
+export interface LevelInput {
+  id?: string;
+  name: string;
+  ordinal: number;
+  imageUrl?: string | null;
+  tiles?: TilePyramid | null;
+  elevation: number;
+}
+
+export interface LevelSyncResult {
+  // Maps every input id (including client placeholders) to the persisted level id
+  idMap: Record<string, string>;
+}
+
+export interface LevelSyncOptions {
+  // Recreate missing levels under their submitted ids (used when restoring a revision)
+  preserveIds?: boolean;
+}
+
+/**
+ * Convert a level payload into the columns stored by Prisma
+ */
+function toLevelData(level: LevelInput) {
+  return {
+    name: level.name,
+    ordinal: level.ordinal,
+    imageUrl: level.imageUrl ?? null,
+    tiles: level.tiles ? JSON.stringify(level.tiles) : null,
+    elevation: level.elevation,
+  };
+}
+
+/**
+ * Diff the submitted levels against the stored levels of a map and apply the
+ * creates, updates and deletes in a single transaction, or in the caller's
+ * transaction when `client` is given. Zones on a deleted level are kept and
+ * become visible on every level.
+ */
+export async function syncMapLevels(
+  mapId: string,
+  levels: LevelInput[],
+  options: LevelSyncOptions = {},
+  client?: Prisma.TransactionClient
+): Promise<LevelSyncResult> {
+  if (!client) {
+    return prisma.$transaction(tx => syncMapLevels(mapId, levels, options, tx));
+  }
+  const tx = client;
+
+  const existingLevels = await tx.level.findMany({
+    where: { mapId },
+    select: { id: true, name: true, ordinal: true, imageUrl: true, tiles: true, elevation: true },
+  });
+  const existingById = new Map(existingLevels.map(level => [level.id, level]));
+
+  const takenIds = new Set<string>(existingById.keys());
+  if (options.preserveIds) {
+    const candidateIds = levels.map(level => level.id).filter((id): id is string => !!id && !existingById.has(id));
+    const taken = await tx.level.findMany({ where: { id: { in: candidateIds } }, select: { id: true } });
+    taken.forEach(level => takenIds.add(level.id));
+  }
+
+  const result: LevelSyncResult = { idMap: {} };
+  const keptIds = new Set<string>();
+
+  for (const level of levels) {
+    const data = toLevelData(level);
+    const existing = level.id ? existingById.get(level.id) : undefined;
+
+    if (existing && !keptIds.has(existing.id)) {
+      keptIds.add(existing.id);
+      result.idMap[existing.id] = existing.id;
+
+      const changed = (Object.keys(data) as (keyof typeof data)[]).some(key => data[key] !== existing[key]);
+      if (changed) {
+        await tx.level.update({
+          where: { id: existing.id },
+          data: {
+            ...data,
+            ...(data.imageUrl !== existing.imageUrl && { imageMediaId: await findImageMediaId(data.imageUrl, tx) }),
+          },
+        });
+      }
+      continue;
+    }
+
+    const reuseId = options.preserveIds && level.id && !takenIds.has(level.id) ? level.id : undefined;
+    const created = await tx.level.create({
+      data: {
+        ...(reuseId && { id: reuseId }),
+        mapId,
+        ...data,
+        imageMediaId: await findImageMediaId(data.imageUrl, tx),
+      },
+      select: { id: true },
+    });
+    if (level.id) {
+      result.idMap[level.id] = created.id;
+      takenIds.add(level.id);
+    }
+  }
+
+  const staleIds = existingLevels.map(level => level.id).filter(id => !keptIds.has(id));
+  if (staleIds.length > 0) {
+    await tx.level.deleteMany({ where: { id: { in: staleIds } } });
+  }
+
+  return result;
+}
+
+/**
+ * Whether a level id belongs to the given map
+ */
+export async function isMapLevel(mapId: string, levelId: string): Promise<boolean> {
+  const level = await prisma.level.findFirst({ where: { id: levelId, mapId }, select: { id: true } });
+  return level !== null;
+}
@@ -0,0 +1,29 @@
+import { Level } from './types';
+
+/**
+ * Level a multi-level map opens on: the ground floor, or the lowest level
+ * when there is none. Null for single-level maps.
+ */
+export function defaultLevel(levels: Level[]): Level | null {
+  if (levels.length === 0) return null;
+  return levels.find(level => level.ordinal === 0)
+    ?? levels.reduce((lowest, level) => (level.ordinal < lowest.ordinal ? level : lowest));
+}
+
+/**
+ * Zones shown on a level: its own zones plus those on every level. Zones
+ * pointing at a level the map doesn't have count as on every level, like the
+ * server stores them.
+ */
+export function zonesOnLevel<T extends { levelId?: string | null }>(zones: T[], levels: Level[], levelId: string | null | undefined): T[] {
+  if (!levelId) return zones;
+  const levelIds = new Set(levels.map(level => level.id));
+  return zones.filter(zone => !zone.levelId || zone.levelId === levelId || !levelIds.has(zone.levelId));
+}
+
+/**
+ * Floor elevation in meters of the level a zone is on (undefined for zones on every level)
+ */
+export function zoneElevation(zone: { levelId?: string | null }, levels: Level[]): number | undefined {
+  return zone.levelId ? levels.find(level => level.id === zone.levelId)?.elevation : undefined;
+}
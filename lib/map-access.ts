@@ -0,0 +1,146 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser, SessionUser } from './auth';
+import { MEDIA_URL_PREFIX } from './media-client';
+import { prisma } from './prisma';
+import { MapMember, MapRole } from './types';
+
+export const MAP_ROLES: MapRole[] = ['viewer', 'editor', 'owner'];
+
+/**
+ * Whether `role` grants at least the `required` access level
+ */
+export function hasRole(role: MapRole | null | undefined, required: MapRole): boolean {
+  return !!role && MAP_ROLES.indexOf(role) >= MAP_ROLES.indexOf(required);
+}
+
+export interface MapAccess {
+  map: { id: string; published: boolean };
+  user: SessionUser | null;
+  role: MapRole | null;
+}
+
+export type AccessCheck<T> = ({ ok: true } & T) | { ok: false; response: NextResponse };
+
+/**
+ * Require a signed-in user (401 otherwise)
+ */
+export async function requireUser(): Promise<AccessCheck<{ user: SessionUser }>> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return { ok: false, response: NextResponse.json({ error: 'Sign in required' }, { status: 401 }) };
+  }
+  return { ok: true, user };
+}
+
+/**
+ * Check the current user's access to a map.
+ * `'public'` lets anyone read a published map and members read an unpublished one.
+ * Unpublished maps answer 404 to non-members so their existence isn't revealed;
+ * otherwise a missing session is a 401 and an insufficient role a 403.
+ */
+export async function authorizeMap(mapId: string, required: MapRole | 'public'): Promise<AccessCheck<MapAccess>> {
+  const user = await getCurrentUser();
+  const map = await prisma.map.findUnique({
+    where: { id: mapId },
+    select: { id: true, published: true },
+  });
+
+  const membership = map && user
+    ? await prisma.mapMember.findUnique({
+      where: { mapId_userId: { mapId, userId: user.id } },
+      select: { role: true },
+    })
+    : null;
+  const role = (membership?.role as MapRole | undefined) ?? null;
+
+  if (!map || (!map.published && !role)) {
+    return { ok: false, response: NextResponse.json({ error: 'Map not found' }, { status: 404 }) };
+  }
+  if (required !== 'public') {
+    if (!user) {
+      return { ok: false, response: NextResponse.json({ error: 'Sign in required' }, { status: 401 }) };
+    }
+    if (!hasRole(role, required)) {
+      return { ok: false, response: NextResponse.json({ error: `This action requires the ${required} role` }, { status: 403 }) };
+    }
+  }
+
+  return { ok: true, map, user, role };
+}
+
+/**
+ * Check the current user's access to stored media. Media referenced by a
+ * published map's published version can be read by anyone (and cached
+ * publicly); media used by a draft only by members of that map. Media no map
+ * uses yet, such as an upload before the map is saved, is readable by id.
+ * Other media answers 404 like an unpublished map.
+ */
+export async function authorizeMedia(mediaId: string): Promise<AccessCheck<{ public: boolean }>> {
+  const published = await prisma.map.count({
+    where: { published: true, publishedSnapshot: { contains: `${MEDIA_URL_PREFIX}${mediaId}` } },
+  });
+  if (published > 0) return { ok: true, public: true };
+
+  const maps = await prisma.map.findMany({
+    where: {
+      OR: [
+        { imageMediaId: mediaId },
+        { levels: { some: { imageMediaId: mediaId } } },
+        { zones: { some: { media: { some: { id: mediaId } } } } },
+      ],
+    },
+    select: { id: true },
+  });
+  if (maps.length === 0) return { ok: true, public: false };
+
+  const user = await getCurrentUser();
+  const memberships = user
+    ? await prisma.mapMember.count({ where: { userId: user.id, mapId: { in: maps.map(map => map.id) } } })
+    : 0;
+  if (memberships === 0) {
+    return { ok: false, response: NextResponse.json({ error: 'Media not found' }, { status: 404 }) };
+  }
+  return { ok: true, public: false };
+}
+
+/**
+ * List the members of a map, owners first
+ */
+export async function listMapMembers(mapId: string): Promise<MapMember[]> {
+  const members = await prisma.mapMember.findMany({
+    where: { mapId },
+    include: { user: { select: { email: true, name: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return members
+    .map(member => ({
+      id: member.id,
+      userId: member.userId,
+      email: member.user.email,
+      ...(member.user.name && { name: member.user.name }),
+      role: member.role as MapRole,
+      createdAt: member.createdAt,
+    }))
+    .sort((a, b) => MAP_ROLES.indexOf(b.role) - MAP_ROLES.indexOf(a.role));
+}
+
+/**
+ * Maps created before accounts existed have no members. Hand them to an
+ * account chosen by the administrator (scripts/claim-maps.ts) so they don't
+ * become unreachable.
+ */
+export async function claimUnownedMaps(userId: string): Promise<number> {
+  const unowned = await prisma.map.findMany({
+    where: { members: { none: {} } },
+    select: { id: true },
+  });
+
+  if (unowned.length > 0) {
+    await prisma.mapMember.createMany({
+      data: unowned.map(map => ({ mapId: map.id, userId, role: 'owner' })),
+    });
+  }
+
+  return unowned.length;
+}
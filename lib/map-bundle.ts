@@ -0,0 +1,227 @@
+import { detectMediaType, ensureMediaTiles, MAX_BLUEPRINT_SIZE, MAX_VIDEO_SIZE, storeMedia } from './media';
+import { MEDIA_URL_PREFIX, parseMediaId } from './media-client';
+import { getMediaStorage } from './media-storage';
+import { toMapSnapshot } from './map-serializer';
+import { prisma } from './prisma';
+import { createTarGz, readTarGz } from './tar-archive';
+import { InteractiveMap, MapSnapshot } from './types';
+import { ValidationIssue, ValidationResult } from './validation';
+
+/**
+ * Map bundles move a map between installations: a .tar.gz holding
+ * manifest.json (the map's snapshot plus a media index) and the stored media
+ * files under media/.
+ */
+
+export const BUNDLE_FORMAT = 'map-bundle';
+// Bump when the manifest layout changes, and add an upgrade from the previous version
+export const BUNDLE_VERSION = 1;
+export const MAX_BUNDLE_SIZE = 500 * 1024 * 1024; // 500MB
+
+const MANIFEST_FILE = 'manifest.json';
+
+// Upgrades a manifest of version n to version n + 1
+const BUNDLE_UPGRADES: Record<number, (manifest: Record<string, unknown>) => Record<string, unknown>> = {};
+
+// Media is already compressed, so a bundle unpacks to about its own size;
+// a file in it can't be larger than media storage accepts
+const BUNDLE_LIMITS = {
+  maxSize: MAX_BUNDLE_SIZE,
+  maxEntrySize: Math.max(MAX_BLUEPRINT_SIZE, MAX_VIDEO_SIZE),
+};
+
+export interface BundleMediaEntry {
+  // Media id on the exporting installation, as used in the snapshot's URLs
+  id: string;
+  hash: string;
+  mimeType: string;
+  // Path of the file within the archive
+  file: string;
+  // Whether the media had a tile pyramid (regenerated on import)
+  tiles: boolean;
+}
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  map: MapSnapshot;
+  media: BundleMediaEntry[];
+}
+
+export interface BundleConflict {
+  // media-reused: the file was already stored here and is shared with the imported map
+  // media-missing: a URL points at media the bundle doesn't contain (the URL is kept as is)
+  // media-rejected: the file type isn't accepted by media storage
+  // duplicate-title: the importing user already has a map with this title
+  type: 'media-reused' | 'media-missing' | 'media-rejected' | 'duplicate-title';
+  message: string;
+  mediaId?: string;
+}
+
+/**
+ * Apply `transform` to every string in a JSON value
+ */
+function mapStrings<T>(value: T, transform: (text: string) => string): T {
+  if (typeof value === 'string') return transform(value) as T;
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, transform)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, transform)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Ids of uploaded media referenced anywhere in a snapshot: blueprint, level
+ * floor plans, tile pyramids and zone images and videos
+ */
+function referencedMediaIds(snapshot: MapSnapshot): string[] {
+  const ids = new Set<string>();
+  mapStrings(snapshot, text => {
+    const id = parseMediaId(text);
+    if (id) ids.add(id);
+    return text;
+  });
+  return [...ids];
+}
+
+/**
+ * Pack a map and every media file it references into a bundle archive.
+ * Media missing from storage is left out (the importer reports it).
+ */
+export async function createMapBundle(map: InteractiveMap): Promise<Buffer> {
+  const snapshot = toMapSnapshot(map);
+  const storage = getMediaStorage();
+  const media: BundleMediaEntry[] = [];
+  const files = [];
+
+  const rows = await prisma.media.findMany({ where: { id: { in: referencedMediaIds(snapshot) } } });
+  for (const row of rows) {
+    const data = await storage.get(row.storageKey);
+    if (!data) {
+      console.warn(`[Bundle] Media ${row.id} is missing from storage (${row.storageKey}), skipping`);
+      continue;
+    }
+    const file = `media/${row.storageKey.split('/').pop()}`;
+    media.push({ id: row.id, hash: row.hash, mimeType: row.mimeType, file, tiles: row.tilesKey !== null });
+    files.push({ name: file, data });
+  }
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    map: snapshot,
+    media,
+  };
+
+  return createTarGz([
+    { name: MANIFEST_FILE, data: Buffer.from(JSON.stringify(manifest, null, 2)) },
+    ...files,
+  ]);
+}
+
+/**
+ * Unpack a bundle archive and bring its manifest up to the current version.
+ * The map snapshot itself is checked later, by the same validation as POST /api/maps.
+ */
+export function readMapBundle(archive: Buffer): ValidationResult<{ manifest: BundleManifest; files: Map<string, Buffer> }> {
+  const fail = (path: string, message: string): ValidationResult<never> => ({ success: false, issues: [{ path, message }] });
+
+  let files: Map<string, Buffer>;
+  try {
+    files = readTarGz(archive, BUNDLE_LIMITS);
+  } catch (error) {
+    if (error instanceof RangeError) {
+      return fail('', `Bundle unpacks to more than ${Math.round(MAX_BUNDLE_SIZE / 1024 / 1024)}MB or holds a file larger than ${Math.round(BUNDLE_LIMITS.maxEntrySize / 1024 / 1024)}MB`);
+    }
+    return fail('', 'Not a map bundle (expected a .tar.gz archive)');
+  }
+
+  const manifestFile = files.get(MANIFEST_FILE);
+  if (!manifestFile) return fail(MANIFEST_FILE, 'Missing from the archive');
+
+  let manifest: Record<string, unknown>;
+  try {
+    manifest = JSON.parse(manifestFile.toString('utf8'));
+  } catch {
+    return fail(MANIFEST_FILE, 'Must be valid JSON');
+  }
+
+  if (manifest?.format !== BUNDLE_FORMAT) return fail('format', `Must be "${BUNDLE_FORMAT}"`);
+  if (typeof manifest.version !== 'number' || !Number.isInteger(manifest.version) || manifest.version < 1) {
+    return fail('version', 'Must be a positive integer');
+  }
+  if (manifest.version > BUNDLE_VERSION) {
+    return fail('version', `Bundle version ${manifest.version} is newer than this installation supports (${BUNDLE_VERSION})`);
+  }
+  while ((manifest.version as number) < BUNDLE_VERSION) {
+    const version = manifest.version as number;
+    manifest = { ...BUNDLE_UPGRADES[version](manifest), version: version + 1 };
+  }
+
+  if (!manifest.map || typeof manifest.map !== 'object') return fail('map', 'Expected an object');
+  const media = Array.isArray(manifest.media) ? manifest.media : [];
+  const issues: ValidationIssue[] = [];
+  media.forEach((entry, index) => {
+    if (!entry || typeof entry.id !== 'string' || typeof entry.file !== 'string' || typeof entry.mimeType !== 'string') {
+      issues.push({ path: `media.${index}`, message: 'Expected id, file and mimeType strings' });
+    }
+  });
+  if (issues.length > 0) return { success: false, issues };
+
+  return { success: true, data: { manifest: { ...manifest, media } as BundleManifest, files } };
+}
+
+/**
+ * Store a bundle's media files and point the given value's media URLs at them.
+ * Returns the rewritten value and the conflicts met on the way.
+ */
+export async function importBundleMedia<T>(
+  manifest: BundleManifest,
+  files: Map<string, Buffer>,
+  value: T
+): Promise<{ value: T; conflicts: BundleConflict[] }> {
+  const conflicts: BundleConflict[] = [];
+  const idMap = new Map<string, string>();
+
+  for (const entry of manifest.media) {
+    const data = files.get(entry.file);
+    if (!data) continue; // Reported below, with the other unresolved references
+
+    // The manifest's type isn't trusted: the file's contents decide
+    if (!detectMediaType(data)) {
+      conflicts.push({ type: 'media-rejected', mediaId: entry.id, message: `${entry.file} has an unsupported type (${entry.mimeType})` });
+      continue;
+    }
+
+    const { media, created } = await storeMedia(data);
+    if (entry.tiles) await ensureMediaTiles(media.id);
+    if (!created) {
+      conflicts.push({ type: 'media-reused', mediaId: entry.id, message: `${entry.file} is already stored here and is shared` });
+    }
+    idMap.set(entry.id, media.id);
+  }
+
+  const unresolved = new Set<string>();
+  const rewritten = mapStrings(value, text => {
+    const id = parseMediaId(text);
+    if (!id) return text;
+    const newId = idMap.get(id);
+    if (!newId) {
+      unresolved.add(id);
+      return text;
+    }
+    return text.replace(`${MEDIA_URL_PREFIX}${id}`, `${MEDIA_URL_PREFIX}${newId}`);
+  });
+
+  unresolved.forEach(id => {
+    if (!conflicts.some(conflict => conflict.mediaId === id)) {
+      conflicts.push({ type: 'media-missing', mediaId: id, message: `Media ${id} is not in the bundle; its URLs were kept as they are` });
+    }
+  });
+
+  return { value: rewritten, conflicts };
+}
@@ -25,7 +25,7 @@
 
 import { Map3DCameraProps } from '@/components/map-3d';
 import { lookAtWithPadding } from './look-at';
-import { MapMarker } from './map-state';
+import { MapMarker, MapPolygon } from './map-state';
 import { createCustomMarkerElement } from './custom-marker-element';
 import { getContrastTextColor } from './color-utils';
 
@@ -88,7 +88,7 @@ export class MapController {
       // Create Google Maps 3D Marker3DInteractiveElement (required for click events)
       const marker = new this.maps3dLib.Marker3DInteractiveElement({
         position: markerData.position,
-        altitudeMode: 'RELATIVE_TO_MESH',
+        altitudeMode: markerData.relativeToGround ? 'RELATIVE_TO_GROUND' : 'RELATIVE_TO_MESH',
         drawsWhenOccluded: true,
       });
 
@@ -194,6 +194,30 @@ export class MapController {
     console.log('[MapController] Total markers added:', this.markerElements.length);
   }
 
+  /**
+   * Adds zone outlines to the map, extruded when they have a height.
+   * Outlines on an upper level float at its elevation; extrusions always reach
+   * down to the ground, so an extruded zone on a level rises to elevation + height.
+   * @param polygons - An array of polygon data to be rendered.
+   */
+  addPolygons(polygons: MapPolygon[]) {
+    polygons.forEach((polygonData) => {
+      const extruded = polygonData.height !== undefined;
+      const altitude = (polygonData.altitude ?? 0) + (polygonData.height ?? 0);
+      const polygon = new this.maps3dLib.Polygon3DElement({
+        altitudeMode: altitude > 0 ? this.maps3dLib.AltitudeMode.RELATIVE_TO_GROUND : this.maps3dLib.AltitudeMode.CLAMP_TO_GROUND,
+        extruded,
+        drawsOccludedSegments: true,
+        fillColor: polygonData.color,
+        fillOpacity: 0.35,
+        strokeColor: polygonData.color,
+        strokeWidth: 2,
+        outerCoordinates: polygonData.outline.map(vertex => ({ ...vertex, altitude })),
+      });
+      this.map.appendChild(polygon);
+    });
+  }
+
   /**
    * Get all marker elements
    */
@@ -0,0 +1,259 @@
+import { GeoFrame, projectZone } from './coordinate-converter';
+import { zonesToCSV } from './csv-generator';
+import { zoneElevation } from './levels';
+import { GeoJSONGeometry, GeoJSONPosition, InteractiveMap, Level, Zone } from './types';
+
+export type ExportFormat = 'geojson' | 'kml' | 'csv';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['geojson', 'kml', 'csv'];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  geojson: 'application/geo+json',
+  kml: 'application/vnd.google-earth.kml+xml',
+  csv: 'text/csv',
+};
+
+export interface MapExport {
+  body: string;
+  contentType: string;
+  filename: string;
+}
+
+export interface GeoJSONFeature {
+  type: 'Feature';
+  id: string;
+  geometry: GeoJSONGeometry;
+  properties: Record<string, unknown>;
+}
+
+export interface GeoJSONFeatureCollection {
+  type: 'FeatureCollection';
+  name: string;
+  features: GeoJSONFeature[];
+}
+
+interface ExportedZone {
+  zone: Zone;
+  geometry: GeoJSONGeometry;
+  radiusMeters?: number;
+  level?: Level;
+  elevation?: number;
+}
+
+/**
+ * Zones of a map projected onto the globe, with the level each one is on
+ */
+function projectZones(map: InteractiveMap, frame: GeoFrame): ExportedZone[] {
+  return map.zones.map(zone => {
+    const { geometry, radiusMeters } = projectZone(
+      zone.coordinates,
+      zone.type,
+      map.canvasConfig.width,
+      map.canvasConfig.height,
+      frame
+    );
+    const level = zone.levelId ? map.levels.find(l => l.id === zone.levelId) : undefined;
+    return { zone, geometry, radiusMeters, level, elevation: zoneElevation(zone, map.levels) };
+  });
+}
+
+/**
+ * Every zone of a map as an RFC 7946 FeatureCollection: full geometry, content
+ * and style in the feature properties. Unset fields are left out.
+ */
+export function mapToGeoJSON(map: InteractiveMap, frame: GeoFrame): GeoJSONFeatureCollection {
+  const features = projectZones(map, frame).map(({ zone, geometry, radiusMeters, level, elevation }): GeoJSONFeature => {
+    const { content } = zone;
+    const style = zone.style ?? {};
+    const properties: Record<string, unknown> = {
+      name: content.title || 'Unnamed Zone',
+      zoneType: zone.type,
+      description: content.description,
+      category: content.category,
+      images: content.images?.length ? content.images : undefined,
+      videos: content.videos?.length ? content.videos : undefined,
+      links: content.links?.length ? content.links : undefined,
+      color: style.color,
+      borderColor: style.borderColor,
+      opacity: style.opacity,
+      icon: style.icon,
+      height: style.height,
+      radiusMeters,
+      level: level?.name,
+      elevation,
+    };
+
+    return {
+      type: 'Feature',
+      id: zone.id,
+      geometry,
+      properties: Object.fromEntries(Object.entries(properties).filter(([, value]) => value !== undefined)),
+    };
+  });
+
+  return { type: 'FeatureCollection', name: map.title, features };
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * CSS hex color (#rgb or #rrggbb) as a KML aabbggrr color, or null for other color syntaxes
+ */
+function kmlColor(color: string | undefined, opacity = 1): string | null {
+  const match = color?.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return null;
+  const hex = match[1].length === 3 ? match[1].replace(/./g, c => c + c) : match[1];
+  const alpha = Math.round(Math.min(Math.max(opacity, 0), 1) * 255).toString(16).padStart(2, '0');
+  return `${alpha}${hex.slice(4, 6)}${hex.slice(2, 4)}${hex.slice(0, 2)}`.toLowerCase();
+}
+
+function kmlStyle(zone: Zone): string {
+  const style = zone.style ?? {};
+  const fill = kmlColor(style.color, style.opacity ?? (zone.type === 'point' ? 1 : 0.5));
+  const line = kmlColor(style.borderColor ?? style.color);
+  const parts: string[] = [];
+
+  if (zone.type === 'point') {
+    if (fill) parts.push(`<IconStyle><color>${fill}</color></IconStyle>`);
+  } else {
+    if (line) parts.push(`<LineStyle><color>${line}</color><width>2</width></LineStyle>`);
+    if (fill) parts.push(`<PolyStyle><color>${fill}</color></PolyStyle>`);
+  }
+
+  return parts.length > 0 ? `<Style>${parts.join('')}</Style>` : '';
+}
+
+/**
+ * Balloon HTML of a zone: description, images and links
+ */
+function kmlDescription(zone: Zone): string {
+  const { content } = zone;
+  const html: string[] = [];
+  if (content.description) html.push(`<p>${escapeXml(content.description)}</p>`);
+  content.images?.forEach(url => html.push(`<img src="${escapeXml(url)}" width="300"/>`));
+  content.links?.forEach(link => html.push(`<p><a href="${escapeXml(link.url)}">${escapeXml(link.label || link.url)}</a></p>`));
+  content.videos?.forEach(url => html.push(`<p><a href="${escapeXml(url)}">${escapeXml(url)}</a></p>`));
+  return html.join('');
+}
+
+function kmlExtendedData(exported: ExportedZone): string {
+  const { zone, radiusMeters, level, elevation } = exported;
+  const data: [string, string | number | undefined][] = [
+    ['zoneType', zone.type],
+    ['category', zone.content.category],
+    ['icon', zone.style?.icon],
+    ['height', zone.style?.height],
+    ['radiusMeters', radiusMeters],
+    ['level', level?.name],
+    ['elevation', elevation],
+  ];
+  const fields = data
+    .filter((entry): entry is [string, string | number] => entry[1] !== undefined && entry[1] !== '')
+    .map(([name, value]) => `<Data name="${name}"><value>${escapeXml(String(value))}</value></Data>`);
+  return fields.length > 0 ? `<ExtendedData>${fields.join('')}</ExtendedData>` : '';
+}
+
+/**
+ * KML geometry of a zone. Zones on a level sit at its elevation, and area
+ * zones with a height are extruded from the ground to their top.
+ */
+function kmlGeometry({ zone, geometry, elevation }: ExportedZone): string {
+  const height = zone.type !== 'point' ? zone.style?.height : undefined;
+  const altitude = height !== undefined ? (elevation ?? 0) + height : elevation;
+  const coordinate = ([lng, lat]: GeoJSONPosition) =>
+    altitude !== undefined ? `${lng},${lat},${altitude}` : `${lng},${lat}`;
+  const altitudeMode = altitude !== undefined
+    ? `${height !== undefined ? '<extrude>1</extrude>' : ''}<altitudeMode>relativeToGround</altitudeMode>`
+    : '';
+
+  if (geometry.type === 'Point') {
+    return `<Point>${altitudeMode}<coordinates>${coordinate(geometry.coordinates)}</coordinates></Point>`;
+  }
+
+  const [outer, ...holes] = geometry.coordinates;
+  const ring = (positions: GeoJSONPosition[]) =>
+    `<LinearRing><coordinates>${positions.map(coordinate).join(' ')}</coordinates></LinearRing>`;
+  return `<Polygon>${altitudeMode}<outerBoundaryIs>${ring(outer)}</outerBoundaryIs>` +
+    holes.map(hole => `<innerBoundaryIs>${ring(hole)}</innerBoundaryIs>`).join('') +
+    '</Polygon>';
+}
+
+function kmlPlacemark(exported: ExportedZone): string {
+  const { zone } = exported;
+  const description = kmlDescription(zone);
+  return [
+    `<Placemark id="${escapeXml(zone.id)}">`,
+    `<name>${escapeXml(zone.content.title || 'Unnamed Zone')}</name>`,
+    description ? `<description>${escapeXml(description)}</description>` : '',
+    kmlStyle(zone),
+    kmlExtendedData(exported),
+    kmlGeometry(exported),
+    '</Placemark>',
+  ].join('');
+}
+
+/**
+ * Every zone of a map as a KML 2.2 document. Multi-level maps get one folder
+ * per level (top floor first) plus one for zones on every level.
+ */
+export function mapToKML(map: InteractiveMap, frame: GeoFrame): string {
+  const exported = projectZones(map, frame);
+
+  let body: string;
+  if (map.levels.length === 0) {
+    body = exported.map(kmlPlacemark).join('\n');
+  } else {
+    const folder = (name: string, zones: ExportedZone[]) =>
+      `<Folder><name>${escapeXml(name)}</name>\n${zones.map(kmlPlacemark).join('\n')}\n</Folder>`;
+    const folders = [...map.levels]
+      .sort((a, b) => b.ordinal - a.ordinal)
+      .map(level => folder(level.name, exported.filter(entry => entry.level?.id === level.id)));
+    const everyLevel = exported.filter(entry => !entry.level);
+    if (everyLevel.length > 0) folders.push(folder('All levels', everyLevel));
+    body = folders.join('\n');
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '<Document>',
+    `<name>${escapeXml(map.title)}</name>`,
+    map.description ? `<description>${escapeXml(map.description)}</description>` : '',
+    body,
+    '</Document>',
+    '</kml>',
+  ].filter(Boolean).join('\n') + '\n';
+}
+
+/**
+ * File name for a download of a map: its title as a slug plus the extension
+ */
+export function exportFilename(title: string, extension: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'map';
+  return `${slug}.${extension}`;
+}
+
+/**
+ * Export a map's zones in the given format. Returns null when the map has no
+ * geographic bounds to place them with.
+ */
+export function exportMap(map: InteractiveMap, format: ExportFormat): MapExport | null {
+  if (!map.geographicBounds) return null;
+  // Georeferenced blueprints convert through their control point fit
+  const frame = map.canvasConfig.georeference ?? map.geographicBounds;
+
+  const body = format === 'geojson'
+    ? JSON.stringify(mapToGeoJSON(map, frame), null, 2)
+    : format === 'kml'
+      ? mapToKML(map, frame)
+      : zonesToCSV(map.zones, map.canvasConfig, map.geographicBounds);
+
+  return { body, contentType: CONTENT_TYPES[format], filename: exportFilename(map.title, format) };
+}
@@ -0,0 +1,196 @@
+import { Prisma } from './generated/prisma';
+import { prisma } from './prisma';
+import { includeMapContent, serializeMap, toMapSnapshot } from './map-serializer';
+import { findImageMediaId } from './media';
+import { InteractiveMap, MapRevision, MapRevisionSummary, MapSnapshot } from './types';
+import { syncMapLevels } from './level-store';
+import { syncMapZones } from './zone-store';
+
+type DbClient = Prisma.TransactionClient;
+
+/**
+ * Optional author and message attached to a revision
+ */
+export interface RevisionNote {
+  author?: string | null;
+  message?: string | null;
+}
+
+/**
+ * Revision row as stored by Prisma (snapshot is a JSON string)
+ */
+export interface MapRevisionRecord {
+  id: string;
+  mapId: string;
+  snapshot: string;
+  author: string | null;
+  message: string | null;
+  createdAt: Date;
+}
+
+export function serializeRevisionSummary(revision: Omit<MapRevisionRecord, 'snapshot'>): MapRevisionSummary {
+  return {
+    id: revision.id,
+    mapId: revision.mapId,
+    ...(revision.author && { author: revision.author }),
+    ...(revision.message && { message: revision.message }),
+    createdAt: revision.createdAt,
+  };
+}
+
+export function serializeRevision(revision: MapRevisionRecord): MapRevision {
+  return {
+    ...serializeRevisionSummary(revision),
+    snapshot: JSON.parse(revision.snapshot) as MapSnapshot,
+  };
+}
+
+/**
+ * Load the live state of a map as a snapshot, or null if the map doesn't exist
+ */
+export async function loadMapSnapshot(mapId: string, client: DbClient = prisma): Promise<MapSnapshot | null> {
+  const map = await client.map.findUnique({
+    where: { id: mapId },
+    include: includeMapContent,
+  });
+  return map ? toMapSnapshot(serializeMap(map)) : null;
+}
+
+/**
+ * Apply an update to a map's draft, then set updatedAt so the listing agrees
+ * with the editor: listings tell unpublished changes from updatedAt while the
+ * editor compares the draft's snapshot with the published one. A save that
+ * changes nothing keeps updatedAt, and one that brings the draft back to the
+ * published version resets it to publishedAt.
+ * Runs in a single transaction, or in the caller's transaction when `client` is given;
+ * `update` must write through the client it's handed.
+ */
+export async function updateMapDraft<T>(
+  mapId: string,
+  update: (tx: DbClient) => Promise<T>,
+  client?: DbClient
+): Promise<T> {
+  if (!client) {
+    return prisma.$transaction(tx => updateMapDraft(mapId, update, tx));
+  }
+  const tx = client;
+
+  const before = await tx.map.findUnique({ where: { id: mapId }, select: { updatedAt: true } });
+  const snapshot = JSON.stringify(await loadMapSnapshot(mapId, tx));
+
+  const result = await update(tx);
+
+  const map = await tx.map.findUnique({
+    where: { id: mapId },
+    select: { published: true, publishedSnapshot: true, publishedAt: true },
+  });
+  if (!before || !map) return result;
+
+  const updated = JSON.stringify(await loadMapSnapshot(mapId, tx));
+  if (map.published && map.publishedAt && map.publishedSnapshot === updated) {
+    await tx.map.update({ where: { id: mapId }, data: { updatedAt: map.publishedAt } });
+  } else if (updated === snapshot) {
+    await tx.map.update({ where: { id: mapId }, data: { updatedAt: before.updatedAt } });
+  }
+  return result;
+}
+
+/**
+ * Record the live state of a map as a new revision.
+ * Returns null (and records nothing) when the state matches the latest revision,
+ * e.g. after toggling the published flag.
+ */
+export async function recordMapRevision(
+  mapId: string,
+  note: RevisionNote = {},
+  client: DbClient = prisma
+): Promise<MapRevisionSummary | null> {
+  const snapshot = await loadMapSnapshot(mapId, client);
+  if (!snapshot) return null;
+
+  const serialized = JSON.stringify(snapshot);
+  const latest = await client.mapRevision.findFirst({
+    where: { mapId },
+    orderBy: { createdAt: 'desc' },
+    select: { snapshot: true },
+  });
+  if (latest?.snapshot === serialized) return null;
+
+  const revision = await client.mapRevision.create({
+    data: {
+      mapId,
+      snapshot: serialized,
+      author: note.author || null,
+      message: note.message || null,
+    },
+  });
+
+  return serializeRevisionSummary(revision);
+}
+
+/**
+ * Maps created before revision history existed have no revisions yet.
+ * Record their current state before the first tracked change so it can be undone.
+ */
+export async function ensureBaselineRevision(mapId: string, client: DbClient = prisma): Promise<void> {
+  const count = await client.mapRevision.count({ where: { mapId } });
+  if (count === 0) {
+    await recordMapRevision(mapId, { message: 'Initial version' }, client);
+  }
+}
+
+/**
+ * Restore a revision into the live map. Levels and zones keep the ids they had in the revision.
+ * The restore runs in a single transaction and is itself recorded as a new revision,
+ * so a failure leaves the draft untouched and a successful restore can be undone too.
+ * Returns null if the revision doesn't belong to the map.
+ */
+export async function restoreMapRevision(mapId: string, revisionId: string, note: RevisionNote = {}): Promise<InteractiveMap | null> {
+  return prisma.$transaction(async (tx) => {
+    const revision = await tx.mapRevision.findFirst({ where: { id: revisionId, mapId } });
+    if (!revision) return null;
+
+    const { snapshot } = serializeRevision(revision);
+
+    await tx.map.update({
+      where: { id: mapId },
+      data: {
+        title: snapshot.title,
+        description: snapshot.description ?? null,
+        geographicBounds: snapshot.geographicBounds ? JSON.stringify(snapshot.geographicBounds) : null,
+        canvasConfig: JSON.stringify(snapshot.canvasConfig),
+        imageUrl: snapshot.imageUrl ?? null,
+        imageMediaId: await findImageMediaId(snapshot.imageUrl, tx),
+        useBaseMap: snapshot.useBaseMap,
+        categories: snapshot.categories.length > 0 ? JSON.stringify(snapshot.categories) : null,
+        aiNavigatorEnabled: snapshot.aiNavigatorEnabled,
+        aiNavigatorPrompt: snapshot.aiNavigatorPrompt ?? null,
+      },
+    });
+
+    await syncMapLevels(mapId, snapshot.levels ?? [], { preserveIds: true }, tx);
+    await syncMapZones(
+      mapId,
+      snapshot.zones.map(zone => ({
+        ...zone,
+        style: zone.style ?? null,
+        levelId: zone.levelId ?? null,
+        externalId: zone.externalId ?? null,
+        importedValues: zone.importedValues ?? null,
+      })),
+      { preserveIds: true },
+      tx
+    );
+
+    await recordMapRevision(mapId, {
+      author: note.author,
+      message: note.message || `Restored revision from ${revision.createdAt.toISOString()}`,
+    }, tx);
+
+    const map = await tx.map.findUniqueOrThrow({
+      where: { id: mapId },
+      include: includeMapContent,
+    });
+    return serializeMap(map);
+  });
+}
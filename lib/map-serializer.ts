@@ -0,0 +1,232 @@
+import { Prisma } from './generated/prisma';
+import { CanvasConfig, GeographicBounds, ImportedValues, InteractiveMap, Level, MapRole, MapSnapshot, MapSummary, TilePyramid, Zone, ZoneContent, ZoneCoordinates, ZoneStyle, ZoneType } from './types';
+
+/**
+ * Prisma `include` loading a map's levels (lowest first) and zones (oldest
+ * first) in a stable order, so snapshots of unchanged maps compare equal
+ */
+export const includeMapContent = {
+  levels: { orderBy: [{ ordinal: 'asc' }, { createdAt: 'asc' }, { id: 'asc' }] },
+  zones: { orderBy: [{ createdAt: 'asc' }, { id: 'asc' }] },
+} satisfies Prisma.MapInclude;
+
+/**
+ * Prisma `select` for the columns a map summary needs (no zones or canvas data)
+ */
+export const mapSummarySelect = {
+  id: true,
+  title: true,
+  description: true,
+  geographicBounds: true,
+  useBaseMap: true,
+  published: true,
+  publishedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  _count: { select: { zones: true } },
+} satisfies Prisma.MapSelect;
+
+export type MapSummaryRecord = Prisma.MapGetPayload<{ select: typeof mapSummarySelect }>;
+
+/**
+ * Zone row as stored by Prisma (JSON-string columns)
+ */
+export interface ZoneRecord {
+  id: string;
+  mapId: string;
+  type: string;
+  coordinates: string;
+  content: string;
+  style: string | null;
+  levelId: string | null;
+  externalId: string | null;
+  importedValues: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Level row as stored by Prisma
+ */
+export interface LevelRecord {
+  id: string;
+  name: string;
+  ordinal: number;
+  imageUrl: string | null;
+  tiles: string | null;
+  elevation: number;
+}
+
+/**
+ * Map row as stored by Prisma, with its zones included
+ */
+export interface MapRecord {
+  id: string;
+  title: string;
+  description: string | null;
+  geographicBounds: string | null;
+  canvasConfig: string;
+  imageUrl: string | null;
+  useBaseMap: boolean;
+  published: boolean;
+  publishedSnapshot: string | null;
+  publishedAt: Date | null;
+  categories: string | null;
+  aiNavigatorEnabled: boolean;
+  aiNavigatorPrompt: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  levels: LevelRecord[];
+  zones: ZoneRecord[];
+}
+
+/**
+ * Parse a stored zone row into the client-side Zone shape
+ */
+export function serializeZone(zone: ZoneRecord): Zone {
+  return {
+    id: zone.id,
+    mapId: zone.mapId,
+    type: zone.type as ZoneType,
+    coordinates: JSON.parse(zone.coordinates) as ZoneCoordinates,
+    content: JSON.parse(zone.content) as ZoneContent,
+    ...(zone.style && { style: JSON.parse(zone.style) as ZoneStyle }),
+    ...(zone.levelId && { levelId: zone.levelId }),
+    ...(zone.externalId && { externalId: zone.externalId }),
+    ...(zone.importedValues && { importedValues: JSON.parse(zone.importedValues) as ImportedValues }),
+    createdAt: zone.createdAt,
+    updatedAt: zone.updatedAt,
+  };
+}
+
+/**
+ * Parse a stored level row into the client-side Level shape
+ */
+export function serializeLevel(level: LevelRecord): Level {
+  return {
+    id: level.id,
+    name: level.name,
+    ordinal: level.ordinal,
+    ...(level.imageUrl && { imageUrl: level.imageUrl }),
+    ...(level.tiles && { tiles: JSON.parse(level.tiles) as TilePyramid }),
+    elevation: level.elevation,
+  };
+}
+
+/**
+ * Strip ids, timestamps and publish state from a map, keeping its editable content
+ */
+export function toMapSnapshot(map: InteractiveMap): MapSnapshot {
+  return {
+    title: map.title,
+    ...(map.description && { description: map.description }),
+    ...(map.geographicBounds && { geographicBounds: map.geographicBounds }),
+    canvasConfig: map.canvasConfig,
+    ...(map.imageUrl && { imageUrl: map.imageUrl }),
+    useBaseMap: map.useBaseMap,
+    categories: map.categories,
+    aiNavigatorEnabled: map.aiNavigatorEnabled,
+    ...(map.aiNavigatorPrompt && { aiNavigatorPrompt: map.aiNavigatorPrompt }),
+    // Left out for single-level maps so their snapshots match those taken before levels existed
+    ...(map.levels.length > 0 && { levels: map.levels }),
+    zones: map.zones.map(zone => ({
+      id: zone.id,
+      type: zone.type,
+      coordinates: zone.coordinates,
+      content: zone.content,
+      ...(zone.style && { style: zone.style }),
+      ...(zone.levelId && { levelId: zone.levelId }),
+      ...(zone.externalId && { externalId: zone.externalId }),
+      ...(zone.importedValues && { importedValues: zone.importedValues }),
+    })),
+  };
+}
+
+/**
+ * Parse a stored map row (with zones) into the client-side InteractiveMap shape.
+ * This is the draft: the live rows editors modify.
+ */
+export function serializeMap(map: MapRecord): InteractiveMap {
+  const draft: InteractiveMap = {
+    id: map.id,
+    title: map.title,
+    ...(map.description && { description: map.description }),
+    ...(map.geographicBounds && { geographicBounds: JSON.parse(map.geographicBounds) as GeographicBounds }),
+    canvasConfig: JSON.parse(map.canvasConfig) as CanvasConfig,
+    ...(map.imageUrl && { imageUrl: map.imageUrl }),
+    useBaseMap: map.useBaseMap,
+    published: map.published,
+    ...(map.publishedAt && { publishedAt: map.publishedAt }),
+    categories: map.categories ? (JSON.parse(map.categories) as string[]) : [],
+    aiNavigatorEnabled: map.aiNavigatorEnabled,
+    ...(map.aiNavigatorPrompt && { aiNavigatorPrompt: map.aiNavigatorPrompt }),
+    levels: map.levels.map(serializeLevel),
+    zones: map.zones.map(serializeZone),
+    createdAt: map.createdAt,
+    updatedAt: map.updatedAt,
+  };
+
+  draft.hasUnpublishedChanges = map.published && map.publishedSnapshot !== null
+    ? map.publishedSnapshot !== JSON.stringify(toMapSnapshot(draft))
+    : !map.published;
+
+  return draft;
+}
+
+/**
+ * Build the version viewers see. Maps published before drafts existed have no
+ * snapshot and fall back to their live rows.
+ * Returns null for unpublished maps.
+ */
+export function serializePublishedMap(map: MapRecord): InteractiveMap | null {
+  if (!map.published) return null;
+  if (!map.publishedSnapshot || !map.publishedAt) {
+    const live = serializeMap(map);
+    delete live.hasUnpublishedChanges;
+    return live;
+  }
+
+  const snapshot = JSON.parse(map.publishedSnapshot) as MapSnapshot;
+  const publishedAt = map.publishedAt;
+
+  return {
+    id: map.id,
+    ...snapshot,
+    levels: snapshot.levels ?? [],
+    published: true,
+    publishedAt,
+    zones: snapshot.zones.map(zone => ({
+      ...zone,
+      mapId: map.id,
+      createdAt: publishedAt,
+      updatedAt: publishedAt,
+    })),
+    createdAt: map.createdAt,
+    updatedAt: publishedAt,
+  };
+}
+
+/**
+ * Build a listing entry from a summary row. Unpublished changes are detected
+ * from timestamps: publishing stamps updatedAt and every later edit bumps it,
+ * while saves that leave the draft as it was don't (see updateMapDraft).
+ */
+export function serializeMapSummary(map: MapSummaryRecord, role: MapRole, categoryCounts: Record<string, number>): MapSummary {
+  return {
+    id: map.id,
+    title: map.title,
+    ...(map.description && { description: map.description }),
+    published: map.published,
+    ...(map.publishedAt && { publishedAt: map.publishedAt }),
+    hasUnpublishedChanges: map.published
+      ? !!map.publishedAt && map.updatedAt > map.publishedAt
+      : true,
+    hasGeographicBounds: map.geographicBounds !== null,
+    useBaseMap: map.useBaseMap,
+    role,
+    zoneCount: map._count.zones,
+    categoryCounts,
+    createdAt: map.createdAt,
+    updatedAt: map.updatedAt,
+  };
+}
@@ -20,6 +20,17 @@ export interface MapMarker {
   color?: string; // Badge background color
   accentColor?: string; // Border/accent color (darker shade)
   textColor?: string; // Label text color (auto-calculated for contrast if not provided)
+  relativeToGround?: boolean; // Altitude above the ground instead of on top of buildings (floors of multi-level maps)
+}
+
+/**
+ * Map Polygon type (polygon zone outlines)
+ */
+export interface MapPolygon {
+  outline: { lat: number; lng: number }[];
+  color: string;
+  height?: number; // Extrusion height in meters (draped on the ground when not set)
+  altitude?: number; // Floor elevation in meters for zones on a level of a multi-level map
 }
 
 /**
@@ -0,0 +1,69 @@
+import { prisma } from './prisma';
+import { findImageMediaId, linkZoneMedia, zoneMediaIds } from './media';
+import { includeMapContent, serializeMap } from './map-serializer';
+import { syncMapLevels } from './level-store';
+import { CreateMapInput } from './validation';
+import { syncMapZones, toZoneCreateData } from './zone-store';
+import { InteractiveMap } from './types';
+
+/**
+ * Create an unpublished map with its levels and zones, owned by the given user.
+ * Recording the first revision is left to the caller.
+ */
+export async function createMap(data: CreateMapInput, ownerId: string): Promise<InteractiveMap> {
+  const {
+    title,
+    description,
+    geographicBounds,
+    canvasConfig,
+    imageUrl,
+    useBaseMap,
+    categories,
+    levels,
+    zones,
+    aiNavigatorEnabled,
+    aiNavigatorPrompt
+  } = data;
+
+  // Create map with zones
+  let map = await prisma.map.create({
+    data: {
+      title,
+      description,
+      geographicBounds: geographicBounds ? JSON.stringify(geographicBounds) : null,
+      canvasConfig: JSON.stringify(canvasConfig),
+      imageUrl,
+      imageMediaId: await findImageMediaId(imageUrl),
+      useBaseMap,
+      published: false,
+      categories: categories.length > 0 ? JSON.stringify(categories) : null,
+      aiNavigatorEnabled,
+      aiNavigatorPrompt,
+      // Zones of a multi-level map are added once their levels exist
+      ...(levels.length === 0 && {
+        zones: {
+          create: zones.map(toZoneCreateData),
+        },
+      }),
+      members: {
+        create: { userId: ownerId, role: 'owner' },
+      },
+    },
+    include: includeMapContent,
+  });
+
+  if (levels.length > 0) {
+    const { idMap } = await syncMapLevels(map.id, levels);
+    await syncMapZones(map.id, zones, { levelIdMap: idMap });
+    map = await prisma.map.findUniqueOrThrow({ where: { id: map.id }, include: includeMapContent });
+  }
+
+  const created = serializeMap(map);
+  for (const zone of created.zones) {
+    if (zoneMediaIds(zone.content).length > 0) {
+      await linkZoneMedia(zone.id, zone.content);
+    }
+  }
+
+  return created;
+}
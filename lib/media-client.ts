@@ -0,0 +1,84 @@
+import { MediaPurpose, UploadedMedia } from './types';
+
+/**
+ * Browser-safe helpers for media served by /api/media
+ */
+export const MEDIA_URL_PREFIX = '/api/media/';
+
+// Widths of the downscaled WebP variants generated for uploaded images
+export const IMAGE_VARIANT_WIDTHS = [320, 640, 1280, 2560];
+export const THUMBNAIL_WIDTH = 320;
+// Blueprints wider than this are edited and displayed at this width
+export const WEB_IMAGE_WIDTH = 2560;
+
+export function mediaUrl(id: string, width?: number): string {
+  return width ? `${MEDIA_URL_PREFIX}${id}?w=${width}` : `${MEDIA_URL_PREFIX}${id}`;
+}
+
+/**
+ * Tile URL template of a media's zoom pyramid (see TilePyramid)
+ */
+export function tileUrlTemplate(id: string): string {
+  return `${MEDIA_URL_PREFIX}${id}/tiles/{level}/{col}_{row}.webp`;
+}
+
+/**
+ * Media id behind a /api/media URL (relative or absolute), or null for any other URL
+ */
+export function parseMediaId(url: string): string | null {
+  const pathname = url.startsWith('/') ? url : safePathname(url);
+  if (!pathname?.startsWith(MEDIA_URL_PREFIX)) return null;
+
+  const id = pathname.slice(MEDIA_URL_PREFIX.length).split(/[/?#]/)[0];
+  return id || null;
+}
+
+function safePathname(url: string): string | null {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * `srcset` for an uploaded image URL: the server answers `?w=` with the
+ * smallest variant at least that wide. Undefined for external URLs.
+ */
+export function imageSrcSet(url: string): string | undefined {
+  const id = parseMediaId(url);
+  if (!id) return undefined;
+  return IMAGE_VARIANT_WIDTHS.map(width => `${mediaUrl(id, width)} ${width}w`).join(', ');
+}
+
+/**
+ * Small version of an image for gallery thumbnails (external URLs are returned unchanged)
+ */
+export function thumbnailUrl(url: string): string {
+  const id = parseMediaId(url);
+  return id ? mediaUrl(id, THUMBNAIL_WIDTH) : url;
+}
+
+/**
+ * Whether a zone video is a file we host (played with <video>) rather than an embed link
+ */
+export function isHostedVideo(url: string): boolean {
+  return url.startsWith('data:video/') || parseMediaId(url) !== null;
+}
+
+/**
+ * Upload a file to media storage. Identical files resolve to the same media.
+ * Large blueprints are also cut into a tile pyramid.
+ */
+export async function uploadMedia(file: File, purpose: MediaPurpose = 'content'): Promise<UploadedMedia> {
+  const form = new FormData();
+  form.append('file', file);
+  form.append('purpose', purpose);
+
+  const response = await fetch('/api/media', { method: 'POST', body: form });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Failed to upload ${file.name}`);
+  }
+  return data as UploadedMedia;
+}
@@ -0,0 +1,136 @@
+import { mkdir, open, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { DeleteObjectCommand, GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+
+/**
+ * Inclusive byte range, as requested by an HTTP Range header
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Backend that stores media file contents under opaque keys.
+ * Metadata (hash, type, size) lives in the Media table.
+ */
+export interface MediaStorage {
+  put(key: string, data: Buffer, mimeType: string): Promise<void>;
+  get(key: string, range?: ByteRange): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Stores files on the local filesystem (MEDIA_LOCAL_DIR, default ./storage/media)
+ */
+export class LocalMediaStorage implements MediaStorage {
+  constructor(private readonly root: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid media key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+  }
+
+  async get(key: string, range?: ByteRange): Promise<Buffer | null> {
+    const filePath = this.resolve(key);
+    try {
+      if (!range) return await readFile(filePath);
+
+      const file = await open(filePath, 'r');
+      try {
+        const buffer = Buffer.alloc(range.end - range.start + 1);
+        const { bytesRead } = await file.read(buffer, 0, buffer.length, range.start);
+        return buffer.subarray(0, bytesRead);
+      } finally {
+        await file.close();
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+}
+
+/**
+ * Stores files in an S3-compatible bucket (AWS S3, Cloudflare R2, MinIO, ...)
+ */
+export class S3MediaStorage implements MediaStorage {
+  private readonly client: S3Client;
+
+  constructor(private readonly bucket: string, options: { region: string; endpoint?: string }) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      // Custom endpoints (MinIO and friends) usually don't support virtual-hosted buckets
+      forcePathStyle: !!options.endpoint,
+    });
+  }
+
+  async put(key: string, data: Buffer, mimeType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: data,
+      ContentType: mimeType,
+    }));
+  }
+
+  async get(key: string, range?: ByteRange): Promise<Buffer | null> {
+    try {
+      const object = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        ...(range && { Range: `bytes=${range.start}-${range.end}` }),
+      }));
+      return object.Body ? Buffer.from(await object.Body.transformToByteArray()) : null;
+    } catch (error) {
+      if ((error as { name?: string }).name === 'NoSuchKey') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+let storage: MediaStorage | undefined;
+
+/**
+ * The storage driver selected by MEDIA_STORAGE_DRIVER (`local` or `s3`).
+ * Credentials for S3 come from the standard AWS environment variables.
+ */
+export function getMediaStorage(): MediaStorage {
+  if (storage) return storage;
+
+  const driver = process.env.MEDIA_STORAGE_DRIVER || 'local';
+  if (driver === 's3') {
+    const bucket = process.env.S3_BUCKET;
+    if (!bucket) {
+      throw new Error('S3_BUCKET must be set when MEDIA_STORAGE_DRIVER=s3');
+    }
+    storage = new S3MediaStorage(bucket, {
+      region: process.env.S3_REGION || process.env.AWS_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+    });
+  } else if (driver === 'local') {
+    storage = new LocalMediaStorage(process.env.MEDIA_LOCAL_DIR || path.join(process.cwd(), 'storage', 'media'));
+  } else {
+    throw new Error(`Unknown MEDIA_STORAGE_DRIVER: ${driver}`);
+  }
+
+  return storage;
+}
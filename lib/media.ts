@@ -0,0 +1,313 @@
+import { createHash } from 'crypto';
+import { Prisma } from './generated/prisma';
+import { processImage, ProcessedImage } from './image-processing';
+import { generateTiles } from './image-tiles';
+import { getMediaStorage } from './media-storage';
+import { mediaUrl, parseMediaId, tileUrlTemplate, WEB_IMAGE_WIDTH } from './media-client';
+import { prisma } from './prisma';
+import { MediaPurpose, UploadedMedia, ZoneContent } from './types';
+
+export const MAX_IMAGE_SIZE = 25 * 1024 * 1024; // 25MB
+export const MAX_BLUEPRINT_SIZE = 100 * 1024 * 1024; // 100MB
+export const MAX_VIDEO_SIZE = 100 * 1024 * 1024; // 100MB
+
+// Types accepted for upload. SVG isn't: it can carry scripts that would run on this origin.
+const EXTENSIONS: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/avif': '.avif',
+  'video/mp4': '.mp4',
+  'video/webm': '.webm',
+  'video/quicktime': '.mov',
+  'video/ogg': '.ogv',
+};
+
+const DATA_URL_PATTERN = /^data:([\w.+-]+\/[\w.+-]+)(?:;[\w.+-]+=[^;,]*)*;base64,/;
+
+type DbClient = Prisma.TransactionClient;
+
+/**
+ * Prisma `include` loading an image's variants, smallest first
+ */
+export const includeVariants = {
+  variants: { orderBy: { width: 'asc' } },
+} satisfies Prisma.MediaInclude;
+
+type MediaRow = {
+  id: string;
+  hash: string;
+  mimeType: string;
+  size: number;
+  width: number | null;
+  height: number | null;
+  tileSize: number | null;
+  tileMinLevel: number | null;
+  tileMaxLevel: number | null;
+  variants: { width: number; height: number }[];
+};
+
+/**
+ * Headers of every media response: browsers must not guess another type, and
+ * a file opened directly can't run scripts on this origin
+ */
+export const MEDIA_SECURITY_HEADERS = {
+  'X-Content-Type-Options': 'nosniff',
+  'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+};
+
+// Bytes needed by detectMediaType
+export const MEDIA_SIGNATURE_LENGTH = 16;
+
+function startsWith(data: Buffer, signature: number[], offset = 0): boolean {
+  return signature.every((byte, index) => data[offset + index] === byte);
+}
+
+/**
+ * Type of a file from its leading bytes (at least MEDIA_SIGNATURE_LENGTH of
+ * them), or null when it isn't one of the accepted images and videos. The type
+ * a client declares isn't trusted: media is served from this origin.
+ */
+export function detectMediaType(data: Buffer): string | null {
+  if (startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(data, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (data.toString('latin1', 0, 6) === 'GIF87a' || data.toString('latin1', 0, 6) === 'GIF89a') return 'image/gif';
+  if (data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP') return 'image/webp';
+  if (startsWith(data, [0x1a, 0x45, 0xdf, 0xa3])) return 'video/webm';
+  if (data.toString('latin1', 0, 4) === 'OggS') return 'video/ogg';
+
+  // ISO base media files (AVIF, MP4, QuickTime) name their brand in the ftyp box
+  if (data.toString('latin1', 4, 8) === 'ftyp') {
+    const brand = data.toString('latin1', 8, 12);
+    if (brand === 'avif' || brand === 'avis') return 'image/avif';
+    if (brand === 'qt  ') return 'video/quicktime';
+    return 'video/mp4';
+  }
+  return null;
+}
+
+/**
+ * Uploads are limited to images and videos; returns the size limit, or null if the type isn't accepted
+ */
+export function maxMediaSize(mimeType: string, purpose: MediaPurpose = 'content'): number | null {
+  if (!(mimeType in EXTENSIONS)) return null;
+  if (mimeType.startsWith('image/')) return purpose === 'blueprint' ? MAX_BLUEPRINT_SIZE : MAX_IMAGE_SIZE;
+  if (mimeType.startsWith('video/')) return MAX_VIDEO_SIZE;
+  return null;
+}
+
+export function serializeMedia(media: MediaRow): UploadedMedia {
+  const serialized: UploadedMedia = {
+    id: media.id,
+    url: mediaUrl(media.id),
+    mimeType: media.mimeType,
+    size: media.size,
+    hash: media.hash,
+  };
+  if (media.width === null || media.height === null) return serialized;
+
+  const variants = media.variants.map(variant => ({
+    width: variant.width,
+    height: variant.height,
+    url: mediaUrl(media.id, variant.width),
+  }));
+  return {
+    ...serialized,
+    width: media.width,
+    height: media.height,
+    variants,
+    srcSet: [...variants, { url: serialized.url, width: media.width }]
+      .map(variant => `${variant.url} ${variant.width}w`)
+      .join(', '),
+    ...(media.tileSize !== null && media.tileMinLevel !== null && media.tileMaxLevel !== null && {
+      tiles: {
+        url: tileUrlTemplate(media.id),
+        width: media.width,
+        height: media.height,
+        tileSize: media.tileSize,
+        minLevel: media.tileMinLevel,
+        maxLevel: media.tileMaxLevel,
+      },
+    }),
+  };
+}
+
+/**
+ * Write a processed image's variants to storage, returning the MediaVariant rows to create
+ */
+async function storeVariants(hash: string, processed: ProcessedImage | null) {
+  const variants = [];
+  for (const variant of processed?.variants ?? []) {
+    const storageKey = `${hash.slice(0, 2)}/${hash}-${variant.width}w.webp`;
+    await getMediaStorage().put(storageKey, variant.data, variant.mimeType);
+    variants.push({
+      width: variant.width,
+      height: variant.height,
+      mimeType: variant.mimeType,
+      size: variant.data.length,
+      storageKey,
+    });
+  }
+  return variants;
+}
+
+/**
+ * Store a file, deduplicated by the SHA-256 hash of the uploaded bytes: uploading
+ * the same file again returns the existing media without writing to storage.
+ * The type is detected from the bytes (see detectMediaType); throws for other files.
+ * Images are normalized and get downscaled variants (see processImage).
+ */
+export async function storeMedia(data: Buffer): Promise<{ media: UploadedMedia; created: boolean }> {
+  const mimeType = detectMediaType(data);
+  if (!mimeType) {
+    throw new Error('Unsupported media type');
+  }
+
+  const hash = createHash('sha256').update(data).digest('hex');
+
+  const existing = await prisma.media.findUnique({ where: { hash }, include: includeVariants });
+  if (existing) {
+    return { media: serializeMedia(existing), created: false };
+  }
+
+  const processed = await processImage(data, mimeType);
+  const stored = processed?.data ?? data;
+  const storageKey = `${hash.slice(0, 2)}/${hash}${EXTENSIONS[mimeType] ?? ''}`;
+  await getMediaStorage().put(storageKey, stored, mimeType);
+  const variants = await storeVariants(hash, processed);
+
+  try {
+    const media = await prisma.media.create({
+      data: {
+        hash,
+        mimeType,
+        size: stored.length,
+        storageKey,
+        width: processed?.width ?? null,
+        height: processed?.height ?? null,
+        variants: { create: variants },
+      },
+      include: includeVariants,
+    });
+    return { media: serializeMedia(media), created: true };
+  } catch (error) {
+    // A concurrent upload of the same file won the race (it wrote the same bytes to the same keys)
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const media = await prisma.media.findUniqueOrThrow({ where: { hash }, include: includeVariants });
+      return { media: serializeMedia(media), created: false };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Run image processing on media stored before it existed. Returns false when
+ * the media isn't a processable image or was already processed.
+ */
+export async function processStoredMedia(id: string): Promise<boolean> {
+  const media = await prisma.media.findUniqueOrThrow({ where: { id } });
+  if (media.width !== null) return false;
+
+  const original = await getMediaStorage().get(media.storageKey);
+  if (!original) {
+    throw new Error(`Media ${id} is missing from storage (${media.storageKey})`);
+  }
+
+  const processed = await processImage(original, media.mimeType);
+  if (!processed) return false;
+
+  await getMediaStorage().put(media.storageKey, processed.data, media.mimeType);
+  const variants = await storeVariants(media.hash, processed);
+  await prisma.media.update({
+    where: { id },
+    data: {
+      size: processed.data.length,
+      width: processed.width,
+      height: processed.height,
+      variants: { deleteMany: {}, create: variants },
+    },
+  });
+  return true;
+}
+
+/**
+ * Cut a large image into a tile pyramid if it doesn't have one yet. Images that
+ * fit within the web variant width are left alone: they render fine as one image.
+ */
+export async function ensureMediaTiles(id: string): Promise<UploadedMedia> {
+  const media = await prisma.media.findUniqueOrThrow({ where: { id }, include: includeVariants });
+  const needsTiles = media.tilesKey === null &&
+    media.width !== null && media.height !== null &&
+    Math.max(media.width, media.height) > WEB_IMAGE_WIDTH;
+  if (!needsTiles) return serializeMedia(media);
+
+  const storage = getMediaStorage();
+  const original = await storage.get(media.storageKey);
+  if (!original) {
+    throw new Error(`Media ${id} is missing from storage (${media.storageKey})`);
+  }
+
+  const tilesKey = `${media.hash.slice(0, 2)}/${media.hash}-tiles/`;
+  const tiles = await generateTiles(original, storage, tilesKey);
+  const updated = await prisma.media.update({
+    where: { id },
+    data: {
+      tilesKey,
+      tileSize: tiles.tileSize,
+      tileMinLevel: tiles.minLevel,
+      tileMaxLevel: tiles.maxLevel,
+    },
+    include: includeVariants,
+  });
+  return serializeMedia(updated);
+}
+
+/**
+ * Decode a base64 data URL, or return null if the value isn't one
+ */
+export function decodeDataUrl(value: string): { mimeType: string; data: Buffer } | null {
+  const match = DATA_URL_PATTERN.exec(value);
+  if (!match) return null;
+  return {
+    mimeType: match[1].toLowerCase(),
+    data: Buffer.from(value.slice(match[0].length), 'base64'),
+  };
+}
+
+/**
+ * Ids of uploaded media referenced by a zone's images and videos
+ */
+export function zoneMediaIds(content: ZoneContent): string[] {
+  const urls = [...(content.images ?? []), ...(content.videos ?? [])];
+  const ids = urls.map(parseMediaId).filter((id): id is string => id !== null);
+  return [...new Set(ids)];
+}
+
+async function existingMediaIds(client: DbClient, ids: string[]): Promise<string[]> {
+  if (ids.length === 0) return [];
+  const media = await client.media.findMany({ where: { id: { in: ids } }, select: { id: true } });
+  return media.map(item => item.id);
+}
+
+/**
+ * Point a zone's media references at the uploads its content uses.
+ * URLs that don't resolve to stored media are left alone.
+ */
+export async function linkZoneMedia(zoneId: string, content: ZoneContent, client: DbClient = prisma): Promise<void> {
+  const ids = await existingMediaIds(client, zoneMediaIds(content));
+  await client.zone.update({
+    where: { id: zoneId },
+    data: { media: { set: ids.map(id => ({ id })) } },
+  });
+}
+
+/**
+ * Media id behind a map's imageUrl, if it points at stored media
+ */
+export async function findImageMediaId(imageUrl: string | null | undefined, client: DbClient = prisma): Promise<string | null> {
+  const id = imageUrl ? parseMediaId(imageUrl) : null;
+  if (!id) return null;
+  const [existing] = await existingMediaIds(client, [id]);
+  return existing ?? null;
+}
@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { diffSnapshots, isDeepEqual } from './revision-diff';
+import { MapSnapshot, ZoneSnapshot } from './types';
+
+function zone(id: string, overrides: Partial<ZoneSnapshot> = {}): ZoneSnapshot {
+  return {
+    id,
+    type: 'point',
+    coordinates: { x: 10, y: 20 },
+    content: { title: `Zone ${id}` },
+    ...overrides,
+  };
+}
+
+function snapshot(zones: ZoneSnapshot[], overrides: Partial<MapSnapshot> = {}): MapSnapshot {
+  return {
+    title: 'Campus',
+    canvasConfig: { width: 800, height: 600, coordinateSystem: 'pixel' },
+    useBaseMap: false,
+    categories: [],
+    aiNavigatorEnabled: true,
+    zones,
+    ...overrides,
+  };
+}
+
+describe('isDeepEqual', () => {
+  it('ignores key order but not array order', () => {
+    assert.ok(isDeepEqual({ a: 1, b: { c: [1, 2] } }, { b: { c: [1, 2] }, a: 1 }));
+    assert.ok(!isDeepEqual([1, 2], [2, 1]));
+  });
+
+  it('tells arrays, objects and null apart', () => {
+    assert.ok(!isDeepEqual([], {}));
+    assert.ok(!isDeepEqual(null, {}));
+    assert.ok(!isDeepEqual({ a: undefined, b: 1 }, { b: 2 }));
+  });
+});
+
+describe('diffSnapshots', () => {
+  it('reports added and removed zones', () => {
+    const diff = diffSnapshots(snapshot([zone('a'), zone('b')]), snapshot([zone('b'), zone('c')]));
+
+    assert.deepEqual(diff.changes.map(change => [change.kind, change.zoneId]), [['removed', 'a'], ['added', 'c']]);
+    assert.equal(diff.unchanged, 1);
+  });
+
+  it('counts a new shape, type or level as a move', () => {
+    const from = snapshot([zone('a'), zone('b'), zone('c')]);
+    const to = snapshot([
+      zone('a', { coordinates: { x: 11, y: 20 } }),
+      zone('b', { type: 'circle', coordinates: { x: 10, y: 20, radius: 5 } }),
+      zone('c', { levelId: 'upstairs' }),
+    ]);
+
+    const diff = diffSnapshots(from, to);
+
+    assert.equal(diff.summary.moved, 3);
+    assert.equal(diff.unchanged, 0);
+  });
+
+  it('lists the changed content fields and style', () => {
+    const from = snapshot([zone('a', { content: { title: 'Library', images: ['/api/media/x'] } })]);
+    const to = snapshot([zone('a', { content: { title: 'Library', description: 'Open late' }, style: { color: '#f00' } })]);
+
+    const [change] = diffSnapshots(from, to).changes;
+
+    assert.equal(change.kind, 'content-changed');
+    assert.deepEqual(change.fields, ['images', 'description', 'style']);
+  });
+
+  it('reports a zone that was both moved and edited as two changes', () => {
+    const from = snapshot([zone('a')]);
+    const to = snapshot([zone('a', { coordinates: { x: 0, y: 0 }, content: { title: 'Renamed' } })]);
+
+    const diff = diffSnapshots(from, to);
+
+    assert.deepEqual(diff.changes.map(change => change.kind), ['moved', 'content-changed']);
+    assert.deepEqual(diff.summary, { added: 0, removed: 0, moved: 1, 'content-changed': 1 });
+  });
+
+  it('lists changed map fields, treating missing and null alike', () => {
+    const from = snapshot([], { description: undefined });
+    const to = snapshot([], { title: 'Campus (2025)', categories: ['Food'], levels: [] });
+
+    assert.deepEqual(diffSnapshots(from, to).mapFields, ['title', 'categories', 'levels']);
+    assert.deepEqual(diffSnapshots(from, { ...from }).mapFields, []);
+  });
+});
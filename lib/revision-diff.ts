@@ -0,0 +1,106 @@
+import { MapSnapshot, RevisionDiff, ZoneChange, ZoneChangeKind, ZoneSnapshot } from './types';
+
+const MAP_FIELDS: (keyof Omit<MapSnapshot, 'zones'>)[] = [
+  'title',
+  'description',
+  'geographicBounds',
+  'canvasConfig',
+  'imageUrl',
+  'useBaseMap',
+  'categories',
+  'aiNavigatorEnabled',
+  'aiNavigatorPrompt',
+  'levels',
+];
+
+/**
+ * Structural equality for JSON-like values (key order doesn't matter)
+ */
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isDeepEqual(item, b[index]));
+  }
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+  for (const key of keys) {
+    if (!isDeepEqual(aRecord[key], bRecord[key])) return false;
+  }
+  return true;
+}
+
+/**
+ * List the content keys (and 'style') that differ between two versions of a zone
+ */
+function changedContentFields(before: ZoneSnapshot, after: ZoneSnapshot): string[] {
+  const fields: string[] = [];
+  const keys = new Set([...Object.keys(before.content), ...Object.keys(after.content)]);
+
+  for (const key of keys) {
+    const field = key as keyof ZoneSnapshot['content'];
+    if (!isDeepEqual(before.content[field], after.content[field])) {
+      fields.push(key);
+    }
+  }
+  if (!isDeepEqual(before.style ?? null, after.style ?? null)) {
+    fields.push('style');
+  }
+
+  return fields;
+}
+
+/**
+ * Compare two map snapshots zone by zone. Zones are matched by id.
+ * A zone whose shape and content both changed is reported as both 'moved' and 'content-changed'.
+ */
+export function diffSnapshots(from: MapSnapshot, to: MapSnapshot): Omit<RevisionDiff, 'from' | 'to'> {
+  const changes: ZoneChange[] = [];
+  const summary: Record<ZoneChangeKind, number> = { added: 0, removed: 0, moved: 0, 'content-changed': 0 };
+  let unchanged = 0;
+
+  const push = (change: ZoneChange) => {
+    changes.push(change);
+    summary[change.kind]++;
+  };
+
+  const fromZones = new Map(from.zones.map(zone => [zone.id, zone]));
+  const toZones = new Map(to.zones.map(zone => [zone.id, zone]));
+
+  for (const before of from.zones) {
+    if (!toZones.has(before.id)) {
+      push({ kind: 'removed', zoneId: before.id, title: before.content.title, before });
+    }
+  }
+
+  for (const after of to.zones) {
+    const before = fromZones.get(after.id);
+    if (!before) {
+      push({ kind: 'added', zoneId: after.id, title: after.content.title, after });
+      continue;
+    }
+
+    // Changing floors counts as a move
+    const moved = before.type !== after.type || !isDeepEqual(before.coordinates, after.coordinates) ||
+      before.levelId !== after.levelId;
+    const fields = changedContentFields(before, after);
+
+    if (moved) {
+      push({ kind: 'moved', zoneId: after.id, title: after.content.title, before, after });
+    }
+    if (fields.length > 0) {
+      push({ kind: 'content-changed', zoneId: after.id, title: after.content.title, fields, before, after });
+    }
+    if (!moved && fields.length === 0) {
+      unchanged++;
+    }
+  }
+
+  const mapFields = MAP_FIELDS.filter(field => !isDeepEqual(from[field] ?? null, to[field] ?? null));
+
+  return { mapFields, changes, summary, unchanged };
+}
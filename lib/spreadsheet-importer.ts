@@ -0,0 +1,282 @@
+import type { CSVRow } from './csv-importer';
+import { uniqueHeaders } from './csv-parser';
+import { openZip, ZipArchive } from './zip-reader';
+
+/**
+ * Browser-side reading of spreadsheet files (Excel .xlsx and OpenDocument .ods,
+ * which is also what Google Sheets exports) into the same rows as CSV imports.
+ * Cell hyperlinks are kept per row so they can become zone links.
+ */
+
+export type SpreadsheetFormat = 'xlsx' | 'ods';
+
+export interface CellLink {
+  label: string;
+  url: string;
+}
+
+export interface SpreadsheetSheet {
+  name: string;
+  headers: string[];
+  // The first non-blank row is the header; blank rows are skipped
+  rows: CSVRow[];
+  // Hyperlinked cells of each row, by column
+  links: Record<string, CellLink>[];
+}
+
+interface Cell {
+  text: string;
+  link?: string;
+}
+
+// Sparse rows of cells, indexed by row and column
+type Grid = (Cell | undefined)[][];
+
+// Repeated empty rows and columns fill ODS sheets up to their full size: don't materialize them
+const MAX_REPEAT = 1000;
+
+const XLSX_BASE = 'xl/';
+
+/**
+ * Spreadsheet format of a file, from its name or MIME type; null for other files
+ */
+export function spreadsheetFormat(file: { name: string; type?: string }): SpreadsheetFormat | null {
+  if (/\.xlsx$/i.test(file.name) || file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet') {
+    return 'xlsx';
+  }
+  if (/\.ods$/i.test(file.name) || file.type === 'application/vnd.oasis.opendocument.spreadsheet') {
+    return 'ods';
+  }
+  return null;
+}
+
+function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid XML in spreadsheet');
+  }
+  return doc;
+}
+
+// Namespace prefixes differ between producers, so elements and attributes are matched by local name
+function elements(parent: Document | Element, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+function childElements(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter(child => child.localName === localName);
+}
+
+function attr(element: Element, localName: string): string | null {
+  for (const attribute of Array.from(element.attributes)) {
+    if (attribute.localName === localName) return attribute.value;
+  }
+  return null;
+}
+
+function setCell(grid: Grid, row: number, col: number, cell: Cell) {
+  (grid[row] ??= [])[col] = cell;
+}
+
+/**
+ * Header row and data rows of a sheet grid
+ */
+function gridToSheet(name: string, grid: Grid): SpreadsheetSheet {
+  const nonBlank = Array.from(grid, row => row ?? [])
+    .filter(row => row.some(cell => cell && (cell.text.trim() || cell.link)));
+  if (nonBlank.length === 0) return { name, headers: [], rows: [], links: [] };
+
+  const width = Math.max(...nonBlank.map(row => row.length));
+  const headers = uniqueHeaders(Array.from({ length: width }, (_, col) => nonBlank[0][col]?.text ?? ''));
+  const rows: CSVRow[] = [];
+  const links: Record<string, CellLink>[] = [];
+
+  for (const cells of nonBlank.slice(1)) {
+    const row: CSVRow = {};
+    const rowLinks: Record<string, CellLink> = {};
+    headers.forEach((header, col) => {
+      const cell = cells[col];
+      row[header] = cell?.text.trim() ?? '';
+      if (cell?.link) {
+        rowLinks[header] = { label: row[header] || cell.link, url: cell.link };
+      }
+    });
+    rows.push(row);
+    links.push(rowLinks);
+  }
+
+  return { name, headers, rows, links };
+}
+
+/**
+ * Zero-based row and column of an A1-style cell reference
+ */
+function cellPosition(ref: string): { row: number; col: number } | null {
+  const match = /^\$?([A-Z]+)\$?(\d+)$/i.exec(ref);
+  if (!match) return null;
+  let col = 0;
+  for (const letter of match[1].toUpperCase()) {
+    col = col * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return { row: Number(match[2]) - 1, col: col - 1 };
+}
+
+/**
+ * Relationship targets of an OOXML part (from its _rels file), by relationship id
+ */
+async function readRelationships(zip: ZipArchive, part: string): Promise<Map<string, string>> {
+  const slash = part.lastIndexOf('/');
+  const text = await zip.readText(`${part.slice(0, slash + 1)}_rels/${part.slice(slash + 1)}.rels`);
+  const targets = new Map<string, string>();
+  if (!text) return targets;
+  for (const relationship of elements(parseXml(text), 'Relationship')) {
+    const id = attr(relationship, 'Id');
+    const target = attr(relationship, 'Target');
+    if (id && target) targets.set(id, target);
+  }
+  return targets;
+}
+
+/**
+ * Zip path of a relationship target relative to the part's folder
+ */
+function resolvePartPath(folder: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = (folder + target).split('/');
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === '..') resolved.pop();
+    else if (part !== '.') resolved.push(part);
+  }
+  return resolved.join('/');
+}
+
+// HYPERLINK("url", "label") formulas, as written by Excel and Google Sheets
+const HYPERLINK_FORMULA = /^HYPERLINK\(\s*"((?:[^"]|"")*)"/i;
+
+async function readXlsx(zip: ZipArchive): Promise<SpreadsheetSheet[]> {
+  const workbookText = await zip.readText(`${XLSX_BASE}workbook.xml`);
+  if (!workbookText) throw new Error('Not an Excel workbook');
+
+  const sharedStringsText = await zip.readText(`${XLSX_BASE}sharedStrings.xml`);
+  // Rich text strings are split into runs; phonetic hints (rPh) aren't part of the text
+  const sharedStrings = sharedStringsText
+    ? elements(parseXml(sharedStringsText), 'si').map(si =>
+      elements(si, 't').filter(t => t.parentElement?.localName !== 'rPh').map(t => t.textContent ?? '').join(''))
+    : [];
+
+  const workbookRels = await readRelationships(zip, `${XLSX_BASE}workbook.xml`);
+  const sheets: SpreadsheetSheet[] = [];
+
+  for (const sheet of elements(parseXml(workbookText), 'sheet')) {
+    const name = attr(sheet, 'name') ?? `Sheet ${sheets.length + 1}`;
+    const target = workbookRels.get(attr(sheet, 'id') ?? '');
+    const path = target ? resolvePartPath(XLSX_BASE, target) : null;
+    const sheetText = path ? await zip.readText(path) : null;
+    if (!path || !sheetText) continue; // Chart sheets and missing parts
+
+    const doc = parseXml(sheetText);
+    const grid: Grid = [];
+
+    elements(doc, 'row').forEach((rowElement, rowIndex) => {
+      const row = Number(attr(rowElement, 'r') ?? rowIndex + 1) - 1;
+      childElements(rowElement, 'c').forEach((c, colIndex) => {
+        const position = cellPosition(attr(c, 'r') ?? '') ?? { row, col: colIndex };
+        const type = attr(c, 't');
+        const value = childElements(c, 'v')[0]?.textContent ?? '';
+        const formula = childElements(c, 'f')[0]?.textContent ?? '';
+
+        let text: string;
+        if (type === 's') text = sharedStrings[Number(value)] ?? '';
+        else if (type === 'inlineStr') text = elements(c, 't').map(t => t.textContent ?? '').join('');
+        else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+        else text = value;
+
+        const hyperlink = HYPERLINK_FORMULA.exec(formula);
+        const cell: Cell = { text };
+        if (hyperlink) cell.link = hyperlink[1].replace(/""/g, '"');
+        if (text || cell.link) setCell(grid, position.row, position.col, cell);
+      });
+    });
+
+    // Hyperlinks inserted through the UI live apart from the cells, pointing at external relationships
+    const sheetRels = await readRelationships(zip, path);
+    for (const hyperlink of elements(doc, 'hyperlink')) {
+      const url = sheetRels.get(attr(hyperlink, 'id') ?? '');
+      const [from, to] = (attr(hyperlink, 'ref') ?? '').split(':').map(cellPosition);
+      if (!url || !from) continue;
+      const last = to ?? from;
+      for (let row = from.row; row <= last.row; row++) {
+        for (let col = from.col; col <= last.col; col++) {
+          setCell(grid, row, col, { text: grid[row]?.[col]?.text ?? '', link: url });
+        }
+      }
+    }
+
+    sheets.push(gridToSheet(name, grid));
+  }
+
+  return sheets;
+}
+
+/**
+ * Value of an ODS cell: the raw number, date or boolean for typed cells (their
+ * text is formatted for display and may be rounded), else the cell's paragraphs
+ */
+function odsCellText(cell: Element): string {
+  switch (attr(cell, 'value-type')) {
+    case 'float':
+    case 'percentage':
+    case 'currency':
+      return attr(cell, 'value') ?? '';
+    case 'date':
+      return attr(cell, 'date-value') ?? '';
+    case 'boolean':
+      return attr(cell, 'boolean-value') === 'true' ? 'TRUE' : 'FALSE';
+    default:
+      return childElements(cell, 'p').map(p => p.textContent ?? '').join('\n');
+  }
+}
+
+async function readOds(zip: ZipArchive): Promise<SpreadsheetSheet[]> {
+  const contentText = await zip.readText('content.xml');
+  if (!contentText) throw new Error('Not an OpenDocument spreadsheet');
+
+  return elements(parseXml(contentText), 'table').map((table, index) => {
+    const grid: Grid = [];
+    let row = 0;
+
+    for (const rowElement of elements(table, 'table-row')) {
+      const rowRepeat = Math.min(Number(attr(rowElement, 'number-rows-repeated') ?? 1), MAX_REPEAT);
+      const cells: (Cell | undefined)[] = [];
+      let col = 0;
+
+      for (const cell of Array.from(rowElement.children)) {
+        if (cell.localName !== 'table-cell' && cell.localName !== 'covered-table-cell') continue;
+        const colRepeat = Number(attr(cell, 'number-columns-repeated') ?? 1);
+        const text = odsCellText(cell);
+        const link = elements(cell, 'a').map(a => attr(a, 'href')).find(Boolean) ?? undefined;
+
+        if (text || link) {
+          for (let i = 0; i < Math.min(colRepeat, MAX_REPEAT); i++) cells[col + i] = { text, link };
+        }
+        col += colRepeat;
+      }
+
+      if (cells.length > 0) {
+        for (let i = 0; i < rowRepeat; i++) grid[row + i] = cells;
+      }
+      row += rowRepeat;
+    }
+
+    return gridToSheet(attr(table, 'name') ?? `Sheet ${index + 1}`, grid);
+  });
+}
+
+/**
+ * Read every sheet of an .xlsx or .ods file. Throws when the file can't be read.
+ */
+export async function parseSpreadsheet(file: Blob, format: SpreadsheetFormat): Promise<SpreadsheetSheet[]> {
+  const zip = openZip(new Uint8Array(await file.arrayBuffer()));
+  return format === 'xlsx' ? readXlsx(zip) : readOds(zip);
+}
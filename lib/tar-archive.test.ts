@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { gunzipSync, gzipSync } from 'node:zlib';
+import { createTarGz, readTarGz } from './tar-archive';
+
+const LIMITS = { maxSize: 1024 * 1024, maxEntrySize: 64 * 1024 };
+
+describe('createTarGz and readTarGz', () => {
+  it('round-trip files, including empty ones and sizes off the block boundary', () => {
+    const entries = [
+      { name: 'manifest.json', data: Buffer.from('{"format":"map-bundle"}') },
+      { name: 'media/empty.bin', data: Buffer.alloc(0) },
+      { name: 'media/blueprint.png', data: Buffer.alloc(1500, 7) },
+    ];
+
+    const files = readTarGz(createTarGz(entries), LIMITS);
+
+    assert.deepEqual([...files.keys()], entries.map(entry => entry.name));
+    entries.forEach(entry => assert.deepEqual(files.get(entry.name), entry.data));
+  });
+
+  it('rejects names longer than a ustar header holds', () => {
+    assert.throws(() => createTarGz([{ name: `${'a'.repeat(101)}`, data: Buffer.alloc(1) }]), /name is too long/);
+  });
+
+  it('rejects data that is not gzipped', () => {
+    assert.throws(() => readTarGz(Buffer.from('not an archive'), LIMITS));
+  });
+
+  it('rejects headers with a wrong checksum', () => {
+    const tar = gunzipSync(createTarGz([{ name: 'a.txt', data: Buffer.from('a') }]));
+    tar[0] = 'b'.charCodeAt(0);
+
+    assert.throws(() => readTarGz(gzipSync(tar), LIMITS), /checksum/);
+  });
+
+  it('rejects truncated entries', () => {
+    const tar = gunzipSync(createTarGz([{ name: 'a.bin', data: Buffer.alloc(2048) }]));
+
+    assert.throws(() => readTarGz(gzipSync(tar.subarray(0, 1024)), LIMITS), /Truncated tar entry: a.bin/);
+  });
+
+  it('stops decompressing at the size cap, so a small archive cannot unpack to gigabytes', () => {
+    // About 1KB gzipped
+    const bomb = createTarGz([{ name: 'zeros.bin', data: Buffer.alloc(2 * 1024 * 1024) }]);
+    assert.ok(bomb.length < 4096);
+
+    assert.throws(() => readTarGz(bomb, { maxSize: 1024 * 1024, maxEntrySize: 4 * 1024 * 1024 }), RangeError);
+  });
+
+  it('rejects a file larger than the per-entry limit', () => {
+    const archive = createTarGz([{ name: 'large.bin', data: Buffer.alloc(LIMITS.maxEntrySize + 1) }]);
+
+    assert.throws(() => readTarGz(archive, LIMITS), (error: Error) => error instanceof RangeError && /large\.bin/.test(error.message));
+  });
+});
@@ -0,0 +1,119 @@
+import { gunzipSync, gzipSync } from 'zlib';
+
+/**
+ * Minimal gzipped tar (ustar) reader and writer for map bundles: regular files
+ * only, names up to 100 bytes. Other entry types are skipped when reading.
+ */
+
+const BLOCK_SIZE = 512;
+
+export interface TarEntry {
+  name: string;
+  data: Buffer;
+}
+
+export interface TarLimits {
+  // Size of the whole unpacked archive, in bytes
+  maxSize: number;
+  // Size of one file in it, in bytes
+  maxEntrySize: number;
+}
+
+function writeString(header: Buffer, value: string, offset: number, length: number) {
+  header.write(value, offset, Math.min(Buffer.byteLength(value), length), 'utf8');
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number) {
+  writeString(header, value.toString(8).padStart(length - 1, '0') + '\0', offset, length);
+}
+
+function readString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString('utf8');
+}
+
+function checksum(header: Buffer): number {
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    // The checksum field itself counts as spaces
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  return sum;
+}
+
+function padding(size: number): number {
+  return (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE;
+}
+
+/**
+ * Pack files into a .tar.gz archive
+ */
+export function createTarGz(entries: TarEntry[], mtime: Date = new Date()): Buffer {
+  const blocks: Buffer[] = [];
+
+  for (const entry of entries) {
+    if (Buffer.byteLength(entry.name) > 100) {
+      throw new Error(`Archive entry name is too long: ${entry.name}`);
+    }
+
+    const header = Buffer.alloc(BLOCK_SIZE);
+    writeString(header, entry.name, 0, 100);
+    writeOctal(header, 0o644, 100, 8);
+    writeOctal(header, 0, 108, 8);
+    writeOctal(header, 0, 116, 8);
+    writeOctal(header, entry.data.length, 124, 12);
+    writeOctal(header, Math.floor(mtime.getTime() / 1000), 136, 12);
+    header[156] = '0'.charCodeAt(0);
+    writeString(header, 'ustar\0', 257, 6);
+    writeString(header, '00', 263, 2);
+    writeOctal(header, checksum(header), 148, 7);
+    header[155] = 0x20;
+
+    blocks.push(header, entry.data, Buffer.alloc(padding(entry.data.length)));
+  }
+
+  // End of archive: two empty blocks
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return gzipSync(Buffer.concat(blocks));
+}
+
+/**
+ * Unpack the regular files of a .tar.gz archive, keyed by name. Throws when
+ * the data isn't a gzipped tar archive, and a RangeError when it unpacks to
+ * more than the limits allow (decompression stops there, so a small archive
+ * can't fill the memory).
+ */
+export function readTarGz(archive: Buffer, limits: TarLimits): Map<string, Buffer> {
+  const tar = gunzipSync(archive, { maxOutputLength: limits.maxSize });
+  const files = new Map<string, Buffer>();
+
+  let offset = 0;
+  while (offset + BLOCK_SIZE <= tar.length) {
+    const header = tar.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every(byte => byte === 0)) break;
+
+    if (parseInt(readString(header, 148, 8).trim(), 8) !== checksum(header)) {
+      throw new Error('Invalid tar header checksum');
+    }
+
+    const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156]);
+    const prefix = readString(header, 345, 155);
+    const name = (prefix ? `${prefix}/` : '') + readString(header, 0, 100);
+    const start = offset + BLOCK_SIZE;
+    if (start + size > tar.length) {
+      throw new Error(`Truncated tar entry: ${name}`);
+    }
+    if (size > limits.maxEntrySize) {
+      throw new RangeError(`Archive entry is too large: ${name}`);
+    }
+
+    if (type === '0' || type === '\0') {
+      files.set(name, tar.subarray(start, start + size));
+    }
+    offset = start + size + padding(size);
+  }
+
+  return files;
+}
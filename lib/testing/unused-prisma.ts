@@ -0,0 +1,13 @@
+/**
+ * Import before the module under test: stands in for the Prisma client
+ * singleton (see ../prisma) so unit tests run without a database or query
+ * engine. Any query through it throws, since code under test must use the
+ * client it's handed.
+ */
+const unusedPrisma = new Proxy({}, {
+  get(_, property) {
+    throw new Error(`Unexpected use of the global Prisma client (${String(property)})`);
+  },
+});
+
+(globalThis as unknown as { prisma: unknown }).prisma = unusedPrisma;
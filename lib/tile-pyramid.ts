@@ -0,0 +1,102 @@
+import { TilePyramid } from './types';
+
+/**
+ * Rectangle in canvas coordinates
+ */
+export interface CanvasRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A tile to draw, placed in canvas coordinates
+ */
+export interface VisibleTile extends CanvasRect {
+  key: string;
+  url: string;
+}
+
+/**
+ * Pixel size of a pyramid level (each level below maxLevel halves the image)
+ */
+export function levelSize(pyramid: TilePyramid, level: number): { width: number; height: number } {
+  const factor = 2 ** (pyramid.maxLevel - level);
+  return {
+    width: Math.ceil(pyramid.width / factor),
+    height: Math.ceil(pyramid.height / factor),
+  };
+}
+
+/**
+ * Lowest level with at least as many pixels across as are displayed, so tiles are never upscaled
+ */
+export function pickLevel(pyramid: TilePyramid, displayedWidth: number): number {
+  for (let level = pyramid.minLevel; level < pyramid.maxLevel; level++) {
+    if (levelSize(pyramid, level).width >= displayedWidth) return level;
+  }
+  return pyramid.maxLevel;
+}
+
+export function tileUrl(pyramid: TilePyramid, level: number, col: number, row: number): string {
+  return pyramid.url
+    .replace('{level}', String(level))
+    .replace('{col}', String(col))
+    .replace('{row}', String(row));
+}
+
+/**
+ * Tiles covering the visible part of a canvas the pyramid is stretched over.
+ * `displayedWidth` is how many screen pixels the whole canvas currently spans.
+ */
+export function visibleTiles(
+  pyramid: TilePyramid,
+  canvasWidth: number,
+  canvasHeight: number,
+  visible: CanvasRect,
+  displayedWidth: number
+): VisibleTile[] {
+  const level = pickLevel(pyramid, displayedWidth);
+  const size = levelSize(pyramid, level);
+  const tileSize = pyramid.tileSize;
+
+  // Canvas units per level pixel
+  const unitX = canvasWidth / size.width;
+  const unitY = canvasHeight / size.height;
+
+  const left = Math.max(0, visible.x);
+  const top = Math.max(0, visible.y);
+  const right = Math.min(canvasWidth, visible.x + visible.width);
+  const bottom = Math.min(canvasHeight, visible.y + visible.height);
+  if (left >= right || top >= bottom) return [];
+
+  const lastCol = Math.ceil(size.width / tileSize) - 1;
+  const lastRow = Math.ceil(size.height / tileSize) - 1;
+  const firstVisibleCol = Math.floor(left / unitX / tileSize);
+  const lastVisibleCol = Math.min(lastCol, Math.floor(right / unitX / tileSize));
+  const firstVisibleRow = Math.floor(top / unitY / tileSize);
+  const lastVisibleRow = Math.min(lastRow, Math.floor(bottom / unitY / tileSize));
+
+  const tiles: VisibleTile[] = [];
+  for (let row = firstVisibleRow; row <= lastVisibleRow; row++) {
+    for (let col = firstVisibleCol; col <= lastVisibleCol; col++) {
+      tiles.push({
+        key: `${level}/${col}_${row}`,
+        url: tileUrl(pyramid, level, col, row),
+        x: col * tileSize * unitX,
+        y: row * tileSize * unitY,
+        width: Math.min(tileSize, size.width - col * tileSize) * unitX,
+        height: Math.min(tileSize, size.height - row * tileSize) * unitY,
+      });
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Zoom limit for a canvas: 4x, or far enough to show the tiles at 2x their full resolution
+ */
+export function maxZoom(canvasWidth: number, pyramid?: TilePyramid): number {
+  return Math.max(4, pyramid ? (pyramid.width / canvasWidth) * 2 : 0);
+}
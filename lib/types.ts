@@ -12,12 +12,54 @@ export interface CanvasConfig {
   height: number;
   coordinateSystem: 'geographic' | 'pixel';
   scale?: number;
+  // Full-resolution tiles of a large blueprint, drawn over imageUrl when zoomed in
+  tiles?: TilePyramid;
+  // Rotated or skewed blueprints: replaces the north-up geographic bounds for
+  // converting between canvas and geographic coordinates
+  georeference?: Georeference;
+}
+
+// Blueprint pixel paired with its known geographic position
+export interface ControlPoint {
+  x: number;
+  y: number;
+  lat: number;
+  lng: number;
+}
+
+// 'similarity' allows rotation, uniform scale and translation; 'affine' also
+// non-uniform scale and skew
+export type GeoreferenceMethod = 'affine' | 'similarity';
+
+// Transform fitted to control points. `transform` maps canvas pixels to Web
+// Mercator (longitude and Mercator y, both in radians): [a, b, c, d, e, f] for
+// X = a·x + b·y + c and Y = d·x + e·y + f
+export interface Georeference {
+  method: GeoreferenceMethod;
+  controlPoints: ControlPoint[];
+  transform: [number, number, number, number, number, number];
+}
+
+// Zoom pyramid of a large image in DeepZoom layout: level `maxLevel` is full
+// resolution and each level below halves the size
+export interface TilePyramid {
+  // Tile URL with {level}, {col} and {row} placeholders
+  url: string;
+  // Full-resolution size in pixels
+  width: number;
+  height: number;
+  tileSize: number;
+  minLevel: number;
+  maxLevel: number;
 }
 
 // Zone coordinates for different shape types
 export interface PointCoordinates {
   x: number;
   y: number;
+  // Geographic position, kept for points placed directly on the base map
+  lat?: number;
+  lng?: number;
 }
 
 export interface RectangleCoordinates {
@@ -43,13 +85,29 @@ export type ZoneCoordinates =
   | CircleCoordinates
   | PolygonCoordinates;
 
+// GeoJSON geometries (RFC 7946) of zones projected onto the globe; positions are [lng, lat]
+export type GeoJSONPosition = [number, number];
+
+export interface GeoJSONPoint {
+  type: 'Point';
+  coordinates: GeoJSONPosition;
+}
+
+export interface GeoJSONPolygon {
+  type: 'Polygon';
+  // Closed linear rings: the exterior ring first, counterclockwise
+  coordinates: GeoJSONPosition[][];
+}
+
+export type GeoJSONGeometry = GeoJSONPoint | GeoJSONPolygon;
+
 // Zone content
 export interface ZoneContent {
   title: string;
   description?: string;
   category?: string; // Category for filtering zones
-  images?: string[]; // Array of image URLs or base64 data
-  videos?: string[]; // Array of video URLs
+  images?: string[]; // Array of image URLs (uploads are served from /api/media)
+  videos?: string[]; // Array of video URLs (uploads or YouTube/Vimeo links)
   links?: { label: string; url: string }[];
 }
 
@@ -59,11 +117,32 @@ export interface ZoneStyle {
   borderColor?: string;
   opacity?: number;
   icon?: string;
+  // Rectangles, circles and polygons: extrude this many meters in the 3D viewer (draped on the ground when unset)
+  height?: number;
 }
 
+// Zone fields a spreadsheet re-import keeps in sync with the file
+export type SyncField = 'title' | 'description' | 'category' | 'images' | 'videos' | 'links' | 'color' | 'icon' | 'location';
+
+// Value of each synced field as last imported, in the comparable text form of syncedValues (lib/import-sync)
+export type ImportedValues = Partial<Record<SyncField, string>>;
+
 // Zone types
 export type ZoneType = 'point' | 'rectangle' | 'circle' | 'polygon';
 
+// Floor of a multi-level map. Levels share the map's canvas and georeference.
+export interface Level {
+  id: string;
+  name: string;
+  // 0 is the ground floor, negative numbers are below ground
+  ordinal: number;
+  // Floor plan drawn over the canvas on this level (the map's imageUrl when unset)
+  imageUrl?: string;
+  tiles?: TilePyramid;
+  // Floor height above ground in meters (3D viewer altitude)
+  elevation: number;
+}
+
 // Full zone object (client-side)
 export interface Zone {
   id: string;
@@ -72,10 +151,18 @@ export interface Zone {
   coordinates: ZoneCoordinates;
   content: ZoneContent;
   style?: ZoneStyle;
+  // Level the zone is on (unset: shown on every level)
+  levelId?: string;
+  // Key of the spreadsheet row the zone was imported from (see lib/import-sync)
+  externalId?: string;
+  importedValues?: ImportedValues;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Per-map access level, from least to most privileged: viewer < editor < owner
+export type MapRole = 'viewer' | 'editor' | 'owner';
+
 // Full map object (client-side)
 export interface InteractiveMap {
   id: string;
@@ -86,7 +173,200 @@ export interface InteractiveMap {
   imageUrl?: string;
   useBaseMap: boolean;
   published: boolean;
+  publishedAt?: Date;
+  // Draft responses only: whether the draft differs from what viewers see
+  hasUnpublishedChanges?: boolean;
+  // Available categories for zones in this map
+  categories: string[];
+  // AI Navigator settings
+  aiNavigatorEnabled: boolean;
+  aiNavigatorPrompt?: string;
+  // The requesting user's role on this map (absent for anonymous or non-member requests)
+  role?: MapRole;
+  // Floors of a multi-level map, lowest first (empty for single-level maps)
+  levels: Level[];
   zones: Zone[];
   createdAt: Date;
   updatedAt: Date;
 }
+
+// Lightweight map entry returned by the map listing (no zones or canvas data)
+export interface MapSummary {
+  id: string;
+  title: string;
+  description?: string;
+  published: boolean;
+  publishedAt?: Date;
+  // Whether the draft was edited after it was last published
+  hasUnpublishedChanges: boolean;
+  hasGeographicBounds: boolean;
+  useBaseMap: boolean;
+  role: MapRole;
+  zoneCount: number;
+  // Number of zones per category (uncategorized zones are not counted)
+  categoryCounts: Record<string, number>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One page of the map listing; pass nextCursor back as `cursor` to continue
+export interface MapSummaryPage {
+  items: MapSummary[];
+  nextCursor: string | null;
+}
+
+// Zone as captured in a map revision
+export interface ZoneSnapshot {
+  id: string;
+  type: ZoneType;
+  coordinates: ZoneCoordinates;
+  content: ZoneContent;
+  style?: ZoneStyle;
+  levelId?: string;
+  externalId?: string;
+  importedValues?: ImportedValues;
+}
+
+// Map state captured in a revision (everything a restore brings back)
+export interface MapSnapshot {
+  title: string;
+  description?: string;
+  geographicBounds?: GeographicBounds;
+  canvasConfig: CanvasConfig;
+  imageUrl?: string;
+  useBaseMap: boolean;
+  categories: string[];
+  aiNavigatorEnabled: boolean;
+  aiNavigatorPrompt?: string;
+  // Only present for multi-level maps
+  levels?: Level[];
+  zones: ZoneSnapshot[];
+}
+
+// Revision list entry (without the snapshot body)
+export interface MapRevisionSummary {
+  id: string;
+  mapId: string;
+  author?: string;
+  message?: string;
+  createdAt: Date;
+}
+
+// Full revision including its snapshot
+export interface MapRevision extends MapRevisionSummary {
+  snapshot: MapSnapshot;
+}
+
+export type ZoneChangeKind = 'added' | 'removed' | 'moved' | 'content-changed';
+
+// A single zone-level difference between two revisions
+export interface ZoneChange {
+  kind: ZoneChangeKind;
+  zoneId: string;
+  title: string;
+  // Changed keys for 'content-changed' (content fields, plus 'style')
+  fields?: string[];
+  before?: ZoneSnapshot;
+  after?: ZoneSnapshot;
+}
+
+// Zone-by-zone comparison of two revisions ('current' stands for the live map)
+export interface RevisionDiff {
+  from: string;
+  to: string;
+  mapFields: string[];
+  changes: ZoneChange[];
+  summary: Record<ZoneChangeKind, number>;
+  unchanged: number;
+}
+
+// Member of a map with their role
+export interface MapMember {
+  id: string;
+  userId: string;
+  email: string;
+  name?: string;
+  role: MapRole;
+  createdAt: Date;
+}
+
+// What an upload is for: blueprints may be larger and get a tile pyramid
+export type MediaPurpose = 'content' | 'blueprint';
+
+// File stored through POST /api/media
+export interface UploadedMedia {
+  id: string;
+  // Path the file is served from (/api/media/[id])
+  url: string;
+  mimeType: string;
+  size: number;
+  // SHA-256 of the contents; uploading the same file again returns the same media
+  hash: string;
+  // Images only: size after EXIF orientation, downscaled variants (smallest first) and a matching srcset
+  width?: number;
+  height?: number;
+  variants?: ImageVariant[];
+  srcSet?: string;
+  // Large blueprints only (uploaded with purpose=blueprint)
+  tiles?: TilePyramid;
+}
+
+// Downscaled WebP copy of an uploaded image
+export interface ImageVariant {
+  width: number;
+  height: number;
+  url: string;
+}
+
+// Outcome of geocoding one address: 'ambiguous' addresses (low confidence, or
+// several likely places) are placed at the best candidate until one is picked
+export type GeocodeItemStatus = 'pending' | 'ok' | 'not_found' | 'ambiguous' | 'error';
+
+// How precisely a geocoded position matches the address: the building itself,
+// a position estimated along the street, or the center of a street or area
+export type GeocodeMatchType = 'rooftop' | 'interpolated' | 'approximate';
+
+// One possible place for an address
+export interface GeocodeCandidate {
+  lat: number;
+  lng: number;
+  displayName?: string;
+  // 0 to 1: how likely this is the place meant
+  confidence: number;
+  matchType: GeocodeMatchType;
+  // Whether it falls inside the map's geographic bounds (only set when bounds were given)
+  inBounds?: boolean;
+}
+
+// Address of a batch geocoding job with its answer
+export interface GeocodeJobItem {
+  // Position in the submitted address list
+  index: number;
+  address: string;
+  status: GeocodeItemStatus;
+  lat?: number;
+  lng?: number;
+  displayName?: string;
+  // Provider that answered
+  source?: string;
+  error?: string;
+  // Every match, best first (lat and lng are the best one's)
+  candidates?: GeocodeCandidate[];
+}
+
+// Addresses geocoded on the server in the background (POST /api/geocode/batch)
+export interface GeocodeJob {
+  id: string;
+  // 'running' until every address has an answer
+  status: 'running' | 'done';
+  // Map area the candidates were checked against
+  bounds?: GeographicBounds;
+  total: number;
+  processed: number;
+  counts: Record<GeocodeItemStatus, number>;
+  // Every item, or those changed since the `since` cursor the job was fetched with
+  items: GeocodeJobItem[];
+  // Pass as `since` to fetch only the items changed after this response
+  cursor: string;
+  createdAt: Date;
+}
@@ -0,0 +1,935 @@
+import {
+  CanvasConfig,
+  ControlPoint,
+  GeographicBounds,
+  Georeference,
+  ImportedValues,
+  MapRole,
+  PointCoordinates,
+  TilePyramid,
+  ZoneContent,
+  ZoneCoordinates,
+  ZoneStyle,
+  ZoneType,
+} from './types';
+import { ZoneInput } from './zone-store';
+import { LevelInput } from './level-store';
+import { MIN_CONTROL_POINTS } from './georeference';
+import { SYNC_FIELDS } from './import-sync';
+import { MAX_GEOCODE_CANDIDATES } from './geocoding';
+
+/**
+ * A single validation problem, addressed by a dotted field path (e.g. `zones.3.coordinates.points`)
+ */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: ValidationIssue[] };
+
+export const ZONE_TYPES: ZoneType[] = ['point', 'rectangle', 'circle', 'polygon'];
+
+export interface CreateMapInput {
+  title: string;
+  description: string | null;
+  geographicBounds: GeographicBounds | null;
+  canvasConfig: CanvasConfig;
+  imageUrl: string | null;
+  useBaseMap: boolean;
+  categories: string[];
+  levels: LevelInput[];
+  zones: ZoneInput[];
+  aiNavigatorEnabled: boolean;
+  aiNavigatorPrompt: string | null;
+}
+
+// Optional note recorded with the revision a save creates (the author is the signed-in user)
+export interface RevisionNoteInput {
+  message?: string | null;
+}
+
+export interface UpdateMapInput extends RevisionNoteInput {
+  title?: string;
+  description?: string | null;
+  geographicBounds?: GeographicBounds | null;
+  canvasConfig?: CanvasConfig;
+  categories?: string[];
+  levels?: LevelInput[];
+  zones?: ZoneInput[];
+  aiNavigatorEnabled?: boolean;
+  aiNavigatorPrompt?: string | null;
+}
+
+export interface ZoneSyncInput extends RevisionNoteInput {
+  zones: ZoneInput[];
+}
+
+export interface RegisterInput {
+  email: string;
+  password: string;
+  name: string | null;
+}
+
+export interface AddMemberInput {
+  email: string;
+  role: MapRole;
+}
+
+export interface GeocodeInput {
+  address: string;
+  bounds?: GeographicBounds;
+  limit?: number;
+}
+
+export interface GeocodeBatchInput {
+  addresses: string[];
+  bounds?: GeographicBounds;
+}
+
+export interface GeocodeJobQuery {
+  since: Date | null;
+}
+
+export interface GeocodeRetryInput {
+  // Items to retry; every failed or not found item when unset
+  indexes?: number[];
+}
+
+export type MapListSort = 'updated' | 'created' | 'title';
+
+export interface MapListQuery {
+  cursor: string | null;
+  limit: number;
+  search: string | null;
+  published: boolean | null;
+  category: string | null;
+  hasBounds: boolean | null;
+  sort: MapListSort;
+  order: 'asc' | 'desc';
+}
+
+const MAP_ROLES: MapRole[] = ['viewer', 'editor', 'owner'];
+const MAP_LIST_SORTS: MapListSort[] = ['updated', 'created', 'title'];
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MIN_PASSWORD_LENGTH = 8;
+export const MAX_GEOCODE_BATCH = 5000;
+
+type Issues = ValidationIssue[];
+
+function joinPath(path: string, key: string | number): string {
+  return path ? `${path}.${key}` : String(key);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectRecord(value: unknown, path: string, issues: Issues): Record<string, unknown> | undefined {
+  if (!isRecord(value)) {
+    issues.push({ path: path || '(root)', message: 'Expected an object' });
+    return undefined;
+  }
+  return value;
+}
+
+function expectNumber(value: unknown, path: string, issues: Issues, options: { min?: number; max?: number; positive?: boolean } = {}): number | undefined {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    issues.push({ path, message: 'Expected a finite number' });
+    return undefined;
+  }
+  if (options.positive && value <= 0) {
+    issues.push({ path, message: 'Must be greater than 0' });
+    return undefined;
+  }
+  if (options.min !== undefined && value < options.min) {
+    issues.push({ path, message: `Must be at least ${options.min}` });
+    return undefined;
+  }
+  if (options.max !== undefined && value > options.max) {
+    issues.push({ path, message: `Must be at most ${options.max}` });
+    return undefined;
+  }
+  return value;
+}
+
+function expectString(value: unknown, path: string, issues: Issues, options: { nonEmpty?: boolean } = {}): string | undefined {
+  if (typeof value !== 'string') {
+    issues.push({ path, message: 'Expected a string' });
+    return undefined;
+  }
+  if (options.nonEmpty && value.trim() === '') {
+    issues.push({ path, message: 'Must not be empty' });
+    return undefined;
+  }
+  return value;
+}
+
+function expectBoolean(value: unknown, path: string, issues: Issues): boolean | undefined {
+  if (typeof value !== 'boolean') {
+    issues.push({ path, message: 'Expected a boolean' });
+    return undefined;
+  }
+  return value;
+}
+
+function expectStringArray(value: unknown, path: string, issues: Issues): string[] | undefined {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'Expected an array of strings' });
+    return undefined;
+  }
+  const result: string[] = [];
+  value.forEach((item, index) => {
+    const str = expectString(item, joinPath(path, index), issues);
+    if (str !== undefined) result.push(str);
+  });
+  return result;
+}
+
+/**
+ * Optional nullable string: undefined stays undefined, null and '' become null
+ */
+function optionalNullableString(value: unknown, path: string, issues: Issues): string | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null) return null;
+  const str = expectString(value, path, issues);
+  return str === undefined ? undefined : str || null;
+}
+
+/**
+ * Validate geographic bounds ({minLat, maxLat, minLng, maxLng})
+ */
+export function validateGeographicBounds(value: unknown, path: string, issues: Issues): GeographicBounds | undefined {
+  const record = expectRecord(value, path, issues);
+  if (!record) return undefined;
+
+  const minLat = expectNumber(record.minLat, joinPath(path, 'minLat'), issues, { min: -90, max: 90 });
+  const maxLat = expectNumber(record.maxLat, joinPath(path, 'maxLat'), issues, { min: -90, max: 90 });
+  const minLng = expectNumber(record.minLng, joinPath(path, 'minLng'), issues, { min: -180, max: 180 });
+  const maxLng = expectNumber(record.maxLng, joinPath(path, 'maxLng'), issues, { min: -180, max: 180 });
+
+  if (minLat === undefined || maxLat === undefined || minLng === undefined || maxLng === undefined) {
+    return undefined;
+  }
+  if (minLat >= maxLat) {
+    issues.push({ path: joinPath(path, 'minLat'), message: 'Must be less than maxLat' });
+    return undefined;
+  }
+  if (minLng >= maxLng) {
+    issues.push({ path: joinPath(path, 'minLng'), message: 'Must be less than maxLng' });
+    return undefined;
+  }
+
+  return { minLat, maxLat, minLng, maxLng };
+}
+
+/**
+ * Validate canvas configuration. `coordinateSystem` defaults to 'pixel'.
+ */
+export function validateCanvasConfig(value: unknown, path: string, issues: Issues): CanvasConfig | undefined {
+  const record = expectRecord(value, path, issues);
+  if (!record) return undefined;
+
+  const width = expectNumber(record.width, joinPath(path, 'width'), issues, { positive: true });
+  const height = expectNumber(record.height, joinPath(path, 'height'), issues, { positive: true });
+
+  let coordinateSystem: CanvasConfig['coordinateSystem'] = 'pixel';
+  if (record.coordinateSystem !== undefined) {
+    if (record.coordinateSystem !== 'geographic' && record.coordinateSystem !== 'pixel') {
+      issues.push({ path: joinPath(path, 'coordinateSystem'), message: "Expected 'geographic' or 'pixel'" });
+      return undefined;
+    }
+    coordinateSystem = record.coordinateSystem;
+  }
+
+  const scale = record.scale !== undefined
+    ? expectNumber(record.scale, joinPath(path, 'scale'), issues, { positive: true })
+    : undefined;
+
+  const tiles = record.tiles !== undefined && record.tiles !== null
+    ? validateTilePyramid(record.tiles, joinPath(path, 'tiles'), issues)
+    : undefined;
+
+  const georeference = record.georeference !== undefined && record.georeference !== null
+    ? validateGeoreference(record.georeference, joinPath(path, 'georeference'), issues)
+    : undefined;
+
+  if (width === undefined || height === undefined) return undefined;
+
+  return {
+    width,
+    height,
+    coordinateSystem,
+    ...(scale !== undefined && { scale }),
+    ...(tiles && { tiles }),
+    ...(georeference && { georeference }),
+  };
+}
+
+function validateGeoreference(value: unknown, path: string, issues: Issues): Georeference | undefined {
+  const record = expectRecord(value, path, issues);
+  if (!record) return undefined;
+
+  if (record.method !== 'affine' && record.method !== 'similarity') {
+    issues.push({ path: joinPath(path, 'method'), message: "Expected 'affine' or 'similarity'" });
+    return undefined;
+  }
+
+  const pointsPath = joinPath(path, 'controlPoints');
+  if (!Array.isArray(record.controlPoints) || record.controlPoints.length < MIN_CONTROL_POINTS) {
+    issues.push({ path: pointsPath, message: `Expected an array of at least ${MIN_CONTROL_POINTS} control points` });
+    return undefined;
+  }
+  const issueCount = issues.length;
+  const controlPoints = record.controlPoints.map((item, index) => {
+    const pointRecord = expectRecord(item, joinPath(pointsPath, index), issues);
+    const point = pointRecord ? validateGeoPoint(pointRecord, joinPath(pointsPath, index), issues) : undefined;
+    if (point && (point.lat === undefined || point.lng === undefined)) {
+      issues.push({ path: joinPath(pointsPath, index), message: 'Expected lat and lng' });
+    }
+    return point;
+  });
+
+  const transformPath = joinPath(path, 'transform');
+  if (!Array.isArray(record.transform) || record.transform.length !== 6) {
+    issues.push({ path: transformPath, message: 'Expected an array of 6 numbers' });
+    return undefined;
+  }
+  const transform = record.transform.map((item, index) => expectNumber(item, joinPath(transformPath, index), issues));
+  if (issues.length > issueCount) return undefined;
+
+  const [a, b, c, d, e, f] = transform as number[];
+  if (a * e - b * d === 0) {
+    issues.push({ path: transformPath, message: 'Transform must be invertible' });
+    return undefined;
+  }
+
+  return {
+    method: record.method,
+    controlPoints: controlPoints as ControlPoint[],
+    transform: [a, b, c, d, e, f],
+  };
+}
+
+function validateTilePyramid(value: unknown, path: string, issues: Issues): TilePyramid | undefined {
+  const record = expectRecord(value, path, issues);
+  if (!record) return undefined;
+
+  const url = expectString(record.url, joinPath(path, 'url'), issues, { nonEmpty: true });
+  const width = expectNumber(record.width, joinPath(path, 'width'), issues, { positive: true });
+  const height = expectNumber(record.height, joinPath(path, 'height'), issues, { positive: true });
+  const tileSize = expectNumber(record.tileSize, joinPath(path, 'tileSize'), issues, { positive: true });
+  const minLevel = expectNumber(record.minLevel, joinPath(path, 'minLevel'), issues, { min: 0 });
+  const maxLevel = expectNumber(record.maxLevel, joinPath(path, 'maxLevel'), issues, { min: 0 });
+
+  if (url !== undefined && !['{level}', '{col}', '{row}'].every(placeholder => url.includes(placeholder))) {
+    issues.push({ path: joinPath(path, 'url'), message: 'Must contain {level}, {col} and {row} placeholders' });
+  }
+  if (minLevel !== undefined && maxLevel !== undefined && minLevel > maxLevel) {
+    issues.push({ path: joinPath(path, 'minLevel'), message: 'Must not be greater than maxLevel' });
+  }
+
+  if (url === undefined || width === undefined || height === undefined || tileSize === undefined ||
+    minLevel === undefined || maxLevel === undefined) {
+    return undefined;
+  }
+  return { url, width, height, tileSize, minLevel, maxLevel };
+}
+
+function validatePoint(record: Record<string, unknown>, path: string, issues: Issues): PointCoordinates | undefined {
+  const x = expectNumber(record.x, joinPath(path, 'x'), issues);
+  const y = expectNumber(record.y, joinPath(path, 'y'), issues);
+  if (x === undefined || y === undefined) return undefined;
+  return { x, y };
+}
+
+/**
+ * A canvas point that may also carry its geographic position (points and
+ * polygon vertices placed directly on the base map)
+ */
+function validateGeoPoint(record: Record<string, unknown>, path: string, issues: Issues): PointCoordinates | undefined {
+  const point = validatePoint(record, path, issues);
+  if (!point) return undefined;
+
+  if (record.lat !== undefined || record.lng !== undefined) {
+    const lat = expectNumber(record.lat, joinPath(path, 'lat'), issues, { min: -90, max: 90 });
+    const lng = expectNumber(record.lng, joinPath(path, 'lng'), issues, { min: -180, max: 180 });
+    if (lat === undefined || lng === undefined) return undefined;
+    return { ...point, lat, lng };
+  }
+  return point;
+}
+
+/**
+ * Validate zone coordinates against the shape required by the zone type
+ */
+export function validateZoneCoordinates(type: ZoneType, value: unknown, path: string, issues: Issues): ZoneCoordinates | undefined {
+  const record = expectRecord(value, path, issues);
+  if (!record) return undefined;
+
+  switch (type) {
+    case 'point':
+      return validateGeoPoint(record, path, issues);
+    case 'rectangle': {
+      const point = validatePoint(record, path, issues);
+      const width = expectNumber(record.width, joinPath(path, 'width'), issues, { positive: true });
+      const height = expectNumber(record.height, joinPath(path, 'height'), issues, { positive: true });
+      if (!point || width === undefined || height === undefined) return undefined;
+      return { ...point, width, height };
+    }
+    case 'circle': {
+      const point = validatePoint(record, path, issues);
+      const radius = expectNumber(record.radius, joinPath(path, 'radius'), issues, { positive: true });
+      if (!point || radius === undefined) return undefined;
+      return { ...point, radius };
+    }
+    case 'polygon': {
+      const pointsPath = joinPath(path, 'points');
+      if (!Array.isArray(record.points)) {
+        issues.push({ path: pointsPath, message: 'Expected an array of {x, y} points' });
+        return undefined;
+      }
+      if (record.points.length < 3) {
+        issues.push({ path: pointsPath, message: 'A polygon needs at least 3 points' });
+        return undefined;
+      }
+      const issueCount = issues.length;
+      const points = record.points.map((item, index) => {
+        const pointRecord = expectRecord(item, joinPath(pointsPath, index), issues);
+        return pointRecord ? validateGeoPoint(pointRecord, joinPath(pointsPath, index), issues) : undefined;
+      });
+      if (issues.length > issueCount) return undefined;
+      return { points: points as PointCoordinates[] };
+    }
+  }
+}
+
+/**
+ * Validate zone content (title, description, category, media and links)
+ */
+export function validateZoneContent(value: unknown, path: string, issues: Issues): ZoneContent | undefined {
+  const record = expectRecord(value, path, issues);
+  if (!record) return undefined;
+
+  const issueCount = issues.length;
+  const content: ZoneContent = {
+    title: expectString(record.title, joinPath(path, 'title'), issues) ?? '',
+  };
+
+  if (record.description !== undefined && record.description !== null) {
+    content.description = expectString(record.description, joinPath(path, 'description'), issues);
+  }
+  if (record.category !== undefined && record.category !== null && record.category !== '') {
+    content.category = expectString(record.category, joinPath(path, 'category'), issues);
+  }
+  if (record.images !== undefined) {
+    content.images = expectStringArray(record.images, joinPath(path, 'images'), issues);
+  }
+  if (record.videos !== undefined) {
+    content.videos = expectStringArray(record.videos, joinPath(path, 'videos'), issues);
+  }
+  if (record.links !== undefined) {
+    const linksPath = joinPath(path, 'links');
+    if (!Array.isArray(record.links)) {
+      issues.push({ path: linksPath, message: 'Expected an array of {label, url} links' });
+    } else {
+      content.links = [];
+      record.links.forEach((link, index) => {
+        const linkPath = joinPath(linksPath, index);
+        const linkRecord = expectRecord(link, linkPath, issues);
+        if (!linkRecord) return;
+        const label = expectString(linkRecord.label, joinPath(linkPath, 'label'), issues);
+        const url = expectString(linkRecord.url, joinPath(linkPath, 'url'), issues, { nonEmpty: true });
+        if (label !== undefined && url !== undefined) {
+          content.links!.push({ label, url });
+        }
+      });
+    }
+  }
+
+  return issues.length > issueCount ? undefined : content;
+}
+
+/**
+ * Validate zone style. `null` clears the style.
+ */
+export function validateZoneStyle(value: unknown, path: string, issues: Issues): ZoneStyle | null | undefined {
+  if (value === null) return null;
+  const record = expectRecord(value, path, issues);
+  if (!record) return undefined;
+
+  const issueCount = issues.length;
+  const style: ZoneStyle = {};
+
+  if (record.color !== undefined) style.color = expectString(record.color, joinPath(path, 'color'), issues);
+  if (record.borderColor !== undefined) style.borderColor = expectString(record.borderColor, joinPath(path, 'borderColor'), issues);
+  if (record.opacity !== undefined) style.opacity = expectNumber(record.opacity, joinPath(path, 'opacity'), issues, { min: 0, max: 1 });
+  if (record.icon !== undefined) style.icon = expectString(record.icon, joinPath(path, 'icon'), issues);
+  if (record.height !== undefined) style.height = expectNumber(record.height, joinPath(path, 'height'), issues, { positive: true });
+
+  return issues.length > issueCount ? undefined : style;
+}
+
+/**
+ * Validate the values a zone last received from a spreadsheet import. `null` clears them.
+ */
+function validateImportedValues(value: unknown, path: string, issues: Issues): ImportedValues | null | undefined {
+  if (value === undefined || value === null) return value;
+  const record = expectRecord(value, path, issues);
+  if (!record) return undefined;
+
+  const issueCount = issues.length;
+  const values: ImportedValues = {};
+  for (const [field, fieldValue] of Object.entries(record)) {
+    const syncField = SYNC_FIELDS.find(name => name === field);
+    if (!syncField) {
+      issues.push({ path: joinPath(path, field), message: `Expected one of: ${SYNC_FIELDS.join(', ')}` });
+      continue;
+    }
+    const text = expectString(fieldValue, joinPath(path, field), issues);
+    if (text !== undefined) values[syncField] = text;
+  }
+  return issues.length > issueCount ? undefined : values;
+}
+
+function validateZoneType(value: unknown, path: string, issues: Issues): ZoneType | undefined {
+  if (typeof value !== 'string' || !ZONE_TYPES.includes(value as ZoneType)) {
+    issues.push({ path, message: `Expected one of: ${ZONE_TYPES.join(', ')}` });
+    return undefined;
+  }
+  return value as ZoneType;
+}
+
+/**
+ * Validate a full zone payload
+ */
+export function validateZoneInput(value: unknown, path: string, issues: Issues): ZoneInput | undefined {
+  const record = expectRecord(value, path, issues);
+  if (!record) return undefined;
+
+  const issueCount = issues.length;
+  const id = record.id !== undefined ? expectString(record.id, joinPath(path, 'id'), issues) : undefined;
+  const type = validateZoneType(record.type, joinPath(path, 'type'), issues);
+  const coordinates = type ? validateZoneCoordinates(type, record.coordinates, joinPath(path, 'coordinates'), issues) : undefined;
+  const content = validateZoneContent(record.content, joinPath(path, 'content'), issues);
+  const style = record.style !== undefined ? validateZoneStyle(record.style, joinPath(path, 'style'), issues) : undefined;
+  const levelId = optionalNullableString(record.levelId, joinPath(path, 'levelId'), issues);
+  const externalId = optionalNullableString(record.externalId, joinPath(path, 'externalId'), issues);
+  const importedValues = validateImportedValues(record.importedValues, joinPath(path, 'importedValues'), issues);
+
+  if (issues.length > issueCount || !type || !coordinates || !content) return undefined;
+
+  return {
+    ...(id !== undefined && { id }),
+    type,
+    coordinates,
+    content,
+    ...(style !== undefined && { style }),
+    ...(levelId !== undefined && { levelId }),
+    ...(externalId !== undefined && { externalId }),
+    ...(importedValues !== undefined && { importedValues }),
+  };
+}
+
+function validateZoneList(value: unknown, path: string, issues: Issues): ZoneInput[] | undefined {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'Expected an array of zones' });
+    return undefined;
+  }
+  const zones: ZoneInput[] = [];
+  value.forEach((zone, index) => {
+    const validated = validateZoneInput(zone, joinPath(path, index), issues);
+    if (validated) zones.push(validated);
+  });
+  return zones;
+}
+
+/**
+ * Validate a level payload ({id?, name, ordinal, imageUrl?, tiles?, elevation?})
+ */
+function validateLevelInput(value: unknown, path: string, issues: Issues): LevelInput | undefined {
+  const record = expectRecord(value, path, issues);
+  if (!record) return undefined;
+
+  const issueCount = issues.length;
+  const id = record.id !== undefined ? expectString(record.id, joinPath(path, 'id'), issues) : undefined;
+  const name = expectString(record.name, joinPath(path, 'name'), issues, { nonEmpty: true })?.trim();
+  const ordinal = expectNumber(record.ordinal, joinPath(path, 'ordinal'), issues);
+  if (ordinal !== undefined && !Number.isInteger(ordinal)) {
+    issues.push({ path: joinPath(path, 'ordinal'), message: 'Must be a whole number' });
+  }
+  const imageUrl = optionalNullableString(record.imageUrl, joinPath(path, 'imageUrl'), issues);
+  const tiles = record.tiles !== undefined && record.tiles !== null
+    ? validateTilePyramid(record.tiles, joinPath(path, 'tiles'), issues)
+    : undefined;
+  const elevation = record.elevation === undefined ? 0 : expectNumber(record.elevation, joinPath(path, 'elevation'), issues);
+
+  if (issues.length > issueCount || !name || ordinal === undefined || elevation === undefined) return undefined;
+
+  return {
+    ...(id !== undefined && { id }),
+    name,
+    ordinal,
+    ...(imageUrl && { imageUrl }),
+    ...(tiles && { tiles }),
+    elevation,
+  };
+}
+
+function validateLevelList(value: unknown, path: string, issues: Issues): LevelInput[] | undefined {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'Expected an array of levels' });
+    return undefined;
+  }
+  const levels: LevelInput[] = [];
+  value.forEach((level, index) => {
+    const validated = validateLevelInput(level, joinPath(path, index), issues);
+    if (validated) levels.push(validated);
+  });
+  return levels;
+}
+
+function validateCategories(value: unknown, path: string, issues: Issues): string[] | undefined {
+  if (value === null) return [];
+  const categories = expectStringArray(value, path, issues);
+  return categories?.map(c => c.trim()).filter(Boolean);
+}
+
+function validateRevisionNote(record: Record<string, unknown>, issues: Issues): RevisionNoteInput {
+  const note: RevisionNoteInput = {};
+  if (record.message !== undefined) note.message = optionalNullableString(record.message, 'message', issues);
+  return note;
+}
+
+function validateEmail(value: unknown, path: string, issues: Issues): string | undefined {
+  const email = expectString(value, path, issues, { nonEmpty: true })?.trim().toLowerCase();
+  if (email !== undefined && !EMAIL_PATTERN.test(email)) {
+    issues.push({ path, message: 'Must be a valid email address' });
+    return undefined;
+  }
+  return email;
+}
+
+function validateRole(value: unknown, path: string, issues: Issues): MapRole | undefined {
+  if (typeof value !== 'string' || !MAP_ROLES.includes(value as MapRole)) {
+    issues.push({ path, message: `Must be one of: ${MAP_ROLES.join(', ')}` });
+    return undefined;
+  }
+  return value as MapRole;
+}
+
+function result<T>(issues: Issues, data: T): ValidationResult<T> {
+  return issues.length > 0 ? { success: false, issues } : { success: true, data };
+}
+
+/**
+ * Validate the body of POST /api/maps
+ */
+export function validateCreateMapBody(body: unknown): ValidationResult<CreateMapInput> {
+  const issues: Issues = [];
+  const record = expectRecord(body, '', issues);
+  if (!record) return { success: false, issues };
+
+  const data: CreateMapInput = {
+    title: expectString(record.title, 'title', issues, { nonEmpty: true })?.trim() ?? '',
+    description: optionalNullableString(record.description, 'description', issues) ?? null,
+    geographicBounds: record.geographicBounds == null
+      ? null
+      : validateGeographicBounds(record.geographicBounds, 'geographicBounds', issues) ?? null,
+    canvasConfig: validateCanvasConfig(record.canvasConfig, 'canvasConfig', issues) as CanvasConfig,
+    imageUrl: optionalNullableString(record.imageUrl, 'imageUrl', issues) ?? null,
+    useBaseMap: record.useBaseMap === undefined ? false : expectBoolean(record.useBaseMap, 'useBaseMap', issues) ?? false,
+    categories: record.categories === undefined ? [] : validateCategories(record.categories, 'categories', issues) ?? [],
+    levels: record.levels == null ? [] : validateLevelList(record.levels, 'levels', issues) ?? [],
+    zones: record.zones === undefined ? [] : validateZoneList(record.zones, 'zones', issues) ?? [],
+    aiNavigatorEnabled: record.aiNavigatorEnabled === undefined
+      ? true
+      : expectBoolean(record.aiNavigatorEnabled, 'aiNavigatorEnabled', issues) ?? true,
+    aiNavigatorPrompt: optionalNullableString(record.aiNavigatorPrompt, 'aiNavigatorPrompt', issues) ?? null,
+  };
+
+  return result(issues, data);
+}
+
+/**
+ * Validate the body of PUT /api/maps/[id]. Every field is optional.
+ */
+export function validateUpdateMapBody(body: unknown): ValidationResult<UpdateMapInput> {
+  const issues: Issues = [];
+  const record = expectRecord(body, '', issues);
+  if (!record) return { success: false, issues };
+
+  const data: UpdateMapInput = validateRevisionNote(record, issues);
+
+  if (record.title !== undefined) data.title = expectString(record.title, 'title', issues, { nonEmpty: true })?.trim();
+  if (record.description !== undefined) data.description = optionalNullableString(record.description, 'description', issues);
+  if (record.geographicBounds !== undefined) {
+    data.geographicBounds = record.geographicBounds === null
+      ? null
+      : validateGeographicBounds(record.geographicBounds, 'geographicBounds', issues);
+  }
+  if (record.canvasConfig !== undefined) data.canvasConfig = validateCanvasConfig(record.canvasConfig, 'canvasConfig', issues);
+  if (record.categories !== undefined) data.categories = validateCategories(record.categories, 'categories', issues);
+  if (record.published !== undefined) {
+    issues.push({ path: 'published', message: 'Use POST or DELETE /api/maps/[id]/publish to publish or unpublish' });
+  }
+  if (record.levels !== undefined && record.levels !== null) data.levels = validateLevelList(record.levels, 'levels', issues);
+  if (record.zones !== undefined && record.zones !== null) data.zones = validateZoneList(record.zones, 'zones', issues);
+  if (record.aiNavigatorEnabled !== undefined) data.aiNavigatorEnabled = expectBoolean(record.aiNavigatorEnabled, 'aiNavigatorEnabled', issues);
+  if (record.aiNavigatorPrompt !== undefined) data.aiNavigatorPrompt = optionalNullableString(record.aiNavigatorPrompt, 'aiNavigatorPrompt', issues);
+
+  return result(issues, data);
+}
+
+/**
+ * Validate the body of POST /api/maps/[id]/zones
+ */
+export function validateCreateZoneBody(body: unknown): ValidationResult<ZoneInput> {
+  const issues: Issues = [];
+  const zone = validateZoneInput(body, '', issues);
+  return result(issues, zone as ZoneInput);
+}
+
+/**
+ * Validate the body of PUT /api/maps/[id]/zones ({ zones: [...], author?, message? })
+ */
+export function validateZoneSyncBody(body: unknown): ValidationResult<ZoneSyncInput> {
+  const issues: Issues = [];
+  const record = expectRecord(body, '', issues);
+  if (!record) return { success: false, issues };
+
+  const zones = validateZoneList(record.zones, 'zones', issues);
+  return result(issues, { zones: zones ?? [], ...validateRevisionNote(record, issues) });
+}
+
+/**
+ * Validate the optional body of POST /api/maps/[id]/revisions/[revisionId]/restore
+ */
+export function validateRestoreBody(body: unknown): ValidationResult<RevisionNoteInput> {
+  const issues: Issues = [];
+  if (body === undefined || body === null) return { success: true, data: {} };
+  const record = expectRecord(body, '', issues);
+  if (!record) return { success: false, issues };
+
+  return result(issues, validateRevisionNote(record, issues));
+}
+
+/**
+ * Validate the body of PATCH /api/maps/[id]/zones/[zoneId].
+ * Coordinates are checked against the new type, or the stored type when unchanged.
+ */
+export function validateZonePatchBody(body: unknown, currentType: ZoneType): ValidationResult<Partial<ZoneInput>> {
+  const issues: Issues = [];
+  const record = expectRecord(body, '', issues);
+  if (!record) return { success: false, issues };
+
+  const data: Partial<ZoneInput> = {};
+
+  if (record.type !== undefined) {
+    data.type = validateZoneType(record.type, 'type', issues);
+    if (data.type && data.type !== currentType && record.coordinates === undefined) {
+      issues.push({ path: 'coordinates', message: 'Required when changing the zone type' });
+    }
+  }
+  if (record.coordinates !== undefined) {
+    const type = data.type ?? currentType;
+    data.coordinates = validateZoneCoordinates(type, record.coordinates, 'coordinates', issues);
+  }
+  if (record.content !== undefined) data.content = validateZoneContent(record.content, 'content', issues);
+  if (record.style !== undefined) data.style = validateZoneStyle(record.style, 'style', issues);
+  if (record.levelId !== undefined) data.levelId = optionalNullableString(record.levelId, 'levelId', issues);
+  if (record.externalId !== undefined) data.externalId = optionalNullableString(record.externalId, 'externalId', issues);
+  if (record.importedValues !== undefined) data.importedValues = validateImportedValues(record.importedValues, 'importedValues', issues);
+
+  return result(issues, data);
+}
+
+/**
+ * Validate the body of POST /api/auth/register
+ */
+export function validateRegisterBody(body: unknown): ValidationResult<RegisterInput> {
+  const issues: Issues = [];
+  const record = expectRecord(body, '', issues);
+  if (!record) return { success: false, issues };
+
+  const password = expectString(record.password, 'password', issues);
+  if (password !== undefined && password.length < MIN_PASSWORD_LENGTH) {
+    issues.push({ path: 'password', message: `Must be at least ${MIN_PASSWORD_LENGTH} characters` });
+  }
+
+  const data: RegisterInput = {
+    email: validateEmail(record.email, 'email', issues) ?? '',
+    password: password ?? '',
+    name: optionalNullableString(record.name, 'name', issues)?.trim() || null,
+  };
+
+  return result(issues, data);
+}
+
+/**
+ * Validate the body of POST /api/maps/[id]/members
+ */
+export function validateAddMemberBody(body: unknown): ValidationResult<AddMemberInput> {
+  const issues: Issues = [];
+  const record = expectRecord(body, '', issues);
+  if (!record) return { success: false, issues };
+
+  const data: AddMemberInput = {
+    email: validateEmail(record.email, 'email', issues) ?? '',
+    role: validateRole(record.role, 'role', issues) ?? 'viewer',
+  };
+
+  return result(issues, data);
+}
+
+/**
+ * Validate the body of PATCH /api/maps/[id]/members/[memberId]
+ */
+export function validateMemberRoleBody(body: unknown): ValidationResult<{ role: MapRole }> {
+  const issues: Issues = [];
+  const record = expectRecord(body, '', issues);
+  if (!record) return { success: false, issues };
+
+  const role = validateRole(record.role, 'role', issues);
+  return result(issues, { role: role ?? 'viewer' });
+}
+
+/**
+ * Validate the body of POST /api/geocode/batch
+ */
+export function validateGeocodeBatchBody(body: unknown): ValidationResult<GeocodeBatchInput> {
+  const issues: Issues = [];
+  const record = expectRecord(body, '', issues);
+  if (!record) return { success: false, issues };
+
+  const addresses = expectStringArray(record.addresses, 'addresses', issues) ?? [];
+  if (Array.isArray(record.addresses)) {
+    if (addresses.length === 0) {
+      issues.push({ path: 'addresses', message: 'Must not be empty' });
+    } else if (addresses.length > MAX_GEOCODE_BATCH) {
+      issues.push({ path: 'addresses', message: `Must have at most ${MAX_GEOCODE_BATCH} addresses` });
+    }
+  }
+  addresses.forEach((address, index) => {
+    if (address.trim() === '') issues.push({ path: joinPath('addresses', index), message: 'Must not be empty' });
+  });
+
+  const bounds = record.bounds === undefined ? undefined : validateGeographicBounds(record.bounds, 'bounds', issues);
+
+  return result(issues, { addresses: addresses.map(address => address.trim()), ...(bounds && { bounds }) });
+}
+
+/**
+ * Validate the body of POST /api/geocode. `limit` defaults to MAX_GEOCODE_CANDIDATES.
+ */
+export function validateGeocodeBody(body: unknown): ValidationResult<GeocodeInput> {
+  const issues: Issues = [];
+  const record = expectRecord(body, '', issues);
+  if (!record) return { success: false, issues };
+
+  const address = expectString(record.address, 'address', issues, { nonEmpty: true });
+  const bounds = record.bounds === undefined ? undefined : validateGeographicBounds(record.bounds, 'bounds', issues);
+  let limit: number | undefined;
+  if (record.limit !== undefined) {
+    limit = expectNumber(record.limit, 'limit', issues, { min: 1, max: MAX_GEOCODE_CANDIDATES });
+    if (limit !== undefined && !Number.isInteger(limit)) {
+      issues.push({ path: 'limit', message: 'Expected an integer' });
+    }
+  }
+
+  return result(issues, {
+    address: address?.trim() ?? '',
+    ...(bounds && { bounds }),
+    ...(limit !== undefined && { limit }),
+  });
+}
+
+/**
+ * Validate the query string of GET /api/geocode/batch/[id]
+ */
+export function validateGeocodeJobQuery(params: URLSearchParams): ValidationResult<GeocodeJobQuery> {
+  const issues: Issues = [];
+
+  const rawSince = params.get('since');
+  const since = rawSince ? new Date(rawSince) : null;
+  if (since && Number.isNaN(since.getTime())) {
+    issues.push({ path: 'since', message: 'Expected a cursor from a previous response' });
+  }
+
+  return result(issues, { since });
+}
+
+/**
+ * Validate the optional body of POST /api/geocode/batch/[id]/retry
+ */
+export function validateGeocodeRetryBody(body: unknown): ValidationResult<GeocodeRetryInput> {
+  const issues: Issues = [];
+  if (body === undefined || body === null) return { success: true, data: {} };
+  const record = expectRecord(body, '', issues);
+  if (!record) return { success: false, issues };
+  if (record.indexes === undefined) return { success: true, data: {} };
+
+  if (!Array.isArray(record.indexes)) {
+    issues.push({ path: 'indexes', message: 'Expected an array of integers' });
+    return { success: false, issues };
+  }
+  const indexes = record.indexes.filter((index, position): index is number => {
+    const valid = Number.isInteger(index) && (index as number) >= 0;
+    if (!valid) issues.push({ path: joinPath('indexes', position), message: 'Expected a non-negative integer' });
+    return valid;
+  });
+
+  return result(issues, { indexes });
+}
+
+function parseBooleanParam(params: URLSearchParams, key: string, issues: Issues): boolean | null {
+  const value = params.get(key);
+  if (value === null || value === '') return null;
+  if (value === 'true' || value === 'false') return value === 'true';
+  issues.push({ path: key, message: 'Expected true or false' });
+  return null;
+}
+
+/**
+ * Validate the query string of GET /api/maps
+ */
+export function validateMapListQuery(params: URLSearchParams): ValidationResult<MapListQuery> {
+  const issues: Issues = [];
+
+  let limit = DEFAULT_PAGE_SIZE;
+  const rawLimit = params.get('limit');
+  if (rawLimit) {
+    limit = Number(rawLimit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      issues.push({ path: 'limit', message: `Expected an integer between 1 and ${MAX_PAGE_SIZE}` });
+    }
+  }
+
+  const sort = (params.get('sort') || 'created') as MapListSort;
+  if (!MAP_LIST_SORTS.includes(sort)) {
+    issues.push({ path: 'sort', message: `Expected one of: ${MAP_LIST_SORTS.join(', ')}` });
+  }
+
+  // Titles read best A-Z, timestamps newest first
+  const order = params.get('order') || (sort === 'title' ? 'asc' : 'desc');
+  if (order !== 'asc' && order !== 'desc') {
+    issues.push({ path: 'order', message: 'Expected asc or desc' });
+  }
+
+  const data: MapListQuery = {
+    cursor: params.get('cursor') || null,
+    limit,
+    search: params.get('q')?.trim() || null,
+    published: parseBooleanParam(params, 'published', issues),
+    category: params.get('category')?.trim() || null,
+    hasBounds: parseBooleanParam(params, 'hasBounds', issues),
+    sort,
+    order: order as 'asc' | 'desc',
+  };
+
+  return result(issues, data);
+}
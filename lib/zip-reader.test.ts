@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { deflateRawSync } from 'node:zlib';
+import { openZip } from './zip-reader';
+
+interface TestEntry {
+  name: string;
+  text: string;
+  deflate?: boolean;
+  // Extra field written in the local header only, as some zip tools do
+  localExtra?: number;
+}
+
+/**
+ * Build a ZIP archive (CRCs are left at zero: the reader doesn't check them)
+ */
+function createZip(entries: TestEntry[], comment = ''): Uint8Array {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name);
+    const raw = Buffer.from(entry.text);
+    const data = entry.deflate ? deflateRawSync(raw) : raw;
+    const extra = Buffer.alloc(entry.localExtra ?? 0);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(entry.deflate ? 8 : 0, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(extra.length, 28);
+    locals.push(local, name, extra, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(entry.deflate ? 8 : 0, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + extra.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  end.writeUInt16LE(Buffer.byteLength(comment), 20);
+
+  return new Uint8Array(Buffer.concat([...locals, directory, end, Buffer.from(comment)]));
+}
+
+describe('openZip', () => {
+  it('lists entries and reads stored and deflated ones', async () => {
+    const zip = openZip(createZip([
+      { name: 'mimetype', text: 'application/vnd.oasis.opendocument.spreadsheet' },
+      { name: 'content.xml', text: '<office:document-content/>'.repeat(50), deflate: true },
+    ]));
+
+    assert.deepEqual(zip.names, ['mimetype', 'content.xml']);
+    assert.equal(await zip.readText('mimetype'), 'application/vnd.oasis.opendocument.spreadsheet');
+    assert.equal(await zip.readText('content.xml'), '<office:document-content/>'.repeat(50));
+  });
+
+  it('answers null for entries the archive does not have', async () => {
+    const zip = openZip(createZip([{ name: 'a.txt', text: 'a' }]));
+
+    assert.equal(await zip.read('b.txt'), null);
+  });
+
+  it('finds the central directory behind an archive comment', async () => {
+    const zip = openZip(createZip([{ name: 'a.txt', text: 'a' }], 'written by a spreadsheet app'));
+
+    assert.equal(await zip.readText('a.txt'), 'a');
+  });
+
+  it('skips an extra field that only the local header has', async () => {
+    const zip = openZip(createZip([{ name: 'a.txt', text: 'payload', localExtra: 12 }]));
+
+    assert.equal(await zip.readText('a.txt'), 'payload');
+  });
+
+  it('reads archives that start inside a larger buffer', async () => {
+    const archive = createZip([{ name: 'a.txt', text: 'offset', deflate: true }]);
+    const padded = new Uint8Array(archive.length + 8);
+    padded.set(archive, 8);
+
+    assert.equal(await openZip(padded.subarray(8)).readText('a.txt'), 'offset');
+  });
+
+  it('rejects data that is not a ZIP archive', () => {
+    assert.throws(() => openZip(new TextEncoder().encode('name,address\nHQ,Main St 1\n'.repeat(2))), /Not a ZIP archive/);
+  });
+});
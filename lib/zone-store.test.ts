@@ -0,0 +1,146 @@
+import './testing/unused-prisma';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Prisma } from './generated/prisma';
+import { syncMapZones, toZoneCreateData, toZoneData, ZoneInput } from './zone-store';
+
+const MAP_ID = 'map-1';
+
+type StoredZone = ReturnType<typeof toZoneCreateData> & { id: string; mapId: string };
+
+/**
+ * In-memory stand-in for the few Prisma calls syncMapZones makes
+ */
+function createFakeClient(zones: StoredZone[], options: { levels?: string[]; media?: string[] } = {}) {
+  const rows = new Map(zones.map(zone => [zone.id, { ...zone }]));
+  const log = { updated: [] as string[], touched: 0, mediaLinks: new Map<string, string[]>() };
+  let nextId = 1;
+
+  const matches = (zone: StoredZone, where: { mapId?: string; id?: { in: string[] } }) =>
+    (where.mapId === undefined || zone.mapId === where.mapId) && (where.id === undefined || where.id.in.includes(zone.id));
+
+  const client = {
+    zone: {
+      findMany: async ({ where }: { where: { mapId?: string; id?: { in: string[] } } }) =>
+        [...rows.values()].filter(zone => matches(zone, where)),
+      create: async ({ data }: { data: Omit<StoredZone, 'id'> & { id?: string } }) => {
+        const id = data.id ?? `generated-${nextId++}`;
+        rows.set(id, { ...data, id });
+        return { id };
+      },
+      update: async ({ where, data }: { where: { id: string }; data: Partial<StoredZone> & { media?: { set: { id: string }[] } } }) => {
+        const { media, ...columns } = data;
+        if (media) {
+          log.mediaLinks.set(where.id, media.set.map(item => item.id));
+        } else {
+          rows.set(where.id, { ...rows.get(where.id)!, ...columns });
+          log.updated.push(where.id);
+        }
+      },
+      deleteMany: async ({ where }: { where: { id: { in: string[] } } }) => {
+        where.id.in.forEach(id => rows.delete(id));
+      },
+    },
+    level: {
+      findMany: async () => (options.levels ?? []).map(id => ({ id })),
+    },
+    media: {
+      findMany: async ({ where }: { where: { id: { in: string[] } } }) =>
+        (options.media ?? []).filter(id => where.id.in.includes(id)).map(id => ({ id })),
+    },
+    map: {
+      update: async () => {
+        log.touched++;
+      },
+    },
+  };
+
+  return { client: client as unknown as Prisma.TransactionClient, rows, log };
+}
+
+function input(id: string | undefined, title: string, overrides: Partial<ZoneInput> = {}): ZoneInput {
+  return { id, type: 'point', coordinates: { x: 1, y: 2 }, content: { title }, ...overrides };
+}
+
+function stored(id: string, title: string, overrides: Partial<ZoneInput> = {}, mapId = MAP_ID): StoredZone {
+  return { id, mapId, ...toZoneCreateData(input(id, title, overrides)) };
+}
+
+describe('syncMapZones', () => {
+  it('keeps existing ids, writes only changed zones, creates new ones and deletes the rest', async () => {
+    const { client, rows, log } = createFakeClient([stored('a', 'Library'), stored('b', 'Gym'), stored('c', 'Pool')]);
+
+    const result = await syncMapZones(MAP_ID, [
+      input('a', 'Library'),
+      input('b', 'Gymnasium'),
+      input('temp-1', 'Cafeteria'),
+    ], {}, client);
+
+    assert.deepEqual(result.unchanged, ['a']);
+    assert.deepEqual(result.updated, ['b']);
+    assert.deepEqual(result.deleted, ['c']);
+    assert.deepEqual(result.created, ['generated-1']);
+    assert.deepEqual(result.idMap, { a: 'a', b: 'b', 'temp-1': 'generated-1' });
+    assert.deepEqual(log.updated, ['b']);
+    assert.deepEqual([...rows.keys()].sort(), ['a', 'b', 'generated-1']);
+    assert.equal(log.touched, 1);
+  });
+
+  it('leaves the map untouched when nothing changed', async () => {
+    const { client, log } = createFakeClient([stored('a', 'Library', { style: { color: '#fff' } })]);
+
+    const result = await syncMapZones(MAP_ID, [input('a', 'Library', { style: { color: '#fff' } })], {}, client);
+
+    assert.deepEqual(result.unchanged, ['a']);
+    assert.equal(log.touched, 0);
+  });
+
+  it('creates a second zone submitted with an id already used in the same request', async () => {
+    const { client } = createFakeClient([stored('a', 'Library')]);
+
+    const result = await syncMapZones(MAP_ID, [input('a', 'Library'), input('a', 'Library copy')], {}, client);
+
+    assert.deepEqual(result.unchanged, ['a']);
+    assert.deepEqual(result.created, ['generated-1']);
+  });
+
+  it('resolves placeholder level ids and moves zones on unknown levels to every level', async () => {
+    const { client, rows } = createFakeClient([], { levels: ['level-1', 'level-2'] });
+
+    await syncMapZones(MAP_ID, [
+      input('z1', 'Upstairs', { levelId: 'new-level' }),
+      input('z2', 'Downstairs', { levelId: 'level-1' }),
+      input('z3', 'Gone', { levelId: 'deleted-level' }),
+    ], { levelIdMap: { 'new-level': 'level-2' } }, client);
+
+    assert.deepEqual([...rows.values()].map(zone => zone.levelId), ['level-2', 'level-1', null]);
+  });
+
+  it('recreates zones under their submitted ids when preserving ids, unless another map owns them', async () => {
+    const { client } = createFakeClient([stored('elsewhere', 'Other map', {}, 'map-2')]);
+
+    const result = await syncMapZones(MAP_ID, [input('restored', 'Library'), input('elsewhere', 'Gym')], { preserveIds: true }, client);
+
+    assert.deepEqual(result.idMap, { restored: 'restored', elsewhere: 'generated-1' });
+  });
+
+  it('links uploaded media that exists and skips other URLs', async () => {
+    const { client, log } = createFakeClient([stored('a', 'Library')], { media: ['m1'] });
+
+    await syncMapZones(MAP_ID, [
+      input('a', 'Library', { content: { title: 'Library', images: ['/api/media/m1', '/api/media/missing', 'https://example.com/a.png'] } }),
+    ], {}, client);
+
+    assert.deepEqual(log.mediaLinks.get('a'), ['m1']);
+  });
+});
+
+describe('toZoneData', () => {
+  it('leaves out fields that are not given, so partial updates keep them', () => {
+    assert.deepEqual(toZoneData({ content: { title: 'Library', category: '  ' } }), {
+      content: JSON.stringify({ title: 'Library', category: '  ' }),
+      category: null,
+    });
+    assert.deepEqual(toZoneData({ style: null, levelId: null }), { style: null, levelId: null });
+  });
+});
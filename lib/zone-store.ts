@@ -0,0 +1,207 @@
+import { Prisma } from './generated/prisma';
+import { linkZoneMedia, zoneMediaIds } from './media';
+import { prisma } from './prisma';
+import { ImportedValues, ZoneContent, ZoneCoordinates, ZoneStyle, ZoneType } from './types';
+
+/**
+ * Zone payload accepted by the map and zone API routes.
+ * `id` is optional: ids that don't belong to the map are treated as client-side
+ * placeholders and replaced by server-generated ids.
+ */
+export interface ZoneInput {
+  id?: string;
+  type: ZoneType;
+  coordinates: ZoneCoordinates;
+  content: ZoneContent;
+  style?: ZoneStyle | null;
+  // Level id (or a placeholder id from the same request's levels); null puts the zone on every level
+  levelId?: string | null;
+  // Spreadsheet row key and the values last imported from it; null clears them
+  externalId?: string | null;
+  importedValues?: ImportedValues | null;
+}
+
+export interface ZoneSyncResult {
+  // Maps every input id (including client placeholders) to the persisted zone id
+  idMap: Record<string, string>;
+  created: string[];
+  updated: string[];
+  deleted: string[];
+  unchanged: string[];
+}
+
+type ZoneRow = {
+  id: string;
+  type: string;
+  coordinates: string;
+  content: string;
+  style: string | null;
+  levelId: string | null;
+  externalId: string | null;
+  importedValues: string | null;
+};
+
+/**
+ * Category column value for a zone's content (blank categories are stored as null)
+ */
+function zoneCategory(content: ZoneContent): string | null {
+  return content.category?.trim() || null;
+}
+
+/**
+ * Convert a zone payload into the JSON-string columns stored by Prisma.
+ * `style` is left out when undefined so partial updates keep the stored value.
+ */
+export function toZoneData(zone: Partial<ZoneInput>) {
+  return {
+    ...(zone.type !== undefined && { type: zone.type }),
+    ...(zone.coordinates !== undefined && { coordinates: JSON.stringify(zone.coordinates) }),
+    ...(zone.content !== undefined && { content: JSON.stringify(zone.content), category: zoneCategory(zone.content) }),
+    ...(zone.style !== undefined && { style: zone.style ? JSON.stringify(zone.style) : null }),
+    ...(zone.levelId !== undefined && { levelId: zone.levelId }),
+    ...(zone.externalId !== undefined && { externalId: zone.externalId }),
+    ...(zone.importedValues !== undefined && { importedValues: zone.importedValues ? JSON.stringify(zone.importedValues) : null }),
+  };
+}
+
+/**
+ * Columns for creating a zone row from a complete payload
+ */
+export function toZoneCreateData(zone: ZoneInput) {
+  return {
+    type: zone.type,
+    coordinates: JSON.stringify(zone.coordinates),
+    content: JSON.stringify(zone.content),
+    category: zoneCategory(zone.content),
+    style: zone.style ? JSON.stringify(zone.style) : null,
+    levelId: zone.levelId ?? null,
+    externalId: zone.externalId ?? null,
+    importedValues: zone.importedValues ? JSON.stringify(zone.importedValues) : null,
+  };
+}
+
+/**
+ * Bump a map's updatedAt after its zones change, so listings sort by the last
+ * edit and can tell whether the draft moved on since it was published
+ */
+export async function touchMap(mapId: string, client: Prisma.TransactionClient = prisma): Promise<void> {
+  await client.map.update({ where: { id: mapId }, data: { updatedAt: new Date() } });
+}
+
+/**
+ * Check whether applying the payload would change the stored row
+ */
+function zoneHasChanges(existing: ZoneRow, data: ReturnType<typeof toZoneData>): boolean {
+  return (
+    (data.type !== undefined && data.type !== existing.type) ||
+    (data.coordinates !== undefined && data.coordinates !== existing.coordinates) ||
+    (data.content !== undefined && data.content !== existing.content) ||
+    (data.style !== undefined && data.style !== existing.style) ||
+    (data.levelId !== undefined && data.levelId !== existing.levelId) ||
+    (data.externalId !== undefined && data.externalId !== existing.externalId) ||
+    (data.importedValues !== undefined && data.importedValues !== existing.importedValues)
+  );
+}
+
+export interface ZoneSyncOptions {
+  // Recreate missing zones under their submitted ids (used when restoring a revision)
+  preserveIds?: boolean;
+  // Placeholder level ids resolved by syncMapLevels earlier in the same request
+  levelIdMap?: Record<string, string>;
+}
+
+/**
+ * Diff the submitted zones against the stored zones of a map and apply the
+ * minimal set of creates, updates and deletes in a single transaction, or in the
+ * caller's transaction when `client` is given.
+ * Existing zone ids are kept so deep links and analytics keyed on them stay valid.
+ */
+export async function syncMapZones(
+  mapId: string,
+  zones: ZoneInput[],
+  options: ZoneSyncOptions = {},
+  client?: Prisma.TransactionClient
+): Promise<ZoneSyncResult> {
+  if (!client) {
+    return prisma.$transaction(tx => syncMapZones(mapId, zones, options, tx));
+  }
+  const tx = client;
+
+  const existingZones = await tx.zone.findMany({
+    where: { mapId },
+    select: { id: true, type: true, coordinates: true, content: true, style: true, levelId: true, externalId: true, importedValues: true },
+  });
+  const existingById = new Map(existingZones.map(zone => [zone.id, zone]));
+
+  // Zones pointing at a level this map doesn't have go on every level
+  const levels = await tx.level.findMany({ where: { mapId }, select: { id: true } });
+  const levelIds = new Set(levels.map(level => level.id));
+  const resolveLevelId = (levelId: string | null | undefined) => {
+    if (!levelId) return levelId;
+    const resolved = options.levelIdMap?.[levelId] ?? levelId;
+    return levelIds.has(resolved) ? resolved : null;
+  };
+
+  // Ids that can't be reused for new zones: this map's own zones and any owned by another map
+  const takenIds = new Set<string>(existingById.keys());
+  if (options.preserveIds) {
+    const candidateIds = zones.map(zone => zone.id).filter((id): id is string => !!id && !existingById.has(id));
+    const taken = await tx.zone.findMany({ where: { id: { in: candidateIds } }, select: { id: true } });
+    taken.forEach(zone => takenIds.add(zone.id));
+  }
+
+  const result: ZoneSyncResult = { idMap: {}, created: [], updated: [], deleted: [], unchanged: [] };
+  const keptIds = new Set<string>();
+
+  for (const input of zones) {
+    const zone = { ...input, levelId: resolveLevelId(input.levelId) };
+    const data = toZoneData(zone);
+    const existing = zone.id ? existingById.get(zone.id) : undefined;
+
+    if (existing && !keptIds.has(existing.id)) {
+      keptIds.add(existing.id);
+      result.idMap[existing.id] = existing.id;
+
+      if (zoneHasChanges(existing, data)) {
+        await tx.zone.update({ where: { id: existing.id }, data });
+        if (data.content !== existing.content) {
+          await linkZoneMedia(existing.id, zone.content, tx);
+        }
+        result.updated.push(existing.id);
+      } else {
+        result.unchanged.push(existing.id);
+      }
+      continue;
+    }
+
+    const reuseId = options.preserveIds && zone.id && !takenIds.has(zone.id) ? zone.id : undefined;
+    const created = await tx.zone.create({
+      data: {
+        ...(reuseId && { id: reuseId }),
+        mapId,
+        ...toZoneCreateData(zone),
+      },
+      select: { id: true },
+    });
+    if (zoneMediaIds(zone.content).length > 0) {
+      await linkZoneMedia(created.id, zone.content, tx);
+    }
+    if (zone.id) {
+      result.idMap[zone.id] = created.id;
+      takenIds.add(zone.id);
+    }
+    result.created.push(created.id);
+  }
+
+  const staleIds = existingZones.map(zone => zone.id).filter(id => !keptIds.has(id));
+  if (staleIds.length > 0) {
+    await tx.zone.deleteMany({ where: { id: { in: staleIds } } });
+    result.deleted = staleIds;
+  }
+
+  if (result.created.length > 0 || result.updated.length > 0 || result.deleted.length > 0) {
+    await touchMap(mapId, tx);
+  }
+
+  return result;
+}
@@ -0,0 +1,6 @@
+export { default } from 'next-auth/middleware';
+
+// Editor pages require a signed-in user; the public viewer (/map/[id]) stays open
+export const config = {
+  matcher: ['/maps/:path*', '/create'],
+};
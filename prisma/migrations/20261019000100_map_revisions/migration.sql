@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "MapRevision" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "mapId" TEXT NOT NULL,
+    "snapshot" TEXT NOT NULL,
+    "author" TEXT,
+    "message" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "MapRevision_mapId_fkey" FOREIGN KEY ("mapId") REFERENCES "Map" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "MapRevision_mapId_createdAt_idx" ON "MapRevision"("mapId", "createdAt");
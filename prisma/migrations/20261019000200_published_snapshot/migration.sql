@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Map" ADD COLUMN "publishedAt" DATETIME;
+ALTER TABLE "Map" ADD COLUMN "publishedSnapshot" TEXT;
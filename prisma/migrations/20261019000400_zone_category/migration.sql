@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Zone" ADD COLUMN "category" TEXT;
+
+-- Backfill from the JSON content column
+UPDATE "Zone" SET "category" = NULLIF(TRIM(json_extract("content", '$.category')), '');
+
+-- CreateIndex
+CREATE INDEX "Zone_mapId_category_idx" ON "Zone"("mapId", "category");
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "Media" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "hash" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "_MediaToZone" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+    CONSTRAINT "_MediaToZone_A_fkey" FOREIGN KEY ("A") REFERENCES "Media" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "_MediaToZone_B_fkey" FOREIGN KEY ("B") REFERENCES "Zone" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- AlterTable
+ALTER TABLE "Map" ADD COLUMN "imageMediaId" TEXT REFERENCES "Media" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Media_hash_key" ON "Media"("hash");
+
+-- CreateIndex
+CREATE INDEX "Map_imageMediaId_idx" ON "Map"("imageMediaId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_MediaToZone_AB_unique" ON "_MediaToZone"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_MediaToZone_B_index" ON "_MediaToZone"("B");
+
+-- Existing data: URLs stay in place until `npm run media:migrate` moves them into media storage
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "Media" ADD COLUMN "width" INTEGER;
+ALTER TABLE "Media" ADD COLUMN "height" INTEGER;
+
+-- CreateTable
+CREATE TABLE "MediaVariant" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "mediaId" TEXT NOT NULL,
+    "width" INTEGER NOT NULL,
+    "height" INTEGER NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "MediaVariant_mediaId_fkey" FOREIGN KEY ("mediaId") REFERENCES "Media" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MediaVariant_mediaId_width_key" ON "MediaVariant"("mediaId", "width");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Media" ADD COLUMN "tilesKey" TEXT;
+ALTER TABLE "Media" ADD COLUMN "tileSize" INTEGER;
+ALTER TABLE "Media" ADD COLUMN "tileMinLevel" INTEGER;
+ALTER TABLE "Media" ADD COLUMN "tileMaxLevel" INTEGER;
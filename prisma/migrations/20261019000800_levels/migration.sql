@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "Level" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "mapId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "ordinal" INTEGER NOT NULL,
+    "imageUrl" TEXT,
+    "imageMediaId" TEXT,
+    "tiles" TEXT,
+    "elevation" REAL NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Level_mapId_fkey" FOREIGN KEY ("mapId") REFERENCES "Map" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Level_imageMediaId_fkey" FOREIGN KEY ("imageMediaId") REFERENCES "Media" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- AlterTable
+ALTER TABLE "Zone" ADD COLUMN "levelId" TEXT REFERENCES "Level" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE INDEX "Level_mapId_ordinal_idx" ON "Level"("mapId", "ordinal");
+
+-- CreateIndex
+CREATE INDEX "Level_imageMediaId_idx" ON "Level"("imageMediaId");
+
+-- CreateIndex
+CREATE INDEX "Zone_levelId_idx" ON "Zone"("levelId");
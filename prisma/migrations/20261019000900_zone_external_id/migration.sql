@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Zone" ADD COLUMN "externalId" TEXT;
+ALTER TABLE "Zone" ADD COLUMN "importedValues" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Zone_mapId_externalId_idx" ON "Zone"("mapId", "externalId");
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "GeocodeCache" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "provider" TEXT NOT NULL,
+    "query" TEXT NOT NULL,
+    "lat" REAL,
+    "lng" REAL,
+    "displayName" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GeocodeCache_provider_query_key" ON "GeocodeCache"("provider", "query");
@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "GeocodeCache" ADD COLUMN "ambiguous" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "GeocodeJob" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "total" INTEGER NOT NULL,
+    "processed" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "GeocodeJob_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "GeocodeJobItem" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "jobId" TEXT NOT NULL,
+    "index" INTEGER NOT NULL,
+    "address" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "lat" REAL,
+    "lng" REAL,
+    "displayName" TEXT,
+    "source" TEXT,
+    "error" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "GeocodeJobItem_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "GeocodeJob" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "GeocodeJob_userId_idx" ON "GeocodeJob"("userId");
+
+-- CreateIndex
+CREATE INDEX "GeocodeJob_status_createdAt_idx" ON "GeocodeJob"("status", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GeocodeJobItem_jobId_index_key" ON "GeocodeJobItem"("jobId", "index");
+
+-- CreateIndex
+CREATE INDEX "GeocodeJobItem_status_idx" ON "GeocodeJobItem"("status");
@@ -0,0 +1,20 @@
+-- Cached answers become candidate lists; the old single-result entries are dropped
+DROP TABLE "GeocodeCache";
+
+-- CreateTable
+CREATE TABLE "GeocodeCache" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "provider" TEXT NOT NULL,
+    "query" TEXT NOT NULL,
+    "candidates" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GeocodeCache_provider_query_key" ON "GeocodeCache"("provider", "query");
+
+-- AlterTable
+ALTER TABLE "GeocodeJob" ADD COLUMN "bounds" TEXT;
+
+-- AlterTable
+ALTER TABLE "GeocodeJobItem" ADD COLUMN "candidates" TEXT;
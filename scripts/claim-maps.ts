@@ -0,0 +1,30 @@
+/**
+ * Give maps created before accounts existed (maps without members) to an
+ * account, as their owner. Run once after the owner has registered.
+ *
+ * Usage: npm run maps:claim -- owner@example.com
+ */
+import { claimUnownedMaps } from '../lib/map-access';
+import { prisma } from '../lib/prisma';
+
+async function main() {
+  const email = process.argv[2]?.trim().toLowerCase();
+  if (!email) {
+    throw new Error('Usage: npm run maps:claim -- <email>');
+  }
+
+  const user = await prisma.user.findUnique({ where: { email }, select: { id: true } });
+  if (!user) {
+    throw new Error(`No account with the email ${email}; register it first`);
+  }
+
+  const claimed = await claimUnownedMaps(user.id);
+  console.log(`${email} now owns ${claimed} maps that had no members`);
+}
+
+main()
+  .catch((error) => {
+    console.error('Claiming maps failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
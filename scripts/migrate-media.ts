@@ -0,0 +1,138 @@
+/**
+ * Move base64 data URLs stored in maps, zones, published snapshots and revisions
+ * into media storage, replacing them with /api/media URLs, then generate
+ * variants for images stored before image processing existed.
+ * Safe to re-run: identical files dedupe to the same media.
+ *
+ * Usage: npm run media:migrate
+ */
+import { decodeDataUrl, detectMediaType, findImageMediaId, linkZoneMedia, processStoredMedia, storeMedia } from '../lib/media';
+import { prisma } from '../lib/prisma';
+import { MapSnapshot, ZoneContent } from '../lib/types';
+
+const DATA_URL_MARKER = ';base64,';
+
+const stats = { files: 0, maps: 0, zones: 0, revisions: 0, processed: 0 };
+
+async function externalize(value: string): Promise<string> {
+  const decoded = decodeDataUrl(value);
+  // Files that can't be uploaded (such as SVG) stay inline
+  if (!decoded || !detectMediaType(decoded.data)) return value;
+
+  const { media, created } = await storeMedia(decoded.data);
+  if (created) stats.files++;
+  return media.url;
+}
+
+async function externalizeAll(values: string[] | undefined): Promise<string[] | undefined> {
+  if (!values) return values;
+  const result: string[] = [];
+  for (const value of values) {
+    result.push(await externalize(value));
+  }
+  return result;
+}
+
+async function externalizeContent(content: ZoneContent): Promise<ZoneContent> {
+  return {
+    ...content,
+    ...(content.images && { images: await externalizeAll(content.images) }),
+    ...(content.videos && { videos: await externalizeAll(content.videos) }),
+  };
+}
+
+async function externalizeSnapshot(snapshot: MapSnapshot): Promise<MapSnapshot> {
+  const zones = [];
+  for (const zone of snapshot.zones) {
+    zones.push({ ...zone, content: await externalizeContent(zone.content) });
+  }
+  return {
+    ...snapshot,
+    ...(snapshot.imageUrl && { imageUrl: await externalize(snapshot.imageUrl) }),
+    zones,
+  };
+}
+
+async function migrateMaps() {
+  // Load one map at a time: rows with data URLs can be megabytes each
+  const ids = await prisma.map.findMany({ select: { id: true } });
+  for (const { id } of ids) {
+    const map = await prisma.map.findUniqueOrThrow({
+      where: { id },
+      select: { imageUrl: true, imageMediaId: true, publishedSnapshot: true, updatedAt: true },
+    });
+
+    const imageUrl = map.imageUrl ? await externalize(map.imageUrl) : null;
+    const imageMediaId = await findImageMediaId(imageUrl);
+    const publishedSnapshot = map.publishedSnapshot?.includes(DATA_URL_MARKER)
+      ? JSON.stringify(await externalizeSnapshot(JSON.parse(map.publishedSnapshot) as MapSnapshot))
+      : map.publishedSnapshot;
+
+    if (imageUrl !== map.imageUrl || imageMediaId !== map.imageMediaId || publishedSnapshot !== map.publishedSnapshot) {
+      await prisma.map.update({
+        where: { id },
+        // Keep updatedAt so the draft doesn't look edited since it was published
+        data: { imageUrl, imageMediaId, publishedSnapshot, updatedAt: map.updatedAt },
+      });
+      stats.maps++;
+    }
+  }
+}
+
+async function migrateZones() {
+  const zones = await prisma.zone.findMany({
+    where: { content: { contains: DATA_URL_MARKER } },
+    select: { id: true },
+  });
+  for (const { id } of zones) {
+    const zone = await prisma.zone.findUniqueOrThrow({ where: { id }, select: { content: true } });
+    const content = await externalizeContent(JSON.parse(zone.content) as ZoneContent);
+
+    await prisma.zone.update({ where: { id }, data: { content: JSON.stringify(content) } });
+    await linkZoneMedia(id, content);
+    stats.zones++;
+  }
+}
+
+async function migrateRevisions() {
+  const revisions = await prisma.mapRevision.findMany({
+    where: { snapshot: { contains: DATA_URL_MARKER } },
+    select: { id: true },
+  });
+  for (const { id } of revisions) {
+    const revision = await prisma.mapRevision.findUniqueOrThrow({ where: { id }, select: { snapshot: true } });
+    const snapshot = await externalizeSnapshot(JSON.parse(revision.snapshot) as MapSnapshot);
+
+    await prisma.mapRevision.update({ where: { id }, data: { snapshot: JSON.stringify(snapshot) } });
+    stats.revisions++;
+  }
+}
+
+async function processImages() {
+  const media = await prisma.media.findMany({
+    where: { width: null, mimeType: { startsWith: 'image/' } },
+    select: { id: true },
+  });
+  for (const { id } of media) {
+    if (await processStoredMedia(id)) stats.processed++;
+  }
+}
+
+async function main() {
+  await migrateMaps();
+  await migrateZones();
+  await migrateRevisions();
+  await processImages();
+
+  console.log(
+    `Stored ${stats.files} new files; updated ${stats.maps} maps, ${stats.zones} zones and ${stats.revisions} revisions; ` +
+    `generated variants for ${stats.processed} images`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error('Media migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());